@@ -4,9 +4,11 @@ import { useEffect, useState } from 'react';
 import { useParams, useSearchParams } from 'next/navigation';
 import { useTranslations, useLocale } from 'next-intl';
 import { TenantConfig, Category, Service } from '@/lib/config/tenant-schema';
+import { MAX_GROUP_SERVICES, getSequenceDuration } from '@/lib/booking/sequence';
 import { v4 as uuidv4 } from 'uuid';
 import { applyBrandColors, removeBrandColors } from '@/lib/theme/brand-colors';
 import { CalendarSkeleton, TimeSlotsSkeleton } from '@/components/booking/skeletons';
+import { CustomFieldInputs } from '@/components/booking/CustomFieldInputs';
 import './brand-theme.css';
 
 interface TimeSlot {
@@ -17,6 +19,13 @@ interface TimeSlot {
   totalCapacity: number;
   capacityPercentage: number;
   reason?: string;
+  staffIds?: string[];
+  recommended?: boolean;
+}
+
+interface StaffOption {
+  id: string;
+  name: string;
 }
 
 type BookingStep = 'service' | 'datetime' | 'details' | 'confirmation';
@@ -25,6 +34,7 @@ export default function BookingPage() {
   const t = useTranslations('booking');
   const tc = useTranslations('booking.common');
   const td = useTranslations('days');
+  const tPolicy = useTranslations('bookingPolicy');
   const locale = useLocale();
   const params = useParams();
   const searchParams = useSearchParams();
@@ -36,10 +46,18 @@ export default function BookingPage() {
 
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
   const [selectedService, setSelectedService] = useState<Service | null>(null);
+  const [cart, setCart] = useState<Service[]>([]); // Services to book back to back in one visit
+  const [cartServiceIds, setCartServiceIds] = useState<string[]>([]); // Set while booking the cart
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
   const [availableSlots, setAvailableSlots] = useState<TimeSlot[]>([]);
   const [loadingSlots, setLoadingSlots] = useState(false);
+  const [staffOptions, setStaffOptions] = useState<StaffOption[]>([]);
+  const [selectedStaffId, setSelectedStaffId] = useState<string | null>(null); // null = any available
+  const [hasFullyBookedSlots, setHasFullyBookedSlots] = useState(false);
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  const [waitlistJoined, setWaitlistJoined] = useState(false);
+  const [waitlistError, setWaitlistError] = useState<string | null>(null);
 
   const [currentStep, setCurrentStep] = useState<BookingStep>('service');
   const [bookingType, setBookingType] = useState<'guest' | 'login'>('guest');
@@ -48,10 +66,8 @@ export default function BookingPage() {
   const [guestEmail, setGuestEmail] = useState('');
   const [guestPhone, setGuestPhone] = useState('');
   const [password, setPassword] = useState('');
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [, setBookingNotes] = useState('');
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [, setCustomFieldValues] = useState<Record<string, string>>({});
+  const [bookingNotes, setBookingNotes] = useState('');
+  const [customFieldValues, setCustomFieldValues] = useState<Record<string, string | boolean>>({});
 
   const [reserving, setReserving] = useState(false);
   const [confirming, setConfirming] = useState(false);
@@ -101,7 +117,7 @@ export default function BookingPage() {
   }, [subdomain, t]);
 
   // State for date capacity data
-  const [dateCapacityMap, setDateCapacityMap] = useState<Map<string, { available: number; total: number; percentage: number; hasAvailableSlots: boolean }>>(new Map());
+  const [dateCapacityMap, setDateCapacityMap] = useState<Map<string, { available: number; total: number; percentage: number; hasAvailableSlots: boolean; hasFullyBookedSlots: boolean }>>(new Map());
   const [loadingDateCapacity, setLoadingDateCapacity] = useState(false);
 
   // Load capacity data for all visible dates when service is selected
@@ -120,20 +136,25 @@ export default function BookingPage() {
     endDate.setDate(endDate.getDate() + Math.min(config.bookingLimits.advanceBookingDays, 30));
     const endDateStr = formatDateYYYYMMDD(endDate);
 
-    fetch(`/api/booking/slots?subdomain=${subdomain}&serviceId=${selectedService.id}&startDate=${startDateStr}&endDate=${endDateStr}`)
+    // Several services in one visit: start times where the whole sequence fits
+    const slotsUrl = cartServiceIds.length > 1
+      ? `/api/booking/group/slots?subdomain=${subdomain}&serviceIds=${cartServiceIds.join(',')}&startDate=${startDateStr}&endDate=${endDateStr}`
+      : `/api/booking/slots?subdomain=${subdomain}&serviceId=${selectedService.id}&startDate=${startDateStr}&endDate=${endDateStr}`;
+
+    fetch(slotsUrl)
       .then(res => res.json())
       .then(data => {
         if (data.success && data.slots) {
           // Calculate capacity per day, filtering out past slots
           const now = new Date();
-          const capacityByDate = new Map<string, { available: number; total: number; hasAvailableSlots: boolean }>();
+          const capacityByDate = new Map<string, { available: number; total: number; hasAvailableSlots: boolean; hasFullyBookedSlots: boolean }>();
 
           data.slots.forEach((slot: TimeSlot) => {
             const slotTime = new Date(slot.start);
             const dateKey = formatDateYYYYMMDD(slotTime);
 
             if (!capacityByDate.has(dateKey)) {
-              capacityByDate.set(dateKey, { available: 0, total: 0, hasAvailableSlots: false });
+              capacityByDate.set(dateKey, { available: 0, total: 0, hasAvailableSlots: false, hasFullyBookedSlots: false });
             }
             const dayData = capacityByDate.get(dateKey)!;
             dayData.total += slot.totalCapacity;
@@ -143,10 +164,15 @@ export default function BookingPage() {
             if (slotTime > now && slot.available) {
               dayData.hasAvailableSlots = true;
             }
+
+            // Fully booked future slots can still be waitlisted
+            if (slotTime > now && slot.reason === 'Fully booked') {
+              dayData.hasFullyBookedSlots = true;
+            }
           });
 
           // Calculate percentages
-          const capacityMap = new Map<string, { available: number; total: number; percentage: number; hasAvailableSlots: boolean }>();
+          const capacityMap = new Map<string, { available: number; total: number; percentage: number; hasAvailableSlots: boolean; hasFullyBookedSlots: boolean }>();
           capacityByDate.forEach((value, key) => {
             const usedCapacity = value.total - value.available;
             const percentage = value.total > 0 ? Math.round((usedCapacity / value.total) * 100) : 0;
@@ -160,19 +186,26 @@ export default function BookingPage() {
         console.error('Failed to load date capacity:', err);
       })
       .finally(() => setLoadingDateCapacity(false));
-  }, [selectedService, subdomain, config]);
+  }, [selectedService, cartServiceIds, subdomain, config]);
 
   // Load available slots when service and date are selected
   useEffect(() => {
     if (!selectedService || !selectedDate || !subdomain) {
       setAvailableSlots([]);
+      setHasFullyBookedSlots(false);
       return;
     }
 
     setLoadingSlots(true);
+    setWaitlistJoined(false);
+    setWaitlistError(null);
     const dateStr = formatDateYYYYMMDD(selectedDate);
 
-    fetch(`/api/booking/slots?subdomain=${subdomain}&serviceId=${selectedService.id}&startDate=${dateStr}&endDate=${dateStr}`)
+    const slotsUrl = cartServiceIds.length > 1
+      ? `/api/booking/group/slots?subdomain=${subdomain}&serviceIds=${cartServiceIds.join(',')}&startDate=${dateStr}&endDate=${dateStr}`
+      : `/api/booking/slots?subdomain=${subdomain}&serviceId=${selectedService.id}&startDate=${dateStr}&endDate=${dateStr}`;
+
+    fetch(slotsUrl)
       .then(res => res.json())
       .then(data => {
         if (data.success && data.slots) {
@@ -181,6 +214,10 @@ export default function BookingPage() {
           const now = new Date();
           const isToday = selectedDate && formatDateYYYYMMDD(selectedDate) === formatDateYYYYMMDD(now);
 
+          setHasFullyBookedSlots(data.slots.some((s: TimeSlot) =>
+            s.reason === 'Fully booked' && new Date(s.start) > now
+          ));
+
           const filteredSlots = data.slots.filter((s: TimeSlot) => {
             // Always filter out fully booked slots
             if (!s.available) return false;
@@ -195,6 +232,7 @@ export default function BookingPage() {
           });
 
           setAvailableSlots(filteredSlots);
+          setStaffOptions(config?.features.enableMultipleStaff && data.staff ? data.staff : []);
         } else {
           setError(data.error || t('details.loadSlotsFailed'));
         }
@@ -204,16 +242,88 @@ export default function BookingPage() {
         setError(t('details.loadSlotsFailed'));
       })
       .finally(() => setLoadingSlots(false));
-  }, [selectedService, selectedDate, subdomain, t]);
+  }, [selectedService, cartServiceIds, selectedDate, subdomain, config, t]);
 
   // Handle service selection
   const handleServiceSelect = (service: Service) => {
     setSelectedService(service);
+    setCartServiceIds([]);
     setSelectedDate(null);
     setSelectedSlot(null);
+    setSelectedStaffId(null);
     setCurrentStep('datetime');
   };
 
+  // Deposits are paid per reservation, so services with one are booked on their own
+  const canAddToCart = (service: Service) =>
+    !(config?.features.enableOnlinePayments && service.requiresDeposit && service.depositAmount);
+
+  const toggleCartService = (service: Service) => {
+    setCart(prev => {
+      if (prev.some(s => s.id === service.id)) {
+        return prev.filter(s => s.id !== service.id);
+      }
+      return prev.length < MAX_GROUP_SERVICES ? [...prev, service] : prev;
+    });
+  };
+
+  // Book the cart: one combined service, running the services back to back in cart order
+  const handleCartCheckout = () => {
+    if (cart.length === 1) {
+      handleServiceSelect(cart[0]);
+      return;
+    }
+
+    handleServiceSelect({
+      ...cart[0],
+      id: cart.map(s => s.id).join('+'),
+      name: cart.map(s => s.name).join(' + '),
+      description: undefined,
+      duration: getSequenceDuration(cart),
+      price: cart.reduce((sum, s) => sum + s.price, 0),
+      requiresDeposit: false,
+      depositAmount: undefined,
+    });
+    setCartServiceIds(cart.map(s => s.id));
+  };
+
+  // Join the waitlist for the selected date (fully booked slots only)
+  const handleJoinWaitlist = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedService || !selectedDate) return;
+
+    setJoiningWaitlist(true);
+    setWaitlistError(null);
+
+    try {
+      const res = await fetch('/api/booking/waitlist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          subdomain,
+          serviceId: selectedService.id,
+          startDate: formatDateYYYYMMDD(selectedDate),
+          staffId: selectedStaffId || undefined,
+          name: guestName,
+          email: guestEmail,
+          phone: guestPhone || undefined,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || t('waitlist.failed'));
+      }
+
+      setWaitlistJoined(true);
+    } catch (err) {
+      setWaitlistError(err instanceof Error ? err.message : t('waitlist.failed'));
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
+
   // Handle slot selection
   const handleSlotSelect = async (slot: TimeSlot) => {
     if (!config || !selectedService) return;
@@ -222,6 +332,10 @@ export default function BookingPage() {
     setCurrentStep('details');
   };
 
+  // Localised text for a booking policy denial, falling back to the server message
+  const policyMessage = (data: { code?: string; error?: string; params?: Record<string, number> }) =>
+    data.code && tPolicy.has(data.code) ? tPolicy(data.code, data.params) : data.error;
+
   // Handle booking submission
   const handleBooking = async () => {
     if (!config || !selectedService || !selectedSlot || !subdomain) return;
@@ -330,7 +444,9 @@ export default function BookingPage() {
 
       // Validate custom fields
       for (const field of config.bookingRequirements.customFields) {
-        if (field.required && !customFieldValues[field.id]?.trim()) {
+        const value = customFieldValues[field.id];
+        const answered = field.type === 'checkbox' ? value === true : typeof value === 'string' && value.trim() !== '';
+        if (field.required && !answered) {
           setError(`${field.label} ${t('details.fieldRequired')}`);
           return;
         }
@@ -359,44 +475,92 @@ export default function BookingPage() {
         throw new Error(t('details.businessIdFailed'));
       }
 
+      // Several services in one visit are reserved (and confirmed) together, all or nothing
+      const isVisit = cartServiceIds.length > 1;
       const idempotencyKey = uuidv4();
-      const reserveRes = await fetch('/api/booking/reserve', {
+      const reserveRes = await fetch(isVisit ? '/api/booking/group/reserve' : '/api/booking/reserve', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          businessId,
-          serviceId: selectedService.id,
-          startTime: selectedSlot.start,
-          idempotencyKey,
-        }),
+        body: JSON.stringify(isVisit
+          ? {
+              businessId,
+              serviceIds: cartServiceIds,
+              startTime: selectedSlot.start,
+              idempotencyKey,
+              guestEmail: guestEmail || undefined,
+              guestPhone: guestPhone || undefined,
+            }
+          : {
+              businessId,
+              serviceId: selectedService.id,
+              startTime: selectedSlot.start,
+              idempotencyKey,
+              staffId: staffOptions.length > 0 ? (selectedStaffId || 'any') : undefined,
+              guestEmail: guestEmail || undefined,
+              guestPhone: guestPhone || undefined,
+            }),
       });
 
       const reserveData = await reserveRes.json();
 
       if (!reserveData.success) {
-        throw new Error(reserveData.error || t('details.reserveSlotFailed'));
+        throw new Error(policyMessage(reserveData) || t('details.reserveSlotFailed'));
+      }
+
+      setReservationId(isVisit ? reserveData.groupId : reserveData.reservationId);
+
+      // Deposits (service or no-show policy) are paid on the provider's page; /book/deposit commits on return
+      if (reserveData.deposit) {
+        const depositRes = await fetch('/api/booking/deposit', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            reservationId: reserveData.reservationId,
+            email: guestEmail || undefined,
+            phone: guestPhone || undefined,
+          }),
+        });
+
+        const depositData = await depositRes.json();
+
+        if (!depositData.success || !depositData.payment?.redirectUrl) {
+          throw new Error(policyMessage(depositData) || t('details.depositFailed'));
+        }
+
+        sessionStorage.setItem(`rhivo:deposit:${reserveData.reservationId}`, JSON.stringify({
+          subdomain,
+          guestEmail,
+          guestPhone: guestPhone || undefined,
+          guestName: guestName || undefined,
+          customFields: customFieldValues,
+          notes: bookingNotes || undefined,
+        }));
+
+        window.location.href = depositData.payment.redirectUrl;
+        return;
       }
 
-      setReservationId(reserveData.reservationId);
       setReserving(false);
       setConfirming(true);
 
       // Step 2: Commit booking
-      const commitRes = await fetch('/api/booking/commit', {
+      const commitRes = await fetch(isVisit ? '/api/booking/group/commit' : '/api/booking/commit', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          reservationId: reserveData.reservationId,
+          ...(isVisit ? { groupId: reserveData.groupId } : { reservationId: reserveData.reservationId }),
           guestEmail,
           guestPhone: guestPhone || undefined,
           guestName: guestName || undefined,
+          customFields: customFieldValues,
+          notes: bookingNotes || undefined,
         }),
       });
 
       const commitData = await commitRes.json();
 
       if (!commitData.success) {
-        throw new Error(commitData.error || t('details.confirmBookingFailed'));
+        throw new Error(policyMessage(commitData) || t('details.confirmBookingFailed'));
       }
 
       setAppointmentId(commitData.appointment.id);
@@ -457,6 +621,14 @@ export default function BookingPage() {
     availableDates.push(date);
   }
 
+  // When a specific staff member is chosen, only show times that person is free
+  // The waitlist is per service, so it's not offered for a multi-service visit
+  const waitlistEnabled = (config?.features.enableWaitlist || false) && cartServiceIds.length < 2;
+
+  const visibleSlots = selectedStaffId
+    ? availableSlots.filter(s => s.staffIds?.includes(selectedStaffId))
+    : availableSlots;
+
   return (
     <div className="min-h-screen bg-white booking-page">
       {/* Header */}
@@ -638,6 +810,60 @@ export default function BookingPage() {
               {/* Step Content */}
               {(currentStep === 'service' || currentStep === 'datetime') && !selectedService && (
                 <div className="space-y-6">
+                  {/* Cart: several services booked back to back in one visit */}
+                  {cart.length > 0 && (
+                    <div className="bg-white rounded-2xl border-2 brand-selected p-4 sm:p-6">
+                      <div className="flex items-center justify-between gap-3 mb-3">
+                        <h2 className="text-base sm:text-lg font-bold text-gray-900 tracking-tight">{t('cart.title')}</h2>
+                        <button
+                          onClick={() => setCart([])}
+                          className="text-xs sm:text-sm text-gray-500 hover:text-gray-700 font-medium px-3 py-1.5 hover:bg-gray-50 rounded-lg transition-all"
+                        >
+                          {t('cart.clear')}
+                        </button>
+                      </div>
+                      <ol className="space-y-2 mb-4">
+                        {cart.map((service, index) => (
+                          <li key={service.id} className="flex items-center justify-between gap-3 text-sm">
+                            <span className="text-gray-900">
+                              <span className="text-gray-400 mr-2">{index + 1}.</span>
+                              {service.name}
+                              <span className="text-gray-500"> • {service.duration} {t('service.duration')}</span>
+                            </span>
+                            <button
+                              onClick={() => toggleCartService(service)}
+                              className="text-xs text-gray-500 hover:text-red-600 font-medium"
+                            >
+                              {t('cart.remove')}
+                            </button>
+                          </li>
+                        ))}
+                      </ol>
+                      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                        <div className="text-xs sm:text-sm text-gray-600">
+                          {t('cart.total', { duration: getSequenceDuration(cart) })}
+                          <span className="mx-2">•</span>
+                          <span className="font-bold text-gray-900">
+                            {(() => {
+                              const total = cart.reduce((sum, s) => sum + s.price, 0);
+                              return total > 0 ? `${(total / 100).toFixed(2)} ${config.business.currency}` : t('details.free');
+                            })()}
+                          </span>
+                        </div>
+                        <button
+                          onClick={handleCartCheckout}
+                          className="px-4 py-2 rounded-xl text-sm font-semibold text-white transition-all active:scale-[0.98]"
+                          style={{ backgroundColor: 'var(--brand-primary)' }}
+                        >
+                          {t('cart.continue', { count: cart.length })}
+                        </button>
+                      </div>
+                      {cart.length > 1 && (
+                        <p className="text-xs text-gray-500 mt-3">{t('cart.hint')}</p>
+                      )}
+                    </div>
+                  )}
+
                   {/* Categories */}
                   <div className="bg-white rounded-2xl border border-gray-200/60 p-4 sm:p-6">
                     <div className="flex items-center gap-2 mb-4 sm:mb-5">
@@ -695,40 +921,55 @@ export default function BookingPage() {
                       <div className="space-y-3">
                         {selectedCategory.services
                           .filter(s => s.enabled)
-                          .map((service) => (
-                            <button
-                              key={service.id}
-                              onClick={() => handleServiceSelect(service)}
-                              className="w-full text-left p-4 sm:p-5 rounded-xl border-2 transition-all hover:shadow-sm active:scale-[0.99] border-gray-200 bg-white brand-hoverable"
-                            >
-                              <div className="flex items-start justify-between gap-3">
-                                <div className="flex-1 min-w-0">
-                                  <div className="font-semibold text-gray-900 mb-1.5 text-sm sm:text-base">{service.name}</div>
-                                  {service.description && (
-                                    <div className="text-xs sm:text-sm text-gray-500 mb-3 line-clamp-2">{service.description}</div>
-                                  )}
-                                  <div className="flex flex-wrap items-center gap-2 sm:gap-3 text-xs sm:text-sm">
-                                    <div className="flex items-center gap-1.5 text-gray-600">
-                                      <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
-                                      </svg>
-                                      <span className="whitespace-nowrap">{service.duration} {t('service.duration')}</span>
-                                    </div>
-                                    <span className="text-gray-300 hidden sm:inline">•</span>
-                                    <div className="font-bold text-gray-900 whitespace-nowrap">
-                                      {service.price > 0 ? `${(service.price / 100).toFixed(2)} ${config.business.currency}` : t('details.free')}
+                          .map((service) => {
+                            const inCart = cart.some(s => s.id === service.id);
+                            return (
+                              <div key={service.id} className="relative">
+                                <button
+                                  onClick={() => handleServiceSelect(service)}
+                                  className="w-full text-left p-4 sm:p-5 rounded-xl border-2 transition-all hover:shadow-sm active:scale-[0.99] border-gray-200 bg-white brand-hoverable"
+                                >
+                                  <div className="flex items-start justify-between gap-3">
+                                    <div className="flex-1 min-w-0">
+                                      <div className="font-semibold text-gray-900 mb-1.5 text-sm sm:text-base">{service.name}</div>
+                                      {service.description && (
+                                        <div className="text-xs sm:text-sm text-gray-500 mb-3 line-clamp-2">{service.description}</div>
+                                      )}
+                                      <div className="flex flex-wrap items-center gap-2 sm:gap-3 text-xs sm:text-sm">
+                                        <div className="flex items-center gap-1.5 text-gray-600">
+                                          <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                          </svg>
+                                          <span className="whitespace-nowrap">{service.duration} {t('service.duration')}</span>
+                                        </div>
+                                        <span className="text-gray-300 hidden sm:inline">•</span>
+                                        <div className="font-bold text-gray-900 whitespace-nowrap">
+                                          {service.price > 0 ? `${(service.price / 100).toFixed(2)} ${config.business.currency}` : t('details.free')}
+                                        </div>
+                                      </div>
                                     </div>
+                                    {service.color && (
+                                      <div
+                                        className="w-4 h-4 sm:w-5 sm:h-5 rounded-full flex-shrink-0 mt-1"
+                                        style={{ backgroundColor: service.color }}
+                                      />
+                                    )}
                                   </div>
-                                </div>
-                                {service.color && (
-                                  <div
-                                    className="w-4 h-4 sm:w-5 sm:h-5 rounded-full flex-shrink-0 mt-1"
-                                    style={{ backgroundColor: service.color }}
-                                  />
+                                </button>
+                                {canAddToCart(service) && (
+                                  <button
+                                    onClick={() => toggleCartService(service)}
+                                    disabled={!inCart && cart.length >= MAX_GROUP_SERVICES}
+                                    className={`absolute bottom-3 right-3 sm:bottom-4 sm:right-4 text-xs font-semibold px-3 py-1.5 rounded-lg border transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                                      inCart ? 'brand-selected' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                                    }`}
+                                  >
+                                    {inCart ? t('cart.added') : t('cart.add')}
+                                  </button>
                                 )}
                               </div>
-                            </button>
-                          ))}
+                            );
+                          })}
                       </div>
                     </div>
                   )}
@@ -823,7 +1064,10 @@ export default function BookingPage() {
                           const capacityPct = capacityData?.percentage || 0;
 
                           // Date is available if: day is enabled, not closed, and has future available slots
-                          const isAvailable = (dayAvail?.enabled || false) && !isClosed && (capacityData?.hasAvailableSlots !== false);
+                          // (or fully booked slots that can be waitlisted)
+                          const isAvailable = (dayAvail?.enabled || false) && !isClosed && (
+                            capacityData?.hasAvailableSlots !== false || (waitlistEnabled && capacityData?.hasFullyBookedSlots)
+                          );
                           const isSelected = selectedDate && formatDateYYYYMMDD(date) === formatDateYYYYMMDD(selectedDate);
 
                           // Determine background color based on capacity
@@ -909,7 +1153,10 @@ export default function BookingPage() {
                         const capacityPct = capacityData?.percentage || 0;
 
                         // Date is available if: day is enabled, not closed, and has future available slots
-                        const isAvailable = (dayAvail?.enabled || false) && !isClosed && (capacityData?.hasAvailableSlots !== false);
+                        // (or fully booked slots that can be waitlisted)
+                        const isAvailable = (dayAvail?.enabled || false) && !isClosed && (
+                          capacityData?.hasAvailableSlots !== false || (waitlistEnabled && capacityData?.hasFullyBookedSlots)
+                        );
                         const isSelected = selectedDate && formatDateYYYYMMDD(date) === formatDateYYYYMMDD(selectedDate);
 
                         // Determine background color based on capacity
@@ -984,12 +1231,42 @@ export default function BookingPage() {
                     )}
                   </div>
 
+                  {/* Staff Selection */}
+                  {selectedDate && !loadingSlots && staffOptions.length > 0 && (
+                    <div className="mb-5 sm:mb-6">
+                      <h3 className="text-sm sm:text-base font-semibold text-gray-900 mb-3">{t('datetime.selectStaff')}</h3>
+                      <div className="flex gap-2 overflow-x-auto pb-1">
+                        <button
+                          onClick={() => setSelectedStaffId(null)}
+                          className={`px-4 py-2 rounded-xl border-2 text-sm font-semibold whitespace-nowrap transition-all active:scale-95 ${
+                            selectedStaffId === null ? 'text-white border-transparent' : 'border-gray-200 bg-white text-gray-900 hover:border-gray-300'
+                          }`}
+                          style={selectedStaffId === null ? { backgroundColor: 'var(--brand-primary)' } : undefined}
+                        >
+                          {t('datetime.anyStaff')}
+                        </button>
+                        {staffOptions.map(staff => (
+                          <button
+                            key={staff.id}
+                            onClick={() => setSelectedStaffId(staff.id)}
+                            className={`px-4 py-2 rounded-xl border-2 text-sm font-semibold whitespace-nowrap transition-all active:scale-95 ${
+                              selectedStaffId === staff.id ? 'text-white border-transparent' : 'border-gray-200 bg-white text-gray-900 hover:border-gray-300'
+                            }`}
+                            style={selectedStaffId === staff.id ? { backgroundColor: 'var(--brand-primary)' } : undefined}
+                          >
+                            {staff.name}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Time Slots */}
                   {selectedDate && (
                     <div>
                       {loadingSlots ? (
                         <TimeSlotsSkeleton />
-                      ) : availableSlots.length === 0 ? (
+                      ) : visibleSlots.length === 0 ? (
                         <div className="text-center py-10 sm:py-12">
                           <svg className="w-14 h-14 sm:w-16 sm:h-16 text-gray-400 mx-auto mb-3 sm:mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -1002,15 +1279,15 @@ export default function BookingPage() {
                           {/* Group slots by time of day for better UX */}
                           {(() => {
                             // Group slots: Morning (6-12), Afternoon (12-17), Evening (17-22)
-                            const morning = availableSlots.filter(s => {
+                            const morning = visibleSlots.filter(s => {
                               const hour = new Date(s.start).getHours();
                               return hour >= 6 && hour < 12;
                             });
-                            const afternoon = availableSlots.filter(s => {
+                            const afternoon = visibleSlots.filter(s => {
                               const hour = new Date(s.start).getHours();
                               return hour >= 12 && hour < 17;
                             });
-                            const evening = availableSlots.filter(s => {
+                            const evening = visibleSlots.filter(s => {
                               const hour = new Date(s.start).getHours();
                               return hour >= 17 && hour < 22;
                             });
@@ -1034,9 +1311,12 @@ export default function BookingPage() {
                                         <button
                                           key={idx}
                                           onClick={() => handleSlotSelect(slot)}
-                                          className="px-3 py-4 rounded-2xl border-2 border-gray-200 bg-white brand-slot transition-all text-center font-bold text-gray-900 active:scale-95"
+                                          className={`px-3 py-4 rounded-2xl border-2 ${slot.recommended ? 'brand-slot-recommended' : 'border-gray-200 bg-white'} brand-slot transition-all text-center font-bold text-gray-900 active:scale-95`}
                                         >
                                           <div className="text-base">{formatTime(new Date(slot.start), locale)}</div>
+                                          {slot.recommended && (
+                                            <div className="text-[10px] font-semibold brand-slot-recommended-label mt-0.5">{t('datetime.recommended')}</div>
+                                          )}
                                         </button>
                                       ))}
                                     </div>
@@ -1046,9 +1326,12 @@ export default function BookingPage() {
                                         <button
                                           key={idx}
                                           onClick={() => handleSlotSelect(slot)}
-                                          className="px-3 py-3 rounded-xl border-2 border-gray-200 bg-white brand-slot transition-all text-center text-sm font-semibold text-gray-900 active:scale-95 min-h-[44px]"
+                                          className={`px-3 py-3 rounded-xl border-2 ${slot.recommended ? 'brand-slot-recommended' : 'border-gray-200 bg-white'} brand-slot transition-all text-center text-sm font-semibold text-gray-900 active:scale-95 min-h-[44px]`}
                                         >
                                           {formatTime(new Date(slot.start), locale)}
+                                          {slot.recommended && (
+                                            <div className="text-[10px] font-semibold brand-slot-recommended-label">{t('datetime.recommended')}</div>
+                                          )}
                                         </button>
                                       ))}
                                     </div>
@@ -1072,9 +1355,12 @@ export default function BookingPage() {
                                         <button
                                           key={idx}
                                           onClick={() => handleSlotSelect(slot)}
-                                          className="px-3 py-4 rounded-2xl border-2 border-gray-200 bg-white brand-slot transition-all text-center font-bold text-gray-900 active:scale-95"
+                                          className={`px-3 py-4 rounded-2xl border-2 ${slot.recommended ? 'brand-slot-recommended' : 'border-gray-200 bg-white'} brand-slot transition-all text-center font-bold text-gray-900 active:scale-95`}
                                         >
                                           <div className="text-base">{formatTime(new Date(slot.start), locale)}</div>
+                                          {slot.recommended && (
+                                            <div className="text-[10px] font-semibold brand-slot-recommended-label mt-0.5">{t('datetime.recommended')}</div>
+                                          )}
                                         </button>
                                       ))}
                                     </div>
@@ -1084,9 +1370,12 @@ export default function BookingPage() {
                                         <button
                                           key={idx}
                                           onClick={() => handleSlotSelect(slot)}
-                                          className="px-3 py-3 rounded-xl border-2 border-gray-200 bg-white brand-slot transition-all text-center text-sm font-semibold text-gray-900 active:scale-95 min-h-[44px]"
+                                          className={`px-3 py-3 rounded-xl border-2 ${slot.recommended ? 'brand-slot-recommended' : 'border-gray-200 bg-white'} brand-slot transition-all text-center text-sm font-semibold text-gray-900 active:scale-95 min-h-[44px]`}
                                         >
                                           {formatTime(new Date(slot.start), locale)}
+                                          {slot.recommended && (
+                                            <div className="text-[10px] font-semibold brand-slot-recommended-label">{t('datetime.recommended')}</div>
+                                          )}
                                         </button>
                                       ))}
                                     </div>
@@ -1110,9 +1399,12 @@ export default function BookingPage() {
                                         <button
                                           key={idx}
                                           onClick={() => handleSlotSelect(slot)}
-                                          className="px-3 py-4 rounded-2xl border-2 border-gray-200 bg-white brand-slot transition-all text-center font-bold text-gray-900 active:scale-95"
+                                          className={`px-3 py-4 rounded-2xl border-2 ${slot.recommended ? 'brand-slot-recommended' : 'border-gray-200 bg-white'} brand-slot transition-all text-center font-bold text-gray-900 active:scale-95`}
                                         >
                                           <div className="text-base">{formatTime(new Date(slot.start), locale)}</div>
+                                          {slot.recommended && (
+                                            <div className="text-[10px] font-semibold brand-slot-recommended-label mt-0.5">{t('datetime.recommended')}</div>
+                                          )}
                                         </button>
                                       ))}
                                     </div>
@@ -1122,9 +1414,12 @@ export default function BookingPage() {
                                         <button
                                           key={idx}
                                           onClick={() => handleSlotSelect(slot)}
-                                          className="px-3 py-3 rounded-xl border-2 border-gray-200 bg-white brand-slot transition-all text-center text-sm font-semibold text-gray-900 active:scale-95 min-h-[44px]"
+                                          className={`px-3 py-3 rounded-xl border-2 ${slot.recommended ? 'brand-slot-recommended' : 'border-gray-200 bg-white'} brand-slot transition-all text-center text-sm font-semibold text-gray-900 active:scale-95 min-h-[44px]`}
                                         >
                                           {formatTime(new Date(slot.start), locale)}
+                                          {slot.recommended && (
+                                            <div className="text-[10px] font-semibold brand-slot-recommended-label">{t('datetime.recommended')}</div>
+                                          )}
                                         </button>
                                       ))}
                                     </div>
@@ -1135,6 +1430,64 @@ export default function BookingPage() {
                           })()}
                         </div>
                       )}
+
+                      {/* Waitlist */}
+                      {!loadingSlots && waitlistEnabled && hasFullyBookedSlots && (
+                        <div className="mt-6 sm:mt-8 p-4 sm:p-5 rounded-2xl border border-gray-200/60 bg-gray-50">
+                          {waitlistJoined ? (
+                            <div className="flex items-start gap-3">
+                              <svg className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                              </svg>
+                              <div>
+                                <p className="text-sm sm:text-base font-semibold text-gray-900">{t('waitlist.joined')}</p>
+                                <p className="text-xs sm:text-sm text-gray-600 mt-1">{t('waitlist.joinedDescription')}</p>
+                              </div>
+                            </div>
+                          ) : (
+                            <form onSubmit={handleJoinWaitlist}>
+                              <h3 className="text-sm sm:text-base font-semibold text-gray-900">{t('waitlist.title')}</h3>
+                              <p className="text-xs sm:text-sm text-gray-600 mt-1 mb-4">{t('waitlist.description')}</p>
+                              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2.5">
+                                <input
+                                  type="text"
+                                  required
+                                  value={guestName}
+                                  onChange={(e) => setGuestName(e.target.value)}
+                                  placeholder={t('details.namePlaceholder')}
+                                  className="w-full px-4 py-3 bg-white border border-gray-200/60 rounded-xl focus:outline-none transition-all text-gray-900 placeholder:text-gray-400 text-sm"
+                                />
+                                <input
+                                  type="email"
+                                  required
+                                  value={guestEmail}
+                                  onChange={(e) => setGuestEmail(e.target.value)}
+                                  placeholder={t('details.emailPlaceholder')}
+                                  className="w-full px-4 py-3 bg-white border border-gray-200/60 rounded-xl focus:outline-none transition-all text-gray-900 placeholder:text-gray-400 text-sm"
+                                />
+                                <input
+                                  type="tel"
+                                  value={guestPhone}
+                                  onChange={(e) => setGuestPhone(e.target.value)}
+                                  placeholder={t('details.phonePlaceholder')}
+                                  className="w-full px-4 py-3 bg-white border border-gray-200/60 rounded-xl focus:outline-none transition-all text-gray-900 placeholder:text-gray-400 text-sm"
+                                />
+                              </div>
+                              {waitlistError && (
+                                <p className="text-xs sm:text-sm text-red-600 mt-3">{waitlistError}</p>
+                              )}
+                              <button
+                                type="submit"
+                                disabled={joiningWaitlist}
+                                className="mt-4 w-full sm:w-auto px-5 py-2.5 text-sm font-semibold text-white rounded-xl transition-all active:scale-95 disabled:opacity-50"
+                                style={{ backgroundColor: 'var(--brand-primary)' }}
+                              >
+                                {joiningWaitlist ? t('waitlist.joining') : t('waitlist.join')}
+                              </button>
+                            </form>
+                          )}
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -1272,56 +1625,26 @@ export default function BookingPage() {
                         </div>
                       )}
 
-                      {/* Custom fields - temporarily hidden */}
-                      {/* {config.bookingRequirements.customFields.map((field) => (
-                        <div key={field.id}>
-                          <label htmlFor={field.id} className="block text-sm font-semibold text-gray-900 mb-2.5">
-                            {field.label} {field.required && <span className="text-red-500">*</span>}
-                          </label>
-                          {field.type === 'textarea' ? (
-                            <textarea
-                              id={field.id}
-                              value={customFieldValues[field.id] || ''}
-                              onChange={(e) => setCustomFieldValues({ ...customFieldValues, [field.id]: e.target.value })}
-                              rows={4}
-                              maxLength={field.maxLength}
-                              placeholder={field.placeholder}
-                              className="w-full px-4 py-3.5 bg-white border border-gray-200/60 rounded-xl focus:outline-none  transition-all resize-none text-gray-900 placeholder:text-gray-400 text-sm"
-                            />
-                          ) : field.type === 'select' ? (
-                            <div className="relative">
-                              <select
-                                id={field.id}
-                                value={customFieldValues[field.id] || ''}
-                                onChange={(e) => setCustomFieldValues({ ...customFieldValues, [field.id]: e.target.value })}
-                                className="w-full px-4 py-3.5 bg-white border border-gray-200/60 rounded-xl focus:outline-none  transition-all text-gray-900 appearance-none cursor-pointer text-sm"
-                              >
-                                <option value="" className="text-gray-400">Select an option</option>
-                                {field.options?.map((option) => (
-                                  <option key={option} value={option} className="text-gray-900">
-                                    {option}
-                                  </option>
-                                ))}
-                              </select>
-                              <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none">
-                                <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                                </svg>
-                              </div>
-                            </div>
-                          ) : (
-                            <input
-                              type="text"
-                              id={field.id}
-                              value={customFieldValues[field.id] || ''}
-                              onChange={(e) => setCustomFieldValues({ ...customFieldValues, [field.id]: e.target.value })}
-                              maxLength={field.maxLength}
-                              placeholder={field.placeholder}
-                              className="w-full px-4 py-3.5 bg-white border border-gray-200/60 rounded-xl focus:outline-none  transition-all text-gray-900 placeholder:text-gray-400 text-sm"
-                            />
-                          )}
-                        </div>
-                      ))} */}
+                      <CustomFieldInputs
+                        fields={config.bookingRequirements.customFields}
+                        values={customFieldValues}
+                        onChange={setCustomFieldValues}
+                      />
+
+                      <div>
+                        <label htmlFor="booking-notes" className="block text-sm font-semibold text-gray-900 mb-2.5">
+                          {t('details.notes')}
+                        </label>
+                        <textarea
+                          id="booking-notes"
+                          value={bookingNotes}
+                          onChange={(e) => setBookingNotes(e.target.value)}
+                          rows={3}
+                          maxLength={1000}
+                          placeholder={t('details.notesPlaceholder')}
+                          className="w-full px-4 py-3.5 bg-white border border-gray-200/60 rounded-xl focus:outline-none  transition-all resize-none text-gray-900 placeholder:text-gray-400 text-sm"
+                        />
+                      </div>
                     </div>
                   )}
 
@@ -1551,7 +1874,11 @@ export default function BookingPage() {
                           </span>
                         </div>
                         <p className="text-xs text-gray-500 mt-3 leading-relaxed">
-                          {t('details.paymentNotice')}
+                          {config.features.enableOnlinePayments && selectedService?.requiresDeposit && selectedService.depositAmount
+                            ? t('details.depositNotice', {
+                                amount: `${(selectedService.depositAmount / 100).toFixed(2)} ${config.business.currency}`,
+                              })
+                            : t('details.paymentNotice')}
                         </p>
                       </div>
                     </div>
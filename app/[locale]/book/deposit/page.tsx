@@ -0,0 +1,153 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslations } from 'next-intl';
+import { Link } from '@/i18n/routing';
+import { useSearchParams } from 'next/navigation';
+
+interface PendingDepositBooking {
+  subdomain: string;
+  guestEmail: string;
+  guestPhone?: string;
+  guestName?: string;
+  customFields?: Record<string, string | boolean>;
+  notes?: string;
+}
+
+export default function DepositReturnPage() {
+  const t = useTranslations('booking.deposit');
+  const tPolicy = useTranslations('bookingPolicy');
+  const searchParams = useSearchParams();
+  const reservationId = searchParams.get('reservation');
+
+  const [booking, setBooking] = useState<PendingDepositBooking | null>(null);
+  const [confirming, setConfirming] = useState(true);
+  const [bookingId, setBookingId] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState('');
+
+  const confirmBooking = useCallback(async (details: PendingDepositBooking) => {
+    if (!reservationId) return;
+
+    setConfirming(true);
+    setPending(false);
+    setError('');
+
+    try {
+      const res = await fetch('/api/booking/commit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reservationId,
+          guestEmail: details.guestEmail,
+          guestPhone: details.guestPhone,
+          guestName: details.guestName,
+          customFields: details.customFields,
+          notes: details.notes,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok && data.success) {
+        sessionStorage.removeItem(`rhivo:deposit:${reservationId}`);
+        setBookingId(data.appointment.bookingId);
+      } else if (data.code === 'DEPOSIT_REQUIRED') {
+        // The provider can redirect back before the payment is settled
+        setPending(true);
+      } else {
+        setError((data.code && tPolicy.has(data.code) ? tPolicy(data.code, data.params) : data.error) || t('genericError'));
+      }
+    } catch {
+      setError(t('connectionError'));
+    } finally {
+      setConfirming(false);
+    }
+  }, [reservationId, t, tPolicy]);
+
+  useEffect(() => {
+    if (!reservationId) {
+      setError(t('missingReservation'));
+      setConfirming(false);
+      return;
+    }
+
+    const stored = sessionStorage.getItem(`rhivo:deposit:${reservationId}`);
+
+    if (!stored) {
+      setError(t('sessionExpired'));
+      setConfirming(false);
+      return;
+    }
+
+    const details = JSON.parse(stored) as PendingDepositBooking;
+    setBooking(details);
+    confirmBooking(details);
+  }, [reservationId, t, confirmBooking]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full overflow-hidden">
+        {/* Header */}
+        <div className="px-8 py-6 border-b border-gray-100">
+          <h1 className="text-2xl font-bold text-gray-900 tracking-tight mb-2">
+            {t('title')}
+          </h1>
+          <p className="text-sm text-gray-500">
+            {t('subtitle')}
+          </p>
+        </div>
+
+        {/* Content */}
+        <div className="px-8 py-6">
+          {confirming ? (
+            <div className="flex flex-col items-center gap-3 py-8">
+              <div className="w-6 h-6 border-2 border-teal-600 border-t-transparent rounded-full animate-spin" />
+              <p className="text-sm text-gray-500">{t('confirming')}</p>
+            </div>
+          ) : bookingId ? (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-xl flex items-start gap-3">
+              <svg className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <div>
+                <p className="text-sm font-semibold text-green-800">{t('confirmed')}</p>
+                <p className="text-sm text-green-800 mt-1">{t('bookingId', { bookingId })}</p>
+              </div>
+            </div>
+          ) : pending && booking ? (
+            <div className="space-y-5">
+              <p className="text-sm text-gray-700">{t('pending')}</p>
+              <button
+                onClick={() => confirmBooking(booking)}
+                className="w-full px-6 py-3 bg-teal-600 hover:bg-teal-700 text-white text-sm font-semibold rounded-xl transition-all shadow-sm hover:shadow-md"
+              >
+                {t('retry')}
+              </button>
+            </div>
+          ) : null}
+
+          {error && (
+            <div className="mt-5 p-4 bg-red-50 border border-red-200 rounded-xl flex items-start gap-3">
+              <svg className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {booking && !confirming && (
+            <div className="mt-6 pt-6 border-t border-gray-100 text-center">
+              <Link
+                href={`/book/${booking.subdomain}`}
+                className="text-sm font-medium text-gray-500 hover:text-gray-900 transition-colors"
+              >
+                {t('backToBooking')}
+              </Link>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
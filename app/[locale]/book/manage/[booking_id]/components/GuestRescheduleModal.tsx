@@ -20,6 +20,7 @@ interface GuestRescheduleModalProps {
   currentStartTime: string;
   currentEndTime: string;
   duration: number;
+  groupServiceIds?: string[]; // Services of a multi-service booking, moved together
   token: string;
   onClose: () => void;
   onSuccess: () => void;
@@ -33,12 +34,14 @@ export default function GuestRescheduleModal({
   currentStartTime,
   currentEndTime,
   duration,
+  groupServiceIds,
   token,
   onClose,
   onSuccess,
 }: GuestRescheduleModalProps) {
   const t = useTranslations('manageBooking.reschedule');
   const tDetails = useTranslations('manageBooking.details');
+  const tPolicy = useTranslations('bookingPolicy');
   const locale = useLocale();
 
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
@@ -54,6 +57,13 @@ export default function GuestRescheduleModal({
   const [touchStart, setTouchStart] = useState<number | null>(null);
   const [touchEnd, setTouchEnd] = useState<number | null>(null);
 
+  // A multi-service booking needs start times where every service still fits
+  function slotsUrl(dateStr: string) {
+    return groupServiceIds && groupServiceIds.length > 1
+      ? `/api/booking/group/slots?subdomain=${subdomain}&serviceIds=${groupServiceIds.join(',')}&startDate=${dateStr}&endDate=${dateStr}`
+      : `/api/booking/slots?subdomain=${subdomain}&serviceId=${serviceId}&startDate=${dateStr}&endDate=${dateStr}`;
+  }
+
   // Initialize with current date
   useEffect(() => {
     const currentDate = new Date(currentStartTime);
@@ -176,9 +186,7 @@ export default function GuestRescheduleModal({
       const availabilityPromises = weekDates.map(async (date) => {
         try {
           const dateStr = formatDateKey(date);
-          const response = await fetch(
-            `/api/booking/slots?subdomain=${subdomain}&serviceId=${serviceId}&startDate=${dateStr}&endDate=${dateStr}`
-          );
+          const response = await fetch(slotsUrl(dateStr));
 
           const data = await response.json();
 
@@ -222,9 +230,7 @@ export default function GuestRescheduleModal({
       }
 
       const dateStr = formatDateKey(selectedDate);
-      const response = await fetch(
-        `/api/booking/slots?subdomain=${subdomain}&serviceId=${serviceId}&startDate=${dateStr}&endDate=${dateStr}`
-      );
+      const response = await fetch(slotsUrl(dateStr));
 
       const data = await response.json();
 
@@ -265,7 +271,8 @@ export default function GuestRescheduleModal({
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || t('rescheduleError'));
+        const policyMessage = data.code && tPolicy.has(data.code) ? tPolicy(data.code, data.params) : null;
+        throw new Error(policyMessage || data.error || t('rescheduleError'));
       }
 
       if (data.tokenInvalidated) {
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useParams, useSearchParams } from 'next/navigation';
 import { useTranslations, useLocale } from 'next-intl';
 import GuestRescheduleModal from './components/GuestRescheduleModal';
+import { downloadAppointmentIcs } from '@/lib/calendar/download';
 
 interface Appointment {
   id: string;
@@ -18,10 +19,24 @@ interface Appointment {
   status: string;
   subdomain: string;
   businessName: string;
+  timezone: string;
+  version?: number;
+  group?: {
+    serviceIds: string[];
+    services: Array<{ id: string; name: string; startTime: string; endTime: string }>;
+  } | null;
+}
+
+interface PolicyDecision {
+  allowed: boolean;
+  code?: string;
+  error?: string;
+  params?: { hours?: number; limit?: number };
 }
 
 export default function ManageAppointmentPage() {
   const t = useTranslations('manageBooking.details');
+  const tPolicy = useTranslations('bookingPolicy');
   const locale = useLocale();
   const params = useParams();
   const searchParams = useSearchParams();
@@ -32,6 +47,7 @@ export default function ManageAppointmentPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showRescheduleModal, setShowRescheduleModal] = useState(false);
+  const [policy, setPolicy] = useState<{ cancel: PolicyDecision; reschedule: PolicyDecision } | null>(null);
 
   useEffect(() => {
     if (!bookingId || !token) {
@@ -47,6 +63,7 @@ export default function ManageAppointmentPage() {
 
         if (res.ok) {
           setAppointment(data.appointment);
+          setPolicy(data.policy || null);
         } else {
           setError(data.error || t('loadFailed'));
         }
@@ -60,6 +77,10 @@ export default function ManageAppointmentPage() {
     fetchAppointment();
   }, [bookingId, token, t]);
 
+  // Localised text for a policy denial, falling back to the server message
+  const policyMessage = (decision: { code?: string; error?: string; params?: PolicyDecision['params'] }) =>
+    decision.code && tPolicy.has(decision.code) ? tPolicy(decision.code, decision.params) : decision.error;
+
   const handleCancel = async () => {
     if (!appointment) return;
 
@@ -77,7 +98,7 @@ export default function ManageAppointmentPage() {
           setAppointment({ ...appointment, status: 'canceled' });
         } else {
           const data = await res.json();
-          alert(data.error || t('cancelFailed'));
+          alert(policyMessage(data) || t('cancelFailed'));
         }
       } catch {
         alert(t('unexpectedError'));
@@ -85,6 +106,21 @@ export default function ManageAppointmentPage() {
     }
   };
 
+  const handleAddToCalendar = () => {
+    if (!appointment) return;
+
+    downloadAppointmentIcs({
+      id: appointment.id,
+      bookingId: appointment.bookingId,
+      serviceName: appointment.serviceName,
+      businessName: appointment.businessName,
+      start: appointment.startTime,
+      end: appointment.endTime,
+      status: appointment.status,
+      version: appointment.version,
+    }, appointment.timezone);
+  };
+
   const handleRescheduleSuccess = () => {
     setShowRescheduleModal(false);
     // Refresh appointment data after reschedule
@@ -250,19 +286,46 @@ export default function ManageAppointmentPage() {
             <div className="px-8 py-6 bg-gray-50 border-t border-gray-100 flex flex-col sm:flex-row gap-3">
               <button
                 onClick={() => setShowRescheduleModal(true)}
-                className="flex-1 px-5 py-2.5 text-sm font-semibold text-teal-700 bg-white hover:bg-teal-50 rounded-xl transition-all border border-teal-300 hover:border-teal-400"
+                disabled={policy ? !policy.reschedule.allowed : false}
+                className="flex-1 px-5 py-2.5 text-sm font-semibold text-teal-700 bg-white hover:bg-teal-50 rounded-xl transition-all border border-teal-300 hover:border-teal-400 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-white"
               >
                 {t('rescheduleButton')}
               </button>
               <button
                 onClick={handleCancel}
-                className="flex-1 px-5 py-2.5 text-sm font-semibold text-white bg-red-600 hover:bg-red-700 rounded-xl transition-all shadow-sm hover:shadow-md"
+                disabled={policy ? !policy.cancel.allowed : false}
+                className="flex-1 px-5 py-2.5 text-sm font-semibold text-white bg-red-600 hover:bg-red-700 rounded-xl transition-all shadow-sm hover:shadow-md disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-red-600"
               >
                 {t('cancelButton')}
               </button>
             </div>
           )}
 
+          {appointment.status === 'confirmed' && (
+            <div className="px-8 pb-6 bg-gray-50">
+              <button
+                onClick={handleAddToCalendar}
+                className="w-full px-5 py-2.5 text-sm font-semibold text-gray-700 bg-white hover:bg-gray-100 rounded-xl transition-all border border-gray-300 flex items-center justify-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                {t('addToCalendar')}
+              </button>
+            </div>
+          )}
+
+          {appointment.status === 'confirmed' && policy && (!policy.reschedule.allowed || !policy.cancel.allowed) && (
+            <div className="px-8 pb-6 bg-gray-50 space-y-1">
+              {!policy.reschedule.allowed && (
+                <p className="text-xs text-gray-500 text-center">{policyMessage(policy.reschedule)}</p>
+              )}
+              {!policy.cancel.allowed && (
+                <p className="text-xs text-gray-500 text-center">{policyMessage(policy.cancel)}</p>
+              )}
+            </div>
+          )}
+
           {appointment.status === 'canceled' && (
             <div className="px-8 py-6 bg-gray-50 border-t border-gray-100">
               <p className="text-sm text-gray-600 text-center">{t('canceledMessage')}</p>
@@ -280,6 +343,7 @@ export default function ManageAppointmentPage() {
           currentStartTime={appointment.startTime}
           currentEndTime={appointment.endTime}
           duration={appointment.duration}
+          groupServiceIds={appointment.group?.serviceIds}
           token={token}
           onClose={() => setShowRescheduleModal(false)}
           onSuccess={handleRescheduleSuccess}
@@ -0,0 +1,263 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+import { Link } from '@/i18n/routing';
+import { useSearchParams } from 'next/navigation';
+import { CustomFieldInputs } from '@/components/booking/CustomFieldInputs';
+import type { CustomFieldDefinition } from '@/lib/booking/custom-fields';
+
+interface WaitlistOfferDetails {
+  businessName: string;
+  subdomain: string;
+  timezone: string;
+  serviceName: string;
+  name: string;
+  slotStart: string;
+  slotEnd: string;
+  expiresAt: string;
+}
+
+// Answers kept while the customer is on the deposit payment page
+interface PendingWaitlistClaim {
+  customFields: Record<string, string | boolean>;
+  notes: string;
+}
+
+export default function WaitlistClaimPage() {
+  const t = useTranslations('booking.waitlist.claim');
+  const td = useTranslations('booking.details');
+  const tPolicy = useTranslations('bookingPolicy');
+  const locale = useLocale();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [offer, setOffer] = useState<WaitlistOfferDetails | null>(null);
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<Record<string, string | boolean>>({});
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [claiming, setClaiming] = useState(false);
+  const [bookingId, setBookingId] = useState<string | null>(null);
+  const [depositPending, setDepositPending] = useState(false);
+  const [error, setError] = useState('');
+
+  const claim = useCallback(async (details: PendingWaitlistClaim) => {
+    if (!token) return;
+
+    const storageKey = `rhivo:waitlist:${token}`;
+
+    setClaiming(true);
+    setDepositPending(false);
+    setError('');
+
+    try {
+      const res = await fetch('/api/booking/waitlist/claim', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, customFields: details.customFields, notes: details.notes }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok && data.success) {
+        sessionStorage.removeItem(storageKey);
+        setBookingId(data.appointment.bookingId);
+        return;
+      }
+
+      if (data.code !== 'DEPOSIT_REQUIRED') {
+        setError(data.code && tPolicy.has(data.code) ? tPolicy(data.code, data.params) : data.error || t('genericError'));
+        return;
+      }
+
+      // Back from the payment page, but the provider hasn't settled the payment yet
+      if (sessionStorage.getItem(storageKey)) {
+        setDepositPending(true);
+        return;
+      }
+
+      // Pay on the provider's page, which sends the customer back here to claim
+      const depositRes = await fetch('/api/booking/deposit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ waitlistToken: token }),
+      });
+
+      const depositData = await depositRes.json();
+
+      if (!depositData.success || !depositData.payment?.redirectUrl) {
+        setError(
+          depositData.code && tPolicy.has(depositData.code)
+            ? tPolicy(depositData.code, depositData.params)
+            : depositData.error || t('depositFailed')
+        );
+        return;
+      }
+
+      sessionStorage.setItem(storageKey, JSON.stringify(details));
+      window.location.href = depositData.payment.redirectUrl;
+    } catch {
+      setError(t('connectionError'));
+    } finally {
+      setClaiming(false);
+    }
+  }, [token, t, tPolicy]);
+
+  useEffect(() => {
+    if (!token) {
+      setError(t('invalidOffer'));
+      setLoading(false);
+      return;
+    }
+
+    fetch(`/api/booking/waitlist/claim?token=${encodeURIComponent(token)}`)
+      .then(res => res.json())
+      .then(data => {
+        if (data.success && data.offer) {
+          setOffer(data.offer);
+          setCustomFields(data.customFields || []);
+
+          // Returning from the deposit payment: claim with the answers given before paying
+          const stored = sessionStorage.getItem(`rhivo:waitlist:${token}`);
+          if (stored) {
+            const details = JSON.parse(stored) as PendingWaitlistClaim;
+            setCustomFieldValues(details.customFields);
+            setNotes(details.notes);
+            claim(details);
+          }
+        } else {
+          setError(data.error || t('invalidOffer'));
+        }
+      })
+      .catch(() => setError(t('connectionError')))
+      .finally(() => setLoading(false));
+  }, [token, t, claim]);
+
+  const handleClaim = () => claim({ customFields: customFieldValues, notes });
+
+  const formatSlot = (start: string, end: string, timezone: string) => {
+    const date = new Intl.DateTimeFormat(locale, {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+      timeZone: timezone,
+    }).format(new Date(start));
+    const time = new Intl.DateTimeFormat(locale, {
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: timezone,
+    });
+    return `${date}, ${time.format(new Date(start))} - ${time.format(new Date(end))}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full overflow-hidden">
+        {/* Header */}
+        <div className="px-8 py-6 border-b border-gray-100">
+          <h1 className="text-2xl font-bold text-gray-900 tracking-tight mb-2">
+            {t('title')}
+          </h1>
+          <p className="text-sm text-gray-500">
+            {t('subtitle')}
+          </p>
+        </div>
+
+        {/* Content */}
+        <div className="px-8 py-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-6 h-6 border-2 border-teal-600 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : bookingId && offer ? (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-xl flex items-start gap-3">
+              <svg className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <div>
+                <p className="text-sm font-semibold text-green-800">{t('confirmed')}</p>
+                <p className="text-sm text-green-800 mt-1">{t('bookingId', { bookingId })}</p>
+              </div>
+            </div>
+          ) : offer ? (
+            <div className="space-y-5">
+              <div className="p-4 bg-gray-50 border border-gray-200/60 rounded-xl">
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">{offer.businessName}</p>
+                <p className="text-base font-semibold text-gray-900 mt-1">{offer.serviceName}</p>
+                <p className="text-sm text-gray-700 mt-1">{formatSlot(offer.slotStart, offer.slotEnd, offer.timezone)}</p>
+                <p className="text-xs text-gray-500 mt-3">
+                  {t('heldUntil', {
+                    time: new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit' }).format(new Date(offer.expiresAt)),
+                  })}
+                </p>
+              </div>
+
+              <CustomFieldInputs
+                fields={customFields}
+                values={customFieldValues}
+                onChange={setCustomFieldValues}
+              />
+
+              <div>
+                <label htmlFor="claim-notes" className="block text-sm font-semibold text-gray-900 mb-2.5">
+                  {td('notes')}
+                </label>
+                <textarea
+                  id="claim-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={3}
+                  maxLength={1000}
+                  placeholder={td('notesPlaceholder')}
+                  className="w-full px-4 py-3.5 bg-white border border-gray-200/60 rounded-xl focus:outline-none  transition-all resize-none text-gray-900 placeholder:text-gray-400 text-sm"
+                />
+              </div>
+
+              {depositPending && (
+                <p className="text-sm text-gray-700">{t('depositPending')}</p>
+              )}
+
+              <button
+                onClick={handleClaim}
+                disabled={claiming}
+                className="w-full px-6 py-3 bg-teal-600 hover:bg-teal-700 text-white text-sm font-semibold rounded-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-teal-600 shadow-sm hover:shadow-md"
+              >
+                {claiming ? (
+                  <span className="flex items-center justify-center gap-2">
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    {t('confirming')}
+                  </span>
+                ) : depositPending ? (
+                  t('checkAgain')
+                ) : (
+                  t('confirmButton')
+                )}
+              </button>
+            </div>
+          ) : null}
+
+          {error && (
+            <div className="mt-5 p-4 bg-red-50 border border-red-200 rounded-xl flex items-start gap-3">
+              <svg className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {offer && (
+            <div className="mt-6 pt-6 border-t border-gray-100 text-center">
+              <Link
+                href={`/book/${offer.subdomain}`}
+                className="text-sm font-medium text-gray-500 hover:text-gray-900 transition-colors"
+              >
+                {t('backToBooking', { businessName: offer.businessName })}
+              </Link>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
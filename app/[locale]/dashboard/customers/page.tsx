@@ -0,0 +1,295 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+import { useAuth } from '@/contexts/AuthContext';
+import { BusinessProvider, useBusiness } from '@/contexts/BusinessContext';
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { BusinessSelector } from '@/components/dashboard/BusinessSelector';
+import { DashboardSidebar } from '@/components/dashboard/DashboardSidebar';
+import { Logo } from '@/components/Logo';
+import { CustomerProfilePanel, CustomerListItem, formatCents } from '@/components/dashboard/customers/CustomerProfilePanel';
+import { LockedFeature } from '@/components/subscription/LockedFeature';
+import { useUpgrade } from '@/hooks/useUpgrade';
+import { getAccessToken } from '@/lib/auth/api-client';
+import { formatDate } from '@/lib/calendar-utils';
+
+const PAGE_SIZE = 50;
+
+function CustomersContent() {
+  const t = useTranslations('dashboard');
+  const locale = useLocale();
+  const { isAuthenticated, user } = useAuth();
+  const { businesses, selectedBusiness, selectedBusinessId, isLoading: businessLoading, selectBusiness } = useBusiness();
+
+  const [customers, setCustomers] = useState<CustomerListItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [tags, setTags] = useState<{ tag: string; count: number }[]>([]);
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
+  const [featureAccess, setFeatureAccess] = useState<{
+    hasAccess: boolean;
+    currentTier: string;
+    suggestedTier?: string;
+  }>({ hasAccess: true, currentTier: 'free' });
+
+  const { showUpgrade, UpgradeModal } = useUpgrade({ currentTier: featureAccess.currentTier });
+
+  const businessName = selectedBusiness?.name || user?.email?.split('@')[0] || "My Business";
+  const accessToken = getAccessToken();
+
+  const fetchCustomers = useCallback(async (offset = 0) => {
+    if (!selectedBusinessId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({
+        businessId: selectedBusinessId,
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+      });
+      if (search.trim()) params.set('q', search.trim());
+      if (tagFilter) params.set('tag', tagFilter);
+
+      const response = await fetch(`/api/customers?${params}`, {
+        headers: { 'Authorization': `Bearer ${getAccessToken()}` },
+      });
+      const data = await response.json();
+
+      if (response.status === 403 && data.upgradeRequired) {
+        setFeatureAccess({
+          hasAccess: false,
+          currentTier: data.currentTier || 'free',
+          suggestedTier: data.suggestedTier || 'basic',
+        });
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || t('customers.loadFailed'));
+      }
+
+      setFeatureAccess({ hasAccess: true, currentTier: 'basic' });
+      setCustomers(prev => offset === 0 ? data.customers : [...prev, ...data.customers]);
+      setTotal(data.total);
+      setTags(data.tags || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('customers.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedBusinessId, search, tagFilter, t]);
+
+  // Debounce typing in the search box
+  useEffect(() => {
+    const timer = setTimeout(() => fetchCustomers(0), 300);
+    return () => clearTimeout(timer);
+  }, [fetchCustomers]);
+
+  useEffect(() => {
+    setSelectedCustomerId(null);
+  }, [selectedBusinessId]);
+
+  return (
+    <div className="min-h-screen bg-white">
+      <DashboardSidebar currentPage="customers" />
+
+      <main className="ml-0 sm:ml-20 min-h-screen pb-20 sm:pb-0">
+        {/* Top Bar */}
+        <header className="sticky top-0 z-30 bg-white/95 backdrop-blur-sm border-b border-gray-200/60">
+          <div className="px-4 sm:px-8 lg:px-12 py-2 sm:py-4 lg:py-5 relative flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-4 lg:gap-8">
+            <div className="flex items-center gap-3 sm:gap-6 min-w-0 flex-1 w-full sm:w-auto">
+              {businesses.length > 0 ? (
+                <div className="w-full sm:max-w-[320px] sm:min-w-[240px]">
+                  <BusinessSelector
+                    businesses={businesses}
+                    selectedBusinessId={selectedBusinessId}
+                    onBusinessChange={selectBusiness}
+                    isLoading={businessLoading}
+                  />
+                </div>
+              ) : (
+                <div className="flex flex-col">
+                  <h1 className="text-lg sm:text-2xl lg:text-3xl font-bold text-gray-900 tracking-tight truncate">{businessName}</h1>
+                  <div className="flex items-center gap-1.5 mt-0.5">
+                    <div className={`w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full ${isAuthenticated ? 'bg-green-500' : 'bg-gray-400'}`} />
+                    <span className="text-xs sm:text-sm text-gray-500">
+                      {isAuthenticated ? t('header.connected') : t('header.disconnected')}
+                    </span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Centered Logo - Hidden on mobile */}
+            <div className="hidden lg:block absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2">
+              <Logo size="sm" />
+            </div>
+
+            {featureAccess.hasAccess && (
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={t('customers.searchPlaceholder')}
+                className="w-full sm:w-72 px-4 py-2.5 text-sm bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+              />
+            )}
+          </div>
+        </header>
+
+        <div className="px-4 sm:px-8 lg:px-12 py-4 sm:py-6 lg:py-8">
+          <div className="flex items-baseline justify-between gap-4 mb-4 sm:mb-6">
+            <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900">{t('customers.title')}</h2>
+            {featureAccess.hasAccess && !loading && (
+              <span className="text-sm text-gray-500">{t('customers.count', { count: total })}</span>
+            )}
+          </div>
+
+          {!featureAccess.hasAccess ? (
+            <LockedFeature
+              featureName={t('customers.locked.name')}
+              description={t('customers.locked.description')}
+              currentTier={featureAccess.currentTier}
+              suggestedTier={featureAccess.suggestedTier || 'basic'}
+              onUpgrade={() => showUpgrade({
+                suggestedTier: featureAccess.suggestedTier || 'basic',
+                featureName: t('customers.locked.name'),
+              })}
+            />
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-5 gap-6 lg:gap-8">
+              {/* Directory */}
+              <div className={`lg:col-span-3 ${selectedCustomerId ? 'max-lg:hidden' : ''}`}>
+                {tags.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    <button
+                      onClick={() => setTagFilter(null)}
+                      className={`px-3 py-1.5 text-xs font-semibold rounded-xl transition-all ${
+                        tagFilter === null ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      {t('customers.allTags')}
+                    </button>
+                    {tags.map(({ tag, count }) => (
+                      <button
+                        key={tag}
+                        onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                        className={`px-3 py-1.5 text-xs font-semibold rounded-xl transition-all ${
+                          tagFilter === tag ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:text-gray-900'
+                        }`}
+                      >
+                        {tag} · {count}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+                {loading && customers.length === 0 ? (
+                  <div className="flex items-center justify-center py-20">
+                    <div className="flex items-center gap-3">
+                      <div className="w-5 h-5 border-2 border-teal-500 border-t-transparent rounded-full animate-spin" />
+                      <span className="text-sm text-gray-500 font-medium">{t('customers.loading')}</span>
+                    </div>
+                  </div>
+                ) : customers.length === 0 ? (
+                  <p className="py-20 text-center text-sm text-gray-500">
+                    {search || tagFilter ? t('customers.noResults') : t('customers.empty')}
+                  </p>
+                ) : (
+                  <div className="border border-gray-200/60 rounded-2xl overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wider">
+                        <tr>
+                          <th className="px-4 py-3 text-left font-semibold">{t('customers.columns.name')}</th>
+                          <th className="px-4 py-3 text-right font-semibold">{t('customers.columns.visits')}</th>
+                          <th className="px-4 py-3 text-right font-semibold max-sm:hidden">{t('customers.columns.spend')}</th>
+                          <th className="px-4 py-3 text-right font-semibold max-sm:hidden">{t('customers.columns.noShows')}</th>
+                          <th className="px-4 py-3 text-right font-semibold max-md:hidden">{t('customers.columns.lastVisit')}</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {customers.map(customer => (
+                          <tr
+                            key={customer.id}
+                            onClick={() => setSelectedCustomerId(customer.id)}
+                            className={`cursor-pointer transition-all ${
+                              selectedCustomerId === customer.id ? 'bg-teal-50/60' : 'hover:bg-gray-50'
+                            }`}
+                          >
+                            <td className="px-4 py-3 min-w-0">
+                              <p className="font-semibold text-gray-900 truncate">{customer.name || t('customers.profile.unnamed')}</p>
+                              <p className="text-xs text-gray-500 truncate">{customer.email || customer.phone}</p>
+                              {customer.tags.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {customer.tags.map(tag => (
+                                    <span key={tag} className="px-1.5 py-0.5 text-[10px] font-medium text-gray-600 bg-gray-100 rounded">{tag}</span>
+                                  ))}
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-right text-gray-900">{customer.visits}</td>
+                            <td className="px-4 py-3 text-right text-gray-900 max-sm:hidden">{formatCents(customer.spend_cents, locale)}</td>
+                            <td className={`px-4 py-3 text-right max-sm:hidden ${customer.no_shows > 0 ? 'text-red-600 font-semibold' : 'text-gray-400'}`}>
+                              {customer.no_shows}
+                            </td>
+                            <td className="px-4 py-3 text-right text-gray-500 max-md:hidden">
+                              {customer.last_visit ? formatDate(new Date(customer.last_visit), 'short', locale) : '—'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {customers.length < total && (
+                  <button
+                    onClick={() => fetchCustomers(customers.length)}
+                    disabled={loading}
+                    className="mt-4 w-full py-2.5 text-sm font-semibold text-gray-700 border border-gray-200 rounded-xl hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {loading ? t('customers.loading') : t('customers.loadMore')}
+                  </button>
+                )}
+              </div>
+
+              {/* Profile */}
+              {selectedCustomerId && selectedBusinessId && (
+                <div className="lg:col-span-2 bg-white border border-gray-200/60 rounded-2xl p-4 sm:p-6 shadow-sm self-start">
+                  <CustomerProfilePanel
+                    customerId={selectedCustomerId}
+                    businessId={selectedBusinessId}
+                    accessToken={accessToken}
+                    onClose={() => setSelectedCustomerId(null)}
+                    onChanged={() => fetchCustomers(0)}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+
+      {/* Upgrade Modal */}
+      <UpgradeModal />
+    </div>
+  );
+}
+
+export default function CustomersPage() {
+  return (
+    <ProtectedRoute requireRole="owner">
+      <BusinessProvider>
+        <CustomersContent />
+      </BusinessProvider>
+    </ProtectedRoute>
+  );
+}
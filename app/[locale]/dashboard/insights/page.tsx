@@ -10,16 +10,23 @@ import { DashboardSidebar } from '@/components/dashboard/DashboardSidebar';
 import { Logo } from '@/components/Logo';
 import { BookingsChart } from '@/components/dashboard/insights/BookingsChart';
 import { RevenueChart } from '@/components/dashboard/insights/RevenueChart';
-import { ComingSoonWidget } from '@/components/dashboard/insights/ComingSoonWidget';
+import { CustomerAnalyticsChart } from '@/components/dashboard/insights/CustomerAnalyticsChart';
+import { ServicePerformanceChart } from '@/components/dashboard/insights/ServicePerformanceChart';
 import { LockedFeature } from '@/components/subscription/LockedFeature';
 import { useUpgrade } from '@/hooks/useUpgrade';
 import { getAccessToken } from '@/lib/auth/api-client';
+import { InsightsRange } from '@/components/dashboard/insights/insights-range';
+
+// Calendar date of the browser, as YYYY-MM-DD
+function toDateInput(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
 
 function InsightsContent() {
   const t = useTranslations('dashboard');
   const { isAuthenticated, user, logout } = useAuth();
   const { businesses, selectedBusiness, selectedBusinessId, isLoading: businessLoading, selectBusiness } = useBusiness();
-  const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d'>('30d');
+  const [range, setRange] = useState<InsightsRange>({ preset: '30d', startDate: '', endDate: '', granularity: 'day' });
   const [featureAccess, setFeatureAccess] = useState<{
     hasAccess: boolean;
     currentTier: string;
@@ -29,6 +36,24 @@ function InsightsContent() {
 
   const { showUpgrade, UpgradeModal } = useUpgrade({ currentTier: featureAccess.currentTier });
 
+  const selectPreset = (preset: InsightsRange['preset']) => {
+    if (preset !== 'custom') {
+      setRange(prev => ({ ...prev, preset }));
+      return;
+    }
+
+    // Start the custom range from the last 30 days
+    const today = new Date();
+    const monthAgo = new Date(today);
+    monthAgo.setDate(monthAgo.getDate() - 29);
+    setRange(prev => ({
+      ...prev,
+      preset,
+      startDate: prev.startDate || toDateInput(monthAgo),
+      endDate: prev.endDate || toDateInput(today)
+    }));
+  };
+
   const businessName = selectedBusiness?.name || user?.email?.split('@')[0] || "My Business";
 
   // Check feature access on mount and when business changes
@@ -128,9 +153,9 @@ function InsightsContent() {
             {/* Time Range Selector */}
             <div className="flex gap-1 bg-gray-100 p-1 rounded-xl sm:rounded-2xl flex-shrink-0 w-full sm:w-auto">
               <button
-                onClick={() => setTimeRange('7d')}
+                onClick={() => selectPreset('7d')}
                 className={`flex-1 sm:flex-none px-3 sm:px-5 py-2 rounded-lg sm:rounded-xl text-xs sm:text-sm font-semibold transition-all ${
-                  timeRange === '7d'
+                  range.preset === '7d'
                     ? 'bg-white text-gray-900 shadow-sm'
                     : 'text-gray-500 hover:text-gray-900'
                 }`}
@@ -139,9 +164,9 @@ function InsightsContent() {
                 <span className="sm:hidden">7d</span>
               </button>
               <button
-                onClick={() => setTimeRange('30d')}
+                onClick={() => selectPreset('30d')}
                 className={`flex-1 sm:flex-none px-3 sm:px-5 py-2 rounded-lg sm:rounded-xl text-xs sm:text-sm font-semibold transition-all ${
-                  timeRange === '30d'
+                  range.preset === '30d'
                     ? 'bg-white text-gray-900 shadow-sm'
                     : 'text-gray-500 hover:text-gray-900'
                 }`}
@@ -150,9 +175,9 @@ function InsightsContent() {
                 <span className="sm:hidden">30d</span>
               </button>
               <button
-                onClick={() => setTimeRange('90d')}
+                onClick={() => selectPreset('90d')}
                 className={`flex-1 sm:flex-none px-3 sm:px-5 py-2 rounded-lg sm:rounded-xl text-xs sm:text-sm font-semibold transition-all ${
-                  timeRange === '90d'
+                  range.preset === '90d'
                     ? 'bg-white text-gray-900 shadow-sm'
                     : 'text-gray-500 hover:text-gray-900'
                 }`}
@@ -160,13 +185,70 @@ function InsightsContent() {
                 <span className="hidden sm:inline">90 Days</span>
                 <span className="sm:hidden">90d</span>
               </button>
+              <button
+                onClick={() => selectPreset('custom')}
+                className={`flex-1 sm:flex-none px-3 sm:px-5 py-2 rounded-lg sm:rounded-xl text-xs sm:text-sm font-semibold transition-all ${
+                  range.preset === 'custom'
+                    ? 'bg-white text-gray-900 shadow-sm'
+                    : 'text-gray-500 hover:text-gray-900'
+                }`}
+              >
+                {t('insights.range.custom')}
+              </button>
             </div>
           </div>
         </header>
 
         {/* Insights Content */}
         <div className="px-4 sm:px-8 lg:px-12 py-4 sm:py-6 lg:py-8">
-          <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900 mb-4 sm:mb-6 lg:mb-8">{t('insights.title')}</h2>
+          <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 mb-4 sm:mb-6 lg:mb-8">
+            <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900">{t('insights.title')}</h2>
+
+            <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+              {/* Custom Range */}
+              {range.preset === 'custom' && (
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center gap-1.5 text-xs font-semibold text-gray-500">
+                    {t('insights.range.from')}
+                    <input
+                      type="date"
+                      value={range.startDate}
+                      max={range.endDate || undefined}
+                      onChange={(e) => e.target.value && setRange(prev => ({ ...prev, startDate: e.target.value }))}
+                      className="px-2.5 py-1.5 border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                    />
+                  </label>
+                  <label className="flex items-center gap-1.5 text-xs font-semibold text-gray-500">
+                    {t('insights.range.to')}
+                    <input
+                      type="date"
+                      value={range.endDate}
+                      min={range.startDate || undefined}
+                      onChange={(e) => e.target.value && setRange(prev => ({ ...prev, endDate: e.target.value }))}
+                      className="px-2.5 py-1.5 border border-gray-200 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                    />
+                  </label>
+                </div>
+              )}
+
+              {/* Granularity */}
+              <div className="flex gap-1 bg-gray-100 p-1 rounded-xl">
+                {(['day', 'week', 'month'] as const).map((granularity) => (
+                  <button
+                    key={granularity}
+                    onClick={() => setRange(prev => ({ ...prev, granularity }))}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-all ${
+                      range.granularity === granularity
+                        ? 'bg-white text-gray-900 shadow-sm'
+                        : 'text-gray-500 hover:text-gray-900'
+                    }`}
+                  >
+                    {t(`insights.range.granularity.${granularity}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
 
           {featureAccess.loading ? (
             <div className="flex items-center justify-center py-20">
@@ -203,36 +285,33 @@ function InsightsContent() {
               {/* Bookings Chart */}
               <BookingsChart
                 businessId={selectedBusinessId}
-                timeRange={timeRange}
+                range={range}
               />
 
               {/* Revenue Chart */}
               <RevenueChart
                 businessId={selectedBusinessId}
-                timeRange={timeRange}
+                range={range}
               />
 
-              {/* Customer Insights - Coming Soon */}
-              <ComingSoonWidget
-                title="Customer Analytics"
-                description="Understand your customer base with repeat booking rates, new vs returning customers, and demographics."
-                icon={
-                  <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M15 19.128a9.38 9.38 0 002.625.372 9.337 9.337 0 004.121-.952 4.125 4.125 0 00-7.533-2.493M15 19.128v-.003c0-1.113-.285-2.16-.786-3.07M15 19.128v.106A12.318 12.318 0 018.624 21c-2.331 0-4.512-.645-6.374-1.766l-.001-.109a6.375 6.375 0 0111.964-3.07M12 6.375a3.375 3.375 0 11-6.75 0 3.375 3.375 0 016.75 0zm8.25 2.25a2.625 2.625 0 11-5.25 0 2.625 2.625 0 015.25 0z" />
-                  </svg>
-                }
+              {/* Customer Analytics */}
+              <CustomerAnalyticsChart
+                businessId={selectedBusinessId}
+                range={range}
+                onUpgrade={() => showUpgrade({
+                  suggestedTier: 'pro',
+                  featureName: 'Advanced analytics'
+                })}
               />
 
-              {/* Service Performance - Coming Soon */}
-              <ComingSoonWidget
-                title="Service Performance"
-                description="See which services are most popular, average duration, and capacity utilization."
-                icon={
-                  <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M9.568 3H5.25A2.25 2.25 0 003 5.25v4.318c0 .597.237 1.17.659 1.591l9.581 9.581c.699.699 1.78.872 2.607.33a18.095 18.095 0 005.223-5.223c.542-.827.369-1.908-.33-2.607L11.16 3.66A2.25 2.25 0 009.568 3z" />
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 6h.008v.008H6V6z" />
-                  </svg>
-                }
+              {/* Service Performance */}
+              <ServicePerformanceChart
+                businessId={selectedBusinessId}
+                range={range}
+                onUpgrade={() => showUpgrade({
+                  suggestedTier: 'pro',
+                  featureName: 'Advanced analytics'
+                })}
               />
             </div>
           )}
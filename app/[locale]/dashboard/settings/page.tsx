@@ -7,10 +7,17 @@ import { BusinessProvider, useBusiness } from '@/contexts/BusinessContext';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import { DashboardSidebar } from '@/components/dashboard/DashboardSidebar';
 import { BusinessSelector } from '@/components/dashboard/BusinessSelector';
+import { WebhookSettings } from '@/components/dashboard/WebhookSettings';
+import { ApiKeySettings } from '@/components/dashboard/ApiKeySettings';
+import { CalendarFeedSettings } from '@/components/dashboard/CalendarFeedSettings';
+import { ExternalCalendarSettings } from '@/components/dashboard/ExternalCalendarSettings';
+import { DataExportSettings } from '@/components/dashboard/DataExportSettings';
+import { SlotRecommendationSettings } from '@/components/dashboard/SlotRecommendationSettings';
+import { StaffSettings } from '@/components/dashboard/StaffSettings';
 import { Logo } from '@/components/Logo';
 import type { TenantConfig } from '@/lib/config/tenant-schema';
 
-type SettingsCategory = 'profile' | 'business' | 'booking' | 'availability' | 'security' | 'actions';
+type SettingsCategory = 'profile' | 'business' | 'booking' | 'availability' | 'staff' | 'integrations' | 'data' | 'security' | 'actions';
 
 interface OffDay {
   date: string;
@@ -20,6 +27,13 @@ interface OffDay {
   close?: string;
 }
 
+interface SmsUsage {
+  quota: number;
+  used: number;
+  remaining: number;
+  resetDate: string;
+}
+
 interface ExistingBooking {
   id: string;
   bookingId: string;
@@ -65,6 +79,9 @@ function SettingsContent() {
   const [loadingConfig, setLoadingConfig] = useState(false);
   const [configError, setConfigError] = useState<string | null>(null);
 
+  // SMS quota state
+  const [smsUsage, setSmsUsage] = useState<SmsUsage | null>(null);
+
   const businessName = selectedBusiness?.name || user?.email?.split('@')[0] || "My Business";
 
   async function handlePasswordChange(e: React.FormEvent) {
@@ -153,6 +170,36 @@ function SettingsContent() {
     }
   }
 
+  // Fetch SMS usage
+  useEffect(() => {
+    if (isAuthenticated && accessToken && selectedBusinessId) {
+      fetchSmsUsage();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAuthenticated, accessToken, selectedBusinessId]);
+
+  async function fetchSmsUsage() {
+    if (!selectedBusinessId) return;
+
+    try {
+      const res = await fetch(`/api/settings/sms-usage?businessId=${selectedBusinessId}`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      if (!res.ok) {
+        throw new Error('Failed to fetch SMS usage');
+      }
+
+      const data = await res.json();
+      setSmsUsage(data.usage || null);
+    } catch (err) {
+      console.error('Error fetching SMS usage:', err);
+      setSmsUsage(null);
+    }
+  }
+
   // Fetch off days
   useEffect(() => {
     if (isAuthenticated && accessToken) {
@@ -324,6 +371,8 @@ function SettingsContent() {
     timeSlotDuration: businessConfig.timeSlotDuration,
     maxSimultaneousBookings: businessConfig.bookingLimits?.maxSimultaneousBookings,
     advanceBookingDays: businessConfig.bookingLimits?.advanceBookingDays,
+    sendConfirmationSMS: businessConfig.notifications?.sendConfirmationSMS ?? false,
+    sendReminderSMS: businessConfig.notifications?.sendReminderSMS ?? false,
   } : null;
 
   // Category definitions with icons
@@ -364,6 +413,33 @@ function SettingsContent() {
         </svg>
       ),
     },
+    {
+      id: 'staff' as SettingsCategory,
+      label: t('categories.staff.label'),
+      icon: (
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+        </svg>
+      ),
+    },
+    {
+      id: 'integrations' as SettingsCategory,
+      label: t('categories.integrations.label'),
+      icon: (
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+        </svg>
+      ),
+    },
+    {
+      id: 'data' as SettingsCategory,
+      label: t('categories.data.label'),
+      icon: (
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+      ),
+    },
     {
       id: 'security' as SettingsCategory,
       label: t('categories.security.label'),
@@ -706,6 +782,59 @@ function SettingsContent() {
                       </div>
                     )}
                   </div>
+
+                  {/* Slot Recommendations */}
+                  {selectedBusinessId && (
+                    <div className="mt-8 pt-8 border-t border-gray-100">
+                      <div className="mb-6">
+                        <h4 className="text-lg font-bold text-gray-900 tracking-tight">{t('slotRecommendations.title')}</h4>
+                        <p className="text-sm text-gray-500 mt-1">{t('slotRecommendations.sectionDescription')}</p>
+                      </div>
+                      <SlotRecommendationSettings businessId={selectedBusinessId} accessToken={accessToken} />
+                    </div>
+                  )}
+
+                  {/* SMS Notifications */}
+                  {smsUsage && (
+                    <div className="mt-8 pt-8 border-t border-gray-100">
+                      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-2 mb-4">
+                        <div>
+                          <h4 className="text-lg font-bold text-gray-900 tracking-tight">{t('sms.title')}</h4>
+                          <p className="text-sm text-gray-500 mt-1">
+                            {businessDetails.sendConfirmationSMS || businessDetails.sendReminderSMS
+                              ? t('sms.enabledFor', {
+                                  types: [
+                                    businessDetails.sendConfirmationSMS ? t('sms.confirmations') : null,
+                                    businessDetails.sendReminderSMS ? t('sms.reminders') : null,
+                                  ].filter(Boolean).join(', '),
+                                })
+                              : t('sms.disabled')}
+                          </p>
+                        </div>
+                        <p className="text-sm text-gray-500">{t('sms.resetsOn', { date: formatDate(smsUsage.resetDate) })}</p>
+                      </div>
+
+                      {smsUsage.quota > 0 ? (
+                        <>
+                          <div className="flex items-baseline gap-2 mb-3">
+                            <p className="text-3xl font-bold text-gray-900 tracking-tight">{smsUsage.used}</p>
+                            <p className="text-sm font-medium text-gray-500">{t('sms.usedOf', { quota: smsUsage.quota })}</p>
+                          </div>
+                          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full rounded-full ${smsUsage.remaining === 0 ? 'bg-red-500' : 'bg-teal-500'}`}
+                              style={{ width: `${Math.min(100, Math.round((smsUsage.used / smsUsage.quota) * 100))}%` }}
+                            />
+                          </div>
+                          {smsUsage.remaining === 0 && (
+                            <p className="text-sm text-red-600 mt-3">{t('sms.quotaReached')}</p>
+                          )}
+                        </>
+                      ) : (
+                        <p className="text-sm text-gray-600">{t('sms.noQuota')}</p>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -782,6 +911,83 @@ function SettingsContent() {
                 </div>
               )}
 
+              {/* Staff Category */}
+              {activeCategory === 'staff' && (
+                <div className="bg-white border border-gray-200/60 rounded-2xl p-8 shadow-sm transition-all hover:shadow-md">
+                  <div className="mb-8">
+                    <h3 className="text-2xl font-bold text-gray-900 tracking-tight">{t('categories.staff.title')}</h3>
+                    <p className="text-sm text-gray-500 mt-1.5">{t('categories.staff.description')}</p>
+                  </div>
+
+                  {selectedBusinessId ? (
+                    <StaffSettings businessId={selectedBusinessId} accessToken={accessToken} />
+                  ) : (
+                    <p className="text-sm text-gray-500">{t('staff.selectBusiness')}</p>
+                  )}
+                </div>
+              )}
+
+              {/* Integrations Category */}
+              {activeCategory === 'integrations' && (
+                <div className="bg-white border border-gray-200/60 rounded-2xl p-8 shadow-sm transition-all hover:shadow-md">
+                  <div className="mb-8">
+                    <h3 className="text-2xl font-bold text-gray-900 tracking-tight">{t('categories.integrations.title')}</h3>
+                    <p className="text-sm text-gray-500 mt-1.5">{t('categories.integrations.description')}</p>
+                  </div>
+
+                  {selectedBusinessId ? (
+                    <div className="space-y-10">
+                      <section>
+                        <div className="mb-6">
+                          <h4 className="text-lg font-semibold text-gray-900">{t('calendarFeeds.title')}</h4>
+                          <p className="text-sm text-gray-500 mt-1">{t('calendarFeeds.sectionDescription')}</p>
+                        </div>
+                        <CalendarFeedSettings businessId={selectedBusinessId} accessToken={accessToken} />
+                      </section>
+                      <section className="pt-10 border-t border-gray-100">
+                        <div className="mb-6">
+                          <h4 className="text-lg font-semibold text-gray-900">{t('externalCalendars.title')}</h4>
+                          <p className="text-sm text-gray-500 mt-1">{t('externalCalendars.sectionDescription')}</p>
+                        </div>
+                        <ExternalCalendarSettings businessId={selectedBusinessId} accessToken={accessToken} />
+                      </section>
+                      <section className="pt-10 border-t border-gray-100">
+                        <div className="mb-6">
+                          <h4 className="text-lg font-semibold text-gray-900">{t('webhooks.title')}</h4>
+                          <p className="text-sm text-gray-500 mt-1">{t('webhooks.sectionDescription')}</p>
+                        </div>
+                        <WebhookSettings businessId={selectedBusinessId} accessToken={accessToken} />
+                      </section>
+                      <section className="pt-10 border-t border-gray-100">
+                        <div className="mb-6">
+                          <h4 className="text-lg font-semibold text-gray-900">{t('apiKeys.title')}</h4>
+                          <p className="text-sm text-gray-500 mt-1">{t('apiKeys.sectionDescription')}</p>
+                        </div>
+                        <ApiKeySettings businessId={selectedBusinessId} accessToken={accessToken} />
+                      </section>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500">Please select a business to manage its integrations</p>
+                  )}
+                </div>
+              )}
+
+              {/* Data Category */}
+              {activeCategory === 'data' && (
+                <div className="bg-white border border-gray-200/60 rounded-2xl p-8 shadow-sm transition-all hover:shadow-md">
+                  <div className="mb-8">
+                    <h3 className="text-2xl font-bold text-gray-900 tracking-tight">{t('categories.data.title')}</h3>
+                    <p className="text-sm text-gray-500 mt-1.5">{t('categories.data.description')}</p>
+                  </div>
+
+                  {selectedBusinessId ? (
+                    <DataExportSettings businessId={selectedBusinessId} accessToken={accessToken} />
+                  ) : (
+                    <p className="text-sm text-gray-500">{t('dataExport.selectBusiness')}</p>
+                  )}
+                </div>
+              )}
+
               {/* Security Category */}
               {activeCategory === 'security' && (
                 <div className="bg-white border border-gray-200/60 rounded-2xl p-8 shadow-sm transition-all hover:shadow-md">
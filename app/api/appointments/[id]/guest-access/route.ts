@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { neon } from '@neondatabase/serverless';
 import { hashToken } from '@/lib/auth/tokens';
 import { checkRateLimit } from '@/lib/auth/rate-limit';
+import { getDbClient } from '@/db/client';
+import { WaitlistManager } from '@/lib/booking';
+import { DepositManager } from '@/lib/payments';
 import { z } from 'zod';
 
 const sql = neon(process.env.DATABASE_URL!);
@@ -217,7 +220,7 @@ export async function DELETE(
       return NextResponse.json({ error: 'Only confirmed appointments can be cancelled' }, { status: 409 });
     }
 
-    await sql`
+    const [canceled] = await sql`
       UPDATE appointments
       SET
         status = 'canceled',
@@ -226,8 +229,29 @@ export async function DELETE(
         guest_token_expires_at = NULL,
         updated_at = NOW()
       WHERE id = ${appointmentId}
+      RETURNING business_id, service_id, staff_id, slot_start, slot_end
     `;
 
+    // Refund the deposit per the cancellation policy (no-op if none was paid)
+    try {
+      await new DepositManager(getDbClient()).refundForCancellation(appointmentId, 'customer');
+    } catch (refundError) {
+      console.error('Failed to refund deposit for canceled appointment:', refundError);
+    }
+
+    // Offer the freed slot to the waitlist (no-op unless the tenant enabled it)
+    try {
+      await new WaitlistManager(getDbClient()).offerFreedSlot({
+        businessId: canceled.business_id,
+        serviceId: canceled.service_id,
+        staffId: canceled.staff_id,
+        slotStart: new Date(canceled.slot_start),
+        slotEnd: new Date(canceled.slot_end),
+      });
+    } catch (waitlistError) {
+      console.error('Failed to offer canceled slot to waitlist:', waitlistError);
+    }
+
     return NextResponse.json({
       message: 'Appointment canceled successfully',
       appointmentId,
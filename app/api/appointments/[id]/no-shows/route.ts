@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { getDbClient } from '@/db/client';
+import { applyNoShowPolicy, countRecentNoShows } from '@/lib/booking';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { CustomerDirectory } from '@/lib/customers';
+
+function authorizeOwner(request: NextRequest): { response: NextResponse } | { businessId: string } {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+
+  if (!token) {
+    return { response: NextResponse.json({ message: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  let payload: ReturnType<typeof verifyToken>;
+
+  try {
+    payload = verifyToken(token);
+  } catch {
+    return { response: NextResponse.json({ message: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  if (!payload.business_id || payload.role !== 'owner') {
+    return { response: NextResponse.json({ message: 'Forbidden' }, { status: 403 }) };
+  }
+
+  return { businessId: payload.business_id };
+}
+
+/**
+ * GET /api/appointments/[id]/no-shows
+ *
+ * Recent no-shows of the customer behind an appointment, and whether the
+ * no-show policy currently restricts their online bookings.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const auth = authorizeOwner(request);
+
+  if ('response' in auth) {
+    return auth.response;
+  }
+
+  const sql = getDbClient();
+
+  try {
+    const [appointment] = await sql`
+      SELECT
+        a.customer_id,
+        COALESCE(u.email, a.guest_email) AS email,
+        COALESCE(u.phone, a.guest_phone) AS phone
+      FROM appointments a
+      LEFT JOIN users u ON u.id = a.customer_id
+      WHERE a.id = ${id}
+        AND a.business_id = ${auth.businessId}
+        AND a.deleted_at IS NULL
+    `;
+
+    if (!appointment) {
+      return NextResponse.json({ message: 'Appointment not found' }, { status: 404 });
+    }
+
+    const configResult = await loadConfigByBusinessId(auth.businessId);
+
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json({ message: 'Failed to load business configuration' }, { status: 500 });
+    }
+
+    const config = configResult.config;
+    const policy = config.noShowPolicy;
+
+    const record = await countRecentNoShows(sql, {
+      businessId: auth.businessId,
+      customerId: appointment.customer_id,
+      guestEmail: appointment.email,
+      guestPhone: appointment.phone,
+      windowDays: policy.windowDays,
+    });
+
+    const decision = applyNoShowPolicy(config, record.noShows);
+
+    return NextResponse.json({
+      noShows: record.noShows,
+      resetAt: record.resetAt,
+      windowDays: policy.windowDays,
+      policy: {
+        enabled: policy.enabled,
+        maxNoShows: policy.maxNoShows,
+        action: policy.action,
+      },
+      restriction: !decision.allowed ? 'block' : decision.deposit ? 'require_deposit' : null,
+    });
+  } catch (error) {
+    console.error('Failed to load no-shows:', error);
+    return NextResponse.json({ message: 'Failed to load no-shows' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/appointments/[id]/no-shows
+ *
+ * Forgive the customer's no-shows so far. Older no-shows stay in the history
+ * but no longer count towards the no-show policy.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const auth = authorizeOwner(request);
+
+  if ('response' in auth) {
+    return auth.response;
+  }
+
+  const sql = getDbClient();
+
+  try {
+    // The reset is kept on the customer's profile, so make sure there is one
+    await new CustomerDirectory(sql).syncBusiness(auth.businessId, [id]);
+
+    const [profile] = await sql`
+      UPDATE customer_profiles p
+      SET no_show_reset_at = NOW()
+      FROM appointments a
+      WHERE a.id = ${id}
+        AND a.business_id = ${auth.businessId}
+        AND a.deleted_at IS NULL
+        AND p.id = a.customer_profile_id
+      RETURNING p.no_show_reset_at
+    `;
+
+    if (!profile) {
+      return NextResponse.json({ message: 'Appointment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, resetAt: profile.no_show_reset_at });
+  } catch (error) {
+    console.error('Failed to reset no-shows:', error);
+    return NextResponse.json({ message: 'Failed to reset no-shows' }, { status: 500 });
+  }
+}
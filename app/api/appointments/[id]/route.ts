@@ -2,10 +2,20 @@ import { NextRequest, NextResponse } from 'next/server';
 import { verifyToken } from '@/lib/auth';
 import { getDbClient } from '@/db/client';
 import { CustomerNotificationService } from '@/lib/email/customer-notification-service';
+import { AppointmentManager, WaitlistManager } from '@/lib/booking';
+import { DepositManager } from '@/lib/payments';
+import { WebhookService, getStatusWebhookEvent } from '@/lib/webhooks';
 import { z } from 'zod';
 
 const updateSchema = z.object({
   status: z.enum(['confirmed', 'completed', 'cancelled', 'canceled', 'no_show']).optional(),
+  // Exempt this appointment from the customer cancellation/reschedule deadlines
+  policyOverride: z.boolean().optional(),
+  // Customer-facing and owner-only notes; empty string clears a note
+  notes: z.string().max(1000).optional(),
+  internalNotes: z.string().max(2000).optional(),
+  // Required with notes so concurrent edits are detected
+  version: z.number().int().positive().optional(),
 });
 
 const STATUS_UI_TO_DB: Record<string, 'confirmed' | 'completed' | 'canceled' | 'no_show'> = {
@@ -42,13 +52,77 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
     const body = await request.json();
     const parsed = updateSchema.parse(body);
 
-    if (!parsed.status) {
+    const updatingNotes = parsed.notes !== undefined || parsed.internalNotes !== undefined;
+
+    if (!parsed.status && parsed.policyOverride === undefined && !updatingNotes) {
       return NextResponse.json(
         { message: 'No updates requested' },
         { status: 400 }
       );
     }
 
+    if (parsed.policyOverride !== undefined) {
+      const [updated] = await sql`
+        UPDATE appointments
+        SET policy_override = ${parsed.policyOverride}
+        WHERE id = ${id}
+          AND business_id = ${payload.business_id}
+          AND deleted_at IS NULL
+        RETURNING id
+      `;
+
+      if (!updated) {
+        return NextResponse.json({ message: 'Appointment not found' }, { status: 404 });
+      }
+
+    }
+
+    let version: number | undefined;
+
+    if (updatingNotes) {
+      if (parsed.version === undefined) {
+        return NextResponse.json({ message: 'version is required when updating notes' }, { status: 400 });
+      }
+
+      const [existing] = await sql`
+        SELECT id FROM appointments
+        WHERE id = ${id}
+          AND business_id = ${payload.business_id}
+          AND deleted_at IS NULL
+        LIMIT 1
+      `;
+
+      if (!existing) {
+        return NextResponse.json({ message: 'Appointment not found' }, { status: 404 });
+      }
+
+      try {
+        const updated = await new AppointmentManager(sql).updateAppointment({
+          appointmentId: id,
+          notes: parsed.notes === undefined ? undefined : parsed.notes.trim() || null,
+          internalNotes: parsed.internalNotes === undefined ? undefined : parsed.internalNotes.trim() || null,
+          actorId: payload.sub,
+          expectedVersion: parsed.version,
+        });
+        version = updated.version;
+      } catch (error: unknown) {
+        if (error && typeof error === 'object' && 'code' in error && error.code === 'CONFLICT') {
+          return NextResponse.json(
+            {
+              message: 'Appointment has been modified, please refresh and try again',
+              code: 'CONFLICT'
+            },
+            { status: 409 }
+          );
+        }
+        throw error;
+      }
+    }
+
+    if (!parsed.status) {
+      return NextResponse.json({ success: true, policyOverride: parsed.policyOverride, version });
+    }
+
     const dbStatus = STATUS_UI_TO_DB[parsed.status];
 
     const isCancelling = dbStatus === 'canceled';
@@ -63,7 +137,7 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
           WHERE id = ${id}
             AND business_id = ${payload.business_id}
             AND deleted_at IS NULL
-          RETURNING id
+          RETURNING id, business_id, service_id, staff_id, slot_start, slot_end
         `
       : await sql`
           UPDATE appointments
@@ -97,8 +171,33 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
       )
     `;
 
-    // If cancelling, send customer email notification
+    const statusEvent = getStatusWebhookEvent(dbStatus);
+    if (statusEvent) {
+      await new WebhookService(sql).emitAppointmentEvent(statusEvent, id);
+    }
+
     if (isCancelling) {
+      // Refund the deposit per the cancellation policy (no-op if none was paid)
+      try {
+        await new DepositManager(sql).refundForCancellation(id, 'business');
+      } catch (refundError) {
+        console.error('Failed to refund deposit for canceled appointment:', refundError);
+      }
+
+      // Offer the freed slot to the waitlist (no-op unless the tenant enabled it)
+      try {
+        await new WaitlistManager(sql).offerFreedSlot({
+          businessId: appointment.business_id,
+          serviceId: appointment.service_id,
+          staffId: appointment.staff_id,
+          slotStart: new Date(appointment.slot_start),
+          slotEnd: new Date(appointment.slot_end),
+        });
+      } catch (waitlistError) {
+        console.error('Failed to offer canceled slot to waitlist:', waitlistError);
+      }
+
+      // Send customer email notification
       try {
         console.log(`Appointment ${id} cancelled by owner ${payload.sub}`);
 
@@ -3,8 +3,11 @@ import { z } from 'zod';
 import { verifyToken } from '@/lib/auth';
 import { loadConfigByBusinessId } from '@/lib/config/config-loader';
 import { generateTimeSlots } from '@/lib/booking/slot-generator';
+import { getCapacityPoolUsage, resolveCapacityPools } from '@/lib/booking/capacity-pools';
+import { getResourceBookings, getServiceResources } from '@/lib/booking/resources';
 import { getDbClient } from '@/db/client';
 import { parseInTimezone, getEndOfDay } from '@/lib/utils/timezone';
+import { ExternalCalendarService } from '@/lib/calendar';
 
 const sql = getDbClient();
 
@@ -140,7 +143,7 @@ export async function GET(request: NextRequest) {
 
     // Get existing appointments in date range
     const appointments = await sql`
-      SELECT slot_start, slot_end
+      SELECT slot_start, slot_end, occupied_start, occupied_end
       FROM appointments
       WHERE business_id = ${businessId}
         AND slot_start >= ${start.toISOString()}
@@ -152,7 +155,7 @@ export async function GET(request: NextRequest) {
     // Get active reservations (not expired)
     const now = new Date();
     const reservations = await sql`
-      SELECT slot_start, slot_end, expires_at
+      SELECT slot_start, slot_end, occupied_start, occupied_end, expires_at
       FROM reservations
       WHERE business_id = ${businessId}
         AND slot_start >= ${start.toISOString()}
@@ -160,6 +163,27 @@ export async function GET(request: NextRequest) {
         AND expires_at > ${now.toISOString()}
     `;
 
+    // Busy time imported from the owner's external calendars
+    const externalBusy = await new ExternalCalendarService(sql).getBusyIntervals(businessId, start, end);
+
+    // Bookings of every service sharing a capacity pool with this one
+    const capacityPools = await getCapacityPoolUsage(
+      sql,
+      businessId,
+      await resolveCapacityPools(sql, config, businessId, service.id),
+      start,
+      end
+    );
+
+    // Bookings holding the rooms and equipment this service requires
+    const resourceBookings = await getResourceBookings(
+      sql,
+      businessId,
+      getServiceResources(config, service.id),
+      start,
+      end
+    );
+
     // Generate time slots
     const slots = generateTimeSlots({
       config,
@@ -169,12 +193,19 @@ export async function GET(request: NextRequest) {
       existingAppointments: appointments.map(a => ({
         slot_start: a.slot_start,
         slot_end: a.slot_end,
+        occupied_start: a.occupied_start,
+        occupied_end: a.occupied_end,
       })),
       existingReservations: reservations.map(r => ({
         slot_start: r.slot_start,
         slot_end: r.slot_end,
+        occupied_start: r.occupied_start,
+        occupied_end: r.occupied_end,
         expires_at: r.expires_at,
       })),
+      externalBusy,
+      capacityPools,
+      resourceBookings,
     });
 
     return NextResponse.json({
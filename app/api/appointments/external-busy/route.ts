@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { getDbClient } from '@/db/client';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { ExternalCalendarService } from '@/lib/calendar';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+// The dashboard asks for at most a month view at a time
+const MAX_RANGE_DAYS = 62;
+
+const querySchema = z.object({
+  start: z.string().datetime(),
+  end: z.string().datetime(),
+  businessId: z.string().uuid({ message: 'businessId must be a valid UUID' }).optional(),
+});
+
+/**
+ * GET /api/appointments/external-busy?start=...&end=...&businessId=...
+ *
+ * Busy time imported from external calendars, for the dashboard calendar.
+ * Staff see when the business is blocked but not the owner's event titles.
+ */
+export async function GET(request: NextRequest) {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+
+  if (!token) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  let payload: ReturnType<typeof verifyToken>;
+
+  try {
+    payload = verifyToken(token);
+  } catch {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  if ((payload.role !== 'owner' && payload.role !== 'staff') || !payload.business_id) {
+    return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+  }
+
+  const sql = getDbClient();
+
+  try {
+    const validated = querySchema.parse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+    const start = new Date(validated.start);
+    const end = new Date(validated.end);
+
+    if (end <= start || end.getTime() - start.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json({ message: 'Invalid date range' }, { status: 400 });
+    }
+
+    let targetBusinessId: string;
+
+    if (payload.role === 'staff') {
+      const [staff] = await sql`
+        SELECT business_id FROM staff_members
+        WHERE user_id = ${payload.sub}
+          AND status = 'active'
+          AND deleted_at IS NULL
+        LIMIT 1
+      `;
+
+      if (!staff) {
+        return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+      }
+
+      targetBusinessId = staff.business_id;
+    } else {
+      targetBusinessId = validated.businessId || payload.business_id;
+
+      const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, targetBusinessId);
+      if (unauthorizedResponse) return unauthorizedResponse;
+    }
+
+    const intervals = await new ExternalCalendarService(sql).getBusyIntervals(targetBusinessId, start, end);
+
+    return NextResponse.json(
+      intervals.map((interval) => ({
+        start: interval.start.toISOString(),
+        end: interval.end.toISOString(),
+        summary: payload.role === 'owner' ? interval.summary : null,
+        calendar_name: payload.role === 'owner' ? interval.calendarName : null,
+      })),
+      { headers: { 'Cache-Control': 'private, no-cache, no-store, must-revalidate' } }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: 'Validation failed', errors: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    console.error('List external busy time error:', error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
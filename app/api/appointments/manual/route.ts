@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyToken } from '@/lib/auth';
 import { getDbClient } from '@/db/client';
-import { AppointmentManager } from '@/lib/booking';
+import { AppointmentManager, SeriesManager, recurrenceRuleSchema, resolveCapacityPools, getServiceResources } from '@/lib/booking';
+import { CustomerNotificationService } from '@/lib/email/customer-notification-service';
 import { nanoid } from 'nanoid';
 import { z } from 'zod';
 import { loadConfigBySubdomain } from '@/lib/config/config-loader';
 import { validateBookingTime, snapToGrain } from '@/lib/booking/validation';
+import { ExternalCalendarService } from '@/lib/calendar';
 
 const createManualAppointmentSchema = z.object({
   service_id: z.string().uuid({ message: 'Invalid service ID' }),
@@ -20,6 +22,11 @@ const createManualAppointmentSchema = z.object({
   customer_phone: z.string().min(3, { message: 'Phone number is too short' }).max(40, { message: 'Phone number is too long' }).optional().or(z.literal('')),
   notes: z.string().max(500, { message: 'Notes are too long (max 500 characters)' }).optional().or(z.literal('')),
   idempotency_key: z.string().min(8).max(128).optional(),
+  staff_id: z.string().uuid({ message: 'Invalid staff ID' }).optional(),
+  // Repeat every N weeks; start_time is the first occurrence
+  recurrence: recurrenceRuleSchema.optional(),
+  // Book the available dates of a series even if some are taken
+  skip_conflicts: z.boolean().optional(),
 });
 
 const STATUS_UI_TO_DB: Record<string, 'confirmed' | 'canceled' | 'completed' | 'no_show'> = {
@@ -65,6 +72,13 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ message: 'Invalid request body' }, { status: 400 });
   }
 
+  if (body.recurrence && STATUS_UI_TO_DB[body.status] !== 'confirmed') {
+    return NextResponse.json(
+      { message: 'Recurring appointments must be created as confirmed' },
+      { status: 400 }
+    );
+  }
+
   const sql = getDbClient();
 
   try {
@@ -199,14 +213,102 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const bufferBefore = service.buffer_before_minutes || 0;
+    const bufferAfter = service.buffer_after_minutes || 0;
+    const capacityPools = await resolveCapacityPools(sql, configResult.config, payload.business_id, serviceConfig.id);
+    const resources = getServiceResources(configResult.config, serviceConfig.id);
+
+    if (body.staff_id) {
+      const [staff] = await sql`
+        SELECT sm.id
+        FROM staff_members sm
+        JOIN staff_services ss ON ss.staff_id = sm.id
+        WHERE sm.id = ${body.staff_id}
+          AND sm.business_id = ${payload.business_id}
+          AND ss.service_id = ${service.id}
+          AND sm.status = 'active'
+          AND sm.deleted_at IS NULL
+      `;
+
+      if (!staff) {
+        return NextResponse.json(
+          { message: 'Staff member not found or does not perform this service' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.recurrence) {
+      // Every occurrence, including the first, is checked by the series manager
+      const result = await new SeriesManager(sql).createSeries({
+        businessId: payload.business_id,
+        serviceId: body.service_id,
+        staffId: body.staff_id,
+        customerId,
+        firstStart: slotStart,
+        durationMinutes: Math.round((slotEnd.getTime() - slotStart.getTime()) / 60000),
+        rule: body.recurrence,
+        actorId: payload.sub,
+        idempotencyKey: body.idempotency_key ?? nanoid(),
+        skipConflicts: body.skip_conflicts,
+        config: configResult.config,
+        maxSimultaneousBookings: serviceConfig.maxSimultaneousBookings ?? 1,
+        capacityPools,
+        resources,
+        bufferBefore,
+        bufferAfter,
+      });
+
+      if (!result.series) {
+        return NextResponse.json(
+          {
+            message: 'Some dates in the series are not available',
+            code: 'SERIES_CONFLICT',
+            details: { occurrences: result.occurrences },
+          },
+          { status: 409 }
+        );
+      }
+
+      const booked = result.occurrences.filter(o => o.appointmentId);
+      const skipped = result.occurrences.filter(o => !o.appointmentId);
+
+      if (booked.length > 0) {
+        await new CustomerNotificationService(sql).sendSeriesSummary(
+          'created',
+          booked[0].appointmentId!,
+          booked,
+          skipped
+        );
+      }
+
+      return NextResponse.json(
+        {
+          seriesId: result.series.id,
+          appointmentId: booked[0]?.appointmentId ?? null,
+          occurrences: result.occurrences,
+          success: true,
+        },
+        { status: 201 }
+      );
+    }
+
+    // Busy time from the owner's external calendars that touches the buffered slot
+    const externalBusy = await new ExternalCalendarService(sql).getBusyIntervals(
+      payload.business_id,
+      new Date(slotStart.getTime() - bufferBefore * 60 * 1000),
+      new Date(slotEnd.getTime() + bufferAfter * 60 * 1000)
+    );
+
     // CRITICAL: Validate against off-time intervals (breaks, closed days, holidays)
     // Owners can bypass advance booking limits, but must still respect business hours
     const validation = validateBookingTime({
       config: configResult.config,
       slotStart,
       slotEnd,
-      bufferBefore: service.buffer_before_minutes || 0,
-      bufferAfter: service.buffer_after_minutes || 0,
+      bufferBefore,
+      bufferAfter,
+      externalBusy,
       skipAdvanceLimitCheck: true, // Owners can book far in advance
       skipPastTimeCheck: false, // But still can't create appointments in the past
     });
@@ -235,6 +337,9 @@ export async function POST(request: NextRequest) {
       idempotencyKey,
       actorId: payload.sub,
       maxSimultaneousBookings: serviceConfig.maxSimultaneousBookings ?? 1,
+      staffId: body.staff_id,
+      capacityPools,
+      resources,
     });
 
     const desiredStatus = STATUS_UI_TO_DB[body.status] ?? 'confirmed';
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyToken } from '@/lib/auth';
 import { getDbClient } from '@/db/client';
-import { AppointmentManager } from '@/lib/booking';
+import { AppointmentManager, resolveCapacityPools, getServiceResources } from '@/lib/booking';
 import { NotificationService } from '@/lib/notifications/notification-service';
 import { CustomerNotificationService } from '@/lib/email/customer-notification-service';
 import { loadConfigBySubdomain } from '@/lib/config/config-loader';
 import { validateBookingTime, snapToGrain } from '@/lib/booking/validation';
+import { ExternalCalendarService } from '@/lib/calendar';
 import { z } from 'zod';
 
 const sql = getDbClient();
@@ -189,6 +190,23 @@ export async function POST(request: NextRequest) {
     // Get maxSimultaneousBookings from YAML config (single source of truth)
     const maxSimultaneousBookings = getMaxSimultaneousBookings(targetServiceExternalId);
 
+    // Shared capacity pools the target service draws from, also from the config
+    const capacityPools = targetServiceExternalId
+      ? await resolveCapacityPools(sql, config, current.business_id, targetServiceExternalId)
+      : [];
+
+    // Rooms and equipment the target service requires, re-picked for the new time
+    const resources = targetServiceExternalId
+      ? getServiceResources(config, targetServiceExternalId)
+      : undefined;
+
+    // Busy time from the owner's external calendars that touches the buffered slot
+    const externalBusy = await new ExternalCalendarService(sql).getBusyIntervals(
+      current.business_id,
+      new Date(newStart.getTime() - bufferBefore * 60 * 1000),
+      new Date(newEnd.getTime() + bufferAfter * 60 * 1000)
+    );
+
     // CRITICAL: Validate against off-time intervals (breaks, closed days, holidays)
     // This enforces the same rules as customer booking and manual appointment creation
     const validation = validateBookingTime({
@@ -197,6 +215,7 @@ export async function POST(request: NextRequest) {
       slotEnd: newEnd,
       bufferBefore,
       bufferAfter,
+      externalBusy,
       skipAdvanceLimitCheck: true, // Owners can reschedule to any future date
       skipPastTimeCheck: false, // 5-minute grace period is in validateBookingTime
     });
@@ -222,6 +241,8 @@ export async function POST(request: NextRequest) {
         actorId: payload.sub,
         expectedVersion: currentVersion,
         maxSimultaneousBookings, // Pass YAML config value
+        capacityPools,
+        resources,
       });
 
       // Queue notification to customer
@@ -311,6 +332,22 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      // Caught by the database backstop, e.g. the staff member's buffer or a shared pool
+      if (
+        error instanceof Error &&
+        (error.message.includes('capacity exceeded') ||
+          error.message.includes('already booked') ||
+          error.message.startsWith('Capacity pool'))
+      ) {
+        return NextResponse.json(
+          {
+            message: 'This time overlaps another booking or its buffer time. Please choose another time.',
+            code: 'SLOT_UNAVAILABLE'
+          },
+          { status: 409 }
+        );
+      }
+
       if (error instanceof Error && error.message.includes('outside business hours')) {
         return NextResponse.json(
           {
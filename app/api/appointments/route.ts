@@ -14,6 +14,7 @@ const querySchema = z.object({
   status: z.enum(['confirmed', 'completed', 'cancelled', 'canceled', 'no_show']).optional(),
   serviceId: z.string().uuid({ message: 'serviceId must be a valid UUID' }).optional(),
   businessId: z.string().uuid({ message: 'businessId must be a valid UUID' }).optional(),
+  staffId: z.string().uuid({ message: 'staffId must be a valid UUID' }).optional(),
 });
 
 const STATUS_UI_TO_DB: Record<string, 'confirmed' | 'canceled' | 'completed' | 'no_show'> = {
@@ -46,7 +47,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
   }
 
-  if (payload.role !== 'owner' || !payload.business_id) {
+  if ((payload.role !== 'owner' && payload.role !== 'staff') || !payload.business_id) {
     return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
   }
 
@@ -56,13 +57,34 @@ export async function GET(request: NextRequest) {
     const rawParams = Object.fromEntries(request.nextUrl.searchParams.entries());
     const validated = querySchema.parse(rawParams);
 
-    // Use businessId from query param if provided, otherwise use from token
-    // For multi-business owners, we need to verify they own the requested business
-    const targetBusinessId = validated.businessId || payload.business_id;
-
-    // CRITICAL: Verify user owns this business before querying data
-    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, targetBusinessId);
-    if (unauthorizedResponse) return unauthorizedResponse;
+    let targetBusinessId: string;
+    let staffFilter = validated.staffId;
+
+    if (payload.role === 'staff') {
+      // Staff members only see their own calendar
+      const [staff] = await sql`
+        SELECT id, business_id FROM staff_members
+        WHERE user_id = ${payload.sub}
+          AND status = 'active'
+          AND deleted_at IS NULL
+        LIMIT 1
+      `;
+
+      if (!staff) {
+        return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+      }
+
+      targetBusinessId = staff.business_id;
+      staffFilter = staff.id;
+    } else {
+      // Use businessId from query param if provided, otherwise use from token
+      // For multi-business owners, we need to verify they own the requested business
+      targetBusinessId = validated.businessId || payload.business_id;
+
+      // CRITICAL: Verify user owns this business before querying data
+      const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, targetBusinessId);
+      if (unauthorizedResponse) return unauthorizedResponse;
+    }
 
     const dbStatus = validated.status ? STATUS_UI_TO_DB[validated.status] ?? 'confirmed' : null;
 
@@ -71,10 +93,19 @@ export async function GET(request: NextRequest) {
         a.id,
         a.service_id,
         s.name AS service_name,
+        a.staff_id,
+        sm.name AS staff_name,
+        a.resource_ids,
         a.slot_start,
         a.slot_end,
         a.status,
         a.version,
+        a.policy_override,
+        a.series_id,
+        a.series_index,
+        a.custom_field_answers,
+        a.notes,
+        a.internal_notes,
         a.created_at,
         a.updated_at,
         u.name AS customer_name,
@@ -86,12 +117,14 @@ export async function GET(request: NextRequest) {
       FROM appointments a
       LEFT JOIN services s ON s.id = a.service_id
       LEFT JOIN users u ON u.id = a.customer_id
+      LEFT JOIN staff_members sm ON sm.id = a.staff_id
       WHERE a.business_id = ${targetBusinessId}
         AND a.deleted_at IS NULL
         ${validated.start ? sql`AND a.slot_end > ${new Date(validated.start).toISOString()}` : sql``}
         ${validated.end ? sql`AND a.slot_start < ${new Date(validated.end).toISOString()}` : sql``}
         ${dbStatus ? sql`AND a.status = ${dbStatus}` : sql``}
         ${validated.serviceId ? sql`AND a.service_id = ${validated.serviceId}` : sql``}
+        ${staffFilter ? sql`AND a.staff_id = ${staffFilter}` : sql``}
       ORDER BY a.slot_start ASC
     `;
 
@@ -104,6 +137,9 @@ export async function GET(request: NextRequest) {
         id: row.id,
         service_id: row.service_id,
         service_name: row.service_name,
+        staff_id: row.staff_id ?? null,
+        staff_name: row.staff_name ?? null,
+        resource_ids: row.resource_ids ?? [],
         start_time: slotStart.toISOString(),
         end_time: slotEnd.toISOString(),
         duration: durationMinutes,
@@ -114,6 +150,12 @@ export async function GET(request: NextRequest) {
         guest_email: row.guest_email ?? null,
         guest_phone: row.guest_phone ?? null,
         version: row.version ?? 1,
+        policy_override: row.policy_override ?? false,
+        series_id: row.series_id ?? null,
+        series_index: row.series_index ?? null,
+        custom_field_answers: row.custom_field_answers ?? [],
+        notes: row.notes ?? null,
+        internal_notes: row.internal_notes ?? null,
         created_at: row.created_at,
         updated_at: row.updated_at,
       };
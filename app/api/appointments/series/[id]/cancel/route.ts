@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { getDbClient } from '@/db/client';
+import { SeriesManager, SERIES_SCOPES } from '@/lib/booking';
+import { CustomerNotificationService } from '@/lib/email/customer-notification-service';
+import { z } from 'zod';
+
+const cancelSeriesSchema = z.object({
+  appointment_id: z.string().uuid({ message: 'Invalid appointment ID' }),
+  scope: z.enum(SERIES_SCOPES),
+});
+
+/**
+ * POST /api/appointments/series/[id]/cancel
+ * Cancel one occurrence, it and the following ones, or the whole series.
+ * The customer gets one email listing every canceled date.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+
+  if (!token) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  let payload: ReturnType<typeof verifyToken>;
+
+  try {
+    payload = verifyToken(token);
+  } catch {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (payload.role !== 'owner') {
+    return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+  }
+
+  let body: z.infer<typeof cancelSeriesSchema>;
+
+  try {
+    body = cancelSeriesSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: 'Validation failed', errors: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Invalid request body' }, { status: 400 });
+  }
+
+  const { id } = await params;
+  const sql = getDbClient();
+
+  try {
+    const seriesManager = new SeriesManager(sql);
+    const series = await seriesManager.getSeries(id);
+
+    if (!series) {
+      return NextResponse.json({ message: 'Series not found' }, { status: 404 });
+    }
+
+    const [ownership] = await sql`
+      SELECT user_owns_business(${payload.sub}, ${series.business_id}) as owns_business
+    `;
+
+    if (!ownership?.owns_business) {
+      return NextResponse.json({ message: 'Series not found' }, { status: 404 });
+    }
+
+    let result;
+
+    try {
+      result = await seriesManager.cancelOccurrences({
+        seriesId: id,
+        appointmentId: body.appointment_id,
+        scope: body.scope,
+        actorId: payload.sub,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to cancel';
+      return NextResponse.json({ message }, { status: 400 });
+    }
+
+    if (result.occurrences.length > 0) {
+      await new CustomerNotificationService(sql).sendSeriesSummary(
+        'cancelled',
+        result.occurrences[0].appointmentId!,
+        result.occurrences
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      seriesStatus: result.series?.status,
+      occurrences: result.occurrences,
+    });
+  } catch (error) {
+    console.error('Series cancellation error:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
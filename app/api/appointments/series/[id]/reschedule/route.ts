@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { getDbClient } from '@/db/client';
+import { SeriesManager, SERIES_SCOPES, resolveCapacityPools, getServiceResources } from '@/lib/booking';
+import { snapToGrain } from '@/lib/booking/validation';
+import { CustomerNotificationService } from '@/lib/email/customer-notification-service';
+import { loadConfigBySubdomain } from '@/lib/config/config-loader';
+import { z } from 'zod';
+
+const rescheduleSeriesSchema = z.object({
+  appointment_id: z.string().uuid({ message: 'Invalid appointment ID' }),
+  scope: z.enum(SERIES_SCOPES),
+  new_start_time: z.string().datetime({ message: 'New start time must be a valid datetime' }),
+});
+
+/**
+ * POST /api/appointments/series/[id]/reschedule
+ * Move one occurrence, it and the following ones, or the whole series.
+ *
+ * The other occurrences in scope move by the same days and to the same time
+ * of day. If any date is unavailable nothing moves and 409 lists the checks.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+
+  if (!token) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  let payload: ReturnType<typeof verifyToken>;
+
+  try {
+    payload = verifyToken(token);
+  } catch {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (payload.role !== 'owner') {
+    return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+  }
+
+  let body: z.infer<typeof rescheduleSeriesSchema>;
+
+  try {
+    body = rescheduleSeriesSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: 'Validation failed', errors: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Invalid request body' }, { status: 400 });
+  }
+
+  const { id } = await params;
+  const sql = getDbClient();
+
+  try {
+    const [series] = await sql`
+      SELECT
+        s.id,
+        s.business_id,
+        b.subdomain,
+        sv.external_id AS service_external_id,
+        sv.buffer_before_minutes,
+        sv.buffer_after_minutes
+      FROM appointment_series s
+      JOIN businesses b ON b.id = s.business_id
+      JOIN services sv ON sv.id = s.service_id
+      WHERE s.id = ${id}
+    `;
+
+    if (!series) {
+      return NextResponse.json({ message: 'Series not found' }, { status: 404 });
+    }
+
+    const [ownership] = await sql`
+      SELECT user_owns_business(${payload.sub}, ${series.business_id}) as owns_business
+    `;
+
+    if (!ownership?.owns_business) {
+      return NextResponse.json({ message: 'Series not found' }, { status: 404 });
+    }
+
+    // Load tenant config to get maxSimultaneousBookings (YAML is single source of truth)
+    const configResult = await loadConfigBySubdomain(series.subdomain);
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json(
+        { message: 'Business configuration not found' },
+        { status: 500 }
+      );
+    }
+
+    const config = configResult.config;
+    const serviceConfig = config.categories
+      .flatMap((cat) => cat.services)
+      .find((svc) => svc.id === series.service_external_id);
+
+    let result;
+
+    try {
+      result = await new SeriesManager(sql).rescheduleOccurrences({
+        seriesId: id,
+        appointmentId: body.appointment_id,
+        scope: body.scope,
+        newStart: snapToGrain(new Date(body.new_start_time)),
+        actorId: payload.sub,
+        config,
+        maxSimultaneousBookings: serviceConfig?.maxSimultaneousBookings ?? config.bookingLimits.maxSimultaneousBookings,
+        capacityPools: serviceConfig
+          ? await resolveCapacityPools(sql, config, series.business_id, serviceConfig.id)
+          : [],
+        resources: serviceConfig ? getServiceResources(config, serviceConfig.id) : undefined,
+        bufferBefore: series.buffer_before_minutes || 0,
+        bufferAfter: series.buffer_after_minutes || 0,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to reschedule';
+      return NextResponse.json({ message }, { status: 400 });
+    }
+
+    if (!result.updated) {
+      return NextResponse.json(
+        {
+          message: 'Some dates in the series are not available',
+          code: 'SERIES_CONFLICT',
+          details: { occurrences: result.occurrences },
+        },
+        { status: 409 }
+      );
+    }
+
+    const moved = result.occurrences.filter(o => o.available && o.appointmentId);
+
+    if (moved.length > 0) {
+      await new CustomerNotificationService(sql).sendSeriesSummary(
+        'updated',
+        moved[0].appointmentId!,
+        moved
+      );
+    }
+
+    return NextResponse.json({ success: true, occurrences: result.occurrences });
+  } catch (error) {
+    console.error('Series reschedule error:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { getDbClient } from '@/db/client';
+import { SeriesManager } from '@/lib/booking';
+
+/**
+ * GET /api/appointments/series/[id]
+ * A recurring series with all of its occurrences, canceled ones included
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+
+  if (!token) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  let payload: ReturnType<typeof verifyToken>;
+
+  try {
+    payload = verifyToken(token);
+  } catch {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (payload.role !== 'owner') {
+    return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+  }
+
+  const { id } = await params;
+  const sql = getDbClient();
+
+  try {
+    const seriesManager = new SeriesManager(sql);
+    const series = await seriesManager.getSeries(id);
+
+    if (!series) {
+      return NextResponse.json({ message: 'Series not found' }, { status: 404 });
+    }
+
+    const [ownership] = await sql`
+      SELECT user_owns_business(${payload.sub}, ${series.business_id}) as owns_business
+    `;
+
+    if (!ownership?.owns_business) {
+      return NextResponse.json({ message: 'Series not found' }, { status: 404 });
+    }
+
+    const occurrences = await seriesManager.listOccurrences(id);
+
+    return NextResponse.json({
+      series,
+      occurrences: occurrences.map(appointment => ({
+        id: appointment.id,
+        booking_id: appointment.booking_id,
+        series_index: appointment.series_index,
+        start_time: appointment.slot_start,
+        end_time: appointment.slot_end,
+        status: appointment.status,
+        version: appointment.version,
+      })),
+    });
+  } catch (error) {
+    console.error('Series lookup error:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
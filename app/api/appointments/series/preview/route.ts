@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { getDbClient } from '@/db/client';
+import { SeriesManager, recurrenceRuleSchema, resolveCapacityPools, getServiceResources } from '@/lib/booking';
+import { snapToGrain } from '@/lib/booking/validation';
+import { loadConfigBySubdomain } from '@/lib/config/config-loader';
+import { z } from 'zod';
+
+const previewSeriesSchema = z.object({
+  service_id: z.string().uuid({ message: 'Invalid service ID' }),
+  start_time: z.string().datetime({ message: 'Start time must be a valid datetime' }),
+  duration: z.number().int().positive().max(480).optional(),
+  staff_id: z.string().uuid({ message: 'Invalid staff ID' }).optional(),
+  recurrence: recurrenceRuleSchema,
+});
+
+/**
+ * POST /api/appointments/series/preview
+ * Expand a recurrence rule and report which dates are available, without booking.
+ * Used by the create appointment modal before the owner confirms a series.
+ */
+export async function POST(request: NextRequest) {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+
+  if (!token) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  let payload: ReturnType<typeof verifyToken>;
+
+  try {
+    payload = verifyToken(token);
+  } catch {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (payload.role !== 'owner' || !payload.business_id) {
+    return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
+  }
+
+  let body: z.infer<typeof previewSeriesSchema>;
+
+  try {
+    body = previewSeriesSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: 'Validation failed', errors: error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Invalid request body' }, { status: 400 });
+  }
+
+  const sql = getDbClient();
+
+  try {
+    const [service] = await sql`
+      SELECT s.id, s.duration_minutes, s.external_id, s.buffer_before_minutes, s.buffer_after_minutes,
+             b.subdomain
+      FROM services s
+      JOIN businesses b ON b.id = s.business_id
+      WHERE s.id = ${body.service_id}
+        AND s.business_id = ${payload.business_id}
+        AND s.deleted_at IS NULL
+    `;
+
+    if (!service) {
+      return NextResponse.json({ message: 'Service not found' }, { status: 404 });
+    }
+
+    const configResult = await loadConfigBySubdomain(service.subdomain);
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json(
+        { message: 'Business configuration not found' },
+        { status: 500 }
+      );
+    }
+
+    const config = configResult.config;
+    const serviceConfig = config.categories
+      .flatMap((cat) => cat.services)
+      .find((svc) => svc.id === service.external_id);
+
+    if (!serviceConfig) {
+      return NextResponse.json(
+        { message: `Service configuration not found in YAML for external_id: ${service.external_id}` },
+        { status: 500 }
+      );
+    }
+
+    const durationMinutes = body.duration ?? Number(service.duration_minutes);
+    const firstStart = snapToGrain(new Date(body.start_time));
+
+    const occurrences = await new SeriesManager(sql).previewSeries({
+      businessId: payload.business_id,
+      serviceId: service.id,
+      staffId: body.staff_id,
+      firstStart,
+      durationMinutes,
+      rule: body.recurrence,
+      config,
+      maxSimultaneousBookings: serviceConfig.maxSimultaneousBookings ?? 1,
+      capacityPools: await resolveCapacityPools(sql, config, payload.business_id, serviceConfig.id),
+      resources: getServiceResources(config, serviceConfig.id),
+      bufferBefore: service.buffer_before_minutes || 0,
+      bufferAfter: service.buffer_after_minutes || 0,
+    });
+
+    return NextResponse.json({ occurrences });
+  } catch (error) {
+    console.error('Series preview error:', error);
+    return NextResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
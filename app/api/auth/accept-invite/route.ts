@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hashPassword, validatePasswordStrength } from '@/lib/auth/password';
+import { checkRateLimit } from '@/lib/auth/rate-limit';
+import { z } from 'zod';
+import { getDbClient } from '@/db/client';
+import { StaffManager } from '@/lib/staff/staff-manager';
+
+const sql = getDbClient();
+
+const acceptInviteSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(1),
+  name: z.string().min(1).max(120).optional(),
+});
+
+/**
+ * GET /api/auth/accept-invite?token=...
+ * Preview a staff invitation (business name, invited name and email)
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+
+  if (!token) {
+    return NextResponse.json({ error: 'Missing invitation token' }, { status: 400 });
+  }
+
+  try {
+    const invite = await new StaffManager(sql).findInvite(token);
+
+    if (!invite) {
+      return NextResponse.json(
+        { error: 'Invalid or expired invitation' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      businessName: invite.business_name,
+      name: invite.name,
+      email: invite.email,
+    });
+  } catch (error) {
+    console.error('Accept invite preview error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/auth/accept-invite
+ * Accept a staff invitation by choosing a password
+ *
+ * Creates a 'staff' user linked to the business. The invite email proves
+ * ownership of the address, so the account is created already verified.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { token, password, name } = acceptInviteSchema.parse(body);
+
+    // Get IP for rate limiting
+    const ip = request.headers.get('x-forwarded-for') || 'unknown';
+
+    const isRateLimited = await checkRateLimit(ip, 'login');
+    if (isRateLimited) {
+      return NextResponse.json(
+        { error: 'Too many attempts. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const strength = validatePasswordStrength(password);
+    if (!strength.valid) {
+      return NextResponse.json(
+        { error: 'Password does not meet requirements', errors: strength.errors },
+        { status: 400 }
+      );
+    }
+
+    const staffManager = new StaffManager(sql);
+    const invite = await staffManager.findInvite(token);
+
+    if (!invite) {
+      return NextResponse.json(
+        { error: 'Invalid or expired invitation' },
+        { status: 400 }
+      );
+    }
+
+    // One account per email across the platform
+    const existingUser = await sql`
+      SELECT id FROM users
+      WHERE LOWER(email) = LOWER(${invite.email})
+        AND deleted_at IS NULL
+    `;
+
+    if (existingUser.length > 0) {
+      return NextResponse.json(
+        { error: 'An account with this email already exists. Ask the owner to invite a different email.' },
+        { status: 409 }
+      );
+    }
+
+    const passwordHash = await hashPassword(password);
+    const accepted = await staffManager.acceptInvite(token, { passwordHash, name });
+
+    if (!accepted) {
+      return NextResponse.json(
+        { error: 'Invalid or expired invitation' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message: 'Invitation accepted. You can now log in.',
+        email: accepted.email,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Accept invite error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
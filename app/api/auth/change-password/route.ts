@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { hashPassword, verifyPassword, validatePasswordStrength } from '@/lib/auth/password';
+import { hashToken } from '@/lib/auth/tokens';
+import { checkRateLimit, resetRateLimit } from '@/lib/auth/rate-limit';
+import { z } from 'zod';
+import { getDbClient } from '@/db/client';
+
+const sql = getDbClient();
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(1),
+});
+
+/**
+ * POST /api/auth/change-password
+ * Change the password of the authenticated user
+ *
+ * Used both voluntarily and for forced changes (requires_password_change, set for
+ * onboarded owners with temporary passwords). Other sessions are revoked; the
+ * session making the request stays signed in.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { currentPassword, newPassword } = changePasswordSchema.parse(body);
+
+    // Reuse the login limiter so this endpoint can't be used to brute-force passwords
+    const ip = request.headers.get('x-forwarded-for') || 'unknown';
+    const identifier = `${ip}:${payload.email}`;
+
+    const isRateLimited = await checkRateLimit(identifier, 'login');
+    if (isRateLimited) {
+      return NextResponse.json(
+        { error: 'Too many attempts. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const [user] = await sql`
+      SELECT id, password_hash, requires_password_change
+      FROM users
+      WHERE id = ${payload.sub}
+        AND deleted_at IS NULL
+    `;
+
+    if (!user || !user.password_hash) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const isValidPassword = await verifyPassword(currentPassword, user.password_hash);
+    if (!isValidPassword) {
+      return NextResponse.json(
+        { error: 'Current password is incorrect' },
+        { status: 400 }
+      );
+    }
+
+    if (currentPassword === newPassword) {
+      return NextResponse.json(
+        { error: 'New password must be different from the current password' },
+        { status: 400 }
+      );
+    }
+
+    // Validate password strength
+    const strength = validatePasswordStrength(newPassword);
+    if (!strength.valid) {
+      return NextResponse.json(
+        { error: 'Password does not meet requirements', errors: strength.errors },
+        { status: 400 }
+      );
+    }
+
+    const passwordHash = await hashPassword(newPassword);
+
+    await sql`
+      UPDATE users
+      SET
+        password_hash = ${passwordHash},
+        password_reset_token = NULL,
+        password_reset_expires_at = NULL,
+        requires_password_change = false
+      WHERE id = ${user.id}
+    `;
+
+    // Revoke all other sessions (keep the current refresh token, if any)
+    const refreshToken = request.cookies.get('refresh_token')?.value;
+    const currentTokenHash = refreshToken ? hashToken(refreshToken) : null;
+
+    await sql`
+      UPDATE refresh_tokens
+      SET revoked_at = NOW()
+      WHERE user_id = ${user.id}
+        AND revoked_at IS NULL
+        AND token_hash IS DISTINCT FROM ${currentTokenHash}
+    `;
+
+    await resetRateLimit(identifier, 'login');
+
+    return NextResponse.json({
+      message: 'Password changed successfully',
+      wasRequired: user.requires_password_change,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Change password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
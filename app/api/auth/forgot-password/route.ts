@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createEmailService } from '@/lib/email/email-service';
+import { renderPasswordReset, getEmailSubject } from '@/lib/email/templates';
+import {
+  generatePasswordResetToken,
+  getPasswordResetExpiry,
+  hashToken,
+} from '@/lib/auth/tokens';
+import { checkRateLimit } from '@/lib/auth/rate-limit';
+import { z } from 'zod';
+import { getDbClient } from '@/db/client';
+import { env } from '@/lib/env';
+
+const sql = getDbClient();
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+// Same response whether or not the account exists (prevents email enumeration)
+const GENERIC_RESPONSE = {
+  message: 'If an account exists with this email, a password reset link has been sent.',
+};
+
+/**
+ * POST /api/auth/forgot-password
+ * Send a single-use password reset link
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { email } = forgotPasswordSchema.parse(body);
+
+    // Get IP for rate limiting
+    const ip = request.headers.get('x-forwarded-for') || 'unknown';
+    const identifier = `${ip}:${email}`;
+
+    // Check rate limit
+    const isRateLimited = await checkRateLimit(identifier, 'password_reset');
+    if (isRateLimited) {
+      return NextResponse.json(
+        { error: 'Too many password reset requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    // Find user by email (only accounts with a password can reset it)
+    const [user] = await sql`
+      SELECT id, email, name
+      FROM users
+      WHERE email = ${email}
+        AND password_hash IS NOT NULL
+        AND deleted_at IS NULL
+    `;
+
+    if (!user) {
+      return NextResponse.json(GENERIC_RESPONSE);
+    }
+
+    // Only the hash is stored; issuing a new token invalidates any previous one
+    const resetToken = generatePasswordResetToken();
+    const resetTokenHash = hashToken(resetToken);
+    const resetExpiry = getPasswordResetExpiry();
+
+    await sql`
+      UPDATE users
+      SET
+        password_reset_token = ${resetTokenHash},
+        password_reset_expires_at = ${resetExpiry}
+      WHERE id = ${user.id}
+    `;
+
+    try {
+      const emailService = createEmailService(sql);
+      const resetUrl = `${env.NEXT_PUBLIC_APP_URL}/auth/reset-password?token=${resetToken}`;
+
+      const emailHtml = await renderPasswordReset({
+        userName: user.name || 'User',
+        resetUrl,
+        expiryMinutes: Math.round((resetExpiry.getTime() - Date.now()) / 60000),
+      });
+
+      const result = await emailService.sendEmail({
+        to: user.email,
+        subject: getEmailSubject('password_reset'),
+        html: emailHtml,
+        templateName: 'password_reset',
+      });
+
+      if (!result.success) {
+        console.error('❌ Failed to send password reset email:', result.error);
+      }
+    } catch (emailError) {
+      console.error('❌ Failed to send password reset email:', emailError);
+    }
+
+    return NextResponse.json(GENERIC_RESPONSE);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Please provide a valid email address.', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Forgot password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
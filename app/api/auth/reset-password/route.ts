@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hashPassword, validatePasswordStrength } from '@/lib/auth/password';
+import { hashToken } from '@/lib/auth/tokens';
+import { checkRateLimit } from '@/lib/auth/rate-limit';
+import { z } from 'zod';
+import { getDbClient } from '@/db/client';
+
+const sql = getDbClient();
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  newPassword: z.string().min(1),
+});
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password using a token from the reset email
+ *
+ * The token is single-use: it is cleared in the same statement that sets the
+ * new password. All refresh tokens are revoked so every session must log in again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { token, newPassword } = resetPasswordSchema.parse(body);
+
+    // Get IP for rate limiting
+    const ip = request.headers.get('x-forwarded-for') || 'unknown';
+
+    // Check rate limit
+    const isRateLimited = await checkRateLimit(ip, 'password_reset');
+    if (isRateLimited) {
+      return NextResponse.json(
+        { error: 'Too many password reset attempts. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    // Validate password strength
+    const strength = validatePasswordStrength(newPassword);
+    if (!strength.valid) {
+      return NextResponse.json(
+        { error: 'Password does not meet requirements', errors: strength.errors },
+        { status: 400 }
+      );
+    }
+
+    const tokenHash = hashToken(token);
+    const passwordHash = await hashPassword(newPassword);
+
+    // Consume token and update password atomically
+    const [user] = await sql`
+      UPDATE users
+      SET
+        password_hash = ${passwordHash},
+        password_reset_token = NULL,
+        password_reset_expires_at = NULL,
+        requires_password_change = false
+      WHERE password_reset_token = ${tokenHash}
+        AND password_reset_expires_at > NOW()
+        AND deleted_at IS NULL
+      RETURNING id, email
+    `;
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid or expired reset token' },
+        { status: 400 }
+      );
+    }
+
+    // Revoke all sessions
+    await sql`
+      UPDATE refresh_tokens
+      SET revoked_at = NOW()
+      WHERE user_id = ${user.id} AND revoked_at IS NULL
+    `;
+
+    return NextResponse.json({
+      message: 'Password reset successfully. Please log in with your new password.',
+      email: user.email,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Reset password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDbClient } from '@/db/client';
-import { ReservationManager } from '@/lib/booking';
+import { ReservationManager, resolveCapacityPools, getServiceResources } from '@/lib/booking';
 import { loadConfigBySubdomain } from '@/lib/config/config-loader';
 import { getServiceByIdentifier } from '@/lib/db/service-helpers';
 import { z } from 'zod';
@@ -86,7 +86,10 @@ export async function GET(request: NextRequest) {
       service.id, // Use resolved UUID
       new Date(data.slotStart),
       new Date(data.slotEnd),
-      maxSimultaneousBookings // Pass YAML config capacity
+      maxSimultaneousBookings, // Pass YAML config capacity
+      undefined,
+      await resolveCapacityPools(db, config, data.businessId, serviceConfig.id),
+      getServiceResources(config, serviceConfig.id)
     );
 
     return NextResponse.json({
@@ -1,22 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDbClient } from '@/db/client';
-import { AppointmentManager } from '@/lib/booking';
+import { commitBooking } from '@/lib/booking';
 import { OwnerNotificationService } from '@/lib/notifications/owner-notification-service';
 import { CustomerNotificationService } from '@/lib/email/customer-notification-service';
 import { z } from 'zod';
-import { v4 as uuidv4 } from 'uuid';
-import { generateBookingId } from '@/lib/booking/id';
-
-const commitSchema = z.object({
-  reservationId: z.string().min(1),
-  customerId: z.string().min(1).optional(),
-  guestEmail: z.string().email().optional(),
-  guestPhone: z.string().optional(),
-  guestName: z.string().min(1).optional()
-}).refine(
-  (data) => data.customerId || data.guestEmail,
-  { message: 'Either customerId or guestEmail must be provided' }
-);
+import { commitSchema } from '@/lib/booking/schemas';
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,22 +12,25 @@ export async function POST(request: NextRequest) {
     const data = commitSchema.parse(body);
 
     const db = getDbClient();
-    const manager = new AppointmentManager(db);
-    const bookingId = generateBookingId();
-
-    // Generate cancellation token for guest bookings
-    const cancellationToken = data.guestEmail ? uuidv4() : undefined;
-
-    const appointment = await manager.commitReservation({
+    const result = await commitBooking(db, {
       reservationId: data.reservationId,
-      bookingId: bookingId,
       customerId: data.customerId,
       guestEmail: data.guestEmail,
       guestPhone: data.guestPhone,
       guestName: data.guestName,
-      cancellationToken
+      customFields: data.customFields,
+      notes: data.notes,
     });
 
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.code, params: result.params, fieldId: result.fieldId },
+        { status: result.status }
+      );
+    }
+
+    const { appointment } = result;
+
     // Send owner notification (non-blocking)
     try {
       const ownerNotificationService = new OwnerNotificationService(db);
@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getDbClient } from '@/db/client';
+import { ReservationManager, WaitlistManager, evaluateBookingLimits, evaluateNoShowPolicy } from '@/lib/booking';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { DepositManager, getPaymentProvider, PaymentProviderError } from '@/lib/payments';
+import { checkRateLimit, getClientIdentifier } from '@/lib/middleware/rate-limiter';
+import { env } from '@/lib/env';
+
+const depositSchema = z.object({
+  reservationId: z.string().uuid().optional(),
+  waitlistToken: z.string().min(1).optional(),
+  email: z.string().email().optional(),
+  phone: z.string().optional(),
+}).refine(data => data.reservationId || data.waitlistToken, {
+  message: 'reservationId or waitlistToken is required',
+});
+
+/**
+ * POST /api/booking/deposit
+ *
+ * Start the deposit payment for a reservation whose service requires one.
+ *
+ * Body:
+ * - reservationId: Reservation returned by /api/booking/reserve
+ * - waitlistToken: Waitlist offer token, instead of reservationId, to pay for a held offer
+ * - email: Customer email to prefill on the payment page - optional
+ * - phone: Customer phone number, for the no-show policy - optional
+ *
+ * Customers the no-show policy asks a deposit from pay one for any service.
+ * The reservation is held a little longer while the customer pays. After
+ * paying, the provider sends them to /book/deposit, which commits the booking;
+ * waitlist offers go back to the claim page, with the offer held as long as
+ * the reservation.
+ */
+export async function POST(request: NextRequest) {
+  // Rate limiting: 10 payment attempts per 5 minutes per IP
+  const clientId = getClientIdentifier(request);
+  const rateLimit = checkRateLimit(clientId, {
+    maxRequests: 10,
+    windowMs: 5 * 60 * 1000,
+  });
+
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      { success: false, error: 'Too many requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  try {
+    const data = depositSchema.parse(await request.json());
+
+    const provider = getPaymentProvider();
+    if (!provider) {
+      return NextResponse.json(
+        { success: false, error: 'Online payments are not available' },
+        { status: 503 }
+      );
+    }
+
+    const db = getDbClient();
+    const waitlistManager = new WaitlistManager(db);
+    const offer = data.waitlistToken ? await waitlistManager.findOffer(data.waitlistToken) : null;
+
+    if (data.waitlistToken && !offer?.reservation_id) {
+      return NextResponse.json(
+        { success: false, error: 'This offer is no longer available' },
+        { status: 410 }
+      );
+    }
+
+    // Offers are paid with the contact details from the waitlist entry
+    const customerId = offer?.customer_id || undefined;
+    const email = offer ? (offer.customer_id ? undefined : offer.email) : data.email;
+    const phone = offer ? (offer.customer_id ? undefined : offer.phone || undefined) : data.phone;
+
+    const validation = await new ReservationManager(db).validateReservation(offer?.reservation_id || data.reservationId!);
+
+    if (!validation.isValid || !validation.reservation) {
+      return NextResponse.json(
+        { success: false, error: validation.reason || 'Reservation not found or expired' },
+        { status: 410 }
+      );
+    }
+
+    const reservation = validation.reservation;
+    const depositManager = new DepositManager(db, provider);
+    let deposit = await depositManager.getDepositForReservation(reservation);
+
+    // Don't take a payment for a booking the commit would reject
+    if (customerId || email || phone) {
+      const configResult = await loadConfigByBusinessId(reservation.business_id);
+
+      if (configResult.success && configResult.config) {
+        if (customerId || email) {
+          const limits = await evaluateBookingLimits(db, {
+            config: configResult.config,
+            businessId: reservation.business_id,
+            slotStart: new Date(reservation.slot_start),
+            customerId,
+            guestEmail: email,
+          });
+
+          if (!limits.allowed) {
+            return NextResponse.json(
+              { success: false, error: limits.error, code: limits.code, params: limits.params },
+              { status: 403 }
+            );
+          }
+        }
+
+        const noShow = await evaluateNoShowPolicy(db, {
+          config: configResult.config,
+          businessId: reservation.business_id,
+          customerId,
+          guestEmail: email,
+          guestPhone: phone,
+        });
+
+        if (!noShow.allowed) {
+          return NextResponse.json(
+            { success: false, error: noShow.error, code: noShow.code, params: noShow.params },
+            { status: 403 }
+          );
+        }
+
+        deposit = deposit ?? noShow.deposit ?? null;
+      }
+    }
+
+    if (!deposit) {
+      return NextResponse.json(
+        { success: false, error: 'This service does not require a deposit' },
+        { status: 400 }
+      );
+    }
+
+    const [context] = await db`
+      SELECT b.name as business_name, b.subdomain, s.name as service_name
+      FROM businesses b
+      JOIN services s ON s.id = ${reservation.service_id}
+      WHERE b.id = ${reservation.business_id}
+    `;
+
+    const claimUrl = offer && `${env.NEXT_PUBLIC_APP_URL}/book/waitlist?token=${encodeURIComponent(data.waitlistToken!)}`;
+
+    const payment = await depositManager.startDeposit({
+      reservation,
+      deposit,
+      description: `${context.service_name} - ${context.business_name} (deposit)`,
+      customerEmail: email || offer?.email,
+      returnUrl: claimUrl || `${env.NEXT_PUBLIC_APP_URL}/book/deposit?reservation=${reservation.id}`,
+      cancelUrl: claimUrl || `${env.NEXT_PUBLIC_APP_URL}/book/${context.subdomain}`,
+    });
+
+    // The offer would otherwise expire, and pass the slot on, while the customer pays
+    if (offer) {
+      await waitlistManager.holdOfferWithReservation(offer.id);
+    }
+
+    const [extended] = await db`
+      SELECT expires_at FROM reservations WHERE id = ${reservation.id}
+    `;
+
+    return NextResponse.json({
+      success: true,
+      payment: {
+        id: payment.id,
+        status: payment.status,
+        redirectUrl: payment.redirect_url,
+        amountCents: payment.amount_cents,
+        currency: payment.currency,
+      },
+      expiresAt: extended?.expires_at || reservation.expires_at,
+    });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PaymentProviderError) {
+      console.error('Deposit provider error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Payment provider error', code: error.code },
+        { status: 502 }
+      );
+    }
+
+    console.error('Deposit error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to start deposit payment' },
+      { status: 500 }
+    );
+  }
+}
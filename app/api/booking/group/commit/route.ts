@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { commitGroupBooking } from '@/lib/booking';
+import { OwnerNotificationService } from '@/lib/notifications/owner-notification-service';
+import { CustomerNotificationService } from '@/lib/email/customer-notification-service';
+import { z } from 'zod';
+import { groupCommitSchema } from '@/lib/booking/schemas';
+
+/**
+ * POST /api/booking/group/commit
+ *
+ * Confirm every leg of a reserved booking group under one booking ID.
+ * Runs the checks of a single booking (see commitGroupBooking) once for the
+ * whole visit; the customer gets one confirmation.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const data = groupCommitSchema.parse(body);
+
+    const db = getDbClient();
+    const result = await commitGroupBooking(db, {
+      groupId: data.groupId,
+      customerId: data.customerId,
+      guestEmail: data.guestEmail,
+      guestPhone: data.guestPhone,
+      guestName: data.guestName,
+      customFields: data.customFields,
+      notes: data.notes,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.code, params: result.params, fieldId: result.fieldId },
+        { status: result.status }
+      );
+    }
+
+    const { group: committed, appointments } = result;
+    const first = appointments[0];
+    const last = appointments[appointments.length - 1];
+
+    // Send owner notification (non-blocking)
+    try {
+      const ownerNotificationService = new OwnerNotificationService(db);
+
+      const serviceResult = await db`
+        SELECT id, name FROM services
+        WHERE id = ANY(${appointments.map(appointment => appointment.service_id)}::uuid[])
+      `;
+      const serviceName = appointments
+        .map(appointment => serviceResult.find(service => service.id === appointment.service_id)?.name || 'Service')
+        .join(' + ');
+
+      await ownerNotificationService.notifyOwnerOfNewBooking(
+        first.business_id,
+        first.id,
+        committed.booking_id!,
+        data.guestName || data.customerId || null,
+        serviceName,
+        new Date(first.slot_start!).toISOString()
+      );
+    } catch (notificationError) {
+      console.error('Failed to send owner notification:', notificationError);
+      // Don't fail the booking if notification fails
+    }
+
+    // One confirmation for the whole visit, from the start of the first service to the end of the last
+    if (first.slot_start && last.slot_end) {
+      try {
+        await new CustomerNotificationService(db).sendBookingConfirmation({
+          id: first.id,
+          businessId: first.business_id,
+          serviceId: first.service_id,
+          customerId: data.customerId,
+          guestEmail: data.guestEmail,
+          guestPhone: data.guestPhone,
+          guestName: data.guestName,
+          slotStart: new Date(first.slot_start),
+          slotEnd: new Date(last.slot_end),
+          status: first.status,
+          bookingId: committed.booking_id!,
+          cancellationToken: first.cancellation_token || undefined,
+        });
+      } catch (error) {
+        console.error('❌ Failed to send booking confirmation email:', error);
+        // Don't fail the booking if email fails
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      groupId: committed.id,
+      appointment: {
+        id: first.id,
+        bookingId: committed.booking_id,
+        businessId: first.business_id,
+        slotStart: first.slot_start,
+        slotEnd: last.slot_end,
+        status: first.status,
+        cancellationToken: first.cancellation_token
+      },
+      appointments: appointments.map(appointment => ({
+        id: appointment.id,
+        bookingId: appointment.booking_id,
+        serviceId: appointment.service_id,
+        slotStart: appointment.slot_start,
+        slotEnd: appointment.slot_end,
+      })),
+    });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message.includes('Reservation')) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Group commit error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to confirm booking' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,256 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { BookingGroupManager, evaluateNoShowPolicy, planSequence, GroupLegParams } from '@/lib/booking';
+import { loadConfigBySubdomain } from '@/lib/config/config-loader';
+import { checkRateLimit, getClientIdentifier } from '@/lib/middleware/rate-limiter';
+import { validateBookingTime, snapToGrain } from '@/lib/booking/validation';
+import { StaffManager } from '@/lib/staff/staff-manager';
+import { getServiceDeposit } from '@/lib/payments';
+import { groupReserveSchema } from '@/lib/booking/schemas';
+import { ExternalCalendarService } from '@/lib/calendar';
+import { z } from 'zod';
+
+/**
+ * POST /api/booking/group/reserve
+ *
+ * Reserve several services back to back, all or nothing, under one
+ * idempotency key. The services run in the order given, starting at
+ * startTime, with each service's buffers between them.
+ *
+ * Services with a deposit (and customers the no-show policy asks one from)
+ * must be booked one at a time, since deposits are paid per reservation.
+ */
+export async function POST(request: NextRequest) {
+  // Rate limiting: 10 reservation attempts per 5 minutes per IP (shared with single reservations)
+  const clientId = getClientIdentifier(request);
+  const rateLimit = checkRateLimit(clientId, {
+    maxRequests: 10,
+    windowMs: 5 * 60 * 1000, // 5 minutes
+  });
+
+  if (!rateLimit.allowed) {
+    const resetIn = Math.ceil((rateLimit.resetAt - Date.now()) / 1000);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Too many reservation attempts. Please try again later.',
+        retryAfter: resetIn,
+      },
+      {
+        status: 429,
+        headers: {
+          'X-RateLimit-Limit': '10',
+          'X-RateLimit-Remaining': '0',
+          'X-RateLimit-Reset': rateLimit.resetAt.toString(),
+          'Retry-After': resetIn.toString(),
+        },
+      }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const data = groupReserveSchema.parse(body);
+
+    const db = getDbClient();
+
+    const business = await db`
+      SELECT subdomain FROM businesses
+      WHERE id = ${data.businessId} AND deleted_at IS NULL
+      LIMIT 1
+    `;
+
+    if (business.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Business not found' },
+        { status: 404 }
+      );
+    }
+
+    const configResult = await loadConfigBySubdomain(business[0].subdomain);
+
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to load business configuration' },
+        { status: 500 }
+      );
+    }
+
+    const config = configResult.config;
+    const manager = new BookingGroupManager(db);
+    const services = await manager.resolveServices(config, data.businessId, data.serviceIds);
+
+    if (services.some(context => !context.service.enabled)) {
+      return NextResponse.json(
+        { success: false, error: 'Service is not available for booking' },
+        { status: 400 }
+      );
+    }
+
+    if (services.some(context => getServiceDeposit(config, context.service.id))) {
+      return NextResponse.json(
+        { success: false, error: 'Services that require a deposit must be booked separately', code: 'GROUP_DEPOSIT_UNSUPPORTED' },
+        { status: 400 }
+      );
+    }
+
+    // Snap to 5-minute grain for consistency; the other legs follow from the first
+    const legs = planSequence(services.map(context => context.service), snapToGrain(new Date(data.startTime)));
+    const first = services[0].service;
+    const last = services[services.length - 1].service;
+
+    // Busy time from the owner's external calendars that touches the buffered sequence
+    const externalBusy = await new ExternalCalendarService(db).getBusyIntervals(
+      data.businessId,
+      new Date(legs[0].start.getTime() - (first.bufferBefore || 0) * 60 * 1000),
+      new Date(legs[legs.length - 1].end.getTime() + (last.bufferAfter || 0) * 60 * 1000)
+    );
+
+    // CRITICAL: Validate every leg against off-time intervals (breaks, closed days, holidays)
+    for (const [index, leg] of legs.entries()) {
+      const validation = validateBookingTime({
+        config,
+        slotStart: leg.start,
+        slotEnd: leg.end,
+        bufferBefore: services[index].service.bufferBefore || 0,
+        bufferAfter: services[index].service.bufferAfter || 0,
+        externalBusy,
+        skipAdvanceLimitCheck: false, // Enforce advance booking limits for customers
+      });
+
+      if (!validation.valid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: validation.error,
+            code: validation.code,
+            serviceId: services[index].service.id,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // No-show policy, when the customer is already known (checked again at commit)
+    const noShow = await evaluateNoShowPolicy(db, {
+      config,
+      businessId: data.businessId,
+      customerId: data.customerId,
+      guestEmail: data.guestEmail,
+      guestPhone: data.guestPhone,
+    });
+
+    if (!noShow.allowed) {
+      return NextResponse.json(
+        { success: false, error: noShow.error, code: noShow.code, params: noShow.params },
+        { status: 403 }
+      );
+    }
+
+    if (noShow.deposit) {
+      return NextResponse.json(
+        { success: false, error: 'Services that require a deposit must be booked separately', code: 'GROUP_DEPOSIT_UNSUPPORTED' },
+        { status: 400 }
+      );
+    }
+
+    // Per-staff booking: any staff member who is working takes each leg
+    const staffManager = new StaffManager(db);
+    const legParams: GroupLegParams[] = [];
+
+    for (const [index, leg] of legs.entries()) {
+      const context = services[index];
+      const staffCandidates = await staffManager.resolveStaffCandidates(
+        config,
+        data.businessId,
+        context.serviceDbId,
+        leg.start,
+        leg.end
+      );
+
+      if (!staffCandidates.success) {
+        return NextResponse.json(
+          { success: false, error: 'No staff member is working at this time', code: 'STAFF_UNAVAILABLE', serviceId: context.service.id },
+          { status: 400 }
+        );
+      }
+
+      legParams.push({
+        serviceId: context.serviceDbId,
+        slotStart: leg.start,
+        slotEnd: leg.end,
+        maxSimultaneousBookings: context.maxSimultaneousBookings, // Pass YAML config capacity
+        capacityPools: context.capacityPools,
+        resources: context.resources,
+        staffCandidates: staffCandidates.staffIds ?? undefined,
+      });
+    }
+
+    const { group, reservations } = await manager.reserveGroup({
+      businessId: data.businessId,
+      idempotencyKey: data.idempotencyKey,
+      ttlMinutes: data.ttlMinutes,
+      legs: legParams,
+    });
+
+    // The group is held until its first leg expires
+    const expiresAt = reservations
+      .map(reservation => new Date(reservation.expires_at))
+      .reduce((earliest, expiry) => (expiry < earliest ? expiry : earliest));
+
+    return NextResponse.json(
+      {
+        success: true,
+        groupId: group.id,
+        expiresAt,
+        reservations: reservations.map((reservation, index) => ({
+          id: reservation.id,
+          serviceId: services[index].service.id,
+          slotStart: reservation.slot_start,
+          slotEnd: reservation.slot_end,
+          staffId: reservation.staff_id || null,
+          resourceIds: reservation.resource_ids ?? [],
+        })),
+      },
+      {
+        headers: {
+          'X-RateLimit-Limit': '10',
+          'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+          'X-RateLimit-Reset': rateLimit.resetAt.toString(),
+        },
+      }
+    );
+  } catch (error: unknown) {
+    if (error instanceof Error && error.message === 'Service not found') {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message.includes('no longer available') ||
+        error.message.includes('already being reserved') ||
+        error.message.includes('already been confirmed'))
+    ) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Group reservation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create reservation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadConfigBySubdomain } from '@/lib/config/config-loader';
+import { BookingGroupManager, getSequenceDuration } from '@/lib/booking';
+import { getDbClient } from '@/db/client';
+import { parseInTimezone, getEndOfDay } from '@/lib/utils/timezone';
+import { groupSlotsQuerySchema } from '@/lib/booking/schemas';
+
+/**
+ * GET /api/booking/group/slots
+ *
+ * Start times for several services booked back to back
+ *
+ * Query params:
+ * - subdomain: Business subdomain
+ * - serviceIds: Service IDs in the order they run, comma-separated (2-5)
+ * - startDate: Start date (YYYY-MM-DD)
+ * - endDate: End date (YYYY-MM-DD) - optional, defaults to startDate
+ *
+ * Each slot spans the whole sequence and lists where every service falls
+ * (legs), with each service's buffers between them. A start time is only
+ * available if every service is.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const rawParams = {
+      subdomain: searchParams.get('subdomain'),
+      serviceIds: searchParams.get('serviceIds')?.split(',').filter(Boolean),
+      startDate: searchParams.get('startDate'),
+      endDate: searchParams.get('endDate') || undefined,
+    };
+
+    const validation = groupSlotsQuerySchema.safeParse(rawParams);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid parameters',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { subdomain, serviceIds, startDate, endDate: rawEndDate } = validation.data;
+
+    const configResult = await loadConfigBySubdomain(subdomain);
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: configResult.error || 'Configuration not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const config = configResult.config;
+
+    // Parse dates in business timezone (critical for correct slot generation)
+    const businessTimezone = config.business.timezone;
+    const start = parseInTimezone(startDate, businessTimezone);
+    const end = getEndOfDay(parseInTimezone(rawEndDate || startDate, businessTimezone), businessTimezone);
+
+    const db = getDbClient();
+    const businessResult = await db`
+      SELECT id FROM businesses
+      WHERE subdomain = ${subdomain}
+        AND deleted_at IS NULL
+        AND status = 'active'
+      LIMIT 1
+    `;
+
+    if (businessResult.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Business not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const businessId = businessResult[0].id;
+    const manager = new BookingGroupManager(db);
+    const services = await manager.resolveServices(config, businessId, serviceIds);
+
+    if (services.some(context => !context.service.enabled)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Service is not available for booking',
+        },
+        { status: 400 }
+      );
+    }
+
+    const slots = await manager.findSequenceSlots({
+      config,
+      businessId,
+      services,
+      startDate: start,
+      endDate: end,
+    });
+
+    return NextResponse.json({
+      success: true,
+      slots,
+      services: services.map(({ service }) => ({
+        id: service.id,
+        name: service.name,
+        duration: service.duration,
+        price: service.price,
+      })),
+      duration: getSequenceDuration(services.map(context => context.service)),
+      dateRange: {
+        start: start.toISOString(),
+        end: end.toISOString(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Service not found') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Service not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error generating group slots:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
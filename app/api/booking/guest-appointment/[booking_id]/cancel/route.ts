@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDbClient } from '@/db/client';
+import { getDbClient, withTransaction } from '@/db/client';
 import { OwnerNotificationService } from '@/lib/notifications/owner-notification-service';
 import { CustomerNotificationService } from '@/lib/email/customer-notification-service';
+import { BookingGroupManager, WaitlistManager, evaluateCancellation } from '@/lib/booking';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { DepositManager } from '@/lib/payments';
+import { WebhookService } from '@/lib/webhooks';
 import { z } from 'zod';
 import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
@@ -20,7 +24,7 @@ export async function POST(request: NextRequest, { params }: { params: { booking
     const db = getDbClient();
 
     const result = await db`
-      SELECT id, status, guest_token_hash, guest_token_expires_at, business_id, service_id, slot_start, slot_end, guest_email, guest_name
+      SELECT id, status, guest_token_hash, guest_token_expires_at, business_id, service_id, staff_id, slot_start, slot_end, guest_email, guest_name, policy_override, group_id
       FROM appointments
       WHERE booking_id = ${bookingId} AND deleted_at IS NULL
       LIMIT 1
@@ -43,33 +47,100 @@ export async function POST(request: NextRequest, { params }: { params: { booking
         return NextResponse.json({ success: false, error: `Appointment status is ${appointment.status}, cannot cancel.` }, { status: 400 });
     }
 
-    // Mark appointment as canceled and invalidate token
-    await db`
-      UPDATE appointments
-      SET status = 'canceled', updated_at = NOW(), guest_token_hash = NULL, guest_token_expires_at = NULL
-      WHERE id = ${appointment.id}
-    `;
+    const configResult = await loadConfigByBusinessId(appointment.business_id);
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json({ success: false, error: 'Business configuration not found' }, { status: 404 });
+    }
 
-    // Add audit log entry for guest cancellation
-    await db`
-      INSERT INTO audit_logs (
-        id,
-        appointment_id,
-        actor_id,
-        action,
-        old_state,
-        new_state,
-        timestamp
-      ) VALUES (
-        ${uuidv4()},
-        ${appointment.id},
-        NULL,
-        'canceled',
-        ${JSON.stringify({ status: 'confirmed', guest_email: appointment.guest_email })},
-        ${JSON.stringify({ status: 'canceled', canceled_by: 'guest', guest_email: appointment.guest_email })},
-        NOW()
-      )
-    `;
+    // Every service of a multi-service booking is canceled together; the policy applies to the visit's start
+    const legs = appointment.group_id
+      ? (await new BookingGroupManager(db).listLegs(appointment.group_id)).filter(leg => leg.status === 'confirmed')
+      : [appointment];
+    const first = legs[0];
+    const last = legs[legs.length - 1];
+
+    const policy = evaluateCancellation(configResult.config, first.slot_start!, appointment.policy_override);
+    if (!policy.allowed) {
+      return NextResponse.json(
+        { success: false, error: policy.error, code: policy.code, params: policy.params },
+        { status: 403 }
+      );
+    }
+
+    // Cancel the legs together; one canceled meanwhile (by the owner, another tab) is left alone
+    const canceledLegs = await withTransaction(async (txDb) => {
+      const canceled: Array<(typeof legs)[number]> = [];
+
+      for (const leg of legs) {
+        // Mark appointment as canceled and invalidate token
+        const updated = await txDb`
+          UPDATE appointments
+          SET status = 'canceled', updated_at = NOW(), guest_token_hash = NULL, guest_token_expires_at = NULL
+          WHERE id = ${leg.id}
+            AND status = 'confirmed'
+            AND deleted_at IS NULL
+          RETURNING id
+        `;
+
+        if (updated.length === 0) continue;
+
+        // Add audit log entry for guest cancellation
+        await txDb`
+          INSERT INTO audit_logs (
+            id,
+            appointment_id,
+            actor_id,
+            action,
+            old_state,
+            new_state,
+            timestamp
+          ) VALUES (
+            ${uuidv4()},
+            ${leg.id},
+            NULL,
+            'canceled',
+            ${JSON.stringify({ status: 'confirmed', guest_email: appointment.guest_email })},
+            ${JSON.stringify({ status: 'canceled', canceled_by: 'guest', guest_email: appointment.guest_email })},
+            NOW()
+          )
+        `;
+
+        canceled.push(leg);
+      }
+
+      return canceled;
+    });
+
+    if (canceledLegs.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Appointment is no longer available for cancellation. It may have been canceled or modified.' },
+        { status: 409 }
+      );
+    }
+
+    for (const leg of canceledLegs) {
+      // Refund the deposit per the cancellation policy (no-op if none was paid)
+      try {
+        await new DepositManager(db).refundForCancellation(leg.id, 'customer');
+      } catch (refundError) {
+        console.error('Failed to refund deposit for canceled appointment:', refundError);
+      }
+
+      // Offer the freed slot to the waitlist (no-op unless the tenant enabled it)
+      try {
+        await new WaitlistManager(db).offerFreedSlot({
+          businessId: appointment.business_id,
+          serviceId: leg.service_id,
+          staffId: leg.staff_id,
+          slotStart: new Date(leg.slot_start!),
+          slotEnd: new Date(leg.slot_end!),
+        });
+      } catch (waitlistError) {
+        console.error('Failed to offer canceled slot to waitlist:', waitlistError);
+      }
+
+      await new WebhookService(db).emitAppointmentEvent('booking_canceled', leg.id);
+    }
 
     // Send owner notification (non-blocking)
     try {
@@ -81,7 +152,7 @@ export async function POST(request: NextRequest, { params }: { params: { booking
         appointment.id,
         bookingId,
         customerName,
-        appointment.slot_start.toISOString()
+        new Date(first.slot_start!).toISOString()
       );
     } catch (notificationError) {
       console.error('Failed to send owner notification:', notificationError);
@@ -96,8 +167,8 @@ export async function POST(request: NextRequest, { params }: { params: { booking
       serviceId: appointment.service_id,
       guestEmail: appointment.guest_email,
       guestName: appointment.guest_name,
-      slotStart: new Date(appointment.slot_start),
-      slotEnd: new Date(appointment.slot_end),
+      slotStart: new Date(first.slot_start!),
+      slotEnd: new Date(last.slot_end!),
       status: 'canceled',
       bookingId,
     }).then(() => {
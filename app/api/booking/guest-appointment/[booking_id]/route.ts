@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDbClient } from '@/db/client';
 import { createHash } from 'crypto';
+import { loadConfigBySubdomain } from '@/lib/config/config-loader';
+import { evaluateCancellation, evaluateReschedule } from '@/lib/booking/policy';
 
 export async function GET(request: NextRequest, { params }: { params: { booking_id: string } }) {
   try {
@@ -20,8 +22,9 @@ export async function GET(request: NextRequest, { params }: { params: { booking_
         s.external_id as service_external_id, s.duration_minutes,
         a.slot_start, a.slot_end,
         COALESCE(a.guest_name, a.guest_email) as customer_name,
-        a.guest_email, a.status, a.guest_token_hash, a.guest_token_expires_at,
-        b.subdomain, b.name as business_name
+        a.guest_email, a.status, a.guest_token_hash, a.guest_token_expires_at, a.policy_override,
+        a.notes, a.version, a.group_id,
+        b.subdomain, b.name as business_name, b.timezone as business_timezone
       FROM appointments a
       JOIN services s ON a.service_id = s.id
       JOIN businesses b ON a.business_id = b.id
@@ -45,22 +48,64 @@ export async function GET(request: NextRequest, { params }: { params: { booking_
     // DO NOT invalidate token on GET - only on cancel/reschedule actions
     // Token remains valid for 15 minutes to allow viewing appointment details
 
+    // The services of a multi-service booking, in the order they run
+    const legs = appointment.group_id
+      ? await db`
+          SELECT a.id, a.slot_start, a.slot_end, s.external_id, s.name
+          FROM appointments a
+          JOIN services s ON a.service_id = s.id
+          WHERE a.group_id = ${appointment.group_id}
+            AND a.status = 'confirmed'
+            AND a.deleted_at IS NULL
+          ORDER BY a.group_index ASC
+        `
+      : [];
+    const lastLeg = legs[legs.length - 1];
+    const visitStart = legs[0]?.slot_start ?? appointment.slot_start;
+
+    // What the guest may still do online (null if the config can't be loaded)
+    const configResult = await loadConfigBySubdomain(appointment.subdomain);
+    const policy = configResult.success && configResult.config
+      ? {
+          cancel: evaluateCancellation(configResult.config, visitStart, appointment.policy_override),
+          reschedule: evaluateReschedule(configResult.config, visitStart, appointment.policy_override),
+        }
+      : null;
+
     return NextResponse.json({
       success: true,
+      policy,
       appointment: {
         id: appointment.id,
         bookingId: appointment.booking_id,
-        serviceName: appointment.service_name,
+        serviceName: legs.length > 0 ? legs.map(leg => leg.name).join(' + ') : appointment.service_name,
         serviceId: appointment.service_external_id, // Use external_id for slot API
         serviceDbId: appointment.service_id, // Database UUID
-        duration: appointment.duration_minutes,
-        startTime: appointment.slot_start,
-        endTime: appointment.slot_end,
+        duration: lastLeg
+          ? Math.round((new Date(lastLeg.slot_end).getTime() - new Date(visitStart).getTime()) / (60 * 1000))
+          : appointment.duration_minutes,
+        startTime: visitStart,
+        endTime: lastLeg?.slot_end ?? appointment.slot_end,
         customerName: appointment.customer_name,
         guestEmail: appointment.guest_email,
         status: appointment.status,
+        notes: appointment.notes, // internal_notes are owner-only
         subdomain: appointment.subdomain,
         businessName: appointment.business_name,
+        timezone: appointment.business_timezone,
+        version: appointment.version,
+        // Multi-service bookings are rescheduled and canceled as a whole
+        group: legs.length > 0
+          ? {
+              serviceIds: legs.map(leg => leg.external_id),
+              services: legs.map(leg => ({
+                id: leg.external_id,
+                name: leg.name,
+                startTime: leg.slot_start,
+                endTime: leg.slot_end,
+              })),
+            }
+          : null,
       },
     });
 
@@ -1,22 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDbClient } from '@/db/client';
-import { ReservationManager } from '@/lib/booking';
+import { ReservationManager, evaluateNoShowPolicy, resolveCapacityPools, getServiceResources } from '@/lib/booking';
 import { getServiceByIdentifier } from '@/lib/db/service-helpers';
 import { loadConfigBySubdomain } from '@/lib/config/config-loader';
 import { checkRateLimit, getClientIdentifier } from '@/lib/middleware/rate-limiter';
 import { validateBookingTime, snapToGrain } from '@/lib/booking/validation';
+import { StaffManager } from '@/lib/staff/staff-manager';
+import { getServiceDeposit } from '@/lib/payments';
+import { reserveSchema } from '@/lib/booking/schemas';
+import { ExternalCalendarService } from '@/lib/calendar';
 import { z } from 'zod';
 
-const reserveSchema = z.object({
-  businessId: z.string().min(1),
-  serviceId: z.string().min(1),
-  startTime: z.string().datetime().optional(),
-  slotStart: z.string().datetime().optional(),
-  slotEnd: z.string().datetime().optional(),
-  idempotencyKey: z.string().min(1),
-  ttlMinutes: z.number().min(5).max(30).optional()
-});
-
 export async function POST(request: NextRequest) {
   // Rate limiting: 10 reservation attempts per 5 minutes per IP
   const clientId = getClientIdentifier(request);
@@ -143,14 +137,25 @@ export async function POST(request: NextRequest) {
     slotStart = snapToGrain(slotStart);
     slotEnd = snapToGrain(slotEnd);
 
+    const bufferBefore = service.buffer_before_minutes || 0;
+    const bufferAfter = service.buffer_after_minutes || 0;
+
+    // Busy time from the owner's external calendars that touches the buffered slot
+    const externalBusy = await new ExternalCalendarService(db).getBusyIntervals(
+      data.businessId,
+      new Date(slotStart.getTime() - bufferBefore * 60 * 1000),
+      new Date(slotEnd.getTime() + bufferAfter * 60 * 1000)
+    );
+
     // CRITICAL: Validate against off-time intervals (breaks, closed days, holidays)
     // This ensures customers cannot bypass UI validation and book during unavailable times
     const validation = validateBookingTime({
       config,
       slotStart,
       slotEnd,
-      bufferBefore: service.buffer_before_minutes || 0,
-      bufferAfter: service.buffer_after_minutes || 0,
+      bufferBefore,
+      bufferAfter,
+      externalBusy,
       skipAdvanceLimitCheck: false, // Enforce advance booking limits for customers
     });
 
@@ -165,17 +170,54 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const manager = new ReservationManager(db);
+    // No-show policy, when the customer is already known (checked again at commit)
+    const noShow = await evaluateNoShowPolicy(db, {
+      config,
+      businessId: data.businessId,
+      customerId: data.customerId,
+      guestEmail: data.guestEmail,
+      guestPhone: data.guestPhone,
+    });
+
+    if (!noShow.allowed) {
+      return NextResponse.json(
+        { success: false, error: noShow.error, code: noShow.code, params: noShow.params },
+        { status: 403 }
+      );
+    }
+
+    // Per-staff booking: resolve which staff members may take this reservation
+    const staffCandidates = await new StaffManager(db).resolveStaffCandidates(
+      config,
+      data.businessId,
+      service.id,
+      slotStart,
+      slotEnd,
+      data.staffId
+    );
 
-    const reservation = await manager.createReservation({
+    if (!staffCandidates.success) {
+      return NextResponse.json(
+        { success: false, error: staffCandidates.error, code: staffCandidates.code },
+        { status: 400 }
+      );
+    }
+
+    const manager = new ReservationManager(db);
+    const reservationParams = {
       businessId: data.businessId,
       serviceId: service.id,  // Use resolved UUID
       slotStart,
       slotEnd,
       idempotencyKey: data.idempotencyKey,
       ttlMinutes: data.ttlMinutes,
-      maxSimultaneousBookings // Pass YAML config capacity
-    });
+      maxSimultaneousBookings, // Pass YAML config capacity
+      capacityPools: await resolveCapacityPools(db, config, data.businessId, serviceConfig.id),
+      resources: getServiceResources(config, serviceConfig.id),
+    };
+
+    // Tries each candidate in order ('any' falls through to the next free person)
+    const reservation = await manager.createStaffReservation(reservationParams, staffCandidates.staffIds);
 
     return NextResponse.json(
       {
@@ -187,8 +229,12 @@ export async function POST(request: NextRequest) {
           id: reservation.id,
           expiresAt: reservation.expires_at,
           slotStart: reservation.slot_start,
-          slotEnd: reservation.slot_end
-        }
+          slotEnd: reservation.slot_end,
+          staffId: reservation.staff_id || null,
+          resourceIds: reservation.resource_ids ?? []
+        },
+        // Deposit to pay via /api/booking/deposit before commit (null if none is due)
+        deposit: getServiceDeposit(config, serviceConfig.id) ?? noShow.deposit ?? null
       },
       {
         headers: {
@@ -1,16 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
 import { loadConfigBySubdomain } from '@/lib/config/config-loader';
 import { generateTimeSlots } from '@/lib/booking/slot-generator';
+import { getCapacityPoolUsage, resolveCapacityPools } from '@/lib/booking/capacity-pools';
+import { getResourceBookings, getServiceResources } from '@/lib/booking/resources';
 import { getDbClient } from '@/db/client';
 import { parseInTimezone, getEndOfDay } from '@/lib/utils/timezone';
-
-const querySchema = z.object({
-  subdomain: z.string().min(1, 'Subdomain is required'),
-  serviceId: z.string().min(1, 'Service ID is required'),
-  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format'),
-  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format').optional(),
-});
+import { StaffManager } from '@/lib/staff/staff-manager';
+import { slotsQuerySchema } from '@/lib/booking/schemas';
+import { ExternalCalendarService } from '@/lib/calendar';
 
 /**
  * GET /api/booking/slots
@@ -22,6 +19,15 @@ const querySchema = z.object({
  * - serviceId: Service ID
  * - startDate: Start date (YYYY-MM-DD)
  * - endDate: End date (YYYY-MM-DD) - optional, defaults to startDate + 7 days
+ * - staffId: Only return availability for this staff member - optional
+ *
+ * When features.enableMultipleStaff is on and the service has active staff
+ * assigned, availability is computed per staff member and each slot lists the
+ * staff who are free (staffIds). The response then includes the bookable staff.
+ *
+ * When slotRecommendations is enabled, available slots carry a packing score
+ * and the day's best are marked recommended. With hideGapSlots on, slots that
+ * would leave an unbookable hole (createsGap) are left out.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -31,10 +37,11 @@ export async function GET(request: NextRequest) {
       serviceId: searchParams.get('serviceId'),
       startDate: searchParams.get('startDate'),
       endDate: searchParams.get('endDate'),
+      staffId: searchParams.get('staffId') || undefined,
     };
 
     // Validate query params
-    const validation = querySchema.safeParse(rawParams);
+    const validation = slotsQuerySchema.safeParse(rawParams);
     if (!validation.success) {
       return NextResponse.json(
         {
@@ -46,7 +53,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const { subdomain, serviceId, startDate, endDate: rawEndDate } = validation.data;
+    const { subdomain, serviceId, startDate, endDate: rawEndDate, staffId } = validation.data;
 
     // Load tenant config
     const configResult = await loadConfigBySubdomain(subdomain);
@@ -125,9 +132,38 @@ export async function GET(request: NextRequest) {
 
     const businessId = businessResult[0].id;
 
+    // Per-staff calendars (only when the tenant has enabled multiple staff)
+    let staff: Awaited<ReturnType<StaffManager['getBookableStaff']>> | undefined;
+    if (config.features.enableMultipleStaff) {
+      // Staff assignments reference the database service, keyed by the YAML id
+      const [serviceRecord] = await db`
+        SELECT id FROM services
+        WHERE business_id = ${businessId}
+          AND external_id = ${service.id}
+          AND deleted_at IS NULL
+        LIMIT 1
+      `;
+      if (serviceRecord) {
+        const bookableStaff = await new StaffManager(db).getBookableStaff(businessId, serviceRecord.id);
+        if (bookableStaff.length > 0) {
+          staff = bookableStaff;
+        }
+      }
+    }
+
+    if (staffId && !staff?.some(member => member.id === staffId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Staff member not found for this service',
+        },
+        { status: 404 }
+      );
+    }
+
     // Get existing appointments in date range
     const appointments = await db`
-      SELECT slot_start, slot_end
+      SELECT slot_start, slot_end, occupied_start, occupied_end, staff_id
       FROM appointments
       WHERE business_id = ${businessId}
         AND slot_start >= ${start.toISOString()}
@@ -139,7 +175,7 @@ export async function GET(request: NextRequest) {
     // Get active reservations (not expired)
     const now = new Date();
     const reservations = await db`
-      SELECT slot_start, slot_end, expires_at
+      SELECT slot_start, slot_end, occupied_start, occupied_end, expires_at, staff_id
       FROM reservations
       WHERE business_id = ${businessId}
         AND slot_start >= ${start.toISOString()}
@@ -147,8 +183,30 @@ export async function GET(request: NextRequest) {
         AND expires_at > ${now.toISOString()}
     `;
 
+    // Busy time imported from the owner's external calendars
+    const externalBusy = await new ExternalCalendarService(db).getBusyIntervals(businessId, start, end);
+
+    // Bookings of every service sharing a capacity pool with this one
+    const capacityPools = await getCapacityPoolUsage(
+      db,
+      businessId,
+      await resolveCapacityPools(db, config, businessId, service.id),
+      start,
+      end
+    );
+
+    // Bookings holding the rooms and equipment this service requires
+    const resourceBookings = await getResourceBookings(
+      db,
+      businessId,
+      getServiceResources(config, service.id),
+      start,
+      end
+    );
+
     // Generate time slots
-    const slots = generateTimeSlots({
+    const recommendations = config.slotRecommendations;
+    const generatedSlots = generateTimeSlots({
       config,
       service,
       startDate: start,
@@ -156,14 +214,30 @@ export async function GET(request: NextRequest) {
       existingAppointments: appointments.map(a => ({
         slot_start: a.slot_start,
         slot_end: a.slot_end,
+        occupied_start: a.occupied_start,
+        occupied_end: a.occupied_end,
+        staff_id: a.staff_id,
       })),
       existingReservations: reservations.map(r => ({
         slot_start: r.slot_start,
         slot_end: r.slot_end,
+        occupied_start: r.occupied_start,
+        occupied_end: r.occupied_end,
         expires_at: r.expires_at,
+        staff_id: r.staff_id,
       })),
+      staff,
+      staffId,
+      externalBusy,
+      capacityPools,
+      resourceBookings,
+      rank: recommendations.enabled,
     });
 
+    const slots = recommendations.enabled && recommendations.hideGapSlots
+      ? generatedSlots.filter(slot => !slot.createsGap)
+      : generatedSlots;
+
     return NextResponse.json({
       success: true,
       slots,
@@ -173,6 +247,7 @@ export async function GET(request: NextRequest) {
         duration: service.duration,
         price: service.price,
       },
+      staff: staff?.map(member => ({ id: member.id, name: member.name })),
       dateRange: {
         start: start.toISOString(),
         end: end.toISOString(),
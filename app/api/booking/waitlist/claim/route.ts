@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getDbClient } from '@/db/client';
+import { WaitlistManager, commitBooking } from '@/lib/booking';
+import { commitFieldsSchema } from '@/lib/booking/schemas';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { OwnerNotificationService } from '@/lib/notifications/owner-notification-service';
+import { CustomerNotificationService } from '@/lib/email/customer-notification-service';
+
+// Custom field answers and notes are asked for on the claim page, as on the booking page
+const claimSchema = commitFieldsSchema
+  .pick({ customFields: true, notes: true })
+  .extend({ token: z.string().min(1) });
+
+/**
+ * GET /api/booking/waitlist/claim?token=...
+ * Preview a waitlist offer (business, service, held slot and hold expiry)
+ * along with the tenant's custom booking form fields
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+
+  if (!token) {
+    return NextResponse.json({ success: false, error: 'Missing offer token' }, { status: 400 });
+  }
+
+  try {
+    const offer = await new WaitlistManager(getDbClient()).findOffer(token);
+
+    if (!offer) {
+      return NextResponse.json(
+        { success: false, error: 'This offer is no longer available' },
+        { status: 404 }
+      );
+    }
+
+    const configResult = await loadConfigByBusinessId(offer.business_id);
+
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to load business configuration' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      customFields: configResult.config.bookingRequirements.customFields,
+      offer: {
+        businessName: offer.business_name,
+        subdomain: offer.business_subdomain,
+        timezone: offer.business_timezone,
+        serviceName: offer.service_name,
+        name: offer.name,
+        slotStart: offer.offer_slot_start,
+        slotEnd: offer.offer_slot_end,
+        expiresAt: offer.offer_expires_at,
+      },
+    });
+  } catch (error) {
+    console.error('Waitlist offer preview error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load offer' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/booking/waitlist/claim
+ * Book the held slot using the contact details from the waitlist entry
+ * Goes through the same checks as /api/booking/commit (custom fields, booking
+ * limits, no-show policy and deposits). A required deposit is paid through
+ * /api/booking/deposit with the offer token, whose payment page sends the
+ * customer back to the claim page to claim again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { token, customFields, notes } = claimSchema.parse(await request.json());
+
+    const db = getDbClient();
+    const waitlistManager = new WaitlistManager(db);
+    const offer = await waitlistManager.findOffer(token);
+
+    if (!offer || !offer.reservation_id || !offer.offer_slot_start || !offer.offer_slot_end) {
+      return NextResponse.json(
+        { success: false, error: 'This offer is no longer available' },
+        { status: 410 }
+      );
+    }
+
+    // Registered customers keep the booking on their account, guests get a cancellation link
+    const result = await commitBooking(db, {
+      reservationId: offer.reservation_id,
+      customerId: offer.customer_id || undefined,
+      guestEmail: offer.customer_id ? undefined : offer.email,
+      guestPhone: offer.customer_id ? undefined : offer.phone || undefined,
+      guestName: offer.customer_id ? undefined : offer.name,
+      customFields,
+      notes,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.code, params: result.params, fieldId: result.fieldId },
+        { status: result.status }
+      );
+    }
+
+    const { appointment } = result;
+
+    await waitlistManager.markBooked(offer.id, appointment.id);
+
+    // Send owner notification (non-blocking)
+    try {
+      await new OwnerNotificationService(db).notifyOwnerOfNewBooking(
+        appointment.business_id,
+        appointment.id,
+        appointment.booking_id,
+        offer.name,
+        offer.service_name,
+        new Date(offer.offer_slot_start).toISOString()
+      );
+    } catch (notificationError) {
+      console.error('Failed to send owner notification:', notificationError);
+    }
+
+    try {
+      await new CustomerNotificationService(db).sendBookingConfirmation({
+        id: appointment.id,
+        businessId: appointment.business_id,
+        serviceId: appointment.service_id,
+        customerId: offer.customer_id || undefined,
+        guestEmail: offer.customer_id ? undefined : offer.email,
+        guestPhone: offer.customer_id ? undefined : offer.phone || undefined,
+        guestName: offer.customer_id ? undefined : offer.name,
+        slotStart: new Date(offer.offer_slot_start),
+        slotEnd: new Date(offer.offer_slot_end),
+        status: appointment.status,
+        bookingId: appointment.booking_id,
+        cancellationToken: appointment.cancellation_token || undefined,
+      });
+    } catch (error) {
+      console.error('❌ Failed to send booking confirmation email:', error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      appointment: {
+        id: appointment.id,
+        bookingId: appointment.booking_id,
+        slotStart: appointment.slot_start,
+        slotEnd: appointment.slot_end,
+        status: appointment.status,
+        cancellationToken: appointment.cancellation_token,
+      },
+    });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    // The hold expired (or was claimed) between the lookup and the commit
+    if (error instanceof Error && error.message.includes('Reservation')) {
+      return NextResponse.json(
+        { success: false, error: 'This offer is no longer available' },
+        { status: 410 }
+      );
+    }
+
+    console.error('Waitlist claim error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to confirm booking' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getDbClient } from '@/db/client';
+import { WaitlistManager } from '@/lib/booking';
+import { loadConfigBySubdomain } from '@/lib/config/config-loader';
+import { checkRateLimit, getClientIdentifier } from '@/lib/middleware/rate-limiter';
+import { parseInTimezone, getEndOfDay } from '@/lib/utils/timezone';
+
+const joinSchema = z.object({
+  subdomain: z.string().min(1),
+  serviceId: z.string().min(1),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format').optional(),
+  staffId: z.string().uuid().optional(),
+  name: z.string().min(1).max(120),
+  email: z.string().email(),
+  phone: z.string().optional(),
+});
+
+/**
+ * POST /api/booking/waitlist
+ *
+ * Join the waitlist for a fully booked service (features.enableWaitlist).
+ *
+ * Body:
+ * - subdomain: Business subdomain
+ * - serviceId: Service ID (as in the YAML config)
+ * - startDate / endDate: Days the customer can come (YYYY-MM-DD, endDate defaults to startDate)
+ * - staffId: Only accept slots with this staff member - optional
+ * - name, email, phone: Contact details for the offer
+ *
+ * When a booking in the window is canceled, the first person in line gets the
+ * slot held for them and an email with a link to claim it.
+ */
+export async function POST(request: NextRequest) {
+  // Rate limiting: 5 waitlist joins per 5 minutes per IP
+  const clientId = getClientIdentifier(request);
+  const rateLimit = checkRateLimit(clientId, {
+    maxRequests: 5,
+    windowMs: 5 * 60 * 1000,
+  });
+
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      { success: false, error: 'Too many requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  try {
+    const data = joinSchema.parse(await request.json());
+
+    const configResult = await loadConfigBySubdomain(data.subdomain);
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json(
+        { success: false, error: configResult.error || 'Configuration not found' },
+        { status: 404 }
+      );
+    }
+
+    const config = configResult.config;
+
+    if (!config.features.enableWaitlist) {
+      return NextResponse.json(
+        { success: false, error: 'This business does not offer a waitlist' },
+        { status: 403 }
+      );
+    }
+
+    const timezone = config.business.timezone;
+    const rangeStart = parseInTimezone(data.startDate, timezone);
+    const rangeEnd = getEndOfDay(parseInTimezone(data.endDate || data.startDate, timezone), timezone);
+
+    if (rangeEnd <= rangeStart) {
+      return NextResponse.json(
+        { success: false, error: 'End date must not be before start date' },
+        { status: 400 }
+      );
+    }
+
+    if (rangeEnd.getTime() <= Date.now()) {
+      return NextResponse.json(
+        { success: false, error: 'Waitlist dates must be in the future' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDbClient();
+
+    const [service] = await db`
+      SELECT s.id, s.business_id
+      FROM services s
+      JOIN businesses b ON b.id = s.business_id
+      WHERE b.subdomain = ${data.subdomain}
+        AND b.deleted_at IS NULL
+        AND b.status = 'active'
+        AND s.external_id = ${data.serviceId}
+        AND s.deleted_at IS NULL
+      LIMIT 1
+    `;
+
+    if (!service) {
+      return NextResponse.json(
+        { success: false, error: 'Service not found' },
+        { status: 404 }
+      );
+    }
+
+    if (data.staffId) {
+      const [staff] = await db`
+        SELECT sm.id
+        FROM staff_members sm
+        JOIN staff_services ss ON ss.staff_id = sm.id
+        WHERE sm.id = ${data.staffId}
+          AND sm.business_id = ${service.business_id}
+          AND ss.service_id = ${service.id}
+          AND sm.status = 'active'
+          AND sm.deleted_at IS NULL
+      `;
+
+      if (!staff) {
+        return NextResponse.json(
+          { success: false, error: 'Staff member not found for this service' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const entry = await new WaitlistManager(db).joinWaitlist({
+      businessId: service.business_id,
+      serviceId: service.id,
+      staffId: data.staffId,
+      email: data.email,
+      name: data.name,
+      phone: data.phone,
+      rangeStart,
+      rangeEnd,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        entry: {
+          id: entry.id,
+          status: entry.status,
+          rangeStart: entry.range_start,
+          rangeEnd: entry.range_end,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Join waitlist error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to join waitlist' },
+      { status: 500 }
+    );
+  }
+}
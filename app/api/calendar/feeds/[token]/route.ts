@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { CalendarFeedService } from '@/lib/calendar';
+
+/**
+ * GET /api/calendar/feeds/[token].ics
+ *
+ * iCalendar subscription feed. Public: the token in the URL is the credential,
+ * since calendar apps poll without authentication.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  try {
+    const ics = await new CalendarFeedService(getDbClient()).renderFeed(token.replace(/\.ics$/, ''));
+
+    if (!ics) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    return new NextResponse(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="appointments.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { WebhookDispatcher } from '@/lib/webhooks';
+
+const sql = getDbClient();
+
+/**
+ * Cron job to deliver queued webhooks
+ * Should be called every minute via Vercel Cron or similar
+ *
+ * Sends new webhook events and retries failed deliveries once their backoff
+ * has passed (see WebhookDispatcher). The interval bounds how long a booking
+ * change takes to reach the owner's endpoints.
+ *
+ * Authentication: Requires CRON_SECRET environment variable to match
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Cron] CRON_SECRET not configured');
+    return NextResponse.json(
+      { error: 'Cron job not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.error('[Cron] Unauthorized webhook delivery attempt');
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const result = await new WebhookDispatcher(sql).processBatch();
+
+    const duration = Date.now() - startTime;
+
+    console.log(
+      `[Cron] Processed ${result.claimed} webhook deliveries in ${duration}ms: ` +
+      `${result.sent} sent, ${result.retrying} retrying, ${result.failed} failed, ${result.deadLettered} dead-lettered`
+    );
+
+    await sql`
+      INSERT INTO system_metrics (metric_name, metric_value, recorded_at)
+      VALUES
+        ('webhooks_sent', ${result.sent}, NOW()),
+        ('webhooks_retrying', ${result.retrying}, NOW()),
+        ('webhooks_dead_lettered', ${result.deadLettered}, NOW()),
+        ('webhook_delivery_duration_ms', ${duration}, NOW())
+      ON CONFLICT (metric_name, recorded_at) DO NOTHING
+    `;
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      durationMs: duration,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('[Cron] Webhook delivery failed:', error);
+
+    // Log failure metric
+    try {
+      await sql`
+        INSERT INTO system_metrics (metric_name, metric_value, recorded_at)
+        VALUES ('webhook_delivery_failure', 1, NOW())
+      `;
+    } catch (metricError) {
+      console.error('[Cron] Failed to log webhook delivery failure metric:', metricError);
+    }
+
+    return NextResponse.json(
+      { error: 'Webhook delivery failed', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { NotificationWorker } from '@/lib/notifications/notification-worker';
+
+const sql = getDbClient();
+
+/**
+ * Cron job to deliver queued notifications
+ * Should be called every 5 minutes via Vercel Cron or similar
+ *
+ * Sends pending notifications and retries failed ones once their backoff has
+ * passed (see NotificationWorker). The interval bounds how soon a failed
+ * email or SMS is first retried.
+ *
+ * Authentication: Requires CRON_SECRET environment variable to match
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Cron] CRON_SECRET not configured');
+    return NextResponse.json(
+      { error: 'Cron job not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.error('[Cron] Unauthorized notification processing attempt');
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const result = await new NotificationWorker(sql).processBatch();
+
+    const duration = Date.now() - startTime;
+
+    console.log(
+      `[Cron] Processed ${result.claimed} notifications in ${duration}ms: ` +
+      `${result.sent} sent, ${result.retrying} retrying, ${result.failed} failed, ${result.deadLettered} dead-lettered`
+    );
+
+    await sql`
+      INSERT INTO system_metrics (metric_name, metric_value, recorded_at)
+      VALUES
+        ('notifications_sent', ${result.sent}, NOW()),
+        ('notifications_retrying', ${result.retrying}, NOW()),
+        ('notifications_dead_lettered', ${result.deadLettered}, NOW()),
+        ('notification_processing_duration_ms', ${duration}, NOW())
+      ON CONFLICT (metric_name, recorded_at) DO NOTHING
+    `;
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      durationMs: duration,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('[Cron] Notification processing failed:', error);
+
+    // Log failure metric
+    try {
+      await sql`
+        INSERT INTO system_metrics (metric_name, metric_value, recorded_at)
+        VALUES ('notification_processing_failure', 1, NOW())
+      `;
+    } catch (metricError) {
+      console.error('[Cron] Failed to log notification processing failure metric:', metricError);
+    }
+
+    return NextResponse.json(
+      { error: 'Notification processing failed', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { SmsService } from '@/lib/sms';
+
+const sql = getDbClient();
+
+/**
+ * Cron job to reset monthly SMS quotas
+ * Should be called daily via Vercel Cron or similar
+ *
+ * Businesses whose sms_reset_date has passed start a new month with
+ * sms_used_this_month back at 0.
+ *
+ * Authentication: Requires CRON_SECRET environment variable to match
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Cron] CRON_SECRET not configured');
+    return NextResponse.json(
+      { error: 'Cron job not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.error('[Cron] Unauthorized SMS quota reset attempt');
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const resetCount = await new SmsService(sql, null).resetMonthlyQuotas();
+
+    const duration = Date.now() - startTime;
+
+    console.log(`[Cron] Reset SMS quota for ${resetCount} businesses in ${duration}ms`);
+
+    await sql`
+      INSERT INTO system_metrics (metric_name, metric_value, recorded_at)
+      VALUES
+        ('sms_quota_resets', ${resetCount}, NOW()),
+        ('sms_quota_reset_duration_ms', ${duration}, NOW())
+      ON CONFLICT (metric_name, recorded_at) DO NOTHING
+    `;
+
+    return NextResponse.json({
+      success: true,
+      resetCount,
+      durationMs: duration,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('[Cron] SMS quota reset failed:', error);
+
+    // Log failure metric
+    try {
+      await sql`
+        INSERT INTO system_metrics (metric_name, metric_value, recorded_at)
+        VALUES ('sms_quota_reset_failure', 1, NOW())
+      `;
+    } catch (metricError) {
+      console.error('[Cron] Failed to log SMS quota reset failure metric:', metricError);
+    }
+
+    return NextResponse.json(
+      { error: 'SMS quota reset failed', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
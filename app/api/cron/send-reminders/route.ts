@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { ReminderDispatcher } from '@/lib/notifications/reminder-dispatcher';
+
+const sql = getDbClient();
+
+/**
+ * Cron job to send appointment reminders (email and SMS)
+ * Should be called hourly via Vercel Cron or similar
+ *
+ * Each tenant's notifications.reminderHoursBefore decides when an appointment
+ * becomes due; reminders are sent at most once per appointment.
+ *
+ * Authentication: Requires CRON_SECRET environment variable to match
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Cron] CRON_SECRET not configured');
+    return NextResponse.json(
+      { error: 'Cron job not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.error('[Cron] Unauthorized reminder dispatch attempt');
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const dispatcher = new ReminderDispatcher(sql);
+    const result = await dispatcher.dispatchDueReminders();
+
+    const duration = Date.now() - startTime;
+
+    console.log(
+      `[Cron] Reminder dispatch: ${result.sent} sent, ${result.skipped} skipped, ${result.failed} failed (${result.scanned} scanned) in ${duration}ms`
+    );
+
+    // Update reminder metrics in database
+    await sql`
+      INSERT INTO system_metrics (metric_name, metric_value, recorded_at)
+      VALUES
+        ('reminder_dispatch_sent', ${result.sent}, NOW()),
+        ('reminder_dispatch_failed', ${result.failed}, NOW()),
+        ('reminder_dispatch_duration_ms', ${duration}, NOW())
+      ON CONFLICT (metric_name, recorded_at) DO NOTHING
+    `;
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      durationMs: duration,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('[Cron] Reminder dispatch failed:', error);
+
+    // Log failure metric
+    try {
+      await sql`
+        INSERT INTO system_metrics (metric_name, metric_value, recorded_at)
+        VALUES ('reminder_dispatch_failure', 1, NOW())
+      `;
+    } catch (metricError) {
+      console.error('[Cron] Failed to log reminder dispatch failure metric:', metricError);
+    }
+
+    return NextResponse.json(
+      { error: 'Reminder dispatch failed', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
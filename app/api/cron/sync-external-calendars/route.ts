@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { ExternalCalendarService } from '@/lib/calendar';
+
+const sql = getDbClient();
+
+// Each sync is an outbound fetch, so keep a run well inside the function timeout
+const BATCH_SIZE = 20;
+
+/**
+ * Cron job to refresh external calendar busy time
+ * Should be called every 15 minutes via Vercel Cron or similar
+ *
+ * Re-fetches URL calendars last synced more than 30 minutes ago, oldest
+ * first. Uploaded calendars are only refreshed when the owner re-uploads.
+ *
+ * Authentication: Requires CRON_SECRET environment variable to match
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Cron] CRON_SECRET not configured');
+    return NextResponse.json(
+      { error: 'Cron job not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.error('[Cron] Unauthorized external calendar sync attempt');
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const { synced, failed } = await new ExternalCalendarService(sql).syncDueCalendars(BATCH_SIZE);
+
+    const duration = Date.now() - startTime;
+
+    console.log(`[Cron] Synced ${synced} external calendars (${failed} failed) in ${duration}ms`);
+
+    await sql`
+      INSERT INTO system_metrics (metric_name, metric_value, recorded_at)
+      VALUES
+        ('external_calendars_synced', ${synced}, NOW()),
+        ('external_calendars_sync_failed', ${failed}, NOW()),
+        ('external_calendar_sync_duration_ms', ${duration}, NOW())
+      ON CONFLICT (metric_name, recorded_at) DO NOTHING
+    `;
+
+    return NextResponse.json({
+      success: true,
+      synced,
+      failed,
+      durationMs: duration,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('[Cron] External calendar sync failed:', error);
+
+    // Log failure metric
+    try {
+      await sql`
+        INSERT INTO system_metrics (metric_name, metric_value, recorded_at)
+        VALUES ('external_calendar_sync_failure', 1, NOW())
+      `;
+    } catch (metricError) {
+      console.error('[Cron] Failed to log external calendar sync failure metric:', metricError);
+    }
+
+    return NextResponse.json(
+      { error: 'External calendar sync failed', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { WaitlistManager } from '@/lib/booking';
+
+const sql = getDbClient();
+
+/**
+ * Cron job to expire unclaimed waitlist offers
+ * Should be called every 10 minutes via Vercel Cron or similar
+ *
+ * Each expired offer's slot is offered to the next person in line, so this
+ * interval bounds how long a freed slot can sit idle after a hold runs out.
+ *
+ * Authentication: Requires CRON_SECRET environment variable to match
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Cron] CRON_SECRET not configured');
+    return NextResponse.json(
+      { error: 'Cron job not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.error('[Cron] Unauthorized waitlist offer expiry attempt');
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const waitlistManager = new WaitlistManager(sql);
+    const expiredCount = await waitlistManager.expireOffers();
+
+    const duration = Date.now() - startTime;
+
+    console.log(`[Cron] Expired ${expiredCount} waitlist offers in ${duration}ms`);
+
+    // Update waitlist metrics in database
+    await sql`
+      INSERT INTO system_metrics (metric_name, metric_value, recorded_at)
+      VALUES
+        ('waitlist_offers_expired', ${expiredCount}, NOW()),
+        ('waitlist_expiry_duration_ms', ${duration}, NOW())
+      ON CONFLICT (metric_name, recorded_at) DO NOTHING
+    `;
+
+    return NextResponse.json({
+      success: true,
+      expiredCount,
+      durationMs: duration,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('[Cron] Waitlist offer expiry failed:', error);
+
+    // Log failure metric
+    try {
+      await sql`
+        INSERT INTO system_metrics (metric_name, metric_value, recorded_at)
+        VALUES ('waitlist_expiry_failure', 1, NOW())
+      `;
+    } catch (metricError) {
+      console.error('[Cron] Failed to log waitlist expiry failure metric:', metricError);
+    }
+
+    return NextResponse.json(
+      { error: 'Waitlist offer expiry failed', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
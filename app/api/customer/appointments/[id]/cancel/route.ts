@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { neon } from '@neondatabase/serverless';
 import { verifyAccessToken } from '@/lib/auth/tokens';
-import { getDbClient } from '@/db/client';
+import { getDbClient, withTransaction } from '@/db/client';
 import { OwnerNotificationService } from '@/lib/notifications/owner-notification-service';
 import { NotificationService } from '@/lib/notifications/notification-service';
 import { CustomerNotificationService } from '@/lib/email/customer-notification-service';
+import { BookingGroupManager, WaitlistManager, evaluateCancellation } from '@/lib/booking';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { DepositManager } from '@/lib/payments';
+import { WebhookService } from '@/lib/webhooks';
 import { v4 as uuidv4 } from 'uuid';
 
 const sql = neon(process.env.DATABASE_URL!);
@@ -59,10 +63,14 @@ export async function POST(
         a.id,
         a.customer_id,
         a.business_id,
+        a.service_id,
+        a.staff_id,
         a.status,
         a.slot_start,
         a.slot_end,
         a.booking_id,
+        a.policy_override,
+        a.group_id,
         u.name as customer_name,
         u.email as customer_email,
         u.phone as customer_phone
@@ -95,38 +103,105 @@ export async function POST(
       );
     }
 
-    // TODO: Check cancellation policy deadline here
-    // For now, allow all cancellations
+    const configResult = await loadConfigByBusinessId(appointment.business_id);
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json(
+        { error: 'Business configuration not found' },
+        { status: 404 }
+      );
+    }
 
-    // Update appointment status
-    await sql`
-      UPDATE appointments
-      SET
-        status = 'canceled',
-        updated_at = NOW()
-      WHERE id = ${appointmentId}
-    `;
+    // Every service of a multi-service booking is canceled together; the policy applies to the visit's start
+    const legs = appointment.group_id
+      ? (await new BookingGroupManager(getDbClient()).listLegs(appointment.group_id)).filter(leg => leg.status === 'confirmed')
+      : [appointment];
+    const first = legs[0];
+    const last = legs[legs.length - 1];
 
-    // Create audit log entry
-    await sql`
-      INSERT INTO audit_logs (
-        id,
-        appointment_id,
-        actor_id,
-        action,
-        old_state,
-        new_state,
-        timestamp
-      ) VALUES (
-        ${uuidv4()},
-        ${appointmentId},
-        ${customerId},
-        'canceled',
-        ${JSON.stringify({ status: 'confirmed', customer_id: customerId })},
-        ${JSON.stringify({ status: 'canceled', canceled_by: 'customer', customer_id: customerId })},
-        NOW()
-      )
-    `;
+    const policy = evaluateCancellation(configResult.config, first.slot_start!, appointment.policy_override);
+    if (!policy.allowed) {
+      return NextResponse.json(
+        { error: policy.error, code: policy.code, params: policy.params },
+        { status: 403 }
+      );
+    }
+
+    // Cancel the legs together; one canceled meanwhile (by the owner, another tab) is left alone
+    const canceledLegs = await withTransaction(async (txDb) => {
+      const canceled: Array<(typeof legs)[number]> = [];
+
+      for (const leg of legs) {
+        // Update appointment status
+        const updated = await txDb`
+          UPDATE appointments
+          SET
+            status = 'canceled',
+            updated_at = NOW()
+          WHERE id = ${leg.id}
+            AND status = 'confirmed'
+            AND deleted_at IS NULL
+          RETURNING id
+        `;
+
+        if (updated.length === 0) continue;
+
+        // Create audit log entry
+        await txDb`
+          INSERT INTO audit_logs (
+            id,
+            appointment_id,
+            actor_id,
+            action,
+            old_state,
+            new_state,
+            timestamp
+          ) VALUES (
+            ${uuidv4()},
+            ${leg.id},
+            ${customerId},
+            'canceled',
+            ${JSON.stringify({ status: 'confirmed', customer_id: customerId })},
+            ${JSON.stringify({ status: 'canceled', canceled_by: 'customer', customer_id: customerId })},
+            NOW()
+          )
+        `;
+
+        canceled.push(leg);
+      }
+
+      return canceled;
+    });
+
+    if (canceledLegs.length === 0) {
+      return NextResponse.json(
+        { error: 'Appointment is no longer available for cancellation. It may have been canceled or modified.' },
+        { status: 409 }
+      );
+    }
+
+    for (const leg of canceledLegs) {
+      // Refund the deposit per the cancellation policy (no-op if none was paid)
+      try {
+        await new DepositManager(getDbClient()).refundForCancellation(leg.id, 'customer');
+      } catch (refundError) {
+        console.error('Failed to refund deposit for canceled appointment:', refundError);
+      }
+
+      // Offer the freed slot to the waitlist (no-op unless the tenant enabled it)
+      try {
+        await new WaitlistManager(getDbClient()).offerFreedSlot({
+          businessId: appointment.business_id,
+          serviceId: leg.service_id,
+          staffId: leg.staff_id,
+          slotStart: new Date(leg.slot_start!),
+          slotEnd: new Date(leg.slot_end!),
+        });
+      } catch (waitlistError) {
+        console.error('Failed to offer canceled slot to waitlist:', waitlistError);
+      }
+
+      await new WebhookService(getDbClient()).emitAppointmentEvent('booking_canceled', leg.id);
+    }
 
     // Send notification to business owner
     try {
@@ -134,10 +209,10 @@ export async function POST(
       const ownerNotificationService = new OwnerNotificationService(db);
       await ownerNotificationService.notifyOwnerOfCancellation(
         appointment.business_id,
-        appointmentId,
-        appointment.booking_id,
+        first.id,
+        first.booking_id,
         appointment.customer_name,
-        appointment.slot_start
+        first.slot_start
       );
     } catch (error) {
       console.error('Failed to send owner notification:', error);
@@ -148,14 +223,14 @@ export async function POST(
     const customerNotificationService = new CustomerNotificationService(getDbClient());
     if (appointment.customer_email) {
       customerNotificationService.sendCancellationConfirmation({
-        id: appointmentId,
+        id: first.id,
         businessId: appointment.business_id,
         serviceId: '', // Not needed for cancellation email
         customerId: appointment.customer_id,
-        slotStart: new Date(appointment.slot_start),
-        slotEnd: new Date(appointment.slot_end),
+        slotStart: new Date(first.slot_start!),
+        slotEnd: new Date(last.slot_end!),
         status: 'canceled',
-        bookingId: appointment.booking_id,
+        bookingId: first.booking_id,
       }).then(() => {
         console.log('✅ Cancellation confirmation email sent successfully');
       }).catch((error) => {
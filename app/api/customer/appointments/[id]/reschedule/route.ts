@@ -3,15 +3,32 @@ import { neon } from '@neondatabase/serverless';
 import { verifyAccessToken } from '@/lib/auth/tokens';
 import { loadConfigBySubdomain } from '@/lib/config/config-loader';
 import { generateTimeSlots } from '@/lib/booking/slot-generator';
+import { getCapacityPoolUsage, resolveCapacityPools } from '@/lib/booking/capacity-pools';
+import { getResourceBookings, getServiceResources } from '@/lib/booking/resources';
 import { validateBookingTime, snapToGrain } from '@/lib/booking/validation';
+import { evaluateReschedule } from '@/lib/booking/policy';
+import { BookingGroupManager } from '@/lib/booking/booking-group-manager';
 import { getDbClient } from '@/db/client';
 import { OwnerNotificationService } from '@/lib/notifications/owner-notification-service';
 import { NotificationService } from '@/lib/notifications/notification-service';
 import { CustomerNotificationService } from '@/lib/email/customer-notification-service';
+import { WebhookService } from '@/lib/webhooks';
+import { ExternalCalendarService } from '@/lib/calendar';
 import { v4 as uuidv4 } from 'uuid';
 
 const sql = neon(process.env.DATABASE_URL!);
 
+interface RescheduledAppointment {
+  id: string;
+  business_id: string;
+  service_id: string;
+  booking_id: string;
+  customer_id: string;
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone?: string;
+}
+
 /**
  * POST /api/customer/appointments/[id]/reschedule
  *
@@ -109,6 +126,8 @@ export async function POST(
         a.updated_at,
         a.business_id,
         a.service_id,
+        a.policy_override,
+        a.group_id,
         b.subdomain,
         b.timezone as business_timezone,
         s.duration_minutes,
@@ -160,9 +179,9 @@ export async function POST(
       );
     }
 
-    // Validate service duration matches
+    // Validate service duration matches (a multi-service booking keeps its own layout, see below)
     const durationMinutes = Math.round((newEnd.getTime() - newStart.getTime()) / (1000 * 60));
-    if (durationMinutes !== appointment.duration_minutes) {
+    if (!appointment.group_id && durationMinutes !== appointment.duration_minutes) {
       return NextResponse.json(
         { error: `Duration mismatch. Expected ${appointment.duration_minutes} minutes, got ${durationMinutes} minutes` },
         { status: 400 }
@@ -180,6 +199,49 @@ export async function POST(
 
     const config = configResult.config;
 
+    // Every service of a multi-service booking moves together; the policy applies to the visit's start
+    const groupManager = new BookingGroupManager(getDbClient());
+    const legs = appointment.group_id
+      ? (await groupManager.listLegs(appointment.group_id)).filter(leg => leg.status === 'confirmed')
+      : [];
+
+    const policy = evaluateReschedule(config, legs[0]?.slot_start ?? appointment.slot_start, appointment.policy_override);
+    if (!policy.allowed) {
+      return NextResponse.json(
+        { error: policy.error, code: policy.code, params: policy.params },
+        { status: 403 }
+      );
+    }
+
+    if (appointment.group_id) {
+      const result = await groupManager.rescheduleGroup({
+        groupId: appointment.group_id,
+        newStart,
+        config,
+        actorId: customerId,
+      });
+
+      if (!result.updated) {
+        const blocked = result.legs.find(leg => !leg.available);
+
+        return NextResponse.json(
+          {
+            error: blocked?.error || 'Requested time slot is not available',
+            code: blocked?.code,
+            legs: result.legs,
+          },
+          { status: 400 }
+        );
+      }
+
+      // The visit is reported under its first service, which carries the booking ID
+      return finishReschedule(
+        { ...appointment, id: legs[0].id, booking_id: legs[0].booking_id } as RescheduledAppointment,
+        { slotStart: legs[0].slot_start!, slotEnd: legs[legs.length - 1].slot_end! },
+        { slotStart: newStart.toISOString(), slotEnd: result.legs[result.legs.length - 1].end.toISOString() }
+      );
+    }
+
     // Find the service in config
     let serviceConfig = null;
     for (const category of config.categories) {
@@ -202,12 +264,20 @@ export async function POST(
     const bufferBefore = appointment.buffer_before_minutes || 0;
     const bufferAfter = appointment.buffer_after_minutes || 0;
 
+    // Busy time from the owner's external calendars, for the day around the new slot
+    const externalBusy = await new ExternalCalendarService(sql).getBusyIntervals(
+      appointment.business_id,
+      new Date(newStart.getTime() - 24 * 60 * 60 * 1000),
+      new Date(newStart.getTime() + 24 * 60 * 60 * 1000)
+    );
+
     const validation = validateBookingTime({
       config,
       slotStart: newStart,
       slotEnd: newEnd,
       bufferBefore,
       bufferAfter,
+      externalBusy,
       skipAdvanceLimitCheck: false, // Customers must respect advance booking limits
       skipPastTimeCheck: false,
     });
@@ -225,7 +295,7 @@ export async function POST(
     // Check slot availability for the new time
     // We need to check if the new slot is available using the same logic as initial booking
     const existingAppointments = await sql`
-      SELECT slot_start, slot_end
+      SELECT slot_start, slot_end, occupied_start, occupied_end
       FROM appointments
       WHERE business_id = ${appointment.business_id}
         AND slot_start >= ${new Date(newStart.getTime() - 24 * 60 * 60 * 1000).toISOString()}
@@ -236,7 +306,7 @@ export async function POST(
     `;
 
     const activeReservations = await sql`
-      SELECT slot_start, slot_end, expires_at
+      SELECT slot_start, slot_end, occupied_start, occupied_end, expires_at
       FROM reservations
       WHERE business_id = ${appointment.business_id}
         AND slot_start >= ${new Date(newStart.getTime() - 24 * 60 * 60 * 1000).toISOString()}
@@ -244,6 +314,26 @@ export async function POST(
         AND expires_at > ${now.toISOString()}
     `;
 
+    // Bookings of every service sharing a capacity pool with this one
+    const capacityPools = await getCapacityPoolUsage(
+      sql,
+      appointment.business_id,
+      await resolveCapacityPools(sql, config, appointment.business_id, serviceConfig.id),
+      new Date(newStart.getTime() - 24 * 60 * 60 * 1000),
+      new Date(newStart.getTime() + 24 * 60 * 60 * 1000),
+      appointmentId
+    );
+
+    // Bookings holding the rooms and equipment this service requires
+    const resourceBookings = await getResourceBookings(
+      sql,
+      appointment.business_id,
+      getServiceResources(config, serviceConfig.id),
+      new Date(newStart.getTime() - 24 * 60 * 60 * 1000),
+      new Date(newStart.getTime() + 24 * 60 * 60 * 1000),
+      appointmentId
+    );
+
     // Generate slots for the target day to validate availability
     const slots = generateTimeSlots({
       config,
@@ -253,12 +343,19 @@ export async function POST(
       existingAppointments: existingAppointments.map(a => ({
         slot_start: a.slot_start,
         slot_end: a.slot_end,
+        occupied_start: a.occupied_start,
+        occupied_end: a.occupied_end,
       })),
       existingReservations: activeReservations.map(r => ({
         slot_start: r.slot_start,
         slot_end: r.slot_end,
+        occupied_start: r.occupied_start,
+        occupied_end: r.occupied_end,
         expires_at: r.expires_at,
       })),
+      externalBusy,
+      capacityPools,
+      resourceBookings,
     });
 
     // Find the requested slot
@@ -294,6 +391,8 @@ export async function POST(
       SET
         slot_start = ${newSlotStart},
         slot_end = ${newSlotEnd},
+        -- Resources free at the new time (kept as they are for services without any)
+        resource_ids = COALESCE(${requestedSlot.resourceIds ?? null}::text[], resource_ids),
         updated_at = NOW()
       WHERE id = ${appointmentId}
         AND status = 'confirmed'
@@ -339,77 +438,99 @@ export async function POST(
       )
     `;
 
-    // Send notification to business owner
-    try {
-      const db = getDbClient();
-      const ownerNotificationService = new OwnerNotificationService(db);
-      await ownerNotificationService.notifyOwnerOfReschedule(
-        appointment.business_id,
-        appointmentId,
-        appointment.booking_id,
-        appointment.customer_name,
-        appointment.slot_start,
-        newSlotStart
-      );
-    } catch (error) {
-      console.error('Failed to send owner notification:', error);
-      // Don't fail the request if notification fails
-    }
+    await new WebhookService(getDbClient()).emitAppointmentEvent('booking_rescheduled', appointmentId, {
+      slotStart: appointment.slot_start,
+      slotEnd: appointment.slot_end,
+    });
 
-    // Queue in-app notification (for notification_logs table - step 7t)
-    try {
-      const db = getDbClient();
-      const notificationService = new NotificationService(db);
-      if (appointment.customer_email) {
-        await notificationService.queueRescheduleNotification(
-          appointmentId,
-          appointment.customer_email,
-          appointment.customer_phone
-        );
-      }
-    } catch (error) {
-      console.error('Failed to queue in-app notification:', error);
-      // Don't fail the request if notification queueing fails
-    }
+    return finishReschedule(
+      appointment as RescheduledAppointment,
+      { slotStart: appointment.slot_start, slotEnd: appointment.slot_end },
+      { slotStart: newSlotStart, slotEnd: newSlotEnd }
+    );
+  } catch (error) {
+    console.error('Customer appointment reschedule error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Notify the owner and the customer of a reschedule
+ *
+ * For a multi-service booking the times span the whole visit.
+ */
+async function finishReschedule(
+  appointment: RescheduledAppointment,
+  previous: { slotStart: Date | string; slotEnd: Date | string },
+  next: { slotStart: string; slotEnd: string }
+) {
+  // Send notification to business owner
+  try {
+    const db = getDbClient();
+    const ownerNotificationService = new OwnerNotificationService(db);
+    await ownerNotificationService.notifyOwnerOfReschedule(
+      appointment.business_id,
+      appointment.id,
+      appointment.booking_id,
+      appointment.customer_name,
+      new Date(previous.slotStart).toISOString(),
+      next.slotStart
+    );
+  } catch (error) {
+    console.error('Failed to send owner notification:', error);
+    // Don't fail the request if notification fails
+  }
 
-    // Send reschedule confirmation email to customer (completely non-blocking)
-    const customerNotificationService = new CustomerNotificationService(getDbClient());
+  // Queue in-app notification (for notification_logs table - step 7t)
+  try {
+    const db = getDbClient();
+    const notificationService = new NotificationService(db);
     if (appointment.customer_email) {
-      customerNotificationService.sendRescheduleConfirmation(
-        {
-          id: appointmentId,
-          businessId: appointment.business_id,
-          serviceId: appointment.service_id,
-          customerId: appointment.customer_id,
-          slotStart: new Date(newSlotStart),
-          slotEnd: new Date(newSlotEnd),
-          status: 'confirmed',
-          bookingId: appointment.booking_id,
-        },
-        new Date(appointment.slot_start),
-        new Date(appointment.slot_end)
-      ).then(() => {
-        console.log('✅ Reschedule confirmation email sent successfully');
-      }).catch((error) => {
-        console.error('❌ Failed to send reschedule confirmation email:', error);
-      });
+      await notificationService.queueRescheduleNotification(
+        appointment.id,
+        appointment.customer_email,
+        appointment.customer_phone
+      );
     }
+  } catch (error) {
+    console.error('Failed to queue in-app notification:', error);
+    // Don't fail the request if notification queueing fails
+  }
 
-    return NextResponse.json({
-      success: true,
-      message: 'Appointment rescheduled successfully',
-      appointment: {
-        id: appointmentId,
+  // Send reschedule confirmation email to customer (completely non-blocking)
+  const customerNotificationService = new CustomerNotificationService(getDbClient());
+  if (appointment.customer_email) {
+    customerNotificationService.sendRescheduleConfirmation(
+      {
+        id: appointment.id,
+        businessId: appointment.business_id,
+        serviceId: appointment.service_id,
+        customerId: appointment.customer_id,
+        slotStart: new Date(next.slotStart),
+        slotEnd: new Date(next.slotEnd),
+        status: 'confirmed',
         bookingId: appointment.booking_id,
-        newSlotStart,
-        newSlotEnd,
       },
+      new Date(previous.slotStart),
+      new Date(previous.slotEnd)
+    ).then(() => {
+      console.log('✅ Reschedule confirmation email sent successfully');
+    }).catch((error) => {
+      console.error('❌ Failed to send reschedule confirmation email:', error);
     });
-  } catch (error) {
-    console.error('Customer appointment reschedule error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
   }
+
+  return NextResponse.json({
+    success: true,
+    message: 'Appointment rescheduled successfully',
+    appointment: {
+      id: appointment.id,
+      bookingId: appointment.booking_id,
+      newSlotStart: next.slotStart,
+      newSlotEnd: next.slotEnd,
+    },
+  });
 }
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { neon } from '@neondatabase/serverless';
 import { verifyAccessToken } from '@/lib/auth/tokens';
+import { loadConfigBySubdomain } from '@/lib/config/config-loader';
+import { evaluateCancellation, evaluateReschedule } from '@/lib/booking/policy';
 
 const sql = neon(process.env.DATABASE_URL!);
 
@@ -58,6 +60,8 @@ export async function GET(
         a.slot_end,
         a.status,
         a.created_at,
+        a.policy_override,
+        a.notes,
         b.id as business_id,
         b.name as business_name,
         b.subdomain,
@@ -92,14 +96,25 @@ export async function GET(
       );
     }
 
+    // What the customer may still do online (null if the config can't be loaded)
+    const configResult = await loadConfigBySubdomain(appointment.subdomain);
+    const policy = configResult.success && configResult.config
+      ? {
+          cancel: evaluateCancellation(configResult.config, appointment.slot_start, appointment.policy_override),
+          reschedule: evaluateReschedule(configResult.config, appointment.slot_start, appointment.policy_override),
+        }
+      : null;
+
     return NextResponse.json({
       success: true,
+      policy,
       appointment: {
         id: appointment.id,
         bookingId: appointment.booking_id,
         startTime: appointment.slot_start,
         endTime: appointment.slot_end,
         status: appointment.status,
+        notes: appointment.notes, // internal_notes are owner-only
         createdAt: appointment.created_at,
         business: {
           id: appointment.business_id,
@@ -61,9 +61,12 @@ export async function GET(request: NextRequest) {
           a.slot_start,
           a.slot_end,
           a.status,
+          a.version,
+          a.group_id,
           a.created_at,
           b.name as business_name,
           b.subdomain,
+          b.timezone as business_timezone,
           s.name as service_name,
           s.external_id as service_external_id,
           s.duration_minutes,
@@ -88,9 +91,12 @@ export async function GET(request: NextRequest) {
           a.slot_start,
           a.slot_end,
           a.status,
+          a.version,
+          a.group_id,
           a.created_at,
           b.name as business_name,
           b.subdomain,
+          b.timezone as business_timezone,
           s.name as service_name,
           s.external_id as service_external_id,
           s.duration_minutes,
@@ -114,9 +120,12 @@ export async function GET(request: NextRequest) {
           a.slot_start,
           a.slot_end,
           a.status,
+          a.version,
+          a.group_id,
           a.created_at,
           b.name as business_name,
           b.subdomain,
+          b.timezone as business_timezone,
           s.name as service_name,
           s.external_id as service_external_id,
           s.duration_minutes,
@@ -140,9 +149,12 @@ export async function GET(request: NextRequest) {
           a.slot_start,
           a.slot_end,
           a.status,
+          a.version,
+          a.group_id,
           a.created_at,
           b.name as business_name,
           b.subdomain,
+          b.timezone as business_timezone,
           s.name as service_name,
           s.external_id as service_external_id,
           s.duration_minutes,
@@ -161,6 +173,33 @@ export async function GET(request: NextRequest) {
 
     const appointments = await query;
 
+    // The services of each multi-service booking, in the order they run
+    const groupIds = [...new Set(appointments.map(apt => apt.group_id).filter(Boolean))];
+    const groupLegs = groupIds.length > 0
+      ? await sql`
+          SELECT a.group_id, a.slot_start, a.slot_end, s.external_id
+          FROM appointments a
+          JOIN services s ON a.service_id = s.id
+          WHERE a.group_id = ANY(${groupIds}::uuid[])
+            AND a.status = 'confirmed'
+            AND a.deleted_at IS NULL
+          ORDER BY a.group_index ASC
+        `
+      : [];
+
+    const getGroup = (groupId: string | null) => {
+      const legs = groupLegs.filter(leg => leg.group_id === groupId);
+      if (!groupId || legs.length === 0) {
+        return null;
+      }
+
+      return {
+        serviceIds: legs.map(leg => leg.external_id),
+        startTime: legs[0].slot_start,
+        endTime: legs[legs.length - 1].slot_end,
+      };
+    };
+
     return NextResponse.json({
       success: true,
       appointments: appointments.map(apt => ({
@@ -168,6 +207,7 @@ export async function GET(request: NextRequest) {
         bookingId: apt.booking_id,
         businessName: apt.business_name,
         subdomain: apt.subdomain,
+        timezone: apt.business_timezone,
         serviceName: apt.service_name,
         serviceId: apt.service_external_id,
         categoryName: apt.category_name,
@@ -176,8 +216,10 @@ export async function GET(request: NextRequest) {
         duration: apt.duration_minutes,
         price: apt.price_cents,
         status: apt.status,
+        version: apt.version,
         serviceColor: apt.service_color,
         createdAt: apt.created_at,
+        group: getGroup(apt.group_id), // Rescheduled and canceled as a whole
       })),
       total: appointments.length,
     });
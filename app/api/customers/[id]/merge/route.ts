@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { checkFeatureAccess } from '@/lib/subscription/feature-gates';
+import { CustomerDirectory } from '@/lib/customers';
+import { z } from 'zod';
+
+const mergeSchema = z.object({
+  sourceId: z.string().uuid(),
+});
+
+/**
+ * POST /api/customers/[id]/merge
+ *
+ * Merge a duplicate profile (sourceId) into this one. The duplicate's
+ * appointments, emails and phone numbers move here and it is deleted.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = mergeSchema.parse(await request.json());
+
+    if (data.sourceId === id) {
+      return NextResponse.json(
+        { error: 'A customer cannot be merged into itself' },
+        { status: 400 }
+      );
+    }
+
+    const sql = getDbClient();
+    const directory = new CustomerDirectory(sql);
+
+    const target = await directory.getCustomer(id);
+    if (!target) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, target.business_id);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const featureCheck = await checkFeatureAccess(target.business_id, 'customerDatabase');
+    if (!featureCheck.hasAccess) {
+      return NextResponse.json({
+        error: 'Feature not available',
+        message: featureCheck.upgradeMessage,
+        currentTier: featureCheck.currentTier,
+        suggestedTier: featureCheck.suggestedTier,
+        upgradeRequired: true,
+      }, { status: 403 });
+    }
+
+    // Both profiles must belong to the same business
+    const result = await directory.mergeCustomers(target.business_id, id, data.sourceId);
+    if (!result) {
+      return NextResponse.json({ error: 'Customer to merge not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      customer: result.profile,
+      movedAppointments: result.movedAppointments,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Customer merge error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
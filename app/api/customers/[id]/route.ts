@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { checkFeatureAccess } from '@/lib/subscription/feature-gates';
+import { CustomerDirectory, MAX_CUSTOMER_TAGS } from '@/lib/customers';
+import { z } from 'zod';
+
+const updateSchema = z.object({
+  name: z.string().trim().min(1).max(200).nullable().optional(),
+  tags: z.array(z.string().max(100)).max(MAX_CUSTOMER_TAGS).optional(),
+  notes: z.string().trim().max(5000).nullable().optional(),
+});
+
+/**
+ * GET /api/customers/[id]
+ *
+ * Customer profile with lifetime numbers and visit history
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const sql = getDbClient();
+    const directory = new CustomerDirectory(sql);
+
+    const profile = await directory.getCustomer(id);
+    if (!profile) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, profile.business_id);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const featureCheck = await checkFeatureAccess(profile.business_id, 'customerDatabase');
+    if (!featureCheck.hasAccess) {
+      return NextResponse.json({
+        error: 'Feature not available',
+        message: featureCheck.upgradeMessage,
+        currentTier: featureCheck.currentTier,
+        suggestedTier: featureCheck.suggestedTier,
+        upgradeRequired: true,
+      }, { status: 403 });
+    }
+
+    const [stats, appointments] = await Promise.all([
+      directory.getCustomerStats(id),
+      directory.listCustomerAppointments(id),
+    ]);
+
+    return NextResponse.json({ customer: profile, stats, appointments });
+  } catch (error) {
+    console.error('Customer fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/customers/[id]
+ *
+ * Rename a customer, or replace their tags or private notes
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = updateSchema.parse(await request.json());
+    const sql = getDbClient();
+    const directory = new CustomerDirectory(sql);
+
+    const existing = await directory.getCustomer(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, existing.business_id);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const featureCheck = await checkFeatureAccess(existing.business_id, 'customerDatabase');
+    if (!featureCheck.hasAccess) {
+      return NextResponse.json({
+        error: 'Feature not available',
+        message: featureCheck.upgradeMessage,
+        currentTier: featureCheck.currentTier,
+        suggestedTier: featureCheck.suggestedTier,
+        upgradeRequired: true,
+      }, { status: 403 });
+    }
+
+    const customer = await directory.updateCustomer(id, {
+      name: data.name,
+      tags: data.tags,
+      notes: data.notes === '' ? null : data.notes,
+    });
+
+    return NextResponse.json({ customer });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Customer update error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
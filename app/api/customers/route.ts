@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { checkFeatureAccess } from '@/lib/subscription/feature-gates';
+import { CustomerDirectory, MAX_CUSTOMER_PAGE_SIZE } from '@/lib/customers';
+import { z } from 'zod';
+
+const listQuerySchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  tag: z.string().trim().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_CUSTOMER_PAGE_SIZE).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+/**
+ * GET /api/customers?businessId=xxx&q=marco&tag=vip&limit=50&offset=0
+ *
+ * Customer directory with lifetime visits, spend and no-shows, most recent
+ * visit first. q matches name, email or phone number. New bookings are
+ * linked to their profiles before the list is read.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const businessId = searchParams.get('businessId') || payload.business_id;
+
+    if (!businessId) {
+      return NextResponse.json(
+        { error: 'businessId parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const query = listQuerySchema.parse({
+      q: searchParams.get('q') ?? undefined,
+      tag: searchParams.get('tag') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+      offset: searchParams.get('offset') ?? undefined,
+    });
+
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const featureCheck = await checkFeatureAccess(businessId, 'customerDatabase');
+    if (!featureCheck.hasAccess) {
+      return NextResponse.json({
+        error: 'Feature not available',
+        message: featureCheck.upgradeMessage,
+        currentTier: featureCheck.currentTier,
+        suggestedTier: featureCheck.suggestedTier,
+        upgradeRequired: true,
+      }, { status: 403 });
+    }
+
+    const directory = new CustomerDirectory(sql);
+    await directory.syncBusiness(businessId);
+
+    const [{ customers, total }, tags] = await Promise.all([
+      directory.listCustomers({
+        businessId,
+        search: query.q,
+        tag: query.tag,
+        limit: query.limit,
+        offset: query.offset,
+      }),
+      directory.listTags(businessId),
+    ]);
+
+    return NextResponse.json({ customers, total, tags });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Customers fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { checkFeatureAccess } from '@/lib/subscription/feature-gates';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { CustomerDirectory } from '@/lib/customers';
+import {
+  DataExportService,
+  dataExportQuerySchema,
+  getExportContentType,
+  getExportFilename,
+  resolveExportRange,
+} from '@/lib/export';
+import { z } from 'zod';
+
+/**
+ * GET /api/exports/[type]?businessId=xxx&format=csv&startDate=2025-01-01&endDate=2025-01-31
+ *
+ * Download appointments, customers or daily revenue of a range of days in the
+ * business timezone, as CSV or JSON. The file is streamed and the export is
+ * recorded in data_exports.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ type: string }> }) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const businessId = searchParams.get('businessId') || payload.business_id;
+
+    if (!businessId) {
+      return NextResponse.json(
+        { error: 'businessId parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const query = dataExportQuerySchema.parse({
+      type: (await params).type,
+      format: searchParams.get('format') || undefined,
+      startDate: searchParams.get('startDate') ?? undefined,
+      endDate: searchParams.get('endDate') ?? undefined,
+    });
+
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const featureCheck = await checkFeatureAccess(businessId, 'exportData');
+    if (!featureCheck.hasAccess) {
+      return NextResponse.json({
+        error: 'Feature not available',
+        message: featureCheck.upgradeMessage,
+        currentTier: featureCheck.currentTier,
+        suggestedTier: featureCheck.suggestedTier,
+        upgradeRequired: true,
+      }, { status: 403 });
+    }
+
+    const configResult = await loadConfigByBusinessId(businessId);
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json(
+        { error: 'Failed to load business configuration' },
+        { status: 500 }
+      );
+    }
+
+    const { business } = configResult.config;
+    const range = resolveExportRange(query.startDate, query.endDate, business.timezone);
+
+    if (query.type === 'customers') {
+      // Link recent bookings to their profiles first
+      await new CustomerDirectory(sql).syncBusiness(businessId);
+    }
+
+    const exportService = new DataExportService(sql);
+    const exportId = await exportService.recordExport({
+      businessId,
+      userId: payload.sub,
+      type: query.type,
+      format: query.format,
+      range,
+      ipAddress: request.headers.get('x-forwarded-for'),
+    });
+
+    const stream = exportService.streamExport({
+      exportId,
+      businessId,
+      type: query.type,
+      format: query.format,
+      range,
+      timezone: business.timezone,
+      currency: business.currency,
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': getExportContentType(query.format),
+        'Content-Disposition': `attachment; filename="${getExportFilename(business.id, query.type, query.format, range)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Data export error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { checkFeatureAccess } from '@/lib/subscription/feature-gates';
+import { DataExportService, MAX_EXPORT_RANGE_DAYS } from '@/lib/export';
+
+/**
+ * GET /api/exports?businessId=xxx
+ *
+ * Recent exports of a business, and whether its plan includes data export
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const businessId = request.nextUrl.searchParams.get('businessId') || payload.business_id;
+
+    if (!businessId) {
+      return NextResponse.json(
+        { error: 'businessId parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const featureCheck = await checkFeatureAccess(businessId, 'exportData');
+
+    return NextResponse.json({
+      exports: await new DataExportService(sql).listExports(businessId),
+      maxRangeDays: MAX_EXPORT_RANGE_DAYS,
+      hasAccess: featureCheck.hasAccess,
+      upgradeMessage: featureCheck.upgradeMessage,
+    });
+  } catch (error) {
+    console.error('Data exports fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
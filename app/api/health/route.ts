@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDbClient } from '@/db/client';
+import { NotificationWorker } from '@/lib/notifications/notification-worker';
 
 /**
  * Main health check endpoint for uptime monitoring
@@ -11,7 +12,7 @@ import { getDbClient } from '@/db/client';
  */
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
-  const checks: Record<string, { status: 'healthy' | 'unhealthy' | 'degraded', responseTime?: number, error?: string }> = {};
+  const checks: Record<string, { status: 'healthy' | 'unhealthy' | 'degraded', responseTime?: number, error?: string, counts?: Record<string, number> }> = {};
 
   // 1. Database connectivity check
   try {
@@ -86,6 +87,24 @@ export async function GET(request: NextRequest) {
     };
   }
 
+  // 4. Notification queue backlog (the process-notifications cron keeps it drained)
+  try {
+    const sql = getDbClient();
+    const queue = await new NotificationWorker(sql).getQueueStats();
+    const backlog = queue.pending + queue.retrying;
+
+    checks.notification_queue = {
+      status: backlog < 500 ? 'healthy' : (backlog < 2000 ? 'degraded' : 'unhealthy'),
+      responseTime: backlog,
+      counts: queue,
+    };
+  } catch {
+    checks.notification_queue = {
+      status: 'degraded',
+      error: 'Could not check notification queue',
+    };
+  }
+
   // Determine overall status
   const hasUnhealthy = Object.values(checks).some(check => check.status === 'unhealthy');
   const hasDegraded = Object.values(checks).some(check => check.status === 'degraded');
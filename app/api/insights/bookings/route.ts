@@ -3,6 +3,9 @@ import { getDbClient } from '@/db/client';
 import { verifyToken } from '@/lib/auth';
 import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
 import { checkFeatureAccess } from '@/lib/subscription/feature-gates';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { compareStats, describePeriod, listBuckets, parseInsightsQuery, resolveInsightsPeriod } from '@/lib/insights';
+import { z } from 'zod';
 
 // Force dynamic rendering - disable all caching at Next.js level
 export const dynamic = 'force-dynamic';
@@ -29,7 +32,7 @@ export async function GET(request: NextRequest) {
 
     const searchParams = request.nextUrl.searchParams;
     const businessId = searchParams.get('businessId');
-    const timeRange = searchParams.get('timeRange') || '30d';
+    const query = parseInsightsQuery(searchParams);
 
     if (!businessId) {
       return NextResponse.json(
@@ -56,52 +59,69 @@ export async function GET(request: NextRequest) {
       }, { status: 403 });
     }
 
-    // Calculate date range
-    const now = new Date();
-    const daysMap = { '7d': 7, '30d': 30, '90d': 90 };
-    const days = daysMap[timeRange as keyof typeof daysMap] || 30;
-    const startDate = new Date(now);
-    startDate.setDate(startDate.getDate() - days);
+    const configResult = await loadConfigByBusinessId(businessId);
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json(
+        { error: 'Failed to load business configuration' },
+        { status: 500 }
+      );
+    }
 
-    // Fetch appointments for the time range
-    const appointments = await sql`
+    // Days, weeks and months of the business timezone, so late-evening
+    // bookings count towards the day they happened on
+    const period = resolveInsightsPeriod(query, configResult.config.business.timezone);
+
+    const bookingsQuery = (start: Date, end: Date, grouped: boolean) => sql`
       SELECT
-        DATE(slot_start AT TIME ZONE 'UTC') as date,
+        ${grouped
+          ? sql`to_char(date_trunc(${period.granularity}, slot_start AT TIME ZONE ${period.timezone}), 'YYYY-MM-DD')`
+          : sql`NULL`} as date,
         status,
         COUNT(*) as count
       FROM appointments
       WHERE business_id = ${businessId}
-        AND slot_start >= ${startDate.toISOString()}
-        AND slot_start <= ${now.toISOString()}
+        AND slot_start >= ${start}
+        AND slot_start < ${end}
         AND deleted_at IS NULL
-      GROUP BY DATE(slot_start AT TIME ZONE 'UTC'), status
+      GROUP BY 1, status
       ORDER BY date ASC
     `;
 
-    // Generate all dates in range (to show days with 0 bookings)
+    const [appointments, previousAppointments] = await Promise.all([
+      bookingsQuery(period.start, period.end, true),
+      bookingsQuery(period.previous.start, period.previous.end, false),
+    ]);
+
+    // Every bucket of the period (to show days with 0 bookings)
     const dateMap = new Map<string, number>();
-    for (let d = new Date(startDate); d <= now; d.setDate(d.getDate() + 1)) {
-      const dateStr = d.toISOString().split('T')[0];
-      dateMap.set(dateStr, 0);
+    for (const date of listBuckets(period)) {
+      dateMap.set(date, 0);
     }
 
-    // Fill in actual booking counts
-    let totalCompleted = 0;
-    let totalCancelled = 0;
-    let totalUpcoming = 0;
+    const summarize = (rows: Record<string, string>[]) => {
+      let completed = 0;
+      let cancelled = 0;
+      let upcoming = 0;
+
+      rows.forEach((row) => {
+        const count = parseInt(row.count, 10);
+
+        if (row.status === 'completed') {
+          completed += count;
+        } else if (row.status === 'canceled') {
+          cancelled += count;
+        } else if (row.status === 'confirmed') {
+          upcoming += count;
+        }
+      });
+
+      return { total: completed + cancelled + upcoming, completed, cancelled, upcoming };
+    };
 
-    appointments.forEach((row: { date: string; count: string; status: string }) => {
-      const dateStr = row.date;
+    // Fill in actual booking counts
+    appointments.forEach((row) => {
       const count = parseInt(row.count, 10);
-      dateMap.set(dateStr, (dateMap.get(dateStr) || 0) + count);
-
-      if (row.status === 'completed') {
-        totalCompleted += count;
-      } else if (row.status === 'canceled') {
-        totalCancelled += count;
-      } else if (row.status === 'confirmed') {
-        totalUpcoming += count;
-      }
+      dateMap.set(row.date, (dateMap.get(row.date) || 0) + count);
     });
 
     // Convert map to array for chart
@@ -110,16 +130,13 @@ export async function GET(request: NextRequest) {
       count
     }));
 
-    const stats = {
-      total: totalCompleted + totalCancelled + totalUpcoming,
-      completed: totalCompleted,
-      cancelled: totalCancelled,
-      upcoming: totalUpcoming
-    };
+    const stats = summarize(appointments);
 
     return NextResponse.json({
       chartData,
-      stats
+      stats,
+      comparison: compareStats(stats, summarize(previousAppointments)),
+      period: describePeriod(period)
     }, {
       headers: {
         'Cache-Control': 'private, no-cache, no-store, must-revalidate',
@@ -128,6 +145,13 @@ export async function GET(request: NextRequest) {
       }
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
     console.error('Insights API error:', error);
     return NextResponse.json(
       { error: 'Failed to fetch insights data' },
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { checkFeatureAccess, getBusinessFeatures } from '@/lib/subscription/feature-gates';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { describePeriod, getCustomerAnalytics, parseInsightsQuery, resolveInsightsPeriod } from '@/lib/insights';
+import { z } from 'zod';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner' || !payload.business_id) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const businessId = searchParams.get('businessId');
+    const query = parseInsightsQuery(searchParams);
+
+    if (!businessId) {
+      return NextResponse.json(
+        { error: 'Business ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const sql = getDbClient();
+
+    // CRITICAL: Verify user owns this business before querying data
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    // Check if business has access to analytics feature
+    const featureCheck = await checkFeatureAccess(businessId, 'analyticsLevel');
+    if (!featureCheck.hasAccess) {
+      return NextResponse.json({
+        error: 'Feature not available',
+        message: featureCheck.upgradeMessage,
+        currentTier: featureCheck.currentTier,
+        suggestedTier: featureCheck.suggestedTier,
+        upgradeRequired: true,
+      }, { status: 403 });
+    }
+
+    const configResult = await loadConfigByBusinessId(businessId);
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json(
+        { error: 'Failed to load business configuration' },
+        { status: 500 }
+      );
+    }
+
+    const period = resolveInsightsPeriod(query, configResult.config.business.timezone);
+
+    // Retention cohorts are part of advanced analytics
+    const { analyticsLevel } = await getBusinessFeatures(businessId);
+
+    const analytics = await getCustomerAnalytics(sql, {
+      businessId,
+      period,
+      includeCohorts: analyticsLevel === 'advanced',
+    });
+
+    return NextResponse.json({
+      ...analytics,
+      analyticsLevel,
+      period: describePeriod(period)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Customer insights API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch customer data' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,9 @@ import { getDbClient } from '@/db/client';
 import { verifyToken } from '@/lib/auth';
 import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
 import { checkFeatureAccess } from '@/lib/subscription/feature-gates';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { compareStats, describePeriod, listBuckets, parseInsightsQuery, resolveInsightsPeriod } from '@/lib/insights';
+import { z } from 'zod';
 
 export async function GET(request: NextRequest) {
   try {
@@ -25,7 +28,7 @@ export async function GET(request: NextRequest) {
 
     const searchParams = request.nextUrl.searchParams;
     const businessId = searchParams.get('businessId');
-    const timeRange = searchParams.get('timeRange') || '30d';
+    const query = parseInsightsQuery(searchParams);
 
     if (!businessId) {
       return NextResponse.json(
@@ -52,47 +55,58 @@ export async function GET(request: NextRequest) {
       }, { status: 403 });
     }
 
-    // Calculate date range
-    const now = new Date();
-    const daysMap = { '7d': 7, '30d': 30, '90d': 90 };
-    const days = daysMap[timeRange as keyof typeof daysMap] || 30;
-    const startDate = new Date(now);
-    startDate.setDate(startDate.getDate() - days);
+    const configResult = await loadConfigByBusinessId(businessId);
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json(
+        { error: 'Failed to load business configuration' },
+        { status: 500 }
+      );
+    }
 
-    // Fetch revenue data grouped by date
-    const revenueData = await sql`
+    // Days, weeks and months of the business timezone, so late-evening
+    // bookings count towards the day they happened on
+    const period = resolveInsightsPeriod(query, configResult.config.business.timezone);
+
+    // Revenue is only counted for appointments that have started
+    const revenueQuery = (start: Date, end: Date, grouped: boolean) => sql`
       SELECT
-        DATE(a.slot_start AT TIME ZONE 'UTC') as date,
+        ${grouped
+          ? sql`to_char(date_trunc(${period.granularity}, a.slot_start AT TIME ZONE ${period.timezone}), 'YYYY-MM-DD')`
+          : sql`NULL`} as date,
         COALESCE(SUM(s.price_cents), 0) as revenue,
         COUNT(*) as booking_count
       FROM appointments a
       LEFT JOIN services s ON a.service_id = s.id
       WHERE a.business_id = ${businessId}
-        AND a.slot_start >= ${startDate.toISOString()}
-        AND a.slot_start <= ${now.toISOString()}
+        AND a.slot_start >= ${start}
+        AND a.slot_start < ${end}
+        AND a.slot_start <= NOW()
         AND a.status IN ('confirmed', 'completed')
         AND a.deleted_at IS NULL
-      GROUP BY DATE(a.slot_start AT TIME ZONE 'UTC')
+      GROUP BY 1
       ORDER BY date ASC
     `;
 
-    // Generate all dates in range (to show days with 0 revenue)
+    const [revenueData, previousData] = await Promise.all([
+      revenueQuery(period.start, period.end, true),
+      revenueQuery(period.previous.start, period.previous.end, false),
+    ]);
+
+    // Every bucket of the period (to show days with 0 revenue)
     const dateMap = new Map<string, { revenue: number; count: number }>();
-    for (let d = new Date(startDate); d <= now; d.setDate(d.getDate() + 1)) {
-      const dateStr = d.toISOString().split('T')[0];
-      dateMap.set(dateStr, { revenue: 0, count: 0 });
+    for (const date of listBuckets(period)) {
+      dateMap.set(date, { revenue: 0, count: 0 });
     }
 
     // Fill in actual revenue data
     let totalRevenue = 0;
     let totalBookings = 0;
 
-    revenueData.forEach((row: { date: string; revenue: string; booking_count: string }) => {
-      const dateStr = row.date;
+    revenueData.forEach((row) => {
       const revenue = parseFloat(row.revenue) || 0;
       const count = parseInt(row.booking_count, 10);
 
-      dateMap.set(dateStr, { revenue, count });
+      dateMap.set(row.date, { revenue, count });
       totalRevenue += revenue;
       totalBookings += count;
     });
@@ -104,21 +118,26 @@ export async function GET(request: NextRequest) {
       count: data.count
     }));
 
-    // Calculate average booking value
-    const averageBookingValue = totalBookings > 0 ? totalRevenue / totalBookings : 0;
+    const summarize = (revenueCents: number, bookings: number) => ({
+      totalRevenue: revenueCents / 100, // Convert cents to dollars
+      totalBookings: bookings,
+      averageBookingValue: bookings > 0 ? revenueCents / bookings / 100 : 0
+    });
 
-    const stats = {
-      totalRevenue: totalRevenue / 100, // Convert cents to dollars
-      totalBookings,
-      averageBookingValue: averageBookingValue / 100 // Convert cents to dollars
-    };
+    const stats = summarize(totalRevenue, totalBookings);
+    const previousStats = summarize(
+      parseFloat(previousData[0]?.revenue) || 0,
+      parseInt(previousData[0]?.booking_count ?? '0', 10)
+    );
 
     return NextResponse.json({
       chartData: chartData.map(d => ({
         ...d,
         revenue: d.revenue / 100 // Convert cents to dollars for chart
       })),
-      stats
+      stats,
+      comparison: compareStats(stats, previousStats),
+      period: describePeriod(period)
     }, {
       headers: {
         'Cache-Control': 'private, no-cache, no-store, must-revalidate',
@@ -127,6 +146,13 @@ export async function GET(request: NextRequest) {
       }
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
     console.error('Revenue insights API error:', error);
     return NextResponse.json(
       { error: 'Failed to fetch revenue data' },
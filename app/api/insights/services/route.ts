@@ -2,7 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDbClient } from '@/db/client';
 import { verifyToken } from '@/lib/auth';
 import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
-import { checkFeatureAccess } from '@/lib/subscription/feature-gates';
+import { checkFeatureAccess, getBusinessFeatures } from '@/lib/subscription/feature-gates';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { describePeriod, getServicePerformance, parseInsightsQuery, resolveInsightsPeriod } from '@/lib/insights';
+import { z } from 'zod';
 
 export async function GET(request: NextRequest) {
   try {
@@ -25,7 +28,7 @@ export async function GET(request: NextRequest) {
 
     const searchParams = request.nextUrl.searchParams;
     const businessId = searchParams.get('businessId');
-    const timeRange = searchParams.get('timeRange') || '30d';
+    const query = parseInsightsQuery(searchParams);
 
     if (!businessId) {
       return NextResponse.json(
@@ -52,85 +55,39 @@ export async function GET(request: NextRequest) {
       }, { status: 403 });
     }
 
-    // Calculate date range
-    const now = new Date();
-    const daysMap = { '7d': 7, '30d': 30, '90d': 90 };
-    const days = daysMap[timeRange as keyof typeof daysMap] || 30;
-    const startDate = new Date(now);
-    startDate.setDate(startDate.getDate() - days);
-
-    // Fetch service performance data
-    const servicesData = await sql`
-      SELECT
-        s.id,
-        s.name,
-        s.color,
-        s.price_cents,
-        s.duration_minutes,
-        COUNT(a.id) as booking_count,
-        COALESCE(SUM(s.price_cents), 0) as total_revenue,
-        COUNT(CASE WHEN a.status = 'completed' THEN 1 END) as completed_count,
-        COUNT(CASE WHEN a.status = 'canceled' THEN 1 END) as cancelled_count
-      FROM services s
-      LEFT JOIN appointments a ON s.id = a.service_id
-        AND a.slot_start >= ${startDate.toISOString()}
-        AND a.slot_start <= ${now.toISOString()}
-        AND a.deleted_at IS NULL
-      WHERE s.business_id = ${businessId}
-        AND s.deleted_at IS NULL
-      GROUP BY s.id, s.name, s.color, s.price_cents, s.duration_minutes
-      ORDER BY booking_count DESC, total_revenue DESC
-      LIMIT 10
-    `;
+    const configResult = await loadConfigByBusinessId(businessId);
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json(
+        { error: 'Failed to load business configuration' },
+        { status: 500 }
+      );
+    }
 
-    // Calculate total bookings for percentage
-    const totalBookings = servicesData.reduce((sum: number, service: { booking_count: string }) => {
-      return sum + parseInt(service.booking_count, 10);
-    }, 0);
+    const period = resolveInsightsPeriod(query, configResult.config.business.timezone);
 
-    // Format the data
-    const services = servicesData.map((service: {
-      id: string;
-      name: string;
-      color: string;
-      price_cents: number;
-      booking_count: string;
-      completed_count: string;
-      cancelled_count: string;
-      total_revenue: string;
-    }) => {
-      const bookingCount = parseInt(service.booking_count, 10);
-      const completedCount = parseInt(service.completed_count, 10);
-      const cancelledCount = parseInt(service.cancelled_count, 10);
-      const totalRevenue = parseFloat(service.total_revenue) || 0;
+    // Lead time and capacity utilisation are part of advanced analytics
+    const { analyticsLevel } = await getBusinessFeatures(businessId);
 
-      return {
-        id: service.id,
-        name: service.name,
-        color: service.color,
-        price: service.price_cents / 100, // Convert cents to dollars
-        durationMinutes: service.duration_minutes,
-        bookingCount,
-        completedCount,
-        cancelledCount,
-        totalRevenue: totalRevenue / 100, // Convert cents to dollars
-        percentage: totalBookings > 0 ? (bookingCount / totalBookings) * 100 : 0,
-        completionRate: bookingCount > 0 ? (completedCount / bookingCount) * 100 : 0
-      };
+    const performance = await getServicePerformance(sql, {
+      businessId,
+      config: configResult.config,
+      period,
+      includeAdvanced: analyticsLevel === 'advanced',
     });
 
-    // Calculate overall stats
-    const stats = {
-      totalServices: servicesData.length,
-      totalBookings,
-      mostPopular: services[0] || null
-    };
-
     return NextResponse.json({
-      services,
-      stats
+      ...performance,
+      analyticsLevel,
+      period: describePeriod(period)
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
     console.error('Services insights API error:', error);
     return NextResponse.json(
       { error: 'Failed to fetch services data' },
@@ -38,30 +38,24 @@ export async function POST(
 
     const notif = notifications[0];
 
-    // Check if already sent or pending
-    if (notif.status === 'sent') {
+    // Only notifications the worker gave up on can be requeued
+    if (notif.status !== 'failed' && notif.status !== 'dead_letter') {
       return NextResponse.json(
-        { message: 'Notification already sent' },
+        { message: notif.status === 'sent' ? 'Notification already sent' : 'Notification is already queued' },
         { status: 400 }
       );
     }
 
-    // Update status to retrying
+    // Requeue with a fresh set of attempts; the process-notifications cron delivers it
     await sql`
       UPDATE notification_logs
-      SET status = 'retrying',
-          attempts = attempts + 1,
-          last_attempt_at = NOW(),
+      SET status = 'pending',
+          attempts = 0,
+          next_attempt_at = NULL,
+          locked_until = NULL,
           error_message = NULL
       WHERE id = ${notificationId}
-    `;
-
-    // TODO: Integrate with email/SMS provider
-    // For now, mark as sent
-    await sql`
-      UPDATE notification_logs
-      SET status = 'sent'
-      WHERE id = ${notificationId}
+        AND status IN ('failed', 'dead_letter')
     `;
 
     return NextResponse.json({ success: true });
@@ -29,6 +29,7 @@ export async function GET(request: NextRequest) {
         nl.attempts,
         nl.last_attempt_at,
         nl.error_message,
+        nl.next_attempt_at,
         nl.created_at,
         a.slot_start,
         a.slot_end
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+
+/**
+ * GET /api/resources?businessId=xxx
+ *
+ * Bookable resources (rooms, equipment) declared in the business config, for
+ * the calendar's resource columns
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const businessId = request.nextUrl.searchParams.get('businessId') || payload.business_id;
+
+    if (!businessId) {
+      return NextResponse.json(
+        { error: 'businessId parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const configResult = await loadConfigByBusinessId(businessId);
+
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json(
+        { error: 'Failed to load business configuration' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ resources: configResult.config.resources });
+  } catch (error) {
+    console.error('Resources fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { ApiKeyScope } from '@/db/types';
+import { ApiKeyService, API_KEY_SCOPES } from '@/lib/public-api';
+import { z } from 'zod';
+
+const updateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  scopes: z.array(z.enum(API_KEY_SCOPES as [ApiKeyScope, ...ApiKeyScope[]])).min(1).optional(),
+  rateLimitPerMinute: z.number().int().min(1).max(1000).optional(),
+  // Issue a new key; the old one stops working immediately
+  rotate: z.boolean().optional(),
+});
+
+/**
+ * PATCH /api/settings/api-keys/[id]
+ *
+ * Update a key, or rotate it
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = updateSchema.parse(await request.json());
+    const sql = getDbClient();
+    const apiKeyService = new ApiKeyService(sql);
+
+    const existing = await apiKeyService.getKey(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, existing.business_id);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    if (existing.revoked_at) {
+      return NextResponse.json({ error: 'API key has been revoked' }, { status: 400 });
+    }
+
+    let apiKey = await apiKeyService.updateKey(id, {
+      name: data.name,
+      scopes: data.scopes,
+      rateLimitPerMinute: data.rateLimitPerMinute,
+    });
+
+    let key: string | undefined;
+
+    if (data.rotate) {
+      const rotated = await apiKeyService.rotateKey(id);
+      if (rotated) {
+        apiKey = rotated.apiKey;
+        key = rotated.key;
+      }
+    }
+
+    return NextResponse.json({ apiKey, key });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('API key update error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/settings/api-keys/[id]
+ *
+ * Revoke a key. It stays listed (with its last use) but no longer authenticates.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const sql = getDbClient();
+    const apiKeyService = new ApiKeyService(sql);
+
+    const existing = await apiKeyService.getKey(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, existing.business_id);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    await apiKeyService.revokeKey(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('API key revoke error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { checkFeatureAccess } from '@/lib/subscription/feature-gates';
+import { ApiKeyScope } from '@/db/types';
+import {
+  ApiKeyService,
+  API_KEY_SCOPES,
+  MAX_API_KEYS_PER_BUSINESS,
+} from '@/lib/public-api';
+import { z } from 'zod';
+
+const scopesSchema = z.array(z.enum(API_KEY_SCOPES as [ApiKeyScope, ...ApiKeyScope[]])).min(1);
+
+const createSchema = z.object({
+  businessId: z.string().uuid(),
+  name: z.string().trim().min(1).max(100),
+  scopes: scopesSchema,
+  rateLimitPerMinute: z.number().int().min(1).max(1000).optional(),
+});
+
+const accessSchema = z.object({
+  businessId: z.string().uuid(),
+  enabled: z.boolean(),
+});
+
+/**
+ * GET /api/settings/api-keys?businessId=xxx
+ *
+ * API keys of a business (without the keys themselves) and whether API access is on
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const businessId = request.nextUrl.searchParams.get('businessId') || payload.business_id;
+
+    if (!businessId) {
+      return NextResponse.json(
+        { error: 'businessId parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const apiKeyService = new ApiKeyService(sql);
+    const featureCheck = await checkFeatureAccess(businessId, 'apiAccess');
+
+    return NextResponse.json({
+      keys: await apiKeyService.listKeys(businessId),
+      apiAccessEnabled: await apiKeyService.getApiAccessEnabled(businessId),
+      scopes: API_KEY_SCOPES,
+      hasAccess: featureCheck.hasAccess,
+      upgradeMessage: featureCheck.upgradeMessage,
+    });
+  } catch (error) {
+    console.error('API keys fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/settings/api-keys
+ *
+ * Create a key. The response is the only time the key is shown, apart from
+ * rotating it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = createSchema.parse(await request.json());
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, data.businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const featureCheck = await checkFeatureAccess(data.businessId, 'apiAccess');
+    if (!featureCheck.hasAccess) {
+      return NextResponse.json({
+        error: 'Feature not available',
+        message: featureCheck.upgradeMessage,
+        currentTier: featureCheck.currentTier,
+        suggestedTier: featureCheck.suggestedTier,
+        upgradeRequired: true,
+      }, { status: 403 });
+    }
+
+    const apiKeyService = new ApiKeyService(sql);
+
+    if (await apiKeyService.countActiveKeys(data.businessId) >= MAX_API_KEYS_PER_BUSINESS) {
+      return NextResponse.json(
+        { error: `A business can have at most ${MAX_API_KEYS_PER_BUSINESS} active API keys` },
+        { status: 400 }
+      );
+    }
+
+    const { apiKey, key } = await apiKeyService.createKey({
+      businessId: data.businessId,
+      name: data.name,
+      scopes: data.scopes,
+      rateLimitPerMinute: data.rateLimitPerMinute,
+      createdBy: payload.sub,
+    });
+
+    return NextResponse.json({ apiKey, key }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('API key create error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/settings/api-keys
+ *
+ * Switch API access for the business on or off without touching its keys
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = accessSchema.parse(await request.json());
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, data.businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    await new ApiKeyService(sql).setApiAccessEnabled(data.businessId, data.enabled);
+
+    return NextResponse.json({ apiAccessEnabled: data.enabled });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('API access update error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { CalendarFeedService } from '@/lib/calendar';
+
+/**
+ * DELETE /api/settings/calendar-feeds/[id]
+ *
+ * Delete a feed. Subscribed calendars keep their last copy but get no updates.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const sql = getDbClient();
+    const feedService = new CalendarFeedService(sql);
+
+    const existing = await feedService.getFeed(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, existing.business_id);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    await feedService.deleteFeed(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Calendar feed delete error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
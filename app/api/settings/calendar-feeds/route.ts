@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { CalendarFeedService } from '@/lib/calendar';
+import { StaffManager } from '@/lib/staff/staff-manager';
+import { z } from 'zod';
+
+const createSchema = z.object({
+  businessId: z.string().uuid(),
+  // Omit for the whole-business feed
+  staffId: z.string().uuid().nullable().optional(),
+});
+
+/**
+ * GET /api/settings/calendar-feeds?businessId=xxx
+ *
+ * Calendar feeds of a business, and the staff members a feed can be created for
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const businessId = request.nextUrl.searchParams.get('businessId') || payload.business_id;
+
+    if (!businessId) {
+      return NextResponse.json(
+        { error: 'businessId parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const staff = await new StaffManager(sql).listStaff(businessId);
+
+    return NextResponse.json({
+      feeds: await new CalendarFeedService(sql).listFeeds(businessId),
+      staff: staff.map(member => ({ id: member.id, name: member.name })),
+    });
+  } catch (error) {
+    console.error('Calendar feeds fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/settings/calendar-feeds
+ *
+ * Create the feed of the business or of a staff member. If it already exists it
+ * gets a new URL and the old one stops working.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = createSchema.parse(await request.json());
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, data.businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    if (data.staffId && !(await new StaffManager(sql).getStaffMember(data.businessId, data.staffId))) {
+      return NextResponse.json({ error: 'Staff member not found' }, { status: 404 });
+    }
+
+    const feed = await new CalendarFeedService(sql).createOrRegenerateFeed({
+      businessId: data.businessId,
+      staffId: data.staffId,
+      createdBy: payload.sub,
+    });
+
+    return NextResponse.json({ feed }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Calendar feed create error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { ExternalCalendarService, MAX_ICS_BYTES } from '@/lib/calendar';
+import { z } from 'zod';
+
+const updateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  enabled: z.boolean().optional(),
+  // Re-import now: URL calendars are fetched, uploads need the new file content
+  sync: z.boolean().optional(),
+  content: z.string().min(1).max(MAX_ICS_BYTES).optional(),
+});
+
+/**
+ * PATCH /api/settings/external-calendars/[id]
+ *
+ * Rename, enable/disable, or re-sync an external calendar
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = updateSchema.parse(await request.json());
+    const sql = getDbClient();
+    const calendarService = new ExternalCalendarService(sql);
+
+    const existing = await calendarService.getCalendar(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'External calendar not found' }, { status: 404 });
+    }
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, existing.business_id);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    if (data.content !== undefined && existing.source_type !== 'upload') {
+      return NextResponse.json(
+        { error: 'Only uploaded calendars can be replaced with a file' },
+        { status: 400 }
+      );
+    }
+
+    if (data.sync && existing.source_type === 'upload' && data.content === undefined) {
+      return NextResponse.json(
+        { error: 'Upload the .ics file again to refresh this calendar' },
+        { status: 400 }
+      );
+    }
+
+    let calendar = await calendarService.updateCalendar(id, {
+      name: data.name,
+      enabled: data.enabled,
+    });
+
+    let sync;
+    if (calendar && (data.sync || data.content !== undefined)) {
+      sync = await calendarService.syncCalendar(calendar, data.content);
+      calendar = await calendarService.getCalendar(id);
+    }
+
+    return NextResponse.json({ calendar, sync });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('External calendar update error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/settings/external-calendars/[id]
+ *
+ * Disconnect a calendar; its busy time stops blocking slots immediately
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const sql = getDbClient();
+    const calendarService = new ExternalCalendarService(sql);
+
+    const existing = await calendarService.getCalendar(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'External calendar not found' }, { status: 404 });
+    }
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, existing.business_id);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    await calendarService.deleteCalendar(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('External calendar delete error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import {
+  ExternalCalendarService,
+  externalCalendarUrlSchema,
+  MAX_EXTERNAL_CALENDARS_PER_BUSINESS,
+  MAX_ICS_BYTES,
+} from '@/lib/calendar';
+import { z } from 'zod';
+
+const createSchema = z
+  .object({
+    businessId: z.string().uuid(),
+    name: z.string().trim().min(1).max(100),
+    // Exactly one of: a subscription URL, or the text of an uploaded .ics file
+    url: externalCalendarUrlSchema.optional(),
+    content: z.string().min(1).max(MAX_ICS_BYTES).optional(),
+  })
+  .refine((data) => (data.url === undefined) !== (data.content === undefined), {
+    message: 'Provide either a calendar URL or an .ics file',
+    path: ['url'],
+  });
+
+/**
+ * GET /api/settings/external-calendars?businessId=xxx
+ *
+ * External calendars whose busy time blocks booking slots
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const businessId = request.nextUrl.searchParams.get('businessId') || payload.business_id;
+
+    if (!businessId) {
+      return NextResponse.json(
+        { error: 'businessId parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    return NextResponse.json({
+      calendars: await new ExternalCalendarService(sql).listCalendars(businessId),
+      maxCalendars: MAX_EXTERNAL_CALENDARS_PER_BUSINESS,
+    });
+  } catch (error) {
+    console.error('External calendars fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/settings/external-calendars
+ *
+ * Connect a calendar by URL or upload, and import its busy time right away.
+ * A calendar that fails its first import is still saved, with the error shown,
+ * so the owner can fix the URL at the source and sync again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = createSchema.parse(await request.json());
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, data.businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const calendarService = new ExternalCalendarService(sql);
+
+    if ((await calendarService.countCalendars(data.businessId)) >= MAX_EXTERNAL_CALENDARS_PER_BUSINESS) {
+      return NextResponse.json(
+        { error: `A business can connect at most ${MAX_EXTERNAL_CALENDARS_PER_BUSINESS} calendars` },
+        { status: 400 }
+      );
+    }
+
+    const { calendar, sync } = await calendarService.createCalendar(
+      {
+        businessId: data.businessId,
+        name: data.name,
+        url: data.url,
+        createdBy: payload.sub,
+      },
+      data.content
+    );
+
+    return NextResponse.json({ calendar, sync }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('External calendar create error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { generateTimeSlots } from '@/lib/booking/slot-generator';
+import { getCapacityPoolUsage, resolveCapacityPools } from '@/lib/booking/capacity-pools';
+import { getResourceBookings, getServiceResources } from '@/lib/booking/resources';
+import { parseInTimezone, getEndOfDay } from '@/lib/utils/timezone';
+import { ExternalCalendarService } from '@/lib/calendar';
+
+const querySchema = z.object({
+  businessId: z.string().uuid({ message: 'Invalid businessId' }),
+  // Config service ID; defaults to the first enabled service
+  serviceId: z.string().optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+});
+
+/**
+ * GET /api/settings/slot-recommendations?businessId=xxx&date=YYYY-MM-DD&serviceId=yyy
+ *
+ * The business's slotRecommendations settings and a preview of their effect
+ * on one day: the service's slots ranked as the booking page would rank them
+ * (even while recommendations are disabled), with how many would be
+ * recommended and how many hideGapSlots would hide.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const validation = querySchema.safeParse({
+      businessId: searchParams.get('businessId') || payload.business_id,
+      serviceId: searchParams.get('serviceId') || undefined,
+      date: searchParams.get('date'),
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid parameters',
+          details: validation.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { businessId, serviceId, date } = validation.data;
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const configResult = await loadConfigByBusinessId(businessId);
+    if (!configResult.success || !configResult.config) {
+      return NextResponse.json(
+        { error: configResult.error || 'Configuration not found' },
+        { status: 500 }
+      );
+    }
+
+    const config = configResult.config;
+    const services = config.categories
+      .flatMap(category => category.services)
+      .filter(s => s.enabled);
+
+    const service = serviceId ? services.find(s => s.id === serviceId) : services[0];
+
+    if (!service) {
+      return NextResponse.json({ error: 'Service not found' }, { status: 404 });
+    }
+
+    // Parse date in business timezone
+    const businessTimezone = config.business.timezone;
+    const start = parseInTimezone(date, businessTimezone);
+    const end = getEndOfDay(start, businessTimezone);
+
+    // Existing appointments and active reservations of the day
+    const appointments = await sql`
+      SELECT slot_start, slot_end, occupied_start, occupied_end
+      FROM appointments
+      WHERE business_id = ${businessId}
+        AND slot_start >= ${start.toISOString()}
+        AND slot_start <= ${end.toISOString()}
+        AND status IN ('confirmed', 'completed')
+        AND deleted_at IS NULL
+    `;
+
+    const now = new Date();
+    const reservations = await sql`
+      SELECT slot_start, slot_end, occupied_start, occupied_end, expires_at
+      FROM reservations
+      WHERE business_id = ${businessId}
+        AND slot_start >= ${start.toISOString()}
+        AND slot_start <= ${end.toISOString()}
+        AND expires_at > ${now.toISOString()}
+    `;
+
+    const externalBusy = await new ExternalCalendarService(sql).getBusyIntervals(businessId, start, end);
+
+    const capacityPools = await getCapacityPoolUsage(
+      sql,
+      businessId,
+      await resolveCapacityPools(sql, config, businessId, service.id),
+      start,
+      end
+    );
+
+    const resourceBookings = await getResourceBookings(
+      sql,
+      businessId,
+      getServiceResources(config, service.id),
+      start,
+      end
+    );
+
+    const slots = generateTimeSlots({
+      config,
+      service,
+      startDate: start,
+      endDate: end,
+      existingAppointments: appointments.map(a => ({
+        slot_start: a.slot_start,
+        slot_end: a.slot_end,
+        occupied_start: a.occupied_start,
+        occupied_end: a.occupied_end,
+      })),
+      existingReservations: reservations.map(r => ({
+        slot_start: r.slot_start,
+        slot_end: r.slot_end,
+        occupied_start: r.occupied_start,
+        occupied_end: r.occupied_end,
+        expires_at: r.expires_at,
+      })),
+      externalBusy,
+      capacityPools,
+      resourceBookings,
+      rank: true,
+    });
+
+    const available = slots.filter(slot => slot.available);
+
+    return NextResponse.json({
+      settings: config.slotRecommendations,
+      services: services.map(s => ({ id: s.id, name: s.name, duration: s.duration })),
+      preview: {
+        serviceId: service.id,
+        date,
+        timezone: businessTimezone,
+        slots: available,
+        summary: {
+          available: available.length,
+          recommended: available.filter(slot => slot.recommended).length,
+          createsGap: available.filter(slot => slot.createsGap).length,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Slot recommendations preview error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAccessToken } from '@/lib/auth/tokens';
+import { getDbClient } from '@/db/client';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { SmsService } from '@/lib/sms';
+
+/**
+ * GET /api/settings/sms-usage?businessId=xxx
+ *
+ * SMS quota and usage for the current month (owner dashboard settings)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing or invalid authorization header' },
+        { status: 401 }
+      );
+    }
+
+    let payload;
+    try {
+      payload = verifyAccessToken(authHeader.substring(7));
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only business owners can view SMS usage' },
+        { status: 403 }
+      );
+    }
+
+    const businessId = request.nextUrl.searchParams.get('businessId') || payload.business_id;
+
+    if (!businessId) {
+      return NextResponse.json(
+        { error: 'businessId parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const usage = await new SmsService(sql, null).getUsage(businessId);
+
+    if (!usage) {
+      return NextResponse.json({ error: 'Business not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ usage });
+  } catch (error) {
+    console.error('SMS usage fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
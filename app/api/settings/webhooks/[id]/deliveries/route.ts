@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { WebhookService } from '@/lib/webhooks';
+
+/**
+ * GET /api/settings/webhooks/[id]/deliveries
+ *
+ * Most recent deliveries to an endpoint (delivery log)
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const sql = getDbClient();
+    const webhookService = new WebhookService(sql);
+
+    const endpoint = await webhookService.getEndpoint(id);
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+    }
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, endpoint.business_id);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const deliveries = await webhookService.listDeliveries(id);
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error('Webhook deliveries fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { WebhookService, webhookUrlSchema, webhookEventsSchema } from '@/lib/webhooks';
+import { z } from 'zod';
+
+const updateSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  // Empty string clears the description
+  description: z.string().max(200).optional(),
+  events: webhookEventsSchema.optional(),
+  enabled: z.boolean().optional(),
+  // Issue a new signing secret; the old one stops working immediately
+  rotateSecret: z.boolean().optional(),
+});
+
+/**
+ * PATCH /api/settings/webhooks/[id]
+ *
+ * Update an endpoint, or rotate its signing secret
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = updateSchema.parse(await request.json());
+    const sql = getDbClient();
+    const webhookService = new WebhookService(sql);
+
+    const existing = await webhookService.getEndpoint(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+    }
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, existing.business_id);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const endpoint = await webhookService.updateEndpoint(id, {
+      url: data.url,
+      description: data.description === undefined ? undefined : data.description.trim() || null,
+      events: data.events,
+      enabled: data.enabled,
+    });
+
+    const secret = data.rotateSecret ? await webhookService.rotateSecret(id) : undefined;
+
+    return NextResponse.json({ endpoint, secret });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Webhook endpoint update error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/settings/webhooks/[id]
+ *
+ * Remove an endpoint and its delivery log
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const sql = getDbClient();
+    const webhookService = new WebhookService(sql);
+
+    const existing = await webhookService.getEndpoint(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+    }
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, existing.business_id);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    await webhookService.deleteEndpoint(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Webhook endpoint delete error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
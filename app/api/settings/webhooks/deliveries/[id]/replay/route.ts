@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { WebhookService } from '@/lib/webhooks';
+
+/**
+ * POST /api/settings/webhooks/deliveries/[id]/replay
+ *
+ * Queue a logged delivery again with its original payload; the
+ * deliver-webhooks cron sends it on its next run
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const sql = getDbClient();
+    const webhookService = new WebhookService(sql);
+
+    const delivery = await webhookService.getDelivery(id);
+    if (!delivery) {
+      return NextResponse.json({ error: 'Webhook delivery not found' }, { status: 404 });
+    }
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, delivery.business_id);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const replay = await webhookService.replayDelivery(id);
+
+    return NextResponse.json({ delivery: replay }, { status: 201 });
+  } catch (error) {
+    console.error('Webhook replay error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { verifyToken } from '@/lib/auth';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { checkFeatureAccess } from '@/lib/subscription/feature-gates';
+import {
+  WebhookService,
+  WEBHOOK_EVENT_TYPES,
+  MAX_ENDPOINTS_PER_BUSINESS,
+  webhookUrlSchema,
+  webhookEventsSchema,
+} from '@/lib/webhooks';
+import { z } from 'zod';
+
+const createSchema = z.object({
+  businessId: z.string().uuid(),
+  url: webhookUrlSchema,
+  description: z.string().max(200).optional(),
+  events: webhookEventsSchema,
+});
+
+/**
+ * GET /api/settings/webhooks?businessId=xxx
+ *
+ * Webhook endpoints of a business (without their secrets)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const businessId = request.nextUrl.searchParams.get('businessId') || payload.business_id;
+
+    if (!businessId) {
+      return NextResponse.json(
+        { error: 'businessId parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const featureCheck = await checkFeatureAccess(businessId, 'webhooks');
+    const endpoints = await new WebhookService(sql).listEndpoints(businessId);
+
+    return NextResponse.json({
+      endpoints,
+      events: WEBHOOK_EVENT_TYPES,
+      hasAccess: featureCheck.hasAccess,
+      upgradeMessage: featureCheck.upgradeMessage,
+    });
+  } catch (error) {
+    console.error('Webhook endpoints fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/settings/webhooks
+ *
+ * Register an endpoint. The response is the only time the signing secret is
+ * shown, apart from rotating it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let payload: ReturnType<typeof verifyToken>;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (payload.role !== 'owner') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = createSchema.parse(await request.json());
+    const sql = getDbClient();
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, data.businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const featureCheck = await checkFeatureAccess(data.businessId, 'webhooks');
+    if (!featureCheck.hasAccess) {
+      return NextResponse.json({
+        error: 'Feature not available',
+        message: featureCheck.upgradeMessage,
+        currentTier: featureCheck.currentTier,
+        suggestedTier: featureCheck.suggestedTier,
+        upgradeRequired: true,
+      }, { status: 403 });
+    }
+
+    const webhookService = new WebhookService(sql);
+    const existing = await webhookService.listEndpoints(data.businessId);
+
+    if (existing.length >= MAX_ENDPOINTS_PER_BUSINESS) {
+      return NextResponse.json(
+        { error: `A business can have at most ${MAX_ENDPOINTS_PER_BUSINESS} webhook endpoints` },
+        { status: 400 }
+      );
+    }
+
+    const endpoint = await webhookService.createEndpoint({
+      businessId: data.businessId,
+      url: data.url,
+      description: data.description?.trim() || null,
+      events: data.events,
+    });
+
+    return NextResponse.json({ endpoint }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Webhook endpoint create error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * API endpoint for a single staff member
+ *
+ * PATCH: Update name, assigned services, weekly hours, or resend the invite
+ * DELETE: Remove the staff member
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyToken } from '@/lib/auth';
+import { getDbClient } from '@/db/client';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { StaffManager } from '@/lib/staff/staff-manager';
+import { WeeklyHoursSchema } from '@/lib/config/tenant-schema';
+import { createEmailService } from '@/lib/email/email-service';
+import { renderStaffInvitation, getEmailSubject } from '@/lib/email/templates';
+import { env } from '@/lib/env';
+
+const sql = getDbClient();
+
+const updateSchema = z.object({
+  name: z.string().min(1).max(120).optional(),
+  serviceIds: z.array(z.string().uuid()).optional(),
+  // null resets the staff member to business hours
+  weeklyHours: WeeklyHoursSchema.nullable().optional(),
+  resendInvite: z.boolean().optional(),
+});
+
+/**
+ * Authenticate the owner and resolve the staff member's business
+ * Returns either an error response or the business id the staff member belongs to
+ */
+async function authorizeStaffAccess(
+  request: NextRequest,
+  staffId: string
+): Promise<{ response: NextResponse } | { businessId: string; userId: string }> {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+
+  if (!token) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  let payload: ReturnType<typeof verifyToken>;
+
+  try {
+    payload = verifyToken(token);
+  } catch {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  if (payload.role !== 'owner') {
+    return { response: NextResponse.json({ error: 'Only business owners can manage staff' }, { status: 403 }) };
+  }
+
+  const [staff] = await sql`
+    SELECT business_id FROM staff_members
+    WHERE id = ${staffId}
+      AND deleted_at IS NULL
+  `;
+
+  if (!staff) {
+    return { response: NextResponse.json({ error: 'Staff member not found' }, { status: 404 }) };
+  }
+
+  const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, staff.business_id);
+  if (unauthorizedResponse) return { response: unauthorizedResponse };
+
+  return { businessId: staff.business_id as string, userId: payload.sub };
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  if (!z.string().uuid().safeParse(id).success) {
+    return NextResponse.json({ error: 'Staff member not found' }, { status: 404 });
+  }
+
+  try {
+    const auth = await authorizeStaffAccess(request, id);
+    if ('response' in auth) return auth.response;
+
+    const body = updateSchema.parse(await request.json());
+    const staffManager = new StaffManager(sql);
+
+    const staff = await staffManager.updateStaff(auth.businessId, id, {
+      name: body.name,
+      serviceIds: body.serviceIds,
+      weeklyHours: body.weeklyHours,
+    });
+
+    if (!staff) {
+      return NextResponse.json({ error: 'Staff member not found' }, { status: 404 });
+    }
+
+    let emailSent: boolean | undefined;
+
+    if (body.resendInvite) {
+      const inviteToken = await staffManager.regenerateInvite(auth.businessId, id);
+
+      if (!inviteToken) {
+        return NextResponse.json(
+          { error: 'This staff member has already accepted their invitation' },
+          { status: 409 }
+        );
+      }
+
+      const [context] = await sql`
+        SELECT b.name as business_name, u.name as inviter_name
+        FROM businesses b
+        LEFT JOIN users u ON u.id = ${auth.userId}
+        WHERE b.id = ${auth.businessId}
+      `;
+
+      const emailHtml = await renderStaffInvitation({
+        staffName: staff.name,
+        businessName: context.business_name,
+        inviterName: context.inviter_name || undefined,
+        acceptUrl: `${env.NEXT_PUBLIC_APP_URL}/auth/accept-invite?token=${inviteToken}`,
+        expiryDays: 7,
+      });
+
+      const emailResult = await createEmailService(sql).sendEmail({
+        to: staff.email,
+        subject: getEmailSubject('staff_invitation', context.business_name),
+        html: emailHtml,
+        templateName: 'staff_invitation',
+      });
+
+      emailSent = emailResult.success;
+    }
+
+    return NextResponse.json({ staff, emailSent });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update staff error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  if (!z.string().uuid().safeParse(id).success) {
+    return NextResponse.json({ error: 'Staff member not found' }, { status: 404 });
+  }
+
+  try {
+    const auth = await authorizeStaffAccess(request, id);
+    if ('response' in auth) return auth.response;
+
+    const removed = await new StaffManager(sql).removeStaff(auth.businessId, id);
+
+    if (!removed) {
+      return NextResponse.json({ error: 'Staff member not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove staff error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * API endpoint for managing staff members
+ *
+ * GET: List staff members (with assigned services and weekly hours)
+ * POST: Invite a new staff member by email
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyToken } from '@/lib/auth';
+import { getDbClient } from '@/db/client';
+import { requireBusinessOwnership } from '@/lib/auth/verify-ownership';
+import { canAddStaff } from '@/lib/subscription/feature-gates';
+import { StaffManager } from '@/lib/staff/staff-manager';
+import { WeeklyHoursSchema } from '@/lib/config/tenant-schema';
+import { createEmailService } from '@/lib/email/email-service';
+import { renderStaffInvitation, getEmailSubject } from '@/lib/email/templates';
+import { env } from '@/lib/env';
+
+const sql = getDbClient();
+
+const inviteSchema = z.object({
+  businessId: z.string().uuid().optional(),
+  name: z.string().min(1).max(120),
+  email: z.string().email(),
+  serviceIds: z.array(z.string().uuid()).optional(),
+  weeklyHours: WeeklyHoursSchema.nullable().optional(),
+});
+
+function authenticate(request: NextRequest) {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+  if (!token) return null;
+
+  try {
+    return verifyToken(token);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/staff
+ * Query params:
+ *   - businessId: optional, defaults to the owner's primary business
+ */
+export async function GET(request: NextRequest) {
+  const payload = authenticate(request);
+  if (!payload) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (payload.role !== 'owner' || !payload.business_id) {
+    return NextResponse.json({ error: 'Only business owners can manage staff' }, { status: 403 });
+  }
+
+  try {
+    const businessId = request.nextUrl.searchParams.get('businessId') || payload.business_id;
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const staff = await new StaffManager(sql).listStaff(businessId);
+    const seats = await canAddStaff(businessId);
+
+    return NextResponse.json({
+      staff,
+      limits: {
+        currentCount: seats.currentCount,
+        maxAllowed: seats.maxAllowed,
+        canInvite: seats.allowed,
+      },
+    });
+  } catch (error) {
+    console.error('List staff error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/staff
+ * Invite a staff member. Counts against the plan's maxStaff limit while pending.
+ */
+export async function POST(request: NextRequest) {
+  const payload = authenticate(request);
+  if (!payload) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (payload.role !== 'owner' || !payload.business_id) {
+    return NextResponse.json({ error: 'Only business owners can manage staff' }, { status: 403 });
+  }
+
+  try {
+    const body = inviteSchema.parse(await request.json());
+    const businessId = body.businessId || payload.business_id;
+
+    const unauthorizedResponse = await requireBusinessOwnership(sql, payload.sub, businessId);
+    if (unauthorizedResponse) return unauthorizedResponse;
+
+    const seats = await canAddStaff(businessId);
+    if (!seats.allowed) {
+      return NextResponse.json(
+        {
+          error: seats.reason,
+          currentCount: seats.currentCount,
+          maxAllowed: seats.maxAllowed,
+          upgradeRequired: true,
+        },
+        { status: 403 }
+      );
+    }
+
+    const staffManager = new StaffManager(sql);
+
+    const existing = await staffManager.findByEmail(businessId, body.email);
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A staff member with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    const { staff, inviteToken } = await staffManager.inviteStaff({
+      businessId,
+      name: body.name,
+      email: body.email,
+      invitedBy: payload.sub,
+      serviceIds: body.serviceIds,
+      weeklyHours: body.weeklyHours ?? null,
+    });
+
+    const [context] = await sql`
+      SELECT b.name as business_name, u.name as inviter_name
+      FROM businesses b
+      LEFT JOIN users u ON u.id = ${payload.sub}
+      WHERE b.id = ${businessId}
+    `;
+
+    const acceptUrl = `${env.NEXT_PUBLIC_APP_URL}/auth/accept-invite?token=${inviteToken}`;
+    const emailHtml = await renderStaffInvitation({
+      staffName: staff.name,
+      businessName: context.business_name,
+      inviterName: context.inviter_name || undefined,
+      acceptUrl,
+      expiryDays: 7,
+    });
+
+    const emailResult = await createEmailService(sql).sendEmail({
+      to: staff.email,
+      subject: getEmailSubject('staff_invitation', context.business_name),
+      html: emailHtml,
+      templateName: 'staff_invitation',
+    });
+
+    if (!emailResult.success) {
+      // The invite still exists - the owner can resend it from the staff list
+      console.error('Failed to send staff invitation email:', emailResult.error);
+    }
+
+    return NextResponse.json(
+      {
+        staff: {
+          id: staff.id,
+          name: staff.name,
+          email: staff.email,
+          status: staff.status,
+        },
+        emailSent: emailResult.success,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Invite staff error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
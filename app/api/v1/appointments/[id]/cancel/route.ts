@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { apiError, apiJson, authenticateApiRequest, cancelApiAppointment } from '@/lib/public-api';
+import { z } from 'zod';
+
+/**
+ * POST /api/v1/appointments/[id]/cancel
+ *
+ * Cancel an appointment on behalf of the business (scope: write). The
+ * customer is notified and a paid deposit is refunded in full, as when the
+ * owner cancels from the dashboard. Canceling twice is a no-op.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  const auth = await authenticateApiRequest(request, 'write');
+  if (!auth.success) return auth.response;
+
+  if (!z.string().uuid().safeParse(id).success) {
+    return apiError(404, 'NOT_FOUND', 'Appointment not found');
+  }
+
+  try {
+    const appointment = await cancelApiAppointment(
+      getDbClient(),
+      auth.context.businessId,
+      id,
+      auth.context.actorId
+    );
+
+    if (!appointment) {
+      return apiError(404, 'NOT_FOUND', 'Appointment not found');
+    }
+
+    return apiJson(auth.context, { data: appointment });
+  } catch (error) {
+    console.error('API v1 cancel appointment error:', error);
+    return apiError(500, 'INTERNAL_ERROR', 'Internal server error');
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { apiError, apiJson, authenticateApiRequest, getApiAppointment } from '@/lib/public-api';
+import { z } from 'zod';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/appointments/[id]
+ *
+ * A single appointment of the API key's business (scope: read)
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  const auth = await authenticateApiRequest(request, 'read');
+  if (!auth.success) return auth.response;
+
+  if (!z.string().uuid().safeParse(id).success) {
+    return apiError(404, 'NOT_FOUND', 'Appointment not found');
+  }
+
+  try {
+    const appointment = await getApiAppointment(getDbClient(), auth.context.businessId, id);
+
+    if (!appointment) {
+      return apiError(404, 'NOT_FOUND', 'Appointment not found');
+    }
+
+    return apiJson(auth.context, { data: appointment });
+  } catch (error) {
+    console.error('API v1 get appointment error:', error);
+    return apiError(500, 'INTERNAL_ERROR', 'Internal server error');
+  }
+}
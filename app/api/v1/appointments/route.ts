@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server';
+import { getDbClient } from '@/db/client';
+import {
+  apiError,
+  apiJson,
+  authenticateApiRequest,
+  createApiAppointment,
+  createAppointmentSchema,
+  listApiAppointments,
+  listAppointmentsQuerySchema,
+} from '@/lib/public-api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/appointments
+ *
+ * Appointments of the API key's business, oldest slot first (scope: read)
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateApiRequest(request, 'read');
+  if (!auth.success) return auth.response;
+
+  const validation = listAppointmentsQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  if (!validation.success) {
+    return apiError(400, 'VALIDATION_FAILED', 'Invalid parameters', validation.error.flatten().fieldErrors);
+  }
+
+  try {
+    const { limit, offset } = validation.data;
+    const { appointments, hasMore } = await listApiAppointments(
+      getDbClient(),
+      auth.context.businessId,
+      validation.data
+    );
+
+    return apiJson(auth.context, { data: appointments, pagination: { limit, offset, hasMore } });
+  } catch (error) {
+    console.error('API v1 list appointments error:', error);
+    return apiError(500, 'INTERNAL_ERROR', 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/v1/appointments
+ *
+ * Book a guest appointment (scope: write). Responds 201 for a new booking and
+ * 200 when the idempotency key was already used.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateApiRequest(request, 'write');
+  if (!auth.success) return auth.response;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return apiError(400, 'VALIDATION_FAILED', 'Request body must be JSON');
+  }
+
+  const validation = createAppointmentSchema.safeParse(body);
+
+  if (!validation.success) {
+    return apiError(400, 'VALIDATION_FAILED', 'Invalid request data', validation.error.flatten().fieldErrors);
+  }
+
+  try {
+    const result = await createApiAppointment(getDbClient(), auth.context.businessId, validation.data);
+
+    if (!result.success) {
+      return apiError(result.status, result.code, result.error, result.details);
+    }
+
+    return apiJson(auth.context, { data: result.appointment }, result.created ? 201 : 200);
+  } catch (error) {
+    console.error('API v1 create appointment error:', error);
+    return apiError(500, 'INTERNAL_ERROR', 'Internal server error');
+  }
+}
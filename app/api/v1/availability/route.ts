@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import {
+  apiError,
+  apiJson,
+  authenticateApiRequest,
+  availabilityQuerySchema,
+  getApiAvailability,
+} from '@/lib/public-api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/availability
+ *
+ * Time slots of a service (scope: read)
+ *
+ * Query params:
+ * - serviceId: Service id or externalId
+ * - startDate: Start date (YYYY-MM-DD, business timezone)
+ * - endDate: End date (YYYY-MM-DD) - optional, defaults to startDate
+ * - staffId: Only return availability for this staff member - optional
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateApiRequest(request, 'read');
+  if (!auth.success) return auth.response;
+
+  const validation = availabilityQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  if (!validation.success) {
+    return apiError(400, 'VALIDATION_FAILED', 'Invalid parameters', validation.error.flatten().fieldErrors);
+  }
+
+  try {
+    const configResult = await loadConfigByBusinessId(auth.context.businessId);
+    if (!configResult.success || !configResult.config) {
+      return apiError(500, 'INTERNAL_ERROR', 'Failed to load business configuration');
+    }
+
+    const config = configResult.config;
+    const result = await getApiAvailability(getDbClient(), auth.context.businessId, config, validation.data);
+
+    if (!result.success) {
+      return apiError(result.status, result.status === 404 ? 'NOT_FOUND' : 'VALIDATION_FAILED', result.error);
+    }
+
+    return apiJson(auth.context, { data: result.slots, timezone: config.business.timezone });
+  } catch (error) {
+    console.error('API v1 availability error:', error);
+    return apiError(500, 'INTERNAL_ERROR', 'Internal server error');
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { getDbClient } from '@/db/client';
+import {
+  apiError,
+  apiJson,
+  authenticateApiRequest,
+  listApiCustomers,
+  listCustomersQuerySchema,
+} from '@/lib/public-api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/customers
+ *
+ * Customers who booked with the API key's business, most recent first (scope: read)
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateApiRequest(request, 'read');
+  if (!auth.success) return auth.response;
+
+  const validation = listCustomersQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  if (!validation.success) {
+    return apiError(400, 'VALIDATION_FAILED', 'Invalid parameters', validation.error.flatten().fieldErrors);
+  }
+
+  try {
+    const { limit, offset } = validation.data;
+    const { customers, hasMore } = await listApiCustomers(getDbClient(), auth.context.businessId, validation.data);
+
+    return apiJson(auth.context, { data: customers, pagination: { limit, offset, hasMore } });
+  } catch (error) {
+    console.error('API v1 list customers error:', error);
+    return apiError(500, 'INTERNAL_ERROR', 'Internal server error');
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { env } from '@/lib/env';
+import { buildOpenApiDocument } from '@/lib/public-api';
+
+/**
+ * GET /api/v1/openapi.json
+ *
+ * OpenAPI document of the public REST API (no authentication)
+ */
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument(env.NEXT_PUBLIC_APP_URL), {
+    headers: {
+      'Cache-Control': 'public, max-age=3600',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { apiError, apiJson, authenticateApiRequest, listApiServices } from '@/lib/public-api';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/services
+ *
+ * Bookable services of the API key's business (scope: read)
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authenticateApiRequest(request, 'read');
+  if (!auth.success) return auth.response;
+
+  try {
+    const configResult = await loadConfigByBusinessId(auth.context.businessId);
+    if (!configResult.success || !configResult.config) {
+      return apiError(500, 'INTERNAL_ERROR', 'Failed to load business configuration');
+    }
+
+    const services = await listApiServices(getDbClient(), auth.context.businessId, configResult.config);
+
+    return apiJson(auth.context, { data: services });
+  } catch (error) {
+    console.error('API v1 list services error:', error);
+    return apiError(500, 'INTERNAL_ERROR', 'Internal server error');
+  }
+}
@@ -21,6 +21,7 @@ interface RescheduleModalProps {
   currentStartTime: string;
   currentEndTime: string;
   duration: number;
+  groupServiceIds?: string[]; // Services of a multi-service booking, moved together
   onClose: () => void;
   onSuccess: () => void;
 }
@@ -35,6 +36,7 @@ export default function RescheduleModal({
   currentStartTime,
   currentEndTime,
   duration,
+  groupServiceIds,
   onClose,
   onSuccess,
 }: RescheduleModalProps) {
@@ -70,8 +72,11 @@ export default function RescheduleModal({
         throw new Error('Service information is missing. Please try booking again or contact support.');
       }
 
+      // A multi-service booking needs start times where every service still fits
       const response = await fetch(
-        `/api/booking/slots?subdomain=${subdomain}&serviceId=${serviceId}&startDate=${selectedDate}&endDate=${selectedDate}`
+        groupServiceIds && groupServiceIds.length > 1
+          ? `/api/booking/group/slots?subdomain=${subdomain}&serviceIds=${groupServiceIds.join(',')}&startDate=${selectedDate}&endDate=${selectedDate}`
+          : `/api/booking/slots?subdomain=${subdomain}&serviceId=${serviceId}&startDate=${selectedDate}&endDate=${selectedDate}`
       );
 
       const data = await response.json();
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import RescheduleModal from './components/RescheduleModal';
+import { downloadAppointmentIcs } from '@/lib/calendar/download';
 
 // Force dynamic rendering to avoid prerendering errors with useAuth
 export const dynamic = 'force-dynamic';
@@ -16,6 +17,7 @@ interface Appointment {
   bookingId: string;
   businessName: string;
   subdomain: string;
+  timezone: string;
   serviceName: string;
   serviceId?: string;
   categoryName: string;
@@ -24,7 +26,9 @@ interface Appointment {
   duration: number;
   price: number;
   status: AppointmentStatus;
+  version?: number;
   serviceColor: string;
+  group?: { serviceIds: string[]; startTime: string; endTime: string } | null;
 }
 
 type FilterTab = 'all' | 'upcoming' | 'past' | 'canceled';
@@ -39,6 +43,7 @@ interface RescheduleState {
   currentStartTime: string;
   currentEndTime: string;
   duration: number;
+  groupServiceIds?: string[];
 }
 
 function CustomerDashboardContent() {
@@ -228,9 +233,13 @@ function CustomerDashboardContent() {
       subdomain: appointment.subdomain,
       serviceName: appointment.serviceName,
       serviceId,
-      currentStartTime: appointment.startTime,
-      currentEndTime: appointment.endTime,
-      duration: appointment.duration,
+      // A multi-service booking moves as a whole, from the start of its first service
+      currentStartTime: appointment.group?.startTime ?? appointment.startTime,
+      currentEndTime: appointment.group?.endTime ?? appointment.endTime,
+      duration: appointment.group
+        ? Math.round((new Date(appointment.group.endTime).getTime() - new Date(appointment.group.startTime).getTime()) / 60000)
+        : appointment.duration,
+      groupServiceIds: appointment.group?.serviceIds,
     });
   }
 
@@ -424,6 +433,21 @@ function CustomerDashboardContent() {
                         >
                           Reschedule
                         </button>
+                        <button
+                          onClick={() => downloadAppointmentIcs({
+                            id: appointment.id,
+                            bookingId: appointment.bookingId,
+                            serviceName: appointment.serviceName,
+                            businessName: appointment.businessName,
+                            start: appointment.startTime,
+                            end: appointment.endTime,
+                            status: appointment.status,
+                            version: appointment.version,
+                          }, appointment.timezone)}
+                          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm font-medium"
+                        >
+                          Add to Calendar
+                        </button>
                       </>
                     )}
                     <Link
@@ -452,6 +476,7 @@ function CustomerDashboardContent() {
           currentStartTime={reschedulingAppointment.currentStartTime}
           currentEndTime={reschedulingAppointment.currentEndTime}
           duration={reschedulingAppointment.duration}
+          groupServiceIds={reschedulingAppointment.groupServiceIds}
           onClose={() => setReschedulingAppointment(null)}
           onSuccess={() => {
             fetchAppointments();
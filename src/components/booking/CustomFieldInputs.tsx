@@ -0,0 +1,103 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import type { CustomFieldDefinition } from '@/lib/booking/custom-fields';
+
+interface CustomFieldInputsProps {
+  fields: CustomFieldDefinition[];
+  values: Record<string, string | boolean>;
+  onChange: (values: Record<string, string | boolean>) => void;
+}
+
+/**
+ * Inputs for the business's custom booking questions (bookingRequirements.customFields)
+ * Answers are keyed by field id, as /api/booking/commit expects them.
+ */
+export function CustomFieldInputs({ fields, values, onChange }: CustomFieldInputsProps) {
+  const t = useTranslations('booking.details');
+
+  return (
+    <>
+      {fields.map((field) => (
+        <div key={field.id}>
+          {field.type === 'checkbox' ? (
+            <label htmlFor={`custom-${field.id}`} className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                id={`custom-${field.id}`}
+                checked={values[field.id] === true}
+                onChange={(e) => onChange({ ...values, [field.id]: e.target.checked })}
+                className="w-5 h-5 mt-0.5 border-gray-300 rounded"
+              />
+              <span className="text-sm font-semibold text-gray-900">
+                {field.label} {field.required && <span className="text-red-500">*</span>}
+              </span>
+            </label>
+          ) : (
+            <label htmlFor={`custom-${field.id}`} className="block text-sm font-semibold text-gray-900 mb-2.5">
+              {field.label} {field.required && <span className="text-red-500">*</span>}
+            </label>
+          )}
+          {field.type === 'textarea' ? (
+            <textarea
+              id={`custom-${field.id}`}
+              value={(values[field.id] as string) || ''}
+              onChange={(e) => onChange({ ...values, [field.id]: e.target.value })}
+              rows={4}
+              maxLength={field.maxLength}
+              placeholder={field.placeholder}
+              className="w-full px-4 py-3.5 bg-white border border-gray-200/60 rounded-xl focus:outline-none  transition-all resize-none text-gray-900 placeholder:text-gray-400 text-sm"
+            />
+          ) : field.type === 'select' ? (
+            <div className="relative">
+              <select
+                id={`custom-${field.id}`}
+                value={(values[field.id] as string) || ''}
+                onChange={(e) => onChange({ ...values, [field.id]: e.target.value })}
+                className="w-full px-4 py-3.5 bg-white border border-gray-200/60 rounded-xl focus:outline-none  transition-all text-gray-900 appearance-none cursor-pointer text-sm"
+              >
+                <option value="" className="text-gray-400">{t('selectOption')}</option>
+                {field.options?.map((option) => (
+                  <option key={option} value={option} className="text-gray-900">
+                    {option}
+                  </option>
+                ))}
+              </select>
+              <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none">
+                <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </div>
+            </div>
+          ) : field.type === 'radio' ? (
+            <div className="space-y-2">
+              {field.options?.map((option) => (
+                <label key={option} className="flex items-center gap-3 text-sm text-gray-900 cursor-pointer">
+                  <input
+                    type="radio"
+                    name={`custom-${field.id}`}
+                    value={option}
+                    checked={values[field.id] === option}
+                    onChange={() => onChange({ ...values, [field.id]: option })}
+                    className="w-4 h-4 border-gray-300"
+                  />
+                  {option}
+                </label>
+              ))}
+            </div>
+          ) : field.type === 'text' ? (
+            <input
+              type="text"
+              id={`custom-${field.id}`}
+              value={(values[field.id] as string) || ''}
+              onChange={(e) => onChange({ ...values, [field.id]: e.target.value })}
+              maxLength={field.maxLength}
+              placeholder={field.placeholder}
+              className="w-full px-4 py-3.5 bg-white border border-gray-200/60 rounded-xl focus:outline-none  transition-all text-gray-900 placeholder:text-gray-400 text-sm"
+            />
+          ) : null}
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,381 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslations } from 'next-intl';
+
+type ApiKeyScope = 'read' | 'write';
+
+interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  rate_limit_per_minute: number;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+interface ApiKeySettingsProps {
+  businessId: string;
+  accessToken: string | null;
+}
+
+/**
+ * API keys of a business for the public REST API: create, rotate and revoke
+ * keys, and switch API access on or off. Used in the Integrations category of
+ * the settings page.
+ */
+export function ApiKeySettings({ businessId, accessToken }: ApiKeySettingsProps) {
+  const t = useTranslations('dashboard.settings.apiKeys');
+
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [apiAccessEnabled, setApiAccessEnabled] = useState(false);
+  const [hasAccess, setHasAccess] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Shown once after creating or rotating a key
+  const [revealedKey, setRevealedKey] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [formName, setFormName] = useState('');
+  const [formWrite, setFormWrite] = useState(false);
+  const [formRateLimit, setFormRateLimit] = useState(60);
+  const [saving, setSaving] = useState(false);
+
+  const authHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${accessToken}`,
+  }), [accessToken]);
+
+  const fetchKeys = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/settings/api-keys?businessId=${businessId}`, {
+        headers: authHeaders(),
+      });
+
+      if (!res.ok) {
+        throw new Error(t('loadFailed'));
+      }
+
+      const data = await res.json();
+      setKeys(data.keys || []);
+      setApiAccessEnabled(data.apiAccessEnabled === true);
+      setHasAccess(data.hasAccess !== false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, authHeaders, t]);
+
+  useEffect(() => {
+    if (businessId && accessToken) {
+      fetchKeys();
+    }
+  }, [businessId, accessToken, fetchKeys]);
+
+  function resetForm() {
+    setShowForm(false);
+    setFormName('');
+    setFormWrite(false);
+    setFormRateLimit(60);
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+
+    try {
+      const res = await fetch('/api/settings/api-keys', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          businessId,
+          name: formName.trim(),
+          scopes: formWrite ? ['read', 'write'] : ['read'],
+          rateLimitPerMinute: formRateLimit,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.message || data.details?.[0]?.message || data.error || t('saveFailed'));
+      }
+
+      setRevealedKey(data.key);
+      resetForm();
+      await fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggleAccess() {
+    setError(null);
+
+    try {
+      const res = await fetch('/api/settings/api-keys', {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify({ businessId, enabled: !apiAccessEnabled }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || t('saveFailed'));
+      }
+
+      setApiAccessEnabled(data.apiAccessEnabled);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    }
+  }
+
+  async function handleRotate(keyId: string) {
+    if (!confirm(t('rotateConfirm'))) return;
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/settings/api-keys/${keyId}`, {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify({ rotate: true }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || t('saveFailed'));
+      }
+
+      if (data.key) {
+        setRevealedKey(data.key);
+      }
+
+      await fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    }
+  }
+
+  async function handleRevoke(keyId: string) {
+    if (!confirm(t('revokeConfirm'))) return;
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/settings/api-keys/${keyId}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || t('saveFailed'));
+      }
+
+      await fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    }
+  }
+
+  function formatDateTime(value: string) {
+    return new Date(value).toLocaleString(undefined, {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  if (!hasAccess) {
+    return (
+      <div className="text-center py-16 px-6 bg-gray-50/50 rounded-2xl border border-gray-100">
+        <h4 className="text-sm font-semibold text-gray-900 mb-1.5">{t('upgradeTitle')}</h4>
+        <p className="text-sm text-gray-500">{t('upgradeDescription')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <label className="flex items-center gap-3 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={apiAccessEnabled}
+            onChange={handleToggleAccess}
+            className="w-4 h-4 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+          />
+          <span>
+            <span className="font-semibold text-gray-900">{t('accessEnabled')}</span>
+            <span className="block text-gray-500">
+              {t('accessHint')}{' '}
+              <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="text-teal-700 hover:underline">
+                {t('openApiLink')}
+              </a>
+            </span>
+          </span>
+        </label>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="whitespace-nowrap px-5 py-2.5 bg-gradient-to-r from-teal-600 to-green-600 text-white rounded-xl font-semibold hover:shadow-lg hover:scale-[1.02] transition-all text-sm"
+          >
+            {t('addButton')}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50/50 border border-red-200/60 rounded-xl">
+          <p className="text-sm text-red-900">{error}</p>
+        </div>
+      )}
+
+      {revealedKey && (
+        <div className="mb-6 p-4 bg-amber-50/60 border border-amber-200/60 rounded-xl">
+          <p className="text-sm font-semibold text-amber-900 mb-1">{t('keyTitle')}</p>
+          <p className="text-sm text-amber-800 mb-3">{t('keyHint')}</p>
+          <div className="flex items-center gap-3">
+            <code className="flex-1 min-w-0 px-3 py-2 bg-white border border-amber-200 rounded-lg text-xs text-gray-900 break-all">
+              {revealedKey}
+            </code>
+            <button
+              onClick={() => setRevealedKey(null)}
+              className="px-4 py-2 text-sm font-medium text-amber-900 hover:bg-amber-100 rounded-lg transition-all"
+            >
+              {t('dismiss')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mb-8 p-6 bg-gray-50/50 border border-gray-100 rounded-2xl space-y-5">
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-3">{t('name')}</label>
+            <input
+              type="text"
+              value={formName}
+              onChange={(e) => setFormName(e.target.value)}
+              placeholder={t('namePlaceholder')}
+              maxLength={100}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-all bg-white text-gray-900 placeholder-gray-400"
+              required
+            />
+          </div>
+
+          <div>
+            <p className="block text-sm font-semibold text-gray-900 mb-3">{t('scopes')}</p>
+            <label className="flex items-center gap-3 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formWrite}
+                onChange={(e) => setFormWrite(e.target.checked)}
+                className="w-4 h-4 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+              />
+              {t('writeScope')}
+            </label>
+            <p className="text-xs text-gray-500 mt-2">{t('scopesHint')}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-3">{t('rateLimit')}</label>
+            <input
+              type="number"
+              min={1}
+              max={1000}
+              value={formRateLimit}
+              onChange={(e) => setFormRateLimit(parseInt(e.target.value) || 1)}
+              className="w-32 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-all bg-white text-gray-900"
+            />
+          </div>
+
+          <div className="flex gap-3 justify-end">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-5 py-2.5 text-sm font-semibold text-gray-700 hover:bg-gray-100 rounded-xl transition-all"
+            >
+              {t('cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !formName.trim()}
+              className="px-5 py-2.5 bg-gradient-to-r from-teal-600 to-green-600 text-white rounded-xl font-semibold hover:shadow-lg transition-all text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? t('saving') : t('save')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading && keys.length === 0 ? (
+        <div className="text-center py-16 bg-gray-50/50 rounded-2xl border border-gray-100">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-2 border-gray-200 border-t-teal-600"></div>
+        </div>
+      ) : keys.length === 0 ? (
+        <div className="text-center py-16 px-6 bg-gray-50/50 rounded-2xl border border-gray-100">
+          <h4 className="text-sm font-semibold text-gray-900 mb-1.5">{t('noKeys')}</h4>
+          <p className="text-sm text-gray-500">{t('noKeysDescription')}</p>
+        </div>
+      ) : (
+        <div className="border border-gray-100 rounded-2xl overflow-hidden divide-y divide-gray-100">
+          {keys.map((apiKey) => (
+            <div key={apiKey.id} className={`p-6 ${apiKey.revoked_at ? 'opacity-60' : ''}`}>
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`px-2 py-0.5 rounded-md text-xs font-semibold ${apiKey.revoked_at ? 'bg-gray-100 text-gray-600' : 'bg-green-100 text-green-700'}`}>
+                      {apiKey.revoked_at ? t('revoked') : t('active')}
+                    </span>
+                    <p className="font-semibold text-gray-900 truncate">{apiKey.name}</p>
+                  </div>
+                  <p className="text-sm text-gray-600 mb-2">
+                    <code className="text-xs">{apiKey.key_prefix}…</code>
+                    {' · '}
+                    {apiKey.scopes.includes('write') ? t('readWrite') : t('readOnly')}
+                    {' · '}
+                    {t('perMinute', { count: apiKey.rate_limit_per_minute })}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {apiKey.last_used_at
+                      ? t('lastUsed', { date: formatDateTime(apiKey.last_used_at) })
+                      : t('neverUsed')}
+                  </p>
+                </div>
+                {!apiKey.revoked_at && (
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => handleRotate(apiKey.id)}
+                      className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-all"
+                    >
+                      {t('rotate')}
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(apiKey.id)}
+                      className="px-3 py-1.5 text-sm font-medium text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-all"
+                    >
+                      {t('revoke')}
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import { categorizeError, shouldShowToast, getToastVariant } from '@/lib/errors/
 import { useToast } from '@/hooks/useToast';
 import { ToastContainer } from '@/components/ui/ToastContainer';
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { CustomFieldAnswers } from './CustomFieldAnswers';
 
 interface Service {
   id: string;
@@ -20,6 +21,14 @@ interface Service {
   category_name: string;
 }
 
+interface NoShowSummary {
+  noShows: number;
+  windowDays: number;
+  resetAt: string | null;
+  policy: { enabled: boolean; maxNoShows: number; action: 'block' | 'require_deposit' };
+  restriction: 'block' | 'require_deposit' | null;
+}
+
 interface AppointmentEditModalProps {
   appointment: Appointment;
   onClose: () => void;
@@ -32,6 +41,12 @@ export function AppointmentEditModal({ appointment, onClose, onSave }: Appointme
   const [loading, setLoading] = useState(false);
   const [services, setServices] = useState<Service[]>([]);
   const [notifyCustomer, setNotifyCustomer] = useState(true);
+  const [policyOverride, setPolicyOverride] = useState(appointment.policy_override ?? false);
+  const [noShowSummary, setNoShowSummary] = useState<NoShowSummary | null>(null);
+  const [resettingNoShows, setResettingNoShows] = useState(false);
+  // Which occurrences of a recurring series a reschedule or cancellation applies to
+  const [seriesScope, setSeriesScope] = useState<'this' | 'following' | 'all'>('this');
+  const seriesWide = Boolean(appointment.series_id) && seriesScope !== 'this';
 
   // Confirmation dialogs
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
@@ -47,6 +62,7 @@ export function AppointmentEditModal({ appointment, onClose, onSave }: Appointme
   const [customerEmail, setCustomerEmail] = useState('');
   const [customerPhone, setCustomerPhone] = useState('');
   const [notes, setNotes] = useState('');
+  const [internalNotes, setInternalNotes] = useState('');
   const [status, setStatus] = useState<string>('confirmed');
   const [currentWeekStart, setCurrentWeekStart] = useState<Date>(new Date());
   const [dateAvailability, setDateAvailability] = useState<Map<string, boolean>>(new Map());
@@ -70,9 +86,16 @@ export function AppointmentEditModal({ appointment, onClose, onSave }: Appointme
     setCustomerEmail(appointment.customer_email || appointment.guest_email || '');
     setCustomerPhone(appointment.customer_phone || appointment.guest_phone || '');
     setNotes(appointment.notes || '');
+    setInternalNotes(appointment.internal_notes || '');
     setStatus(appointment.status);
   }, [appointment]);
 
+  useEffect(() => {
+    apiRequest<NoShowSummary>(`/api/appointments/${appointment.id}/no-shows`)
+      .then(setNoShowSummary)
+      .catch(error => console.error('Failed to load no-shows:', error));
+  }, [appointment.id]);
+
   useEffect(() => {
     if (selectedServiceId && selectedDate) {
       loadAvailableSlots();
@@ -257,10 +280,46 @@ export function AppointmentEditModal({ appointment, onClose, onSave }: Appointme
     return date1.toDateString() === date2.toDateString();
   }
 
+  function notesChanged(): boolean {
+    return notes.trim() !== (appointment.notes || '') ||
+      internalNotes.trim() !== (appointment.internal_notes || '');
+  }
+
+  // Notes are saved separately from time/service changes, with the appointment version
+  async function saveNotes() {
+    await apiRequest(`/api/appointments/${appointment.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ notes, internalNotes, version: appointment.version ?? 1 }),
+    });
+  }
+
+  async function saveNotesOnly() {
+    setLoading(true);
+
+    try {
+      await saveNotes();
+      showToast(t('success.updated'), 'success');
+      onSave();
+    } catch (error) {
+      console.error('Failed to update appointment notes:', error);
+
+      const errorDetails = categorizeError(error);
+      if (shouldShowToast(errorDetails.type)) {
+        showToast(errorDetails.message || t('errors.updateFailed'), getToastVariant(errorDetails.type), 6000);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
 
     if (!selectedSlot || !selectedServiceId) {
+      if (notesChanged()) {
+        await saveNotesOnly();
+        return;
+      }
       showToast(t('validation.fillRequired'), 'warning');
       return;
     }
@@ -273,12 +332,22 @@ export function AppointmentEditModal({ appointment, onClose, onSave }: Appointme
     const serviceChanged = selectedServiceId !== appointment.service_id;
 
     if (!timeChanged && !serviceChanged) {
+      if (notesChanged()) {
+        await saveNotesOnly();
+        return;
+      }
+
       // No changes made
       showToast(t('validation.noChanges'), 'info');
       onSave();
       return;
     }
 
+    if (seriesWide && serviceChanged) {
+      showToast(t('series.serviceChangeSingle'), 'warning');
+      return;
+    }
+
     // Store save data and show confirmation
     setPendingSaveData({
       appointmentId: appointment.id,
@@ -298,6 +367,25 @@ export function AppointmentEditModal({ appointment, onClose, onSave }: Appointme
     setShowSaveConfirm(false);
 
     try {
+      if (notesChanged()) {
+        await saveNotes();
+      }
+
+      if (seriesWide) {
+        await apiRequest(`/api/appointments/series/${appointment.series_id}/reschedule`, {
+          method: 'POST',
+          body: JSON.stringify({
+            appointment_id: appointment.id,
+            scope: seriesScope,
+            new_start_time: pendingSaveData.newStartTime,
+          }),
+        });
+
+        showToast(t('series.updated'), 'success');
+        onSave();
+        return;
+      }
+
       const response = await apiRequest<{ success: boolean; appointment?: Appointment }>('/api/appointments/reschedule', {
         method: 'POST',
         body: JSON.stringify(pendingSaveData),
@@ -308,6 +396,14 @@ export function AppointmentEditModal({ appointment, onClose, onSave }: Appointme
     } catch (error) {
       console.error('Failed to update appointment:', error);
 
+      // Nothing was moved - tell the owner how many dates are in the way
+      const seriesError = error as { code?: string; details?: { occurrences?: { available: boolean }[] } };
+      if (seriesError?.code === 'SERIES_CONFLICT') {
+        const conflicts = (seriesError.details?.occurrences ?? []).filter(o => !o.available);
+        showToast(t('series.conflicts', { count: conflicts.length }), 'warning', 6000);
+        return;
+      }
+
       // UX-002: Categorize error and handle appropriately
       const errorDetails = categorizeError(error);
       if (shouldShowToast(errorDetails.type)) {
@@ -327,6 +423,39 @@ export function AppointmentEditModal({ appointment, onClose, onSave }: Appointme
     }
   }
 
+  async function resetNoShows() {
+    setResettingNoShows(true);
+
+    try {
+      const { resetAt } = await apiRequest<{ resetAt: string }>(`/api/appointments/${appointment.id}/no-shows`, {
+        method: 'DELETE',
+      });
+      setNoShowSummary(prev => prev && { ...prev, noShows: 0, restriction: null, resetAt });
+      showToast(t('noShows.resetDone'), 'success');
+    } catch (error) {
+      console.error('Failed to reset no-shows:', error);
+      showToast(t('noShows.resetFailed'), 'error');
+    } finally {
+      setResettingNoShows(false);
+    }
+  }
+
+  async function togglePolicyOverride(enabled: boolean) {
+    setPolicyOverride(enabled);
+
+    try {
+      await apiRequest(`/api/appointments/${appointment.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ policyOverride: enabled }),
+      });
+      showToast(t('policyOverride.updated'), 'success');
+    } catch (error) {
+      console.error('Failed to update policy override:', error);
+      setPolicyOverride(!enabled);
+      showToast(t('policyOverride.failed'), 'error');
+    }
+  }
+
   function handleDelete() {
     setShowCancelConfirm(true);
   }
@@ -336,6 +465,18 @@ export function AppointmentEditModal({ appointment, onClose, onSave }: Appointme
     setShowCancelConfirm(false);
 
     try {
+      if (seriesWide) {
+        await apiRequest(`/api/appointments/series/${appointment.series_id}/cancel`, {
+          method: 'POST',
+          body: JSON.stringify({ appointment_id: appointment.id, scope: seriesScope }),
+        });
+
+        showToast(t('series.cancelled'), 'success');
+        onClose();
+        onSave(undefined);
+        return;
+      }
+
       // Use PATCH to update status to 'cancelled' which also sets deleted_at
       // This is a soft delete that maintains data integrity and audit trail
       await apiRequest(`/api/appointments/${appointment.id}`, {
@@ -385,7 +526,7 @@ export function AppointmentEditModal({ appointment, onClose, onSave }: Appointme
         onClose={() => setShowCancelConfirm(false)}
         onConfirm={confirmCancel}
         title={t('confirmations.deleteTitle')}
-        message={t('confirmations.deleteMessage')}
+        message={seriesWide ? t('series.cancelMessage') : t('confirmations.deleteMessage')}
         confirmText={t('confirmations.deleteConfirm')}
         cancelText={t('confirmations.deleteCancel')}
         variant="danger"
@@ -427,6 +568,27 @@ export function AppointmentEditModal({ appointment, onClose, onSave }: Appointme
         {/* Form - Scrollable */}
         <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto px-8 py-6">
           <div className="space-y-8">
+            {/* Recurring series: choose what the changes apply to */}
+            {appointment.series_id && (
+              <div className="p-4 bg-teal-50/50 border border-teal-100 rounded-xl">
+                <p className="text-sm font-semibold text-gray-900 mb-3">{t('series.title')}</p>
+                <div className="flex flex-col sm:flex-row gap-2 sm:gap-4">
+                  {(['this', 'following', 'all'] as const).map(scope => (
+                    <label key={scope} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="series-scope"
+                        checked={seriesScope === scope}
+                        onChange={() => setSeriesScope(scope)}
+                        className="w-4 h-4 text-teal-600 border-gray-300 focus:ring-teal-500"
+                      />
+                      {t(`series.scope.${scope}`)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Date & Time Section */}
             <div className="space-y-4">
               <h3 className="text-sm font-bold text-gray-900 uppercase tracking-wider">{t('schedule.title')}</h3>
@@ -700,8 +862,81 @@ export function AppointmentEditModal({ appointment, onClose, onSave }: Appointme
                   rows={3}
                   className="w-full px-4 py-3 bg-white border border-gray-200 rounded-xl text-sm text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-all resize-none"
                   placeholder={t('customer.notesPlaceholder')}
+                  maxLength={1000}
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-900 mb-2">
+                  {t('customer.internalNotes')}
+                </label>
+                <textarea
+                  value={internalNotes}
+                  onChange={(e) => setInternalNotes(e.target.value)}
+                  rows={3}
+                  className="w-full px-4 py-3 bg-amber-50/50 border border-amber-200 rounded-xl text-sm text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-all resize-none"
+                  placeholder={t('customer.internalNotesPlaceholder')}
+                  maxLength={2000}
+                />
+                <p className="mt-1.5 text-xs text-gray-500">{t('customer.internalNotesHint')}</p>
+              </div>
+            </div>
+
+            {/* Booking Form Answers */}
+            {appointment.custom_field_answers && appointment.custom_field_answers.length > 0 && (
+              <div className="space-y-4">
+                <h3 className="text-sm font-bold text-gray-900 uppercase tracking-wider">{t('customFields.title')}</h3>
+                <div className="p-4 bg-gray-50 border border-gray-100 rounded-xl">
+                  <CustomFieldAnswers answers={appointment.custom_field_answers} />
+                </div>
+              </div>
+            )}
+
+            {/* Customer No-Shows */}
+            {noShowSummary && (noShowSummary.noShows > 0 || noShowSummary.restriction) && (
+              <div className="flex items-start justify-between gap-3 p-4 bg-gray-50 border border-gray-100 rounded-xl">
+                <div className="flex-1">
+                  <span className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+                    {t('noShows.count', { count: noShowSummary.noShows, days: noShowSummary.windowDays })}
+                    {noShowSummary.restriction && (
+                      <span className="px-2 py-0.5 bg-red-50 text-red-700 text-xs font-semibold rounded-full">
+                        {t(`noShows.restriction.${noShowSummary.restriction}`)}
+                      </span>
+                    )}
+                  </span>
+                  <span className="block text-xs text-gray-500 mt-0.5">
+                    {noShowSummary.policy.enabled
+                      ? t('noShows.policy', { limit: noShowSummary.policy.maxNoShows })
+                      : t('noShows.policyDisabled')}
+                  </span>
+                </div>
+                {noShowSummary.noShows > 0 && (
+                  <button
+                    type="button"
+                    onClick={resetNoShows}
+                    disabled={resettingNoShows}
+                    className="px-3 py-1.5 text-xs font-semibold text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 transition-all disabled:opacity-50"
+                  >
+                    {t('noShows.reset')}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Policy Override Toggle */}
+            <div className="flex items-start gap-3 p-4 bg-gray-50 border border-gray-100 rounded-xl">
+              <input
+                type="checkbox"
+                id="policyOverride"
+                checked={policyOverride}
+                onChange={(e) => togglePolicyOverride(e.target.checked)}
+                disabled={loading || status === 'canceled'}
+                className="w-5 h-5 mt-0.5 text-teal-600 border-gray-300 rounded focus:ring-teal-500"
+              />
+              <label htmlFor="policyOverride" className="flex-1">
+                <span className="block text-sm font-semibold text-gray-900">{t('policyOverride.label')}</span>
+                <span className="block text-xs text-gray-500 mt-0.5">{t('policyOverride.description')}</span>
+              </label>
             </div>
 
             {/* Notification Toggle */}
@@ -5,6 +5,7 @@ import { useTranslations, useLocale } from 'next-intl';
 import { CalendarView, generateMonthCalendar, generateTimeSlots, formatDate, formatTime, CalendarDay, TimeSlot, snapToGrain, getAppointmentDuration, isItalianHoliday, isClosingDay } from '@/lib/calendar-utils';
 import { Appointment } from '@/db/types';
 import { AppointmentCard } from './AppointmentCard';
+import { CustomFieldAnswers } from './CustomFieldAnswers';
 import { DragDropRescheduleModal } from './DragDropRescheduleModal';
 import { RescheduleAppointmentModal } from './RescheduleAppointmentModal';
 import { apiRequest } from '@/lib/auth/api-client';
@@ -36,6 +37,21 @@ interface EditReschedule {
   appointment: Appointment;
 }
 
+// Busy time imported from the owner's external calendars (summary is owner-only)
+interface ExternalBusyBlock {
+  start: string;
+  end: string;
+  summary: string | null;
+  calendar_name: string | null;
+}
+
+// Bookable resource (room, equipment) from the business config
+interface CalendarResource {
+  id: string;
+  name: string;
+  type: 'room' | 'equipment';
+}
+
 interface AppointmentCache {
   appointments: Appointment[];
   start: Date;
@@ -58,6 +74,9 @@ export function Calendar({ view, currentDate, onViewChange, onDateChange, busine
   const [highlightedAppointmentId, setHighlightedAppointmentId] = useState<string | null>(null);
   const [previousView, setPreviousView] = useState<CalendarView>(view);
   const [abortController, setAbortController] = useState<AbortController | null>(null);
+  const [busyTimes, setBusyTimes] = useState<ExternalBusyBlock[]>([]);
+  const [resources, setResources] = useState<CalendarResource[]>([]);
+  const [showResourceColumns, setShowResourceColumns] = useState(false);
   const { isAuthenticated, isLoading: authLoading } = useAuth();
 
   // Track view changes for transitions
@@ -162,6 +181,64 @@ export function Calendar({ view, currentDate, onViewChange, onDateChange, busine
     };
   }, [currentDate, view, isAuthenticated, authLoading, businessId]);
 
+  // External calendar busy time, shown on the day and week time grids
+  useEffect(() => {
+    if (authLoading || !isAuthenticated || (view !== 'day' && view !== 'week')) {
+      setBusyTimes([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const { start, end } = getDateRange(view, currentDate);
+    // The week grid starts on Monday, the fetch range on Sunday
+    if (view === 'week') {
+      end.setDate(end.getDate() + 1);
+    }
+
+    const params = new URLSearchParams({
+      start: start.toISOString(),
+      end: end.toISOString(),
+    });
+    if (businessId) {
+      params.append('businessId', businessId);
+    }
+
+    apiRequest<ExternalBusyBlock[]>(`/api/appointments/external-busy?${params.toString()}`, {
+      signal: controller.signal,
+    })
+      .then(setBusyTimes)
+      .catch((error) => {
+        if (error?.name !== 'AbortError') {
+          console.error('Failed to load external busy time:', error);
+        }
+      });
+
+    return () => controller.abort();
+  }, [currentDate, view, isAuthenticated, authLoading, businessId]);
+
+  // Bookable resources, for the resource columns of the day view
+  useEffect(() => {
+    if (authLoading || !isAuthenticated) {
+      setResources([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const params = businessId ? `?businessId=${businessId}` : '';
+
+    apiRequest<{ resources: CalendarResource[] }>(`/api/resources${params}`, {
+      signal: controller.signal,
+    })
+      .then((data) => setResources(data.resources || []))
+      .catch((error) => {
+        if (error?.name !== 'AbortError') {
+          setResources([]);
+        }
+      });
+
+    return () => controller.abort();
+  }, [isAuthenticated, authLoading, businessId]);
+
   // Update displayed appointments when cache or view changes (defensive filtering)
   useEffect(() => {
     if (appointmentCache) {
@@ -608,6 +685,8 @@ export function Calendar({ view, currentDate, onViewChange, onDateChange, busine
                 setDraggedAppointment={setDraggedAppointment}
                 onDateChange={onDateChange}
                 canceledLabel={canceledLabel}
+                busyTimes={busyTimes}
+                busyLabel={t('externalBusy')}
                 locale={locale}
               />
             </div>
@@ -653,6 +732,13 @@ export function Calendar({ view, currentDate, onViewChange, onDateChange, busine
             highlightedAppointmentId={highlightedAppointmentId}
             onDateChange={onDateChange}
             canceledLabel={canceledLabel}
+            busyTimes={busyTimes}
+            busyLabel={t('externalBusy')}
+            resources={resources}
+            showResourceColumns={showResourceColumns}
+            onShowResourceColumnsChange={setShowResourceColumns}
+            resourceToggleLabel={t('resourceView.toggle')}
+            unassignedResourceLabel={t('resourceView.unassigned')}
             locale={locale}
           />
         )}
@@ -968,6 +1054,8 @@ function WeekView({
   setDraggedAppointment,
   onDateChange,
   canceledLabel,
+  busyTimes,
+  busyLabel,
   locale,
 }: {
   currentDate: Date;
@@ -978,6 +1066,8 @@ function WeekView({
   setDraggedAppointment: (apt: Appointment | null) => void;
   onDateChange?: (date: Date) => void;
   canceledLabel: string;
+  busyTimes: ExternalBusyBlock[];
+  busyLabel: string;
   locale: string;
 }) {
   const weekStart = new Date(currentDate);
@@ -1189,6 +1279,20 @@ function WeekView({
             })}
           </div>
         ))}
+
+        {/* External calendar busy time, over the day columns */}
+        {weekDays.map((day, dayIdx) => (
+          <BusyTimeBlocks
+            key={`busy-${day.toDateString()}`}
+            day={day}
+            busyTimes={busyTimes}
+            startHour={START_HOUR}
+            endHour={END_HOUR}
+            left={`calc(64px + ${dayIdx} * (100% - 64px) / 7)`}
+            width="calc((100% - 64px) / 7)"
+            label={busyLabel}
+          />
+        ))}
         
         {/* Vertical current time indicator for today's column */}
         {showCurrentTimeIndicator && (
@@ -1517,6 +1621,13 @@ function DayView({
   highlightedAppointmentId,
   onDateChange,
   canceledLabel,
+  busyTimes,
+  busyLabel,
+  resources,
+  showResourceColumns,
+  onShowResourceColumnsChange,
+  resourceToggleLabel,
+  unassignedResourceLabel,
   locale,
 }: {
   currentDate: Date;
@@ -1528,6 +1639,13 @@ function DayView({
   highlightedAppointmentId?: string | null;
   onDateChange?: (date: Date) => void;
   canceledLabel: string;
+  busyTimes: ExternalBusyBlock[];
+  busyLabel: string;
+  resources: CalendarResource[];
+  showResourceColumns: boolean;
+  onShowResourceColumnsChange: (show: boolean) => void;
+  resourceToggleLabel: string;
+  unassignedResourceLabel: string;
   locale: string;
 }) {
   const START_HOUR = 6;
@@ -1601,6 +1719,26 @@ function DayView({
     });
   });
 
+  // Resource columns: one per resource with the appointments holding it (an
+  // appointment needing a room and equipment shows in both), then the rest
+  const resourceColumns = showResourceColumns && resources.length > 0
+    ? [
+        ...resources.map(resource => ({
+          key: resource.id,
+          name: resource.name,
+          appointments: allDayAppointments.filter(apt => apt.resource_ids?.includes(resource.id)),
+        })),
+        {
+          key: 'unassigned',
+          name: unassignedResourceLabel,
+          appointments: allDayAppointments.filter(apt => !apt.resource_ids?.length),
+        },
+      ]
+    : null;
+  const gridTemplateColumns = resourceColumns
+    ? `64px repeat(${resourceColumns.length}, minmax(160px, 1fr))`
+    : '64px 1fr';
+
   // Generate array of dates: 3 days before, current day, 3 days after
   const dateRange = Array.from({ length: 7 }, (_, i) => {
     const date = new Date(currentDate);
@@ -1714,13 +1852,44 @@ function DayView({
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" />
             </svg>
           </button>
+
+          {/* Resource columns toggle (only when the business has resources) */}
+          {resources.length > 0 && (
+            <button
+              onClick={() => onShowResourceColumnsChange(!showResourceColumns)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-all flex-shrink-0 ${
+                showResourceColumns
+                  ? 'bg-teal-50 text-teal-700'
+                  : 'text-gray-500 hover:text-gray-900 hover:bg-gray-50'
+              }`}
+              aria-pressed={showResourceColumns}
+            >
+              {resourceToggleLabel}
+            </button>
+          )}
         </div>
       </div>
 
       {/* Time Grid */}
-      <div ref={scrollContainerRef} className="flex-1 overflow-y-auto">
+      <div ref={scrollContainerRef} className={`flex-1 overflow-y-auto relative ${resourceColumns ? 'overflow-x-auto' : ''}`}>
+        {/* Resource column headers */}
+        {resourceColumns && (
+          <div className="grid sticky top-0 z-30 bg-white border-b border-gray-200/60" style={{ gridTemplateColumns }}>
+            <div className="border-r border-gray-200/60" />
+            {resourceColumns.map(column => (
+              <div
+                key={column.key}
+                className="px-3 py-2 text-xs font-semibold text-gray-700 truncate border-r border-gray-200/60 last:border-r-0"
+                title={column.name}
+              >
+                {column.name}
+              </div>
+            ))}
+          </div>
+        )}
+
         {hours.map((hour, hourIdx) => (
-          <div key={hour} className="grid grid-cols-[64px_1fr]">
+          <div key={hour} className="grid" style={{ gridTemplateColumns }}>
             {/* Time Label */}
             <div className={`flex items-start justify-end pr-3 pt-2 border-r border-b border-gray-200/60 ${hourIdx === hours.length - 1 ? 'border-b-0' : ''} min-h-[120px]`}>
               <span className="text-xs text-gray-500 font-medium">
@@ -1728,33 +1897,130 @@ function DayView({
               </span>
             </div>
 
-            {/* Hour Cell */}
-            <DayHourCell
-              date={currentDate}
-              hour={hour}
-              hourIdx={hourIdx}
-              isLastHour={hourIdx === hours.length - 1}
-              isClosed={isClosed}
-              appointments={appointmentsByHour[hourIdx]}
-              allDayAppointments={allDayAppointments}
-              startHour={START_HOUR}
-              showCurrentTime={currentTimeRow === hourIdx}
-              currentTimeOffset={currentTimeOffset}
-              onReschedule={onReschedule}
-              onEdit={onEdit}
-              draggedAppointment={draggedAppointment}
-              setDraggedAppointment={setDraggedAppointment}
-              highlightedAppointmentId={highlightedAppointmentId}
-              canceledLabel={canceledLabel}
-              locale={locale}
-            />
+            {/* Hour Cells, one per resource column */}
+            {resourceColumns ? resourceColumns.map(column => (
+              <div key={column.key} className="border-r border-gray-200/60 last:border-r-0">
+                <DayHourCell
+                  date={currentDate}
+                  hour={hour}
+                  hourIdx={hourIdx}
+                  isLastHour={hourIdx === hours.length - 1}
+                  isClosed={isClosed}
+                  appointments={column.appointments.filter(apt => new Date(apt.start_time).getHours() === hour)}
+                  allDayAppointments={column.appointments}
+                  startHour={START_HOUR}
+                  showCurrentTime={currentTimeRow === hourIdx}
+                  currentTimeOffset={currentTimeOffset}
+                  onReschedule={onReschedule}
+                  onEdit={onEdit}
+                  draggedAppointment={draggedAppointment}
+                  setDraggedAppointment={setDraggedAppointment}
+                  highlightedAppointmentId={highlightedAppointmentId}
+                  canceledLabel={canceledLabel}
+                  locale={locale}
+                />
+              </div>
+            )) : (
+              <DayHourCell
+                date={currentDate}
+                hour={hour}
+                hourIdx={hourIdx}
+                isLastHour={hourIdx === hours.length - 1}
+                isClosed={isClosed}
+                appointments={appointmentsByHour[hourIdx]}
+                allDayAppointments={allDayAppointments}
+                startHour={START_HOUR}
+                showCurrentTime={currentTimeRow === hourIdx}
+                currentTimeOffset={currentTimeOffset}
+                onReschedule={onReschedule}
+                onEdit={onEdit}
+                draggedAppointment={draggedAppointment}
+                setDraggedAppointment={setDraggedAppointment}
+                highlightedAppointmentId={highlightedAppointmentId}
+                canceledLabel={canceledLabel}
+                locale={locale}
+              />
+            )}
           </div>
         ))}
+
+        {/* External calendar busy time */}
+        <BusyTimeBlocks
+          day={currentDate}
+          busyTimes={busyTimes}
+          startHour={START_HOUR}
+          endHour={END_HOUR}
+          left="64px"
+          width="calc(100% - 64px)"
+          label={busyLabel}
+        />
       </div>
     </div>
   );
 }
 
+/**
+ * Busy time from external calendars on one day column of the time grid
+ *
+ * Drawn as hatched blocks over the hour cells. They ignore pointer events so
+ * appointments underneath stay clickable and draggable.
+ */
+function BusyTimeBlocks({
+  day,
+  busyTimes,
+  startHour,
+  endHour,
+  left,
+  width,
+  label,
+}: {
+  day: Date;
+  busyTimes: ExternalBusyBlock[];
+  startHour: number;
+  endHour: number;
+  left: string;
+  width: string;
+  label: string;
+}) {
+  const HOUR_HEIGHT = 120;
+
+  const gridStart = new Date(day);
+  gridStart.setHours(startHour, 0, 0, 0);
+  const gridEnd = new Date(day);
+  gridEnd.setHours(endHour, 0, 0, 0);
+
+  return (
+    <>
+      {busyTimes.map((busy, idx) => {
+        const start = Math.max(new Date(busy.start).getTime(), gridStart.getTime());
+        const end = Math.min(new Date(busy.end).getTime(), gridEnd.getTime());
+        if (end <= start) return null;
+
+        const top = ((start - gridStart.getTime()) / (60 * 60 * 1000)) * HOUR_HEIGHT;
+        const height = ((end - start) / (60 * 60 * 1000)) * HOUR_HEIGHT;
+        const title = busy.summary ? `${label} · ${busy.summary}` : label;
+
+        return (
+          <div
+            key={`${busy.start}-${idx}`}
+            className="absolute z-[5] pointer-events-none px-1"
+            style={{ top: `${top}px`, height: `${height}px`, left, width }}
+          >
+            <div
+              className="h-full rounded-lg border border-gray-300/70 bg-gray-100/60 overflow-hidden"
+              style={{ backgroundImage: 'repeating-linear-gradient(135deg, rgba(156, 163, 175, 0.18) 0 6px, transparent 6px 12px)' }}
+            >
+              <p className="px-2 py-1 text-[11px] font-medium text-gray-600 truncate">
+                {title}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
 function DayHourCell({
   date,
   hour,
@@ -2239,6 +2505,8 @@ function ListAppointmentCard({
             </div>
           </div>
 
+          <CustomFieldAnswers answers={appointment.custom_field_answers} compact />
+
           {/* Notes */}
           {appointment.notes && (
             <div className="mt-2 px-3 py-2 bg-gray-50 rounded-lg border border-gray-100">
@@ -2247,6 +2515,14 @@ function ListAppointmentCard({
               </div>
             </div>
           )}
+
+          {appointment.internal_notes && (
+            <div className="mt-2 px-3 py-2 bg-amber-50 rounded-lg border border-amber-100">
+              <div className="text-sm text-amber-900 leading-relaxed">
+                {appointment.internal_notes}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Edit Icon */}
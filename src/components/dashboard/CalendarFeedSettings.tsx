@@ -0,0 +1,228 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslations } from 'next-intl';
+
+interface CalendarFeed {
+  id: string;
+  staff_id: string | null;
+  staff_name: string | null;
+  url: string;
+  last_accessed_at: string | null;
+}
+
+interface StaffOption {
+  id: string;
+  name: string;
+}
+
+interface CalendarFeedSettingsProps {
+  businessId: string;
+  accessToken: string | null;
+}
+
+/**
+ * Private iCalendar feed URLs for the whole business and for each staff
+ * member, to subscribe to from Google or Apple Calendar. Used in the
+ * Integrations category of the settings page.
+ */
+export function CalendarFeedSettings({ businessId, accessToken }: CalendarFeedSettingsProps) {
+  const t = useTranslations('dashboard.settings.calendarFeeds');
+
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [staff, setStaff] = useState<StaffOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savingFor, setSavingFor] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const authHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${accessToken}`,
+  }), [accessToken]);
+
+  const fetchFeeds = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/settings/calendar-feeds?businessId=${businessId}`, {
+        headers: authHeaders(),
+      });
+
+      if (!res.ok) {
+        throw new Error(t('loadFailed'));
+      }
+
+      const data = await res.json();
+      setFeeds(data.feeds || []);
+      setStaff(data.staff || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, authHeaders, t]);
+
+  useEffect(() => {
+    if (businessId && accessToken) {
+      fetchFeeds();
+    }
+  }, [businessId, accessToken, fetchFeeds]);
+
+  async function handleCreate(staffId: string | null, existing: boolean) {
+    if (existing && !confirm(t('regenerateConfirm'))) return;
+    setError(null);
+    setSavingFor(staffId ?? 'business');
+
+    try {
+      const res = await fetch('/api/settings/calendar-feeds', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ businessId, staffId }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || t('saveFailed'));
+      }
+
+      await fetchFeeds();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    } finally {
+      setSavingFor(null);
+    }
+  }
+
+  async function handleDelete(feedId: string) {
+    if (!confirm(t('deleteConfirm'))) return;
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/settings/calendar-feeds/${feedId}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || t('saveFailed'));
+      }
+
+      await fetchFeeds();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    }
+  }
+
+  async function handleCopy(feed: CalendarFeed) {
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      setCopiedId(feed.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch {
+      setError(t('copyFailed'));
+    }
+  }
+
+  function formatDateTime(value: string) {
+    return new Date(value).toLocaleString(undefined, {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  // The whole business first, then one row per staff member
+  const rows = [
+    { staffId: null, label: t('wholeBusiness') },
+    ...staff.map(member => ({ staffId: member.id, label: member.name })),
+  ];
+
+  if (loading && feeds.length === 0) {
+    return (
+      <div className="text-center py-16 bg-gray-50/50 rounded-2xl border border-gray-100">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-2 border-gray-200 border-t-teal-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-6 p-4 bg-red-50/50 border border-red-200/60 rounded-xl">
+          <p className="text-sm text-red-900">{error}</p>
+        </div>
+      )}
+
+      <div className="border border-gray-100 rounded-2xl overflow-hidden divide-y divide-gray-100">
+        {rows.map(({ staffId, label }) => {
+          const feed = feeds.find(f => f.staff_id === staffId);
+          const saving = savingFor === (staffId ?? 'business');
+
+          return (
+            <div key={staffId ?? 'business'} className="p-6">
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-gray-900 mb-1">{label}</p>
+                  {feed ? (
+                    <>
+                      <code className="block px-3 py-2 mb-2 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-700 break-all">
+                        {feed.url}
+                      </code>
+                      <p className="text-xs text-gray-500">
+                        {feed.last_accessed_at
+                          ? t('lastAccessed', { date: formatDateTime(feed.last_accessed_at) })
+                          : t('neverAccessed')}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500">{t('noFeed')}</p>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {feed ? (
+                    <>
+                      <button
+                        onClick={() => handleCopy(feed)}
+                        className="px-3 py-1.5 text-sm font-medium text-teal-700 hover:bg-teal-50 rounded-lg transition-all"
+                      >
+                        {copiedId === feed.id ? t('copied') : t('copy')}
+                      </button>
+                      <button
+                        onClick={() => handleCreate(staffId, true)}
+                        disabled={saving}
+                        className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-all disabled:opacity-50"
+                      >
+                        {t('regenerate')}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(feed.id)}
+                        className="px-3 py-1.5 text-sm font-medium text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-all"
+                      >
+                        {t('delete')}
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => handleCreate(staffId, false)}
+                      disabled={saving}
+                      className="whitespace-nowrap px-4 py-2 bg-gradient-to-r from-teal-600 to-green-600 text-white rounded-xl font-semibold hover:shadow-lg transition-all text-sm disabled:opacity-50"
+                    >
+                      {saving ? t('creating') : t('create')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">{t('privacyHint')}</p>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import { categorizeError, shouldShowToast, shouldShowInline, getToastVariant } f
 import { formatTime, formatDate, formatDateForAPI, getWeekStartSafe, getWeekDatesSafe } from '@/lib/calendar-utils';
 import { useToast } from '@/hooks/useToast';
 import { ToastContainer } from '@/components/ui/ToastContainer';
+import { RecurrenceSection, toRecurrenceBody, type RepeatSettings, type SeriesOccurrencePreview } from './RecurrenceSection';
+import { CustomerSearch } from './customers/CustomerSearch';
 
 interface Service {
   id: string;
@@ -79,6 +81,10 @@ export function CreateAppointmentModal({
   const [customerPhone, setCustomerPhone] = useState('');
   const [notes, setNotes] = useState('');
 
+  // Recurring series state (null = single appointment)
+  const [repeatSettings, setRepeatSettings] = useState<RepeatSettings | null>(null);
+  const [seriesOccurrences, setSeriesOccurrences] = useState<SeriesOccurrencePreview[] | null>(null);
+
   // Validation errors state
   const [validationErrors, setValidationErrors] = useState<{
     customer_name?: string[];
@@ -226,6 +232,8 @@ export function CreateAppointmentModal({
     setCustomerEmail('');
     setCustomerPhone('');
     setNotes('');
+    setRepeatSettings(null);
+    setSeriesOccurrences(null);
     setAvailableSlots([]);
     setValidationErrors({});
     setDateAvailability(new Map());
@@ -242,7 +250,7 @@ export function CreateAppointmentModal({
     setLoading(true);
 
     const attemptCreate = async () => {
-      await apiRequest('/api/appointments/manual', {
+      return await apiRequest<{ seriesId?: string; occurrences?: SeriesOccurrencePreview[] }>('/api/appointments/manual', {
         method: 'POST',
         body: JSON.stringify({
           customer_name: customerName,
@@ -253,19 +261,35 @@ export function CreateAppointmentModal({
           duration: selectedService.duration_minutes,
           notes,
           status: 'confirmed',
+          ...(repeatSettings && {
+            recurrence: toRecurrenceBody(repeatSettings),
+            skip_conflicts: repeatSettings.skipConflicts,
+          }),
         }),
       });
     };
 
     try {
-      await attemptCreate();
-      showToast(t('success.message'), 'success');
+      const response = await attemptCreate();
+      if (response.seriesId) {
+        const booked = response.occurrences?.filter(o => o.available).length ?? 0;
+        showToast(t('repeat.created', { count: booked }), 'success');
+      } else {
+        showToast(t('success.message'), 'success');
+      }
       onSuccess();
       onClose();
       resetForm();
     } catch (error: any) {
       console.error('Failed to create appointment:', error);
 
+      // Some dates of the series are taken - show which, so the owner can skip them
+      if (error?.code === 'SERIES_CONFLICT' && error.details?.occurrences) {
+        setSeriesOccurrences(error.details.occurrences);
+        showToast(t('repeat.conflicts'), 'warning');
+        return;
+      }
+
       // UX-002: Categorize error and handle appropriately
       const errorDetails = categorizeError(error);
 
@@ -886,6 +910,16 @@ export function CreateAppointmentModal({
                   </div>
                 </div>
 
+                <RecurrenceSection
+                  serviceId={selectedService.id}
+                  startTime={new Date(selectedSlot.start).toISOString()}
+                  durationMinutes={selectedService.duration_minutes}
+                  settings={repeatSettings}
+                  onSettingsChange={setRepeatSettings}
+                  occurrences={seriesOccurrences}
+                  onOccurrencesChange={setSeriesOccurrences}
+                />
+
                 {/* Validation Error Banner - UX-002 */}
                 {Object.keys(validationErrors).length > 0 && (
                   <div className="bg-red-50 border border-red-200 rounded-xl p-3 sm:p-4">
@@ -913,6 +947,18 @@ export function CreateAppointmentModal({
                     {t('customer.title')}
                   </h3>
                   <div className="space-y-3 sm:space-y-4">
+                    {businessId && (
+                      <CustomerSearch
+                        businessId={businessId}
+                        onSelect={(customer) => {
+                          setCustomerName(customer.name || '');
+                          setCustomerEmail(customer.email || '');
+                          setCustomerPhone(customer.phone || '');
+                          setValidationErrors({});
+                        }}
+                      />
+                    )}
+
                     <div>
                       <label htmlFor="customer_name" className="block text-xs sm:text-sm font-semibold text-gray-900 mb-1.5 sm:mb-2">
                         {t('customer.name')} <span className="text-red-500">*</span>
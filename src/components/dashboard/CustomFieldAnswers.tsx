@@ -0,0 +1,35 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { CustomFieldAnswer } from '@/db/types';
+
+interface CustomFieldAnswersProps {
+  answers?: CustomFieldAnswer[] | null;
+  compact?: boolean;
+}
+
+/**
+ * Answers the customer gave to the business's custom booking questions
+ */
+export function CustomFieldAnswers({ answers, compact = false }: CustomFieldAnswersProps) {
+  const t = useTranslations('dashboard.customFields');
+
+  if (!answers || answers.length === 0) {
+    return null;
+  }
+
+  return (
+    <dl className={compact ? 'mt-2 space-y-1' : 'space-y-3'}>
+      {answers.map((answer) => (
+        <div key={answer.id} className={compact ? 'text-sm' : ''}>
+          <dt className={compact ? 'inline font-medium text-gray-500' : 'text-xs font-medium text-gray-500 uppercase tracking-wide mb-1'}>
+            {answer.label}{compact && ': '}
+          </dt>
+          <dd className={compact ? 'inline text-gray-700' : 'text-sm text-gray-900 whitespace-pre-wrap'}>
+            {typeof answer.value === 'boolean' ? (answer.value ? t('yes') : t('no')) : answer.value}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -6,7 +6,7 @@ import { NotificationCenter } from '@/components/dashboard/NotificationCenter';
 import { Link } from '@/i18n/routing';
 
 interface DashboardSidebarProps {
-  currentPage?: 'calendar' | 'insights' | 'settings' | 'services';
+  currentPage?: 'calendar' | 'insights' | 'customers' | 'settings' | 'services';
   onNotificationClick?: (appointmentId?: string) => void;
   onNewAppointmentClick?: () => void;
 }
@@ -60,6 +60,20 @@ function MobileBottomBar({ currentPage, onNewAppointmentClick }: { currentPage?:
         <span className="text-xs font-semibold">{t('navigation.insights')}</span>
       </Link>
 
+      <Link
+        href="/dashboard/customers"
+        className={`flex flex-col items-center gap-1 py-2 px-3 rounded-xl transition-all ${
+          currentPage === 'customers'
+            ? 'text-gray-900 bg-gray-50'
+            : 'text-gray-400'
+        }`}
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M15 19.128a9.38 9.38 0 002.625.372 9.337 9.337 0 004.121-.952 4.125 4.125 0 00-7.533-2.493M15 19.128v-.003c0-1.113-.285-2.16-.786-3.07M15 19.128v.106A12.318 12.318 0 018.624 21c-2.331 0-4.512-.645-6.374-1.766l-.001-.109a6.375 6.375 0 0111.964-3.07M12 6.375a3.375 3.375 0 11-6.75 0 3.375 3.375 0 016.75 0zm8.25 2.25a2.625 2.625 0 11-5.25 0 2.625 2.625 0 015.25 0z" />
+        </svg>
+        <span className="text-xs font-semibold">{t('navigation.customers')}</span>
+      </Link>
+
       <Link
         href="/dashboard/settings"
         className={`flex flex-col items-center gap-1 py-2 px-3 rounded-xl transition-all ${
@@ -132,6 +146,22 @@ function DesktopSidebar({ currentPage, onNotificationClick }: DashboardSidebarPr
           </div>
         </Link>
 
+        <Link
+          href="/dashboard/customers"
+          className={`w-full h-14 flex items-center justify-center rounded-xl ${
+            currentPage === 'customers'
+              ? 'bg-gray-50 text-gray-900'
+              : 'text-gray-400 hover:text-gray-900 hover:bg-gray-50'
+          } transition-all relative group`}
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15 19.128a9.38 9.38 0 002.625.372 9.337 9.337 0 004.121-.952 4.125 4.125 0 00-7.533-2.493M15 19.128v-.003c0-1.113-.285-2.16-.786-3.07M15 19.128v.106A12.318 12.318 0 018.624 21c-2.331 0-4.512-.645-6.374-1.766l-.001-.109a6.375 6.375 0 0111.964-3.07M12 6.375a3.375 3.375 0 11-6.75 0 3.375 3.375 0 016.75 0zm8.25 2.25a2.625 2.625 0 11-5.25 0 2.625 2.625 0 015.25 0z" />
+          </svg>
+          <div className="absolute left-full ml-4 px-3 py-1.5 bg-gray-900 text-white text-sm rounded-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all whitespace-nowrap pointer-events-none">
+            {t('navigation.customers')}
+          </div>
+        </Link>
+
         <NotificationCenter
           onNotificationClick={onNotificationClick}
         />
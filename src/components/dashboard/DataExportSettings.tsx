@@ -0,0 +1,261 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslations } from 'next-intl';
+
+type ExportType = 'appointments' | 'customers' | 'revenue';
+type ExportFormat = 'csv' | 'json';
+
+interface DataExportRecord {
+  id: string;
+  export_type: ExportType;
+  format: ExportFormat;
+  start_date: string;
+  end_date: string;
+  row_count: number | null;
+  user_email: string | null;
+  created_at: string;
+}
+
+interface DataExportSettingsProps {
+  businessId: string;
+  accessToken: string | null;
+}
+
+const EXPORT_TYPES: ExportType[] = ['appointments', 'customers', 'revenue'];
+
+// Calendar date of the browser, as YYYY-MM-DD
+function toDateInput(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function getLastMonth(): { startDate: string; endDate: string } {
+  const today = new Date();
+  return {
+    startDate: toDateInput(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+    endDate: toDateInput(new Date(today.getFullYear(), today.getMonth(), 0)),
+  };
+}
+
+/**
+ * Downloads of appointments, customers and daily revenue as CSV or JSON, and
+ * the list of recent exports. Used in the Data category of the settings page.
+ */
+export function DataExportSettings({ businessId, accessToken }: DataExportSettingsProps) {
+  const t = useTranslations('dashboard.settings.dataExport');
+
+  const [exports, setExports] = useState<DataExportRecord[]>([]);
+  const [hasAccess, setHasAccess] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [type, setType] = useState<ExportType>('appointments');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [range, setRange] = useState(getLastMonth);
+  const [downloading, setDownloading] = useState(false);
+
+  const authHeaders = useCallback(() => ({
+    'Authorization': `Bearer ${accessToken}`,
+  }), [accessToken]);
+
+  const fetchExports = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/exports?businessId=${businessId}`, {
+        headers: authHeaders(),
+      });
+
+      if (!res.ok) {
+        throw new Error(t('loadFailed'));
+      }
+
+      const data = await res.json();
+      setExports(data.exports || []);
+      setHasAccess(data.hasAccess !== false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, authHeaders, t]);
+
+  useEffect(() => {
+    if (businessId && accessToken) {
+      fetchExports();
+    }
+  }, [businessId, accessToken, fetchExports]);
+
+  async function handleDownload() {
+    setError(null);
+    setDownloading(true);
+
+    try {
+      const params = new URLSearchParams({ businessId, format, ...range });
+      const res = await fetch(`/api/exports/${type}?${params}`, {
+        headers: authHeaders(),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message || data.error || t('downloadFailed'));
+      }
+
+      // The route names the file after the business, type and dates
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+        || `${type}.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+
+      URL.revokeObjectURL(url);
+      await fetchExports();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('downloadFailed'));
+    } finally {
+      setDownloading(false);
+    }
+  }
+
+  function formatDateTime(value: string) {
+    return new Date(value).toLocaleString(undefined, {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  if (!hasAccess) {
+    return (
+      <div className="text-center py-16 px-6 bg-gray-50/50 rounded-2xl border border-gray-100">
+        <h4 className="text-sm font-semibold text-gray-900 mb-1.5">{t('upgradeTitle')}</h4>
+        <p className="text-sm text-gray-500">{t('upgradeDescription')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-6 p-4 bg-red-50/50 border border-red-200/60 rounded-xl">
+          <p className="text-sm text-red-900">{error}</p>
+        </div>
+      )}
+
+      <div className="p-6 border border-gray-100 rounded-2xl bg-gray-50/50 space-y-5">
+        <div>
+          <p className="text-sm font-semibold text-gray-700 mb-2">{t('type')}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {EXPORT_TYPES.map((option) => (
+              <button
+                key={option}
+                onClick={() => setType(option)}
+                className={`p-3 text-left rounded-xl border transition-all ${
+                  type === option
+                    ? 'border-teal-500 bg-white shadow-sm'
+                    : 'border-gray-200 bg-white/60 hover:border-gray-300'
+                }`}
+              >
+                <p className="text-sm font-semibold text-gray-900">{t(`types.${option}.label`)}</p>
+                <p className="text-xs text-gray-500 mt-0.5">{t(`types.${option}.description`)}</p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <label className="block">
+            <span className="block text-sm font-semibold text-gray-700 mb-2">{t('from')}</span>
+            <input
+              type="date"
+              value={range.startDate}
+              max={range.endDate}
+              onChange={(e) => e.target.value && setRange(prev => ({ ...prev, startDate: e.target.value }))}
+              className="px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-sm font-semibold text-gray-700 mb-2">{t('to')}</span>
+            <input
+              type="date"
+              value={range.endDate}
+              min={range.startDate}
+              onChange={(e) => e.target.value && setRange(prev => ({ ...prev, endDate: e.target.value }))}
+              className="px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+            />
+          </label>
+          <button
+            onClick={() => setRange(getLastMonth())}
+            className="px-3 py-2 text-sm font-medium text-teal-700 hover:bg-teal-50 rounded-lg transition-all"
+          >
+            {t('lastMonth')}
+          </button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex gap-1 bg-gray-100 p-1 rounded-xl w-fit">
+            {(['csv', 'json'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setFormat(option)}
+                className={`px-4 py-1.5 rounded-lg text-sm font-semibold transition-all ${
+                  format === option ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-900'
+                }`}
+              >
+                {option.toUpperCase()}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleDownload}
+            disabled={downloading || !range.startDate || !range.endDate}
+            className="whitespace-nowrap px-4 py-2 bg-gradient-to-r from-teal-600 to-green-600 text-white rounded-xl font-semibold hover:shadow-lg transition-all text-sm disabled:opacity-50"
+          >
+            {downloading ? t('downloading') : t('download')}
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-500">{t('timezoneHint')}</p>
+      </div>
+
+      <div className="mt-8">
+        <h5 className="text-sm font-semibold text-gray-900 mb-3">{t('history')}</h5>
+        {loading && exports.length === 0 ? (
+          <div className="text-center py-8">
+            <div className="inline-block animate-spin rounded-full h-6 w-6 border-2 border-gray-200 border-t-teal-600"></div>
+          </div>
+        ) : exports.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('noHistory')}</p>
+        ) : (
+          <div className="border border-gray-100 rounded-2xl overflow-hidden divide-y divide-gray-100">
+            {exports.map((record) => (
+              <div key={record.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-1 px-5 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-gray-900">
+                    {t(`types.${record.export_type}.label`)} · {record.format.toUpperCase()}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {t('historyRange', { start: record.start_date, end: record.end_date })}
+                    {record.user_email ? ` · ${record.user_email}` : ''}
+                  </p>
+                </div>
+                <p className="text-xs text-gray-500 flex-shrink-0">
+                  {formatDateTime(record.created_at)} · {record.row_count === null
+                    ? t('incomplete')
+                    : t('rows', { count: record.row_count })}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,404 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useTranslations } from 'next-intl';
+
+interface ExternalCalendar {
+  id: string;
+  name: string;
+  source_type: 'url' | 'upload';
+  url: string | null;
+  enabled: boolean;
+  last_synced_at: string | null;
+  last_sync_error: string | null;
+  event_count: number;
+}
+
+interface ExternalCalendarSettingsProps {
+  businessId: string;
+  accessToken: string | null;
+}
+
+// Matches MAX_ICS_BYTES on the server
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * External calendars (ICS URLs or uploaded .ics files) whose events block
+ * booking slots. Used in the Integrations category of the settings page.
+ */
+export function ExternalCalendarSettings({ businessId, accessToken }: ExternalCalendarSettingsProps) {
+  const t = useTranslations('dashboard.settings.externalCalendars');
+
+  const [calendars, setCalendars] = useState<ExternalCalendar[]>([]);
+  const [maxCalendars, setMaxCalendars] = useState(10);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [formSource, setFormSource] = useState<'url' | 'upload'>('url');
+  const [formName, setFormName] = useState('');
+  const [formUrl, setFormUrl] = useState('');
+  const [formFile, setFormFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Hidden file input for re-uploading an uploaded calendar
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const [replaceId, setReplaceId] = useState<string | null>(null);
+
+  const authHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${accessToken}`,
+  }), [accessToken]);
+
+  const fetchCalendars = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/settings/external-calendars?businessId=${businessId}`, {
+        headers: authHeaders(),
+      });
+
+      if (!res.ok) {
+        throw new Error(t('loadFailed'));
+      }
+
+      const data = await res.json();
+      setCalendars(data.calendars || []);
+      if (data.maxCalendars) setMaxCalendars(data.maxCalendars);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, authHeaders, t]);
+
+  useEffect(() => {
+    if (businessId && accessToken) {
+      fetchCalendars();
+    }
+  }, [businessId, accessToken, fetchCalendars]);
+
+  function resetForm() {
+    setShowForm(false);
+    setFormSource('url');
+    setFormName('');
+    setFormUrl('');
+    setFormFile(null);
+  }
+
+  async function readFile(file: File): Promise<string> {
+    if (file.size > MAX_FILE_BYTES) {
+      throw new Error(t('fileTooLarge'));
+    }
+    return await file.text();
+  }
+
+  function showSyncResult(sync?: { success: boolean; eventCount: number; error?: string }) {
+    if (!sync) return;
+    if (sync.success) {
+      setNotice(t('syncSucceeded', { count: sync.eventCount }));
+    } else {
+      setError(t('syncFailed', { error: sync.error || '' }));
+    }
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
+    setSaving(true);
+
+    try {
+      const body: Record<string, string> = { businessId, name: formName.trim() };
+      if (formSource === 'url') {
+        body.url = formUrl.trim();
+      } else if (formFile) {
+        body.content = await readFile(formFile);
+      }
+
+      const res = await fetch('/api/settings/external-calendars', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify(body),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || t('saveFailed'));
+      }
+
+      resetForm();
+      showSyncResult(data.sync);
+      await fetchCalendars();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function updateCalendar(calendarId: string, updates: Record<string, unknown>) {
+    setError(null);
+    setNotice(null);
+    setBusyId(calendarId);
+
+    try {
+      const res = await fetch(`/api/settings/external-calendars/${calendarId}`, {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify(updates),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || t('saveFailed'));
+      }
+
+      showSyncResult(data.sync);
+      await fetchCalendars();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handleReplaceFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !replaceId) return;
+
+    try {
+      await updateCalendar(replaceId, { content: await readFile(file) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    } finally {
+      setReplaceId(null);
+    }
+  }
+
+  async function handleDelete(calendarId: string) {
+    if (!confirm(t('deleteConfirm'))) return;
+    setError(null);
+    setNotice(null);
+
+    try {
+      const res = await fetch(`/api/settings/external-calendars/${calendarId}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || t('saveFailed'));
+      }
+
+      await fetchCalendars();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    }
+  }
+
+  function formatDateTime(value: string) {
+    return new Date(value).toLocaleString(undefined, {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  const canAdd = calendars.length < maxCalendars;
+
+  return (
+    <div>
+      {!showForm && canAdd && (
+        <div className="flex justify-end mb-6">
+          <button
+            onClick={() => setShowForm(true)}
+            className="whitespace-nowrap px-5 py-2.5 bg-gradient-to-r from-teal-600 to-green-600 text-white rounded-xl font-semibold hover:shadow-lg hover:scale-[1.02] transition-all text-sm"
+          >
+            {t('addButton')}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50/50 border border-red-200/60 rounded-xl">
+          <p className="text-sm text-red-900">{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="mb-6 p-4 bg-green-50/50 border border-green-200/60 rounded-xl">
+          <p className="text-sm font-medium text-green-900">{notice}</p>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mb-8 p-6 bg-gray-50/50 border border-gray-100 rounded-2xl space-y-5">
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-3">{t('name')}</label>
+            <input
+              type="text"
+              value={formName}
+              onChange={(e) => setFormName(e.target.value)}
+              placeholder={t('namePlaceholder')}
+              maxLength={100}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-all bg-white text-gray-900 placeholder-gray-400"
+              required
+            />
+          </div>
+
+          <div>
+            <p className="block text-sm font-semibold text-gray-900 mb-3">{t('source')}</p>
+            <div className="flex gap-6">
+              {(['url', 'upload'] as const).map((source) => (
+                <label key={source} className="flex items-center gap-3 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="external-calendar-source"
+                    checked={formSource === source}
+                    onChange={() => setFormSource(source)}
+                    className="w-4 h-4 border-gray-300 text-teal-600 focus:ring-teal-500"
+                  />
+                  {t(`sources.${source}`)}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {formSource === 'url' ? (
+            <div>
+              <label className="block text-sm font-semibold text-gray-900 mb-3">{t('url')}</label>
+              <input
+                type="text"
+                inputMode="url"
+                value={formUrl}
+                onChange={(e) => setFormUrl(e.target.value)}
+                placeholder="https://"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-all bg-white text-gray-900 placeholder-gray-400"
+                required
+              />
+              <p className="text-xs text-gray-500 mt-2">{t('urlHint')}</p>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-semibold text-gray-900 mb-3">{t('file')}</label>
+              <input
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={(e) => setFormFile(e.target.files?.[0] || null)}
+                className="block w-full text-sm text-gray-700 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-teal-50 file:text-teal-700 file:font-semibold"
+                required
+              />
+              <p className="text-xs text-gray-500 mt-2">{t('fileHint')}</p>
+            </div>
+          )}
+
+          <div className="flex gap-3 justify-end">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-5 py-2.5 text-sm font-semibold text-gray-700 hover:bg-gray-100 rounded-xl transition-all"
+            >
+              {t('cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-5 py-2.5 bg-gradient-to-r from-teal-600 to-green-600 text-white rounded-xl font-semibold hover:shadow-lg transition-all text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? t('importing') : t('save')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <input
+        ref={replaceInputRef}
+        type="file"
+        accept=".ics,text/calendar"
+        onChange={handleReplaceFile}
+        className="hidden"
+      />
+
+      {loading && calendars.length === 0 ? (
+        <div className="text-center py-16 bg-gray-50/50 rounded-2xl border border-gray-100">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-2 border-gray-200 border-t-teal-600"></div>
+        </div>
+      ) : calendars.length === 0 ? (
+        <div className="text-center py-16 px-6 bg-gray-50/50 rounded-2xl border border-gray-100">
+          <h4 className="text-sm font-semibold text-gray-900 mb-1.5">{t('noCalendars')}</h4>
+          <p className="text-sm text-gray-500">{t('noCalendarsDescription')}</p>
+        </div>
+      ) : (
+        <div className="border border-gray-100 rounded-2xl overflow-hidden divide-y divide-gray-100">
+          {calendars.map((calendar) => (
+            <div key={calendar.id} className="p-6">
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`px-2 py-0.5 rounded-md text-xs font-semibold ${calendar.enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                      {calendar.enabled ? t('active') : t('paused')}
+                    </span>
+                    <p className="font-semibold text-gray-900 truncate">{calendar.name}</p>
+                  </div>
+                  <p className="text-sm text-gray-600 mb-2 truncate">
+                    {calendar.source_type === 'url' ? calendar.url : t('sources.upload')}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {calendar.last_synced_at
+                      ? t('lastSynced', { date: formatDateTime(calendar.last_synced_at), count: calendar.event_count })
+                      : t('neverSynced')}
+                  </p>
+                  {calendar.last_sync_error && (
+                    <p className="text-xs text-red-600 mt-1">{t('syncFailed', { error: calendar.last_sync_error })}</p>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => {
+                      if (calendar.source_type === 'url') {
+                        updateCalendar(calendar.id, { sync: true });
+                      } else {
+                        setReplaceId(calendar.id);
+                        replaceInputRef.current?.click();
+                      }
+                    }}
+                    disabled={busyId === calendar.id}
+                    className="px-3 py-1.5 text-sm font-medium text-teal-700 hover:bg-teal-50 rounded-lg transition-all disabled:opacity-50"
+                  >
+                    {busyId === calendar.id
+                      ? t('syncing')
+                      : calendar.source_type === 'url' ? t('syncNow') : t('replaceFile')}
+                  </button>
+                  <button
+                    onClick={() => updateCalendar(calendar.id, { enabled: !calendar.enabled })}
+                    disabled={busyId === calendar.id}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-all disabled:opacity-50"
+                  >
+                    {calendar.enabled ? t('pause') : t('resume')}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(calendar.id)}
+                    className="px-3 py-1.5 text-sm font-medium text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-all"
+                  >
+                    {t('delete')}
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 mt-4">{t('privacyHint')}</p>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+import { apiRequest } from '@/lib/auth/api-client';
+import { formatDate, formatTime } from '@/lib/calendar-utils';
+
+export interface RepeatSettings {
+  intervalWeeks: number;
+  endType: 'count' | 'until';
+  count: number;
+  until: string; // YYYY-MM-DD
+  skipConflicts: boolean;
+}
+
+export interface SeriesOccurrencePreview {
+  index: number;
+  start: string;
+  end: string;
+  available: boolean;
+  code?: string;
+  error?: string;
+}
+
+interface RecurrenceSectionProps {
+  serviceId: string;
+  startTime: string; // ISO start of the first occurrence
+  durationMinutes: number;
+  settings: RepeatSettings | null; // null when the appointment doesn't repeat
+  onSettingsChange: (settings: RepeatSettings | null) => void;
+  occurrences: SeriesOccurrencePreview[] | null;
+  onOccurrencesChange: (occurrences: SeriesOccurrencePreview[] | null) => void;
+}
+
+const MAX_INTERVAL_WEEKS = 12;
+const MAX_OCCURRENCES = 52;
+
+export function defaultRepeatSettings(startTime: string): RepeatSettings {
+  const until = new Date(startTime);
+  until.setMonth(until.getMonth() + 3);
+
+  return {
+    intervalWeeks: 1,
+    endType: 'count',
+    count: 4,
+    until: until.toISOString().slice(0, 10),
+    skipConflicts: false,
+  };
+}
+
+/**
+ * Body of the recurrence field for /api/appointments/manual and the preview
+ */
+export function toRecurrenceBody(settings: RepeatSettings) {
+  return {
+    interval_weeks: settings.intervalWeeks,
+    ...(settings.endType === 'count' ? { count: settings.count } : { until: settings.until }),
+  };
+}
+
+/**
+ * "Repeat" controls of the create appointment modal: every N weeks, ending
+ * after a number of occurrences or on a date, with a check of every date
+ * before the series is booked.
+ */
+export function RecurrenceSection({
+  serviceId,
+  startTime,
+  durationMinutes,
+  settings,
+  onSettingsChange,
+  occurrences,
+  onOccurrencesChange,
+}: RecurrenceSectionProps) {
+  const t = useTranslations('dashboard.createAppointment.repeat');
+  const locale = useLocale();
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function update(changes: Partial<RepeatSettings>) {
+    if (!settings) return;
+    onSettingsChange({ ...settings, ...changes });
+    // The previous check no longer matches the rule
+    onOccurrencesChange(null);
+  }
+
+  async function checkDates() {
+    if (!settings) return;
+    setChecking(true);
+    setError(null);
+
+    try {
+      const response = await apiRequest<{ occurrences: SeriesOccurrencePreview[] }>('/api/appointments/series/preview', {
+        method: 'POST',
+        body: JSON.stringify({
+          service_id: serviceId,
+          start_time: startTime,
+          duration: durationMinutes,
+          recurrence: toRecurrenceBody(settings),
+        }),
+      });
+      onOccurrencesChange(response.occurrences);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('checkFailed'));
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  const conflicts = occurrences?.filter(o => !o.available) ?? [];
+
+  return (
+    <div className="border border-gray-100 rounded-xl p-4 sm:p-5">
+      <label className="flex items-center gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings !== null}
+          onChange={(e) => {
+            onSettingsChange(e.target.checked ? defaultRepeatSettings(startTime) : null);
+            onOccurrencesChange(null);
+          }}
+          className="w-4 h-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"
+        />
+        <span className="text-xs sm:text-sm font-bold text-gray-900 uppercase tracking-wider">{t('title')}</span>
+      </label>
+
+      {settings && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            <span>{t('every')}</span>
+            <select
+              value={settings.intervalWeeks}
+              onChange={(e) => update({ intervalWeeks: Number(e.target.value) })}
+              className="px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm text-gray-900 focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+            >
+              {Array.from({ length: MAX_INTERVAL_WEEKS }, (_, i) => i + 1).map(weeks => (
+                <option key={weeks} value={weeks}>{t('weeks', { count: weeks })}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={settings.endType === 'count'}
+                onChange={() => update({ endType: 'count' })}
+                className="w-4 h-4 text-teal-600 border-gray-300 focus:ring-teal-500"
+              />
+              <span>{t('endAfter')}</span>
+              <input
+                type="number"
+                min={2}
+                max={MAX_OCCURRENCES}
+                value={settings.count}
+                disabled={settings.endType !== 'count'}
+                onChange={(e) => update({ count: Math.min(MAX_OCCURRENCES, Math.max(2, Number(e.target.value) || 2)) })}
+                className="w-20 px-3 py-1.5 bg-white border border-gray-200 rounded-xl text-sm text-gray-900 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 disabled:opacity-50"
+              />
+              <span>{t('occurrences')}</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={settings.endType === 'until'}
+                onChange={() => update({ endType: 'until' })}
+                className="w-4 h-4 text-teal-600 border-gray-300 focus:ring-teal-500"
+              />
+              <span>{t('endOn')}</span>
+              <input
+                type="date"
+                value={settings.until}
+                min={startTime.slice(0, 10)}
+                disabled={settings.endType !== 'until'}
+                onChange={(e) => update({ until: e.target.value })}
+                className="px-3 py-1.5 bg-white border border-gray-200 rounded-xl text-sm text-gray-900 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 disabled:opacity-50"
+              />
+            </label>
+          </div>
+
+          <button
+            type="button"
+            onClick={checkDates}
+            disabled={checking}
+            className="px-4 py-2 text-xs sm:text-sm font-semibold text-teal-700 hover:bg-teal-50 border border-teal-200 rounded-xl transition-all disabled:opacity-50"
+          >
+            {checking ? t('checking') : t('checkDates')}
+          </button>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          {occurrences && (
+            <div>
+              <p className="text-xs font-semibold text-gray-700 mb-2">
+                {conflicts.length === 0
+                  ? t('allAvailable', { count: occurrences.length })
+                  : t('someUnavailable', { count: conflicts.length, total: occurrences.length })}
+              </p>
+              <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-xl">
+                {occurrences.map(occurrence => (
+                  <li key={occurrence.index} className="flex items-center justify-between gap-3 px-3 py-2 text-xs sm:text-sm">
+                    <span className={occurrence.available ? 'text-gray-900' : 'text-gray-400 line-through'}>
+                      {formatDate(new Date(occurrence.start), 'short', locale)} · {formatTime(new Date(occurrence.start), locale)}
+                    </span>
+                    {occurrence.available ? (
+                      <span className="text-teal-700 font-medium">{t('available')}</span>
+                    ) : (
+                      <span className="text-red-600 font-medium text-right">{occurrence.error || t('unavailable')}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {conflicts.length > 0 && conflicts.length < occurrences.length && (
+                <label className="flex items-center gap-2 mt-3 text-xs sm:text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.skipConflicts}
+                    onChange={(e) => onSettingsChange({ ...settings, skipConflicts: e.target.checked })}
+                    className="w-4 h-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"
+                  />
+                  {t('skipConflicts')}
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslations } from 'next-intl';
+
+interface PreferredTime {
+  days?: string[];
+  start: string;
+  end: string;
+}
+
+interface RecommendationSettings {
+  enabled: boolean;
+  hideGapSlots: boolean;
+  maxRecommended: number;
+  preferredTimes: PreferredTime[];
+}
+
+interface ServiceOption {
+  id: string;
+  name: string;
+  duration: number;
+}
+
+interface PreviewSlot {
+  start: string;
+  score?: number;
+  recommended?: boolean;
+  createsGap?: boolean;
+}
+
+interface Preview {
+  serviceId: string;
+  timezone: string;
+  slots: PreviewSlot[];
+  summary: {
+    available: number;
+    recommended: number;
+    createsGap: number;
+  };
+}
+
+interface SlotRecommendationSettingsProps {
+  businessId: string;
+  accessToken: string | null;
+}
+
+/**
+ * Slot recommendation settings (slotRecommendations in the tenant config) and
+ * a preview of the times a customer would see recommended or hidden on a
+ * given day. Used in the Booking category of the settings page.
+ */
+export function SlotRecommendationSettings({ businessId, accessToken }: SlotRecommendationSettingsProps) {
+  const t = useTranslations('dashboard.settings.slotRecommendations');
+  const td = useTranslations('days');
+
+  const [settings, setSettings] = useState<RecommendationSettings | null>(null);
+  const [services, setServices] = useState<ServiceOption[]>([]);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [serviceId, setServiceId] = useState<string | null>(null);
+  const [date, setDate] = useState(() => new Date().toLocaleDateString('en-CA'));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPreview = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const query = new URLSearchParams({ businessId, date });
+      if (serviceId) query.set('serviceId', serviceId);
+
+      const res = await fetch(`/api/settings/slot-recommendations?${query}`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      });
+
+      if (!res.ok) {
+        throw new Error(t('loadFailed'));
+      }
+
+      const data = await res.json();
+      setSettings(data.settings);
+      setServices(data.services || []);
+      setPreview(data.preview);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, accessToken, serviceId, date, t]);
+
+  useEffect(() => {
+    if (businessId && accessToken) {
+      fetchPreview();
+    }
+  }, [businessId, accessToken, fetchPreview]);
+
+  function formatSlotTime(value: string) {
+    return new Date(value).toLocaleTimeString(undefined, {
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: preview?.timezone,
+    });
+  }
+
+  function formatPreferredTime(preferred: PreferredTime) {
+    const days = preferred.days?.length
+      ? preferred.days.map(day => td(day)).join(', ')
+      : t('everyDay');
+    return `${days} ${preferred.start}–${preferred.end}`;
+  }
+
+  if (loading && !settings) {
+    return (
+      <div className="text-center py-16 bg-gray-50/50 rounded-2xl border border-gray-100">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-2 border-gray-200 border-t-teal-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-6 p-4 bg-red-50/50 border border-red-200/60 rounded-xl">
+          <p className="text-sm text-red-900">{error}</p>
+        </div>
+      )}
+
+      {settings && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+          <div className="bg-gray-50/80 rounded-xl p-4 border border-gray-100">
+            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">{t('status')}</p>
+            <p className="text-sm font-semibold text-gray-900">{settings.enabled ? t('enabled') : t('disabled')}</p>
+          </div>
+          <div className="bg-gray-50/80 rounded-xl p-4 border border-gray-100">
+            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">{t('hideGapSlots')}</p>
+            <p className="text-sm font-semibold text-gray-900">{settings.hideGapSlots ? t('yes') : t('no')}</p>
+          </div>
+          <div className="bg-gray-50/80 rounded-xl p-4 border border-gray-100">
+            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">{t('maxRecommended')}</p>
+            <p className="text-sm font-semibold text-gray-900">{t('perDay', { count: settings.maxRecommended })}</p>
+          </div>
+          <div className="sm:col-span-3 bg-gray-50/80 rounded-xl p-4 border border-gray-100">
+            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">{t('preferredTimes')}</p>
+            {settings.preferredTimes.length > 0 ? (
+              <ul className="text-sm text-gray-900 space-y-1">
+                {settings.preferredTimes.map((preferred, idx) => (
+                  <li key={idx}>{formatPreferredTime(preferred)}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">{t('noPreferredTimes')}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="border border-gray-100 rounded-2xl p-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4 mb-5">
+          <div className="flex-1">
+            <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">{t('service')}</label>
+            <select
+              value={preview?.serviceId ?? ''}
+              onChange={e => setServiceId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-900 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            >
+              {services.map(service => (
+                <option key={service.id} value={service.id}>
+                  {service.name} ({service.duration} min)
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">{t('date')}</label>
+            <input
+              type="date"
+              value={date}
+              onChange={e => e.target.value && setDate(e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-900 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        {preview && (
+          preview.slots.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('noSlots')}</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 mb-4">
+                {t('summary', {
+                  available: preview.summary.available,
+                  recommended: preview.summary.recommended,
+                  hidden: preview.summary.createsGap,
+                })}
+              </p>
+              <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+                {preview.slots.map(slot => (
+                  <div
+                    key={slot.start}
+                    title={slot.score !== undefined ? t('score', { score: slot.score }) : undefined}
+                    className={`px-3 py-2 rounded-xl border-2 text-center text-sm font-semibold ${
+                      slot.recommended
+                        ? 'border-teal-500 bg-teal-50 text-teal-900'
+                        : slot.createsGap
+                          ? 'border-dashed border-gray-200 bg-gray-50 text-gray-400 line-through'
+                          : 'border-gray-200 bg-white text-gray-900'
+                    }`}
+                  >
+                    {formatSlotTime(slot.start)}
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-500">
+                <span className="flex items-center gap-1.5">
+                  <span className="w-3 h-3 rounded border-2 border-teal-500 bg-teal-50"></span>
+                  {t('legendRecommended')}
+                </span>
+                <span className="flex items-center gap-1.5">
+                  <span className="w-3 h-3 rounded border-2 border-dashed border-gray-200 bg-gray-50"></span>
+                  {settings?.hideGapSlots ? t('legendHidden') : t('legendGap')}
+                </span>
+              </div>
+            </>
+          )
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">{settings?.enabled ? t('configHint') : t('disabledHint')}</p>
+    </div>
+  );
+}
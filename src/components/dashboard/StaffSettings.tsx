@@ -0,0 +1,526 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslations } from 'next-intl';
+
+type DayOfWeek = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+interface HoursRange {
+  open: string;
+  close: string;
+}
+
+interface DailyHours {
+  day: DayOfWeek;
+  enabled: boolean;
+  slots: HoursRange[];
+}
+
+interface StaffMember {
+  id: string;
+  name: string;
+  email: string;
+  status: 'invited' | 'active';
+  weekly_hours: DailyHours[] | null;
+  service_ids: string[];
+}
+
+interface StaffLimits {
+  currentCount: number;
+  maxAllowed: number;
+  canInvite: boolean;
+}
+
+interface ServiceOption {
+  id: string;
+  name: string;
+  duration_minutes: number;
+}
+
+interface StaffSettingsProps {
+  businessId: string;
+  accessToken: string | null;
+}
+
+// maxStaff of the unlimited tier (see pricing-tiers.ts)
+const UNLIMITED_SEATS = 999999;
+
+const DAYS: DayOfWeek[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+function defaultWeeklyHours(): DailyHours[] {
+  return DAYS.map(day => ({
+    day,
+    enabled: day !== 'saturday' && day !== 'sunday',
+    slots: [{ open: '09:00', close: '17:00' }],
+  }));
+}
+
+/**
+ * Staff members of a business: invite people by email, choose the services
+ * each one performs and set their weekly hours (or leave them on business
+ * hours). Used in the Staff category of the settings page.
+ */
+export function StaffSettings({ businessId, accessToken }: StaffSettingsProps) {
+  const t = useTranslations('dashboard.settings.staff');
+  const td = useTranslations('days');
+
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [limits, setLimits] = useState<StaffLimits | null>(null);
+  const [services, setServices] = useState<ServiceOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Invite form
+  const [showForm, setShowForm] = useState(false);
+  const [formName, setFormName] = useState('');
+  const [formEmail, setFormEmail] = useState('');
+  const [formServiceIds, setFormServiceIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Services and hours of the staff member being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editServiceIds, setEditServiceIds] = useState<string[]>([]);
+  const [editHours, setEditHours] = useState<DailyHours[] | null>(null);
+
+  const authHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${accessToken}`,
+  }), [accessToken]);
+
+  const fetchStaff = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [staffRes, servicesRes] = await Promise.all([
+        fetch(`/api/staff?businessId=${businessId}`, { headers: authHeaders() }),
+        fetch(`/api/services?businessId=${businessId}`, { headers: authHeaders() }),
+      ]);
+
+      if (!staffRes.ok || !servicesRes.ok) {
+        throw new Error(t('loadFailed'));
+      }
+
+      const data = await staffRes.json();
+      setStaff(data.staff || []);
+      setLimits(data.limits || null);
+      setServices(await servicesRes.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, authHeaders, t]);
+
+  useEffect(() => {
+    if (businessId && accessToken) {
+      fetchStaff();
+    }
+  }, [businessId, accessToken, fetchStaff]);
+
+  function toggleId(ids: string[], id: string) {
+    return ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+  }
+
+  function resetForm() {
+    setShowForm(false);
+    setFormName('');
+    setFormEmail('');
+    setFormServiceIds([]);
+  }
+
+  async function handleInvite(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
+    setSaving(true);
+
+    try {
+      const res = await fetch('/api/staff', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          businessId,
+          name: formName.trim(),
+          email: formEmail.trim(),
+          serviceIds: formServiceIds,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || t('saveFailed'));
+      }
+
+      setNotice(data.emailSent ? t('invited', { email: data.staff.email }) : t('inviteEmailFailed'));
+      resetForm();
+      await fetchStaff();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function updateStaff(staffId: string, body: Record<string, unknown>) {
+    setError(null);
+    setNotice(null);
+
+    const res = await fetch(`/api/staff/${staffId}`, {
+      method: 'PATCH',
+      headers: authHeaders(),
+      body: JSON.stringify(body),
+    });
+
+    const data = await res.json();
+
+    if (!res.ok) {
+      throw new Error(data.details?.[0]?.message || data.error || t('saveFailed'));
+    }
+
+    return data;
+  }
+
+  function startEditing(member: StaffMember) {
+    setEditingId(member.id);
+    setEditServiceIds(member.service_ids);
+    setEditHours(member.weekly_hours);
+  }
+
+  async function handleSaveEdit(staffId: string) {
+    setSaving(true);
+
+    try {
+      await updateStaff(staffId, { serviceIds: editServiceIds, weeklyHours: editHours });
+      setEditingId(null);
+      setNotice(t('saved'));
+      await fetchStaff();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleResendInvite(member: StaffMember) {
+    try {
+      const data = await updateStaff(member.id, { resendInvite: true });
+      setNotice(data.emailSent ? t('invited', { email: member.email }) : t('inviteEmailFailed'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    }
+  }
+
+  async function handleRemove(member: StaffMember) {
+    if (!confirm(t('removeConfirm', { name: member.name }))) return;
+    setError(null);
+    setNotice(null);
+
+    try {
+      const res = await fetch(`/api/staff/${member.id}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || t('saveFailed'));
+      }
+
+      if (editingId === member.id) {
+        setEditingId(null);
+      }
+      await fetchStaff();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    }
+  }
+
+  function updateDay(day: DayOfWeek, update: (hours: DailyHours) => DailyHours) {
+    setEditHours(current => current && current.map(hours => (hours.day === day ? update(hours) : hours)));
+  }
+
+  function updateRange(day: DayOfWeek, index: number, field: keyof HoursRange, value: string) {
+    updateDay(day, hours => ({
+      ...hours,
+      slots: hours.slots.map((range, i) => (i === index ? { ...range, [field]: value } : range)),
+    }));
+  }
+
+  function formatHours(hours: DailyHours[] | null) {
+    if (!hours) return t('businessHours');
+
+    return hours
+      .filter(day => day.enabled && day.slots.length > 0)
+      .map(day => `${td(day.day)} ${day.slots.map(range => `${range.open}–${range.close}`).join(', ')}`)
+      .join(' · ') || t('noHours');
+  }
+
+  function serviceNames(serviceIds: string[]) {
+    const names = services.filter(service => serviceIds.includes(service.id)).map(service => service.name);
+    return names.length > 0 ? names.join(', ') : t('noServices');
+  }
+
+  function renderServiceCheckboxes(selected: string[], onToggle: (id: string) => void) {
+    if (services.length === 0) {
+      return <p className="text-sm text-gray-500">{t('noServicesYet')}</p>;
+    }
+
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {services.map(service => (
+          <label key={service.id} className="flex items-center gap-3 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={selected.includes(service.id)}
+              onChange={() => onToggle(service.id)}
+              className="w-4 h-4 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+            />
+            {service.name} ({service.duration_minutes} min)
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        {limits ? (
+          <p className="text-sm text-gray-600">
+            {limits.maxAllowed >= UNLIMITED_SEATS
+              ? t('seatsUnlimited', { count: limits.currentCount })
+              : t('seats', { count: limits.currentCount, max: limits.maxAllowed })}
+          </p>
+        ) : <span />}
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            disabled={limits ? !limits.canInvite : false}
+            className="whitespace-nowrap px-5 py-2.5 bg-gradient-to-r from-teal-600 to-green-600 text-white rounded-xl font-semibold hover:shadow-lg hover:scale-[1.02] transition-all text-sm disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+          >
+            {t('inviteButton')}
+          </button>
+        )}
+      </div>
+
+      {limits && !limits.canInvite && (
+        <div className="mb-6 p-4 bg-amber-50/60 border border-amber-200/60 rounded-xl">
+          <p className="text-sm text-amber-900">{t('limitReached')}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50/50 border border-red-200/60 rounded-xl">
+          <p className="text-sm text-red-900">{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="mb-6 p-4 bg-green-50/50 border border-green-200/60 rounded-xl">
+          <p className="text-sm font-medium text-green-900">{notice}</p>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleInvite} className="mb-8 p-6 bg-gray-50/50 border border-gray-100 rounded-2xl space-y-5">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-900 mb-3">{t('name')}</label>
+              <input
+                type="text"
+                value={formName}
+                onChange={(e) => setFormName(e.target.value)}
+                maxLength={120}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-all bg-white text-gray-900 placeholder-gray-400"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-900 mb-3">{t('email')}</label>
+              <input
+                type="email"
+                value={formEmail}
+                onChange={(e) => setFormEmail(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-all bg-white text-gray-900 placeholder-gray-400"
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="block text-sm font-semibold text-gray-900 mb-3">{t('services')}</p>
+            {renderServiceCheckboxes(formServiceIds, id => setFormServiceIds(current => toggleId(current, id)))}
+          </div>
+
+          <p className="text-xs text-gray-500">{t('inviteHint')}</p>
+
+          <div className="flex gap-3 justify-end">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-5 py-2.5 text-sm font-semibold text-gray-700 hover:bg-gray-100 rounded-xl transition-all"
+            >
+              {t('cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-5 py-2.5 bg-gradient-to-r from-teal-600 to-green-600 text-white rounded-xl font-semibold hover:shadow-lg transition-all text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? t('saving') : t('sendInvite')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading && staff.length === 0 ? (
+        <div className="text-center py-16 bg-gray-50/50 rounded-2xl border border-gray-100">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-2 border-gray-200 border-t-teal-600"></div>
+        </div>
+      ) : staff.length === 0 ? (
+        <div className="text-center py-16 px-6 bg-gray-50/50 rounded-2xl border border-gray-100">
+          <h4 className="text-sm font-semibold text-gray-900 mb-1.5">{t('noStaff')}</h4>
+          <p className="text-sm text-gray-500">{t('noStaffDescription')}</p>
+        </div>
+      ) : (
+        <div className="border border-gray-100 rounded-2xl overflow-hidden divide-y divide-gray-100">
+          {staff.map((member) => (
+            <div key={member.id} className="p-6">
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`px-2 py-0.5 rounded-md text-xs font-semibold ${member.status === 'active' ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+                      {member.status === 'active' ? t('active') : t('invitedStatus')}
+                    </span>
+                    <p className="font-semibold text-gray-900 truncate">{member.name}</p>
+                  </div>
+                  <p className="text-sm text-gray-600 mb-2">{member.email}</p>
+                  <p className="text-xs text-gray-500">{serviceNames(member.service_ids)}</p>
+                  <p className="text-xs text-gray-500 mt-1">{formatHours(member.weekly_hours)}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => (editingId === member.id ? setEditingId(null) : startEditing(member))}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-all"
+                  >
+                    {editingId === member.id ? t('cancel') : t('edit')}
+                  </button>
+                  {member.status === 'invited' && (
+                    <button
+                      onClick={() => handleResendInvite(member)}
+                      className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-all"
+                    >
+                      {t('resendInvite')}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleRemove(member)}
+                    className="px-3 py-1.5 text-sm font-medium text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-all"
+                  >
+                    {t('remove')}
+                  </button>
+                </div>
+              </div>
+
+              {editingId === member.id && (
+                <div className="mt-5 p-5 bg-gray-50/50 border border-gray-100 rounded-xl space-y-6">
+                  <div>
+                    <p className="block text-sm font-semibold text-gray-900 mb-3">{t('services')}</p>
+                    {renderServiceCheckboxes(editServiceIds, id => setEditServiceIds(current => toggleId(current, id)))}
+                  </div>
+
+                  <div>
+                    <p className="block text-sm font-semibold text-gray-900 mb-3">{t('hours')}</p>
+                    <label className="flex items-center gap-3 text-sm text-gray-700 mb-4">
+                      <input
+                        type="checkbox"
+                        checked={editHours === null}
+                        onChange={(e) => setEditHours(e.target.checked ? null : defaultWeeklyHours())}
+                        className="w-4 h-4 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                      />
+                      {t('useBusinessHours')}
+                    </label>
+
+                    {editHours && (
+                      <div className="space-y-3">
+                        {editHours.map((hours) => (
+                          <div key={hours.day} className="flex flex-col sm:flex-row sm:items-start gap-3">
+                            <label className="flex items-center gap-3 text-sm font-medium text-gray-900 sm:w-36 sm:pt-2">
+                              <input
+                                type="checkbox"
+                                checked={hours.enabled}
+                                onChange={(e) => updateDay(hours.day, day => ({
+                                  ...day,
+                                  enabled: e.target.checked,
+                                  slots: day.slots.length > 0 ? day.slots : [{ open: '09:00', close: '17:00' }],
+                                }))}
+                                className="w-4 h-4 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                              />
+                              {td(hours.day)}
+                            </label>
+                            {hours.enabled ? (
+                              <div className="flex-1 space-y-2">
+                                {hours.slots.map((range, index) => (
+                                  <div key={index} className="flex items-center gap-2">
+                                    <input
+                                      type="time"
+                                      value={range.open}
+                                      onChange={(e) => updateRange(hours.day, index, 'open', e.target.value)}
+                                      className="px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-900 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                                    />
+                                    <span className="text-gray-400">–</span>
+                                    <input
+                                      type="time"
+                                      value={range.close}
+                                      onChange={(e) => updateRange(hours.day, index, 'close', e.target.value)}
+                                      className="px-3 py-2 border border-gray-200 rounded-xl text-sm text-gray-900 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                                    />
+                                    {hours.slots.length > 1 && (
+                                      <button
+                                        type="button"
+                                        onClick={() => updateDay(hours.day, day => ({ ...day, slots: day.slots.filter((_, i) => i !== index) }))}
+                                        className="px-2 py-1 text-sm text-gray-500 hover:text-red-600 rounded-lg transition-all"
+                                      >
+                                        {t('removeRange')}
+                                      </button>
+                                    )}
+                                  </div>
+                                ))}
+                                <button
+                                  type="button"
+                                  onClick={() => updateDay(hours.day, day => ({ ...day, slots: [...day.slots, { open: '14:00', close: '18:00' }] }))}
+                                  className="text-sm font-medium text-teal-700 hover:text-teal-800"
+                                >
+                                  {t('addRange')}
+                                </button>
+                              </div>
+                            ) : (
+                              <p className="text-sm text-gray-500 sm:pt-2">{t('dayOff')}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex justify-end">
+                    <button
+                      onClick={() => handleSaveEdit(member.id)}
+                      disabled={saving}
+                      className="px-5 py-2.5 bg-gradient-to-r from-teal-600 to-green-600 text-white rounded-xl font-semibold hover:shadow-lg transition-all text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {saving ? t('saving') : t('save')}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
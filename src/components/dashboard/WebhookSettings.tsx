@@ -0,0 +1,491 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslations } from 'next-intl';
+
+type WebhookEventType =
+  | 'booking_created'
+  | 'booking_canceled'
+  | 'booking_rescheduled'
+  | 'no_show_marked'
+  | 'appointment_completed';
+
+type DeliveryStatus = 'pending' | 'sent' | 'failed' | 'retrying' | 'dead_letter';
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  enabled: boolean;
+  created_at: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  event_type: WebhookEventType;
+  status: DeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  error_message: string | null;
+  last_attempt_at: string | null;
+  replay_of: string | null;
+  created_at: string;
+}
+
+interface WebhookSettingsProps {
+  businessId: string;
+  accessToken: string | null;
+}
+
+const STATUS_STYLES: Record<DeliveryStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  sent: 'bg-green-100 text-green-700',
+  retrying: 'bg-amber-100 text-amber-700',
+  failed: 'bg-red-100 text-red-700',
+  dead_letter: 'bg-red-100 text-red-700',
+};
+
+/**
+ * Webhook endpoints of a business: register URLs, choose events, and inspect
+ * or replay deliveries. Used in the Integrations category of the settings page.
+ */
+export function WebhookSettings({ businessId, accessToken }: WebhookSettingsProps) {
+  const t = useTranslations('dashboard.settings.webhooks');
+
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [availableEvents, setAvailableEvents] = useState<WebhookEventType[]>([]);
+  const [hasAccess, setHasAccess] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Shown once after creating an endpoint or rotating its secret
+  const [revealedSecret, setRevealedSecret] = useState<{ endpointId: string; secret: string } | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [formUrl, setFormUrl] = useState('');
+  const [formDescription, setFormDescription] = useState('');
+  const [formEvents, setFormEvents] = useState<WebhookEventType[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const [openDeliveries, setOpenDeliveries] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false);
+
+  const authHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${accessToken}`,
+  }), [accessToken]);
+
+  const fetchEndpoints = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/settings/webhooks?businessId=${businessId}`, {
+        headers: authHeaders(),
+      });
+
+      if (!res.ok) {
+        throw new Error(t('loadFailed'));
+      }
+
+      const data = await res.json();
+      setEndpoints(data.endpoints || []);
+      setAvailableEvents(data.events || []);
+      setHasAccess(data.hasAccess !== false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, authHeaders, t]);
+
+  useEffect(() => {
+    if (businessId && accessToken) {
+      fetchEndpoints();
+    }
+  }, [businessId, accessToken, fetchEndpoints]);
+
+  async function fetchDeliveries(endpointId: string) {
+    setLoadingDeliveries(true);
+
+    try {
+      const res = await fetch(`/api/settings/webhooks/${endpointId}/deliveries`, {
+        headers: authHeaders(),
+      });
+
+      if (!res.ok) {
+        throw new Error(t('loadFailed'));
+      }
+
+      const data = await res.json();
+      setDeliveries(data.deliveries || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadFailed'));
+      setDeliveries([]);
+    } finally {
+      setLoadingDeliveries(false);
+    }
+  }
+
+  function toggleDeliveries(endpointId: string) {
+    if (openDeliveries === endpointId) {
+      setOpenDeliveries(null);
+      return;
+    }
+
+    setOpenDeliveries(endpointId);
+    fetchDeliveries(endpointId);
+  }
+
+  function toggleFormEvent(event: WebhookEventType) {
+    setFormEvents((current) =>
+      current.includes(event) ? current.filter((e) => e !== event) : [...current, event]
+    );
+  }
+
+  function resetForm() {
+    setShowForm(false);
+    setFormUrl('');
+    setFormDescription('');
+    setFormEvents([]);
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+
+    try {
+      const res = await fetch('/api/settings/webhooks', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          businessId,
+          url: formUrl.trim(),
+          description: formDescription.trim() || undefined,
+          events: formEvents,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.message || data.details?.[0]?.message || data.error || t('saveFailed'));
+      }
+
+      setRevealedSecret({ endpointId: data.endpoint.id, secret: data.endpoint.secret });
+      resetForm();
+      await fetchEndpoints();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function updateEndpoint(endpointId: string, body: Record<string, unknown>) {
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/settings/webhooks/${endpointId}`, {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify(body),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || t('saveFailed'));
+      }
+
+      if (data.secret) {
+        setRevealedSecret({ endpointId, secret: data.secret });
+      }
+
+      await fetchEndpoints();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    }
+  }
+
+  async function handleRotateSecret(endpointId: string) {
+    if (!confirm(t('rotateConfirm'))) return;
+    await updateEndpoint(endpointId, { rotateSecret: true });
+  }
+
+  async function handleDelete(endpointId: string) {
+    if (!confirm(t('deleteConfirm'))) return;
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/settings/webhooks/${endpointId}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || t('saveFailed'));
+      }
+
+      if (openDeliveries === endpointId) {
+        setOpenDeliveries(null);
+      }
+      await fetchEndpoints();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    }
+  }
+
+  async function handleReplay(endpointId: string, deliveryId: string) {
+    setError(null);
+    setNotice(null);
+
+    try {
+      const res = await fetch(`/api/settings/webhooks/deliveries/${deliveryId}/replay`, {
+        method: 'POST',
+        headers: authHeaders(),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || t('replayFailed'));
+      }
+
+      setNotice(t('replayed'));
+      await fetchDeliveries(endpointId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('replayFailed'));
+    }
+  }
+
+  function formatDateTime(value: string) {
+    return new Date(value).toLocaleString(undefined, {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  if (!hasAccess) {
+    return (
+      <div className="text-center py-16 px-6 bg-gray-50/50 rounded-2xl border border-gray-100">
+        <h4 className="text-sm font-semibold text-gray-900 mb-1.5">{t('upgradeTitle')}</h4>
+        <p className="text-sm text-gray-500">{t('upgradeDescription')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {!showForm && (
+        <div className="flex justify-end mb-6">
+          <button
+            onClick={() => setShowForm(true)}
+            className="whitespace-nowrap px-5 py-2.5 bg-gradient-to-r from-teal-600 to-green-600 text-white rounded-xl font-semibold hover:shadow-lg hover:scale-[1.02] transition-all text-sm"
+          >
+            {t('addButton')}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50/50 border border-red-200/60 rounded-xl">
+          <p className="text-sm text-red-900">{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="mb-6 p-4 bg-green-50/50 border border-green-200/60 rounded-xl">
+          <p className="text-sm font-medium text-green-900">{notice}</p>
+        </div>
+      )}
+
+      {revealedSecret && (
+        <div className="mb-6 p-4 bg-amber-50/60 border border-amber-200/60 rounded-xl">
+          <p className="text-sm font-semibold text-amber-900 mb-1">{t('secretTitle')}</p>
+          <p className="text-sm text-amber-800 mb-3">{t('secretHint')}</p>
+          <div className="flex items-center gap-3">
+            <code className="flex-1 min-w-0 px-3 py-2 bg-white border border-amber-200 rounded-lg text-xs text-gray-900 break-all">
+              {revealedSecret.secret}
+            </code>
+            <button
+              onClick={() => setRevealedSecret(null)}
+              className="px-4 py-2 text-sm font-medium text-amber-900 hover:bg-amber-100 rounded-lg transition-all"
+            >
+              {t('dismiss')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mb-8 p-6 bg-gray-50/50 border border-gray-100 rounded-2xl space-y-5">
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-3">{t('url')}</label>
+            <input
+              type="url"
+              value={formUrl}
+              onChange={(e) => setFormUrl(e.target.value)}
+              placeholder="https://"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-all bg-white text-gray-900 placeholder-gray-400"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-900 mb-3">{t('description')}</label>
+            <input
+              type="text"
+              value={formDescription}
+              onChange={(e) => setFormDescription(e.target.value)}
+              placeholder={t('descriptionPlaceholder')}
+              maxLength={200}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-all bg-white text-gray-900 placeholder-gray-400"
+            />
+          </div>
+
+          <div>
+            <p className="block text-sm font-semibold text-gray-900 mb-3">{t('events')}</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {availableEvents.map((event) => (
+                <label key={event} className="flex items-center gap-3 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formEvents.includes(event)}
+                    onChange={() => toggleFormEvent(event)}
+                    className="w-4 h-4 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                  />
+                  {t(`eventTypes.${event}`)}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-3 justify-end">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-5 py-2.5 text-sm font-semibold text-gray-700 hover:bg-gray-100 rounded-xl transition-all"
+            >
+              {t('cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={saving || formEvents.length === 0}
+              className="px-5 py-2.5 bg-gradient-to-r from-teal-600 to-green-600 text-white rounded-xl font-semibold hover:shadow-lg transition-all text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? t('saving') : t('save')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading && endpoints.length === 0 ? (
+        <div className="text-center py-16 bg-gray-50/50 rounded-2xl border border-gray-100">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-2 border-gray-200 border-t-teal-600"></div>
+        </div>
+      ) : endpoints.length === 0 ? (
+        <div className="text-center py-16 px-6 bg-gray-50/50 rounded-2xl border border-gray-100">
+          <h4 className="text-sm font-semibold text-gray-900 mb-1.5">{t('noEndpoints')}</h4>
+          <p className="text-sm text-gray-500">{t('noEndpointsDescription')}</p>
+        </div>
+      ) : (
+        <div className="border border-gray-100 rounded-2xl overflow-hidden divide-y divide-gray-100">
+          {endpoints.map((endpoint) => (
+            <div key={endpoint.id} className="p-6">
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`px-2 py-0.5 rounded-md text-xs font-semibold ${endpoint.enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                      {endpoint.enabled ? t('active') : t('paused')}
+                    </span>
+                    <p className="font-semibold text-gray-900 truncate">{endpoint.url}</p>
+                  </div>
+                  {endpoint.description && (
+                    <p className="text-sm text-gray-600 mb-2">{endpoint.description}</p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    {endpoint.events.map((event) => t(`eventTypes.${event}`)).join(' · ')}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => toggleDeliveries(endpoint.id)}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-all"
+                  >
+                    {openDeliveries === endpoint.id ? t('hideDeliveries') : t('deliveries')}
+                  </button>
+                  <button
+                    onClick={() => updateEndpoint(endpoint.id, { enabled: !endpoint.enabled })}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-all"
+                  >
+                    {endpoint.enabled ? t('pause') : t('resume')}
+                  </button>
+                  <button
+                    onClick={() => handleRotateSecret(endpoint.id)}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-all"
+                  >
+                    {t('rotateSecret')}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(endpoint.id)}
+                    className="px-3 py-1.5 text-sm font-medium text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-all"
+                  >
+                    {t('delete')}
+                  </button>
+                </div>
+              </div>
+
+              {openDeliveries === endpoint.id && (
+                <div className="mt-5 border border-gray-100 rounded-xl overflow-hidden">
+                  {loadingDeliveries ? (
+                    <div className="text-center py-8">
+                      <div className="inline-block animate-spin rounded-full h-6 w-6 border-2 border-gray-200 border-t-teal-600"></div>
+                    </div>
+                  ) : deliveries.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-8">{t('noDeliveries')}</p>
+                  ) : (
+                    <div className="divide-y divide-gray-100">
+                      {deliveries.map((delivery) => (
+                        <div key={delivery.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-4 py-3 text-sm">
+                          <div className="flex items-center gap-3 min-w-0">
+                            <span className={`px-2 py-0.5 rounded-md text-xs font-semibold ${STATUS_STYLES[delivery.status]}`}>
+                              {t(`status.${delivery.status}`)}
+                            </span>
+                            <span className="font-medium text-gray-900">{t(`eventTypes.${delivery.event_type}`)}</span>
+                            <span className="text-gray-500">{formatDateTime(delivery.created_at)}</span>
+                          </div>
+                          <div className="flex items-center gap-3 text-gray-500">
+                            {delivery.response_status !== null && <span>HTTP {delivery.response_status}</span>}
+                            {delivery.error_message && delivery.response_status === null && (
+                              <span className="truncate max-w-[200px]" title={delivery.error_message}>{delivery.error_message}</span>
+                            )}
+                            <span>{t('attempts', { count: delivery.attempts })}</span>
+                            {delivery.status !== 'pending' && delivery.status !== 'retrying' && (
+                              <button
+                                onClick={() => handleReplay(endpoint.id, delivery.id)}
+                                className="px-3 py-1 text-sm font-medium text-teal-700 hover:bg-teal-50 rounded-lg transition-all"
+                              >
+                                {t('replay')}
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
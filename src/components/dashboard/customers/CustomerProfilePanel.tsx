@@ -0,0 +1,399 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+import { formatDate, formatTime } from '@/lib/calendar-utils';
+
+export interface CustomerListItem {
+  id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  user_id: string | null;
+  tags: string[];
+  visits: number;
+  spend_cents: number;
+  no_shows: number;
+  last_visit: string | null;
+}
+
+interface CustomerProfile {
+  id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  user_id: string | null;
+  tags: string[];
+  notes: string | null;
+}
+
+interface CustomerStats {
+  visits: number;
+  visits_this_year: number;
+  spend_cents: number;
+  no_shows: number;
+  cancellations: number;
+  upcoming: number;
+  first_visit: string | null;
+  last_visit: string | null;
+}
+
+interface CustomerAppointment {
+  id: string;
+  booking_id: string;
+  service_name: string | null;
+  price_cents: number | null;
+  slot_start: string;
+  status: 'confirmed' | 'canceled' | 'cancelled' | 'completed' | 'no_show';
+}
+
+interface CustomerProfilePanelProps {
+  customerId: string;
+  businessId: string;
+  accessToken: string | null;
+  onClose: () => void;
+  onChanged: () => void; // Tags, name or a merge changed the directory list
+}
+
+export function formatCents(cents: number, locale: string): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: 'EUR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(cents / 100);
+}
+
+/**
+ * One customer of the directory: lifetime numbers, tags, private notes,
+ * visit history, and merging a duplicate profile into this one.
+ */
+export function CustomerProfilePanel({ customerId, businessId, accessToken, onClose, onChanged }: CustomerProfilePanelProps) {
+  const t = useTranslations('dashboard.customers.profile');
+  const locale = useLocale();
+
+  const [customer, setCustomer] = useState<CustomerProfile | null>(null);
+  const [stats, setStats] = useState<CustomerStats | null>(null);
+  const [appointments, setAppointments] = useState<CustomerAppointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [tagInput, setTagInput] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [mergeQuery, setMergeQuery] = useState('');
+  const [mergeResults, setMergeResults] = useState<CustomerListItem[]>([]);
+  const [merging, setMerging] = useState(false);
+
+  const authHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${accessToken}`,
+  }), [accessToken]);
+
+  const fetchCustomer = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/customers/${customerId}`, { headers: authHeaders() });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || t('loadFailed'));
+      }
+
+      setCustomer(data.customer);
+      setStats(data.stats);
+      setAppointments(data.appointments || []);
+      setNotes(data.customer.notes || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [customerId, authHeaders, t]);
+
+  useEffect(() => {
+    setNotice(null);
+    setMergeQuery('');
+    setMergeResults([]);
+    fetchCustomer();
+  }, [fetchCustomer]);
+
+  // Merge candidates: other customers matching the search
+  useEffect(() => {
+    const query = mergeQuery.trim();
+    if (query.length < 2) {
+      setMergeResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(
+          `/api/customers?businessId=${businessId}&q=${encodeURIComponent(query)}&limit=8`,
+          { headers: authHeaders() }
+        );
+        if (!res.ok) return;
+        const data = await res.json();
+        setMergeResults((data.customers || []).filter((c: CustomerListItem) => c.id !== customerId));
+      } catch {
+        setMergeResults([]);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [mergeQuery, businessId, customerId, authHeaders]);
+
+  async function update(changes: { tags?: string[]; notes?: string | null }) {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const res = await fetch(`/api/customers/${customerId}`, {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify(changes),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || t('saveFailed'));
+      }
+
+      setCustomer(data.customer);
+      if (changes.notes !== undefined) setNotice(t('saved'));
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function addTag(e: React.FormEvent) {
+    e.preventDefault();
+    const tag = tagInput.trim();
+    if (!tag || !customer) return;
+    setTagInput('');
+    update({ tags: [...customer.tags, tag] });
+  }
+
+  async function merge(source: CustomerListItem) {
+    const sourceName = source.name || source.email || source.phone || t('unnamed');
+    if (!confirm(t('merge.confirm', { name: sourceName }))) return;
+
+    setMerging(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const res = await fetch(`/api/customers/${customerId}/merge`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ sourceId: source.id }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || t('merge.failed'));
+      }
+
+      setMergeQuery('');
+      setMergeResults([]);
+      await fetchCustomer();
+      setNotice(t('merge.merged', { count: data.movedAppointments }));
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('merge.failed'));
+    } finally {
+      setMerging(false);
+    }
+  }
+
+  if (loading && !customer) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="w-5 h-5 border-2 border-teal-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!customer || !stats) {
+    return (
+      <div className="py-10 text-center">
+        <p className="text-sm text-red-600">{error || t('loadFailed')}</p>
+        <button onClick={onClose} className="mt-4 text-sm font-semibold text-teal-700">{t('back')}</button>
+      </div>
+    );
+  }
+
+  const statCards = [
+    { label: t('visits'), value: stats.visits },
+    { label: t('visitsThisYear'), value: stats.visits_this_year },
+    { label: t('spend'), value: formatCents(stats.spend_cents, locale) },
+    { label: t('noShows'), value: stats.no_shows },
+    { label: t('cancellations'), value: stats.cancellations },
+    { label: t('upcoming'), value: stats.upcoming },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <h3 className="text-lg sm:text-xl font-bold text-gray-900 truncate">{customer.name || t('unnamed')}</h3>
+          <p className="text-sm text-gray-500 truncate">
+            {[customer.email, customer.phone].filter(Boolean).join(' · ')}
+          </p>
+          {customer.user_id && (
+            <span className="inline-block mt-1 px-2 py-0.5 text-xs font-medium text-teal-700 bg-teal-50 rounded-lg">
+              {t('registered')}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-400 hover:text-gray-900 hover:bg-gray-50 rounded-xl transition-all"
+          aria-label={t('back')}
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {notice && <p className="text-sm text-teal-700">{notice}</p>}
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {statCards.map(card => (
+          <div key={card.label} className="border border-gray-100 rounded-xl p-3">
+            <p className="text-xs text-gray-500">{card.label}</p>
+            <p className="text-lg font-bold text-gray-900">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {stats.last_visit
+          ? t('lastVisit', { date: formatDate(new Date(stats.last_visit), 'short', locale) })
+          : t('noVisits')}
+        {stats.first_visit && ` · ${t('firstVisit', { date: formatDate(new Date(stats.first_visit), 'short', locale) })}`}
+      </p>
+
+      {/* Tags */}
+      <section>
+        <h4 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-2">{t('tags')}</h4>
+        <div className="flex flex-wrap items-center gap-2">
+          {customer.tags.map(tag => (
+            <span key={tag} className="inline-flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-lg">
+              {tag}
+              <button
+                onClick={() => update({ tags: customer.tags.filter(existing => existing !== tag) })}
+                disabled={saving}
+                className="text-gray-400 hover:text-gray-900"
+                aria-label={t('removeTag', { tag })}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <form onSubmit={addTag}>
+            <input
+              type="text"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder={t('addTag')}
+              maxLength={32}
+              disabled={saving}
+              className="w-32 px-2.5 py-1 text-xs bg-white border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+            />
+          </form>
+        </div>
+      </section>
+
+      {/* Notes */}
+      <section>
+        <h4 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-2">{t('notes')}</h4>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder={t('notesPlaceholder')}
+          rows={3}
+          maxLength={5000}
+          className="w-full px-3 py-2 text-sm bg-white border border-gray-200 rounded-xl focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+        />
+        <button
+          onClick={() => update({ notes: notes.trim() || null })}
+          disabled={saving || notes === (customer.notes || '')}
+          className="mt-2 px-4 py-2 text-xs sm:text-sm font-semibold text-white bg-gradient-to-r from-teal-600 to-green-600 rounded-xl disabled:opacity-50"
+        >
+          {saving ? t('saving') : t('saveNotes')}
+        </button>
+      </section>
+
+      {/* History */}
+      <section>
+        <h4 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-2">{t('history')}</h4>
+        {appointments.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('noHistory')}</p>
+        ) : (
+          <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-xl">
+            {appointments.map(appointment => (
+              <li key={appointment.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="text-gray-900 truncate">{appointment.service_name}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(new Date(appointment.slot_start), 'short', locale)} · {formatTime(new Date(appointment.slot_start), locale)}
+                  </p>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className="text-xs font-medium text-gray-700">{t(`status.${appointment.status === 'cancelled' ? 'canceled' : appointment.status}`)}</p>
+                  {appointment.price_cents != null && (
+                    <p className="text-xs text-gray-500">{formatCents(appointment.price_cents, locale)}</p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* Merge */}
+      <section>
+        <h4 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-1">{t('merge.title')}</h4>
+        <p className="text-xs text-gray-500 mb-2">{t('merge.description')}</p>
+        <input
+          type="text"
+          value={mergeQuery}
+          onChange={(e) => setMergeQuery(e.target.value)}
+          placeholder={t('merge.searchPlaceholder')}
+          disabled={merging}
+          className="w-full px-3 py-2 text-sm bg-white border border-gray-200 rounded-xl focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+        />
+        {mergeResults.length > 0 && (
+          <ul className="mt-2 divide-y divide-gray-100 border border-gray-100 rounded-xl">
+            {mergeResults.map(result => (
+              <li key={result.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="text-gray-900 truncate">{result.name || t('unnamed')}</p>
+                  <p className="text-xs text-gray-500 truncate">{[result.email, result.phone].filter(Boolean).join(' · ')}</p>
+                </div>
+                <button
+                  onClick={() => merge(result)}
+                  disabled={merging}
+                  className="px-3 py-1.5 text-xs font-semibold text-teal-700 border border-teal-200 hover:bg-teal-50 rounded-xl disabled:opacity-50"
+                >
+                  {t('merge.button')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
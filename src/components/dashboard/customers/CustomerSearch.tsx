@@ -0,0 +1,84 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { apiRequest } from '@/lib/auth/api-client';
+import type { CustomerListItem } from './CustomerProfilePanel';
+
+interface CustomerSearchProps {
+  businessId: string;
+  onSelect: (customer: CustomerListItem) => void;
+}
+
+/**
+ * Find an existing customer in the directory and fill the booking form with
+ * their details. Renders nothing on plans without the customer directory.
+ */
+export function CustomerSearch({ businessId, onSelect }: CustomerSearchProps) {
+  const t = useTranslations('dashboard.customers.search');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<CustomerListItem[]>([]);
+  const [available, setAvailable] = useState(true);
+
+  useEffect(() => {
+    const search = query.trim();
+    if (search.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiRequest<{ customers: CustomerListItem[] }>(
+          `/api/customers?businessId=${businessId}&q=${encodeURIComponent(search)}&limit=6`
+        );
+        setResults(response.customers);
+      } catch (error) {
+        if ((error as { status?: number }).status === 403) {
+          setAvailable(false);
+        }
+        setResults([]);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [query, businessId]);
+
+  if (!available) return null;
+
+  return (
+    <div className="relative">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={t('placeholder')}
+        className="w-full px-3 sm:px-4 py-2.5 sm:py-3 bg-gray-50 border border-gray-200 rounded-xl text-sm text-gray-900 placeholder-gray-400 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-all"
+      />
+      {results.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-xl shadow-lg divide-y divide-gray-100 overflow-hidden">
+          {results.map(customer => (
+            <li key={customer.id}>
+              <button
+                type="button"
+                onClick={() => {
+                  onSelect(customer);
+                  setQuery('');
+                  setResults([]);
+                }}
+                className="w-full px-4 py-2.5 text-left hover:bg-gray-50 transition-all"
+              >
+                <p className="text-sm font-semibold text-gray-900 truncate">{customer.name || customer.email}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {[customer.email, customer.phone].filter(Boolean).join(' · ')}
+                  {' · '}
+                  {t('visits', { count: customer.visits })}
+                </p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
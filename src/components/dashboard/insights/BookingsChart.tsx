@@ -4,10 +4,12 @@ import { useState, useEffect } from 'react';
 import { useTranslations } from 'next-intl';
 import { Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Area, AreaChart } from 'recharts';
 import { getAccessToken } from '@/lib/auth/api-client';
+import { DeltaBadge } from './DeltaBadge';
+import { buildInsightsQuery, formatBucketLabel, InsightsRange, StatDelta } from './insights-range';
 
 interface BookingsChartProps {
   businessId: string | null;
-  timeRange: '7d' | '30d' | '90d';
+  range: InsightsRange;
 }
 
 interface BookingData {
@@ -21,7 +23,7 @@ interface ChartData {
   formattedDate: string;
 }
 
-export function BookingsChart({ businessId, timeRange }: BookingsChartProps) {
+export function BookingsChart({ businessId, range }: BookingsChartProps) {
   const t = useTranslations('dashboard.insights.bookings');
   const [data, setData] = useState<BookingData[]>([]);
   const [loading, setLoading] = useState(true);
@@ -31,6 +33,9 @@ export function BookingsChart({ businessId, timeRange }: BookingsChartProps) {
     cancelled: 0,
     upcoming: 0
   });
+  const [comparison, setComparison] = useState<Record<keyof typeof stats, StatDelta> | null>(null);
+  const [period, setPeriod] = useState<{ startDate: string; endDate: string } | null>(null);
+  const query = businessId ? buildInsightsQuery(businessId, range) : '';
 
   useEffect(() => {
     async function fetchData() {
@@ -47,13 +52,15 @@ export function BookingsChart({ businessId, timeRange }: BookingsChartProps) {
           headers['Authorization'] = `Bearer ${token}`;
         }
 
-        const response = await fetch(`/api/insights/bookings?businessId=${businessId}&timeRange=${timeRange}`, {
+        const response = await fetch(`/api/insights/bookings?${query}`, {
           headers
         });
         if (response.ok) {
           const result = await response.json();
           setData(result.chartData || []);
           setStats(result.stats || { total: 0, completed: 0, cancelled: 0, upcoming: 0 });
+          setComparison(result.comparison || null);
+          setPeriod(result.period || null);
         } else {
           console.error('Failed to fetch bookings data:', response.status, response.statusText);
         }
@@ -65,23 +72,18 @@ export function BookingsChart({ businessId, timeRange }: BookingsChartProps) {
     }
 
     fetchData();
-  }, [businessId, timeRange]);
+  }, [businessId, query]);
 
   // Transform data for chart with formatted dates
   const chartData: ChartData[] = data.map((item) => ({
     ...item,
-    formattedDate: new Date(item.date).toLocaleDateString(undefined, {
-      month: 'short',
-      day: 'numeric',
-      year: data.length > 60 ? 'numeric' : undefined
-    })
+    formattedDate: formatBucketLabel(
+      item.date,
+      range.granularity,
+      !!period && period.startDate.slice(0, 4) !== period.endDate.slice(0, 4)
+    )
   }));
 
-  // Debug: log data
-  if (chartData.length > 0) {
-    console.log('Chart data:', chartData.slice(0, 3), 'Total points:', chartData.length);
-  }
-
   return (
     <div className="bg-white border border-gray-200/60 rounded-2xl p-4 md:p-5 lg:p-8 shadow-sm transition-all hover:shadow-md">
       {/* Header */}
@@ -95,18 +97,22 @@ export function BookingsChart({ businessId, timeRange }: BookingsChartProps) {
         <div className="bg-gray-50/80 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-gray-100">
           <p className="text-[10px] sm:text-xs text-gray-500 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.total')}</p>
           <p className="text-xl md:text-2xl lg:text-3xl font-bold text-gray-900 tracking-tight">{stats.total}</p>
+          <DeltaBadge delta={comparison?.total} />
         </div>
         <div className="bg-gradient-to-br from-green-50 to-green-100/50 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-green-200/50">
           <p className="text-[10px] sm:text-xs text-green-700 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.completed')}</p>
           <p className="text-xl md:text-2xl lg:text-3xl font-bold text-green-600 tracking-tight">{stats.completed}</p>
+          <DeltaBadge delta={comparison?.completed} />
         </div>
         <div className="bg-gradient-to-br from-teal-50 to-teal-100/50 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-teal-200/50">
           <p className="text-[10px] sm:text-xs text-teal-700 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.upcoming')}</p>
           <p className="text-xl md:text-2xl lg:text-3xl font-bold text-teal-600 tracking-tight">{stats.upcoming}</p>
+          <DeltaBadge delta={comparison?.upcoming} />
         </div>
         <div className="bg-gray-100/80 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-gray-200">
           <p className="text-[10px] sm:text-xs text-gray-600 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.cancelled')}</p>
           <p className="text-xl md:text-2xl lg:text-3xl font-bold text-gray-700 tracking-tight">{stats.cancelled}</p>
+          <DeltaBadge delta={comparison?.cancelled} lowerIsBetter />
         </div>
       </div>
 
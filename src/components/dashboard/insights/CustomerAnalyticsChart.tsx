@@ -0,0 +1,205 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { Bar, BarChart, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { getAccessToken } from '@/lib/auth/api-client';
+import { DeltaBadge } from './DeltaBadge';
+import { buildInsightsQuery, formatBucketLabel, InsightsRange, StatDelta } from './insights-range';
+
+interface CustomerAnalyticsChartProps {
+  businessId: string | null;
+  range: InsightsRange;
+  onUpgrade: () => void;
+}
+
+interface CustomerAnalyticsData {
+  customers: number;
+  newCustomers: number;
+  returningCustomers: number;
+  repeatVisitRate: number;
+  chartData: { date: string; newCustomers: number; returningCustomers: number }[];
+  cohorts: { cohort: string; size: number; retention: number[] }[] | null;
+  comparison: Record<'customers' | 'newCustomers' | 'returningCustomers' | 'repeatVisitRate', StatDelta>;
+  period: { startDate: string; endDate: string; granularity: InsightsRange['granularity'] };
+  analyticsLevel: 'basic' | 'advanced';
+}
+
+export function CustomerAnalyticsChart({ businessId, range, onUpgrade }: CustomerAnalyticsChartProps) {
+  const t = useTranslations('dashboard.insights.customers');
+  const [data, setData] = useState<CustomerAnalyticsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const query = businessId ? buildInsightsQuery(businessId, range) : '';
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!businessId) {
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      try {
+        const token = getAccessToken();
+        const headers: HeadersInit = {};
+        if (token) {
+          headers['Authorization'] = `Bearer ${token}`;
+        }
+
+        const response = await fetch(`/api/insights/customers?${query}`, {
+          headers
+        });
+        if (response.ok) {
+          setData(await response.json());
+        } else {
+          console.error('Failed to fetch customer analytics:', response.status, response.statusText);
+        }
+      } catch (error) {
+        console.error('Failed to fetch customer analytics:', error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [businessId, query]);
+
+  const spansYears = !!data && data.period.startDate.slice(0, 4) !== data.period.endDate.slice(0, 4);
+  const chartData = (data?.chartData || []).map((item) => ({
+    ...item,
+    formattedDate: formatBucketLabel(item.date, data!.period.granularity, spansYears)
+  }));
+
+  return (
+    <div className="bg-white border border-gray-200/60 rounded-2xl p-4 md:p-5 lg:p-8 shadow-sm transition-all hover:shadow-md">
+      {/* Header */}
+      <div className="mb-4 md:mb-5 lg:mb-8">
+        <h3 className="text-lg md:text-xl lg:text-2xl font-bold text-gray-900 tracking-tight">{t('title')}</h3>
+        <p className="text-xs md:text-sm text-gray-500 mt-1">{t('subtitle')}</p>
+      </div>
+
+      {/* Stats Grid */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 md:gap-2.5 lg:gap-3 mb-4 md:mb-5 lg:mb-8">
+        <div className="bg-gray-50/80 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-gray-100">
+          <p className="text-[10px] sm:text-xs text-gray-500 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.customers')}</p>
+          <p className="text-xl md:text-2xl lg:text-3xl font-bold text-gray-900 tracking-tight">{data?.customers ?? 0}</p>
+          <DeltaBadge delta={data?.comparison.customers} />
+        </div>
+        <div className="bg-gradient-to-br from-teal-50 to-teal-100/50 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-teal-200/50">
+          <p className="text-[10px] sm:text-xs text-teal-700 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.new')}</p>
+          <p className="text-xl md:text-2xl lg:text-3xl font-bold text-teal-600 tracking-tight">{data?.newCustomers ?? 0}</p>
+          <DeltaBadge delta={data?.comparison.newCustomers} />
+        </div>
+        <div className="bg-gradient-to-br from-green-50 to-green-100/50 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-green-200/50">
+          <p className="text-[10px] sm:text-xs text-green-700 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.returning')}</p>
+          <p className="text-xl md:text-2xl lg:text-3xl font-bold text-green-600 tracking-tight">{data?.returningCustomers ?? 0}</p>
+          <DeltaBadge delta={data?.comparison.returningCustomers} />
+        </div>
+        <div className="bg-gray-50/80 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-gray-100">
+          <p className="text-[10px] sm:text-xs text-gray-500 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.repeatRate')}</p>
+          <p className="text-xl md:text-2xl lg:text-3xl font-bold text-gray-900 tracking-tight">{data?.repeatVisitRate ?? 0}%</p>
+          <DeltaBadge delta={data?.comparison.repeatVisitRate} />
+        </div>
+      </div>
+
+      {/* Chart */}
+      {loading ? (
+        <div className="h-48 md:h-56 lg:h-64 flex items-center justify-center bg-gray-50/50 rounded-xl md:rounded-2xl border border-gray-100">
+          <div className="flex items-center gap-2 md:gap-3">
+            <div className="w-4 h-4 md:w-5 md:h-5 border-2 border-teal-500 border-t-transparent rounded-full animate-spin" />
+            <span className="text-xs md:text-sm text-gray-500 font-medium">{t('loading')}</span>
+          </div>
+        </div>
+      ) : !data || data.customers === 0 ? (
+        <div className="h-48 md:h-56 lg:h-64 flex flex-col items-center justify-center bg-gray-50/50 rounded-xl md:rounded-2xl border border-gray-100">
+          <p className="text-gray-700 text-xs md:text-sm font-semibold">{t('noData')}</p>
+          <p className="text-gray-400 text-[10px] md:text-xs mt-1">{t('noDataSubtext')}</p>
+        </div>
+      ) : (
+        <div className="w-full h-48 md:h-56 lg:h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} margin={{ top: 10, right: 5, left: -20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="0" stroke="#f3f4f6" vertical={false} />
+              <XAxis
+                dataKey="formattedDate"
+                stroke="transparent"
+                tick={{ fill: '#9ca3af', fontSize: 10, fontWeight: 500 }}
+                tickLine={false}
+                axisLine={{ stroke: '#f3f4f6', strokeWidth: 1 }}
+                height={40}
+                angle={-45}
+                textAnchor="end"
+                interval="preserveStartEnd"
+              />
+              <YAxis
+                stroke="transparent"
+                tick={{ fill: '#9ca3af', fontSize: 9, fontWeight: 500 }}
+                tickLine={false}
+                axisLine={{ stroke: '#f3f4f6', strokeWidth: 1 }}
+                allowDecimals={false}
+                width={45}
+              />
+              <Bar dataKey="newCustomers" stackId="customers" fill="#14b8a6" name={t('stats.new')} />
+              <Bar dataKey="returningCustomers" stackId="customers" fill="#10b981" fillOpacity={0.45} name={t('stats.returning')} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {/* Retention Cohorts */}
+      {data && !loading && (
+        <div className="mt-4 md:mt-6">
+          <h4 className="text-sm font-bold text-gray-900 mb-1">{t('cohorts.title')}</h4>
+          {data.analyticsLevel !== 'advanced' ? (
+            <div className="flex items-center justify-between gap-3 p-3 bg-gray-50 border border-gray-100 rounded-xl">
+              <p className="text-xs text-gray-500">{t('cohorts.locked')}</p>
+              <button
+                onClick={onUpgrade}
+                className="px-3 py-1.5 text-xs font-semibold text-white bg-gradient-to-r from-teal-500 to-green-500 rounded-lg hover:shadow-md transition-all flex-shrink-0"
+              >
+                {t('upgrade')}
+              </button>
+            </div>
+          ) : data.cohorts && data.cohorts.length > 0 ? (
+            <div className="overflow-x-auto">
+              <p className="text-xs text-gray-500 mb-3">{t('cohorts.subtitle')}</p>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left font-semibold py-1.5 pr-3">{t('cohorts.month')}</th>
+                    <th className="text-right font-semibold py-1.5 pr-3">{t('cohorts.size')}</th>
+                    {data.cohorts[0].retention.map((_, index) => (
+                      <th key={index} className="text-right font-semibold py-1.5 px-1.5">{t('cohorts.offset', { month: index + 1 })}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.cohorts.map((cohort) => (
+                    <tr key={cohort.cohort} className="border-t border-gray-100">
+                      <td className="py-1.5 pr-3 font-semibold text-gray-900">
+                        {new Date(`${cohort.cohort}-01T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' })}
+                      </td>
+                      <td className="py-1.5 pr-3 text-right text-gray-700">{cohort.size}</td>
+                      {cohort.retention.map((rate, index) => (
+                        <td key={index} className="py-1.5 px-1.5 text-right">
+                          <span
+                            className="inline-block min-w-[3rem] px-1.5 py-0.5 rounded-md text-gray-900"
+                            style={{ backgroundColor: `rgba(20, 184, 166, ${Math.min(rate / 100, 1) * 0.6 + 0.05})` }}
+                          >
+                            {rate}%
+                          </span>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">{t('cohorts.empty')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
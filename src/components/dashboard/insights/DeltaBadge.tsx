@@ -0,0 +1,34 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import type { StatDelta } from './insights-range';
+
+interface DeltaBadgeProps {
+  delta?: StatDelta;
+  // For stats where a rise is bad news (cancellations, no-shows)
+  lowerIsBetter?: boolean;
+}
+
+/**
+ * Change of a stat against the previous period of the same length
+ */
+export function DeltaBadge({ delta, lowerIsBetter = false }: DeltaBadgeProps) {
+  const t = useTranslations('dashboard.insights.comparison');
+
+  if (!delta) return null;
+
+  if (delta.change === 0) {
+    return <p className="text-[10px] md:text-xs text-gray-400 font-medium mt-0.5">{t('unchanged')}</p>;
+  }
+
+  const improved = lowerIsBetter ? delta.change < 0 : delta.change > 0;
+  const sign = delta.change > 0 ? '+' : '−';
+
+  return (
+    <p className={`text-[10px] md:text-xs font-semibold mt-0.5 ${improved ? 'text-green-600' : 'text-red-500'}`}>
+      {delta.changePercent === null
+        ? t('new')
+        : t('change', { change: `${sign}${Math.abs(delta.changePercent)}%` })}
+    </p>
+  );
+}
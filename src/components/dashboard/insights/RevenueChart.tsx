@@ -4,10 +4,12 @@ import { useState, useEffect } from 'react';
 import { useTranslations } from 'next-intl';
 import { Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Area, AreaChart } from 'recharts';
 import { getAccessToken } from '@/lib/auth/api-client';
+import { DeltaBadge } from './DeltaBadge';
+import { buildInsightsQuery, formatBucketLabel, InsightsRange, StatDelta } from './insights-range';
 
 interface RevenueChartProps {
   businessId: string | null;
-  timeRange: '7d' | '30d' | '90d';
+  range: InsightsRange;
 }
 
 interface RevenueData {
@@ -23,7 +25,7 @@ interface ChartData {
   formattedDate: string;
 }
 
-export function RevenueChart({ businessId, timeRange }: RevenueChartProps) {
+export function RevenueChart({ businessId, range }: RevenueChartProps) {
   const t = useTranslations('dashboard.insights.revenue');
   const [data, setData] = useState<RevenueData[]>([]);
   const [loading, setLoading] = useState(true);
@@ -32,6 +34,9 @@ export function RevenueChart({ businessId, timeRange }: RevenueChartProps) {
     totalBookings: 0,
     averageBookingValue: 0
   });
+  const [comparison, setComparison] = useState<Record<keyof typeof stats, StatDelta> | null>(null);
+  const [period, setPeriod] = useState<{ startDate: string; endDate: string } | null>(null);
+  const query = businessId ? buildInsightsQuery(businessId, range) : '';
 
   useEffect(() => {
     async function fetchData() {
@@ -48,13 +53,15 @@ export function RevenueChart({ businessId, timeRange }: RevenueChartProps) {
           headers['Authorization'] = `Bearer ${token}`;
         }
 
-        const response = await fetch(`/api/insights/revenue?businessId=${businessId}&timeRange=${timeRange}`, {
+        const response = await fetch(`/api/insights/revenue?${query}`, {
           headers
         });
         if (response.ok) {
           const result = await response.json();
           setData(result.chartData || []);
           setStats(result.stats || { totalRevenue: 0, totalBookings: 0, averageBookingValue: 0 });
+          setComparison(result.comparison || null);
+          setPeriod(result.period || null);
         } else {
           console.error('Failed to fetch revenue data:', response.status, response.statusText);
         }
@@ -66,16 +73,16 @@ export function RevenueChart({ businessId, timeRange }: RevenueChartProps) {
     }
 
     fetchData();
-  }, [businessId, timeRange]);
+  }, [businessId, query]);
 
   // Transform data for chart with formatted dates
   const chartData: ChartData[] = data.map((item) => ({
     ...item,
-    formattedDate: new Date(item.date).toLocaleDateString(undefined, {
-      month: 'short',
-      day: 'numeric',
-      year: data.length > 60 ? 'numeric' : undefined
-    })
+    formattedDate: formatBucketLabel(
+      item.date,
+      range.granularity,
+      !!period && period.startDate.slice(0, 4) !== period.endDate.slice(0, 4)
+    )
   }));
 
   // Format currency
@@ -101,14 +108,17 @@ export function RevenueChart({ businessId, timeRange }: RevenueChartProps) {
         <div className="bg-gradient-to-br from-teal-50 to-teal-100/50 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-teal-200/50">
           <p className="text-[10px] sm:text-xs text-teal-700 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.total')}</p>
           <p className="text-xl md:text-2xl lg:text-3xl font-bold text-teal-600 tracking-tight">{formatCurrency(stats.totalRevenue)}</p>
+          <DeltaBadge delta={comparison?.totalRevenue} />
         </div>
         <div className="bg-gradient-to-br from-green-50 to-green-100/50 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-green-200/50">
           <p className="text-[10px] sm:text-xs text-green-700 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.bookings')}</p>
           <p className="text-xl md:text-2xl lg:text-3xl font-bold text-green-600 tracking-tight">{stats.totalBookings}</p>
+          <DeltaBadge delta={comparison?.totalBookings} />
         </div>
         <div className="bg-gray-50/80 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-gray-100">
           <p className="text-[10px] sm:text-xs text-gray-500 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.average')}</p>
           <p className="text-xl md:text-2xl lg:text-3xl font-bold text-gray-900 tracking-tight">{formatCurrency(stats.averageBookingValue)}</p>
+          <DeltaBadge delta={comparison?.averageBookingValue} />
         </div>
       </div>
 
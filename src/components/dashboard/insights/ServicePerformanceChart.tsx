@@ -0,0 +1,205 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslations } from 'next-intl';
+import { Bar, BarChart, Cell, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { getAccessToken } from '@/lib/auth/api-client';
+import { DeltaBadge } from './DeltaBadge';
+import { buildInsightsQuery, InsightsRange, StatDelta } from './insights-range';
+
+interface ServicePerformanceChartProps {
+  businessId: string | null;
+  range: InsightsRange;
+  onUpgrade: () => void;
+}
+
+interface ServiceItem {
+  id: string;
+  name: string;
+  color: string;
+  bookingCount: number;
+  cancellationRate: number;
+  noShowRate: number;
+  averageLeadTimeHours: number | null;
+}
+
+interface ServicePerformanceData {
+  services: ServiceItem[];
+  stats: {
+    totalBookings: number;
+    cancellationRate: number;
+    noShowRate: number;
+    averageLeadTimeHours: number | null;
+    utilization: { bookedMinutes: number; availableMinutes: number; rate: number } | null;
+  };
+  comparison: Record<'totalBookings' | 'cancellationRate' | 'noShowRate', StatDelta>;
+  analyticsLevel: 'basic' | 'advanced';
+}
+
+export function ServicePerformanceChart({ businessId, range, onUpgrade }: ServicePerformanceChartProps) {
+  const t = useTranslations('dashboard.insights.services');
+  const [data, setData] = useState<ServicePerformanceData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const query = businessId ? buildInsightsQuery(businessId, range) : '';
+
+  useEffect(() => {
+    async function fetchData() {
+      if (!businessId) {
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      try {
+        const token = getAccessToken();
+        const headers: HeadersInit = {};
+        if (token) {
+          headers['Authorization'] = `Bearer ${token}`;
+        }
+
+        const response = await fetch(`/api/insights/services?${query}`, {
+          headers
+        });
+        if (response.ok) {
+          setData(await response.json());
+        } else {
+          console.error('Failed to fetch service performance:', response.status, response.statusText);
+        }
+      } catch (error) {
+        console.error('Failed to fetch service performance:', error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchData();
+  }, [businessId, query]);
+
+  const advanced = data?.analyticsLevel === 'advanced';
+  const bookedServices = (data?.services || []).filter((service) => service.bookingCount > 0);
+
+  // Lead times under two days read better in hours
+  const formatLeadTime = (hours: number | null) => {
+    if (hours === null) return '—';
+    return hours < 48 ? t('leadTimeHours', { hours: Math.round(hours) }) : t('leadTimeDays', { days: Math.round(hours / 24) });
+  };
+
+  return (
+    <div className="bg-white border border-gray-200/60 rounded-2xl p-4 md:p-5 lg:p-8 shadow-sm transition-all hover:shadow-md">
+      {/* Header */}
+      <div className="mb-4 md:mb-5 lg:mb-8">
+        <h3 className="text-lg md:text-xl lg:text-2xl font-bold text-gray-900 tracking-tight">{t('title')}</h3>
+        <p className="text-xs md:text-sm text-gray-500 mt-1">{t('subtitle')}</p>
+      </div>
+
+      {/* Stats Grid */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 md:gap-2.5 lg:gap-3 mb-4 md:mb-5 lg:mb-8">
+        <div className="bg-gray-50/80 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-gray-100">
+          <p className="text-[10px] sm:text-xs text-gray-500 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.cancellationRate')}</p>
+          <p className="text-xl md:text-2xl lg:text-3xl font-bold text-gray-900 tracking-tight">{data?.stats.cancellationRate ?? 0}%</p>
+          <DeltaBadge delta={data?.comparison.cancellationRate} lowerIsBetter />
+        </div>
+        <div className="bg-gray-50/80 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-gray-100">
+          <p className="text-[10px] sm:text-xs text-gray-500 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.noShowRate')}</p>
+          <p className="text-xl md:text-2xl lg:text-3xl font-bold text-gray-900 tracking-tight">{data?.stats.noShowRate ?? 0}%</p>
+          <DeltaBadge delta={data?.comparison.noShowRate} lowerIsBetter />
+        </div>
+        <div className="bg-gradient-to-br from-teal-50 to-teal-100/50 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-teal-200/50">
+          <p className="text-[10px] sm:text-xs text-teal-700 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.leadTime')}</p>
+          <p className="text-xl md:text-2xl lg:text-3xl font-bold text-teal-600 tracking-tight">
+            {advanced ? formatLeadTime(data?.stats.averageLeadTimeHours ?? null) : '—'}
+          </p>
+        </div>
+        <div className="bg-gradient-to-br from-green-50 to-green-100/50 rounded-lg md:rounded-xl p-3 md:p-3.5 lg:p-4 border border-green-200/50">
+          <p className="text-[10px] sm:text-xs text-green-700 font-semibold uppercase tracking-wide mb-0.5 md:mb-1">{t('stats.utilization')}</p>
+          <p className="text-xl md:text-2xl lg:text-3xl font-bold text-green-600 tracking-tight">
+            {advanced && data?.stats.utilization ? `${data.stats.utilization.rate}%` : '—'}
+          </p>
+        </div>
+      </div>
+
+      {data && !loading && !advanced && (
+        <div className="flex items-center justify-between gap-3 p-3 mb-4 bg-gray-50 border border-gray-100 rounded-xl">
+          <p className="text-xs text-gray-500">{t('advancedLocked')}</p>
+          <button
+            onClick={onUpgrade}
+            className="px-3 py-1.5 text-xs font-semibold text-white bg-gradient-to-r from-teal-500 to-green-500 rounded-lg hover:shadow-md transition-all flex-shrink-0"
+          >
+            {t('upgrade')}
+          </button>
+        </div>
+      )}
+
+      {/* Chart */}
+      {loading ? (
+        <div className="h-48 md:h-56 lg:h-64 flex items-center justify-center bg-gray-50/50 rounded-xl md:rounded-2xl border border-gray-100">
+          <div className="flex items-center gap-2 md:gap-3">
+            <div className="w-4 h-4 md:w-5 md:h-5 border-2 border-teal-500 border-t-transparent rounded-full animate-spin" />
+            <span className="text-xs md:text-sm text-gray-500 font-medium">{t('loading')}</span>
+          </div>
+        </div>
+      ) : bookedServices.length === 0 ? (
+        <div className="h-48 md:h-56 lg:h-64 flex flex-col items-center justify-center bg-gray-50/50 rounded-xl md:rounded-2xl border border-gray-100">
+          <p className="text-gray-700 text-xs md:text-sm font-semibold">{t('noData')}</p>
+          <p className="text-gray-400 text-[10px] md:text-xs mt-1">{t('noDataSubtext')}</p>
+        </div>
+      ) : (
+        <>
+          <div className="w-full" style={{ height: Math.max(160, bookedServices.length * 36) }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={bookedServices} layout="vertical" margin={{ top: 0, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="0" stroke="#f3f4f6" horizontal={false} />
+                <XAxis
+                  type="number"
+                  stroke="transparent"
+                  tick={{ fill: '#9ca3af', fontSize: 9, fontWeight: 500 }}
+                  tickLine={false}
+                  allowDecimals={false}
+                />
+                <YAxis
+                  type="category"
+                  dataKey="name"
+                  stroke="transparent"
+                  tick={{ fill: '#4b5563', fontSize: 11, fontWeight: 500 }}
+                  tickLine={false}
+                  width={110}
+                />
+                <Bar dataKey="bookingCount" radius={[0, 6, 6, 0]} name={t('bookings')}>
+                  {bookedServices.map((service) => (
+                    <Cell key={service.id} fill={service.color || '#14b8a6'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Per-service rates */}
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="text-left font-semibold py-1.5 pr-3">{t('columns.service')}</th>
+                  <th className="text-right font-semibold py-1.5 px-2">{t('columns.bookings')}</th>
+                  <th className="text-right font-semibold py-1.5 px-2">{t('columns.cancellations')}</th>
+                  <th className="text-right font-semibold py-1.5 px-2">{t('columns.noShows')}</th>
+                  {advanced && <th className="text-right font-semibold py-1.5 pl-2">{t('columns.leadTime')}</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {bookedServices.map((service) => (
+                  <tr key={service.id} className="border-t border-gray-100 text-gray-700">
+                    <td className="py-1.5 pr-3 font-semibold text-gray-900 truncate max-w-[10rem]">{service.name}</td>
+                    <td className="py-1.5 px-2 text-right">{service.bookingCount}</td>
+                    <td className="py-1.5 px-2 text-right">{service.cancellationRate}%</td>
+                    <td className="py-1.5 px-2 text-right">{service.noShowRate}%</td>
+                    {advanced && <td className="py-1.5 pl-2 text-right">{formatLeadTime(service.averageLeadTimeHours)}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
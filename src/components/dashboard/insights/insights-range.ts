@@ -0,0 +1,45 @@
+import type { InsightsGranularity, StatDelta } from '@/lib/insights';
+
+export type { InsightsGranularity, StatDelta };
+
+/**
+ * Period picked on the insights page: a preset ending today, or custom
+ * calendar days in the business timezone
+ */
+export interface InsightsRange {
+  preset: '7d' | '30d' | '90d' | 'custom';
+  startDate: string; // YYYY-MM-DD, custom ranges only
+  endDate: string;
+  granularity: InsightsGranularity;
+}
+
+export function buildInsightsQuery(businessId: string, range: InsightsRange): string {
+  const params = new URLSearchParams({ businessId, granularity: range.granularity });
+
+  if (range.preset === 'custom' && range.startDate && range.endDate) {
+    params.set('startDate', range.startDate);
+    params.set('endDate', range.endDate);
+  } else {
+    params.set('timeRange', range.preset === 'custom' ? '30d' : range.preset);
+  }
+
+  return params.toString();
+}
+
+/**
+ * Axis label of a chart bucket (a day, the Monday of a week or the first of a month)
+ */
+export function formatBucketLabel(date: string, granularity: InsightsGranularity, spansYears: boolean): string {
+  // Buckets are calendar dates of the business, not instants, so read them as local dates
+  const day = new Date(`${date}T00:00:00`);
+
+  if (granularity === 'month') {
+    return day.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+  }
+
+  return day.toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: spansYears ? 'numeric' : undefined
+  });
+}
@@ -0,0 +1,20 @@
+-- Migration 032: Appointment reminder idempotency
+-- Guarantees at most one reminder log row per appointment so the reminder
+-- dispatcher can claim an appointment atomically before sending.
+
+BEGIN;
+
+-- One reminder claim per appointment (the dispatcher inserts with ON CONFLICT DO NOTHING)
+CREATE UNIQUE INDEX IF NOT EXISTS notification_logs_reminder_once_idx
+  ON notification_logs (appointment_id)
+  WHERE template_name = 'appointment_reminder' AND appointment_id IS NOT NULL;
+
+-- Speeds up the dispatcher's scan for upcoming confirmed appointments
+CREATE INDEX IF NOT EXISTS appointments_confirmed_upcoming_idx
+  ON appointments (slot_start)
+  WHERE status = 'confirmed' AND deleted_at IS NULL;
+
+COMMENT ON INDEX notification_logs_reminder_once_idx IS
+  'Ensures the reminder dispatcher sends at most one appointment_reminder per appointment';
+
+COMMIT;
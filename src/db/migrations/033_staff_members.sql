@@ -0,0 +1,227 @@
+-- Migration 033: Staff members and per-staff calendars
+-- Adds staff members (invited by owners), the services each one performs,
+-- their weekly hours, and a staff_id on reservations and appointments.
+--
+-- Capacity model when staff are assigned:
+-- - Each staff member can serve one booking at a time
+-- - Service capacity is the number of eligible staff who are free
+-- - Bookings without a staff_id keep the original per-service capacity check
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: Staff members
+-- =============================================================================
+
+CREATE TABLE staff_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  -- Linked once the invite is accepted (NULL while invited)
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'invited'
+    CHECK (status IN ('invited', 'active', 'removed')),
+  -- Weekly hours in the same shape as the YAML availability block
+  -- (7 days, slots array). NULL means "same as business hours".
+  weekly_hours JSONB,
+  invite_token_hash TEXT,
+  invite_expires_at TIMESTAMPTZ,
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ,
+
+  CONSTRAINT staff_members_name_not_empty CHECK (name <> '')
+);
+
+-- One live staff record per email per business
+CREATE UNIQUE INDEX staff_members_business_email_unique
+  ON staff_members (business_id, LOWER(email))
+  WHERE deleted_at IS NULL AND status <> 'removed';
+
+CREATE UNIQUE INDEX staff_members_invite_token_idx
+  ON staff_members (invite_token_hash)
+  WHERE invite_token_hash IS NOT NULL;
+
+CREATE INDEX staff_members_business_status_idx
+  ON staff_members (business_id, status)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX staff_members_user_id_idx
+  ON staff_members (user_id)
+  WHERE user_id IS NOT NULL;
+
+CREATE TRIGGER update_staff_members_updated_at
+  BEFORE UPDATE ON staff_members
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- PART 2: Services performed by each staff member
+-- =============================================================================
+
+CREATE TABLE staff_services (
+  staff_id UUID NOT NULL REFERENCES staff_members(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (staff_id, service_id)
+);
+
+CREATE INDEX staff_services_service_id_idx ON staff_services (service_id);
+
+-- =============================================================================
+-- PART 3: Staff assignment on reservations and appointments
+-- =============================================================================
+
+ALTER TABLE reservations ADD COLUMN staff_id UUID REFERENCES staff_members(id) ON DELETE SET NULL;
+ALTER TABLE appointments ADD COLUMN staff_id UUID REFERENCES staff_members(id) ON DELETE SET NULL;
+
+CREATE INDEX reservations_staff_slot_idx
+  ON reservations (staff_id, slot_start, slot_end)
+  WHERE staff_id IS NOT NULL;
+
+CREATE INDEX appointments_staff_slot_idx
+  ON appointments (staff_id, slot_start, slot_end)
+  WHERE staff_id IS NOT NULL AND deleted_at IS NULL;
+
+-- =============================================================================
+-- PART 4: Capacity backstops aware of staff
+-- =============================================================================
+
+-- Appointments: a staff member cannot have two overlapping appointments.
+-- Unassigned appointments keep the per-service capacity check from migration 003.
+CREATE OR REPLACE FUNCTION check_appointment_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    max_capacity INTEGER;
+    current_count INTEGER;
+BEGIN
+    IF NEW.status NOT IN ('confirmed', 'completed') OR NEW.deleted_at IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.staff_id IS NOT NULL THEN
+        SELECT COUNT(*) INTO current_count
+        FROM appointments
+        WHERE staff_id = NEW.staff_id
+          AND deleted_at IS NULL
+          AND status IN ('confirmed', 'completed')
+          AND slot_start < NEW.slot_end
+          AND slot_end > NEW.slot_start
+          AND (TG_OP = 'INSERT' OR id != NEW.id);
+
+        IF current_count > 0 THEN
+            RAISE EXCEPTION 'Staff member is already booked for this time slot';
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    SELECT max_simultaneous_bookings INTO max_capacity
+    FROM services
+    WHERE id = NEW.service_id;
+
+    SELECT COUNT(*) INTO current_count
+    FROM appointments
+    WHERE service_id = NEW.service_id
+      AND deleted_at IS NULL
+      AND status IN ('confirmed', 'completed')
+      AND (
+          (slot_start <= NEW.slot_start AND slot_end > NEW.slot_start) OR
+          (slot_start < NEW.slot_end AND slot_end >= NEW.slot_end) OR
+          (slot_start >= NEW.slot_start AND slot_end <= NEW.slot_end)
+      )
+      AND (TG_OP = 'INSERT' OR id != NEW.id);
+
+    IF current_count >= max_capacity THEN
+        RAISE EXCEPTION 'Appointment capacity exceeded for this time slot';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reservations: same rule, counting both appointments and active reservations
+CREATE OR REPLACE FUNCTION check_reservation_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    max_capacity INTEGER;
+    current_count INTEGER;
+BEGIN
+    IF NEW.staff_id IS NOT NULL THEN
+        SELECT COUNT(*) INTO current_count
+        FROM (
+            SELECT 1
+            FROM appointments
+            WHERE staff_id = NEW.staff_id
+              AND deleted_at IS NULL
+              AND status IN ('confirmed', 'completed')
+              AND slot_start < NEW.slot_end
+              AND slot_end > NEW.slot_start
+
+            UNION ALL
+
+            SELECT 1
+            FROM reservations
+            WHERE staff_id = NEW.staff_id
+              AND expires_at > NOW()
+              AND slot_start < NEW.slot_end
+              AND slot_end > NEW.slot_start
+              AND (TG_OP = 'INSERT' OR id != NEW.id)
+        ) AS overlapping_bookings;
+
+        IF current_count > 0 THEN
+            RAISE EXCEPTION 'Staff member is already booked for this time slot';
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(max_simultaneous_bookings, 1) INTO max_capacity
+    FROM services
+    WHERE id = NEW.service_id;
+
+    IF max_capacity IS NULL THEN
+        max_capacity := 1;
+    END IF;
+
+    SELECT COUNT(*) INTO current_count
+    FROM (
+        SELECT 1
+        FROM appointments
+        WHERE service_id = NEW.service_id
+          AND business_id = NEW.business_id
+          AND deleted_at IS NULL
+          AND status IN ('confirmed', 'completed')
+          AND slot_start < NEW.slot_end
+          AND slot_end > NEW.slot_start
+
+        UNION ALL
+
+        SELECT 1
+        FROM reservations
+        WHERE service_id = NEW.service_id
+          AND business_id = NEW.business_id
+          AND expires_at > NOW()
+          AND slot_start < NEW.slot_end
+          AND slot_end > NEW.slot_start
+          AND (TG_OP = 'INSERT' OR id != NEW.id)
+    ) AS overlapping_bookings;
+
+    IF current_count >= max_capacity THEN
+        RAISE EXCEPTION 'Reservation capacity exceeded for this time slot (max: %, current: %)',
+            max_capacity, current_count;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE staff_members IS 'People who perform services for a business; invited by owners';
+COMMENT ON COLUMN staff_members.weekly_hours IS 'Per-staff weekly availability (YAML availability format). NULL = business hours';
+COMMENT ON TABLE staff_services IS 'Which services each staff member can be booked for';
+COMMENT ON COLUMN appointments.staff_id IS 'Staff member performing the appointment (NULL = unassigned)';
+COMMENT ON COLUMN reservations.staff_id IS 'Staff member held by this reservation (NULL = unassigned)';
+
+COMMIT;
@@ -0,0 +1,60 @@
+-- Migration 034: Waitlist for fully booked slots
+-- Customers can join a waitlist for a service over a time window when every
+-- slot is taken. When a booking in that window is canceled, the freed slot is
+-- held (as a regular reservation) for the first person in line and offered by
+-- email. Offers that are not claimed in time pass to the next person.
+--
+-- Only used when the tenant sets features.enableWaitlist.
+
+BEGIN;
+
+CREATE TABLE waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  -- Preferred staff member (NULL = anyone)
+  staff_id UUID REFERENCES staff_members(id) ON DELETE SET NULL,
+  customer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  email TEXT NOT NULL,
+  name TEXT NOT NULL,
+  phone TEXT,
+  -- Window the customer is willing to be booked in
+  range_start TIMESTAMPTZ NOT NULL,
+  range_end TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'booked', 'expired', 'canceled')),
+  -- Current offer (set while status = 'offered')
+  reservation_id UUID REFERENCES reservations(id) ON DELETE SET NULL,
+  offer_slot_start TIMESTAMPTZ,
+  offer_slot_end TIMESTAMPTZ,
+  -- Staff member the held slot belongs to (may differ from the preference)
+  offer_staff_id UUID REFERENCES staff_members(id) ON DELETE SET NULL,
+  offer_token_hash TEXT,
+  offer_expires_at TIMESTAMPTZ,
+  appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT waitlist_entries_range_valid CHECK (range_end > range_start)
+);
+
+-- Queue order lookup when a slot frees up
+CREATE INDEX waitlist_entries_queue_idx
+  ON waitlist_entries (business_id, service_id, created_at)
+  WHERE status = 'waiting';
+
+-- Expiry sweep for unclaimed offers
+CREATE INDEX waitlist_entries_offer_expiry_idx
+  ON waitlist_entries (offer_expires_at)
+  WHERE status = 'offered';
+
+CREATE UNIQUE INDEX waitlist_entries_offer_token_idx
+  ON waitlist_entries (offer_token_hash)
+  WHERE offer_token_hash IS NOT NULL;
+
+CREATE TRIGGER update_waitlist_entries_updated_at
+  BEFORE UPDATE ON waitlist_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
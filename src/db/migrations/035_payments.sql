@@ -0,0 +1,60 @@
+-- Migration 035: Online deposits
+-- Records deposit payments collected between reservation and commit for
+-- services with requiresDeposit (features.enableOnlinePayments), and the
+-- resulting payment state on the appointment.
+--
+-- Flow:
+-- 1. Customer reserves a slot; a payment is created with the provider and the
+--    reservation TTL is extended while the customer pays
+-- 2. Commit checks the payment succeeded, then links it to the appointment
+-- 3. On cancellation the deposit is refunded per cancellationPolicy.refundPolicy
+
+BEGIN;
+
+CREATE TABLE payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  -- Reservation being paid for (cleared when the reservation is committed or expires)
+  reservation_id UUID REFERENCES reservations(id) ON DELETE SET NULL,
+  appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL,
+  provider_payment_id TEXT NOT NULL,
+  -- Hosted payment page the customer is sent to
+  redirect_url TEXT,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  currency TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'succeeded', 'failed', 'canceled', 'refunded', 'partially_refunded')),
+  refunded_cents INTEGER NOT NULL DEFAULT 0 CHECK (refunded_cents >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT payments_refund_not_exceeding_amount CHECK (refunded_cents <= amount_cents)
+);
+
+CREATE UNIQUE INDEX payments_provider_payment_idx
+  ON payments (provider, provider_payment_id);
+
+-- One live payment attempt per reservation
+CREATE UNIQUE INDEX payments_reservation_idx
+  ON payments (reservation_id)
+  WHERE reservation_id IS NOT NULL AND status IN ('pending', 'succeeded');
+
+CREATE INDEX payments_appointment_idx
+  ON payments (appointment_id)
+  WHERE appointment_id IS NOT NULL;
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Payment state on the appointment ('none' = no deposit was required)
+ALTER TABLE appointments ADD COLUMN payment_status TEXT NOT NULL DEFAULT 'none'
+  CHECK (payment_status IN ('none', 'paid', 'refunded', 'partially_refunded'));
+ALTER TABLE appointments ADD COLUMN deposit_paid_cents INTEGER;
+
+COMMENT ON COLUMN appointments.payment_status IS 'Deposit state: none, paid, refunded, partially_refunded';
+COMMENT ON COLUMN appointments.deposit_paid_cents IS 'Deposit collected online at booking time (cents)';
+
+COMMIT;
@@ -0,0 +1,12 @@
+-- Migration 036: Per-appointment policy override
+-- Lets an owner exempt a single appointment from the tenant's cancellation and
+-- reschedule deadlines (cancellationPolicy), e.g. as a goodwill gesture.
+-- Customers and guests can then cancel or reschedule it online at any time.
+
+BEGIN;
+
+ALTER TABLE appointments ADD COLUMN policy_override BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN appointments.policy_override IS 'Owner exempted this appointment from the cancellation/reschedule deadlines';
+
+COMMIT;
@@ -0,0 +1,13 @@
+-- Migration 037: Custom booking form answers
+-- Stores answers to the tenant's bookingRequirements.customFields on the
+-- appointment, e.g. [{"id": "allergies", "label": "Any allergies?", "type": "textarea", "value": "Latex"}]
+-- The label is copied at booking time so answers stay readable if the field
+-- is renamed or removed from the config later.
+
+BEGIN;
+
+ALTER TABLE appointments ADD COLUMN custom_field_answers JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN appointments.custom_field_answers IS 'Answers to bookingRequirements.customFields: [{id, label, type, value}]';
+
+COMMIT;
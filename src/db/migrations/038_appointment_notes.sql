@@ -0,0 +1,22 @@
+-- Migration 038: Appointment notes
+-- Adds the columns behind Appointment.notes and a separate owner-only note:
+-- - notes: written by the customer on the booking page and shown to both sides
+-- - internal_notes: written by the business from the dashboard (e.g. "prefers
+--   scissors only") and never returned by customer or guest endpoints
+-- Both are edited through AppointmentManager.updateAppointment, so changes are
+-- version-checked and recorded in audit_logs.
+
+BEGIN;
+
+ALTER TABLE appointments ADD COLUMN notes TEXT;
+ALTER TABLE appointments ADD COLUMN internal_notes TEXT;
+
+ALTER TABLE appointments ADD CONSTRAINT appointments_notes_length
+  CHECK (notes IS NULL OR char_length(notes) <= 1000);
+ALTER TABLE appointments ADD CONSTRAINT appointments_internal_notes_length
+  CHECK (internal_notes IS NULL OR char_length(internal_notes) <= 2000);
+
+COMMENT ON COLUMN appointments.notes IS 'Customer notes entered at booking time; visible to the customer and the business';
+COMMENT ON COLUMN appointments.internal_notes IS 'Business-only notes; never exposed to customers or guests';
+
+COMMIT;
@@ -0,0 +1,43 @@
+-- Migration 039: SMS reminders
+-- Reminders can now go out by email and by SMS, so the one-reminder-per-appointment
+-- guarantee from migration 032 becomes one reminder per appointment, channel and
+-- start time. Keying on the start time lets an appointment rescheduled after its
+-- reminder went out get another one for the new time.
+-- Also makes sure every business has an SMS quota month to count against.
+
+BEGIN;
+
+ALTER TABLE notification_logs ADD COLUMN reminder_slot_start TIMESTAMPTZ;
+
+-- Reminders claimed so far were for the appointment's current time
+UPDATE notification_logs nl
+SET reminder_slot_start = a.slot_start
+FROM appointments a
+WHERE a.id = nl.appointment_id
+  AND nl.template_name = 'appointment_reminder';
+
+DROP INDEX IF EXISTS notification_logs_reminder_once_idx;
+
+CREATE UNIQUE INDEX notification_logs_reminder_once_idx
+  ON notification_logs (appointment_id, channel, reminder_slot_start)
+  WHERE template_name = 'appointment_reminder' AND appointment_id IS NOT NULL;
+
+COMMENT ON INDEX notification_logs_reminder_once_idx IS
+  'Ensures the reminder dispatcher sends at most one appointment_reminder per appointment, channel and start time';
+COMMENT ON COLUMN notification_logs.reminder_slot_start IS 'Appointment start time an appointment_reminder was claimed for';
+
+UPDATE businesses SET sms_used_this_month = 0 WHERE sms_used_this_month IS NULL;
+UPDATE businesses SET sms_quota = 0 WHERE sms_quota IS NULL;
+UPDATE businesses SET sms_reset_date = CURRENT_DATE + INTERVAL '1 month' WHERE sms_reset_date IS NULL;
+
+ALTER TABLE businesses ALTER COLUMN sms_used_this_month SET NOT NULL;
+ALTER TABLE businesses ALTER COLUMN sms_quota SET NOT NULL;
+ALTER TABLE businesses ALTER COLUMN sms_reset_date SET NOT NULL;
+
+-- Finds businesses due for a quota reset
+CREATE INDEX IF NOT EXISTS businesses_sms_reset_date_idx ON businesses (sms_reset_date);
+
+COMMENT ON COLUMN businesses.sms_used_this_month IS 'SMS sent since the last quota reset; sends stop when it reaches sms_quota';
+COMMENT ON COLUMN businesses.sms_reset_date IS 'Date the SMS quota month ends (reset by the reset-sms-quota cron)';
+
+COMMIT;
@@ -0,0 +1,31 @@
+-- Migration 040: Notification queue
+-- Turns notification_logs into the queue drained by the notification worker
+-- (src/lib/notifications/notification-worker.ts, /api/cron/process-notifications):
+-- - payload: rendered content to (re)send, e.g. {"subject": "...", "html": "..."} for
+--   email or {"body": "...", "businessId": "..."} for SMS. Rows without a payload
+--   are rendered from their appointment by template_name.
+-- - next_attempt_at: earliest time the worker may pick the row up (backoff)
+-- - locked_until: the row is being delivered by a worker or request until then
+-- - dead_letter status: gave up after the maximum number of attempts
+
+-- New enum values can't be used in the transaction that adds them, so this runs first
+ALTER TYPE notification_status ADD VALUE IF NOT EXISTS 'dead_letter';
+
+BEGIN;
+
+ALTER TABLE notification_logs ADD COLUMN payload JSONB;
+ALTER TABLE notification_logs ADD COLUMN next_attempt_at TIMESTAMPTZ;
+ALTER TABLE notification_logs ADD COLUMN locked_until TIMESTAMPTZ;
+
+-- Replaces the index from migration 004 with one matching the worker's claim query
+DROP INDEX IF EXISTS notification_logs_retry_idx;
+
+CREATE INDEX notification_logs_queue_idx
+  ON notification_logs (COALESCE(next_attempt_at, created_at))
+  WHERE status IN ('pending', 'retrying');
+
+COMMENT ON COLUMN notification_logs.payload IS 'Rendered content to deliver: {subject, html} for email, {body, businessId, locale} for SMS';
+COMMENT ON COLUMN notification_logs.next_attempt_at IS 'Earliest time the notification worker may (re)try delivery';
+COMMENT ON COLUMN notification_logs.locked_until IS 'Delivery in progress until this time; the worker skips locked rows';
+
+COMMIT;
@@ -0,0 +1,69 @@
+-- Migration 041: Outbound webhooks
+-- Owners register endpoint URLs per business and subscribe to booking
+-- lifecycle events (the notification_type values from migration 019).
+--
+-- Flow:
+-- 1. A booking event queues one webhook_deliveries row per subscribed endpoint
+-- 2. The deliver-webhooks cron POSTs the payload, signed with the endpoint's
+--    secret (Rhivo-Signature header), retrying with backoff until it is
+--    accepted or dead-lettered
+-- 3. Deliveries stay in the log and can be replayed from the dashboard
+
+BEGIN;
+
+CREATE TABLE webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  url TEXT NOT NULL CHECK (url ~ '^https?://'),
+  description TEXT CHECK (char_length(description) <= 200),
+  -- Shared secret for the HMAC-SHA256 signature
+  secret TEXT NOT NULL,
+  events notification_type[] NOT NULL CHECK (cardinality(events) > 0),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX webhook_endpoints_business_idx
+  ON webhook_endpoints (business_id)
+  WHERE enabled = TRUE;
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  -- Shared by all deliveries of the same event (and its replays), so receivers can deduplicate
+  event_id UUID NOT NULL,
+  event_type notification_type NOT NULL,
+  payload JSONB NOT NULL,
+  status notification_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  locked_until TIMESTAMPTZ,
+  last_attempt_at TIMESTAMPTZ,
+  -- Status code of the last response; the body is never stored
+  response_status INTEGER,
+  error_message TEXT,
+  -- Delivery this one replays, if any
+  replay_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX webhook_deliveries_endpoint_idx
+  ON webhook_deliveries (endpoint_id, created_at DESC);
+
+CREATE INDEX webhook_deliveries_queue_idx
+  ON webhook_deliveries (COALESCE(next_attempt_at, created_at))
+  WHERE status IN ('pending', 'retrying');
+
+COMMENT ON TABLE webhook_endpoints IS 'Owner-registered URLs that receive booking lifecycle events';
+COMMENT ON TABLE webhook_deliveries IS 'Delivery log and retry queue for webhook events';
+COMMENT ON COLUMN webhook_deliveries.event_id IS 'Event id sent in the payload; stays the same on retries and replays';
+
+COMMIT;
@@ -0,0 +1,37 @@
+-- Migration 042: API keys for the public REST API
+-- Owners on a tier with apiAccess create keys per business to call /api/v1/*.
+-- Requests are only accepted while businesses.api_access_enabled is set.
+--
+-- Only a SHA-256 hash of each key is stored; the key itself is shown once
+-- when it is created or rotated. key_prefix is kept so owners can tell keys apart.
+
+BEGIN;
+
+CREATE TABLE api_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  -- 'read' for GET endpoints, 'write' to book and cancel
+  scopes TEXT[] NOT NULL CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['read', 'write']),
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute BETWEEN 1 AND 1000),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX api_keys_business_idx ON api_keys (business_id, created_at);
+
+CREATE TRIGGER update_api_keys_updated_at
+  BEFORE UPDATE ON api_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE api_keys IS 'Per-business keys for the public /api/v1 REST API';
+COMMENT ON COLUMN api_keys.key_hash IS 'SHA-256 hex digest of the key; the key itself is never stored';
+COMMENT ON COLUMN api_keys.revoked_at IS 'Set when the key is revoked; revoked keys are kept for reference';
+
+COMMIT;
@@ -0,0 +1,34 @@
+-- Migration 043: iCalendar subscription feeds
+-- Private ICS feed URLs that owners subscribe to from Google/Apple Calendar.
+-- A feed covers the whole business, or a single staff member when staff_id is set.
+--
+-- Calendar apps poll the URL without any credentials, so the token in the URL
+-- is the only protection. It is stored as-is so the URL can be shown again in
+-- settings; regenerating the feed replaces the token and breaks old subscriptions.
+
+BEGIN;
+
+CREATE TABLE calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  staff_id UUID REFERENCES staff_members(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  last_accessed_at TIMESTAMPTZ,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- One feed per business and one per staff member
+  CONSTRAINT calendar_feeds_business_staff_unique UNIQUE NULLS NOT DISTINCT (business_id, staff_id)
+);
+
+CREATE TRIGGER update_calendar_feeds_updated_at
+  BEFORE UPDATE ON calendar_feeds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE calendar_feeds IS 'Token-protected iCalendar subscription feeds of appointments';
+COMMENT ON COLUMN calendar_feeds.staff_id IS 'Limits the feed to one staff member; NULL is the whole business';
+COMMENT ON COLUMN calendar_feeds.token IS 'Secret part of the feed URL (/api/calendar/feeds/<token>.ics)';
+
+COMMIT;
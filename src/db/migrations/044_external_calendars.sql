@@ -0,0 +1,61 @@
+-- Migration 044: External calendar busy-time import
+-- Owners connect calendars they keep elsewhere (an ICS subscription URL, or an
+-- uploaded .ics file) so personal commitments block booking slots.
+--
+-- Events are parsed into external_busy_intervals, which the slot generator and
+-- booking validation treat as off-time. URL calendars are re-fetched by the
+-- sync-external-calendars cron; uploaded files are parsed once.
+
+BEGIN;
+
+CREATE TABLE external_calendars (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  source_type TEXT NOT NULL CHECK (source_type IN ('url', 'upload')),
+  -- Subscription URL; NULL for uploads
+  url TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_synced_at TIMESTAMPTZ,
+  last_sync_error TEXT,
+  -- Busy intervals found by the last successful sync
+  event_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT external_calendars_url_matches_source CHECK ((source_type = 'url') = (url IS NOT NULL))
+);
+
+CREATE INDEX external_calendars_business_idx ON external_calendars (business_id);
+
+-- For the cron: URL calendars due for a refresh
+CREATE INDEX external_calendars_sync_idx ON external_calendars (last_synced_at)
+  WHERE source_type = 'url' AND enabled = TRUE;
+
+CREATE TRIGGER update_external_calendars_updated_at
+  BEFORE UPDATE ON external_calendars
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE external_busy_intervals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  calendar_id UUID NOT NULL REFERENCES external_calendars(id) ON DELETE CASCADE,
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  start_at TIMESTAMPTZ NOT NULL,
+  end_at TIMESTAMPTZ NOT NULL,
+  -- Event title; only shown to the owner, never on the booking page
+  summary TEXT,
+
+  CONSTRAINT external_busy_intervals_valid_range CHECK (end_at > start_at)
+);
+
+CREATE INDEX external_busy_intervals_business_range_idx
+  ON external_busy_intervals (business_id, start_at, end_at);
+CREATE INDEX external_busy_intervals_calendar_idx ON external_busy_intervals (calendar_id);
+
+COMMENT ON TABLE external_calendars IS 'Calendars kept outside Rhivo whose events block booking slots';
+COMMENT ON COLUMN external_calendars.last_sync_error IS 'Why the last sync failed; cleared by the next successful sync';
+COMMENT ON TABLE external_busy_intervals IS 'Busy time parsed from external calendars, replaced on every sync';
+
+COMMIT;
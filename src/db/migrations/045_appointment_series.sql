@@ -0,0 +1,49 @@
+-- Migration 045: Recurring appointment series
+-- Owners book a customer every N weeks at the same weekday and time, ending
+-- after a number of occurrences or on a date.
+--
+-- Every occurrence is an ordinary appointment row linked back to its series,
+-- so capacity, reminders, webhooks and the calendar keep working unchanged.
+-- The series row records the rule it was created from and whether it is
+-- still running.
+
+BEGIN;
+
+CREATE TABLE appointment_series (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id),
+  staff_id UUID REFERENCES staff_members(id) ON DELETE SET NULL,
+  customer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  interval_weeks INTEGER NOT NULL CHECK (interval_weeks BETWEEN 1 AND 12),
+  -- End condition: a number of occurrences, a last date (business timezone), or both
+  occurrence_count INTEGER CHECK (occurrence_count BETWEEN 1 AND 52),
+  until_date DATE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'canceled')),
+  idempotency_key TEXT UNIQUE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT appointment_series_has_end CHECK (occurrence_count IS NOT NULL OR until_date IS NOT NULL)
+);
+
+CREATE INDEX appointment_series_business_idx ON appointment_series (business_id);
+
+CREATE TRIGGER update_appointment_series_updated_at
+  BEFORE UPDATE ON appointment_series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE appointments
+  ADD COLUMN series_id UUID REFERENCES appointment_series(id) ON DELETE SET NULL,
+  ADD COLUMN series_index INTEGER;
+
+CREATE INDEX appointments_series_idx ON appointments (series_id, slot_start)
+  WHERE series_id IS NOT NULL;
+
+COMMENT ON TABLE appointment_series IS 'Recurring bookings created by the owner; occurrences are appointments with series_id set';
+COMMENT ON COLUMN appointment_series.until_date IS 'Last day an occurrence may fall on, in the business timezone';
+COMMENT ON COLUMN appointments.series_index IS 'Position of the occurrence in its series, from 0; kept when occurrences are moved or canceled';
+
+COMMIT;
@@ -0,0 +1,63 @@
+-- Migration 046: Customer profiles
+-- A per-business customer directory. Guests and registered users who booked
+-- with the same email or phone number become one profile, with tags and
+-- private notes kept by the owner.
+--
+-- Identities hold the normalised email addresses and phone numbers of each
+-- profile. They are unique per business, so a new booking resolves to exactly
+-- one profile, and a merge keeps the identities of both sides.
+--
+-- Visits, spend and no-shows are not stored: they are counted from the
+-- appointments linked through appointments.customer_profile_id.
+
+BEGIN;
+
+CREATE TABLE customer_profiles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX customer_profiles_business_idx ON customer_profiles (business_id, name);
+CREATE INDEX customer_profiles_tags_idx ON customer_profiles USING GIN (tags);
+
+CREATE TRIGGER update_customer_profiles_updated_at
+  BEFORE UPDATE ON customer_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE customer_profile_identities (
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('email', 'phone')),
+  value TEXT NOT NULL,
+  profile_id UUID NOT NULL REFERENCES customer_profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (business_id, kind, value)
+);
+
+CREATE INDEX customer_profile_identities_profile_idx ON customer_profile_identities (profile_id);
+
+ALTER TABLE appointments
+  ADD COLUMN customer_profile_id UUID REFERENCES customer_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX appointments_customer_profile_idx ON appointments (customer_profile_id, slot_start)
+  WHERE customer_profile_id IS NOT NULL;
+
+-- Appointments still waiting to be linked, picked up by the directory sync
+CREATE INDEX appointments_unlinked_customer_idx ON appointments (business_id)
+  WHERE customer_profile_id IS NULL;
+
+COMMENT ON TABLE customer_profiles IS 'One customer of one business, whether they booked as a guest or with an account';
+COMMENT ON COLUMN customer_profiles.notes IS 'Private to the business, never shown to the customer';
+COMMENT ON TABLE customer_profile_identities IS 'Normalised emails (lowercase) and phone numbers (digits, optional leading +) that resolve to a profile';
+COMMENT ON COLUMN appointments.customer_profile_id IS 'Customer directory profile; set by the directory sync from the customer or guest contact details';
+
+COMMIT;
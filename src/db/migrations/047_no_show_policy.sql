@@ -0,0 +1,19 @@
+-- Migration 047: No-show policy
+-- The tenant noShowPolicy blocks online booking, or asks for a deposit, once a
+-- customer has too many recent no-shows. Customers are recognised by account,
+-- email or phone number, as in the customer directory.
+--
+-- Owners can give a customer a fresh start: no-shows before
+-- no_show_reset_at no longer count towards the policy.
+
+BEGIN;
+
+ALTER TABLE customer_profiles
+  ADD COLUMN no_show_reset_at TIMESTAMPTZ;
+
+CREATE INDEX appointments_no_show_idx ON appointments (business_id, slot_start)
+  WHERE status = 'no_show';
+
+COMMENT ON COLUMN customer_profiles.no_show_reset_at IS 'Set by the owner; earlier no-shows are ignored by the no-show policy';
+
+COMMIT;
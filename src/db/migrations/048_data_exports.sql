@@ -0,0 +1,30 @@
+-- Migration 048: Data exports
+-- Audit trail of the appointment, customer and revenue files owners download
+-- from settings. A row is written before the file is sent; row_count and
+-- completed_at are set once the whole file went out, so an export that broke
+-- off midway is still on record.
+
+BEGIN;
+
+CREATE TABLE data_exports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  export_type TEXT NOT NULL CHECK (export_type IN ('appointments', 'customers', 'revenue')),
+  format TEXT NOT NULL CHECK (format IN ('csv', 'json')),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  ip_address TEXT,
+  row_count INTEGER,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX data_exports_business_idx ON data_exports (business_id, created_at DESC);
+
+COMMENT ON TABLE data_exports IS 'Who exported which business data, for which dates and when';
+COMMENT ON COLUMN data_exports.start_date IS 'First day of the range, in the business timezone';
+COMMENT ON COLUMN data_exports.end_date IS 'Last day of the range (included), in the business timezone';
+COMMENT ON COLUMN data_exports.row_count IS 'Rows sent; NULL while streaming or when the download broke off';
+
+COMMIT;
@@ -0,0 +1,269 @@
+-- Migration 049: Shared capacity pools
+-- Services can draw from business-wide pools declared in the tenant config
+-- (capacityPools, e.g. "chairs: 3", "wash basins: 1"). A booking must fit
+-- every pool its service draws from, counting the overlapping bookings of all
+-- services in the pool, on top of the per-service or per-staff check.
+--
+-- The app checks pools before writing; these triggers are the backstop. They
+-- read the pools from businesses.config_json (businesses without a stored
+-- config are not checked here) and take one advisory lock per pool before
+-- counting, so concurrent bookings of different services sharing a pool are
+-- serialized even though their slot locks differ.
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: Pools of a service
+-- =============================================================================
+
+-- Pools the service draws from, with the database ids of every service in each
+CREATE OR REPLACE FUNCTION service_capacity_pools(p_business_id UUID, p_service_id UUID)
+RETURNS TABLE (pool_id TEXT, pool_capacity INTEGER, service_ids UUID[]) AS $$
+    WITH config AS (
+        SELECT config_json
+        FROM businesses
+        WHERE id = p_business_id
+          AND config_json IS NOT NULL
+    ),
+    config_services AS (
+        SELECT
+            svc->>'id' AS external_id,
+            COALESCE(svc->'capacityPools', '[]'::jsonb) AS pools
+        FROM config,
+            jsonb_array_elements(COALESCE(config.config_json->'categories', '[]'::jsonb)) AS cat,
+            jsonb_array_elements(COALESCE(cat->'services', '[]'::jsonb)) AS svc
+    ),
+    pool_services AS (
+        SELECT cs.pools, s.id
+        FROM config_services cs
+        JOIN services s
+          ON s.business_id = p_business_id
+         AND s.external_id = cs.external_id
+         AND s.deleted_at IS NULL
+    )
+    SELECT
+        pool->>'id',
+        (pool->>'capacity')::INTEGER,
+        ARRAY(SELECT ps.id FROM pool_services ps WHERE ps.pools ? (pool->>'id'))
+    FROM config,
+        jsonb_array_elements(COALESCE(config.config_json->'capacityPools', '[]'::jsonb)) AS pool
+    WHERE EXISTS (
+        SELECT 1
+        FROM pool_services ps
+        WHERE ps.id = p_service_id
+          AND ps.pools ? (pool->>'id')
+    )
+$$ LANGUAGE sql STABLE;
+
+-- Raise if a booking of the service over the slot would overfill one of its pools.
+-- Reservations are only counted for reservation writes, like the per-service check.
+CREATE OR REPLACE FUNCTION check_capacity_pools(
+    p_business_id UUID,
+    p_service_id UUID,
+    p_slot_start TIMESTAMPTZ,
+    p_slot_end TIMESTAMPTZ,
+    p_booking_id UUID,
+    p_count_reservations BOOLEAN
+)
+RETURNS VOID AS $$
+DECLARE
+    pool RECORD;
+    current_count INTEGER;
+BEGIN
+    -- Lock every pool first, in a fixed order, so two writers can't deadlock
+    FOR pool IN
+        SELECT * FROM service_capacity_pools(p_business_id, p_service_id) ORDER BY pool_id
+    LOOP
+        PERFORM pg_advisory_xact_lock(hashtextextended('capacity_pool:' || p_business_id || ':' || pool.pool_id, 0));
+    END LOOP;
+
+    FOR pool IN
+        SELECT * FROM service_capacity_pools(p_business_id, p_service_id) ORDER BY pool_id
+    LOOP
+        SELECT COUNT(*) INTO current_count
+        FROM (
+            SELECT 1
+            FROM appointments
+            WHERE business_id = p_business_id
+              AND service_id = ANY(pool.service_ids)
+              AND id != p_booking_id
+              AND deleted_at IS NULL
+              AND status IN ('confirmed', 'completed')
+              AND slot_start < p_slot_end
+              AND slot_end > p_slot_start
+
+            UNION ALL
+
+            SELECT 1
+            FROM reservations
+            WHERE p_count_reservations
+              AND business_id = p_business_id
+              AND service_id = ANY(pool.service_ids)
+              AND id != p_booking_id
+              AND expires_at > NOW()
+              AND slot_start < p_slot_end
+              AND slot_end > p_slot_start
+        ) AS pool_bookings;
+
+        IF current_count >= pool.pool_capacity THEN
+            RAISE EXCEPTION 'Capacity pool "%" is full for this time slot (max: %, current: %)',
+                pool.pool_id, pool.pool_capacity, current_count;
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- PART 2: Capacity backstops aware of pools
+-- =============================================================================
+
+-- Appointments: pools apply whether or not a staff member is assigned.
+-- Updates that keep the time, service and a held status skip the pool check.
+CREATE OR REPLACE FUNCTION check_appointment_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    max_capacity INTEGER;
+    current_count INTEGER;
+BEGIN
+    IF NEW.status NOT IN ('confirmed', 'completed') OR NEW.deleted_at IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT'
+       OR NEW.slot_start IS DISTINCT FROM OLD.slot_start
+       OR NEW.slot_end IS DISTINCT FROM OLD.slot_end
+       OR NEW.service_id IS DISTINCT FROM OLD.service_id
+       OR OLD.status NOT IN ('confirmed', 'completed')
+       OR OLD.deleted_at IS NOT NULL THEN
+        PERFORM check_capacity_pools(NEW.business_id, NEW.service_id, NEW.slot_start, NEW.slot_end, NEW.id, FALSE);
+    END IF;
+
+    IF NEW.staff_id IS NOT NULL THEN
+        SELECT COUNT(*) INTO current_count
+        FROM appointments
+        WHERE staff_id = NEW.staff_id
+          AND deleted_at IS NULL
+          AND status IN ('confirmed', 'completed')
+          AND slot_start < NEW.slot_end
+          AND slot_end > NEW.slot_start
+          AND (TG_OP = 'INSERT' OR id != NEW.id);
+
+        IF current_count > 0 THEN
+            RAISE EXCEPTION 'Staff member is already booked for this time slot';
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    SELECT max_simultaneous_bookings INTO max_capacity
+    FROM services
+    WHERE id = NEW.service_id;
+
+    SELECT COUNT(*) INTO current_count
+    FROM appointments
+    WHERE service_id = NEW.service_id
+      AND deleted_at IS NULL
+      AND status IN ('confirmed', 'completed')
+      AND (
+          (slot_start <= NEW.slot_start AND slot_end > NEW.slot_start) OR
+          (slot_start < NEW.slot_end AND slot_end >= NEW.slot_end) OR
+          (slot_start >= NEW.slot_start AND slot_end <= NEW.slot_end)
+      )
+      AND (TG_OP = 'INSERT' OR id != NEW.id);
+
+    IF current_count >= max_capacity THEN
+        RAISE EXCEPTION 'Appointment capacity exceeded for this time slot';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reservations: same, counting both appointments and active reservations.
+-- Extending a reservation (same time and service) skips the pool check.
+CREATE OR REPLACE FUNCTION check_reservation_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    max_capacity INTEGER;
+    current_count INTEGER;
+BEGIN
+    IF TG_OP = 'INSERT'
+       OR NEW.slot_start IS DISTINCT FROM OLD.slot_start
+       OR NEW.slot_end IS DISTINCT FROM OLD.slot_end
+       OR NEW.service_id IS DISTINCT FROM OLD.service_id THEN
+        PERFORM check_capacity_pools(NEW.business_id, NEW.service_id, NEW.slot_start, NEW.slot_end, NEW.id, TRUE);
+    END IF;
+
+    IF NEW.staff_id IS NOT NULL THEN
+        SELECT COUNT(*) INTO current_count
+        FROM (
+            SELECT 1
+            FROM appointments
+            WHERE staff_id = NEW.staff_id
+              AND deleted_at IS NULL
+              AND status IN ('confirmed', 'completed')
+              AND slot_start < NEW.slot_end
+              AND slot_end > NEW.slot_start
+
+            UNION ALL
+
+            SELECT 1
+            FROM reservations
+            WHERE staff_id = NEW.staff_id
+              AND expires_at > NOW()
+              AND slot_start < NEW.slot_end
+              AND slot_end > NEW.slot_start
+              AND (TG_OP = 'INSERT' OR id != NEW.id)
+        ) AS overlapping_bookings;
+
+        IF current_count > 0 THEN
+            RAISE EXCEPTION 'Staff member is already booked for this time slot';
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(max_simultaneous_bookings, 1) INTO max_capacity
+    FROM services
+    WHERE id = NEW.service_id;
+
+    IF max_capacity IS NULL THEN
+        max_capacity := 1;
+    END IF;
+
+    SELECT COUNT(*) INTO current_count
+    FROM (
+        SELECT 1
+        FROM appointments
+        WHERE service_id = NEW.service_id
+          AND business_id = NEW.business_id
+          AND deleted_at IS NULL
+          AND status IN ('confirmed', 'completed')
+          AND slot_start < NEW.slot_end
+          AND slot_end > NEW.slot_start
+
+        UNION ALL
+
+        SELECT 1
+        FROM reservations
+        WHERE service_id = NEW.service_id
+          AND business_id = NEW.business_id
+          AND expires_at > NOW()
+          AND slot_start < NEW.slot_end
+          AND slot_end > NEW.slot_start
+          AND (TG_OP = 'INSERT' OR id != NEW.id)
+    ) AS overlapping_bookings;
+
+    IF current_count >= max_capacity THEN
+        RAISE EXCEPTION 'Reservation capacity exceeded for this time slot (max: %, current: %)',
+            max_capacity, current_count;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION service_capacity_pools(UUID, UUID) IS 'Capacity pools (from config_json) a service draws from, with the services sharing each';
+COMMENT ON FUNCTION check_capacity_pools(UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID, BOOLEAN) IS 'Raises when a booking would overfill a shared capacity pool; locks each pool first';
+
+COMMIT;
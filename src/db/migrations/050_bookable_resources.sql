@@ -0,0 +1,238 @@
+-- Migration 050: Bookable resources
+-- Rooms and equipment declared in the tenant config (resources) that only one
+-- booking can hold at a time. Services require every resource in allOf plus
+-- one of oneOf; the app picks free resources when booking and stores them on
+-- the reservation, then on the appointment it becomes.
+--
+-- The app checks resources before writing; these triggers are the backstop.
+-- They take one advisory lock per held resource before looking for overlaps,
+-- so concurrent bookings of different services needing the same room are
+-- serialized even though their slot locks differ.
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: Resources held by bookings
+-- =============================================================================
+
+ALTER TABLE reservations ADD COLUMN resource_ids TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE appointments ADD COLUMN resource_ids TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX reservations_resource_ids_idx
+  ON reservations USING GIN (resource_ids)
+  WHERE resource_ids <> '{}';
+
+CREATE INDEX appointments_resource_ids_idx
+  ON appointments USING GIN (resource_ids)
+  WHERE resource_ids <> '{}' AND deleted_at IS NULL;
+
+-- Raise if one of the resources is held by another booking overlapping the slot.
+-- Reservations are only counted for reservation writes, like the capacity checks.
+CREATE OR REPLACE FUNCTION check_resources(
+    p_business_id UUID,
+    p_resource_ids TEXT[],
+    p_slot_start TIMESTAMPTZ,
+    p_slot_end TIMESTAMPTZ,
+    p_booking_id UUID,
+    p_count_reservations BOOLEAN
+)
+RETURNS VOID AS $$
+DECLARE
+    resource_id TEXT;
+BEGIN
+    -- Lock every resource first, in a fixed order, so two writers can't deadlock
+    FOR resource_id IN
+        SELECT DISTINCT r FROM unnest(p_resource_ids) AS r ORDER BY r
+    LOOP
+        PERFORM pg_advisory_xact_lock(hashtextextended('resource:' || p_business_id || ':' || resource_id, 0));
+    END LOOP;
+
+    FOR resource_id IN
+        SELECT DISTINCT r FROM unnest(p_resource_ids) AS r ORDER BY r
+    LOOP
+        IF EXISTS (
+            SELECT 1
+            FROM appointments
+            WHERE business_id = p_business_id
+              AND resource_ids @> ARRAY[resource_id]
+              AND id != p_booking_id
+              AND deleted_at IS NULL
+              AND status IN ('confirmed', 'completed')
+              AND slot_start < p_slot_end
+              AND slot_end > p_slot_start
+        ) OR (p_count_reservations AND EXISTS (
+            SELECT 1
+            FROM reservations
+            WHERE business_id = p_business_id
+              AND resource_ids @> ARRAY[resource_id]
+              AND id != p_booking_id
+              AND expires_at > NOW()
+              AND slot_start < p_slot_end
+              AND slot_end > p_slot_start
+        )) THEN
+            RAISE EXCEPTION 'Resource "%" is already booked for this time slot', resource_id;
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- PART 2: Capacity backstops aware of resources
+-- =============================================================================
+
+-- Appointments: resources and pools apply whether or not a staff member is
+-- assigned. Updates that keep the time, service, resources and a held status
+-- skip both checks.
+CREATE OR REPLACE FUNCTION check_appointment_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    max_capacity INTEGER;
+    current_count INTEGER;
+BEGIN
+    IF NEW.status NOT IN ('confirmed', 'completed') OR NEW.deleted_at IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT'
+       OR NEW.slot_start IS DISTINCT FROM OLD.slot_start
+       OR NEW.slot_end IS DISTINCT FROM OLD.slot_end
+       OR NEW.service_id IS DISTINCT FROM OLD.service_id
+       OR NEW.resource_ids IS DISTINCT FROM OLD.resource_ids
+       OR OLD.status NOT IN ('confirmed', 'completed')
+       OR OLD.deleted_at IS NOT NULL THEN
+        PERFORM check_resources(NEW.business_id, NEW.resource_ids, NEW.slot_start, NEW.slot_end, NEW.id, FALSE);
+        PERFORM check_capacity_pools(NEW.business_id, NEW.service_id, NEW.slot_start, NEW.slot_end, NEW.id, FALSE);
+    END IF;
+
+    IF NEW.staff_id IS NOT NULL THEN
+        SELECT COUNT(*) INTO current_count
+        FROM appointments
+        WHERE staff_id = NEW.staff_id
+          AND deleted_at IS NULL
+          AND status IN ('confirmed', 'completed')
+          AND slot_start < NEW.slot_end
+          AND slot_end > NEW.slot_start
+          AND (TG_OP = 'INSERT' OR id != NEW.id);
+
+        IF current_count > 0 THEN
+            RAISE EXCEPTION 'Staff member is already booked for this time slot';
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    SELECT max_simultaneous_bookings INTO max_capacity
+    FROM services
+    WHERE id = NEW.service_id;
+
+    SELECT COUNT(*) INTO current_count
+    FROM appointments
+    WHERE service_id = NEW.service_id
+      AND deleted_at IS NULL
+      AND status IN ('confirmed', 'completed')
+      AND (
+          (slot_start <= NEW.slot_start AND slot_end > NEW.slot_start) OR
+          (slot_start < NEW.slot_end AND slot_end >= NEW.slot_end) OR
+          (slot_start >= NEW.slot_start AND slot_end <= NEW.slot_end)
+      )
+      AND (TG_OP = 'INSERT' OR id != NEW.id);
+
+    IF current_count >= max_capacity THEN
+        RAISE EXCEPTION 'Appointment capacity exceeded for this time slot';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reservations: same, counting both appointments and active reservations.
+-- Extending a reservation (same time, service and resources) skips both checks.
+CREATE OR REPLACE FUNCTION check_reservation_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    max_capacity INTEGER;
+    current_count INTEGER;
+BEGIN
+    IF TG_OP = 'INSERT'
+       OR NEW.slot_start IS DISTINCT FROM OLD.slot_start
+       OR NEW.slot_end IS DISTINCT FROM OLD.slot_end
+       OR NEW.service_id IS DISTINCT FROM OLD.service_id
+       OR NEW.resource_ids IS DISTINCT FROM OLD.resource_ids THEN
+        PERFORM check_resources(NEW.business_id, NEW.resource_ids, NEW.slot_start, NEW.slot_end, NEW.id, TRUE);
+        PERFORM check_capacity_pools(NEW.business_id, NEW.service_id, NEW.slot_start, NEW.slot_end, NEW.id, TRUE);
+    END IF;
+
+    IF NEW.staff_id IS NOT NULL THEN
+        SELECT COUNT(*) INTO current_count
+        FROM (
+            SELECT 1
+            FROM appointments
+            WHERE staff_id = NEW.staff_id
+              AND deleted_at IS NULL
+              AND status IN ('confirmed', 'completed')
+              AND slot_start < NEW.slot_end
+              AND slot_end > NEW.slot_start
+
+            UNION ALL
+
+            SELECT 1
+            FROM reservations
+            WHERE staff_id = NEW.staff_id
+              AND expires_at > NOW()
+              AND slot_start < NEW.slot_end
+              AND slot_end > NEW.slot_start
+              AND (TG_OP = 'INSERT' OR id != NEW.id)
+        ) AS overlapping_bookings;
+
+        IF current_count > 0 THEN
+            RAISE EXCEPTION 'Staff member is already booked for this time slot';
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(max_simultaneous_bookings, 1) INTO max_capacity
+    FROM services
+    WHERE id = NEW.service_id;
+
+    IF max_capacity IS NULL THEN
+        max_capacity := 1;
+    END IF;
+
+    SELECT COUNT(*) INTO current_count
+    FROM (
+        SELECT 1
+        FROM appointments
+        WHERE service_id = NEW.service_id
+          AND business_id = NEW.business_id
+          AND deleted_at IS NULL
+          AND status IN ('confirmed', 'completed')
+          AND slot_start < NEW.slot_end
+          AND slot_end > NEW.slot_start
+
+        UNION ALL
+
+        SELECT 1
+        FROM reservations
+        WHERE service_id = NEW.service_id
+          AND business_id = NEW.business_id
+          AND expires_at > NOW()
+          AND slot_start < NEW.slot_end
+          AND slot_end > NEW.slot_start
+          AND (TG_OP = 'INSERT' OR id != NEW.id)
+    ) AS overlapping_bookings;
+
+    IF current_count >= max_capacity THEN
+        RAISE EXCEPTION 'Reservation capacity exceeded for this time slot (max: %, current: %)',
+            max_capacity, current_count;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN appointments.resource_ids IS 'Config resource ids (rooms, equipment) the appointment holds exclusively';
+COMMENT ON COLUMN reservations.resource_ids IS 'Config resource ids the reservation holds exclusively';
+COMMENT ON FUNCTION check_resources(UUID, TEXT[], TIMESTAMPTZ, TIMESTAMPTZ, UUID, BOOLEAN) IS 'Raises when a booking would hold a resource another overlapping booking holds; locks each resource first';
+
+COMMIT;
@@ -0,0 +1,50 @@
+-- Migration 051: Multi-service booking groups
+-- Customers can book several services back to back in one checkout (e.g.
+-- cut + colour + blow-dry). Each service is a leg: an ordinary reservation,
+-- then an ordinary appointment, linked to the group it was booked in.
+--
+-- The group is what the customer sees: it is reserved under one idempotency
+-- key, confirmed under one booking ID and canceled or rescheduled as a whole.
+-- The first leg carries the group's booking ID; later legs get it with a
+-- "-2", "-3", ... suffix so every appointment keeps a unique booking_id.
+
+BEGIN;
+
+CREATE TABLE booking_groups (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  -- Set when the legs are committed; NULL while the group is only reserved
+  booking_id TEXT UNIQUE,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  leg_count INTEGER NOT NULL CHECK (leg_count BETWEEN 2 AND 5),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX booking_groups_business_idx ON booking_groups (business_id);
+
+CREATE TRIGGER update_booking_groups_updated_at
+  BEFORE UPDATE ON booking_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Reservations of a group go with it when an unfinished checkout is dropped
+ALTER TABLE reservations
+  ADD COLUMN group_id UUID REFERENCES booking_groups(id) ON DELETE CASCADE,
+  ADD COLUMN group_index INTEGER;
+
+ALTER TABLE appointments
+  ADD COLUMN group_id UUID REFERENCES booking_groups(id) ON DELETE SET NULL,
+  ADD COLUMN group_index INTEGER;
+
+CREATE INDEX reservations_group_idx ON reservations (group_id, group_index)
+  WHERE group_id IS NOT NULL;
+
+CREATE INDEX appointments_group_idx ON appointments (group_id, group_index)
+  WHERE group_id IS NOT NULL;
+
+COMMENT ON TABLE booking_groups IS 'Several services booked back to back in one checkout; legs are reservations/appointments with group_id set';
+COMMENT ON COLUMN booking_groups.booking_id IS 'Booking ID shown to the customer, also the booking_id of the first leg';
+COMMENT ON COLUMN appointments.group_index IS 'Position of the leg in its group, from 0 (the order the services run in)';
+
+COMMIT;
@@ -0,0 +1,387 @@
+-- Migration 052: Buffer-aware occupancy
+-- Services can have setup and cleanup buffers (migration 024), but every
+-- overlap check compared raw slot_start/slot_end, so the API accepted a
+-- booking inside another booking's cleanup time even though the booking page
+-- hid it.
+--
+-- Reservations and appointments now store the interval they occupy: the slot
+-- widened by the service's buffer_before_minutes and buffer_after_minutes.
+-- The capacity triggers stamp it whenever the time or service changes, and
+-- every overlap check (per service, per staff member, pools, resources)
+-- compares occupied intervals. Two bookings conflict when their occupied
+-- intervals overlap, so back-to-back bookings need the first one's buffer
+-- after plus the second one's buffer before between them.
+--
+-- The stored interval is fixed at booking time: changing a service's buffers
+-- later only applies to bookings made or moved afterwards.
+--
+-- Bookings with different slot starts can now overlap, so the per-slot lock
+-- taken by ReservationManager no longer serializes them. The triggers take one
+-- advisory lock per staff member (or per service without staff) before
+-- counting, and the reservation manager takes the same lock.
+
+BEGIN;
+
+-- =============================================================================
+-- PART 1: Occupied interval of a booking
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION booking_occupied_start(p_service_id UUID, p_slot_start TIMESTAMPTZ)
+RETURNS TIMESTAMPTZ AS $$
+    SELECT p_slot_start - make_interval(mins => COALESCE(
+        (SELECT buffer_before_minutes FROM services WHERE id = p_service_id),
+        0
+    ))
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION booking_occupied_end(p_service_id UUID, p_slot_end TIMESTAMPTZ)
+RETURNS TIMESTAMPTZ AS $$
+    SELECT p_slot_end + make_interval(mins => COALESCE(
+        (SELECT buffer_after_minutes FROM services WHERE id = p_service_id),
+        0
+    ))
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE reservations
+  ADD COLUMN occupied_start TIMESTAMPTZ,
+  ADD COLUMN occupied_end TIMESTAMPTZ;
+
+ALTER TABLE appointments
+  ADD COLUMN occupied_start TIMESTAMPTZ,
+  ADD COLUMN occupied_end TIMESTAMPTZ;
+
+-- Backfill without re-running the capacity checks (or bumping updated_at) on existing rows
+ALTER TABLE reservations DISABLE TRIGGER USER;
+ALTER TABLE appointments DISABLE TRIGGER USER;
+
+UPDATE reservations
+SET occupied_start = booking_occupied_start(service_id, slot_start),
+    occupied_end = booking_occupied_end(service_id, slot_end);
+
+UPDATE appointments
+SET occupied_start = booking_occupied_start(service_id, slot_start),
+    occupied_end = booking_occupied_end(service_id, slot_end);
+
+ALTER TABLE reservations ENABLE TRIGGER USER;
+ALTER TABLE appointments ENABLE TRIGGER USER;
+
+ALTER TABLE reservations
+  ALTER COLUMN occupied_start SET NOT NULL,
+  ALTER COLUMN occupied_end SET NOT NULL;
+
+ALTER TABLE appointments
+  ALTER COLUMN occupied_start SET NOT NULL,
+  ALTER COLUMN occupied_end SET NOT NULL;
+
+CREATE INDEX reservations_occupied_idx
+  ON reservations (business_id, occupied_start, occupied_end);
+
+CREATE INDEX appointments_occupied_idx
+  ON appointments (business_id, occupied_start, occupied_end)
+  WHERE deleted_at IS NULL;
+
+-- Serialize bookings that count against each other: per staff member when
+-- set, otherwise per service. Taken before any pool or resource lock.
+CREATE OR REPLACE FUNCTION lock_booking_scope(p_business_id UUID, p_service_id UUID, p_staff_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF p_staff_id IS NOT NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtextextended('staff:' || p_business_id || ':' || p_staff_id, 0));
+    ELSE
+        PERFORM pg_advisory_xact_lock(hashtextextended('service:' || p_business_id || ':' || p_service_id, 0));
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- PART 2: Pool and resource checks over occupied intervals
+-- =============================================================================
+
+-- Parameters are renamed, which CREATE OR REPLACE can't do
+DROP FUNCTION check_capacity_pools(UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID, BOOLEAN);
+DROP FUNCTION check_resources(UUID, TEXT[], TIMESTAMPTZ, TIMESTAMPTZ, UUID, BOOLEAN);
+
+CREATE FUNCTION check_capacity_pools(
+    p_business_id UUID,
+    p_service_id UUID,
+    p_occupied_start TIMESTAMPTZ,
+    p_occupied_end TIMESTAMPTZ,
+    p_booking_id UUID,
+    p_count_reservations BOOLEAN
+)
+RETURNS VOID AS $$
+DECLARE
+    pool RECORD;
+    current_count INTEGER;
+BEGIN
+    -- Lock every pool first, in a fixed order, so two writers can't deadlock
+    FOR pool IN
+        SELECT * FROM service_capacity_pools(p_business_id, p_service_id) ORDER BY pool_id
+    LOOP
+        PERFORM pg_advisory_xact_lock(hashtextextended('capacity_pool:' || p_business_id || ':' || pool.pool_id, 0));
+    END LOOP;
+
+    FOR pool IN
+        SELECT * FROM service_capacity_pools(p_business_id, p_service_id) ORDER BY pool_id
+    LOOP
+        SELECT COUNT(*) INTO current_count
+        FROM (
+            SELECT 1
+            FROM appointments
+            WHERE business_id = p_business_id
+              AND service_id = ANY(pool.service_ids)
+              AND id != p_booking_id
+              AND deleted_at IS NULL
+              AND status IN ('confirmed', 'completed')
+              AND occupied_start < p_occupied_end
+              AND occupied_end > p_occupied_start
+
+            UNION ALL
+
+            SELECT 1
+            FROM reservations
+            WHERE p_count_reservations
+              AND business_id = p_business_id
+              AND service_id = ANY(pool.service_ids)
+              AND id != p_booking_id
+              AND expires_at > NOW()
+              AND occupied_start < p_occupied_end
+              AND occupied_end > p_occupied_start
+        ) AS pool_bookings;
+
+        IF current_count >= pool.pool_capacity THEN
+            RAISE EXCEPTION 'Capacity pool "%" is full for this time slot (max: %, current: %)',
+                pool.pool_id, pool.pool_capacity, current_count;
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE FUNCTION check_resources(
+    p_business_id UUID,
+    p_resource_ids TEXT[],
+    p_occupied_start TIMESTAMPTZ,
+    p_occupied_end TIMESTAMPTZ,
+    p_booking_id UUID,
+    p_count_reservations BOOLEAN
+)
+RETURNS VOID AS $$
+DECLARE
+    resource_id TEXT;
+BEGIN
+    -- Lock every resource first, in a fixed order, so two writers can't deadlock
+    FOR resource_id IN
+        SELECT DISTINCT r FROM unnest(p_resource_ids) AS r ORDER BY r
+    LOOP
+        PERFORM pg_advisory_xact_lock(hashtextextended('resource:' || p_business_id || ':' || resource_id, 0));
+    END LOOP;
+
+    FOR resource_id IN
+        SELECT DISTINCT r FROM unnest(p_resource_ids) AS r ORDER BY r
+    LOOP
+        IF EXISTS (
+            SELECT 1
+            FROM appointments
+            WHERE business_id = p_business_id
+              AND resource_ids @> ARRAY[resource_id]
+              AND id != p_booking_id
+              AND deleted_at IS NULL
+              AND status IN ('confirmed', 'completed')
+              AND occupied_start < p_occupied_end
+              AND occupied_end > p_occupied_start
+        ) OR (p_count_reservations AND EXISTS (
+            SELECT 1
+            FROM reservations
+            WHERE business_id = p_business_id
+              AND resource_ids @> ARRAY[resource_id]
+              AND id != p_booking_id
+              AND expires_at > NOW()
+              AND occupied_start < p_occupied_end
+              AND occupied_end > p_occupied_start
+        )) THEN
+            RAISE EXCEPTION 'Resource "%" is already booked for this time slot', resource_id;
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================================================
+-- PART 3: Capacity backstops over occupied intervals
+-- =============================================================================
+
+-- Appointments: stamp the occupied interval when the time or service changes,
+-- then check staff, per-service capacity, pools and resources against it.
+CREATE OR REPLACE FUNCTION check_appointment_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    max_capacity INTEGER;
+    current_count INTEGER;
+BEGIN
+    IF TG_OP = 'INSERT'
+       OR NEW.slot_start IS DISTINCT FROM OLD.slot_start
+       OR NEW.slot_end IS DISTINCT FROM OLD.slot_end
+       OR NEW.service_id IS DISTINCT FROM OLD.service_id THEN
+        NEW.occupied_start := booking_occupied_start(NEW.service_id, NEW.slot_start);
+        NEW.occupied_end := booking_occupied_end(NEW.service_id, NEW.slot_end);
+    END IF;
+
+    IF NEW.status NOT IN ('confirmed', 'completed') OR NEW.deleted_at IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM lock_booking_scope(NEW.business_id, NEW.service_id, NEW.staff_id);
+
+    IF TG_OP = 'INSERT'
+       OR NEW.occupied_start IS DISTINCT FROM OLD.occupied_start
+       OR NEW.occupied_end IS DISTINCT FROM OLD.occupied_end
+       OR NEW.service_id IS DISTINCT FROM OLD.service_id
+       OR NEW.resource_ids IS DISTINCT FROM OLD.resource_ids
+       OR OLD.status NOT IN ('confirmed', 'completed')
+       OR OLD.deleted_at IS NOT NULL THEN
+        PERFORM check_resources(NEW.business_id, NEW.resource_ids, NEW.occupied_start, NEW.occupied_end, NEW.id, FALSE);
+        PERFORM check_capacity_pools(NEW.business_id, NEW.service_id, NEW.occupied_start, NEW.occupied_end, NEW.id, FALSE);
+    END IF;
+
+    IF NEW.staff_id IS NOT NULL THEN
+        SELECT COUNT(*) INTO current_count
+        FROM appointments
+        WHERE staff_id = NEW.staff_id
+          AND deleted_at IS NULL
+          AND status IN ('confirmed', 'completed')
+          AND occupied_start < NEW.occupied_end
+          AND occupied_end > NEW.occupied_start
+          AND (TG_OP = 'INSERT' OR id != NEW.id);
+
+        IF current_count > 0 THEN
+            RAISE EXCEPTION 'Staff member is already booked for this time slot';
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    SELECT max_simultaneous_bookings INTO max_capacity
+    FROM services
+    WHERE id = NEW.service_id;
+
+    SELECT COUNT(*) INTO current_count
+    FROM appointments
+    WHERE service_id = NEW.service_id
+      AND deleted_at IS NULL
+      AND status IN ('confirmed', 'completed')
+      AND occupied_start < NEW.occupied_end
+      AND occupied_end > NEW.occupied_start
+      AND (TG_OP = 'INSERT' OR id != NEW.id);
+
+    IF current_count >= max_capacity THEN
+        RAISE EXCEPTION 'Appointment capacity exceeded for this time slot';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reservations: same, counting both appointments and active reservations.
+-- Extending a reservation (same time, service and resources) skips the pool
+-- and resource checks.
+CREATE OR REPLACE FUNCTION check_reservation_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    max_capacity INTEGER;
+    current_count INTEGER;
+BEGIN
+    IF TG_OP = 'INSERT'
+       OR NEW.slot_start IS DISTINCT FROM OLD.slot_start
+       OR NEW.slot_end IS DISTINCT FROM OLD.slot_end
+       OR NEW.service_id IS DISTINCT FROM OLD.service_id THEN
+        NEW.occupied_start := booking_occupied_start(NEW.service_id, NEW.slot_start);
+        NEW.occupied_end := booking_occupied_end(NEW.service_id, NEW.slot_end);
+    END IF;
+
+    PERFORM lock_booking_scope(NEW.business_id, NEW.service_id, NEW.staff_id);
+
+    IF TG_OP = 'INSERT'
+       OR NEW.occupied_start IS DISTINCT FROM OLD.occupied_start
+       OR NEW.occupied_end IS DISTINCT FROM OLD.occupied_end
+       OR NEW.service_id IS DISTINCT FROM OLD.service_id
+       OR NEW.resource_ids IS DISTINCT FROM OLD.resource_ids THEN
+        PERFORM check_resources(NEW.business_id, NEW.resource_ids, NEW.occupied_start, NEW.occupied_end, NEW.id, TRUE);
+        PERFORM check_capacity_pools(NEW.business_id, NEW.service_id, NEW.occupied_start, NEW.occupied_end, NEW.id, TRUE);
+    END IF;
+
+    IF NEW.staff_id IS NOT NULL THEN
+        SELECT COUNT(*) INTO current_count
+        FROM (
+            SELECT 1
+            FROM appointments
+            WHERE staff_id = NEW.staff_id
+              AND deleted_at IS NULL
+              AND status IN ('confirmed', 'completed')
+              AND occupied_start < NEW.occupied_end
+              AND occupied_end > NEW.occupied_start
+
+            UNION ALL
+
+            SELECT 1
+            FROM reservations
+            WHERE staff_id = NEW.staff_id
+              AND expires_at > NOW()
+              AND occupied_start < NEW.occupied_end
+              AND occupied_end > NEW.occupied_start
+              AND (TG_OP = 'INSERT' OR id != NEW.id)
+        ) AS overlapping_bookings;
+
+        IF current_count > 0 THEN
+            RAISE EXCEPTION 'Staff member is already booked for this time slot';
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(max_simultaneous_bookings, 1) INTO max_capacity
+    FROM services
+    WHERE id = NEW.service_id;
+
+    IF max_capacity IS NULL THEN
+        max_capacity := 1;
+    END IF;
+
+    SELECT COUNT(*) INTO current_count
+    FROM (
+        SELECT 1
+        FROM appointments
+        WHERE service_id = NEW.service_id
+          AND business_id = NEW.business_id
+          AND deleted_at IS NULL
+          AND status IN ('confirmed', 'completed')
+          AND occupied_start < NEW.occupied_end
+          AND occupied_end > NEW.occupied_start
+
+        UNION ALL
+
+        SELECT 1
+        FROM reservations
+        WHERE service_id = NEW.service_id
+          AND business_id = NEW.business_id
+          AND expires_at > NOW()
+          AND occupied_start < NEW.occupied_end
+          AND occupied_end > NEW.occupied_start
+          AND (TG_OP = 'INSERT' OR id != NEW.id)
+    ) AS overlapping_bookings;
+
+    IF current_count >= max_capacity THEN
+        RAISE EXCEPTION 'Reservation capacity exceeded for this time slot (max: %, current: %)',
+            max_capacity, current_count;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN appointments.occupied_start IS 'slot_start minus the service buffer before, stamped by the capacity trigger';
+COMMENT ON COLUMN appointments.occupied_end IS 'slot_end plus the service buffer after, stamped by the capacity trigger';
+COMMENT ON COLUMN reservations.occupied_start IS 'slot_start minus the service buffer before, stamped by the capacity trigger';
+COMMENT ON COLUMN reservations.occupied_end IS 'slot_end plus the service buffer after, stamped by the capacity trigger';
+COMMENT ON FUNCTION lock_booking_scope(UUID, UUID, UUID) IS 'Advisory lock serializing bookings of one staff member, or of one service when no staff is set';
+COMMENT ON FUNCTION check_resources(UUID, TEXT[], TIMESTAMPTZ, TIMESTAMPTZ, UUID, BOOLEAN) IS 'Raises when a booking would hold a resource another booking holds over an overlapping occupied interval; locks each resource first';
+
+COMMIT;
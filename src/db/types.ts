@@ -4,7 +4,7 @@ export type UserRole = 'owner' | 'staff' | 'customer';
 export type BusinessStatus = 'active' | 'suspended' | 'deleted';
 export type AppointmentStatus = 'confirmed' | 'canceled' | 'cancelled' | 'completed' | 'no_show';
 export type NotificationChannel = 'email' | 'sms' | 'webhook';
-export type NotificationStatus = 'pending' | 'sent' | 'failed' | 'retrying';
+export type NotificationStatus = 'pending' | 'sent' | 'failed' | 'retrying' | 'dead_letter';
 export type AuditAction = 'created' | 'confirmed' | 'modified' | 'canceled' | 'completed' | 'no_show';
 export type NotificationType = 'booking_created' | 'booking_canceled' | 'booking_rescheduled' | 'no_show_marked' | 'appointment_completed';
 
@@ -75,8 +75,14 @@ export interface Reservation {
   id: string;
   business_id: string;
   service_id: string;
+  staff_id?: string | null;
+  resource_ids?: string[]; // Config resource ids the reservation holds
+  group_id?: string | null; // Set for legs of a multi-service booking group
+  group_index?: number | null;
   slot_start: Date;
   slot_end: Date;
+  occupied_start?: Date; // Slot widened by the service's buffers, stamped by the capacity trigger
+  occupied_end?: Date;
   idempotency_key: string;
   expires_at: Date;
   created_at: Date;
@@ -88,6 +94,8 @@ export interface Appointment {
   business_id: string;
   service_id: string;
   service_name?: string | null;
+  staff_id?: string | null;
+  resource_ids?: string[]; // Config resource ids (rooms, equipment) the appointment holds
   customer_id: string | null;
   customer_name?: string | null;
   customer_email?: string | null;
@@ -99,20 +107,248 @@ export interface Appointment {
   end_time: Date | string;
   slot_start?: Date;
   slot_end?: Date;
+  occupied_start?: Date; // Slot widened by the service's buffers, stamped by the capacity trigger
+  occupied_end?: Date;
   status: AppointmentStatus;
   notes?: string | null;
+  internal_notes?: string | null; // Business-only, never sent to customers
   idempotency_key?: string;
   reservation_id?: string | null;
   /** @deprecated Use guest_token_hash instead */
   cancellation_token?: string | null;
   guest_token_hash: string | null;
   guest_token_expires_at: Date | null;
+  payment_status?: AppointmentPaymentStatus;
+  deposit_paid_cents?: number | null;
+  policy_override?: boolean;
+  custom_field_answers?: CustomFieldAnswer[];
+  series_id?: string | null; // Set for occurrences of a recurring series
+  series_index?: number | null;
+  group_id?: string | null; // Set for legs of a multi-service booking group
+  group_index?: number | null;
+  customer_profile_id?: string | null;
   version?: number;
   created_at: Date | string;
   updated_at: Date | string;
   deleted_at?: Date | null;
 }
 
+// Answer to a bookingRequirements.customFields question, with the label as it was when booked
+export interface CustomFieldAnswer {
+  id: string;
+  label: string;
+  type: 'text' | 'textarea' | 'select' | 'checkbox' | 'radio';
+  value: string | boolean;
+}
+
+export type AppointmentPaymentStatus = 'none' | 'paid' | 'refunded' | 'partially_refunded';
+
+export type PaymentRecordStatus = 'pending' | 'succeeded' | 'failed' | 'canceled' | 'refunded' | 'partially_refunded';
+
+export interface Payment {
+  id: string;
+  business_id: string;
+  reservation_id: string | null;
+  appointment_id: string | null;
+  provider: string;
+  provider_payment_id: string;
+  redirect_url: string | null;
+  amount_cents: number;
+  currency: string;
+  status: PaymentRecordStatus;
+  refunded_cents: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type WebhookEventType =
+  | 'booking_created'
+  | 'booking_canceled'
+  | 'booking_rescheduled'
+  | 'no_show_marked'
+  | 'appointment_completed';
+
+export interface WebhookEndpoint {
+  id: string;
+  business_id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  business_id: string;
+  appointment_id: string | null;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: NotificationStatus;
+  attempts: number;
+  next_attempt_at: Date | null;
+  locked_until: Date | null;
+  last_attempt_at: Date | null;
+  response_status: number | null;
+  error_message: string | null;
+  replay_of: string | null;
+  created_at: Date;
+}
+
+export type ApiKeyScope = 'read' | 'write';
+
+export interface ApiKey {
+  id: string;
+  business_id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  scopes: ApiKeyScope[];
+  rate_limit_per_minute: number;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CalendarFeed {
+  id: string;
+  business_id: string;
+  staff_id: string | null; // NULL = whole business
+  token: string;
+  last_accessed_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type ExternalCalendarSource = 'url' | 'upload';
+
+export interface ExternalCalendar {
+  id: string;
+  business_id: string;
+  name: string;
+  source_type: ExternalCalendarSource;
+  url: string | null; // set for source_type 'url'
+  enabled: boolean;
+  last_synced_at: Date | null;
+  last_sync_error: string | null;
+  event_count: number;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type AppointmentSeriesStatus = 'active' | 'canceled';
+
+export interface AppointmentSeries {
+  id: string;
+  business_id: string;
+  service_id: string;
+  staff_id: string | null;
+  customer_id: string | null;
+  interval_weeks: number;
+  occurrence_count: number | null;
+  until_date: string | null; // YYYY-MM-DD in the business timezone
+  status: AppointmentSeriesStatus;
+  idempotency_key: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface BookingGroup {
+  id: string;
+  business_id: string;
+  booking_id: string | null; // Set once the legs are committed
+  idempotency_key: string;
+  leg_count: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CustomerProfile {
+  id: string;
+  business_id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  user_id: string | null; // Set once the customer books with an account
+  tags: string[];
+  notes: string | null; // Private to the business
+  no_show_reset_at: Date | null; // No-shows before this are forgiven
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type CustomerIdentityKind = 'email' | 'phone';
+
+export type DataExportType = 'appointments' | 'customers' | 'revenue';
+
+export type DataExportFormat = 'csv' | 'json';
+
+export interface DataExport {
+  id: string;
+  business_id: string;
+  user_id: string | null;
+  export_type: DataExportType;
+  format: DataExportFormat;
+  start_date: string; // YYYY-MM-DD, business timezone
+  end_date: string; // YYYY-MM-DD, included
+  ip_address: string | null;
+  row_count: number | null; // NULL until the whole file was sent
+  completed_at: Date | null;
+  created_at: Date;
+}
+
+export type StaffStatus = 'invited' | 'active' | 'removed';
+
+export interface StaffMember {
+  id: string;
+  business_id: string;
+  user_id: string | null;
+  name: string;
+  email: string;
+  status: StaffStatus;
+  weekly_hours: Array<{ day: string; enabled: boolean; slots: Array<{ open: string; close: string }> }> | null;
+  invite_token_hash?: string | null;
+  invite_expires_at?: Date | null;
+  invited_by?: string | null;
+  created_at: Date;
+  updated_at: Date;
+  deleted_at: Date | null;
+}
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'expired' | 'canceled';
+
+export interface WaitlistEntry {
+  id: string;
+  business_id: string;
+  service_id: string;
+  staff_id: string | null;
+  customer_id: string | null;
+  email: string;
+  name: string;
+  phone: string | null;
+  range_start: Date;
+  range_end: Date;
+  status: WaitlistStatus;
+  reservation_id: string | null;
+  offer_slot_start: Date | null;
+  offer_slot_end: Date | null;
+  offer_staff_id: string | null;
+  offer_token_hash?: string | null;
+  offer_expires_at: Date | null;
+  appointment_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface AuditLog {
   id: string;
   appointment_id: string;
@@ -142,13 +378,34 @@ export interface NotificationLog {
   recipient_phone: string | null;
   channel: NotificationChannel;
   template_name: string;
+  reminder_slot_start: Date | null; // appointment_reminder only: the start time it was claimed for
   status: NotificationStatus;
   attempts: number;
   last_attempt_at: Date | null;
   error_message: string | null;
+  payload: NotificationPayload | null;
+  next_attempt_at: Date | null;
+  locked_until: Date | null;
   created_at: Date;
 }
 
+// Rendered content stored on a queued notification
+export interface NotificationPayload {
+  subject?: string; // email
+  html?: string; // email
+  attachments?: NotificationAttachment[]; // email
+  body?: string; // sms
+  businessId?: string; // sms - quota is charged to this business
+  locale?: string; // sms - tenant locale for phone normalisation
+}
+
+// File attached to an email, e.g. the .ics of an appointment
+export interface NotificationAttachment {
+  filename: string;
+  content: string; // base64
+  contentType?: string;
+}
+
 // JWT Claims structure for RLS
 export interface JWTClaims {
   user_id?: string;
@@ -81,6 +81,20 @@ export function generatePasswordResetToken(): string {
   return nanoid(32);
 }
 
+/**
+ * Generate staff invitation token
+ */
+export function generateStaffInviteToken(): string {
+  return nanoid(32);
+}
+
+/**
+ * Generate waitlist offer token (claim link for a held slot)
+ */
+export function generateWaitlistOfferToken(): string {
+  return nanoid(32);
+}
+
 /**
  * Get refresh token expiry timestamp
  */
@@ -102,6 +116,13 @@ export function getPasswordResetExpiry(): Date {
   return new Date(Date.now() + 60 * 60 * 1000);
 }
 
+/**
+ * Get staff invitation expiry (7 days)
+ */
+export function getStaffInviteExpiry(): Date {
+  return new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+}
+
 /**
  * Get guest token expiry (appointment time + 24 hours)
  */
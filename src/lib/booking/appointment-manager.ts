@@ -1,6 +1,12 @@
 import { DbClient, withTransaction } from '../../db/client';
-import { Appointment, AppointmentStatus } from '../../db/types';
+import { Appointment, AppointmentStatus, CustomFieldAnswer } from '../../db/types';
 import { ReservationManager } from './reservation-manager';
+import { CapacityPoolLimit } from './capacity-pools';
+import { ResourceRequirement } from './resources';
+import { WaitlistManager } from './waitlist-manager';
+import { DepositManager } from '../payments/deposit-manager';
+import { WebhookService } from '../webhooks/webhook-service';
+import { getStatusWebhookEvent } from '../webhooks/events';
 import { v4 as uuidv4 } from 'uuid';
 import { generateBookingId } from '../booking/id';
 
@@ -12,6 +18,13 @@ export interface CommitReservationParams {
   guestPhone?: string;
   guestName?: string;
   cancellationToken?: string;
+  customFieldAnswers?: CustomFieldAnswer[]; // Validated with validateCustomFieldAnswers
+  notes?: string; // Customer notes from the booking page
+  depositPaymentId?: string; // Succeeded deposit (see DepositManager.confirmDeposit), linked in the same statement
+}
+
+export interface CreateFromGroupParams extends Omit<CommitReservationParams, 'reservationId' | 'depositPaymentId'> {
+  groupId: string; // bookingId is the group's; later legs get it suffixed
 }
 
 export interface CreateManualAppointmentParams {
@@ -25,6 +38,11 @@ export interface CreateManualAppointmentParams {
   idempotencyKey: string;
   actorId: string;
   maxSimultaneousBookings: number; // YAML config capacity (single source of truth)
+  staffId?: string; // Assign to a staff member (checks that person's calendar instead of service capacity)
+  capacityPools?: CapacityPoolLimit[]; // Shared pools the service draws from (see resolveCapacityPools)
+  resources?: ResourceRequirement; // Rooms/equipment the service requires (see getServiceResources)
+  seriesId?: string; // Occurrence of a recurring series (see SeriesManager)
+  seriesIndex?: number;
 }
 
 export interface UpdateAppointmentParams {
@@ -33,9 +51,13 @@ export interface UpdateAppointmentParams {
   slotEnd?: Date;
   serviceId?: string;
   status?: AppointmentStatus;
-  actorId: string;
+  notes?: string | null; // null clears the note, undefined leaves it unchanged
+  internalNotes?: string | null;
+  actorId: string | null; // null for guests
   expectedVersion: number;
   maxSimultaneousBookings?: number; // YAML config capacity (required if changing time/service)
+  capacityPools?: CapacityPoolLimit[]; // Shared pools of the (new) service, checked when changing time/service
+  resources?: ResourceRequirement; // Resources of the (new) service, re-picked when changing time/service
 }
 
 export interface AppointmentConflictError extends Error {
@@ -51,10 +73,34 @@ export class AppointmentManager {
   }
 
   /**
-   * Commits a reservation to an appointment in a single transaction.
+   * Commits a reservation to an appointment in a single statement.
    * This is the primary booking flow for customers.
+   * Emits the booking_created webhook. Legs of a booking group stay linked to it.
+   * A deposit, if given, is attached in the same statement; if it was refunded
+   * meanwhile, nothing is committed.
    */
   async commitReservation(params: CommitReservationParams): Promise<Appointment> {
+    const committed = await this.createFromReservation(params);
+
+    await new WebhookService(this.db).emitAppointmentEvent('booking_created', committed.id);
+
+    return committed;
+  }
+
+  /**
+   * Turns a reservation into an appointment, without a webhook of its own.
+   *
+   * The reservation is locked, the deposit linked, the appointment and its
+   * audit entry inserted and the reservation deleted in one statement, so
+   * either all of it happens or none does: Neon's HTTP driver has no
+   * interactive transactions to spread them over. A deposit refunded
+   * concurrently (see DepositManager.refundUnbookedDeposit) either waits for
+   * this statement and leaves the attached payment alone, or wins and nothing
+   * is committed.
+   *
+   * @throws Error if the reservation expired or the deposit is no longer available
+   */
+  async createFromReservation(params: CommitReservationParams): Promise<Appointment> {
     const {
       reservationId,
       bookingId,
@@ -62,27 +108,41 @@ export class AppointmentManager {
       guestEmail,
       guestPhone,
       guestName,
-      cancellationToken
+      cancellationToken,
+      customFieldAnswers,
+      notes,
+      depositPaymentId
     } = params;
 
-    return withTransaction(async (txDb) => {
-      // Validate reservation still exists and is not expired
-      const validation = await new ReservationManager(txDb).validateReservation(reservationId);
-
-      if (!validation.isValid) {
-        throw new Error(validation.reason || 'Reservation invalid');
-      }
-
-      const reservation = validation.reservation!;
-      const appointmentId = uuidv4();
+    const appointmentId = uuidv4();
 
-      // Create appointment from reservation
-      const appointmentResult = await txDb`
+    const [appointment] = await this.db`
+      WITH reservation AS (
+        SELECT * FROM reservations
+        WHERE id = ${reservationId}
+          AND expires_at > NOW()
+        FOR UPDATE
+      ),
+      deposit AS (
+        -- Only a payment that is still succeeded and unattached, and only if the reservation holds
+        UPDATE payments
+        SET appointment_id = ${appointmentId}
+        WHERE id = ${depositPaymentId ?? null}::uuid
+          AND status = 'succeeded'
+          AND appointment_id IS NULL
+          AND EXISTS (SELECT 1 FROM reservation)
+        RETURNING amount_cents
+      ),
+      created AS (
         INSERT INTO appointments (
           id,
           booking_id,
           business_id,
           service_id,
+          staff_id,
+          resource_ids,
+          group_id,
+          group_index,
           customer_id,
           guest_email,
           guest_phone,
@@ -93,62 +153,183 @@ export class AppointmentManager {
           idempotency_key,
           reservation_id,
           cancellation_token,
+          custom_field_answers,
+          notes,
+          payment_status,
+          deposit_paid_cents,
           version,
           created_at,
           updated_at
-        ) VALUES (
+        )
+        SELECT
           ${appointmentId},
           ${bookingId},
-          ${reservation.business_id},
-          ${reservation.service_id},
+          reservation.business_id,
+          reservation.service_id,
+          reservation.staff_id,
+          COALESCE(reservation.resource_ids, '{}'::text[]),
+          reservation.group_id,
+          reservation.group_index,
           ${customerId || null},
           ${guestEmail || null},
           ${guestPhone || null},
           ${guestName || null},
-          ${reservation.slot_start},
-          ${reservation.slot_end},
+          reservation.slot_start,
+          reservation.slot_end,
           'confirmed',
-          ${reservation.idempotency_key},
-          ${reservationId},
+          reservation.idempotency_key,
+          reservation.id,
           ${cancellationToken || null},
+          ${JSON.stringify(customFieldAnswers || [])},
+          ${notes || null},
+          CASE WHEN EXISTS (SELECT 1 FROM deposit) THEN 'paid' ELSE 'none' END,
+          (SELECT amount_cents FROM deposit),
           1,
           NOW(),
           NOW()
-        )
+        FROM reservation
+        WHERE ${!depositPaymentId} OR EXISTS (SELECT 1 FROM deposit)
         RETURNING *
-      `;
+      ),
+      audited AS (
+        INSERT INTO audit_logs (appointment_id, actor_id, action, old_state, new_state, timestamp)
+        SELECT created.id, ${customerId || null}, 'created', NULL, to_jsonb(created), NOW()
+        FROM created
+      ),
+      released AS (
+        -- Delete the reservation to free up the slot
+        DELETE FROM reservations
+        WHERE id IN (SELECT reservation_id FROM created)
+      )
+      SELECT * FROM created
+    `;
 
-      const appointment = appointmentResult[0] as Appointment;
+    if (!appointment) {
+      const validation = await this.reservationManager.validateReservation(reservationId);
+      throw new Error(
+        validation.isValid ? 'Deposit payment is no longer available' : validation.reason || 'Reservation invalid'
+      );
+    }
 
-      // Create audit log entry
-      await txDb`
-        INSERT INTO audit_logs (
-          id,
-          appointment_id,
-          actor_id,
-          action,
-          old_state,
-          new_state,
-          timestamp
-        ) VALUES (
-          ${uuidv4()},
-          ${appointmentId},
+    return appointment as Appointment;
+  }
+
+  /**
+   * Turns every leg of a reserved booking group into appointments, without webhooks.
+   *
+   * One statement like createFromReservation: the group is claimed under the
+   * booking ID only while all of its legs are held, and a leg rejected by the
+   * capacity triggers undoes the claim and the other legs with it. Legs are
+   * numbered as getLegBookingId does; only the first gets the cancellation
+   * token, which is unique per appointment.
+   *
+   * @returns The legs in sequence order, or none if the group is already
+   *   committed or one of its legs expired
+   */
+  async createFromGroup(params: CreateFromGroupParams): Promise<Appointment[]> {
+    const {
+      groupId,
+      bookingId,
+      customerId,
+      guestEmail,
+      guestPhone,
+      guestName,
+      cancellationToken,
+      customFieldAnswers,
+      notes
+    } = params;
+
+    const appointments = await this.db`
+      WITH claimed AS (
+        -- Claim the group, so a concurrent retry can't commit it twice
+        UPDATE booking_groups
+        SET booking_id = ${bookingId}
+        WHERE id = ${groupId}
+          AND booking_id IS NULL
+          AND leg_count = (
+            SELECT COUNT(*) FROM reservations
+            WHERE group_id = ${groupId}
+              AND expires_at > NOW()
+          )
+        RETURNING id
+      ),
+      reservation AS (
+        SELECT * FROM reservations
+        WHERE group_id IN (SELECT id FROM claimed)
+          AND expires_at > NOW()
+        FOR UPDATE
+      ),
+      created AS (
+        INSERT INTO appointments (
+          booking_id,
+          business_id,
+          service_id,
+          staff_id,
+          resource_ids,
+          group_id,
+          group_index,
+          customer_id,
+          guest_email,
+          guest_phone,
+          guest_name,
+          slot_start,
+          slot_end,
+          status,
+          idempotency_key,
+          reservation_id,
+          cancellation_token,
+          custom_field_answers,
+          notes,
+          payment_status,
+          version,
+          created_at,
+          updated_at
+        )
+        SELECT
+          CASE
+            WHEN reservation.group_index = 0 THEN ${bookingId}::text
+            ELSE ${bookingId}::text || '-' || (reservation.group_index + 1)
+          END,
+          reservation.business_id,
+          reservation.service_id,
+          reservation.staff_id,
+          COALESCE(reservation.resource_ids, '{}'::text[]),
+          reservation.group_id,
+          reservation.group_index,
           ${customerId || null},
-          'created',
-          NULL,
-          ${JSON.stringify(appointment)},
+          ${guestEmail || null},
+          ${guestPhone || null},
+          ${guestName || null},
+          reservation.slot_start,
+          reservation.slot_end,
+          'confirmed',
+          reservation.idempotency_key,
+          reservation.id,
+          CASE WHEN reservation.group_index = 0 THEN ${cancellationToken || null}::text END,
+          ${JSON.stringify(customFieldAnswers || [])},
+          ${notes || null},
+          'none',
+          1,
+          NOW(),
           NOW()
-        )
-      `;
-
-      // Delete the reservation to free up the slot
-      await txDb`
+        FROM reservation
+        RETURNING *
+      ),
+      audited AS (
+        INSERT INTO audit_logs (appointment_id, actor_id, action, old_state, new_state, timestamp)
+        SELECT created.id, ${customerId || null}, 'created', NULL, to_jsonb(created), NOW()
+        FROM created
+      ),
+      released AS (
+        -- Delete the reservations to free up the slots
         DELETE FROM reservations
-        WHERE id = ${reservationId}
-      `;
+        WHERE id IN (SELECT reservation_id FROM created)
+      )
+      SELECT * FROM created
+      ORDER BY group_index ASC
+    `;
 
-      return appointment;
-    });
+    return appointments as Appointment[];
   }
 
   /**
@@ -156,6 +337,8 @@ export class AppointmentManager {
    * This bypasses the reservation system and requires appropriate permissions.
    *
    * IMPORTANT: maxSimultaneousBookings MUST come from YAML config (single source of truth).
+   *
+   * Required resources are assigned from the first free option, like reservations.
    */
   async createManualAppointment(params: CreateManualAppointmentParams): Promise<Appointment> {
     const {
@@ -168,7 +351,12 @@ export class AppointmentManager {
       guestPhone,
       idempotencyKey,
       actorId,
-      maxSimultaneousBookings
+      maxSimultaneousBookings,
+      staffId,
+      capacityPools,
+      resources,
+      seriesId,
+      seriesIndex
     } = params;
 
     // Check for existing appointment with same idempotency key
@@ -183,20 +371,30 @@ export class AppointmentManager {
       return existing[0] as Appointment;
     }
 
-    return withTransaction(async (txDb) => {
+    const created = await withTransaction(async (txDb) => {
+      const reservationManager = new ReservationManager(txDb);
+
       // Check capacity before creating
-      const capacity = await new ReservationManager(txDb).getAvailableCapacity(
+      const capacity = await reservationManager.getAvailableCapacity(
         businessId,
         serviceId,
         slotStart,
         slotEnd,
-        maxSimultaneousBookings
+        maxSimultaneousBookings,
+        staffId,
+        capacityPools
       );
 
       if (capacity < 1) {
         throw new Error('No available capacity for this time slot');
       }
 
+      const resourceIds = await reservationManager.findFreeResources(businessId, serviceId, resources, slotStart, slotEnd);
+
+      if (!resourceIds) {
+        throw new Error('No available capacity for this time slot');
+      }
+
       const appointmentId = uuidv4();
       const bookingId = generateBookingId();
 
@@ -206,6 +404,8 @@ export class AppointmentManager {
           booking_id,
           business_id,
           service_id,
+          staff_id,
+          resource_ids,
           customer_id,
           guest_email,
           guest_phone,
@@ -215,6 +415,8 @@ export class AppointmentManager {
           idempotency_key,
           reservation_id,
           cancellation_token,
+          series_id,
+          series_index,
           version,
           created_at,
           updated_at
@@ -223,6 +425,8 @@ export class AppointmentManager {
           ${bookingId},
           ${businessId},
           ${serviceId},
+          ${staffId || null},
+          ${resourceIds}::text[],
           ${customerId || null},
           ${guestEmail || null},
           ${guestPhone || null},
@@ -232,6 +436,8 @@ export class AppointmentManager {
           ${idempotencyKey},
           NULL,
           NULL,
+          ${seriesId || null},
+          ${seriesIndex ?? null},
           1,
           NOW(),
           NOW()
@@ -264,14 +470,23 @@ export class AppointmentManager {
 
       return appointment;
     });
+
+    await new WebhookService(this.db).emitAppointmentEvent('booking_created', created.id);
+
+    return created;
   }
 
   /**
    * Updates an appointment with optimistic locking to prevent conflicts.
    * Uses version field to detect concurrent modifications.
+   * Time and status changes emit the matching webhook events.
    *
    * IMPORTANT: If updating time or service, maxSimultaneousBookings MUST be provided
    * from YAML config (single source of truth).
+   *
+   * When resources are given, the appointment's resources are re-picked for the
+   * new time; without them it keeps the ones it holds. Capacity, pools and
+   * resources are checked over the new occupied interval (buffers included).
    */
   async updateAppointment(params: UpdateAppointmentParams): Promise<Appointment> {
     const {
@@ -280,12 +495,16 @@ export class AppointmentManager {
       slotEnd,
       serviceId,
       status,
+      notes,
+      internalNotes,
       actorId,
       expectedVersion,
-      maxSimultaneousBookings
+      maxSimultaneousBookings,
+      capacityPools = [],
+      resources
     } = params;
 
-    return withTransaction(async (txDb) => {
+    const { previous, updated } = await withTransaction(async (txDb) => {
       // Get current appointment
       const current = await txDb`
         SELECT * FROM appointments
@@ -308,6 +527,9 @@ export class AppointmentManager {
         throw error;
       }
 
+      // Resources to hold after the move (null = keep the current ones)
+      let resourceIds: string[] | null = null;
+
       // If updating time slot or service, check capacity
       if (slotStart || slotEnd || serviceId) {
         if (!maxSimultaneousBookings) {
@@ -320,6 +542,7 @@ export class AppointmentManager {
 
         // Temporarily exclude current appointment from capacity check
         // Capacity value comes from YAML config (passed as parameter), not from database
+        // Overlaps are measured on occupied intervals (slot plus service buffers), like the trigger
         const capacity = await txDb`
           WITH occupied_count AS (
             SELECT COUNT(*) as count
@@ -331,8 +554,8 @@ export class AppointmentManager {
                 AND id != ${appointmentId}
                 AND deleted_at IS NULL
                 AND status = 'confirmed'
-                AND slot_start < ${newEnd}
-                AND slot_end > ${newStart}
+                AND occupied_start < booking_occupied_end(${newServiceId}, ${newEnd})
+                AND occupied_end > booking_occupied_start(${newServiceId}, ${newStart})
 
               UNION ALL
 
@@ -341,8 +564,8 @@ export class AppointmentManager {
               WHERE business_id = ${currentAppointment.business_id}
                 AND service_id = ${newServiceId}
                 AND expires_at > NOW()
-                AND slot_start < ${newEnd}
-                AND slot_end > ${newStart}
+                AND occupied_start < booking_occupied_end(${newServiceId}, ${newEnd})
+                AND occupied_end > booking_occupied_start(${newServiceId}, ${newStart})
             ) AS overlapping_bookings
           )
           SELECT
@@ -356,6 +579,34 @@ export class AppointmentManager {
         if (capacity[0]?.available < 1) {
           throw new Error('No available capacity for the new time slot');
         }
+
+        const poolCapacity = await new ReservationManager(txDb).getAvailablePoolCapacity(
+          currentAppointment.business_id,
+          newServiceId,
+          capacityPools,
+          newStart!,
+          newEnd!,
+          appointmentId
+        );
+
+        if (poolCapacity !== null && poolCapacity < 1) {
+          throw new Error('No available capacity for the new time slot');
+        }
+
+        if (resources) {
+          resourceIds = await new ReservationManager(txDb).findFreeResources(
+            currentAppointment.business_id,
+            newServiceId,
+            resources,
+            newStart!,
+            newEnd!,
+            appointmentId
+          );
+
+          if (!resourceIds) {
+            throw new Error('No available capacity for the new time slot');
+          }
+        }
       }
 
       // Update appointment
@@ -365,7 +616,10 @@ export class AppointmentManager {
           slot_start = COALESCE(${slotStart || null}, slot_start),
           slot_end = COALESCE(${slotEnd || null}, slot_end),
           service_id = COALESCE(${serviceId || null}, service_id),
+          resource_ids = COALESCE(${resourceIds}::text[], resource_ids),
           status = COALESCE(${status || null}, status),
+          notes = CASE WHEN ${notes !== undefined} THEN ${notes ?? null} ELSE notes END,
+          internal_notes = CASE WHEN ${internalNotes !== undefined} THEN ${internalNotes ?? null} ELSE internal_notes END,
           version = version + 1,
           updated_at = NOW()
         WHERE id = ${appointmentId}
@@ -402,15 +656,34 @@ export class AppointmentManager {
         )
       `;
 
-      return updatedAppointment;
+      return { previous: currentAppointment, updated: updatedAppointment };
     });
+
+    const webhooks = new WebhookService(this.db);
+
+    if ((slotStart || slotEnd) && previous.slot_start && previous.slot_end) {
+      await webhooks.emitAppointmentEvent('booking_rescheduled', updated.id, {
+        slotStart: previous.slot_start,
+        slotEnd: previous.slot_end,
+      });
+    }
+
+    if (previous.status !== updated.status) {
+      const statusEvent = getStatusWebhookEvent(updated.status);
+      if (statusEvent) {
+        await webhooks.emitAppointmentEvent(statusEvent, updated.id);
+      }
+    }
+
+    return updated;
   }
 
   /**
    * Cancels an appointment (soft delete with audit trail)
+   * Emits booking_canceled; the freed slot is then offered to the waitlist, if the tenant has one.
    */
-  async cancelAppointment(appointmentId: string, actorId: string): Promise<void> {
-    return withTransaction(async (txDb) => {
+  async cancelAppointment(appointmentId: string, actorId: string | null): Promise<void> {
+    const canceled = await withTransaction(async (txDb) => {
       const current = await txDb`
         SELECT * FROM appointments
         WHERE id = ${appointmentId}
@@ -452,7 +725,35 @@ export class AppointmentManager {
           NOW()
         )
       `;
+
+      return currentAppointment;
     });
+
+    await new WebhookService(this.db).emitAppointmentEvent('booking_canceled', appointmentId);
+
+    if (canceled.status === 'confirmed' && canceled.slot_start && canceled.slot_end) {
+      try {
+        await new WaitlistManager(this.db).offerFreedSlot({
+          businessId: canceled.business_id,
+          serviceId: canceled.service_id,
+          staffId: canceled.staff_id,
+          slotStart: new Date(canceled.slot_start),
+          slotEnd: new Date(canceled.slot_end),
+        });
+      } catch (error) {
+        // The cancellation itself succeeded - don't fail it over the waitlist
+        console.error('Failed to offer canceled slot to waitlist:', error);
+      }
+    }
+
+    if (canceled.payment_status === 'paid') {
+      try {
+        const canceledBy = actorId && actorId === canceled.customer_id ? 'customer' : 'business';
+        await new DepositManager(this.db).refundForCancellation(appointmentId, canceledBy);
+      } catch (error) {
+        console.error('Failed to refund deposit for canceled appointment:', error);
+      }
+    }
   }
 
   /**
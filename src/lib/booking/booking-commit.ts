@@ -0,0 +1,248 @@
+/**
+ * Booking Commit
+ *
+ * Turns a customer's reservation into an appointment after the checks every
+ * public booking must pass: custom field answers, bookingLimits, noShowPolicy
+ * and any deposit. Shared by the booking commit route and waitlist claims, so
+ * a slot offered from the waitlist is booked under the same rules; booking
+ * groups go through the same checks once for the whole visit.
+ *
+ * Notifications stay with the callers, which know how they were reached.
+ */
+
+import { DbClient } from '@/db/client';
+import { Appointment, BookingGroup, CustomFieldAnswer } from '@/db/types';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { DepositManager } from '@/lib/payments/deposit-manager';
+import { v4 as uuidv4 } from 'uuid';
+import { AppointmentManager } from './appointment-manager';
+import { ReservationManager } from './reservation-manager';
+import { BookingGroupManager } from './booking-group-manager';
+import { validateCustomFieldAnswers } from './custom-fields';
+import { evaluateBookingLimits, evaluateNoShowPolicy, NoShowDecision, PolicyDecision } from './policy';
+import { generateBookingId } from './id';
+
+export interface CommitBookingParams {
+  reservationId: string;
+  customerId?: string;
+  guestEmail?: string; // Guests get a cancellation link
+  guestPhone?: string;
+  guestName?: string;
+  customFields?: Record<string, string | boolean>; // Answers keyed by field id
+  notes?: string;
+}
+
+export interface CommitGroupBookingParams extends Omit<CommitBookingParams, 'reservationId'> {
+  groupId: string;
+}
+
+interface CommitBookingFailure {
+  success: false;
+  status: number;
+  error: string;
+  code?: string;
+  params?: PolicyDecision['params'];
+  fieldId?: string;
+}
+
+export type CommitBookingResult = { success: true; appointment: Appointment } | CommitBookingFailure;
+
+export type CommitGroupBookingResult =
+  | { success: true; group: BookingGroup; appointments: Appointment[] }
+  | CommitBookingFailure;
+
+interface BookingCheckParams extends Omit<CommitBookingParams, 'reservationId' | 'guestName' | 'notes'> {
+  businessId: string;
+  slotStart: Date; // Start of the booking (the first leg of a group)
+}
+
+type BookingCheckResult =
+  | { success: true; customFieldAnswers: CustomFieldAnswer[]; noShow: NoShowDecision }
+  | CommitBookingFailure;
+
+/**
+ * Custom field answers, bookingLimits and noShowPolicy for a new booking
+ * The no-show decision is returned for the caller's deposit check.
+ */
+async function checkBooking(db: DbClient, params: BookingCheckParams): Promise<BookingCheckResult> {
+  const configResult = await loadConfigByBusinessId(params.businessId);
+
+  if (!configResult.success || !configResult.config) {
+    return { success: false, status: 500, error: 'Failed to load business configuration' };
+  }
+
+  const customFields = validateCustomFieldAnswers(
+    configResult.config.bookingRequirements.customFields,
+    params.customFields
+  );
+
+  if (!customFields.valid) {
+    return {
+      success: false,
+      status: 400,
+      error: customFields.error,
+      code: customFields.code,
+      fieldId: customFields.fieldId,
+    };
+  }
+
+  const limits = await evaluateBookingLimits(db, {
+    config: configResult.config,
+    businessId: params.businessId,
+    slotStart: params.slotStart,
+    customerId: params.customerId,
+    guestEmail: params.guestEmail,
+  });
+
+  if (!limits.allowed) {
+    return { success: false, status: 403, error: limits.error!, code: limits.code, params: limits.params };
+  }
+
+  const noShow = await evaluateNoShowPolicy(db, {
+    config: configResult.config,
+    businessId: params.businessId,
+    customerId: params.customerId,
+    guestEmail: params.guestEmail,
+    guestPhone: params.guestPhone,
+  });
+
+  if (!noShow.allowed) {
+    return { success: false, status: 403, error: noShow.error!, code: noShow.code, params: noShow.params };
+  }
+
+  return { success: true, customFieldAnswers: customFields.answers, noShow };
+}
+
+/**
+ * Check and commit a reservation
+ *
+ * The checks run against the live reservation; an expired or already
+ * committed one is rejected by commitReservation, which throws. A deposit
+ * taken for a reservation that then fails to commit is refunded.
+ */
+export async function commitBooking(db: DbClient, params: CommitBookingParams): Promise<CommitBookingResult> {
+  let depositPaymentId: string | null = null;
+  let customFieldAnswers: CustomFieldAnswer[] = [];
+  const validation = await new ReservationManager(db).validateReservation(params.reservationId);
+
+  if (validation.isValid && validation.reservation) {
+    const checks = await checkBooking(db, {
+      ...params,
+      businessId: validation.reservation.business_id,
+      slotStart: new Date(validation.reservation.slot_start),
+    });
+
+    if (!checks.success) {
+      return checks;
+    }
+
+    customFieldAnswers = checks.customFieldAnswers;
+
+    // Services with a deposit, and customers the no-show policy asks one from,
+    // can only book once the payment went through
+    const depositManager = new DepositManager(db);
+    const deposit = (await depositManager.getDepositForReservation(validation.reservation)) ?? checks.noShow.deposit;
+
+    if (deposit) {
+      const payment = await depositManager.confirmDeposit(params.reservationId);
+
+      if (!payment || payment.status !== 'succeeded') {
+        return { success: false, status: 402, error: 'Deposit payment required', code: 'DEPOSIT_REQUIRED' };
+      }
+
+      depositPaymentId = payment.id;
+    }
+  }
+
+  try {
+    const appointment = await new AppointmentManager(db).commitReservation({
+      reservationId: params.reservationId,
+      bookingId: generateBookingId(),
+      customerId: params.customerId,
+      guestEmail: params.guestEmail,
+      guestPhone: params.guestPhone,
+      guestName: params.guestName,
+      cancellationToken: params.guestEmail ? uuidv4() : undefined,
+      customFieldAnswers,
+      notes: params.notes?.trim() || undefined,
+      depositPaymentId: depositPaymentId ?? undefined,
+    });
+
+    return { success: true, appointment };
+  } catch (error) {
+    // The customer paid but didn't get the slot; a concurrent commit that did
+    // keeps the payment (see refundUnbookedDeposit)
+    if (depositPaymentId) {
+      try {
+        await new DepositManager(db).refundUnbookedDeposit(depositPaymentId);
+      } catch (refundError) {
+        console.error('[Booking] Failed to refund deposit of uncommitted reservation', params.reservationId, refundError);
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check and commit every leg of a reserved booking group
+ *
+ * The checks run once for the whole visit, from its first leg; a group that
+ * is already committed skips them and returns its appointments. Deposits are
+ * paid per reservation, so a group with a leg or a customer that needs one is
+ * refused and those services are booked separately.
+ */
+export async function commitGroupBooking(
+  db: DbClient,
+  params: CommitGroupBookingParams
+): Promise<CommitGroupBookingResult> {
+  const manager = new BookingGroupManager(db);
+  const group = await manager.getGroup(params.groupId);
+
+  if (!group) {
+    return { success: false, status: 400, error: 'Reservation not found or expired' };
+  }
+
+  let customFieldAnswers: CustomFieldAnswer[] = [];
+  const reservations = group.booking_id ? [] : await manager.listReservations(group.id);
+
+  if (reservations.length > 0) {
+    const checks = await checkBooking(db, {
+      ...params,
+      businessId: group.business_id,
+      slotStart: new Date(reservations[0].slot_start),
+    });
+
+    if (!checks.success) {
+      return checks;
+    }
+
+    customFieldAnswers = checks.customFieldAnswers;
+
+    const depositManager = new DepositManager(db);
+    const serviceDeposits = await Promise.all(
+      reservations.map(reservation => depositManager.getDepositForReservation(reservation))
+    );
+
+    if (checks.noShow.deposit || serviceDeposits.some(Boolean)) {
+      return {
+        success: false,
+        status: 403,
+        error: 'Services that require a deposit must be booked separately',
+        code: 'GROUP_DEPOSIT_UNSUPPORTED',
+      };
+    }
+  }
+
+  const { group: committed, appointments } = await manager.commitGroup({
+    groupId: group.id,
+    customerId: params.customerId,
+    guestEmail: params.guestEmail,
+    guestPhone: params.guestPhone,
+    guestName: params.guestName,
+    cancellationToken: params.guestEmail ? uuidv4() : undefined,
+    customFieldAnswers,
+    notes: params.notes?.trim() || undefined,
+  });
+
+  return { success: true, group: committed, appointments };
+}
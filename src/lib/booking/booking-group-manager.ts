@@ -0,0 +1,550 @@
+import { DbClient } from '../../db/client';
+import { Appointment, BookingGroup, Reservation } from '../../db/types';
+import { AppointmentManager, CommitReservationParams } from './appointment-manager';
+import { ReservationManager, CreateReservationParams } from './reservation-manager';
+import { CapacityPoolLimit, getCapacityPoolUsage, resolveCapacityPools } from './capacity-pools';
+import { ResourceRequirement, getResourceBookings, getServiceResources } from './resources';
+import { generateTimeSlots } from './slot-generator';
+import { SequenceSlot, combineSequenceSlots, getSequenceDuration, planSequence } from './sequence';
+import { validateBookingTime } from './validation';
+import { generateBookingId } from './id';
+import { Service, TenantConfig } from '@/lib/config/tenant-schema';
+import { ExternalCalendarService } from '@/lib/calendar/external-calendar-service';
+import { StaffManager } from '@/lib/staff/staff-manager';
+import { WebhookService } from '@/lib/webhooks/webhook-service';
+
+/**
+ * A service of a group, resolved from the tenant config and the services table
+ */
+export interface GroupServiceContext {
+  service: Service;
+  serviceDbId: string;
+  maxSimultaneousBookings: number; // YAML config capacity (single source of truth)
+  capacityPools: CapacityPoolLimit[];
+  resources?: ResourceRequirement;
+}
+
+export interface GroupLegParams {
+  serviceId: string; // Database id
+  slotStart: Date;
+  slotEnd: Date;
+  maxSimultaneousBookings: number;
+  capacityPools?: CapacityPoolLimit[];
+  resources?: ResourceRequirement;
+  staffCandidates?: string[]; // Staff who may take the leg, tried in order (multiple staff only)
+}
+
+export interface ReserveGroupParams {
+  businessId: string;
+  idempotencyKey: string;
+  ttlMinutes?: number;
+  legs: GroupLegParams[];
+}
+
+export interface ReservedGroup {
+  group: BookingGroup;
+  reservations: Reservation[];
+}
+
+export interface CommitGroupParams extends Omit<CommitReservationParams, 'reservationId' | 'bookingId' | 'depositPaymentId'> {
+  groupId: string;
+}
+
+export interface CommittedGroup {
+  group: BookingGroup;
+  appointments: Appointment[];
+}
+
+export interface FindSequenceSlotsParams {
+  config: TenantConfig;
+  businessId: string;
+  services: GroupServiceContext[];
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface RescheduleGroupParams {
+  groupId: string;
+  newStart: Date;
+  config: TenantConfig;
+  actorId: string | null; // null for guests
+  skipAdvanceLimitCheck?: boolean;
+}
+
+/**
+ * Result of checking one leg of a group at its new time
+ * code is the validateBookingTime code, or CAPACITY_FULL.
+ */
+export interface GroupLegCheck {
+  index: number;
+  appointmentId: string;
+  start: Date;
+  end: Date;
+  available: boolean;
+  code?: string;
+  error?: string;
+}
+
+/**
+ * Booking ID of a leg: the group's for the first one, suffixed for the others
+ */
+export function getLegBookingId(bookingId: string, index: number): string {
+  return index === 0 ? bookingId : `${bookingId}-${index + 1}`;
+}
+
+/**
+ * Booking Group Manager
+ *
+ * Several services booked back to back in one checkout (cut + colour +
+ * blow-dry). Each service is a leg: a regular reservation, then a regular
+ * appointment created through ReservationManager/AppointmentManager, linked by
+ * group_id/group_index, so capacity, pools, resources, audit entries and
+ * webhooks work per leg as usual.
+ *
+ * Every leg is reserved or none is: a leg that can't be held releases the
+ * ones already held. The group is committed under one booking ID and moved
+ * as a whole, keeping the gaps between legs.
+ */
+export class BookingGroupManager {
+  private appointmentManager: AppointmentManager;
+  private reservationManager: ReservationManager;
+
+  constructor(private db: DbClient) {
+    this.appointmentManager = new AppointmentManager(db);
+    this.reservationManager = new ReservationManager(db);
+  }
+
+  /**
+   * Resolve config services (by id) for a group, in the order given
+   *
+   * @throws Error('Service not found') if a service isn't in the config or the database
+   */
+  async resolveServices(config: TenantConfig, businessId: string, serviceIds: string[]): Promise<GroupServiceContext[]> {
+    const configServices = config.categories.flatMap(category => category.services);
+
+    const records = await this.db`
+      SELECT id, external_id FROM services
+      WHERE business_id = ${businessId}
+        AND external_id = ANY(${serviceIds}::text[])
+        AND deleted_at IS NULL
+    `;
+    const byExternalId = new Map(records.map(record => [record.external_id, record.id as string]));
+
+    const contexts: GroupServiceContext[] = [];
+
+    for (const serviceId of serviceIds) {
+      const service = configServices.find(s => s.id === serviceId);
+      const serviceDbId = byExternalId.get(serviceId);
+
+      if (!service || !serviceDbId) {
+        throw new Error('Service not found');
+      }
+
+      contexts.push({
+        service,
+        serviceDbId,
+        maxSimultaneousBookings: service.maxSimultaneousBookings ?? config.bookingLimits.maxSimultaneousBookings,
+        capacityPools: await resolveCapacityPools(this.db, config, businessId, service.id),
+        resources: getServiceResources(config, service.id),
+      });
+    }
+
+    return contexts;
+  }
+
+  /**
+   * Start times where every service of the sequence fits, back to back
+   *
+   * Each service's slots are generated as for a single booking (off-time,
+   * buffers, staff, pools, resources, external busy time); later services on
+   * the 5-minute grain, since they start wherever the previous one ends.
+   */
+  async findSequenceSlots(params: FindSequenceSlotsParams): Promise<SequenceSlot[]> {
+    const { config, businessId, services, startDate } = params;
+
+    // Later legs run past the last start time by up to the length of the sequence
+    const sequenceMinutes = getSequenceDuration(services.map(context => context.service));
+    const endDate = new Date(params.endDate.getTime() + sequenceMinutes * 60 * 1000);
+
+    const appointments = await this.db`
+      SELECT slot_start, slot_end, occupied_start, occupied_end, staff_id
+      FROM appointments
+      WHERE business_id = ${businessId}
+        AND slot_start >= ${startDate.toISOString()}
+        AND slot_start <= ${endDate.toISOString()}
+        AND status IN ('confirmed', 'completed')
+        AND deleted_at IS NULL
+    `;
+
+    const reservations = await this.db`
+      SELECT slot_start, slot_end, occupied_start, occupied_end, expires_at, staff_id
+      FROM reservations
+      WHERE business_id = ${businessId}
+        AND slot_start >= ${startDate.toISOString()}
+        AND slot_start <= ${endDate.toISOString()}
+        AND expires_at > NOW()
+    `;
+
+    const externalBusy = await new ExternalCalendarService(this.db).getBusyIntervals(businessId, startDate, endDate);
+    const staffManager = new StaffManager(this.db);
+    const slotsByLeg = [];
+
+    for (const [index, context] of services.entries()) {
+      const staff = config.features.enableMultipleStaff
+        ? await staffManager.getBookableStaff(businessId, context.serviceDbId)
+        : [];
+
+      slotsByLeg.push(generateTimeSlots({
+        config: index === 0 ? config : { ...config, timeSlotDuration: 5 },
+        service: context.service,
+        startDate,
+        endDate: index === 0 ? params.endDate : endDate,
+        existingAppointments: appointments.map(a => ({
+          slot_start: a.slot_start,
+          slot_end: a.slot_end,
+          occupied_start: a.occupied_start,
+          occupied_end: a.occupied_end,
+          staff_id: a.staff_id,
+        })),
+        existingReservations: reservations.map(r => ({
+          slot_start: r.slot_start,
+          slot_end: r.slot_end,
+          occupied_start: r.occupied_start,
+          occupied_end: r.occupied_end,
+          expires_at: r.expires_at,
+          staff_id: r.staff_id,
+        })),
+        staff: staff.length > 0 ? staff : undefined,
+        externalBusy,
+        capacityPools: await getCapacityPoolUsage(this.db, businessId, context.capacityPools, startDate, endDate),
+        resourceBookings: await getResourceBookings(this.db, businessId, context.resources, startDate, endDate),
+      }));
+    }
+
+    return combineSequenceSlots(services.map(context => context.service), slotsByLeg);
+  }
+
+  /**
+   * Reserve every leg of a group, or none
+   *
+   * Legs are reserved in order under the group's idempotency key (suffixed
+   * with the leg index). If one can't be held, the group is deleted, which
+   * releases the legs already held. Retrying with the same key returns the
+   * group reserved the first time while all of its legs are still held.
+   */
+  async reserveGroup(params: ReserveGroupParams): Promise<ReservedGroup> {
+    const { businessId, idempotencyKey, legs } = params;
+
+    const [existing] = await this.db`
+      SELECT * FROM booking_groups
+      WHERE idempotency_key = ${idempotencyKey}
+      LIMIT 1
+    `;
+
+    if (existing) {
+      if (existing.booking_id) {
+        throw new Error('This booking has already been confirmed');
+      }
+
+      const reservations = await this.listReservations(existing.id);
+      if (reservations.length === existing.leg_count) {
+        return { group: existing as BookingGroup, reservations };
+      }
+
+      // Some legs expired: start over
+      await this.db`DELETE FROM booking_groups WHERE id = ${existing.id}`;
+    }
+
+    let group: BookingGroup;
+
+    try {
+      const [created] = await this.db`
+        INSERT INTO booking_groups (business_id, idempotency_key, leg_count)
+        VALUES (${businessId}, ${idempotencyKey}, ${legs.length})
+        RETURNING *
+      `;
+      group = created as BookingGroup;
+    } catch (error) {
+      // Same key reserved concurrently by a retry
+      if ((error as { code?: string }).code === '23505') {
+        throw new Error('This booking is already being reserved');
+      }
+      throw error;
+    }
+
+    const reservations: Reservation[] = [];
+
+    try {
+      for (const [index, leg] of legs.entries()) {
+        reservations.push(await this.reserveLeg(group.id, index, leg, params));
+      }
+    } catch (error) {
+      await this.db`DELETE FROM booking_groups WHERE id = ${group.id}`;
+      throw error;
+    }
+
+    return { group, reservations };
+  }
+
+  /**
+   * Commit every leg of a reserved group under one booking ID
+   *
+   * All legs must still be held. The legs are committed in one statement
+   * (see AppointmentManager.createFromGroup), so if one fails none is booked;
+   * the group is then deleted, releasing the other holds. Committing a group
+   * again returns its appointments.
+   */
+  async commitGroup(params: CommitGroupParams): Promise<CommittedGroup> {
+    const { groupId, ...commitParams } = params;
+    const group = await this.getGroup(groupId);
+
+    if (!group) {
+      throw new Error('Reservation not found or expired');
+    }
+
+    if (group.booking_id) {
+      return { group, appointments: await this.listLegs(group.id) };
+    }
+
+    let appointments: Appointment[];
+
+    try {
+      appointments = await this.appointmentManager.createFromGroup({
+        ...commitParams,
+        groupId: group.id,
+        bookingId: generateBookingId(),
+      });
+    } catch (error) {
+      await this.db`DELETE FROM booking_groups WHERE id = ${group.id} AND booking_id IS NULL`;
+      throw error;
+    }
+
+    if (appointments.length === 0) {
+      const current = await this.getGroup(group.id);
+
+      // Committed meanwhile by a concurrent retry
+      if (current?.booking_id) {
+        return { group: current, appointments: await this.listLegs(group.id) };
+      }
+
+      // A leg expired: release the others
+      await this.db`DELETE FROM booking_groups WHERE id = ${group.id} AND booking_id IS NULL`;
+      throw new Error('Reservation not found or expired');
+    }
+
+    const webhooks = new WebhookService(this.db);
+    for (const appointment of appointments) {
+      await webhooks.emitAppointmentEvent('booking_created', appointment.id);
+    }
+
+    return { group: (await this.getGroup(group.id))!, appointments };
+  }
+
+  async getGroup(groupId: string): Promise<BookingGroup | null> {
+    const [group] = await this.db`
+      SELECT * FROM booking_groups WHERE id = ${groupId}
+    `;
+
+    return (group as BookingGroup) || null;
+  }
+
+  /**
+   * Every leg of a committed group, including canceled ones, in sequence order
+   */
+  async listLegs(groupId: string): Promise<Appointment[]> {
+    return await this.db`
+      SELECT * FROM appointments
+      WHERE group_id = ${groupId}
+        AND deleted_at IS NULL
+      ORDER BY group_index ASC
+    ` as Appointment[];
+  }
+
+  /**
+   * Held reservations of a group, in sequence order
+   */
+  async listReservations(groupId: string): Promise<Reservation[]> {
+    return await this.db`
+      SELECT * FROM reservations
+      WHERE group_id = ${groupId}
+        AND expires_at > NOW()
+      ORDER BY group_index ASC
+    ` as Reservation[];
+  }
+
+  /**
+   * Move a group to a new start time, keeping the gaps between legs
+   *
+   * Every confirmed leg is checked at its new time before anything moves,
+   * with the group's own legs left out of the count; if one is unavailable
+   * nothing is moved and the checks are returned. Legs are then moved from the
+   * far end, so a leg never lands on one still waiting to move. If a move
+   * fails (the slot was taken meanwhile), the legs already moved are moved
+   * back and the group is reported as not updated.
+   */
+  async rescheduleGroup(params: RescheduleGroupParams): Promise<{ updated: boolean; legs: GroupLegCheck[] }> {
+    const { groupId, newStart, config, actorId, skipAdvanceLimitCheck = false } = params;
+
+    const legs = (await this.listLegs(groupId)).filter(leg => leg.status === 'confirmed');
+    if (legs.length === 0) {
+      throw new Error('Booking group not found');
+    }
+
+    const businessId = legs[0].business_id;
+    const records = await this.db`
+      SELECT id, external_id FROM services
+      WHERE id = ANY(${legs.map(leg => leg.service_id)}::uuid[])
+    `;
+    const externalIds = legs.map(leg => records.find(record => record.id === leg.service_id)?.external_id);
+
+    if (externalIds.some(id => !id)) {
+      throw new Error('Service not found');
+    }
+
+    const services = await this.resolveServices(config, businessId, externalIds as string[]);
+    const planned = planSequence(services.map(context => context.service), newStart);
+    const first = services[0].service;
+    const last = services[services.length - 1].service;
+
+    const externalBusy = await new ExternalCalendarService(this.db).getBusyIntervals(
+      businessId,
+      new Date(planned[0].start.getTime() - (first.bufferBefore || 0) * 60 * 1000),
+      new Date(planned[planned.length - 1].end.getTime() + (last.bufferAfter || 0) * 60 * 1000)
+    );
+
+    const checks: GroupLegCheck[] = [];
+
+    for (const [i, leg] of legs.entries()) {
+      const { service, maxSimultaneousBookings, capacityPools, resources } = services[i];
+      const { start, end } = planned[i];
+      const check: GroupLegCheck = { index: i, appointmentId: leg.id, start, end, available: true };
+
+      const validation = validateBookingTime({
+        config,
+        slotStart: start,
+        slotEnd: end,
+        bufferBefore: service.bufferBefore || 0,
+        bufferAfter: service.bufferAfter || 0,
+        externalBusy,
+        skipAdvanceLimitCheck,
+      });
+
+      if (!validation.valid) {
+        checks.push({ ...check, available: false, code: validation.code, error: validation.error });
+        continue;
+      }
+
+      // The legs move together, so none counts against the new times
+      const capacity = await this.reservationManager.getAvailableCapacity(
+        businessId,
+        leg.service_id,
+        start,
+        end,
+        maxSimultaneousBookings,
+        leg.staff_id ?? undefined,
+        capacityPools,
+        resources,
+        legs.map(other => other.id)
+      );
+
+      if (capacity < 1) {
+        checks.push({
+          ...check,
+          available: false,
+          code: 'CAPACITY_FULL',
+          error: 'No available capacity for this time slot',
+        });
+        continue;
+      }
+
+      checks.push(check);
+    }
+
+    if (checks.some(check => !check.available)) {
+      return { updated: false, legs: checks };
+    }
+
+    const movingLater = newStart > new Date(legs[0].slot_start!);
+    const order = movingLater ? [...legs.keys()].reverse() : [...legs.keys()];
+    const moved: Array<{ index: number; appointment: Appointment }> = [];
+
+    for (const i of order) {
+      try {
+        const appointment = await this.appointmentManager.updateAppointment({
+          appointmentId: legs[i].id,
+          slotStart: checks[i].start,
+          slotEnd: checks[i].end,
+          actorId,
+          expectedVersion: legs[i].version ?? 1,
+          maxSimultaneousBookings: services[i].maxSimultaneousBookings,
+          capacityPools: services[i].capacityPools,
+          resources: services[i].resources,
+        });
+        moved.push({ index: i, appointment });
+      } catch (error) {
+        checks[i].available = false;
+        checks[i].code = 'CAPACITY_FULL';
+        checks[i].error = error instanceof Error ? error.message : 'Failed to move appointment';
+
+        await this.moveLegsBack(legs, moved, services, actorId);
+        return { updated: false, legs: checks };
+      }
+    }
+
+    return { updated: true, legs: checks };
+  }
+
+  /**
+   * Put moved legs back where they were, last moved first
+   * A leg that can't go back (its old slot was taken meanwhile) is logged and left moved.
+   */
+  private async moveLegsBack(
+    legs: Appointment[],
+    moved: Array<{ index: number; appointment: Appointment }>,
+    services: GroupServiceContext[],
+    actorId: string | null
+  ): Promise<void> {
+    for (const { index, appointment } of [...moved].reverse()) {
+      try {
+        await this.appointmentManager.updateAppointment({
+          appointmentId: appointment.id,
+          slotStart: legs[index].slot_start!,
+          slotEnd: legs[index].slot_end!,
+          actorId,
+          expectedVersion: appointment.version ?? 1,
+          maxSimultaneousBookings: services[index].maxSimultaneousBookings,
+          capacityPools: services[index].capacityPools,
+          resources: services[index].resources,
+        });
+      } catch (error) {
+        console.error('[BookingGroup] Failed to move leg back after a failed reschedule', appointment.id, error);
+      }
+    }
+  }
+
+  /**
+   * Reserve one leg, trying each staff candidate in order when there are any
+   */
+  private async reserveLeg(
+    groupId: string,
+    index: number,
+    leg: GroupLegParams,
+    params: ReserveGroupParams
+  ): Promise<Reservation> {
+    const reservationParams: CreateReservationParams = {
+      businessId: params.businessId,
+      serviceId: leg.serviceId,
+      slotStart: leg.slotStart,
+      slotEnd: leg.slotEnd,
+      idempotencyKey: `${params.idempotencyKey}:${index}`,
+      ttlMinutes: params.ttlMinutes,
+      maxSimultaneousBookings: leg.maxSimultaneousBookings,
+      capacityPools: leg.capacityPools,
+      resources: leg.resources,
+      groupId,
+      groupIndex: index,
+    };
+
+    return this.reservationManager.createStaffReservation(reservationParams, leg.staffCandidates ?? null);
+  }
+}
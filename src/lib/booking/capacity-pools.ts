@@ -0,0 +1,167 @@
+import { DbClient } from '../../db/client';
+import { CapacityPool, TenantConfig } from '../config/tenant-schema';
+import { OccupancyBooking, occupancyOverlaps } from './occupancy';
+
+/**
+ * A pool a service draws from, resolved to the database services sharing it
+ */
+export interface CapacityPoolLimit {
+  id: string;
+  capacity: number;
+  serviceIds: string[]; // Database ids of every service drawing from the pool
+}
+
+/**
+ * A pool with the bookings that currently hold it, for slot generation
+ */
+export interface CapacityPoolUsage {
+  id: string;
+  capacity: number;
+  bookings: OccupancyBooking[];
+}
+
+/**
+ * Service row as needed to map config service ids to database ids
+ */
+export interface PoolServiceRecord {
+  id: string;
+  external_id: string;
+}
+
+/**
+ * Pools a config service draws from, in config order
+ */
+export function getServiceCapacityPools(config: TenantConfig, serviceId: string): CapacityPool[] {
+  const service = config.categories
+    .flatMap(category => category.services)
+    .find(s => s.id === serviceId);
+
+  if (!service?.capacityPools?.length) {
+    return [];
+  }
+
+  return config.capacityPools.filter(pool => service.capacityPools!.includes(pool.id));
+}
+
+/**
+ * Resolve the pools of a config service against the business's service rows
+ *
+ * Services in the config without a database row can't hold bookings, so they
+ * are left out of the pool.
+ */
+export function buildCapacityPoolLimits(
+  config: TenantConfig,
+  serviceId: string,
+  services: PoolServiceRecord[]
+): CapacityPoolLimit[] {
+  const configServices = config.categories.flatMap(category => category.services);
+
+  return getServiceCapacityPools(config, serviceId).map(pool => {
+    const members = new Set(
+      configServices
+        .filter(s => s.capacityPools?.includes(pool.id))
+        .map(s => s.id)
+    );
+
+    return {
+      id: pool.id,
+      capacity: pool.capacity,
+      serviceIds: services.filter(s => members.has(s.external_id)).map(s => s.id),
+    };
+  });
+}
+
+/**
+ * Remaining room of the fullest pool over a time range, or null without pools
+ */
+export function getPoolAvailability(pools: CapacityPoolUsage[], start: Date, end: Date): number | null {
+  if (pools.length === 0) {
+    return null;
+  }
+
+  return Math.min(
+    ...pools.map(pool => {
+      const used = pool.bookings.filter(booking => occupancyOverlaps(booking, { start, end })).length;
+      return Math.max(0, pool.capacity - used);
+    })
+  );
+}
+
+/**
+ * Pools the service draws from, keyed by the YAML service id
+ *
+ * IMPORTANT: Pools come from the tenant config (single source of truth), like
+ * maxSimultaneousBookings; only the service ids are looked up in the database.
+ */
+export async function resolveCapacityPools(
+  db: DbClient,
+  config: TenantConfig,
+  businessId: string,
+  serviceId: string
+): Promise<CapacityPoolLimit[]> {
+  if (getServiceCapacityPools(config, serviceId).length === 0) {
+    return [];
+  }
+
+  const services = await db`
+    SELECT id, external_id
+    FROM services
+    WHERE business_id = ${businessId}
+      AND external_id IS NOT NULL
+      AND deleted_at IS NULL
+  ` as PoolServiceRecord[];
+
+  return buildCapacityPoolLimits(config, serviceId, services);
+}
+
+/**
+ * Confirmed appointments and active reservations holding each pool in a range
+ * (matched on their occupied intervals, buffers included)
+ *
+ * @param excludeAppointmentId - Appointment being rescheduled, which doesn't count against itself
+ */
+export async function getCapacityPoolUsage(
+  db: DbClient,
+  businessId: string,
+  pools: CapacityPoolLimit[],
+  start: Date,
+  end: Date,
+  excludeAppointmentId?: string
+): Promise<CapacityPoolUsage[]> {
+  return await Promise.all(
+    pools.map(async pool => {
+      const bookings = await db`
+        SELECT slot_start, slot_end, occupied_start, occupied_end
+        FROM appointments
+        WHERE business_id = ${businessId}
+          AND service_id = ANY(${pool.serviceIds})
+          ${excludeAppointmentId ? db`AND id != ${excludeAppointmentId}` : db``}
+          AND deleted_at IS NULL
+          AND status IN ('confirmed', 'completed')
+          AND occupied_start < ${end}
+          AND occupied_end > ${start}
+
+        UNION ALL
+
+        SELECT slot_start, slot_end, occupied_start, occupied_end
+        FROM reservations
+        WHERE business_id = ${businessId}
+          AND service_id = ANY(${pool.serviceIds})
+          AND expires_at > NOW()
+          AND occupied_start < ${end}
+          AND occupied_end > ${start}
+      `;
+
+      return {
+        id: pool.id,
+        capacity: pool.capacity,
+        bookings: bookings.map(b => ({
+          slot_start: b.slot_start,
+          slot_end: b.slot_end,
+          occupied_start: b.occupied_start,
+          occupied_end: b.occupied_end,
+        })),
+      };
+    })
+  );
+}
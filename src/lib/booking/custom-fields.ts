@@ -0,0 +1,84 @@
+/**
+ * Custom Booking Form Fields
+ *
+ * Validates answers to bookingRequirements.customFields against the tenant
+ * config. Answers are stored on the appointment together with the field label,
+ * so they still read correctly after the owner edits or removes the field.
+ */
+
+import { BookingRequirements } from '@/lib/config/tenant-schema';
+import { CustomFieldAnswer } from '@/db/types';
+
+export type CustomFieldDefinition = BookingRequirements['customFields'][number];
+
+// Applies when a text field doesn't set maxLength
+const DEFAULT_MAX_LENGTH = 1000;
+
+export type CustomFieldValidationResult =
+  | { valid: true; answers: CustomFieldAnswer[] }
+  | { valid: false; error: string; code: 'CUSTOM_FIELD_INVALID'; fieldId: string };
+
+function invalid(field: CustomFieldDefinition, reason: string): CustomFieldValidationResult {
+  return {
+    valid: false,
+    error: `${field.label}: ${reason}`,
+    code: 'CUSTOM_FIELD_INVALID',
+    fieldId: field.id,
+  };
+}
+
+/**
+ * Validate submitted answers against the configured fields
+ * Values for unknown field ids are dropped; empty optional fields are not stored.
+ *
+ * @param fields - bookingRequirements.customFields from the tenant config
+ * @param input - Answers keyed by field id (string, or boolean for checkboxes)
+ */
+export function validateCustomFieldAnswers(
+  fields: CustomFieldDefinition[],
+  input: Record<string, unknown> = {}
+): CustomFieldValidationResult {
+  const answers: CustomFieldAnswer[] = [];
+
+  for (const field of fields) {
+    const raw = input[field.id];
+
+    if (field.type === 'checkbox') {
+      if (raw !== undefined && typeof raw !== 'boolean') {
+        return invalid(field, 'must be true or false');
+      }
+      if (field.required && raw !== true) {
+        return invalid(field, 'is required');
+      }
+      if (raw !== undefined) {
+        answers.push({ id: field.id, label: field.label, type: field.type, value: raw });
+      }
+      continue;
+    }
+
+    if (raw !== undefined && typeof raw !== 'string') {
+      return invalid(field, 'must be text');
+    }
+
+    const value = (raw ?? '').trim();
+
+    if (!value) {
+      if (field.required) {
+        return invalid(field, 'is required');
+      }
+      continue;
+    }
+
+    if ((field.type === 'select' || field.type === 'radio') && !field.options?.includes(value)) {
+      return invalid(field, 'is not one of the available options');
+    }
+
+    if (value.length > (field.maxLength ?? DEFAULT_MAX_LENGTH)) {
+      return invalid(field, `must be at most ${field.maxLength ?? DEFAULT_MAX_LENGTH} characters`);
+    }
+
+    answers.push({ id: field.id, label: field.label, type: field.type, value });
+  }
+
+  return { valid: true, answers };
+}
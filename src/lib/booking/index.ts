@@ -18,15 +18,64 @@
  *    - Optimistic locking (version field) for updates
  *    - Idempotency keys for safe retries
  *    - TTL-based reservation expiry
+ *    - Shared capacity pools (capacityPools in the tenant config) checked
+ *      across every service that draws from them
+ *    - Bookable resources (rooms, equipment) held exclusively per booking,
+ *      picked at reservation time and locked per resource in the database
+ *    - Service buffers count as occupied time in every overlap check
  *
  * 4. Cleanup:
  *    - Background job removes expired reservations
  *    - Health monitoring for reservation system
+ *
+ * 5. Waitlist (features.enableWaitlist):
+ *    - Customers queue for fully booked services
+ *    - Canceled slots are held as reservations for the next person in line
+ *
+ * 6. Policy:
+ *    - cancellationPolicy deadlines for customer cancel/reschedule
+ *    - bookingLimits per customer on commit
+ *    - commitBooking runs the commit checks for every public booking path
+ *
+ * 7. Recurring series:
+ *    - Owner books every N weeks, until a count or a date
+ *    - Every occurrence is checked up front; edits and cancellations apply
+ *      to one occurrence, the following ones, or the whole series
+ *
+ * 8. Booking groups:
+ *    - Customers book several services back to back in one checkout
+ *    - Legs are reserved all-or-nothing, committed under one booking ID and
+ *      canceled or rescheduled together
  */
 
 export { ReservationManager } from './reservation-manager';
 export type { CreateReservationParams, ReservationValidationResult } from './reservation-manager';
 
+export {
+  resolveCapacityPools,
+  getCapacityPoolUsage,
+  getServiceCapacityPools,
+  buildCapacityPoolLimits,
+  getPoolAvailability
+} from './capacity-pools';
+export type { CapacityPoolLimit, CapacityPoolUsage, PoolServiceRecord } from './capacity-pools';
+
+export {
+  getServiceResources,
+  getResourceOptions,
+  getResourceOptionLimit,
+  getBusyResources,
+  getResourceAvailability,
+  getResourceBookings
+} from './resources';
+export type { ResourceRequirement, ResourceBooking, ResourceAvailability } from './resources';
+
+export { getServiceOccupancy, getOccupiedInterval, occupancyOverlaps } from './occupancy';
+export type { OccupancyBooking, OccupiedInterval } from './occupancy';
+
+export { getShortestServiceMinutes, rankDaySlots } from './slot-ranking';
+export type { SlotRankingContext } from './slot-ranking';
+
 export { AppointmentManager } from './appointment-manager';
 export type {
   CommitReservationParams,
@@ -35,6 +84,72 @@ export type {
   AppointmentConflictError
 } from './appointment-manager';
 
+export { commitBooking, commitGroupBooking } from './booking-commit';
+export type {
+  CommitBookingParams,
+  CommitBookingResult,
+  CommitGroupBookingParams,
+  CommitGroupBookingResult
+} from './booking-commit';
+
+export { WaitlistManager, WAITLIST_OFFER_TTL_MINUTES } from './waitlist-manager';
+export type { JoinWaitlistParams, FreedSlot, WaitlistOffer } from './waitlist-manager';
+
+export { SeriesManager, SERIES_SCOPES } from './series-manager';
+export type {
+  SeriesScope,
+  SeriesOccurrenceCheck,
+  SeriesBookingContext,
+  CreateSeriesParams,
+  RescheduleSeriesParams,
+  CancelSeriesParams,
+  SeriesChangeResult
+} from './series-manager';
+
+export { BookingGroupManager, getLegBookingId } from './booking-group-manager';
+export type {
+  GroupServiceContext,
+  GroupLegParams,
+  ReserveGroupParams,
+  ReservedGroup,
+  CommitGroupParams,
+  CommittedGroup,
+  FindSequenceSlotsParams,
+  RescheduleGroupParams,
+  GroupLegCheck
+} from './booking-group-manager';
+
+export { MAX_GROUP_SERVICES, planSequence, getSequenceDuration, combineSequenceSlots } from './sequence';
+export type { SequenceService, SequenceLeg, SequenceSlot } from './sequence';
+
+export {
+  generateSeriesOccurrences,
+  recurrenceRuleSchema,
+  MAX_SERIES_OCCURRENCES,
+  MAX_SERIES_INTERVAL_WEEKS
+} from './recurrence';
+export type { RecurrenceRule, SeriesOccurrence } from './recurrence';
+
+export { validateCustomFieldAnswers } from './custom-fields';
+export type { CustomFieldDefinition, CustomFieldValidationResult } from './custom-fields';
+
+export {
+  evaluateCancellation,
+  evaluateReschedule,
+  evaluateBookingLimits,
+  evaluateNoShowPolicy,
+  applyNoShowPolicy,
+  countRecentNoShows,
+} from './policy';
+export type {
+  PolicyDecision,
+  PolicyDenialCode,
+  BookingLimitParams,
+  NoShowDecision,
+  NoShowParams,
+  NoShowRecord,
+} from './policy';
+
 export {
   cleanupExpiredReservations,
   getReservationMetrics,
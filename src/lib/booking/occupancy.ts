@@ -0,0 +1,60 @@
+import { Service } from '@/lib/config/tenant-schema';
+
+/**
+ * A booking as loaded for overlap checks
+ *
+ * occupied_start/occupied_end are stamped by the capacity triggers (migration
+ * 052); rows loaded without them fall back to the bare slot.
+ */
+export interface OccupancyBooking {
+  slot_start: string | Date;
+  slot_end: string | Date;
+  occupied_start?: string | Date | null;
+  occupied_end?: string | Date | null;
+}
+
+/**
+ * Time a booking keeps its service, staff member, pools and resources busy
+ */
+export interface OccupiedInterval {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Interval a booking of the service over the slot occupies: the slot widened
+ * by the service's buffer before and buffer after
+ *
+ * Mirrors booking_occupied_start/booking_occupied_end in the database.
+ */
+export function getServiceOccupancy(
+  service: Pick<Service, 'bufferBefore' | 'bufferAfter'>,
+  slotStart: Date,
+  slotEnd: Date
+): OccupiedInterval {
+  return {
+    start: new Date(slotStart.getTime() - (service.bufferBefore || 0) * 60 * 1000),
+    end: new Date(slotEnd.getTime() + (service.bufferAfter || 0) * 60 * 1000),
+  };
+}
+
+/**
+ * Interval an existing booking occupies
+ */
+export function getOccupiedInterval(booking: OccupancyBooking): OccupiedInterval {
+  return {
+    start: new Date(booking.occupied_start ?? booking.slot_start),
+    end: new Date(booking.occupied_end ?? booking.slot_end),
+  };
+}
+
+/**
+ * Whether an existing booking conflicts with an occupied interval
+ *
+ * Intervals are half-open, so a booking whose buffer ends exactly where the
+ * next one's buffer starts does not conflict.
+ */
+export function occupancyOverlaps(booking: OccupancyBooking, interval: OccupiedInterval): boolean {
+  const occupied = getOccupiedInterval(booking);
+  return occupied.start < interval.end && occupied.end > interval.start;
+}
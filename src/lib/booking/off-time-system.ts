@@ -6,6 +6,7 @@
  * - Closed days (availability.enabled = false)
  * - Holidays (availabilityExceptions with closed = true)
  * - Custom exceptions (availabilityExceptions with special hours)
+ * - Busy time imported from the owner's external calendars
  *
  * This system ensures that bookings cannot span across breaks, closed periods,
  * or other off-time intervals, maintaining data consistency with 5-minute grain precision.
@@ -25,7 +26,15 @@ export interface OffTimeInterval {
   start: Date;
   end: Date;
   reason: string;
-  type: 'closed_day' | 'break' | 'holiday' | 'exception';
+  type: 'closed_day' | 'break' | 'holiday' | 'exception' | 'external_busy';
+}
+
+/**
+ * Busy time from an external calendar (see src/lib/calendar/external-calendar-service.ts)
+ */
+export interface ExternalBusyTime {
+  start: Date;
+  end: Date;
 }
 
 /**
@@ -36,18 +45,21 @@ export interface OffTimeInterval {
  * 2. Breaks (gaps between slots in availability.slots)
  * 3. Holidays (availabilityExceptions with closed = true)
  * 4. Custom exceptions (availabilityExceptions with modified hours)
+ * 5. External busy time (events imported from the owner's other calendars)
  *
  * @param config - Tenant configuration with availability rules
  * @param startDate - Start of date range to check (should be in business timezone)
  * @param endDate - End of date range to check (should be in business timezone)
  * @param timezone - Business timezone (optional, defaults to config.business.timezone)
+ * @param externalBusy - Imported busy intervals; those outside the range are ignored
  * @returns Array of off-time intervals sorted chronologically
  */
 export function generateOffTimeIntervals(
   config: TenantConfig,
   startDate: Date,
   endDate: Date,
-  timezone?: string
+  timezone?: string,
+  externalBusy: ExternalBusyTime[] = []
 ): OffTimeInterval[] {
   const businessTimezone = timezone || config.business.timezone;
   const offTimes: OffTimeInterval[] = [];
@@ -67,6 +79,21 @@ export function generateOffTimeIntervals(
     currentDate.setDate(currentDate.getDate() + 1);
   }
 
+  // Imported busy time. The reason is generic: event titles are private to the owner.
+  const rangeStart = getStartOfDay(startDate, businessTimezone);
+  const rangeEnd = getEndOfDay(endDate, businessTimezone);
+
+  for (const busy of externalBusy) {
+    if (intervalsOverlap(busy.start, busy.end, rangeStart, rangeEnd)) {
+      offTimes.push({
+        start: busy.start,
+        end: busy.end,
+        reason: 'Busy time',
+        type: 'external_busy',
+      });
+    }
+  }
+
   // Sort by start time for efficient searching
   offTimes.sort((a, b) => a.start.getTime() - b.start.getTime());
 
@@ -0,0 +1,304 @@
+/**
+ * Booking Policy Evaluation
+ *
+ * Applies the tenant's cancellationPolicy and bookingLimits to customer actions:
+ * - Guest and customer cancellation (/api/booking/guest-appointment/[booking_id]/cancel,
+ *   /api/customer/appointments/[id]/cancel)
+ * - Guest and customer reschedule (.../reschedule)
+ * - Booking reserve and commit (/api/booking/reserve, /api/booking/commit)
+ *
+ * Owners are not subject to these rules. They can also exempt a single
+ * appointment from the cancellation and reschedule deadlines from the
+ * dashboard (appointments.policy_override), and forgive a customer's past
+ * no-shows (customer_profiles.no_show_reset_at).
+ *
+ * Denials carry a stable code plus the numbers needed to explain them, so the
+ * UI can show a localised message instead of the English error string.
+ */
+
+import { DbClient } from '@/db/client';
+import { TenantConfig } from '@/lib/config/tenant-schema';
+import { getStartOfDay, getEndOfDay } from '@/lib/utils/timezone';
+import { normalizeEmail, normalizePhone } from '@/lib/customers/identity';
+import type { DepositRequirement } from '@/lib/payments/deposit-manager';
+
+export type PolicyDenialCode =
+  | 'CANCELLATION_DISABLED'
+  | 'CANCELLATION_DEADLINE_PASSED'
+  | 'RESCHEDULING_DISABLED'
+  | 'RESCHEDULE_DEADLINE_PASSED'
+  | 'DAILY_BOOKING_LIMIT_REACHED'
+  | 'PENDING_BOOKING_LIMIT_REACHED'
+  | 'NO_SHOW_LIMIT_REACHED';
+
+export interface PolicyDecision {
+  allowed: boolean;
+  code?: PolicyDenialCode;
+  error?: string;
+  // Values for the localised message (deadline hours or booking limit)
+  params?: { hours?: number; limit?: number };
+}
+
+export interface NoShowDecision extends PolicyDecision {
+  // Deposit to take before booking when the policy asks for one instead of blocking
+  deposit?: DepositRequirement;
+}
+
+export interface BookingLimitParams {
+  config: TenantConfig;
+  businessId: string;
+  slotStart: Date;
+  customerId?: string | null;
+  guestEmail?: string | null;
+}
+
+export interface CustomerIdentityParams {
+  businessId: string;
+  customerId?: string | null;
+  guestEmail?: string | null;
+  guestPhone?: string | null;
+}
+
+export interface NoShowParams extends CustomerIdentityParams {
+  config: TenantConfig;
+}
+
+export interface NoShowRecord {
+  noShows: number; // Within the policy window and after any reset
+  resetAt: Date | null;
+}
+
+const ALLOWED: PolicyDecision = { allowed: true };
+
+function hoursUntil(slotStart: Date | string, now: Date): number {
+  return (new Date(slotStart).getTime() - now.getTime()) / (1000 * 60 * 60);
+}
+
+/**
+ * Check whether a customer may cancel an appointment
+ *
+ * @param policyOverride - Owner exempted the appointment (appointments.policy_override)
+ */
+export function evaluateCancellation(
+  config: TenantConfig,
+  slotStart: Date | string,
+  policyOverride: boolean = false,
+  now: Date = new Date()
+): PolicyDecision {
+  if (policyOverride) {
+    return ALLOWED;
+  }
+
+  const policy = config.cancellationPolicy;
+
+  if (!policy.allowCancellation) {
+    return {
+      allowed: false,
+      code: 'CANCELLATION_DISABLED',
+      error: 'This business does not accept online cancellations. Please contact them directly.',
+    };
+  }
+
+  if (hoursUntil(slotStart, now) < policy.cancellationDeadlineHours) {
+    return {
+      allowed: false,
+      code: 'CANCELLATION_DEADLINE_PASSED',
+      error: `Appointments can only be canceled up to ${policy.cancellationDeadlineHours} hours in advance`,
+      params: { hours: policy.cancellationDeadlineHours },
+    };
+  }
+
+  return ALLOWED;
+}
+
+/**
+ * Check whether a customer may reschedule an appointment
+ * The deadline applies to the current slot, not the one being moved to.
+ */
+export function evaluateReschedule(
+  config: TenantConfig,
+  slotStart: Date | string,
+  policyOverride: boolean = false,
+  now: Date = new Date()
+): PolicyDecision {
+  if (policyOverride) {
+    return ALLOWED;
+  }
+
+  const policy = config.cancellationPolicy;
+
+  if (!policy.allowRescheduling) {
+    return {
+      allowed: false,
+      code: 'RESCHEDULING_DISABLED',
+      error: 'This business does not accept online rescheduling. Please contact them directly.',
+    };
+  }
+
+  if (hoursUntil(slotStart, now) < policy.rescheduleDeadlineHours) {
+    return {
+      allowed: false,
+      code: 'RESCHEDULE_DEADLINE_PASSED',
+      error: `Appointments can only be rescheduled up to ${policy.rescheduleDeadlineHours} hours in advance`,
+      params: { hours: policy.rescheduleDeadlineHours },
+    };
+  }
+
+  return ALLOWED;
+}
+
+/**
+ * Check bookingLimits.maxBookingsPerCustomerPerDay and maxBookingsPerCustomerPending
+ * for a new booking. Guests are identified by email.
+ */
+export async function evaluateBookingLimits(db: DbClient, params: BookingLimitParams): Promise<PolicyDecision> {
+  const { config, businessId, slotStart } = params;
+  const { maxBookingsPerCustomerPerDay, maxBookingsPerCustomerPending } = config.bookingLimits;
+  const guestEmail = params.guestEmail?.toLowerCase() || null;
+
+  if ((!maxBookingsPerCustomerPerDay && !maxBookingsPerCustomerPending) || (!params.customerId && !guestEmail)) {
+    return ALLOWED;
+  }
+
+  const timezone = config.business.timezone;
+  const dayStart = getStartOfDay(slotStart, timezone);
+  const dayEnd = getEndOfDay(slotStart, timezone);
+
+  // A booking group (several services in one visit) counts as one booking
+  const [counts] = await db`
+    SELECT
+      COUNT(DISTINCT COALESCE(group_id, id)) FILTER (WHERE slot_start >= ${dayStart} AND slot_start <= ${dayEnd}) AS same_day,
+      COUNT(DISTINCT COALESCE(group_id, id)) FILTER (WHERE slot_start > NOW()) AS pending
+    FROM appointments
+    WHERE business_id = ${businessId}
+      AND status = 'confirmed'
+      AND deleted_at IS NULL
+      AND ${params.customerId
+        ? db`customer_id = ${params.customerId}`
+        : db`LOWER(guest_email) = ${guestEmail}`}
+  `;
+
+  if (maxBookingsPerCustomerPerDay && Number(counts.same_day) >= maxBookingsPerCustomerPerDay) {
+    return {
+      allowed: false,
+      code: 'DAILY_BOOKING_LIMIT_REACHED',
+      error: `You can book at most ${maxBookingsPerCustomerPerDay} appointment(s) per day with this business`,
+      params: { limit: maxBookingsPerCustomerPerDay },
+    };
+  }
+
+  if (maxBookingsPerCustomerPending && Number(counts.pending) >= maxBookingsPerCustomerPending) {
+    return {
+      allowed: false,
+      code: 'PENDING_BOOKING_LIMIT_REACHED',
+      error: `You can have at most ${maxBookingsPerCustomerPending} upcoming appointment(s) with this business`,
+      params: { limit: maxBookingsPerCustomerPending },
+    };
+  }
+
+  return ALLOWED;
+}
+
+/**
+ * Apply noShowPolicy to a customer's recent no-show count
+ *
+ * With the require_deposit action the booking is allowed with a deposit. A
+ * tenant without online payments can't take one, so those customers are
+ * blocked instead.
+ */
+export function applyNoShowPolicy(config: TenantConfig, noShows: number): NoShowDecision {
+  const policy = config.noShowPolicy;
+
+  if (!policy.enabled || noShows < policy.maxNoShows) {
+    return ALLOWED;
+  }
+
+  if (policy.action === 'require_deposit' && policy.depositAmount && config.features.enableOnlinePayments) {
+    return {
+      allowed: true,
+      deposit: { amountCents: policy.depositAmount, currency: config.business.currency },
+    };
+  }
+
+  return {
+    allowed: false,
+    code: 'NO_SHOW_LIMIT_REACHED',
+    error: `Online booking is not available after ${policy.maxNoShows} missed appointment(s). Please contact the business directly.`,
+    params: { limit: policy.maxNoShows },
+  };
+}
+
+/**
+ * No-shows of a customer over the last windowDays, recognised by account,
+ * email or phone number. Also follows the customer directory, so no-shows
+ * booked with details since merged into the same profile count too.
+ */
+export async function countRecentNoShows(
+  db: DbClient,
+  params: CustomerIdentityParams & { windowDays: number }
+): Promise<NoShowRecord> {
+  const customerId = params.customerId || null;
+  const email = normalizeEmail(params.guestEmail);
+  const phone = normalizePhone(params.guestPhone);
+
+  if (!customerId && !email && !phone) {
+    return { noShows: 0, resetAt: null };
+  }
+
+  const since = new Date(Date.now() - params.windowDays * 24 * 60 * 60 * 1000);
+
+  // Phone numbers are compared in the form normalizePhone() produces
+  const [record] = await db`
+    WITH profiles AS (
+      SELECT p.id, p.no_show_reset_at
+      FROM customer_profiles p
+      WHERE p.business_id = ${params.businessId}
+        AND (
+          p.user_id = ${customerId}::uuid
+          OR p.id IN (
+            SELECT profile_id FROM customer_profile_identities
+            WHERE business_id = ${params.businessId}
+              AND ((kind = 'email' AND value = ${email}::text) OR (kind = 'phone' AND value = ${phone}::text))
+          )
+        )
+    ),
+    reset AS (
+      SELECT MAX(no_show_reset_at) AS reset_at FROM profiles
+    )
+    SELECT
+      COUNT(a.id)::int AS no_shows,
+      (SELECT reset_at FROM reset) AS reset_at
+    FROM appointments a
+    WHERE a.business_id = ${params.businessId}
+      AND a.status = 'no_show'
+      AND a.slot_start >= ${since}
+      AND a.slot_start > COALESCE((SELECT reset_at FROM reset), '-infinity'::timestamptz)
+      AND (
+        a.customer_id = ${customerId}::uuid
+        OR LOWER(TRIM(a.guest_email)) = ${email}::text
+        OR CASE
+          WHEN TRIM(a.guest_phone) ~ '^(\+|00)'
+            THEN '+' || regexp_replace(regexp_replace(TRIM(a.guest_phone), '^00', ''), '\D', '', 'g')
+          ELSE regexp_replace(a.guest_phone, '\D', '', 'g')
+        END = ${phone}::text
+        OR a.customer_profile_id IN (SELECT id FROM profiles)
+      )
+  `;
+
+  return { noShows: record?.no_shows ?? 0, resetAt: record?.reset_at ?? null };
+}
+
+/**
+ * Check noShowPolicy for a new booking
+ */
+export async function evaluateNoShowPolicy(db: DbClient, params: NoShowParams): Promise<NoShowDecision> {
+  const policy = params.config.noShowPolicy;
+
+  if (!policy.enabled) {
+    return ALLOWED;
+  }
+
+  const { noShows } = await countRecentNoShows(db, { ...params, windowDays: policy.windowDays });
+
+  return applyNoShowPolicy(params.config, noShows);
+}
@@ -0,0 +1,144 @@
+/**
+ * Recurring Appointment Rules
+ *
+ * Expands an owner's "every N weeks" rule into concrete occurrences for
+ * SeriesManager. Occurrences keep the wall-clock time of the first one in
+ * the business timezone, so a 09:00 appointment stays at 09:00 across DST
+ * changes.
+ *
+ * No database access - capacity and off-time checks happen in SeriesManager.
+ */
+
+import { z } from 'zod';
+import { parseInTimezone } from '@/lib/utils/timezone';
+
+// Upper bounds on what one series may create
+export const MAX_SERIES_OCCURRENCES = 52;
+export const MAX_SERIES_INTERVAL_WEEKS = 12;
+
+export interface RecurrenceRule {
+  intervalWeeks: number;
+  count?: number; // End after this many occurrences
+  until?: string; // End on this date (YYYY-MM-DD, business timezone, inclusive)
+}
+
+export interface SeriesOccurrence {
+  index: number;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Request body shape of a rule (snake_case, as sent by the dashboard)
+ */
+export const recurrenceRuleSchema = z
+  .object({
+    interval_weeks: z.number().int().min(1).max(MAX_SERIES_INTERVAL_WEEKS),
+    count: z.number().int().min(2).max(MAX_SERIES_OCCURRENCES).optional(),
+    until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'End date must be YYYY-MM-DD' }).optional(),
+  })
+  .refine(rule => rule.count !== undefined || rule.until !== undefined, {
+    message: 'Choose a number of occurrences or an end date',
+    path: ['count'],
+  })
+  .transform((rule): RecurrenceRule => ({
+    intervalWeeks: rule.interval_weeks,
+    count: rule.count,
+    until: rule.until,
+  }));
+
+/**
+ * A change to a series time, as seen in the business timezone
+ * dayOffset moves the date (e.g. Tuesday to Thursday is 2), time is the new HH:mm.
+ */
+export interface SeriesShift {
+  dayOffset: number;
+  time: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getLocalParts(date: Date, timezone: string): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '00';
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`,
+  };
+}
+
+function addDays(dateString: string, days: number): string {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+function toOccurrence(index: number, date: string, time: string, durationMinutes: number, timezone: string): SeriesOccurrence {
+  const start = parseInTimezone(`${date}T${time}:00`, timezone);
+  return { index, start, end: new Date(start.getTime() + durationMinutes * 60 * 1000) };
+}
+
+/**
+ * Expand a rule into its occurrences, starting with the first appointment
+ * Stops at the count, the until date or MAX_SERIES_OCCURRENCES, whichever comes first.
+ */
+export function generateSeriesOccurrences(
+  firstStart: Date,
+  durationMinutes: number,
+  rule: RecurrenceRule,
+  timezone: string
+): SeriesOccurrence[] {
+  const first = getLocalParts(firstStart, timezone);
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const occurrences: SeriesOccurrence[] = [];
+
+  for (let index = 0; index < limit; index++) {
+    const date = addDays(first.date, index * rule.intervalWeeks * 7);
+
+    if (rule.until && date > rule.until) {
+      break;
+    }
+
+    occurrences.push(toOccurrence(index, date, first.time, durationMinutes, timezone));
+  }
+
+  return occurrences;
+}
+
+/**
+ * Work out how an occurrence moved, so the same change can be applied to
+ * the rest of the series
+ */
+export function getSeriesShift(previousStart: Date, newStart: Date, timezone: string): SeriesShift {
+  const previous = getLocalParts(previousStart, timezone);
+  const next = getLocalParts(newStart, timezone);
+
+  return { dayOffset: daysBetween(previous.date, next.date), time: next.time };
+}
+
+/**
+ * Apply a shift to one occurrence, keeping its duration
+ */
+export function shiftOccurrence(
+  occurrence: SeriesOccurrence,
+  shift: SeriesShift,
+  timezone: string
+): SeriesOccurrence {
+  const date = addDays(getLocalParts(occurrence.start, timezone).date, shift.dayOffset);
+  const durationMinutes = Math.round((occurrence.end.getTime() - occurrence.start.getTime()) / 60000);
+
+  return toOccurrence(occurrence.index, date, shift.time, durationMinutes, timezone);
+}
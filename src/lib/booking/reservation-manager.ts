@@ -1,6 +1,8 @@
 import { DbClient } from '../../db/client';
 import { Reservation } from '../../db/types';
 import { v4 as uuidv4 } from 'uuid';
+import { CapacityPoolLimit } from './capacity-pools';
+import { ResourceRequirement, getResourceOptionLimit, getResourceOptions } from './resources';
 
 export interface CreateReservationParams {
   businessId: string;
@@ -10,6 +12,11 @@ export interface CreateReservationParams {
   idempotencyKey: string;
   ttlMinutes?: number;
   maxSimultaneousBookings: number; // YAML config capacity (single source of truth)
+  staffId?: string; // Reserve a specific staff member (capacity is then one booking per staff member)
+  capacityPools?: CapacityPoolLimit[]; // Shared pools the service draws from (see resolveCapacityPools)
+  resources?: ResourceRequirement; // Rooms/equipment the service requires (see getServiceResources)
+  groupId?: string; // Leg of a multi-service booking group (see BookingGroupManager)
+  groupIndex?: number;
 }
 
 export interface ReservationValidationResult {
@@ -30,8 +37,25 @@ export class ReservationManager {
    * IMPORTANT: maxSimultaneousBookings MUST come from YAML config (single source of truth),
    * NOT from the database. This ensures consistency between slot generation and reservation logic.
    *
-   * CRITICAL: Advisory locks serialize concurrent reservation attempts for the same time slot,
-   * eliminating the time-of-check-to-time-of-use (TOCTOU) race condition.
+   * CRITICAL: Advisory locks serialize concurrent reservation attempts for the same service,
+   * eliminating the time-of-check-to-time-of-use (TOCTOU) race condition. The lock isn't
+   * keyed on the slot: with buffers, bookings that start at different times can overlap.
+   * The reservation trigger takes the same lock (lock_booking_scope, migration 052).
+   *
+   * When staffId is set, the lock and overlap check are scoped to that staff member
+   * across all services, since a person can only serve one booking at a time.
+   *
+   * Shared capacity pools are checked on top, counting the bookings of every
+   * service in each pool. The reservation trigger re-checks them under one
+   * advisory lock per pool, so services sharing a pool can't overfill it
+   * between them even though their service locks differ.
+   *
+   * Required resources are picked here: the first free option (allOf plus one
+   * of oneOf) is stored on the reservation. The trigger locks each resource and
+   * rejects the reservation if another booking took it in the meantime.
+   *
+   * Every overlap is measured on occupied intervals, so the service's buffer
+   * before and after count against other bookings, and theirs against it.
    */
   async createReservation(params: CreateReservationParams): Promise<Reservation> {
     const {
@@ -41,7 +65,12 @@ export class ReservationManager {
       slotEnd,
       idempotencyKey,
       ttlMinutes = 15,
-      maxSimultaneousBookings
+      maxSimultaneousBookings,
+      staffId,
+      capacityPools = [],
+      resources,
+      groupId,
+      groupIndex
     } = params;
 
     // Check for existing reservation with same idempotency key
@@ -59,19 +88,17 @@ export class ReservationManager {
     const reservationId = uuidv4();
     const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
 
-    // Generate deterministic lock key for this slot
-    // Combines business_id, service_id, and slot_start to create unique int8 lock
-    const lockKey = this.generateAdvisoryLockKey(businessId, serviceId, slotStart);
+    const capacity = staffId ? 1 : maxSimultaneousBookings;
 
     try {
       // Atomic reservation creation with advisory lock to prevent TOCTOU race conditions
       // The lock is acquired first, then capacity is checked, then insertion happens
       // All within the transaction scope - lock is released automatically at transaction end
       const result = await this.db`
-        WITH slot_lock AS (
-          -- Acquire advisory lock for this specific slot
-          -- This serializes all concurrent reservation attempts for the same slot
-          SELECT pg_advisory_xact_lock(${lockKey})
+        WITH scope_lock AS (
+          -- Acquire advisory lock for the staff member, or the service without staff
+          -- This serializes all concurrent reservation attempts that count against each other
+          SELECT lock_booking_scope(${businessId}, ${serviceId}, ${staffId || null})
         ),
         overlapping_count AS (
           SELECT COUNT(*) as count
@@ -80,11 +107,10 @@ export class ReservationManager {
             SELECT 1
             FROM appointments
             WHERE business_id = ${businessId}
-              AND service_id = ${serviceId}
+              ${this.bookingScope(serviceId, staffId)}
               AND deleted_at IS NULL
               AND status = 'confirmed'
-              AND slot_start < ${slotEnd}
-              AND slot_end > ${slotStart}
+              ${this.occupancyOverlap(serviceId, slotStart, slotEnd)}
 
             UNION ALL
 
@@ -92,16 +118,29 @@ export class ReservationManager {
             SELECT 1
             FROM reservations
             WHERE business_id = ${businessId}
-              AND service_id = ${serviceId}
+              ${this.bookingScope(serviceId, staffId)}
               AND expires_at > NOW()
-              AND slot_start < ${slotEnd}
-              AND slot_end > ${slotStart}
+              ${this.occupancyOverlap(serviceId, slotStart, slotEnd)}
           ) AS overlapping_bookings
+        ),
+        pool_capacity AS (
+          ${this.poolRemaining(businessId, serviceId, capacityPools, slotStart, slotEnd)}
+        ),
+        resource_choice AS (
+          -- First option whose resources are all free (none if every option is taken)
+          SELECT free_options.ids
+          FROM (${this.freeResourceOptions(businessId, serviceId, resources, slotStart, slotEnd)}) AS free_options
+          ORDER BY free_options.position
+          LIMIT 1
         )
         INSERT INTO reservations (
           id,
           business_id,
           service_id,
+          staff_id,
+          resource_ids,
+          group_id,
+          group_index,
           slot_start,
           slot_end,
           idempotency_key,
@@ -112,13 +151,18 @@ export class ReservationManager {
           ${reservationId},
           ${businessId},
           ${serviceId},
+          ${staffId || null},
+          resource_choice.ids,
+          ${groupId || null},
+          ${groupIndex ?? null},
           ${slotStart},
           ${slotEnd},
           ${idempotencyKey},
           ${expiresAt},
           NOW()
-        FROM slot_lock, overlapping_count
-        WHERE overlapping_count.count < ${maxSimultaneousBookings}
+        FROM scope_lock, overlapping_count, pool_capacity, resource_choice
+        WHERE overlapping_count.count < ${capacity}
+          AND COALESCE(pool_capacity.remaining, 1) > 0
         RETURNING *
       `;
 
@@ -129,8 +173,12 @@ export class ReservationManager {
       return result[0] as Reservation;
     } catch (error: unknown) {
       const err = error as { message?: string; code?: string };
-      // Check if it's a capacity error
-      if (err.message === 'SLOT_UNAVAILABLE') {
+      // Check if it's a capacity error (a full pool or taken resource may only be caught by the trigger)
+      if (
+        err.message === 'SLOT_UNAVAILABLE' ||
+        err.message?.startsWith('Capacity pool') ||
+        err.message?.startsWith('Resource "')
+      ) {
         throw new Error('The selected time slot is no longer available');
       }
 
@@ -153,32 +201,149 @@ export class ReservationManager {
   }
 
   /**
-   * Generate a deterministic advisory lock key for a time slot.
-   * Combines business_id, service_id, and slot_start into a unique int8.
-   *
-   * Uses a simple hash function that creates a 64-bit integer suitable
-   * for pg_advisory_xact_lock.
+   * Creates a reservation with the first free staff member among the candidates
+   * (see StaffManager.resolveStaffCandidates), or without staff when there are
+   * none. A taken staff member falls through to the next one; only the last
+   * candidate's failure is thrown.
+   */
+  async createStaffReservation(
+    params: Omit<CreateReservationParams, 'staffId'>,
+    staffIds: string[] | null
+  ): Promise<Reservation> {
+    if (!staffIds || staffIds.length === 0) {
+      return this.createReservation(params);
+    }
+
+    for (const [index, staffId] of staffIds.entries()) {
+      try {
+        return await this.createReservation({ ...params, staffId });
+      } catch (error) {
+        const isLast = index === staffIds.length - 1;
+        if (isLast || !(error instanceof Error && error.message.includes('no longer available'))) {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error('The selected time slot is no longer available');
+  }
+
+  /**
+   * Overlap filter for capacity checks: per staff member when one is given,
+   * otherwise per service. Bookings without a staff member never hold one,
+   * matching buildStaffSlot in the slot generator.
    */
-  private generateAdvisoryLockKey(businessId: string, serviceId: string, slotStart: Date): bigint {
-    // Convert UUIDs and timestamp to a deterministic hash
-    // We use the first 8 bytes of business_id + first 8 bytes of service_id + timestamp
-    const businessHash = this.hashUuid(businessId);
-    const serviceHash = this.hashUuid(serviceId);
-    const timeHash = BigInt(Math.floor(slotStart.getTime() / 1000)); // Unix timestamp in seconds
-
-    // Combine hashes using bitwise operations
-    // This creates a unique lock key for each business + service + time slot combination
-    const maxInt64 = BigInt('0x7FFFFFFFFFFFFFFF'); // Max positive int8 (63 bits)
-    return (businessHash ^ serviceHash ^ timeHash) & maxInt64;
+  private bookingScope(serviceId: string, staffId?: string) {
+    return staffId
+      ? this.db`AND staff_id = ${staffId}`
+      : this.db`AND service_id = ${serviceId}`;
+  }
+
+  /**
+   * Leaves out appointments being moved, which don't count against themselves
+   */
+  private excludeAppointments(appointmentIds: string[]) {
+    return appointmentIds.length > 0
+      ? this.db`AND id <> ALL(${appointmentIds}::uuid[])`
+      : this.db``;
+  }
+
+  /**
+   * Overlap filter on occupied intervals: the slot widened by the service's
+   * buffers against each booking's stamped occupied_start/occupied_end, the
+   * same comparison the capacity triggers make
+   */
+  private occupancyOverlap(serviceId: string, slotStart: Date, slotEnd: Date) {
+    return this.db`
+      AND occupied_start < booking_occupied_end(${serviceId}, ${slotEnd})
+      AND occupied_end > booking_occupied_start(${serviceId}, ${slotStart})
+    `;
+  }
+
+  /**
+   * Room left in the fullest shared pool over the slot, as a single-row query
+   * (remaining is NULL when there are no pools)
+   */
+  private poolRemaining(
+    businessId: string,
+    serviceId: string,
+    capacityPools: CapacityPoolLimit[],
+    slotStart: Date,
+    slotEnd: Date,
+    excludeAppointmentIds: string[] = []
+  ) {
+    const pools = JSON.stringify(capacityPools.map(pool => ({
+      id: pool.id,
+      capacity: pool.capacity,
+      service_ids: pool.serviceIds,
+    })));
+
+    return this.db`
+      SELECT MIN(GREATEST(pool.capacity - (
+        SELECT COUNT(*)
+        FROM (
+          SELECT 1
+          FROM appointments
+          WHERE business_id = ${businessId}
+            AND service_id = ANY(pool.service_ids)
+            ${this.excludeAppointments(excludeAppointmentIds)}
+            AND deleted_at IS NULL
+            AND status = 'confirmed'
+            ${this.occupancyOverlap(serviceId, slotStart, slotEnd)}
+
+          UNION ALL
+
+          SELECT 1
+          FROM reservations
+          WHERE business_id = ${businessId}
+            AND service_id = ANY(pool.service_ids)
+            AND expires_at > NOW()
+            ${this.occupancyOverlap(serviceId, slotStart, slotEnd)}
+        ) AS pool_bookings
+      ), 0))::int AS remaining
+      FROM jsonb_to_recordset(${pools}::jsonb) AS pool(id TEXT, capacity INTEGER, service_ids UUID[])
+    `;
   }
 
   /**
-   * Hash a UUID string into a bigint for lock key generation
+   * Resource options (see getResourceOptions) free over the slot, with their
+   * preference position. Without a requirement the single empty option is free.
    */
-  private hashUuid(uuid: string): bigint {
-    // Remove hyphens and take first 16 hex characters (8 bytes)
-    const hex = uuid.replace(/-/g, '').substring(0, 16);
-    return BigInt('0x' + hex);
+  private freeResourceOptions(
+    businessId: string,
+    serviceId: string,
+    resources: ResourceRequirement | undefined,
+    slotStart: Date,
+    slotEnd: Date,
+    excludeAppointmentIds: string[] = []
+  ) {
+    const options = JSON.stringify(getResourceOptions(resources));
+
+    return this.db`
+      SELECT resource_option.ids, resource_option.position
+      FROM (
+        SELECT ARRAY(SELECT jsonb_array_elements_text(opt.value)) AS ids, opt.position
+        FROM jsonb_array_elements(${options}::jsonb) WITH ORDINALITY AS opt(value, position)
+      ) AS resource_option
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM appointments
+        WHERE business_id = ${businessId}
+          AND resource_ids && resource_option.ids
+          ${this.excludeAppointments(excludeAppointmentIds)}
+          AND deleted_at IS NULL
+          AND status = 'confirmed'
+          ${this.occupancyOverlap(serviceId, slotStart, slotEnd)}
+      )
+      AND NOT EXISTS (
+        SELECT 1
+        FROM reservations
+        WHERE business_id = ${businessId}
+          AND resource_ids && resource_option.ids
+          AND expires_at > NOW()
+          ${this.occupancyOverlap(serviceId, slotStart, slotEnd)}
+      )
+    `;
   }
 
   /**
@@ -211,7 +376,7 @@ export class ReservationManager {
   async extendReservation(reservationId: string, additionalMinutes: number): Promise<void> {
     const result = await this.db`
       UPDATE reservations
-      SET expires_at = expires_at + INTERVAL '${additionalMinutes} minutes'
+      SET expires_at = expires_at + make_interval(mins => ${additionalMinutes})
       WHERE id = ${reservationId}
         AND expires_at > NOW()
       RETURNING id
@@ -251,14 +416,27 @@ export class ReservationManager {
    *
    * IMPORTANT: maxSimultaneousBookings MUST come from YAML config (single source of truth),
    * NOT from the database. This ensures consistency between slot generation and reservation logic.
+   *
+   * When staffId is given, returns 1 if that staff member is free and 0 otherwise.
+   * Shared capacity pools cap the result at the room left in the fullest pool,
+   * and required resources at the number of bookings the free ones can take.
+   * Like reservations, bookings count while their occupied intervals overlap.
+   *
+   * @param excludeAppointmentIds - Appointments being moved, which don't count against the slot
    */
   async getAvailableCapacity(
     businessId: string,
     serviceId: string,
     slotStart: Date,
     slotEnd: Date,
-    maxSimultaneousBookings: number
+    maxSimultaneousBookings: number,
+    staffId?: string,
+    capacityPools: CapacityPoolLimit[] = [],
+    resources?: ResourceRequirement,
+    excludeAppointmentIds: string[] = []
   ): Promise<number> {
+    const capacity = staffId ? 1 : maxSimultaneousBookings;
+
     const result = await this.db`
       WITH occupied_count AS (
         SELECT COUNT(*) as count
@@ -267,11 +445,11 @@ export class ReservationManager {
           SELECT 1
           FROM appointments
           WHERE business_id = ${businessId}
-            AND service_id = ${serviceId}
+            ${this.bookingScope(serviceId, staffId)}
+            ${this.excludeAppointments(excludeAppointmentIds)}
             AND deleted_at IS NULL
             AND status = 'confirmed'
-            AND slot_start < ${slotEnd}
-            AND slot_end > ${slotStart}
+            ${this.occupancyOverlap(serviceId, slotStart, slotEnd)}
 
           UNION ALL
 
@@ -279,20 +457,98 @@ export class ReservationManager {
           SELECT 1
           FROM reservations
           WHERE business_id = ${businessId}
-            AND service_id = ${serviceId}
+            ${this.bookingScope(serviceId, staffId)}
             AND expires_at > NOW()
-            AND slot_start < ${slotEnd}
-            AND slot_end > ${slotStart}
+            ${this.occupancyOverlap(serviceId, slotStart, slotEnd)}
         ) AS overlapping_bookings
+      ),
+      pool_capacity AS (
+        ${this.poolRemaining(businessId, serviceId, capacityPools, slotStart, slotEnd, excludeAppointmentIds)}
+      ),
+      resource_capacity AS (
+        SELECT COUNT(*)::int AS free
+        FROM (${this.freeResourceOptions(businessId, serviceId, resources, slotStart, slotEnd, excludeAppointmentIds)}) AS free_options
       )
       SELECT
         GREATEST(
-          ${maxSimultaneousBookings} - occupied_count.count,
+          LEAST(
+            ${capacity} - occupied_count.count,
+            COALESCE(pool_capacity.remaining, ${capacity}),
+            ${resources
+              ? this.db`LEAST(resource_capacity.free, ${getResourceOptionLimit(resources)})`
+              : this.db`${capacity}`}
+          ),
           0
         ) as available
-      FROM occupied_count
+      FROM occupied_count, pool_capacity, resource_capacity
     `;
 
     return result[0]?.available ?? 0;
   }
-}
\ No newline at end of file
+
+  /**
+   * Room left in the fullest shared pool over a time range, or null without pools
+   *
+   * @param excludeAppointmentId - Appointment being moved, which doesn't count against itself
+   */
+  async getAvailablePoolCapacity(
+    businessId: string,
+    serviceId: string,
+    capacityPools: CapacityPoolLimit[],
+    slotStart: Date,
+    slotEnd: Date,
+    excludeAppointmentId?: string
+  ): Promise<number | null> {
+    if (capacityPools.length === 0) {
+      return null;
+    }
+
+    const result = await this.poolRemaining(
+      businessId,
+      serviceId,
+      capacityPools,
+      slotStart,
+      slotEnd,
+      excludeAppointmentId ? [excludeAppointmentId] : []
+    );
+
+    return result[0]?.remaining ?? null;
+  }
+
+  /**
+   * First free set of resources the service requires over a time range
+   *
+   * Returns an empty list when the service needs no resources, and null when
+   * every option is taken.
+   *
+   * @param excludeAppointmentId - Appointment being moved, which doesn't count against itself
+   */
+  async findFreeResources(
+    businessId: string,
+    serviceId: string,
+    resources: ResourceRequirement | undefined,
+    slotStart: Date,
+    slotEnd: Date,
+    excludeAppointmentId?: string
+  ): Promise<string[] | null> {
+    if (!resources) {
+      return [];
+    }
+
+    const result = await this.db`
+      SELECT free_options.ids
+      FROM (${this.freeResourceOptions(
+        businessId,
+        serviceId,
+        resources,
+        slotStart,
+        slotEnd,
+        excludeAppointmentId ? [excludeAppointmentId] : []
+      )}) AS free_options
+      ORDER BY free_options.position
+      LIMIT 1
+    `;
+
+    return result[0]?.ids ?? null;
+  }
+}
@@ -0,0 +1,167 @@
+import { DbClient } from '../../db/client';
+import { TenantConfig } from '../config/tenant-schema';
+import { occupancyOverlaps } from './occupancy';
+
+/**
+ * Resources a booking of a service must hold: every allOf resource, plus any
+ * one of the oneOf resources (when there are any)
+ */
+export interface ResourceRequirement {
+  allOf: string[];
+  oneOf: string[];
+}
+
+/**
+ * A booking holding resources, for slot generation
+ */
+export interface ResourceBooking {
+  slot_start: string;
+  slot_end: string;
+  occupied_start?: string | null; // Slot plus the booked service's buffers (see occupancy.ts)
+  occupied_end?: string | null;
+  resource_ids: string[];
+}
+
+/**
+ * Free resources over a time range for one service
+ */
+export interface ResourceAvailability {
+  capacity: number; // How many more bookings the free resources can take
+  resourceIds: string[]; // Resources a booking would hold (allOf plus the first free oneOf)
+}
+
+/**
+ * Resources a config service requires, or undefined if it needs none
+ *
+ * IMPORTANT: Requirements come from the tenant config (single source of truth),
+ * like maxSimultaneousBookings. Unknown resource ids are dropped.
+ */
+export function getServiceResources(config: TenantConfig, serviceId: string): ResourceRequirement | undefined {
+  const service = config.categories
+    .flatMap(category => category.services)
+    .find(s => s.id === serviceId);
+
+  const known = new Set(config.resources.map(resource => resource.id));
+  const allOf = (service?.resources?.allOf ?? []).filter(id => known.has(id));
+  const oneOf = (service?.resources?.oneOf ?? []).filter(id => known.has(id));
+
+  if (allOf.length === 0 && oneOf.length === 0) {
+    return undefined;
+  }
+
+  return { allOf, oneOf };
+}
+
+/**
+ * Sets of resources that can each serve one booking, in preference order
+ *
+ * Without a requirement there is a single, empty option, so callers can treat
+ * every service the same way.
+ */
+export function getResourceOptions(requirement?: ResourceRequirement): string[][] {
+  if (!requirement) {
+    return [[]];
+  }
+
+  if (requirement.oneOf.length === 0) {
+    return [requirement.allOf];
+  }
+
+  return requirement.oneOf.map(id => [...requirement.allOf, id]);
+}
+
+/**
+ * Most bookings the options can take at once: options share the allOf
+ * resources, so at most one booking if there are any
+ */
+export function getResourceOptionLimit(requirement: ResourceRequirement): number {
+  return requirement.allOf.length > 0 ? 1 : requirement.oneOf.length;
+}
+
+/**
+ * Resources held by bookings whose occupied time overlaps a time range
+ */
+export function getBusyResources(bookings: ResourceBooking[], start: Date, end: Date): Set<string> {
+  const busy = new Set<string>();
+
+  for (const booking of bookings) {
+    if (occupancyOverlaps(booking, { start, end })) {
+      booking.resource_ids.forEach(id => busy.add(id));
+    }
+  }
+
+  return busy;
+}
+
+/**
+ * Free resources of a service over a time range, or null if it needs none
+ */
+export function getResourceAvailability(
+  requirement: ResourceRequirement | undefined,
+  bookings: ResourceBooking[],
+  start: Date,
+  end: Date
+): ResourceAvailability | null {
+  if (!requirement) {
+    return null;
+  }
+
+  const busy = getBusyResources(bookings, start, end);
+  const freeOptions = getResourceOptions(requirement).filter(option => option.every(id => !busy.has(id)));
+
+  return {
+    capacity: Math.min(freeOptions.length, getResourceOptionLimit(requirement)),
+    resourceIds: freeOptions[0] ?? [],
+  };
+}
+
+/**
+ * Confirmed appointments and active reservations holding any of the resources in a range
+ * (matched on their occupied intervals, buffers included)
+ *
+ * @param excludeAppointmentId - Appointment being rescheduled, which doesn't count against itself
+ */
+export async function getResourceBookings(
+  db: DbClient,
+  businessId: string,
+  requirement: ResourceRequirement | undefined,
+  start: Date,
+  end: Date,
+  excludeAppointmentId?: string
+): Promise<ResourceBooking[]> {
+  if (!requirement) {
+    return [];
+  }
+
+  const resourceIds = [...requirement.allOf, ...requirement.oneOf];
+
+  const bookings = await db`
+    SELECT slot_start, slot_end, occupied_start, occupied_end, resource_ids
+    FROM appointments
+    WHERE business_id = ${businessId}
+      AND resource_ids && ${resourceIds}::text[]
+      ${excludeAppointmentId ? db`AND id != ${excludeAppointmentId}` : db``}
+      AND deleted_at IS NULL
+      AND status IN ('confirmed', 'completed')
+      AND occupied_start < ${end}
+      AND occupied_end > ${start}
+
+    UNION ALL
+
+    SELECT slot_start, slot_end, occupied_start, occupied_end, resource_ids
+    FROM reservations
+    WHERE business_id = ${businessId}
+      AND resource_ids && ${resourceIds}::text[]
+      AND expires_at > NOW()
+      AND occupied_start < ${end}
+      AND occupied_end > ${start}
+  `;
+
+  return bookings.map(b => ({
+    slot_start: b.slot_start,
+    slot_end: b.slot_end,
+    occupied_start: b.occupied_start,
+    occupied_end: b.occupied_end,
+    resource_ids: b.resource_ids ?? [],
+  }));
+}
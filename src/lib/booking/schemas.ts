@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { MAX_GROUP_SERVICES } from './sequence';
+
+/**
+ * Request schemas of the public booking routes
+ *
+ * Kept out of the route files so the public REST API (/api/v1) can build on
+ * them and the OpenAPI document is generated from the same definitions.
+ */
+
+// GET /api/booking/slots
+export const slotsQuerySchema = z.object({
+  subdomain: z.string().min(1, 'Subdomain is required'),
+  serviceId: z.string().min(1, 'Service ID is required'),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format').optional(),
+  staffId: z.string().uuid('Staff ID must be a UUID').optional(),
+});
+
+// POST /api/booking/reserve
+export const reserveSchema = z.object({
+  businessId: z.string().min(1),
+  serviceId: z.string().min(1),
+  startTime: z.string().datetime().optional(),
+  slotStart: z.string().datetime().optional(),
+  slotEnd: z.string().datetime().optional(),
+  idempotencyKey: z.string().min(1),
+  ttlMinutes: z.number().min(5).max(30).optional(),
+  // Specific staff member, or 'any' to take the first free one (multiple staff only)
+  staffId: z.union([z.string().uuid(), z.literal('any')]).optional(),
+  // Who is booking, if already known, so the no-show policy applies early
+  customerId: z.string().min(1).optional(),
+  guestEmail: z.string().email().optional(),
+  guestPhone: z.string().optional()
+});
+
+// POST /api/booking/commit, without the customer check so fields can be picked
+export const commitFieldsSchema = z.object({
+  reservationId: z.string().min(1),
+  customerId: z.string().min(1).optional(),
+  guestEmail: z.string().email().optional(),
+  guestPhone: z.string().optional(),
+  guestName: z.string().min(1).optional(),
+  // Answers to bookingRequirements.customFields, keyed by field id
+  customFields: z.record(z.string(), z.union([z.string(), z.boolean()])).optional(),
+  notes: z.string().max(1000).optional()
+});
+
+export const commitSchema = commitFieldsSchema.refine(
+  (data) => data.customerId || data.guestEmail,
+  { message: 'Either customerId or guestEmail must be provided' }
+);
+
+// Services of a multi-service checkout, in the order they run
+const groupServiceIdsSchema = z.array(z.string().min(1)).min(2).max(MAX_GROUP_SERVICES);
+
+// GET /api/booking/group/slots (serviceIds comma-separated in the query)
+export const groupSlotsQuerySchema = z.object({
+  subdomain: z.string().min(1, 'Subdomain is required'),
+  serviceIds: groupServiceIdsSchema,
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format').optional(),
+});
+
+// POST /api/booking/group/reserve
+export const groupReserveSchema = z.object({
+  businessId: z.string().min(1),
+  serviceIds: groupServiceIdsSchema,
+  startTime: z.string().datetime(),
+  idempotencyKey: z.string().min(1),
+  ttlMinutes: z.number().min(5).max(30).optional(),
+  customerId: z.string().min(1).optional(),
+  guestEmail: z.string().email().optional(),
+  guestPhone: z.string().optional()
+});
+
+// POST /api/booking/group/commit
+export const groupCommitSchema = commitFieldsSchema
+  .omit({ reservationId: true })
+  .extend({ groupId: z.string().uuid() })
+  .refine(
+    (data) => data.customerId || data.guestEmail,
+    { message: 'Either customerId or guestEmail must be provided' }
+  );
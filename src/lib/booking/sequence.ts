@@ -0,0 +1,124 @@
+import { Service } from '@/lib/config/tenant-schema';
+import type { TimeSlot } from './slot-generator';
+
+/**
+ * Most services one checkout can hold
+ */
+export const MAX_GROUP_SERVICES = 5;
+
+/**
+ * What sequencing needs to know about a service
+ */
+export type SequenceService = Pick<Service, 'id' | 'duration' | 'bufferBefore' | 'bufferAfter'>;
+
+/**
+ * Where one service of a back-to-back sequence falls
+ */
+export interface SequenceLeg {
+  index: number;
+  serviceId: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * A start time for a whole sequence, with each service's slot (legs)
+ *
+ * start/end span the sequence; capacity is that of the tightest leg.
+ */
+export interface SequenceSlot extends TimeSlot {
+  legs: Array<{
+    serviceId: string;
+    start: string;
+    end: string;
+    staffIds?: string[];
+    resourceIds?: string[];
+  }>;
+}
+
+/**
+ * Lay services out back to back from a start time
+ *
+ * Each service starts once the previous one and both buffers between them are
+ * over (its bufferAfter, then the next one's bufferBefore), so consecutive
+ * legs never overlap even with their buffers.
+ */
+export function planSequence(services: SequenceService[], start: Date): SequenceLeg[] {
+  const legs: SequenceLeg[] = [];
+  let legStart = new Date(start);
+
+  for (const [index, service] of services.entries()) {
+    if (index > 0) {
+      const gap = (services[index - 1].bufferAfter || 0) + (service.bufferBefore || 0);
+      legStart = new Date(legStart.getTime() + gap * 60 * 1000);
+    }
+
+    const legEnd = new Date(legStart.getTime() + service.duration * 60 * 1000);
+    legs.push({ index, serviceId: service.id, start: legStart, end: legEnd });
+    legStart = legEnd;
+  }
+
+  return legs;
+}
+
+/**
+ * Minutes from the start of the first service to the end of the last one
+ */
+export function getSequenceDuration(services: SequenceService[]): number {
+  if (services.length === 0) {
+    return 0;
+  }
+
+  const legs = planSequence(services, new Date(0));
+  return legs[legs.length - 1].end.getTime() / (60 * 1000);
+}
+
+/**
+ * Combine per-service slots into start times for the whole sequence
+ *
+ * @param slotsByLeg - Slots of each service, in sequence order. The first
+ *   service's slots give the candidate start times (display interval); later
+ *   services must have been generated on the 5-minute grain so the slot each
+ *   leg needs exists. A start time is dropped when a later leg has no slot at
+ *   its time (e.g. it would run past closing), like a single service is.
+ */
+export function combineSequenceSlots(services: SequenceService[], slotsByLeg: TimeSlot[][]): SequenceSlot[] {
+  if (services.length === 0 || slotsByLeg.length !== services.length) {
+    return [];
+  }
+
+  const slotIndex = slotsByLeg.map(slots => new Map(slots.map(slot => [new Date(slot.start).getTime(), slot])));
+  const sequenceSlots: SequenceSlot[] = [];
+
+  for (const first of slotsByLeg[0]) {
+    const legs = planSequence(services, new Date(first.start));
+    const legSlots = legs.map(leg => slotIndex[leg.index].get(leg.start.getTime()));
+
+    if (legSlots.some(slot => !slot)) {
+      continue;
+    }
+
+    const slots = legSlots as TimeSlot[];
+    const blocking = slots.find(slot => !slot.available);
+    const capacity = Math.min(...slots.map(slot => slot.capacity));
+
+    sequenceSlots.push({
+      start: first.start,
+      end: legs[legs.length - 1].end.toISOString(),
+      available: !blocking && capacity > 0,
+      capacity: blocking ? 0 : capacity,
+      totalCapacity: Math.min(...slots.map(slot => slot.totalCapacity)),
+      capacityPercentage: Math.max(...slots.map(slot => slot.capacityPercentage)),
+      reason: blocking?.reason,
+      legs: slots.map((slot, index) => ({
+        serviceId: services[index].id,
+        start: slot.start,
+        end: slot.end,
+        staffIds: slot.staffIds,
+        resourceIds: slot.resourceIds,
+      })),
+    });
+  }
+
+  return sequenceSlots;
+}
@@ -0,0 +1,463 @@
+import { DbClient } from '../../db/client';
+import { Appointment, AppointmentSeries } from '../../db/types';
+import { AppointmentManager } from './appointment-manager';
+import { ReservationManager } from './reservation-manager';
+import { CapacityPoolLimit } from './capacity-pools';
+import { ResourceRequirement } from './resources';
+import { validateBookingTime } from './validation';
+import {
+  generateSeriesOccurrences,
+  getSeriesShift,
+  shiftOccurrence,
+  RecurrenceRule,
+  SeriesOccurrence,
+} from './recurrence';
+import { TenantConfig } from '@/lib/config/tenant-schema';
+import { ExternalCalendarService } from '@/lib/calendar/external-calendar-service';
+
+/**
+ * Which occurrences an edit or cancellation applies to
+ * - this: only the chosen occurrence
+ * - following: the chosen occurrence and every later one
+ * - all: every occurrence that hasn't started yet
+ */
+export const SERIES_SCOPES = ['this', 'following', 'all'] as const;
+
+export type SeriesScope = (typeof SERIES_SCOPES)[number];
+
+/**
+ * Result of checking one occurrence against off-time and capacity
+ * code is the validateBookingTime code, or CAPACITY_FULL.
+ */
+export interface SeriesOccurrenceCheck extends SeriesOccurrence {
+  available: boolean;
+  code?: string;
+  error?: string;
+  appointmentId?: string;
+}
+
+/**
+ * What the checks need from the tenant config and the service row
+ */
+export interface SeriesBookingContext {
+  config: TenantConfig;
+  maxSimultaneousBookings: number; // YAML config capacity (single source of truth)
+  capacityPools?: CapacityPoolLimit[]; // Shared pools the service draws from (see resolveCapacityPools)
+  resources?: ResourceRequirement; // Rooms/equipment the service requires (see getServiceResources)
+  bufferBefore: number;
+  bufferAfter: number;
+}
+
+export interface CreateSeriesParams extends SeriesBookingContext {
+  businessId: string;
+  serviceId: string;
+  staffId?: string;
+  customerId: string;
+  firstStart: Date;
+  durationMinutes: number;
+  rule: RecurrenceRule;
+  actorId: string;
+  idempotencyKey: string;
+  skipConflicts?: boolean; // Book the available dates even if some are taken
+}
+
+export interface RescheduleSeriesParams extends SeriesBookingContext {
+  seriesId: string;
+  appointmentId: string;
+  scope: SeriesScope;
+  newStart: Date;
+  actorId: string;
+}
+
+export interface CancelSeriesParams {
+  seriesId: string;
+  appointmentId: string;
+  scope: SeriesScope;
+  actorId: string;
+}
+
+export interface SeriesChangeResult {
+  series: AppointmentSeries | null;
+  occurrences: SeriesOccurrenceCheck[];
+}
+
+interface PreviewParams extends SeriesBookingContext {
+  businessId: string;
+  serviceId: string;
+  staffId?: string;
+  firstStart: Date;
+  durationMinutes: number;
+  rule: RecurrenceRule;
+}
+
+/**
+ * Series Manager
+ *
+ * Recurring bookings made by the owner from the dashboard. Each occurrence is
+ * a regular appointment (series_id/series_index set) created and changed
+ * through AppointmentManager, so audit entries and webhooks are written per
+ * occurrence as usual.
+ *
+ * All occurrences are checked against off-time, external busy time and
+ * capacity before anything is written. Creating a series with unavailable
+ * dates only goes ahead when the owner asks to skip them; moving occurrences
+ * is all-or-nothing.
+ */
+export class SeriesManager {
+  private appointmentManager: AppointmentManager;
+  private reservationManager: ReservationManager;
+
+  constructor(private db: DbClient) {
+    this.appointmentManager = new AppointmentManager(db);
+    this.reservationManager = new ReservationManager(db);
+  }
+
+  /**
+   * Expand a rule and check every occurrence, without booking anything
+   */
+  async previewSeries(params: PreviewParams): Promise<SeriesOccurrenceCheck[]> {
+    const occurrences = generateSeriesOccurrences(
+      params.firstStart,
+      params.durationMinutes,
+      params.rule,
+      params.config.business.timezone
+    );
+
+    return this.checkOccurrences(params.businessId, params.serviceId, params.staffId, occurrences, params);
+  }
+
+  /**
+   * Create a series and book its occurrences
+   *
+   * If any occurrence is unavailable and skipConflicts isn't set, nothing is
+   * created and the checks are returned with series null. Retrying with the
+   * same idempotency key returns the series created the first time.
+   */
+  async createSeries(params: CreateSeriesParams): Promise<SeriesChangeResult> {
+    const [existing] = await this.db`
+      SELECT * FROM appointment_series
+      WHERE idempotency_key = ${params.idempotencyKey}
+      LIMIT 1
+    `;
+
+    if (existing) {
+      const appointments = await this.listOccurrences(existing.id);
+      return {
+        series: existing as AppointmentSeries,
+        occurrences: appointments.map(appointment => ({
+          ...this.toOccurrence(appointment),
+          available: true,
+          appointmentId: appointment.id,
+        })),
+      };
+    }
+
+    const checks = await this.previewSeries(params);
+    const available = checks.filter(check => check.available);
+
+    if (available.length === 0 || (available.length < checks.length && !params.skipConflicts)) {
+      return { series: null, occurrences: checks };
+    }
+
+    const [series] = await this.db`
+      INSERT INTO appointment_series (
+        business_id,
+        service_id,
+        staff_id,
+        customer_id,
+        interval_weeks,
+        occurrence_count,
+        until_date,
+        idempotency_key,
+        created_by
+      ) VALUES (
+        ${params.businessId},
+        ${params.serviceId},
+        ${params.staffId || null},
+        ${params.customerId},
+        ${params.rule.intervalWeeks},
+        ${params.rule.count ?? null},
+        ${params.rule.until ?? null},
+        ${params.idempotencyKey},
+        ${params.actorId}
+      )
+      RETURNING *
+    `;
+
+    for (const check of available) {
+      try {
+        const appointment = await this.appointmentManager.createManualAppointment({
+          businessId: params.businessId,
+          serviceId: params.serviceId,
+          slotStart: check.start,
+          slotEnd: check.end,
+          customerId: params.customerId,
+          idempotencyKey: `${params.idempotencyKey}:${check.index}`,
+          actorId: params.actorId,
+          maxSimultaneousBookings: params.maxSimultaneousBookings,
+          staffId: params.staffId,
+          capacityPools: params.capacityPools,
+          resources: params.resources,
+          seriesId: series.id,
+          seriesIndex: check.index,
+        });
+
+        check.appointmentId = appointment.id;
+      } catch (error) {
+        // Taken between the check and the insert - report it like any other conflict
+        check.available = false;
+        check.code = 'CAPACITY_FULL';
+        check.error = error instanceof Error ? error.message : 'No available capacity for this time slot';
+      }
+    }
+
+    return { series: series as AppointmentSeries, occurrences: checks };
+  }
+
+  async getSeries(seriesId: string): Promise<AppointmentSeries | null> {
+    const [series] = await this.db`
+      SELECT * FROM appointment_series WHERE id = ${seriesId}
+    `;
+
+    return (series as AppointmentSeries) || null;
+  }
+
+  /**
+   * Every occurrence of a series, including canceled ones, in date order
+   */
+  async listOccurrences(seriesId: string): Promise<Appointment[]> {
+    return await this.db`
+      SELECT * FROM appointments
+      WHERE series_id = ${seriesId}
+      ORDER BY slot_start ASC
+    ` as Appointment[];
+  }
+
+  /**
+   * Move occurrences by the same change as the chosen one
+   *
+   * The chosen occurrence goes to newStart; the others in scope move by the
+   * same number of days to the same time of day. If any target is
+   * unavailable, nothing is moved and the checks are returned.
+   */
+  async rescheduleOccurrences(params: RescheduleSeriesParams): Promise<SeriesChangeResult & { updated: boolean }> {
+    const series = await this.getSeries(params.seriesId);
+    if (!series) {
+      throw new Error('Series not found');
+    }
+
+    const anchor = await this.getAnchor(params.seriesId, params.appointmentId);
+    const targets = await this.selectTargets(anchor, params.scope);
+    const timezone = params.config.business.timezone;
+    const shift = getSeriesShift(new Date(anchor.slot_start!), params.newStart, timezone);
+
+    const moves = targets.map(appointment => ({
+      appointment,
+      previous: this.toOccurrence(appointment),
+      next: shiftOccurrence(this.toOccurrence(appointment), shift, timezone),
+    }));
+
+    const checks = await this.checkOccurrences(
+      series.business_id,
+      anchor.service_id,
+      anchor.staff_id ?? undefined,
+      moves.map(move => move.next),
+      params,
+      moves.map(move => move.previous)
+    );
+
+    if (checks.some(check => !check.available)) {
+      return { series, occurrences: checks, updated: false };
+    }
+
+    for (const [i, move] of moves.entries()) {
+      checks[i].appointmentId = move.appointment.id;
+
+      try {
+        await this.appointmentManager.updateAppointment({
+          appointmentId: move.appointment.id,
+          slotStart: move.next.start,
+          slotEnd: move.next.end,
+          actorId: params.actorId,
+          expectedVersion: move.appointment.version ?? 1,
+          maxSimultaneousBookings: params.maxSimultaneousBookings,
+          capacityPools: params.capacityPools,
+          resources: params.resources,
+        });
+      } catch (error) {
+        checks[i].available = false;
+        checks[i].code = 'CAPACITY_FULL';
+        checks[i].error = error instanceof Error ? error.message : 'Failed to move occurrence';
+      }
+    }
+
+    return { series, occurrences: checks, updated: true };
+  }
+
+  /**
+   * Cancel occurrences; the series itself is marked canceled once no
+   * upcoming occurrence is left
+   *
+   * @returns The occurrences that were canceled
+   */
+  async cancelOccurrences(params: CancelSeriesParams): Promise<SeriesChangeResult> {
+    const series = await this.getSeries(params.seriesId);
+    if (!series) {
+      throw new Error('Series not found');
+    }
+
+    const anchor = await this.getAnchor(params.seriesId, params.appointmentId);
+    const targets = await this.selectTargets(anchor, params.scope);
+    const canceled: SeriesOccurrenceCheck[] = [];
+
+    for (const appointment of targets) {
+      await this.appointmentManager.cancelAppointment(appointment.id, params.actorId);
+      canceled.push({ ...this.toOccurrence(appointment), available: true, appointmentId: appointment.id });
+    }
+
+    const [remaining] = await this.db`
+      SELECT COUNT(*)::int AS count
+      FROM appointments
+      WHERE series_id = ${params.seriesId}
+        AND deleted_at IS NULL
+        AND status = 'confirmed'
+        AND slot_start > NOW()
+    `;
+
+    if ((remaining?.count ?? 0) === 0) {
+      const [updated] = await this.db`
+        UPDATE appointment_series SET status = 'canceled'
+        WHERE id = ${params.seriesId}
+        RETURNING *
+      `;
+      return { series: updated as AppointmentSeries, occurrences: canceled };
+    }
+
+    return { series, occurrences: canceled };
+  }
+
+  /**
+   * Check occurrences against off-time, external busy time and capacity
+   *
+   * @param previous - Current slots of occurrences being moved, by position.
+   *   An occurrence overlapping its own current slot doesn't count against itself.
+   */
+  private async checkOccurrences(
+    businessId: string,
+    serviceId: string,
+    staffId: string | undefined,
+    occurrences: SeriesOccurrence[],
+    context: SeriesBookingContext,
+    previous: SeriesOccurrence[] = []
+  ): Promise<SeriesOccurrenceCheck[]> {
+    if (occurrences.length === 0) {
+      return [];
+    }
+
+    const { config, maxSimultaneousBookings, capacityPools, resources, bufferBefore, bufferAfter } = context;
+
+    // One query for the busy time of the whole series
+    const externalBusy = await new ExternalCalendarService(this.db).getBusyIntervals(
+      businessId,
+      new Date(occurrences[0].start.getTime() - bufferBefore * 60 * 1000),
+      new Date(occurrences[occurrences.length - 1].end.getTime() + bufferAfter * 60 * 1000)
+    );
+
+    const checks: SeriesOccurrenceCheck[] = [];
+
+    for (const [i, occurrence] of occurrences.entries()) {
+      const validation = validateBookingTime({
+        config,
+        slotStart: occurrence.start,
+        slotEnd: occurrence.end,
+        bufferBefore,
+        bufferAfter,
+        externalBusy,
+        skipAdvanceLimitCheck: true, // Owners can book far in advance
+      });
+
+      if (!validation.valid) {
+        checks.push({ ...occurrence, available: false, code: validation.code, error: validation.error });
+        continue;
+      }
+
+      let capacity = await this.reservationManager.getAvailableCapacity(
+        businessId,
+        serviceId,
+        occurrence.start,
+        occurrence.end,
+        maxSimultaneousBookings,
+        staffId,
+        capacityPools,
+        resources
+      );
+
+      const current = previous[i];
+      if (current && current.start < occurrence.end && current.end > occurrence.start) {
+        capacity += 1;
+      }
+
+      if (capacity < 1) {
+        checks.push({
+          ...occurrence,
+          available: false,
+          code: 'CAPACITY_FULL',
+          error: 'No available capacity for this time slot',
+        });
+        continue;
+      }
+
+      checks.push({ ...occurrence, available: true });
+    }
+
+    return checks;
+  }
+
+  private async getAnchor(seriesId: string, appointmentId: string): Promise<Appointment> {
+    const [appointment] = await this.db`
+      SELECT * FROM appointments
+      WHERE id = ${appointmentId}
+        AND series_id = ${seriesId}
+        AND deleted_at IS NULL
+    `;
+
+    if (!appointment) {
+      throw new Error('Appointment not found in this series');
+    }
+
+    if (appointment.status !== 'confirmed') {
+      throw new Error('Only confirmed occurrences can be changed');
+    }
+
+    return appointment as Appointment;
+  }
+
+  /**
+   * Confirmed occurrences a scope applies to, in date order
+   * Past occurrences are only touched when chosen explicitly with 'this'.
+   */
+  private async selectTargets(anchor: Appointment, scope: SeriesScope): Promise<Appointment[]> {
+    if (scope === 'this') {
+      return [anchor];
+    }
+
+    const from = scope === 'following' ? new Date(anchor.slot_start!) : new Date();
+
+    return await this.db`
+      SELECT * FROM appointments
+      WHERE series_id = ${anchor.series_id}
+        AND deleted_at IS NULL
+        AND status = 'confirmed'
+        AND slot_start >= ${from}
+      ORDER BY slot_start ASC
+    ` as Appointment[];
+  }
+
+  private toOccurrence(appointment: Appointment): SeriesOccurrence {
+    return {
+      index: appointment.series_index ?? 0,
+      start: new Date(appointment.slot_start!),
+      end: new Date(appointment.slot_end!),
+    };
+  }
+}
@@ -14,21 +14,38 @@
  * - Time slot duration (DISPLAY interval, also 5min multiple)
  * - Existing appointments
  * - Existing reservations (not expired)
- * - Buffer times (before/after service, 5min multiples)
+ * - Buffer times (before/after service, 5min multiples): a slot is blocked
+ *   while its buffered interval overlaps an existing booking's, so nothing
+ *   lands in another booking's setup or cleanup time
  * - Max simultaneous bookings (staff capacity)
  * - Off-time intervals (breaks, closed days, holidays) - Step 7f2
+ * - Busy time imported from the owner's external calendars
+ * - Per-staff calendars (when staff members are passed in, capacity is the
+ *   number of eligible staff who are working and free at that time)
+ * - Shared capacity pools (a slot never offers more than the fullest pool
+ *   the service draws from has left)
+ * - Required resources (a slot is only available while every allOf resource
+ *   and at least one oneOf resource is free)
+ *
+ * With rank set, each day's available slots are also scored by how well they
+ * pack the calendar (see slot-ranking.ts).
  */
 
 // Universal 5-minute grain block constant
 const GRAIN_MINUTES = 5;
 
-import { TenantConfig, Service } from '@/lib/config/tenant-schema';
+import { TenantConfig, Service, DailyAvailability } from '@/lib/config/tenant-schema';
 import {
   generateOffTimeIntervals,
   isTimeAvailable,
   getIntersectingOffTimes,
+  ExternalBusyTime,
   OffTimeInterval,
 } from './off-time-system';
+import { CapacityPoolUsage, getPoolAvailability } from './capacity-pools';
+import { ResourceAvailability, ResourceBooking, getResourceAvailability, getServiceResources } from './resources';
+import { getServiceOccupancy, getOccupiedInterval, occupancyOverlaps, OccupiedInterval } from './occupancy';
+import { getShortestServiceMinutes, rankDaySlots } from './slot-ranking';
 import { getStartOfDay, getEndOfDay, parseTime, getDayNameInTimezone } from '@/lib/utils/timezone';
 
 export interface TimeSlot {
@@ -39,6 +56,19 @@ export interface TimeSlot {
   totalCapacity: number; // Maximum capacity for this slot
   capacityPercentage: number; // % of capacity used (0-100)
   reason?: string; // If unavailable, why?
+  staffIds?: string[]; // Staff members free at this time (only when staff calendars are used)
+  resourceIds?: string[]; // Resources a booking would hold (only for services that require resources)
+  score?: number; // Calendar packing score (only when ranked)
+  recommended?: boolean; // One of the day's best slots (only when ranked)
+  createsGap?: boolean; // Leaves a hole too short for any service when another slot wouldn't (only when ranked)
+}
+
+/**
+ * A staff member who can perform the service being booked
+ */
+export interface StaffCalendar {
+  id: string;
+  weeklyHours: DailyAvailability[] | null; // null = same as business hours
 }
 
 export interface SlotGeneratorOptions {
@@ -46,17 +76,34 @@ export interface SlotGeneratorOptions {
   service: Service;
   startDate: Date;
   endDate: Date;
-  existingAppointments?: Array<{ slot_start: string; slot_end: string }>;
-  existingReservations?: Array<{ slot_start: string; slot_end: string; expires_at: string }>;
+  existingAppointments?: Array<Booking>;
+  existingReservations?: Array<Reservation>;
   timezone?: string; // Optional: if not provided, uses config.business.timezone
+  staff?: StaffCalendar[]; // Optional: eligible staff for this service
+  staffId?: string; // Optional: only consider this staff member
+  externalBusy?: ExternalBusyTime[]; // Optional: busy time from external calendars, blocks everyone
+  capacityPools?: CapacityPoolUsage[]; // Optional: shared pools the service draws from (see getCapacityPoolUsage)
+  resourceBookings?: ResourceBooking[]; // Optional: bookings holding the service's resources (see getResourceBookings)
+  rank?: boolean; // Optional: score slots by calendar packing (see slot-ranking.ts)
 }
 
-interface Reservation {
+interface Booking {
   slot_start: string;
   slot_end: string;
+  occupied_start?: string | null; // Slot plus the booked service's buffers (see occupancy.ts)
+  occupied_end?: string | null;
+  staff_id?: string | null;
+}
+
+interface Reservation extends Booking {
   expires_at: string;
 }
 
+interface StaffOffTime {
+  id: string;
+  offTimeIntervals: OffTimeInterval[];
+}
+
 /**
  * Generate available time slots for a given date range and service
  *
@@ -72,6 +119,12 @@ export function generateTimeSlots(options: SlotGeneratorOptions): TimeSlot[] {
     existingAppointments = [],
     existingReservations = [],
     timezone,
+    staff,
+    staffId,
+    externalBusy = [],
+    capacityPools = [],
+    resourceBookings = [],
+    rank = false,
   } = options;
 
   const slots: TimeSlot[] = [];
@@ -88,7 +141,30 @@ export function generateTimeSlots(options: SlotGeneratorOptions): TimeSlot[] {
   // Pre-compute all off-time intervals for the date range (Step 7f2)
   // This includes: breaks, closed days, holidays, and exceptions
   // IMPORTANT: Pass business timezone for correct day boundary calculations
-  const offTimeIntervals = generateOffTimeIntervals(config, startDate, endDate, businessTimezone);
+  const offTimeIntervals = generateOffTimeIntervals(config, startDate, endDate, businessTimezone, externalBusy);
+
+  // Per-staff off-time: each staff member's own weekly hours, plus business exceptions
+  // (holidays apply to everyone). Business off-time is still checked first.
+  let staffOffTimes: StaffOffTime[] | null = null;
+  if (staff) {
+    staffOffTimes = staff
+      .filter(member => !staffId || member.id === staffId)
+      .map(member => ({
+        id: member.id,
+        offTimeIntervals: member.weeklyHours
+          ? generateOffTimeIntervals(
+              { ...config, availability: member.weeklyHours },
+              startDate,
+              endDate,
+              businessTimezone,
+              externalBusy
+            )
+          : offTimeIntervals,
+      }));
+  }
+
+  // Free time shorter than this can never be booked, so ranking treats it as a gap
+  const shortestServiceMinutes = rank ? getShortestServiceMinutes(config) : null;
 
   // Iterate through each day in the range
   // IMPORTANT: Don't use setHours() here as it operates in server's local timezone
@@ -104,7 +180,11 @@ export function generateTimeSlots(options: SlotGeneratorOptions): TimeSlot[] {
       activeReservations,
       now,
       offTimeIntervals,
-      businessTimezone
+      businessTimezone,
+      staffOffTimes,
+      capacityPools,
+      resourceBookings,
+      shortestServiceMinutes
     );
     slots.push(...daySlots);
 
@@ -119,18 +199,25 @@ export function generateTimeSlots(options: SlotGeneratorOptions): TimeSlot[] {
  * Generate slots for a single day
  *
  * @param timezone - Business timezone for correct day boundary calculations
+ * @param shortestServiceMinutes - Rank the day's slots against this (null = don't rank)
  */
 function generateSlotsForDay(
   date: Date,
   config: TenantConfig,
   service: Service,
-  appointments: Array<{ slot_start: string; slot_end: string }>,
+  appointments: Array<Booking>,
   reservations: Array<Reservation>,
   now: Date,
   offTimeIntervals: OffTimeInterval[],
-  timezone: string
+  timezone: string,
+  staffOffTimes: StaffOffTime[] | null,
+  capacityPools: CapacityPoolUsage[],
+  resourceBookings: ResourceBooking[],
+  shortestServiceMinutes: number | null
 ): TimeSlot[] {
   const slots: TimeSlot[] = [];
+  const windows: OccupiedInterval[] = [];
+  const resources = getServiceResources(config, service.id);
 
   // Check if this day is available
   // CRITICAL: Use timezone-aware day name to ensure correct day in business timezone
@@ -175,10 +262,6 @@ function generateSlotsForDay(
   const minAdvanceTime = new Date(now);
   minAdvanceTime.setMinutes(minAdvanceTime.getMinutes() + config.bookingLimits.minAdvanceBookingMinutes);
 
-  // Account for buffer before/after service (already rounded to 5min by schema)
-  const bufferBefore = service.bufferBefore || 0;
-  const bufferAfter = service.bufferAfter || 0;
-
   // Iterate through each availability slot (supports breaks and split shifts)
   for (const availSlot of availabilitySlots) {
     // CRITICAL: Use timezone-aware parseTime instead of setHours()
@@ -186,6 +269,7 @@ function generateSlotsForDay(
     // This ensures 09:00 means 9 AM in the business's timezone, not the server's
     const slotOpen = parseTime(availSlot.open, date, timezone);
     const slotClose = parseTime(availSlot.close, date, timezone);
+    windows.push({ start: slotOpen, end: slotClose });
 
     // Generate slots at timeSlotDuration intervals (DISPLAY interval) within this availability slot
     let slotStart = new Date(slotOpen);
@@ -195,13 +279,8 @@ function generateSlotsForDay(
       const slotEnd = new Date(slotStart);
       slotEnd.setMinutes(slotEnd.getMinutes() + service.duration);
 
-      // Total occupied time includes buffers
-      const bufferEnd = new Date(slotEnd);
-      bufferEnd.setMinutes(bufferEnd.getMinutes() + bufferAfter);
-
-      // Effective start includes buffer before
-      const effectiveStart = new Date(slotStart);
-      effectiveStart.setMinutes(effectiveStart.getMinutes() - bufferBefore);
+      // Total occupied time includes buffers (already rounded to 5min by schema)
+      const { start: effectiveStart, end: bufferEnd } = getServiceOccupancy(service, slotStart, slotEnd);
 
       // Check if service can fit in remaining time of this availability slot
       // Note: We only check slotEnd (not bufferEnd) because buffers are for preventing
@@ -245,25 +324,49 @@ function generateSlotsForDay(
         continue;
       }
 
+      // Room left in the fullest shared pool, null when the service has none
+      const poolCapacity = getPoolAvailability(capacityPools, effectiveStart, bufferEnd);
+
+      // Free required resources, null when the service needs none
+      const resourceAvailability = getResourceAvailability(resources, resourceBookings, effectiveStart, bufferEnd);
+
+      if (staffOffTimes) {
+        const staffSlot = buildStaffSlot(
+          slotStart,
+          slotEnd,
+          effectiveStart,
+          bufferEnd,
+          staffOffTimes,
+          appointments,
+          reservations,
+          poolCapacity
+        );
+        slots.push(resourceAvailability ? applyResourceAvailability(staffSlot, resourceAvailability) : staffSlot);
+
+        slotStart.setMinutes(slotStart.getMinutes() + config.timeSlotDuration);
+        continue;
+      }
+
       // Calculate capacity using 5-minute grain blocks
       // This checks if any 5-min block in the service duration + buffers is occupied
       // Use per-service capacity if specified, otherwise fall back to business-level default
       const maxCapacity = service.maxSimultaneousBookings ?? config.bookingLimits.maxSimultaneousBookings;
 
-      const capacity = calculateSlotCapacity(
+      const serviceCapacity = calculateSlotCapacity(
         effectiveStart,
         bufferEnd,
         maxCapacity,
         appointments,
         reservations
       );
+      const capacity = poolCapacity === null ? serviceCapacity : Math.min(serviceCapacity, poolCapacity);
 
       const totalCapacity = maxCapacity;
       const availableCapacity = capacity;
       const usedCapacity = totalCapacity - availableCapacity;
       const capacityPercentage = totalCapacity > 0 ? Math.round((usedCapacity / totalCapacity) * 100) : 0;
 
-      slots.push({
+      const slot: TimeSlot = {
         start: slotStart.toISOString(),
         end: slotEnd.toISOString(),
         available: capacity > 0,
@@ -271,7 +374,8 @@ function generateSlotsForDay(
         totalCapacity,
         capacityPercentage,
         reason: capacity === 0 ? 'Fully booked' : undefined,
-      });
+      };
+      slots.push(resourceAvailability ? applyResourceAvailability(slot, resourceAvailability) : slot);
 
       // Move to next slot using timeSlotDuration (DISPLAY interval, e.g., 30min)
       // This means a 45min service will be checked at 9:00, 9:30, 10:00, etc.
@@ -279,7 +383,22 @@ function generateSlotsForDay(
     }
   }
 
-  return slots;
+  if (shortestServiceMinutes === null) {
+    return slots;
+  }
+
+  const recommendations = config.slotRecommendations;
+  return rankDaySlots(slots, {
+    windows,
+    busy: [...appointments, ...reservations].map(getOccupiedInterval),
+    preferred: recommendations.preferredTimes
+      .filter(p => !p.days || p.days.includes(dayOfWeek))
+      .map(p => ({ start: parseTime(p.start, date, timezone), end: parseTime(p.end, date, timezone) })),
+    bufferBefore: service.bufferBefore || 0,
+    bufferAfter: service.bufferAfter || 0,
+    shortestServiceMinutes,
+    maxRecommended: recommendations.maxRecommended,
+  });
 }
 
 /**
@@ -299,30 +418,22 @@ function calculateSlotCapacity(
   slotStart: Date,
   slotEnd: Date,
   maxCapacity: number,
-  appointments: Array<{ slot_start: string; slot_end: string }>,
+  appointments: Array<Booking>,
   reservations: Array<Reservation>
 ): number {
   let usedCapacity = 0;
 
-  // Check appointments that overlap with this slot
+  // Check appointments whose occupied time (slot plus buffers) overlaps with this slot
   // Overlap check: two intervals [A1, A2) and [B1, B2) overlap if A1 < B2 AND B1 < A2
   for (const apt of appointments) {
-    const aptStart = new Date(apt.slot_start);
-    const aptEnd = new Date(apt.slot_end);
-
-    // Check for overlap (works for any duration, aligned to 5min blocks)
-    if (aptStart < slotEnd && aptEnd > slotStart) {
+    if (occupancyOverlaps(apt, { start: slotStart, end: slotEnd })) {
       usedCapacity++;
     }
   }
 
   // Check active reservations that overlap with this slot
   for (const res of reservations) {
-    const resStart = new Date(res.slot_start);
-    const resEnd = new Date(res.slot_end);
-
-    // Check for overlap
-    if (resStart < slotEnd && resEnd > slotStart) {
+    if (occupancyOverlaps(res, { start: slotStart, end: slotEnd })) {
       usedCapacity++;
     }
   }
@@ -330,6 +441,115 @@ function calculateSlotCapacity(
   return Math.max(0, maxCapacity - usedCapacity);
 }
 
+/**
+ * Check whether a staff member is working for the whole service time
+ *
+ * Uses the staff member's own weekly hours (or business hours if none are set)
+ * together with the business exceptions, so holidays apply to everyone.
+ */
+export function isStaffWorking(
+  config: TenantConfig,
+  staff: StaffCalendar,
+  slotStart: Date,
+  slotEnd: Date,
+  timezone?: string
+): boolean {
+  const staffConfig = staff.weeklyHours ? { ...config, availability: staff.weeklyHours } : config;
+  const offTimeIntervals = generateOffTimeIntervals(
+    staffConfig,
+    slotStart,
+    slotEnd,
+    timezone || config.business.timezone
+  );
+
+  return isTimeAvailable(slotStart, slotEnd, offTimeIntervals);
+}
+
+/**
+ * Build a slot from per-staff calendars
+ *
+ * A staff member is free if the service time falls inside their own hours and
+ * none of their bookings overlap the slot (including buffers). A booking only
+ * holds the staff member it is assigned to; bookings without one don't hold
+ * anybody, the same rule the reservation check and capacity triggers apply.
+ * A full shared pool makes the slot unavailable whoever is free.
+ *
+ * @param slotStart - Service start
+ * @param slotEnd - Service end
+ * @param effectiveStart - Service start minus buffer before
+ * @param bufferEnd - Service end plus buffer after
+ * @param poolCapacity - Room left in the fullest shared pool (null = no pools)
+ */
+function buildStaffSlot(
+  slotStart: Date,
+  slotEnd: Date,
+  effectiveStart: Date,
+  bufferEnd: Date,
+  staffOffTimes: StaffOffTime[],
+  appointments: Array<Booking>,
+  reservations: Array<Reservation>,
+  poolCapacity: number | null
+): TimeSlot {
+  const overlapping = [...appointments, ...reservations].filter(booking =>
+    occupancyOverlaps(booking, { start: effectiveStart, end: bufferEnd })
+  );
+
+  const busyStaffIds = new Set(
+    overlapping.filter(booking => booking.staff_id).map(booking => booking.staff_id as string)
+  );
+
+  const workingStaff = staffOffTimes.filter(member =>
+    isTimeAvailable(slotStart, slotEnd, member.offTimeIntervals)
+  );
+  const freeStaffIds = workingStaff
+    .filter(member => !busyStaffIds.has(member.id))
+    .map(member => member.id);
+
+  const totalCapacity = workingStaff.length;
+  const capacity = poolCapacity === null ? freeStaffIds.length : Math.min(freeStaffIds.length, poolCapacity);
+  const usedCapacity = totalCapacity - capacity;
+  const capacityPercentage = totalCapacity > 0 ? Math.round((usedCapacity / totalCapacity) * 100) : 100;
+
+  let reason: string | undefined;
+  if (totalCapacity === 0) {
+    reason = 'No staff available';
+  } else if (capacity === 0) {
+    reason = 'Fully booked';
+  }
+
+  return {
+    start: slotStart.toISOString(),
+    end: slotEnd.toISOString(),
+    available: capacity > 0,
+    capacity,
+    totalCapacity,
+    capacityPercentage,
+    reason,
+    staffIds: capacity > 0 ? freeStaffIds : [],
+  };
+}
+
+/**
+ * Cap a slot by the free resources the service requires
+ *
+ * A slot that is otherwise open but has no free resource option is reported
+ * as 'Resource unavailable', so owners can tell a busy room from a full service.
+ */
+function applyResourceAvailability(slot: TimeSlot, resources: ResourceAvailability): TimeSlot {
+  const capacity = Math.min(slot.capacity, resources.capacity);
+  const usedCapacity = slot.totalCapacity - capacity;
+
+  return {
+    ...slot,
+    available: capacity > 0,
+    capacity,
+    capacityPercentage: slot.totalCapacity > 0 ? Math.round((usedCapacity / slot.totalCapacity) * 100) : 100,
+    reason: slot.capacity > 0 && capacity === 0 ? 'Resource unavailable' : slot.reason,
+    staffIds: slot.staffIds && capacity === 0 ? [] : slot.staffIds,
+    resourceIds: capacity > 0 ? resources.resourceIds : [],
+  };
+}
+
 /**
  * Get day of week name from date
  */
@@ -392,4 +612,5 @@ export {
   isTimeAvailable,
   getIntersectingOffTimes,
   type OffTimeInterval,
+  type ExternalBusyTime,
 } from './off-time-system';
@@ -0,0 +1,170 @@
+import { TenantConfig } from '@/lib/config/tenant-schema';
+import type { TimeSlot } from './slot-generator';
+import { OccupiedInterval } from './occupancy';
+
+// Score weights: packing next to a booking beats packing against opening or
+// closing time, and a hole nobody can book costs more than either earns
+const ADJACENT_BOOKING_SCORE = 2;
+const ADJACENT_EDGE_SCORE = 1;
+const PREFERRED_TIME_SCORE = 2;
+const DEAD_GAP_PENALTY = 3;
+
+/**
+ * What ranking needs to know about one day
+ */
+export interface SlotRankingContext {
+  windows: OccupiedInterval[]; // Opening hours (availability slots) the day's slots fall in
+  busy: OccupiedInterval[]; // Occupied intervals of existing bookings and reservations
+  preferred: OccupiedInterval[]; // The tenant's preferred times on that day
+  bufferBefore: number; // Buffers of the service being booked
+  bufferAfter: number;
+  shortestServiceMinutes: number; // See getShortestServiceMinutes
+  maxRecommended: number;
+}
+
+/**
+ * Nearest thing a slot would sit against on one side
+ */
+interface Neighbour {
+  gapMinutes: number;
+  edge: number; // Time of the neighbouring edge (ms), shared by every slot in the same free stretch
+  booking: boolean; // A booking, rather than opening or closing time
+}
+
+/**
+ * Shortest time any enabled service occupies, buffers included
+ *
+ * A free stretch shorter than this can never be booked.
+ */
+export function getShortestServiceMinutes(config: TenantConfig): number {
+  const lengths = config.categories
+    .flatMap(category => category.services)
+    .filter(service => service.enabled)
+    .map(service => (service.bufferBefore || 0) + service.duration + (service.bufferAfter || 0));
+
+  return lengths.length > 0 ? Math.min(...lengths) : 0;
+}
+
+function minutesBetween(from: number, to: number): number {
+  return (to - from) / (60 * 1000);
+}
+
+/**
+ * The closest booking or opening edge before and after a slot
+ *
+ * Bookings are compared on occupied intervals, opening hours on the service
+ * time (buffers may run outside opening hours, as in slot generation).
+ * Bookings overlapping the slot (capacity above one) are not neighbours.
+ */
+function findNeighbours(
+  slotStart: Date,
+  slotEnd: Date,
+  window: OccupiedInterval,
+  busy: OccupiedInterval[],
+  bufferBefore: number,
+  bufferAfter: number
+): { before: Neighbour; after: Neighbour } {
+  const occupiedStart = slotStart.getTime() - bufferBefore * 60 * 1000;
+  const occupiedEnd = slotEnd.getTime() + bufferAfter * 60 * 1000;
+
+  let before: Neighbour = {
+    gapMinutes: Math.max(0, minutesBetween(window.start.getTime(), slotStart.getTime())),
+    edge: window.start.getTime(),
+    booking: false,
+  };
+  let after: Neighbour = {
+    gapMinutes: Math.max(0, minutesBetween(slotEnd.getTime(), window.end.getTime())),
+    edge: window.end.getTime(),
+    booking: false,
+  };
+
+  for (const interval of busy) {
+    const end = interval.end.getTime();
+    const start = interval.start.getTime();
+
+    if (end <= occupiedStart && minutesBetween(end, occupiedStart) <= before.gapMinutes) {
+      before = { gapMinutes: minutesBetween(end, occupiedStart), edge: end, booking: true };
+    }
+
+    if (start >= occupiedEnd && minutesBetween(occupiedEnd, start) <= after.gapMinutes) {
+      after = { gapMinutes: minutesBetween(occupiedEnd, start), edge: start, booking: true };
+    }
+  }
+
+  return { before, after };
+}
+
+/**
+ * Score a day's slots by how well they pack the calendar
+ *
+ * Each available slot earns points for sitting right against a booking or
+ * opening/closing time and for starting inside a preferred time, and loses
+ * points for every hole it leaves that is too short for any service. A slot
+ * createsGap when it leaves such a hole and another slot in the same free
+ * stretch would not (unavoidable holes are never flagged, so hiding gap
+ * slots can't hide the last way into a stretch). The best maxRecommended
+ * slots that don't create a gap are recommended.
+ *
+ * Slots keep their order; unavailable slots are returned unchanged.
+ */
+export function rankDaySlots(slots: TimeSlot[], context: SlotRankingContext): TimeSlot[] {
+  const { windows, busy, preferred, bufferBefore, bufferAfter, shortestServiceMinutes, maxRecommended } = context;
+  const isDeadGap = (gap: number) => gap > 0 && gap < shortestServiceMinutes;
+
+  const ranked = slots.map(slot => {
+    const slotStart = new Date(slot.start);
+    const window = windows.find(w => w.start <= slotStart && slotStart < w.end);
+
+    if (!slot.available || !window) {
+      return { slot };
+    }
+
+    const { before, after } = findNeighbours(slotStart, new Date(slot.end), window, busy, bufferBefore, bufferAfter);
+
+    let score = 0;
+    for (const side of [before, after]) {
+      if (side.gapMinutes === 0) {
+        score += side.booking ? ADJACENT_BOOKING_SCORE : ADJACENT_EDGE_SCORE;
+      } else if (isDeadGap(side.gapMinutes)) {
+        score -= DEAD_GAP_PENALTY;
+      }
+    }
+
+    if (preferred.some(p => p.start <= slotStart && slotStart < p.end)) {
+      score += PREFERRED_TIME_SCORE;
+    }
+
+    return {
+      slot,
+      score,
+      stretch: `${before.edge}-${after.edge}`,
+      deadGap: isDeadGap(before.gapMinutes) || isDeadGap(after.gapMinutes),
+    };
+  });
+
+  // Free stretches with at least one slot that leaves no unusable hole
+  const cleanStretches = new Set(
+    ranked.filter(entry => entry.score !== undefined && !entry.deadGap).map(entry => entry.stretch)
+  );
+
+  const recommended = new Set(
+    ranked
+      .filter(entry => entry.score !== undefined && entry.score > 0 && !entry.deadGap)
+      .sort((a, b) => b.score! - a.score! || a.slot.start.localeCompare(b.slot.start))
+      .slice(0, maxRecommended)
+      .map(entry => entry.slot)
+  );
+
+  return ranked.map(entry => {
+    if (entry.score === undefined) {
+      return entry.slot;
+    }
+
+    return {
+      ...entry.slot,
+      score: entry.score,
+      recommended: recommended.has(entry.slot),
+      createsGap: entry.deadGap && cleanStretches.has(entry.stretch!),
+    };
+  });
+}
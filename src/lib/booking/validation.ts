@@ -7,7 +7,7 @@
  * - Owner reschedule API (/api/appointments/reschedule)
  *
  * Enforces:
- * 1. Off-time validation (breaks, closed days, holidays) - Step 7f2
+ * 1. Off-time validation (breaks, closed days, holidays, external busy time) - Step 7f2
  * 2. Buffer time validation - Step 7f
  * 3. Business hours validation
  * 4. Advance booking limits
@@ -19,6 +19,7 @@ import {
   generateOffTimeIntervals,
   isTimeAvailable,
   getIntersectingOffTimes,
+  ExternalBusyTime,
 } from './off-time-system';
 
 export interface BookingValidationParams {
@@ -29,6 +30,7 @@ export interface BookingValidationParams {
   bufferAfter: number;
   skipAdvanceLimitCheck?: boolean; // Set to true for owner manual appointments
   skipPastTimeCheck?: boolean; // Set to true for very specific use cases (default false)
+  externalBusy?: ExternalBusyTime[]; // Busy time from the business's external calendars
 }
 
 export interface BookingValidationResult {
@@ -57,6 +59,7 @@ export function validateBookingTime(
     bufferAfter,
     skipAdvanceLimitCheck = false,
     skipPastTimeCheck = false,
+    externalBusy = [],
   } = params;
 
   const now = new Date();
@@ -122,11 +125,13 @@ export function validateBookingTime(
   // - Closed days (availability.enabled = false)
   // - Holidays (availabilityExceptions with closed = true)
   // - Time outside business hours (before first slot, after last slot)
+  // - Busy time imported from external calendars
   const offTimes = generateOffTimeIntervals(
     config,
     slotStart,
     slotEnd,
-    config.business.timezone
+    config.business.timezone,
+    externalBusy
   );
 
   // 5. Check if effective time (including buffers) conflicts with off-time
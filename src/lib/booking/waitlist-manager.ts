@@ -0,0 +1,371 @@
+import { DbClient } from '../../db/client';
+import { WaitlistEntry } from '../../db/types';
+import { ReservationManager } from './reservation-manager';
+import { resolveCapacityPools } from './capacity-pools';
+import { getServiceResources } from './resources';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { generateWaitlistOfferToken, hashToken } from '@/lib/auth/tokens';
+import { createEmailService } from '@/lib/email/email-service';
+import { renderWaitlistOffer, getEmailSubject } from '@/lib/email/templates';
+import { env } from '@/lib/env';
+
+// How long a freed slot is held for the person it is offered to
+export const WAITLIST_OFFER_TTL_MINUTES = 30;
+
+export interface JoinWaitlistParams {
+  businessId: string;
+  serviceId: string; // Database UUID
+  staffId?: string;
+  customerId?: string;
+  email: string;
+  name: string;
+  phone?: string;
+  rangeStart: Date;
+  rangeEnd: Date;
+}
+
+export interface FreedSlot {
+  businessId: string;
+  serviceId: string;
+  staffId?: string | null;
+  slotStart: Date;
+  slotEnd: Date;
+}
+
+export interface WaitlistOffer extends WaitlistEntry {
+  business_name: string;
+  business_subdomain: string;
+  business_timezone: string;
+  service_name: string;
+}
+
+/**
+ * Waitlist Manager
+ *
+ * Queue of customers waiting for a fully booked service (features.enableWaitlist).
+ *
+ * When a booking is canceled, the freed slot is offered to the first waiting
+ * entry whose window covers it. The offer is a regular reservation with a longer
+ * TTL, so the slot stays out of public availability while the customer decides,
+ * and claiming it goes through the normal reservation commit.
+ *
+ * Unclaimed offers are expired by the waitlist cron, which passes the slot on
+ * to the next person in line.
+ */
+export class WaitlistManager {
+  constructor(private db: DbClient) {}
+
+  /**
+   * Add a customer to the waitlist
+   * Joining twice for the same service and window returns the existing entry.
+   */
+  async joinWaitlist(params: JoinWaitlistParams): Promise<WaitlistEntry> {
+    const email = params.email.toLowerCase();
+
+    const [existing] = await this.db`
+      SELECT * FROM waitlist_entries
+      WHERE business_id = ${params.businessId}
+        AND service_id = ${params.serviceId}
+        AND email = ${email}
+        AND range_start = ${params.rangeStart}
+        AND range_end = ${params.rangeEnd}
+        AND status IN ('waiting', 'offered')
+      LIMIT 1
+    `;
+
+    if (existing) {
+      return existing as WaitlistEntry;
+    }
+
+    const [entry] = await this.db`
+      INSERT INTO waitlist_entries (
+        business_id,
+        service_id,
+        staff_id,
+        customer_id,
+        email,
+        name,
+        phone,
+        range_start,
+        range_end
+      ) VALUES (
+        ${params.businessId},
+        ${params.serviceId},
+        ${params.staffId || null},
+        ${params.customerId || null},
+        ${email},
+        ${params.name},
+        ${params.phone || null},
+        ${params.rangeStart},
+        ${params.rangeEnd}
+      )
+      RETURNING *
+    `;
+
+    return entry as WaitlistEntry;
+  }
+
+  /**
+   * Offer a freed slot to the first waiting customer whose window covers it
+   *
+   * Safe to call after any cancellation: returns null without doing anything if
+   * the tenant has the waitlist disabled, nobody is waiting, the slot is in the
+   * past, or the slot was already taken again.
+   */
+  async offerFreedSlot(slot: FreedSlot): Promise<WaitlistEntry | null> {
+    if (slot.slotStart.getTime() <= Date.now()) {
+      return null;
+    }
+
+    const configResult = await loadConfigByBusinessId(slot.businessId);
+
+    if (!configResult.success || !configResult.config?.features.enableWaitlist) {
+      return null;
+    }
+
+    const config = configResult.config;
+
+    const candidates = await this.db`
+      SELECT * FROM waitlist_entries
+      WHERE business_id = ${slot.businessId}
+        AND service_id = ${slot.serviceId}
+        AND status = 'waiting'
+        AND range_start <= ${slot.slotStart}
+        AND range_end >= ${slot.slotEnd}
+        ${slot.staffId
+          ? this.db`AND (staff_id IS NULL OR staff_id = ${slot.staffId})`
+          : this.db`AND staff_id IS NULL`}
+      ORDER BY created_at ASC
+      LIMIT 10
+    ` as WaitlistEntry[];
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    // Capacity comes from YAML config (same source as the public reserve route)
+    const [service] = await this.db`
+      SELECT external_id FROM services
+      WHERE id = ${slot.serviceId}
+      LIMIT 1
+    `;
+
+    const serviceConfig = config.categories
+      .flatMap(category => category.services)
+      .find(s => s.id === service?.external_id);
+
+    const maxSimultaneousBookings = serviceConfig?.maxSimultaneousBookings ?? config.bookingLimits.maxSimultaneousBookings;
+    const capacityPools = serviceConfig
+      ? await resolveCapacityPools(this.db, config, slot.businessId, serviceConfig.id)
+      : [];
+    const resources = serviceConfig ? getServiceResources(config, serviceConfig.id) : undefined;
+    const reservationManager = new ReservationManager(this.db);
+
+    for (const candidate of candidates) {
+      let reservation;
+
+      try {
+        reservation = await reservationManager.createReservation({
+          businessId: slot.businessId,
+          serviceId: slot.serviceId,
+          slotStart: slot.slotStart,
+          slotEnd: slot.slotEnd,
+          idempotencyKey: `waitlist:${candidate.id}:${slot.slotStart.toISOString()}`,
+          ttlMinutes: WAITLIST_OFFER_TTL_MINUTES,
+          maxSimultaneousBookings,
+          staffId: slot.staffId || undefined,
+          capacityPools,
+          resources,
+        });
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('no longer available')) {
+          // Someone booked the slot before we could hold it
+          return null;
+        }
+        throw error;
+      }
+
+      const offerToken = generateWaitlistOfferToken();
+
+      // Only take the entry if it is still waiting (another cancellation may have offered it a slot)
+      const [offered] = await this.db`
+        UPDATE waitlist_entries
+        SET status = 'offered',
+            reservation_id = ${reservation.id},
+            offer_slot_start = ${slot.slotStart},
+            offer_slot_end = ${slot.slotEnd},
+            offer_staff_id = ${slot.staffId || null},
+            offer_token_hash = ${hashToken(offerToken)},
+            offer_expires_at = ${reservation.expires_at}
+        WHERE id = ${candidate.id}
+          AND status = 'waiting'
+        RETURNING *
+      `;
+
+      if (!offered) {
+        await reservationManager.deleteReservation(reservation.id);
+        continue;
+      }
+
+      await this.sendOfferEmail(offered as WaitlistEntry, offerToken, config.business.timezone);
+
+      return offered as WaitlistEntry;
+    }
+
+    return null;
+  }
+
+  /**
+   * Look up a pending offer by its plain token
+   */
+  async findOffer(offerToken: string): Promise<WaitlistOffer | null> {
+    const [offer] = await this.db`
+      SELECT
+        w.*,
+        b.name as business_name,
+        b.subdomain as business_subdomain,
+        b.timezone as business_timezone,
+        s.name as service_name
+      FROM waitlist_entries w
+      JOIN businesses b ON b.id = w.business_id
+      JOIN services s ON s.id = w.service_id
+      WHERE w.offer_token_hash = ${hashToken(offerToken)}
+        AND w.status = 'offered'
+        AND w.offer_expires_at > NOW()
+        AND b.deleted_at IS NULL
+      LIMIT 1
+    `;
+
+    return (offer as WaitlistOffer) || null;
+  }
+
+  /**
+   * Keep an offer open as long as its reservation, which a deposit payment extends
+   */
+  async holdOfferWithReservation(entryId: string): Promise<void> {
+    await this.db`
+      UPDATE waitlist_entries w
+      SET offer_expires_at = r.expires_at
+      FROM reservations r
+      WHERE w.id = ${entryId}
+        AND w.status = 'offered'
+        AND r.id = w.reservation_id
+        AND r.expires_at > w.offer_expires_at
+    `;
+  }
+
+  /**
+   * Record that an offer was claimed and turned into an appointment
+   */
+  async markBooked(entryId: string, appointmentId: string): Promise<void> {
+    await this.db`
+      UPDATE waitlist_entries
+      SET status = 'booked',
+          appointment_id = ${appointmentId},
+          reservation_id = NULL,
+          offer_token_hash = NULL
+      WHERE id = ${entryId}
+    `;
+  }
+
+  /**
+   * Expire offers that were not claimed in time and pass each slot to the next person
+   * Should be called periodically by the waitlist cron
+   *
+   * @returns Number of offers expired
+   */
+  async expireOffers(): Promise<number> {
+    const expired = await this.db`
+      UPDATE waitlist_entries
+      SET status = 'expired',
+          offer_token_hash = NULL
+      WHERE status = 'offered'
+        AND offer_expires_at <= NOW()
+      RETURNING *
+    ` as WaitlistEntry[];
+
+    for (const entry of expired) {
+      try {
+        await this.releaseOffer(entry);
+      } catch (error) {
+        console.error('[Waitlist] Failed to pass expired offer on for entry', entry.id, error);
+      }
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Drop the hold for an entry's offer and offer the slot to the next person
+   */
+  private async releaseOffer(entry: WaitlistEntry): Promise<void> {
+    if (entry.reservation_id) {
+      await new ReservationManager(this.db).deleteReservation(entry.reservation_id);
+    }
+
+    if (!entry.offer_slot_start || !entry.offer_slot_end) {
+      return;
+    }
+
+    await this.offerFreedSlot({
+      businessId: entry.business_id,
+      serviceId: entry.service_id,
+      staffId: entry.offer_staff_id,
+      slotStart: new Date(entry.offer_slot_start),
+      slotEnd: new Date(entry.offer_slot_end),
+    });
+  }
+
+  /**
+   * Email the claim link for an offer
+   * Failures are logged but don't undo the hold - it simply expires unclaimed.
+   */
+  private async sendOfferEmail(entry: WaitlistEntry, offerToken: string, timezone: string): Promise<void> {
+    try {
+      const [context] = await this.db`
+        SELECT b.name as business_name, s.name as service_name
+        FROM businesses b
+        JOIN services s ON s.id = ${entry.service_id}
+        WHERE b.id = ${entry.business_id}
+      `;
+
+      const slotStart = new Date(entry.offer_slot_start!);
+      const slotEnd = new Date(entry.offer_slot_end!);
+      const timeFormat = new Intl.DateTimeFormat('en-US', {
+        hour: 'numeric',
+        minute: '2-digit',
+        hour12: true,
+        timeZone: timezone,
+      });
+
+      const emailHtml = await renderWaitlistOffer({
+        customerName: entry.name,
+        businessName: context.business_name,
+        serviceName: context.service_name,
+        appointmentDate: new Intl.DateTimeFormat('en-US', {
+          weekday: 'long',
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric',
+          timeZone: timezone,
+        }).format(slotStart),
+        appointmentTime: `${timeFormat.format(slotStart)} - ${timeFormat.format(slotEnd)}`,
+        claimUrl: `${env.NEXT_PUBLIC_APP_URL}/book/waitlist?token=${offerToken}`,
+        expiryMinutes: WAITLIST_OFFER_TTL_MINUTES,
+      });
+
+      const result = await createEmailService(this.db).sendEmail({
+        to: entry.email,
+        subject: getEmailSubject('waitlist_offer', context.business_name),
+        html: emailHtml,
+        templateName: 'waitlist_offer',
+      });
+
+      if (!result.success) {
+        console.error('[Waitlist] Failed to send offer email for entry', entry.id, result.error);
+      }
+    } catch (error) {
+      console.error('[Waitlist] Failed to send offer email for entry', entry.id, error);
+    }
+  }
+}
@@ -6,6 +6,7 @@ import {
   getIntersectingOffTimes,
   type OffTimeInterval,
 } from '@/lib/booking/off-time-system';
+import { occupancyOverlaps } from '@/lib/booking/occupancy';
 
 export type CalendarView = 'month' | 'week' | 'day' | 'list';
 
@@ -370,6 +371,7 @@ export function snapToGrain(time: Date): Date {
  * Check if drag-and-drop reschedule is valid
  * Automatically snaps to 5-minute grain blocks
  * Validates against off-time intervals (Step 7f2)
+ * Conflicts include other appointments' setup and cleanup buffers
  */
 export function validateReschedule(
   appointment: Appointment,
@@ -412,15 +414,26 @@ export function validateReschedule(
   }
 
   // Check for conflicts (using 5min grain block overlap detection)
+  // Both sides are occupied intervals: the moved appointment with its buffers
+  // against each other appointment with the buffers it was booked with
+  const occupied = {
+    start: new Date(snappedStart.getTime() - bufferBefore * 60 * 1000),
+    end: new Date(newEndTime.getTime() + bufferAfter * 60 * 1000),
+  };
+
   const conflicts = existingAppointments.filter((apt) => {
     if (apt.id === appointment.id) return false; // Exclude current appointment
     if (apt.status === 'cancelled') return false;
 
-    const aptStart = new Date(apt.start_time);
-    const aptEnd = new Date(apt.end_time);
-
-    // Overlap check: two intervals overlap if start1 < end2 AND start2 < end1
-    return snappedStart < aptEnd && newEndTime > aptStart;
+    return occupancyOverlaps(
+      {
+        slot_start: apt.start_time,
+        slot_end: apt.end_time,
+        occupied_start: apt.occupied_start,
+        occupied_end: apt.occupied_end,
+      },
+      occupied
+    );
   });
 
   if (conflicts.length >= maxSimultaneous) {
@@ -0,0 +1,73 @@
+import {
+  buildIcsCalendar,
+  getAppointmentEventUid,
+  IcsEvent,
+  toIcsEventStatus,
+} from './ics';
+
+/**
+ * Appointment fields needed for a calendar event
+ */
+export interface AppointmentIcsDetails {
+  id: string;
+  bookingId: string;
+  serviceName: string;
+  businessName: string;
+  start: Date | string;
+  end: Date | string;
+  status: string;
+  customerName?: string | null;
+  staffName?: string | null;
+  notes?: string | null;
+  location?: string;
+  // Link to manage the booking (customer events) or the dashboard (business events)
+  url?: string;
+  version?: number;
+  updatedAt?: Date | string | null;
+}
+
+/**
+ * Calendar event of an appointment
+ *
+ * The customer sees the service at the business; the business sees the service
+ * with the customer's name, as in its own appointment list.
+ */
+export function appointmentToIcsEvent(
+  appointment: AppointmentIcsDetails,
+  audience: 'customer' | 'business'
+): IcsEvent {
+  const summary = audience === 'customer'
+    ? `${appointment.serviceName} at ${appointment.businessName}`
+    : [appointment.serviceName, appointment.customerName].filter(Boolean).join(' - ');
+
+  const description = [
+    `Booking ID: ${appointment.bookingId}`,
+    appointment.staffName && `With: ${appointment.staffName}`,
+    appointment.notes && `Notes: ${appointment.notes}`,
+  ].filter(Boolean).join('\n');
+
+  return {
+    uid: getAppointmentEventUid(appointment.id),
+    start: new Date(appointment.start),
+    end: new Date(appointment.end),
+    summary,
+    description,
+    location: appointment.location,
+    url: appointment.url,
+    status: toIcsEventStatus(appointment.status),
+    sequence: appointment.version,
+    lastModified: appointment.updatedAt ? new Date(appointment.updatedAt) : undefined,
+  };
+}
+
+/**
+ * .ics file with a single appointment, for email attachments and downloads
+ *
+ * @param timezone - IANA timezone of the business
+ */
+export function buildAppointmentIcs(appointment: AppointmentIcsDetails, timezone: string): string {
+  return buildIcsCalendar({
+    timezone,
+    events: [appointmentToIcsEvent(appointment, 'customer')],
+  });
+}
@@ -0,0 +1,20 @@
+import { buildAppointmentIcs, AppointmentIcsDetails } from './appointments';
+import { getAppointmentIcsFilename } from './ics';
+
+/**
+ * Download an appointment as an .ics file (browser only)
+ * Opening the file adds the event to the device's default calendar app.
+ */
+export function downloadAppointmentIcs(appointment: AppointmentIcsDetails, timezone: string): void {
+  const ics = buildAppointmentIcs(appointment, timezone);
+  const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getAppointmentIcsFilename(appointment.bookingId);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,337 @@
+import { z } from 'zod';
+import { DbClient } from '@/db/client';
+import { ExternalCalendar } from '@/db/types';
+import { isPrivateHostname, resolvesToPrivateAddress } from '@/lib/webhooks/private-address';
+import { parseIcsBusyEvents } from './ics-parser';
+
+export const MAX_EXTERNAL_CALENDARS_PER_BUSINESS = 10;
+
+// Largest .ics accepted from a URL or an upload
+export const MAX_ICS_BYTES = 5 * 1024 * 1024;
+
+// URL calendars are refreshed by the cron once they are this old
+const SYNC_INTERVAL = '30 minutes';
+
+// Busy time is imported for this window, relative to the sync
+const SYNC_PAST_DAYS = 1;
+const SYNC_FUTURE_DAYS = 365;
+
+const FETCH_TIMEOUT_MS = 15000;
+
+// Calendar hosts often redirect once or twice (e.g. to a CDN); each hop is checked
+const MAX_REDIRECTS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isAllowedCalendarUrl(url: string): boolean {
+  return url.startsWith('https://') || (process.env.NODE_ENV !== 'production' && url.startsWith('http://'));
+}
+
+/**
+ * Subscription URL of an external calendar
+ * webcal:// links (what Apple and Google hand out) are fetched over HTTPS.
+ * Names are checked again once resolved, before each fetch.
+ */
+export const externalCalendarUrlSchema = z
+  .string()
+  .trim()
+  .max(2000)
+  .transform(url => url.replace(/^webcals?:\/\//i, 'https://'))
+  .pipe(
+    z.string().url()
+      .refine(isAllowedCalendarUrl, { message: 'Calendar URLs must use HTTPS' })
+      .refine((url) => !isPrivateHostname(new URL(url).hostname), {
+        message: 'Calendar URLs must point to a public host',
+      })
+  );
+
+export interface CreateExternalCalendarParams {
+  businessId: string;
+  name: string;
+  url?: string;
+  createdBy: string;
+}
+
+export interface UpdateExternalCalendarParams {
+  name?: string;
+  enabled?: boolean;
+}
+
+export interface ExternalCalendarSyncResult {
+  success: boolean;
+  eventCount: number;
+  error?: string;
+}
+
+/**
+ * Busy interval as shown to the owner on the dashboard calendar
+ */
+export interface ExternalBusyInterval {
+  start: Date;
+  end: Date;
+  summary: string | null;
+  calendarName: string;
+}
+
+/**
+ * External Calendar Service
+ *
+ * Imports busy time from calendars the owner keeps elsewhere. Each sync
+ * replaces the calendar's intervals wholesale, so events deleted at the source
+ * stop blocking slots. A failed sync keeps the previous intervals and records
+ * the error for the settings page.
+ */
+export class ExternalCalendarService {
+  constructor(private db: DbClient) {}
+
+  async listCalendars(businessId: string): Promise<ExternalCalendar[]> {
+    return await this.db`
+      SELECT * FROM external_calendars
+      WHERE business_id = ${businessId}
+      ORDER BY created_at ASC
+    ` as ExternalCalendar[];
+  }
+
+  async getCalendar(calendarId: string): Promise<ExternalCalendar | null> {
+    const [calendar] = await this.db`
+      SELECT * FROM external_calendars WHERE id = ${calendarId}
+    `;
+
+    return (calendar as ExternalCalendar) || null;
+  }
+
+  async countCalendars(businessId: string): Promise<number> {
+    const [row] = await this.db`
+      SELECT COUNT(*)::int AS count FROM external_calendars WHERE business_id = ${businessId}
+    `;
+
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Add a calendar by URL or from an uploaded file, and import it right away
+   *
+   * @param content - .ics text of an upload (omit for URL calendars)
+   */
+  async createCalendar(
+    params: CreateExternalCalendarParams,
+    content?: string
+  ): Promise<{ calendar: ExternalCalendar; sync: ExternalCalendarSyncResult }> {
+    const [calendar] = await this.db`
+      INSERT INTO external_calendars (business_id, name, source_type, url, created_by)
+      VALUES (
+        ${params.businessId},
+        ${params.name},
+        ${params.url ? 'url' : 'upload'},
+        ${params.url ?? null},
+        ${params.createdBy}
+      )
+      RETURNING *
+    `;
+
+    const sync = await this.syncCalendar(calendar as ExternalCalendar, content);
+
+    return { calendar: (await this.getCalendar(calendar.id))!, sync };
+  }
+
+  /**
+   * Update a calendar; undefined fields are left unchanged
+   * A disabled calendar keeps its intervals but they no longer block slots.
+   */
+  async updateCalendar(calendarId: string, params: UpdateExternalCalendarParams): Promise<ExternalCalendar | null> {
+    const [calendar] = await this.db`
+      UPDATE external_calendars
+      SET
+        name = COALESCE(${params.name ?? null}, name),
+        enabled = COALESCE(${params.enabled ?? null}, enabled)
+      WHERE id = ${calendarId}
+      RETURNING *
+    `;
+
+    return (calendar as ExternalCalendar) || null;
+  }
+
+  async deleteCalendar(calendarId: string): Promise<void> {
+    await this.db`
+      DELETE FROM external_calendars WHERE id = ${calendarId}
+    `;
+  }
+
+  /**
+   * Re-import a calendar's busy time
+   *
+   * URL calendars are fetched; uploads need the file content passed in (a
+   * re-upload replaces the previous file's intervals).
+   */
+  async syncCalendar(calendar: ExternalCalendar, content?: string): Promise<ExternalCalendarSyncResult> {
+    try {
+      const text = content ?? (calendar.url ? await this.fetchCalendar(calendar.url) : null);
+
+      if (text === null) {
+        throw new Error('No calendar file to import');
+      }
+
+      if (!/BEGIN:VCALENDAR/i.test(text)) {
+        throw new Error('Not an iCalendar file');
+      }
+
+      const [business] = await this.db`
+        SELECT timezone FROM businesses WHERE id = ${calendar.business_id}
+      `;
+
+      const now = Date.now();
+      const events = parseIcsBusyEvents(text, {
+        rangeStart: new Date(now - SYNC_PAST_DAYS * DAY_MS),
+        rangeEnd: new Date(now + SYNC_FUTURE_DAYS * DAY_MS),
+        timezone: business?.timezone || 'UTC',
+      });
+
+      const intervals = events.map(event => ({
+        start_at: event.start.toISOString(),
+        end_at: event.end.toISOString(),
+        summary: event.summary?.slice(0, 200) ?? null,
+      }));
+
+      // Replace in one statement so readers never see a half-imported calendar
+      await this.db`
+        WITH deleted AS (
+          DELETE FROM external_busy_intervals WHERE calendar_id = ${calendar.id}
+        )
+        INSERT INTO external_busy_intervals (calendar_id, business_id, start_at, end_at, summary)
+        SELECT ${calendar.id}, ${calendar.business_id}, i.start_at, i.end_at, i.summary
+        FROM jsonb_to_recordset(${JSON.stringify(intervals)}::jsonb)
+          AS i(start_at TIMESTAMPTZ, end_at TIMESTAMPTZ, summary TEXT)
+      `;
+
+      await this.db`
+        UPDATE external_calendars
+        SET last_synced_at = NOW(), last_sync_error = NULL, event_count = ${intervals.length}
+        WHERE id = ${calendar.id}
+      `;
+
+      return { success: true, eventCount: intervals.length };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      // Still counts as a sync attempt, so a broken URL isn't retried on every cron run
+      await this.db`
+        UPDATE external_calendars
+        SET last_synced_at = NOW(), last_sync_error = ${message}
+        WHERE id = ${calendar.id}
+      `;
+
+      return { success: false, eventCount: calendar.event_count, error: message };
+    }
+  }
+
+  /**
+   * Sync the URL calendars that are due, oldest first
+   * Called by the sync-external-calendars cron.
+   */
+  async syncDueCalendars(limit: number): Promise<{ synced: number; failed: number }> {
+    const calendars = await this.db`
+      SELECT c.*
+      FROM external_calendars c
+      JOIN businesses b ON b.id = c.business_id
+      WHERE c.source_type = 'url'
+        AND c.enabled = TRUE
+        AND b.deleted_at IS NULL
+        AND (c.last_synced_at IS NULL OR c.last_synced_at < NOW() - ${SYNC_INTERVAL}::interval)
+      ORDER BY c.last_synced_at ASC NULLS FIRST
+      LIMIT ${limit}
+    ` as ExternalCalendar[];
+
+    let synced = 0;
+    let failed = 0;
+
+    for (const calendar of calendars) {
+      const result = await this.syncCalendar(calendar);
+      if (result.success) {
+        synced++;
+      } else {
+        failed++;
+      }
+    }
+
+    return { synced, failed };
+  }
+
+  /**
+   * Busy time of a business's enabled calendars that overlaps a range
+   * Pass the result to generateTimeSlots / validateBookingTime as externalBusy.
+   */
+  async getBusyIntervals(businessId: string, start: Date, end: Date): Promise<ExternalBusyInterval[]> {
+    const rows = await this.db`
+      SELECT i.start_at, i.end_at, i.summary, c.name AS calendar_name
+      FROM external_busy_intervals i
+      JOIN external_calendars c ON c.id = i.calendar_id
+      WHERE i.business_id = ${businessId}
+        AND c.enabled = TRUE
+        AND i.start_at < ${end.toISOString()}
+        AND i.end_at > ${start.toISOString()}
+      ORDER BY i.start_at
+    `;
+
+    return rows.map(row => ({
+      start: new Date(row.start_at),
+      end: new Date(row.end_at),
+      summary: row.summary,
+      calendarName: row.calendar_name,
+    }));
+  }
+
+  /**
+   * Download a calendar file
+   * Redirects are followed by hand so every hop is checked for a private address.
+   */
+  private async fetchCalendar(url: string): Promise<string> {
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    let currentUrl = url;
+    let response: Response;
+
+    for (let redirects = 0; ; redirects++) {
+      if (!isAllowedCalendarUrl(currentUrl)) {
+        throw new Error('Calendar URLs must use HTTPS');
+      }
+
+      if (await resolvesToPrivateAddress(new URL(currentUrl).hostname)) {
+        throw new Error('Calendar URL resolves to a private address');
+      }
+
+      response = await fetch(currentUrl, {
+        headers: { Accept: 'text/calendar, text/plain;q=0.9, */*;q=0.5' },
+        redirect: 'manual',
+        signal,
+      });
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        break;
+      }
+
+      await response.body?.cancel().catch(() => {});
+
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error('Calendar URL redirected too many times');
+      }
+
+      currentUrl = new URL(location, currentUrl).toString();
+    }
+
+    if (!response.ok) {
+      throw new Error(`Calendar URL returned HTTP ${response.status}`);
+    }
+
+    const length = Number(response.headers.get('content-length') || 0);
+    if (length > MAX_ICS_BYTES) {
+      throw new Error('Calendar is too large to import');
+    }
+
+    const text = await response.text();
+    if (text.length > MAX_ICS_BYTES) {
+      throw new Error('Calendar is too large to import');
+    }
+
+    return text;
+  }
+}
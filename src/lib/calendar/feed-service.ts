@@ -0,0 +1,173 @@
+import { randomBytes } from 'crypto';
+import { DbClient } from '@/db/client';
+import { CalendarFeed } from '@/db/types';
+import { loadConfigBySubdomain } from '@/lib/config/config-loader';
+import { env } from '@/lib/env';
+import { appointmentToIcsEvent } from './appointments';
+import { buildIcsCalendar } from './ics';
+
+// Appointments included in a feed, relative to now
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+
+// Suggested polling interval; Google ignores it and refreshes every few hours
+const FEED_REFRESH_MINUTES = 30;
+
+// last_accessed_at is refreshed at most this often, since clients poll constantly
+const LAST_ACCESSED_RESOLUTION = '1 hour';
+
+/**
+ * Feed as listed in settings
+ */
+export interface CalendarFeedSummary extends CalendarFeed {
+  staff_name: string | null;
+  url: string;
+}
+
+export interface CreateCalendarFeedParams {
+  businessId: string;
+  staffId?: string | null;
+  createdBy: string;
+}
+
+export function generateFeedToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+/**
+ * Subscription URL of a feed
+ * The .ics suffix is optional for the route but some calendar apps insist on it.
+ */
+export function getCalendarFeedUrl(token: string): string {
+  return `${env.NEXT_PUBLIC_APP_URL}/api/calendar/feeds/${token}.ics`;
+}
+
+/**
+ * Calendar Feed Service
+ *
+ * Manages the private ICS feeds of a business and renders them. Feeds include
+ * canceled appointments (as STATUS:CANCELLED) so subscribed calendars drop them
+ * instead of keeping a stale copy.
+ */
+export class CalendarFeedService {
+  constructor(private db: DbClient) {}
+
+  async listFeeds(businessId: string): Promise<CalendarFeedSummary[]> {
+    const rows = await this.db`
+      SELECT f.*, sm.name AS staff_name
+      FROM calendar_feeds f
+      LEFT JOIN staff_members sm ON sm.id = f.staff_id
+      WHERE f.business_id = ${businessId}
+      ORDER BY f.staff_id IS NOT NULL, sm.name
+    `;
+
+    return rows.map(row => ({ ...(row as CalendarFeed), staff_name: row.staff_name ?? null, url: getCalendarFeedUrl(row.token) }));
+  }
+
+  async getFeed(feedId: string): Promise<CalendarFeed | null> {
+    const [feed] = await this.db`
+      SELECT * FROM calendar_feeds WHERE id = ${feedId}
+    `;
+
+    return (feed as CalendarFeed) || null;
+  }
+
+  /**
+   * Create the feed of a business or staff member, or give an existing one a
+   * new token. Calendars subscribed to the old URL stop receiving updates.
+   */
+  async createOrRegenerateFeed(params: CreateCalendarFeedParams): Promise<CalendarFeedSummary> {
+    const [feed] = await this.db`
+      INSERT INTO calendar_feeds (business_id, staff_id, token, created_by)
+      VALUES (${params.businessId}, ${params.staffId ?? null}, ${generateFeedToken()}, ${params.createdBy})
+      ON CONFLICT ON CONSTRAINT calendar_feeds_business_staff_unique
+      DO UPDATE SET token = EXCLUDED.token, last_accessed_at = NULL
+      RETURNING *
+    `;
+
+    const [staff] = feed.staff_id
+      ? await this.db`SELECT name FROM staff_members WHERE id = ${feed.staff_id}`
+      : [];
+
+    return { ...(feed as CalendarFeed), staff_name: staff?.name ?? null, url: getCalendarFeedUrl(feed.token) };
+  }
+
+  async deleteFeed(feedId: string): Promise<void> {
+    await this.db`
+      DELETE FROM calendar_feeds WHERE id = ${feedId}
+    `;
+  }
+
+  /**
+   * Render the feed for a token
+   * @returns null for unknown tokens, feeds of deleted businesses and feeds of removed staff
+   */
+  async renderFeed(token: string): Promise<string | null> {
+    const [feed] = await this.db`
+      SELECT
+        f.id, f.business_id, f.staff_id,
+        b.name AS business_name, b.subdomain, b.timezone AS business_timezone,
+        sm.name AS staff_name
+      FROM calendar_feeds f
+      JOIN businesses b ON b.id = f.business_id
+      LEFT JOIN staff_members sm ON sm.id = f.staff_id
+      WHERE f.token = ${token}
+        AND b.deleted_at IS NULL
+        AND (f.staff_id IS NULL OR (sm.deleted_at IS NULL AND sm.status <> 'removed'))
+    `;
+
+    if (!feed) {
+      return null;
+    }
+
+    const configResult = await loadConfigBySubdomain(feed.subdomain);
+    const timezone = (configResult.success && configResult.config?.business.timezone) || feed.business_timezone;
+
+    const appointments = await this.db`
+      SELECT
+        a.id, a.booking_id, a.slot_start, a.slot_end, a.status, a.notes, a.version, a.updated_at,
+        s.name AS service_name,
+        COALESCE(u.name, a.guest_name) AS customer_name,
+        sm.name AS staff_name
+      FROM appointments a
+      JOIN services s ON s.id = a.service_id
+      LEFT JOIN users u ON u.id = a.customer_id
+      LEFT JOIN staff_members sm ON sm.id = a.staff_id
+      WHERE a.business_id = ${feed.business_id}
+        AND (a.deleted_at IS NULL OR a.status = 'canceled')
+        AND a.slot_start >= NOW() - ${`${FEED_PAST_DAYS} days`}::interval
+        AND a.slot_start <= NOW() + ${`${FEED_FUTURE_DAYS} days`}::interval
+        ${feed.staff_id ? this.db`AND a.staff_id = ${feed.staff_id}` : this.db``}
+      ORDER BY a.slot_start
+    `;
+
+    await this.db`
+      UPDATE calendar_feeds
+      SET last_accessed_at = NOW()
+      WHERE id = ${feed.id}
+        AND (last_accessed_at IS NULL OR last_accessed_at < NOW() - ${LAST_ACCESSED_RESOLUTION}::interval)
+    `;
+
+    return buildIcsCalendar({
+      timezone,
+      name: feed.staff_name ? `${feed.business_name} - ${feed.staff_name}` : feed.business_name,
+      description: `Appointments booked with ${feed.business_name} on Rhivo`,
+      refreshIntervalMinutes: FEED_REFRESH_MINUTES,
+      events: appointments.map(appointment => appointmentToIcsEvent({
+        id: appointment.id,
+        bookingId: appointment.booking_id,
+        serviceName: appointment.service_name,
+        businessName: feed.business_name,
+        start: appointment.slot_start,
+        end: appointment.slot_end,
+        status: appointment.status,
+        customerName: appointment.customer_name,
+        // A staff feed is already about that person
+        staffName: feed.staff_id ? null : appointment.staff_name,
+        notes: appointment.notes,
+        version: appointment.version,
+        updatedAt: appointment.updated_at,
+      }, 'business')),
+    });
+  }
+}
@@ -0,0 +1,446 @@
+/**
+ * iCalendar (RFC 5545) Busy-Time Parsing
+ *
+ * Reads the VEVENTs of an external calendar (a subscription URL or an uploaded
+ * .ics file) and turns them into busy intervals within a date range. Only what
+ * is needed to block time is read: start, end, summary, status and
+ * transparency. Cancelled and free (TRANSP:TRANSPARENT) events are skipped.
+ *
+ * Recurring events are expanded for the common RRULE shapes calendar apps
+ * write (DAILY, WEEKLY with BYDAY, MONTHLY with BYMONTHDAY or BYDAY, YEARLY,
+ * with INTERVAL, COUNT and UNTIL), honouring EXDATE and moved occurrences
+ * (RECURRENCE-ID). Rules beyond that only yield their first occurrence.
+ */
+
+import { parseInTimezone } from '@/lib/utils/timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stop expanding a rule after this many occurrences in range, whatever COUNT/UNTIL say
+const MAX_OCCURRENCES = 1000;
+
+// ...or after this many periods without reaching the end of the range
+const MAX_PERIODS = 20000;
+
+// Shortest length of each period, to skip ahead to the range without walking every period
+const MIN_PERIOD_DAYS: Record<string, number> = { DAILY: 1, WEEKLY: 7, MONTHLY: 28, YEARLY: 365 };
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface BusyEvent {
+  start: Date;
+  end: Date;
+  summary: string | null;
+}
+
+export interface ParseBusyOptions {
+  rangeStart: Date;
+  rangeEnd: Date;
+  // Used for floating times, all-day events and unknown TZIDs
+  timezone: string;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsDateTime {
+  date: Date;
+  allDay: boolean;
+  // Timezone the wall-clock time is in, for expanding recurrences across DST
+  timezone: string;
+}
+
+interface ParsedEvent {
+  uid: string | null;
+  start: IcsDateTime;
+  end: Date;
+  summary: string | null;
+  rrule: Record<string, string> | null;
+  exdates: number[];
+  recurrenceId: number | null;
+}
+
+/**
+ * Undo line folding: a line starting with a space or tab continues the previous one
+ */
+export function unfoldIcsLines(text: string): string[] {
+  const lines: string[] = [];
+
+  for (const line of text.split(/\r\n|\n|\r/)) {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line.length > 0) {
+      lines.push(line);
+    }
+  }
+
+  return lines;
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // The value starts after the first colon that is not inside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+
+  for (const param of rawParams) {
+    const [key, ...value] = param.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1');
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a DATE or DATE-TIME value
+ * UTC times end in Z; other times are in their TZID, or the fallback timezone.
+ */
+export function parseIcsDateTime(
+  value: string,
+  params: Record<string, string>,
+  fallbackTimezone: string
+): IcsDateTime | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const tzid = params.TZID && isValidTimezone(params.TZID) ? params.TZID : fallbackTimezone;
+
+  if (hour === undefined) {
+    return { date: parseInTimezone(`${year}-${month}-${day}`, fallbackTimezone), allDay: true, timezone: fallbackTimezone };
+  }
+
+  // UTC start times recur at the same UTC time
+  if (utc) {
+    return {
+      date: new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +(second || 0))),
+      allDay: false,
+      timezone: 'UTC',
+    };
+  }
+
+  return {
+    date: parseInTimezone(`${year}-${month}-${day}T${hour}:${minute}:${second || '00'}`, tzid),
+    allDay: false,
+    timezone: tzid,
+  };
+}
+
+/**
+ * Parse a DURATION value (e.g. PT1H30M, P1D) into milliseconds
+ */
+export function parseIcsDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    (+(weeks || 0) * 7 + +(days || 0)) * DAY_MS +
+    (+(hours || 0) * 3600 + +(minutes || 0) * 60 + +(seconds || 0)) * 1000;
+
+  return sign === '-' ? -ms : ms;
+}
+
+function parseRule(value: string): Record<string, string> {
+  return Object.fromEntries(
+    value.split(';').filter(Boolean).map(part => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=').toUpperCase()];
+    })
+  );
+}
+
+function parseEvent(properties: IcsProperty[], timezone: string): ParsedEvent | null {
+  const get = (name: string) => properties.find(p => p.name === name);
+
+  const status = get('STATUS')?.value.toUpperCase();
+  const transparency = get('TRANSP')?.value.toUpperCase();
+  if (status === 'CANCELLED' || transparency === 'TRANSPARENT') return null;
+
+  const startProperty = get('DTSTART');
+  const start = startProperty && parseIcsDateTime(startProperty.value, startProperty.params, timezone);
+  if (!start) return null;
+
+  const endProperty = get('DTEND');
+  const durationProperty = get('DURATION');
+  let end = endProperty ? parseIcsDateTime(endProperty.value, endProperty.params, timezone)?.date : undefined;
+
+  if (!end && durationProperty) {
+    const duration = parseIcsDuration(durationProperty.value);
+    if (duration !== null) end = new Date(start.date.getTime() + duration);
+  }
+
+  // An all-day event without an end lasts the day; a timed one takes no time
+  if (!end) end = start.allDay ? new Date(start.date.getTime() + DAY_MS) : start.date;
+  if (end <= start.date) return null;
+
+  const exdates = properties
+    .filter(p => p.name === 'EXDATE')
+    .flatMap(p => p.value.split(',').map(value => parseIcsDateTime(value, p.params, timezone)?.date.getTime()))
+    .filter((time): time is number => time !== undefined);
+
+  const recurrenceIdProperty = get('RECURRENCE-ID');
+  const recurrenceId = recurrenceIdProperty
+    ? parseIcsDateTime(recurrenceIdProperty.value, recurrenceIdProperty.params, timezone)?.date.getTime() ?? null
+    : null;
+
+  const rruleProperty = get('RRULE');
+  const summary = get('SUMMARY');
+
+  return {
+    uid: get('UID')?.value ?? null,
+    start,
+    end,
+    summary: summary ? unescapeText(summary.value) : null,
+    rrule: rruleProperty ? parseRule(rruleProperty.value) : null,
+    exdates,
+    recurrenceId,
+  };
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+function getLocalParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)!.value;
+
+  return {
+    // Calendar date as a UTC midnight, for date arithmetic without DST
+    day: Date.UTC(+part('year'), +part('month') - 1, +part('day')),
+    time: `${part('hour')}:${part('minute')}:${part('second')}`,
+  };
+}
+
+function toInstant(day: number, time: string, timezone: string): Date {
+  return parseInTimezone(`${new Date(day).toISOString().slice(0, 10)}T${time}`, timezone);
+}
+
+/**
+ * Days of a month (as UTC midnights) matching BYMONTHDAY or BYDAY, e.g. 15, -1, 2TU, -1FR, MO
+ */
+function monthDays(year: number, month: number, rule: Record<string, string>, fallbackDay: number): number[] {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const days = new Set<number>();
+
+  if (rule.BYMONTHDAY) {
+    for (const value of rule.BYMONTHDAY.split(',').map(Number)) {
+      const day = value < 0 ? daysInMonth + value + 1 : value;
+      if (day >= 1 && day <= daysInMonth) days.add(day);
+    }
+  } else if (rule.BYDAY) {
+    for (const entry of rule.BYDAY.split(',')) {
+      const match = entry.match(/^([+-]?\d+)?([A-Z]{2})$/);
+      const weekday = match ? WEEKDAYS.indexOf(match[2]) : -1;
+      if (!match || weekday === -1) continue;
+
+      const matching = Array.from({ length: daysInMonth }, (_, i) => i + 1)
+        .filter(day => new Date(Date.UTC(year, month, day)).getUTCDay() === weekday);
+
+      if (match[1]) {
+        const ordinal = +match[1];
+        const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (day) days.add(day);
+      } else {
+        matching.forEach(day => days.add(day));
+      }
+    }
+  } else if (fallbackDay <= daysInMonth) {
+    days.add(fallbackDay);
+  }
+
+  return [...days].sort((a, b) => a - b).map(day => Date.UTC(year, month, day));
+}
+
+/**
+ * Start times of a recurring event that may overlap the range, in order
+ */
+function expandRule(event: ParsedEvent, rangeStart: Date, rangeEnd: Date): Date[] {
+  const rule = event.rrule!;
+  const interval = Math.max(1, parseInt(rule.INTERVAL || '1') || 1);
+  const count = rule.COUNT ? parseInt(rule.COUNT) : null;
+  const until = rule.UNTIL ? parseIcsDateTime(rule.UNTIL, {}, event.start.timezone)?.date : null;
+  const { timezone } = event.start;
+  const { day: firstDay, time } = getLocalParts(event.start.date, timezone);
+  const first = new Date(firstDay);
+
+  // Candidate days of the n-th period of the rule
+  const periodDays = (n: number): number[] => {
+    switch (rule.FREQ) {
+      case 'DAILY':
+        return [firstDay + n * interval * DAY_MS];
+      case 'WEEKLY': {
+        const weekdays = rule.BYDAY
+          ? rule.BYDAY.split(',').map(day => WEEKDAYS.indexOf(day.slice(-2))).filter(day => day !== -1)
+          : [first.getUTCDay()];
+        // Weeks start on Monday (the RFC default WKST)
+        const weekStart = firstDay - ((first.getUTCDay() + 6) % 7) * DAY_MS + n * interval * 7 * DAY_MS;
+        return weekdays.map(day => weekStart + ((day + 6) % 7) * DAY_MS).sort((a, b) => a - b);
+      }
+      case 'MONTHLY': {
+        const month = first.getUTCMonth() + n * interval;
+        return monthDays(first.getUTCFullYear() + Math.floor(month / 12), month % 12, rule, first.getUTCDate());
+      }
+      case 'YEARLY': {
+        const year = first.getUTCFullYear() + n * interval;
+        const day = Date.UTC(year, first.getUTCMonth(), first.getUTCDate());
+        // Feb 29 only recurs in leap years
+        return new Date(day).getUTCMonth() === first.getUTCMonth() ? [day] : [];
+      }
+      default:
+        return n === 0 ? [firstDay] : [];
+    }
+  };
+
+  // Without COUNT, periods that end before the range can be skipped outright
+  const duration = event.end.getTime() - event.start.date.getTime();
+  const periodMs = (MIN_PERIOD_DAYS[rule.FREQ] ?? 0) * interval * DAY_MS;
+  const firstPeriod = count === null && periodMs > 0
+    ? Math.max(0, Math.floor((rangeStart.getTime() - duration - firstDay) / periodMs) - 1)
+    : 0;
+
+  const starts: Date[] = [];
+  let emitted = 0;
+
+  for (let n = firstPeriod; n < firstPeriod + MAX_PERIODS && starts.length < MAX_OCCURRENCES; n++) {
+    const days = periodDays(n);
+    if (days.length === 0 && !['MONTHLY', 'YEARLY'].includes(rule.FREQ)) break;
+
+    for (const day of days) {
+      if (day < firstDay) continue;
+
+      const start = event.start.allDay ? toInstant(day, '00:00:00', timezone) : toInstant(day, time, timezone);
+
+      if ((until && start > until) || start > rangeEnd || (count !== null && emitted >= count)) {
+        return starts;
+      }
+
+      emitted++;
+      if (start.getTime() + duration > rangeStart.getTime()) {
+        starts.push(start);
+      }
+    }
+  }
+
+  return starts;
+}
+
+/**
+ * Busy intervals of an iCalendar document that overlap a date range
+ *
+ * @returns Intervals sorted by start; overlapping intervals are not merged
+ */
+export function parseIcsBusyEvents(text: string, options: ParseBusyOptions): BusyEvent[] {
+  const { rangeStart, rangeEnd, timezone } = options;
+  const events: ParsedEvent[] = [];
+  // Occurrences that were moved or cancelled on their own, by UID
+  const overridden = new Map<string, Set<number>>();
+
+  let current: IcsProperty[] | null = null;
+  // Nested components (e.g. VALARM) inside a VEVENT
+  let depth = 0;
+
+  for (const line of unfoldIcsLines(text)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      if (property.value.toUpperCase() === 'VEVENT' && !current) {
+        current = [];
+      } else if (current) {
+        depth++;
+      }
+      continue;
+    }
+
+    if (property.name === 'END' && current) {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+
+      // Cancelled overrides still need to hide their occurrence
+      const recurrenceId = current.find(p => p.name === 'RECURRENCE-ID');
+      const uid = current.find(p => p.name === 'UID')?.value;
+      if (recurrenceId && uid) {
+        const time = parseIcsDateTime(recurrenceId.value, recurrenceId.params, timezone)?.date.getTime();
+        if (time !== undefined) {
+          if (!overridden.has(uid)) overridden.set(uid, new Set());
+          overridden.get(uid)!.add(time);
+        }
+      }
+
+      const event = parseEvent(current, timezone);
+      if (event) events.push(event);
+      current = null;
+      continue;
+    }
+
+    if (current && depth === 0) {
+      current.push(property);
+    }
+  }
+
+  const busy: BusyEvent[] = [];
+
+  for (const event of events) {
+    const duration = event.end.getTime() - event.start.date.getTime();
+    const skipped = new Set([
+      ...event.exdates,
+      ...(event.rrule && event.uid && event.recurrenceId === null ? overridden.get(event.uid) ?? [] : []),
+    ]);
+
+    const starts = event.rrule && event.recurrenceId === null
+      ? expandRule(event, rangeStart, rangeEnd)
+      : [event.start.date];
+
+    for (const start of starts) {
+      const end = new Date(start.getTime() + duration);
+      if (skipped.has(start.getTime()) || end <= rangeStart || start >= rangeEnd) continue;
+
+      busy.push({ start, end, summary: event.summary });
+    }
+  }
+
+  return busy.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
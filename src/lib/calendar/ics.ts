@@ -0,0 +1,201 @@
+/**
+ * iCalendar (RFC 5545) Generation
+ *
+ * Builds VCALENDAR documents for the owner subscription feeds, the .ics files
+ * attached to customer emails and the "add to calendar" downloads. Kept free of
+ * server imports so the booking pages can build the same file in the browser.
+ *
+ * Event times are written as local wall-clock time with a TZID naming the
+ * business's IANA timezone, so calendars show them in that timezone across DST
+ * changes. No VTIMEZONE component is emitted: Google, Apple and Outlook resolve
+ * IANA ids on their own.
+ */
+
+const PRODUCT_ID = '-//Rhivo//Rhivo Booking//EN';
+const UID_DOMAIN = 'rhivo.app';
+const MAX_LINE_OCTETS = 75;
+const CRLF = '\r\n';
+
+export type IcsEventStatus = 'CONFIRMED' | 'CANCELLED';
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status: IcsEventStatus;
+  // Bumped whenever the event changes so clients replace their copy
+  sequence?: number;
+  lastModified?: Date;
+}
+
+export interface IcsCalendar {
+  // IANA timezone of the business (config.business.timezone)
+  timezone: string;
+  name?: string;
+  description?: string;
+  // How often subscribed clients should poll the feed
+  refreshIntervalMinutes?: number;
+  events: IcsEvent[];
+}
+
+/**
+ * Stable UID of an appointment's event, shared by feeds, attachments and downloads
+ * so a calendar that has the event from one source updates it from another.
+ */
+export function getAppointmentEventUid(appointmentId: string): string {
+  return `${appointmentId}@${UID_DOMAIN}`;
+}
+
+/**
+ * Map an appointment status to an event status
+ * Only cancellations are removed from calendars; completed and no-show stay as they were.
+ */
+export function toIcsEventStatus(appointmentStatus: string): IcsEventStatus {
+  return appointmentStatus === 'canceled' ? 'CANCELLED' : 'CONFIRMED';
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11)
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets (RFC 5545 §3.1)
+ * Continuation lines start with a single space. Splits never fall inside a
+ * multi-byte UTF-8 character.
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += char;
+    currentOctets += octets;
+  }
+
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Format a DATE-TIME in UTC, e.g. 20250115T093000Z
+ */
+export function formatIcsUtc(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+/**
+ * Format a DATE-TIME as local time in a timezone, e.g. 20250115T103000
+ */
+export function formatIcsLocal(date: Date, timezone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '00';
+
+  return `${part('year')}${part('month')}${part('day')}T${part('hour')}${part('minute')}${part('second')}`;
+}
+
+function buildEvent(event: IcsEvent, timezone: string, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${timezone}:${formatIcsLocal(event.start, timezone)}`,
+    `DTEND;TZID=${timezone}:${formatIcsLocal(event.end, timezone)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatIcsUtc(event.lastModified)}`);
+
+  lines.push(
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `STATUS:${event.status}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT'
+  );
+
+  return lines;
+}
+
+/**
+ * Build a VCALENDAR document
+ *
+ * @param now - DTSTAMP of every event; injectable for tests
+ * @returns CRLF-separated, folded iCalendar text
+ */
+export function buildIcsCalendar(calendar: IcsCalendar, now: Date = new Date()): string {
+  const stamp = formatIcsUtc(now);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-TIMEZONE:${calendar.timezone}`,
+  ];
+
+  if (calendar.name) lines.push(`X-WR-CALNAME:${escapeIcsText(calendar.name)}`);
+  if (calendar.description) lines.push(`X-WR-CALDESC:${escapeIcsText(calendar.description)}`);
+
+  if (calendar.refreshIntervalMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshIntervalMinutes}M`,
+      `X-PUBLISHED-TTL:PT${calendar.refreshIntervalMinutes}M`
+    );
+  }
+
+  for (const event of calendar.events) {
+    lines.push(...buildEvent(event, calendar.timezone, stamp));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join(CRLF) + CRLF;
+}
+
+/**
+ * File name for a single appointment's .ics file
+ */
+export function getAppointmentIcsFilename(bookingId: string): string {
+  return `appointment-${bookingId.replace(/[^A-Za-z0-9-]/g, '')}.ics`;
+}
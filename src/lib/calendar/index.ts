@@ -0,0 +1,62 @@
+/**
+ * Calendar Module
+ *
+ * iCalendar output so owners and customers see appointments in the calendar
+ * they already use:
+ *
+ * 1. Private subscription feeds per business or staff member, polled by
+ *    Google/Apple Calendar at /api/calendar/feeds/<token>.ics (CalendarFeedService)
+ * 2. A single-event .ics attached to confirmation and reschedule emails
+ * 3. "Add to calendar" downloads on the booking pages (downloadAppointmentIcs,
+ *    imported directly from ./download since it needs the browser)
+ *
+ * And iCalendar input: busy time from the owner's other calendars, imported by
+ * URL or upload and refreshed by a cron (ExternalCalendarService), blocks slots
+ * as 'external_busy' off-time.
+ *
+ * Events of one appointment share a UID everywhere, so an updated copy from any
+ * source replaces the old one.
+ */
+
+export {
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsUtc,
+  formatIcsLocal,
+  getAppointmentEventUid,
+  getAppointmentIcsFilename,
+  toIcsEventStatus,
+} from './ics';
+export type { IcsEvent, IcsCalendar, IcsEventStatus } from './ics';
+
+export { appointmentToIcsEvent, buildAppointmentIcs } from './appointments';
+export type { AppointmentIcsDetails } from './appointments';
+
+export {
+  CalendarFeedService,
+  generateFeedToken,
+  getCalendarFeedUrl,
+} from './feed-service';
+export type { CalendarFeedSummary, CreateCalendarFeedParams } from './feed-service';
+
+export {
+  parseIcsBusyEvents,
+  parseIcsDateTime,
+  parseIcsDuration,
+  unfoldIcsLines,
+} from './ics-parser';
+export type { BusyEvent, ParseBusyOptions } from './ics-parser';
+
+export {
+  ExternalCalendarService,
+  externalCalendarUrlSchema,
+  MAX_EXTERNAL_CALENDARS_PER_BUSINESS,
+  MAX_ICS_BYTES,
+} from './external-calendar-service';
+export type {
+  CreateExternalCalendarParams,
+  UpdateExternalCalendarParams,
+  ExternalCalendarSyncResult,
+  ExternalBusyInterval,
+} from './external-calendar-service';
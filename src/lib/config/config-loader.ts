@@ -399,6 +399,8 @@ async function buildConfigFromDatabase(businessId: string): Promise<ParseResult>
           bufferAfter: 0,
         })),
       })),
+      capacityPools: [],
+      resources: [],
       bookingRequirements: {
         requireEmail: true,
         requirePhone: false,
@@ -420,6 +422,18 @@ async function buildConfigFromDatabase(businessId: string): Promise<ParseResult>
         rescheduleDeadlineHours: 24,
         refundPolicy: 'full',
       },
+      noShowPolicy: {
+        enabled: false,
+        maxNoShows: 2,
+        windowDays: 180,
+        action: 'block',
+      },
+      slotRecommendations: {
+        enabled: false,
+        hideGapSlots: false,
+        maxRecommended: 3,
+        preferredTimes: [],
+      },
       notifications: {
         sendConfirmationEmail: true,
         sendReminderEmail: true,
@@ -211,6 +211,15 @@ const DailyAvailabilitySchema = z.object({
   { message: 'Slots must be non-overlapping, in chronological order, and total hours must not exceed 24 hours per day' }
 );
 
+/**
+ * Weekly Hours Schema
+ *
+ * Same shape as the top-level availability block. Used for per-staff calendars,
+ * which are stored in the database rather than in the YAML config.
+ */
+export const WeeklyHoursSchema = z.array(DailyAvailabilitySchema)
+  .length(7, 'Must provide availability for all 7 days of the week');
+
 /**
  * Availability Exception Schema (for holidays, special closures)
  */
@@ -271,6 +280,14 @@ const ServiceSchema = z.object({
     .min(1, 'Must allow at least 1 booking per slot')
     .max(100, 'Cannot exceed 100 simultaneous bookings')
     .optional(),
+  // Shared capacity pools this service draws from (ids from the top-level capacityPools)
+  capacityPools: z.array(z.string().min(1)).optional(),
+  // Resources a booking holds exclusively (ids from the top-level resources):
+  // every allOf resource, plus any one of the oneOf resources
+  resources: z.object({
+    allOf: z.array(z.string().min(1)).default([]),
+    oneOf: z.array(z.string().min(1)).default([]),
+  }).optional(),
   bufferBefore: z.number().int().min(0).default(0)
     .transform((val) => {
       // Auto-round to nearest 5-minute block
@@ -315,6 +332,23 @@ const CategorySchema = z.object({
   services: z.array(ServiceSchema).min(1, 'Category must have at least one service'),
 });
 
+/**
+ * Capacity Pool Schema
+ * A business-wide resource (e.g. chairs, wash basins) shared by several
+ * services. A booking must fit every pool its service draws from, counting
+ * the overlapping bookings of all services in the pool.
+ */
+const CapacityPoolSchema = z.object({
+  id: z.string().min(1, 'Capacity pool ID is required').regex(/^[a-z0-9-_]+$/, {
+    message: 'Capacity pool ID must contain only lowercase letters, numbers, hyphens, and underscores'
+  }),
+  name: z.string().min(1, 'Capacity pool name is required').max(100),
+  capacity: z.number()
+    .int('Capacity must be an integer')
+    .min(1, 'Capacity pool must allow at least 1 booking')
+    .max(100, 'Cannot exceed 100 simultaneous bookings'),
+});
+
 /**
  * Booking Requirements Schema
  */
@@ -392,6 +426,63 @@ const CancellationPolicySchema = z.object({
   { message: 'Partial refund policy requires partialRefundPercentage to be set' }
 );
 
+/**
+ * No-Show Policy Schema
+ * Customers with maxNoShows or more no-shows in the last windowDays are either
+ * blocked from booking online or asked for a deposit first.
+ */
+const NoShowPolicySchema = z.object({
+  enabled: z.boolean().default(false),
+  maxNoShows: z.number()
+    .int('Max no-shows must be an integer')
+    .min(1, 'Must allow at least 1 no-show')
+    .max(20, 'Cannot exceed 20 no-shows')
+    .default(2),
+  windowDays: z.number()
+    .int('No-show window must be an integer')
+    .min(1, 'No-show window must be at least 1 day')
+    .max(730, 'No-show window cannot exceed 2 years (730 days)')
+    .default(180),
+  action: z.enum(['block', 'require_deposit']).default('block'),
+  // Deposit in cents when action is require_deposit (services with their own deposit keep theirs)
+  depositAmount: z.number().int().min(1).optional(),
+}).refine(
+  (data) => data.action !== 'require_deposit' || !!data.depositAmount,
+  { message: 'The require_deposit no-show action requires depositAmount to be set' }
+);
+
+/**
+ * Preferred Time Schema
+ * A time range the business would rather fill first, on the listed days
+ * (every day when days is omitted).
+ */
+const PreferredTimeSchema = z.object({
+  days: z.array(DayOfWeek).optional(),
+  start: TimeString,
+  end: TimeString,
+}).refine(
+  (data) => data.end > data.start,
+  { message: 'Preferred time end must be after start' }
+);
+
+/**
+ * Slot Recommendations Schema
+ * Scores slots by how well they pack the day: next to other bookings, without
+ * leaving a hole too short for any service, inside preferredTimes. The best
+ * maxRecommended slots per day are highlighted on the booking page, and
+ * hideGapSlots hides slots that would leave an avoidable unusable hole.
+ */
+const SlotRecommendationsSchema = z.object({
+  enabled: z.boolean().default(false),
+  hideGapSlots: z.boolean().default(false),
+  maxRecommended: z.number()
+    .int('Max recommended slots must be an integer')
+    .min(1, 'Must recommend at least 1 slot')
+    .max(10, 'Cannot recommend more than 10 slots per day')
+    .default(3),
+  preferredTimes: z.array(PreferredTimeSchema).default([]),
+});
+
 /**
  * Business Information Schema
  */
@@ -422,6 +513,20 @@ const NotificationPreferencesSchema = z.object({
   notifyOwnerOnCancellation: z.boolean().default(true),
 });
 
+/**
+ * Resource Schema
+ * A room or piece of equipment that only one booking can hold at a time.
+ * Services declare the resources they require, and a slot is only bookable
+ * while every required resource is free.
+ */
+const ResourceSchema = z.object({
+  id: z.string().min(1, 'Resource ID is required').regex(/^[a-z0-9-_]+$/, {
+    message: 'Resource ID must contain only lowercase letters, numbers, hyphens, and underscores'
+  }),
+  name: z.string().min(1, 'Resource name is required').max(100),
+  type: z.enum(['room', 'equipment']).default('room'),
+});
+
 /**
  * Main Tenant Configuration Schema
  */
@@ -454,11 +559,26 @@ export const TenantConfigSchema = z.object({
 
   // Services and categories
   categories: z.array(CategorySchema).min(1, 'Must have at least one category'),
+  capacityPools: z.array(CapacityPoolSchema).default([]),
+  resources: z.array(ResourceSchema).default([]),
 
   // Booking configuration
   bookingRequirements: BookingRequirementsSchema,
   bookingLimits: BookingLimitsSchema,
   cancellationPolicy: CancellationPolicySchema,
+  noShowPolicy: NoShowPolicySchema.default({
+    enabled: false,
+    maxNoShows: 2,
+    windowDays: 180,
+    action: 'block',
+  }),
+
+  slotRecommendations: SlotRecommendationsSchema.default({
+    enabled: false,
+    hideGapSlots: false,
+    maxRecommended: 3,
+    preferredTimes: [],
+  }),
 
   // Notifications
   notifications: NotificationPreferencesSchema,
@@ -486,12 +606,17 @@ export const TenantConfigSchema = z.object({
 export type TenantConfig = z.infer<typeof TenantConfigSchema>;
 export type Service = z.infer<typeof ServiceSchema>;
 export type Category = z.infer<typeof CategorySchema>;
+export type CapacityPool = z.infer<typeof CapacityPoolSchema>;
+export type Resource = z.infer<typeof ResourceSchema>;
 export type TimeSlot = z.infer<typeof TimeSlotSchema>;
 export type DailyAvailability = z.infer<typeof DailyAvailabilitySchema>;
 export type AvailabilityException = z.infer<typeof AvailabilityExceptionSchema>;
 export type BookingRequirements = z.infer<typeof BookingRequirementsSchema>;
 export type BookingLimits = z.infer<typeof BookingLimitsSchema>;
 export type CancellationPolicy = z.infer<typeof CancellationPolicySchema>;
+export type NoShowPolicy = z.infer<typeof NoShowPolicySchema>;
+export type PreferredTime = z.infer<typeof PreferredTimeSchema>;
+export type SlotRecommendations = z.infer<typeof SlotRecommendationsSchema>;
 export type NotificationPreferences = z.infer<typeof NotificationPreferencesSchema>;
 
 /**
@@ -523,6 +648,48 @@ export function validateTenantConfig(config: TenantConfig): {
     categoryIds.add(category.id);
   }
 
+  // Validate capacity pool IDs are unique and services only draw from declared pools
+  const poolIds = new Set<string>();
+  for (const pool of config.capacityPools) {
+    if (poolIds.has(pool.id)) {
+      errors.push(`Duplicate capacity pool ID: ${pool.id}`);
+    }
+    poolIds.add(pool.id);
+  }
+
+  for (const category of config.categories) {
+    for (const service of category.services) {
+      for (const poolId of service.capacityPools ?? []) {
+        if (!poolIds.has(poolId)) {
+          errors.push(`Service "${service.name}" draws from unknown capacity pool: ${poolId}`);
+        }
+      }
+    }
+  }
+
+  // Validate resource IDs are unique and services only require declared resources
+  const resourceIds = new Set<string>();
+  for (const resource of config.resources) {
+    if (resourceIds.has(resource.id)) {
+      errors.push(`Duplicate resource ID: ${resource.id}`);
+    }
+    resourceIds.add(resource.id);
+  }
+
+  for (const category of config.categories) {
+    for (const service of category.services) {
+      const { allOf = [], oneOf = [] } = service.resources ?? {};
+      for (const resourceId of [...allOf, ...oneOf]) {
+        if (!resourceIds.has(resourceId)) {
+          errors.push(`Service "${service.name}" requires unknown resource: ${resourceId}`);
+        }
+      }
+      for (const resourceId of oneOf.filter(id => allOf.includes(id))) {
+        errors.push(`Service "${service.name}" lists resource "${resourceId}" in both allOf and oneOf`);
+      }
+    }
+  }
+
   // Validate service duration uses 5-minute grain blocks (warnings only)
   // This allows flexible durations (15, 45, 75, 90, 105 min) with any timeSlotDuration
   for (const category of config.categories) {
@@ -0,0 +1,462 @@
+import { randomUUID } from 'crypto';
+import { DbClient } from '@/db/client';
+import { AppointmentStatus, CustomerProfile } from '@/db/types';
+import {
+  CustomerIdentity,
+  findProfileForIdentities,
+  getCustomerIdentities,
+  getIdentityKey,
+  normalizeTags,
+} from './identity';
+
+// Appointments linked per sync; the first sync of an older business catches up over a few page loads
+const SYNC_BATCH_SIZE = 500;
+
+export const DEFAULT_CUSTOMER_PAGE_SIZE = 50;
+export const MAX_CUSTOMER_PAGE_SIZE = 100;
+
+const HISTORY_LIMIT = 100;
+
+/**
+ * Directory row: the profile with its lifetime numbers
+ */
+export interface CustomerSummary {
+  id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  user_id: string | null;
+  tags: string[];
+  visits: number;
+  spend_cents: number;
+  no_shows: number;
+  last_visit: Date | null;
+}
+
+export interface CustomerStats {
+  visits: number;
+  visits_this_year: number;
+  spend_cents: number;
+  no_shows: number;
+  cancellations: number;
+  upcoming: number;
+  first_visit: Date | null;
+  last_visit: Date | null;
+}
+
+export interface CustomerAppointment {
+  id: string;
+  booking_id: string;
+  service_name: string | null;
+  price_cents: number | null;
+  slot_start: Date;
+  slot_end: Date;
+  status: AppointmentStatus;
+}
+
+export interface ListCustomersParams {
+  businessId: string;
+  search?: string;
+  tag?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface UpdateCustomerParams {
+  name?: string | null;
+  tags?: string[];
+  notes?: string | null;
+}
+
+interface UnlinkedAppointment {
+  id: string;
+  customer_id: string | null;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Customer Directory
+ *
+ * One profile per customer of a business, whether they booked as a guest or
+ * with an account. Appointments are linked to profiles by a sync that runs
+ * before the directory is read, so every booking path (public booking, manual,
+ * series, the public API) is covered without each of them knowing about it.
+ *
+ * A visit is an appointment that was completed, or confirmed and already over,
+ * since many owners never mark appointments as completed. Spend is the list
+ * price of the services of those visits.
+ */
+export class CustomerDirectory {
+  constructor(private db: DbClient) {}
+
+  /**
+   * Link appointments that have no profile yet, creating profiles for
+   * customers seen for the first time. Returns the number of appointments linked.
+   *
+   * Registered users are recognised by account first, then everyone by
+   * email and phone number. appointmentIds limits the sync to those appointments.
+   */
+  async syncBusiness(businessId: string, appointmentIds?: string[]): Promise<number> {
+    const unlinked = await this.db`
+      SELECT
+        a.id,
+        a.customer_id,
+        COALESCE(u.name, a.guest_name) AS name,
+        COALESCE(u.email, a.guest_email) AS email,
+        COALESCE(u.phone, a.guest_phone) AS phone
+      FROM appointments a
+      LEFT JOIN users u ON u.id = a.customer_id
+      WHERE a.business_id = ${businessId}
+        AND a.customer_profile_id IS NULL
+        AND (a.customer_id IS NOT NULL OR a.guest_email IS NOT NULL OR a.guest_phone IS NOT NULL)
+        ${appointmentIds ? this.db`AND a.id = ANY(${appointmentIds}::uuid[])` : this.db``}
+      ORDER BY a.created_at ASC
+      LIMIT ${SYNC_BATCH_SIZE}
+    ` as UnlinkedAppointment[];
+
+    if (unlinked.length === 0) {
+      return 0;
+    }
+
+    const [identityRows, userRows] = await Promise.all([
+      this.db`
+        SELECT kind, value, profile_id FROM customer_profile_identities
+        WHERE business_id = ${businessId}
+      `,
+      this.db`
+        SELECT id, user_id FROM customer_profiles
+        WHERE business_id = ${businessId} AND user_id IS NOT NULL
+      `,
+    ]);
+
+    const knownIdentities = new Map<string, string>(
+      identityRows.map(row => [
+        getIdentityKey({ kind: row.kind, value: row.value }),
+        row.profile_id as string,
+      ])
+    );
+    const profilesByUser = new Map<string, string>(
+      userRows.map(row => [row.user_id as string, row.id as string])
+    );
+
+    const newProfiles: { id: string; name: string | null; email: string | null; phone: string | null; user_id: string | null }[] = [];
+    const newIdentities: (CustomerIdentity & { profile_id: string })[] = [];
+    const links: { appointment_id: string; profile_id: string; name: string | null; email: string | null; phone: string | null; user_id: string | null }[] = [];
+
+    for (const appointment of unlinked) {
+      const identities = getCustomerIdentities(appointment);
+
+      let profileId =
+        (appointment.customer_id && profilesByUser.get(appointment.customer_id)) ||
+        findProfileForIdentities(identities, knownIdentities);
+
+      if (!profileId) {
+        if (identities.length === 0 && !appointment.customer_id) continue;
+
+        profileId = randomUUID();
+        newProfiles.push({
+          id: profileId,
+          name: appointment.name,
+          email: appointment.email,
+          phone: appointment.phone,
+          user_id: appointment.customer_id,
+        });
+      }
+
+      if (appointment.customer_id && !profilesByUser.has(appointment.customer_id)) {
+        profilesByUser.set(appointment.customer_id, profileId);
+      }
+
+      for (const identity of identities) {
+        const key = getIdentityKey(identity);
+        if (!knownIdentities.has(key)) {
+          knownIdentities.set(key, profileId);
+          newIdentities.push({ ...identity, profile_id: profileId });
+        }
+      }
+
+      links.push({
+        appointment_id: appointment.id,
+        profile_id: profileId,
+        name: appointment.name,
+        email: appointment.email,
+        phone: appointment.phone,
+        user_id: appointment.customer_id,
+      });
+    }
+
+    if (newProfiles.length > 0) {
+      await this.db`
+        INSERT INTO customer_profiles (id, business_id, name, email, phone, user_id)
+        SELECT p.id, ${businessId}, p.name, p.email, p.phone, p.user_id
+        FROM jsonb_to_recordset(${JSON.stringify(newProfiles)}::jsonb)
+          AS p(id UUID, name TEXT, email TEXT, phone TEXT, user_id UUID)
+      `;
+    }
+
+    if (newIdentities.length > 0) {
+      // A concurrent sync may have claimed an identity first; its profile keeps it
+      await this.db`
+        INSERT INTO customer_profile_identities (business_id, kind, value, profile_id)
+        SELECT ${businessId}, i.kind, i.value, i.profile_id
+        FROM jsonb_to_recordset(${JSON.stringify(newIdentities)}::jsonb)
+          AS i(kind TEXT, value TEXT, profile_id UUID)
+        ON CONFLICT (business_id, kind, value) DO NOTHING
+      `;
+    }
+
+    // Fill in details an existing profile was missing, then link
+    await this.db`
+      WITH links AS (
+        SELECT * FROM jsonb_to_recordset(${JSON.stringify(links)}::jsonb)
+          AS l(appointment_id UUID, profile_id UUID, name TEXT, email TEXT, phone TEXT, user_id UUID)
+      ),
+      filled AS (
+        UPDATE customer_profiles p
+        SET
+          name = COALESCE(p.name, d.name),
+          email = COALESCE(p.email, d.email),
+          phone = COALESCE(p.phone, d.phone),
+          user_id = COALESCE(p.user_id, d.user_id)
+        FROM (
+          SELECT DISTINCT ON (profile_id) profile_id, name, email, phone, user_id
+          FROM links
+          ORDER BY profile_id
+        ) d
+        WHERE p.id = d.profile_id
+          AND (p.name IS NULL OR p.email IS NULL OR p.phone IS NULL OR p.user_id IS NULL)
+      )
+      UPDATE appointments a
+      SET customer_profile_id = l.profile_id
+      FROM links l
+      WHERE a.id = l.appointment_id
+        AND a.customer_profile_id IS NULL
+    `;
+
+    return links.length;
+  }
+
+  async listCustomers(params: ListCustomersParams): Promise<{ customers: CustomerSummary[]; total: number }> {
+    const search = params.search?.trim();
+    const pattern = search ? `%${escapeLikePattern(search)}%` : null;
+    const phoneDigits = search?.replace(/\D/g, '') ?? '';
+    const phonePattern = phoneDigits.length >= 3 ? `%${phoneDigits}%` : null;
+    const limit = Math.min(params.limit ?? DEFAULT_CUSTOMER_PAGE_SIZE, MAX_CUSTOMER_PAGE_SIZE);
+
+    const rows = await this.db`
+      SELECT
+        p.id,
+        p.name,
+        p.email,
+        p.phone,
+        p.user_id,
+        p.tags,
+        COUNT(a.id) FILTER (
+          WHERE a.deleted_at IS NULL
+            AND (a.status = 'completed' OR (a.status = 'confirmed' AND a.slot_end <= NOW()))
+        )::int AS visits,
+        COALESCE(SUM(s.price_cents) FILTER (
+          WHERE a.deleted_at IS NULL
+            AND (a.status = 'completed' OR (a.status = 'confirmed' AND a.slot_end <= NOW()))
+        ), 0)::int AS spend_cents,
+        COUNT(a.id) FILTER (WHERE a.status = 'no_show')::int AS no_shows,
+        MAX(a.slot_start) FILTER (
+          WHERE a.deleted_at IS NULL
+            AND (a.status = 'completed' OR (a.status = 'confirmed' AND a.slot_end <= NOW()))
+        ) AS last_visit,
+        COUNT(*) OVER ()::int AS total
+      FROM customer_profiles p
+      LEFT JOIN appointments a ON a.customer_profile_id = p.id
+      LEFT JOIN services s ON s.id = a.service_id
+      WHERE p.business_id = ${params.businessId}
+        ${pattern
+          ? this.db`AND (
+              p.name ILIKE ${pattern}
+              OR p.email ILIKE ${pattern}
+              ${phonePattern ? this.db`OR regexp_replace(COALESCE(p.phone, ''), '\\D', '', 'g') LIKE ${phonePattern}` : this.db``}
+            )`
+          : this.db``}
+        ${params.tag ? this.db`AND ${params.tag} = ANY(p.tags)` : this.db``}
+      GROUP BY p.id
+      ORDER BY last_visit DESC NULLS LAST, p.name ASC NULLS LAST
+      LIMIT ${limit}
+      OFFSET ${params.offset ?? 0}
+    `;
+
+    const total = rows[0]?.total ?? 0;
+    for (const row of rows) delete row.total;
+
+    return { customers: rows as CustomerSummary[], total };
+  }
+
+  /**
+   * Tags in use across the business, most used first
+   */
+  async listTags(businessId: string): Promise<{ tag: string; count: number }[]> {
+    return await this.db`
+      SELECT tag, COUNT(*)::int AS count
+      FROM customer_profiles, unnest(tags) AS tag
+      WHERE business_id = ${businessId}
+      GROUP BY tag
+      ORDER BY count DESC, tag ASC
+    ` as { tag: string; count: number }[];
+  }
+
+  async getCustomer(id: string): Promise<CustomerProfile | null> {
+    const [profile] = await this.db`
+      SELECT * FROM customer_profiles WHERE id = ${id}
+    `;
+
+    return (profile as CustomerProfile) || null;
+  }
+
+  /**
+   * Lifetime numbers of a customer. "This year" is the calendar year in the
+   * business timezone.
+   */
+  async getCustomerStats(profileId: string): Promise<CustomerStats> {
+    const [stats] = await this.db`
+      SELECT
+        COUNT(a.id) FILTER (WHERE a.visited)::int AS visits,
+        COUNT(a.id) FILTER (
+          WHERE a.visited
+            AND a.slot_start >= (date_trunc('year', NOW() AT TIME ZONE b.timezone) AT TIME ZONE b.timezone)
+        )::int AS visits_this_year,
+        COALESCE(SUM(s.price_cents) FILTER (WHERE a.visited), 0)::int AS spend_cents,
+        COUNT(a.id) FILTER (WHERE a.status = 'no_show')::int AS no_shows,
+        COUNT(a.id) FILTER (WHERE a.status IN ('canceled', 'cancelled'))::int AS cancellations,
+        COUNT(a.id) FILTER (
+          WHERE a.status = 'confirmed' AND a.deleted_at IS NULL AND a.slot_start > NOW()
+        )::int AS upcoming,
+        MIN(a.slot_start) FILTER (WHERE a.visited) AS first_visit,
+        MAX(a.slot_start) FILTER (WHERE a.visited) AS last_visit
+      FROM customer_profiles p
+      JOIN businesses b ON b.id = p.business_id
+      LEFT JOIN LATERAL (
+        SELECT
+          ap.*,
+          ap.deleted_at IS NULL
+            AND (ap.status = 'completed' OR (ap.status = 'confirmed' AND ap.slot_end <= NOW())) AS visited
+        FROM appointments ap
+        WHERE ap.customer_profile_id = p.id
+      ) a ON TRUE
+      LEFT JOIN services s ON s.id = a.service_id
+      WHERE p.id = ${profileId}
+    `;
+
+    return stats as CustomerStats;
+  }
+
+  /**
+   * Appointments of a customer, newest first, canceled ones included
+   */
+  async listCustomerAppointments(profileId: string): Promise<CustomerAppointment[]> {
+    return await this.db`
+      SELECT
+        a.id,
+        a.booking_id,
+        s.name AS service_name,
+        s.price_cents,
+        a.slot_start,
+        a.slot_end,
+        a.status
+      FROM appointments a
+      LEFT JOIN services s ON s.id = a.service_id
+      WHERE a.customer_profile_id = ${profileId}
+      ORDER BY a.slot_start DESC
+      LIMIT ${HISTORY_LIMIT}
+    ` as CustomerAppointment[];
+  }
+
+  async updateCustomer(id: string, params: UpdateCustomerParams): Promise<CustomerProfile | null> {
+    const tags = params.tags !== undefined ? normalizeTags(params.tags) : null;
+
+    // Fields left out of the request keep their value; null clears name and notes
+    const [profile] = await this.db`
+      UPDATE customer_profiles
+      SET
+        name = CASE WHEN ${params.name !== undefined} THEN ${params.name ?? null}::text ELSE name END,
+        tags = COALESCE(${tags}::text[], tags),
+        notes = CASE WHEN ${params.notes !== undefined} THEN ${params.notes ?? null}::text ELSE notes END
+      WHERE id = ${id}
+      RETURNING *
+    `;
+
+    return (profile as CustomerProfile) || null;
+  }
+
+  /**
+   * Merge the source profile into the target: its appointments, emails and
+   * phone numbers move over, tags are combined, notes are appended, and the
+   * source profile is deleted. Future bookings with any of the source's
+   * details resolve to the target.
+   *
+   * Returns the merged profile and the number of appointments moved, or null
+   * if either profile is not in the business.
+   */
+  async mergeCustomers(
+    businessId: string,
+    targetId: string,
+    sourceId: string
+  ): Promise<{ profile: CustomerProfile; movedAppointments: number } | null> {
+    const profiles = await this.db`
+      SELECT * FROM customer_profiles
+      WHERE id IN (${targetId}, ${sourceId}) AND business_id = ${businessId}
+    ` as CustomerProfile[];
+
+    const target = profiles.find(p => p.id === targetId);
+    const source = profiles.find(p => p.id === sourceId);
+
+    if (!target || !source || targetId === sourceId) {
+      return null;
+    }
+
+    const tags = normalizeTags([...target.tags, ...source.tags]);
+    const notes = [target.notes, source.notes].filter(Boolean).join('\n\n') || null;
+
+    // One statement, so a failure never leaves appointments pointing at a deleted profile
+    const [merged] = await this.db`
+      WITH source AS (
+        DELETE FROM customer_profiles
+        WHERE id = ${sourceId} AND business_id = ${businessId}
+        RETURNING *
+      ),
+      moved_identities AS (
+        UPDATE customer_profile_identities
+        SET profile_id = ${targetId}
+        WHERE profile_id IN (SELECT id FROM source)
+      ),
+      moved_appointments AS (
+        UPDATE appointments
+        SET customer_profile_id = ${targetId}
+        WHERE customer_profile_id IN (SELECT id FROM source)
+        RETURNING id
+      )
+      UPDATE customer_profiles t
+      SET
+        name = COALESCE(t.name, source.name),
+        email = COALESCE(t.email, source.email),
+        phone = COALESCE(t.phone, source.phone),
+        user_id = COALESCE(t.user_id, source.user_id),
+        tags = ${tags}::text[],
+        notes = ${notes}
+      FROM source
+      WHERE t.id = ${targetId}
+      RETURNING t.*, (SELECT COUNT(*) FROM moved_appointments)::int AS moved_appointments
+    `;
+
+    if (!merged) {
+      return null;
+    }
+
+    const { moved_appointments: movedAppointments, ...profile } = merged;
+
+    return { profile: profile as CustomerProfile, movedAppointments };
+  }
+}
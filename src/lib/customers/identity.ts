@@ -0,0 +1,102 @@
+import { CustomerIdentityKind } from '@/db/types';
+
+// Shorter numbers are extensions or typos rather than a way to recognise someone
+const MIN_PHONE_DIGITS = 6;
+
+export const MAX_CUSTOMER_TAGS = 20;
+export const MAX_TAG_LENGTH = 32;
+
+export interface CustomerIdentity {
+  kind: CustomerIdentityKind;
+  value: string;
+}
+
+export interface CustomerContact {
+  email?: string | null;
+  phone?: string | null;
+}
+
+/**
+ * Email as used to recognise a customer: trimmed and lowercase
+ */
+export function normalizeEmail(email?: string | null): string | null {
+  const normalized = email?.trim().toLowerCase();
+  return normalized && normalized.includes('@') ? normalized : null;
+}
+
+/**
+ * Phone number as used to recognise a customer: digits only, keeping a
+ * leading + (or 00, its dial-out form) for international numbers.
+ * "+39 333 123 4567", "0039 333-1234567" and "+393331234567" are the same.
+ */
+export function normalizePhone(phone?: string | null): string | null {
+  const trimmed = phone?.trim();
+  if (!trimmed) return null;
+
+  const international = trimmed.startsWith('+') || trimmed.startsWith('00');
+  let digits = trimmed.replace(/\D/g, '');
+
+  if (trimmed.startsWith('00')) {
+    digits = digits.slice(2);
+  }
+
+  if (digits.length < MIN_PHONE_DIGITS) return null;
+
+  return international ? `+${digits}` : digits;
+}
+
+/**
+ * Identities a booking's contact details resolve to, email first
+ */
+export function getCustomerIdentities(contact: CustomerContact): CustomerIdentity[] {
+  const identities: CustomerIdentity[] = [];
+  const email = normalizeEmail(contact.email);
+  const phone = normalizePhone(contact.phone);
+
+  if (email) identities.push({ kind: 'email', value: email });
+  if (phone) identities.push({ kind: 'phone', value: phone });
+
+  return identities;
+}
+
+export function getIdentityKey(identity: CustomerIdentity): string {
+  return `${identity.kind}:${identity.value}`;
+}
+
+/**
+ * Profile for a set of identities, given the identities already known.
+ * Email wins over phone, so two people sharing a family phone number but
+ * booking with their own email stay apart.
+ */
+export function findProfileForIdentities(
+  identities: CustomerIdentity[],
+  knownIdentities: Map<string, string>
+): string | null {
+  for (const identity of identities) {
+    const profileId = knownIdentities.get(getIdentityKey(identity));
+    if (profileId) return profileId;
+  }
+
+  return null;
+}
+
+/**
+ * Owner-entered tags: trimmed, inner whitespace collapsed, and duplicates
+ * dropped ignoring case (the first spelling is kept)
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+
+  for (const tag of tags) {
+    const cleaned = tag.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+    const key = cleaned.toLowerCase();
+
+    if (!cleaned || seen.has(key)) continue;
+
+    seen.add(key);
+    normalized.push(cleaned);
+  }
+
+  return normalized.slice(0, MAX_CUSTOMER_TAGS);
+}
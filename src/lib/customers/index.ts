@@ -0,0 +1,38 @@
+/**
+ * Customers Module
+ *
+ * The per-business customer directory behind the customers dashboard page:
+ *
+ * 1. Profiles that bring together a customer's guest bookings and bookings
+ *    made with an account, recognised by normalised email and phone number
+ * 2. Lifetime visits, spend, no-shows and visit history, counted from the
+ *    linked appointments
+ * 3. Owner tags and private notes, and a merge for duplicates the matching
+ *    could not catch (a new email, a different phone)
+ *
+ * Gated by the customerDatabase subscription feature.
+ */
+
+export {
+  CustomerDirectory,
+  DEFAULT_CUSTOMER_PAGE_SIZE,
+  MAX_CUSTOMER_PAGE_SIZE,
+} from './customer-directory';
+export type {
+  CustomerSummary,
+  CustomerStats,
+  CustomerAppointment,
+  ListCustomersParams,
+  UpdateCustomerParams,
+} from './customer-directory';
+
+export {
+  normalizeEmail,
+  normalizePhone,
+  normalizeTags,
+  getCustomerIdentities,
+  findProfileForIdentities,
+  MAX_CUSTOMER_TAGS,
+  MAX_TAG_LENGTH,
+} from './identity';
+export type { CustomerIdentity, CustomerContact } from './identity';
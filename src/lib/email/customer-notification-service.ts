@@ -6,12 +6,19 @@ import {
   renderCancellationConfirmation,
   renderRescheduleConfirmation,
   renderAppointmentReminder,
+  renderSeriesSummary,
   getEmailSubject,
   type BookingConfirmationData,
   type CancellationConfirmationData,
   type RescheduleConfirmationData,
   type AppointmentReminderData,
+  type SeriesSummaryData,
+  type SeriesSummaryKind,
 } from './templates';
+import { TenantConfig } from '@/lib/config/tenant-schema';
+import { SmsService, SmsTemplate, SMS_TEMPLATES, renderSms } from '@/lib/sms';
+import { NotificationAttachment, NotificationPayload } from '@/db/types';
+import { buildAppointmentIcs, getAppointmentIcsFilename } from '@/lib/calendar';
 import { env } from '@/lib/env';
 
 export interface AppointmentData {
@@ -29,6 +36,39 @@ export interface AppointmentData {
   cancellationToken?: string;
 }
 
+/**
+ * Outcome of sending one notification
+ * success is false when nothing was delivered (the email or SMS failed, or
+ * the appointment or recipient could not be resolved).
+ */
+export interface NotificationDeliveryResult {
+  success: boolean;
+  error?: string;
+}
+
+interface AppointmentDetails {
+  businessId: string;
+  bookingId: string;
+  slotStart: Date;
+  slotEnd: Date;
+  status: string;
+  version: number;
+  updatedAt: Date;
+  serviceName: string;
+  price: number | null;
+  businessName: string;
+  businessSubdomain: string;
+  businessTimezone: string;
+  businessAddress?: string;
+  businessPhone?: string;
+  businessEmail?: string;
+  customerName: string | null;
+  customerEmail: string | null;
+  customerPhone: string | null;
+  locale?: string;
+  notifications?: TenantConfig['notifications'];
+}
+
 /**
  * Customer Notification Service
  *
@@ -37,9 +77,11 @@ export interface AppointmentData {
  */
 export class CustomerNotificationService {
   private emailService: EmailService;
+  private smsService: SmsService;
 
   constructor(private db: DbClient) {
     this.emailService = new EmailService(db);
+    this.smsService = new SmsService(db);
   }
 
   /**
@@ -71,6 +113,8 @@ export class CustomerNotificationService {
         customerEmail: details.customerEmail,
       });
 
+      await this.sendSmsNotification(appointmentData.id, details, 'appointment_confirmed');
+
       // Determine recipient email
       const recipientEmail = appointmentData.customerId
         ? details.customerEmail
@@ -127,6 +171,7 @@ export class CustomerNotificationService {
         subject,
         html,
         templateName: 'appointment_confirmed',
+        attachments: [this.buildCalendarAttachment(appointmentData.id, details, cancellationLink)],
         appointmentId: appointmentData.id,
       });
 
@@ -147,6 +192,8 @@ export class CustomerNotificationService {
       const details = await this.fetchAppointmentDetails(appointmentData.id);
       if (!details) return;
 
+      await this.sendSmsNotification(appointmentData.id, details, 'appointment_cancelled');
+
       const recipientEmail = appointmentData.customerId
         ? details.customerEmail
         : appointmentData.guestEmail;
@@ -197,6 +244,8 @@ export class CustomerNotificationService {
       const details = await this.fetchAppointmentDetails(appointmentData.id);
       if (!details) return;
 
+      await this.sendSmsNotification(appointmentData.id, details, 'appointment_rescheduled');
+
       const recipientEmail = appointmentData.customerId
         ? details.customerEmail
         : appointmentData.guestEmail;
@@ -239,6 +288,7 @@ export class CustomerNotificationService {
         subject,
         html,
         templateName: 'appointment_rescheduled',
+        attachments: [this.buildCalendarAttachment(appointmentData.id, details, cancellationLink)],
         appointmentId: appointmentData.id,
       });
 
@@ -249,85 +299,270 @@ export class CustomerNotificationService {
   }
 
   /**
-   * Send appointment reminder (24 hours before)
-   * TODO: Implement cron job to send reminders automatically
+   * Send one email summarising a change to a recurring series
+   * Used by the series routes instead of an email per occurrence.
+   *
+   * @param appointmentId - Any occurrence of the series; supplies the customer and business
+   * @param occurrences - Slots that were booked, moved or cancelled
+   * @param skipped - Slots left out of a new series because they were unavailable
    */
-  async sendAppointmentReminder(appointmentId: string): Promise<void> {
+  async sendSeriesSummary(
+    kind: SeriesSummaryKind,
+    appointmentId: string,
+    occurrences: Array<{ start: Date; end: Date }>,
+    skipped: Array<{ start: Date; end: Date }> = []
+  ): Promise<void> {
     try {
-      const details = await this.fetchAppointmentDetails(appointmentId);
-      if (!details) return;
-
-      const recipientEmail = details.customerEmail;
-      if (!recipientEmail) return;
+      if (occurrences.length === 0) return;
 
-      const baseUrl = env.NEXT_PUBLIC_APP_URL;
-      const cancellationLink = `${baseUrl}/book/manage/${appointmentId}`;
-      const rescheduleLink = `${baseUrl}/book/manage/${appointmentId}/reschedule`;
+      const details = await this.fetchAppointmentDetails(appointmentId);
+      if (!details?.customerEmail) return;
 
-      // TODO: Fetch unsubscribe preference from customer_preferences table
-      const unsubscribeLink = undefined;
+      const format = (slot: { start: Date; end: Date }) => ({
+        date: this.formatDate(slot.start),
+        time: this.formatTimeRange(slot.start, slot.end),
+      });
 
-      const emailData: AppointmentReminderData = {
+      const emailData: SeriesSummaryData = {
+        kind,
         customerName: details.customerName || 'Valued Customer',
         businessName: details.businessName,
         serviceName: details.serviceName,
-        appointmentDate: this.formatDate(details.slotStart),
-        appointmentTime: this.formatTimeRange(details.slotStart, details.slotEnd),
-        bookingId: appointmentId,
-        businessAddress: details.businessAddress,
+        occurrences: occurrences.map(format),
+        skipped: skipped.map(format),
+        bookingLink: kind === 'cancelled'
+          ? `${env.NEXT_PUBLIC_APP_URL}/book/${details.businessSubdomain}`
+          : undefined,
         businessPhone: details.businessPhone,
         businessEmail: details.businessEmail,
-        cancellationLink,
-        rescheduleLink,
-        unsubscribeLink,
       };
 
-      const html = await renderAppointmentReminder(emailData);
-      const subject = getEmailSubject('appointment_reminder', details.businessName);
+      const templateName = `series_${kind}` as const;
+      const html = await renderSeriesSummary(emailData);
 
       await this.emailService.sendEmail({
+        to: details.customerEmail,
+        subject: getEmailSubject(templateName, details.businessName),
+        html,
+        templateName,
+        appointmentId,
+      });
+
+      console.log(`Series ${kind} summary sent to ${details.customerEmail}`);
+    } catch (error) {
+      console.error('Failed to send series summary:', error);
+    }
+  }
+
+  /**
+   * Send appointment reminder
+   * Called by the reminder dispatcher (see src/lib/notifications/reminder-dispatcher.ts)
+   * once an appointment enters the tenant's notifications.reminderHoursBefore window.
+   *
+   * @param options.notificationLogId - Claimed notification_logs row to record delivery status on
+   */
+  async sendAppointmentReminder(
+    appointmentId: string,
+    options: { notificationLogId?: string } = {}
+  ): Promise<NotificationDeliveryResult> {
+    try {
+      const details = await this.fetchAppointmentDetails(appointmentId);
+      if (!details) {
+        return { success: false, error: 'Appointment not found' };
+      }
+
+      const recipientEmail = details.customerEmail;
+      if (!recipientEmail) {
+        return { success: false, error: 'No recipient email available' };
+      }
+
+      const { subject, html } = await this.renderReminderEmail(appointmentId, details);
+
+      const result = await this.emailService.sendEmail({
         to: recipientEmail,
         subject,
         html,
         templateName: 'appointment_reminder',
         appointmentId,
+        notificationLogId: options.notificationLogId,
       });
 
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
       console.log(`Appointment reminder sent to ${recipientEmail}`);
+      return { success: true };
     } catch (error) {
       console.error('Failed to send appointment reminder:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
     }
   }
 
+  /**
+   * Send appointment reminder SMS
+   * Called by the reminder dispatcher alongside (or instead of) the reminder email.
+   *
+   * @param options.notificationLogId - Claimed notification_logs row to record delivery status on
+   */
+  async sendAppointmentReminderSms(
+    appointmentId: string,
+    options: { notificationLogId?: string } = {}
+  ): Promise<NotificationDeliveryResult> {
+    try {
+      const details = await this.fetchAppointmentDetails(appointmentId);
+      if (!details) {
+        return { success: false, error: 'Appointment not found' };
+      }
+
+      return await this.sendSmsNotification(appointmentId, details, 'appointment_reminder', options.notificationLogId);
+    } catch (error) {
+      console.error('Failed to send appointment reminder SMS:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Render the content of a queued notification that has no stored payload
+   * Used by the notification worker for reminder claims whose first send never
+   * ran. Only content that can be rebuilt from the appointment alone is supported.
+   *
+   * @returns null if the appointment or template can't be rendered
+   */
+  async renderQueuedNotification(
+    appointmentId: string,
+    channel: 'email' | 'sms',
+    templateName: string
+  ): Promise<NotificationPayload | null> {
+    const details = await this.fetchAppointmentDetails(appointmentId);
+    if (!details) return null;
+
+    if (channel === 'email') {
+      if (templateName !== 'appointment_reminder') return null;
+      return this.renderReminderEmail(appointmentId, details);
+    }
+
+    if (!SMS_TEMPLATES.includes(templateName as SmsTemplate)) return null;
+
+    const locale = details.locale || 'en-US';
+    return {
+      body: this.renderSmsBody(templateName as SmsTemplate, locale, details),
+      businessId: details.businessId,
+      locale,
+    };
+  }
+
+  /**
+   * Send the SMS counterpart of a notification if the tenant enabled it and
+   * the customer has a phone number. Reminders follow notifications.sendReminderSMS,
+   * everything else notifications.sendConfirmationSMS. Never throws; a
+   * skipped SMS is reported as not delivered.
+   */
+  private async sendSmsNotification(
+    appointmentId: string,
+    details: AppointmentDetails,
+    templateName: SmsTemplate,
+    notificationLogId?: string
+  ): Promise<NotificationDeliveryResult> {
+    const enabled = templateName === 'appointment_reminder'
+      ? details.notifications?.sendReminderSMS
+      : details.notifications?.sendConfirmationSMS;
+
+    if (!enabled || !details.customerPhone) {
+      return { success: false, error: 'SMS disabled or no phone number' };
+    }
+
+    const locale = details.locale || 'en-US';
+
+    try {
+      const result = await this.smsService.sendSms({
+        businessId: details.businessId,
+        to: details.customerPhone,
+        locale,
+        body: this.renderSmsBody(templateName, locale, details),
+        templateName,
+        appointmentId,
+        notificationLogId,
+      });
+
+      if (result.success) {
+        console.log(`${templateName} SMS sent for appointment ${appointmentId}`);
+      }
+
+      return { success: result.success, error: result.error };
+    } catch (error) {
+      console.error(`Failed to send ${templateName} SMS:`, error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private async renderReminderEmail(
+    appointmentId: string,
+    details: AppointmentDetails
+  ): Promise<{ subject: string; html: string }> {
+    const baseUrl = env.NEXT_PUBLIC_APP_URL;
+    const cancellationLink = `${baseUrl}/book/manage/${appointmentId}`;
+    const rescheduleLink = `${baseUrl}/book/manage/${appointmentId}/reschedule`;
+
+    // TODO: Fetch unsubscribe preference from customer_preferences table
+    const unsubscribeLink = undefined;
+
+    const emailData: AppointmentReminderData = {
+      customerName: details.customerName || 'Valued Customer',
+      businessName: details.businessName,
+      serviceName: details.serviceName,
+      appointmentDate: this.formatDate(details.slotStart),
+      appointmentTime: this.formatTimeRange(details.slotStart, details.slotEnd),
+      bookingId: appointmentId,
+      businessAddress: details.businessAddress,
+      businessPhone: details.businessPhone,
+      businessEmail: details.businessEmail,
+      cancellationLink,
+      rescheduleLink,
+      unsubscribeLink,
+    };
+
+    const html = await renderAppointmentReminder(emailData);
+    const subject = getEmailSubject('appointment_reminder', details.businessName);
+
+    return { subject, html };
+  }
+
+  private renderSmsBody(templateName: SmsTemplate, locale: string, details: AppointmentDetails): string {
+    return renderSms(templateName, locale, {
+      businessName: details.businessName,
+      serviceName: details.serviceName,
+      slotStart: details.slotStart,
+      timezone: details.businessTimezone,
+      bookingId: details.bookingId,
+    });
+  }
+
   /**
    * Fetch full appointment details from database and YAML config
    */
-  private async fetchAppointmentDetails(appointmentId: string): Promise<{
-    id: string;
-    slot_start: Date;
-    slot_end: Date;
-    guest_name: string;
-    guest_email: string;
-    service_name: string;
-    price_cents: number;
-    business_name: string;
-    business_timezone: string;
-    [key: string]: unknown;
-  }> {
+  private async fetchAppointmentDetails(appointmentId: string): Promise<AppointmentDetails | null> {
     const result = await this.db`
       SELECT
         a.id,
         a.slot_start,
         a.slot_end,
+        a.business_id,
+        a.booking_id,
+        a.status,
+        a.version,
+        a.updated_at,
         a.guest_name,
         a.guest_email,
+        a.guest_phone,
         s.name as service_name,
         s.price_cents,
         b.name as business_name,
         b.subdomain as business_subdomain,
         b.timezone as business_timezone,
         u.name as customer_name,
-        u.email as customer_email
+        u.email as customer_email,
+        u.phone as customer_phone
       FROM appointments a
       JOIN services s ON a.service_id = s.id
       JOIN businesses b ON a.business_id = b.id
@@ -342,11 +577,10 @@ export class CustomerNotificationService {
 
     const row = result[0];
 
-    // Load business config to get contact info
+    // Load business config to get contact info and notification preferences
     const configResult = await loadConfigBySubdomain(row.business_subdomain);
-    const contact = configResult.success && configResult.config
-      ? configResult.config.contact
-      : null;
+    const config = configResult.success && configResult.config ? configResult.config : null;
+    const contact = config?.contact;
 
     // Format address object to string
     let formattedAddress: string | undefined = undefined;
@@ -366,8 +600,13 @@ export class CustomerNotificationService {
     }
 
     return {
-      slotStart: row.slot_start,
-      slotEnd: row.slot_end,
+      businessId: row.business_id,
+      bookingId: row.booking_id,
+      slotStart: new Date(row.slot_start),
+      slotEnd: new Date(row.slot_end),
+      status: row.status,
+      version: row.version,
+      updatedAt: new Date(row.updated_at),
       serviceName: row.service_name,
       price: row.price_cents,
       businessName: row.business_name,
@@ -378,6 +617,39 @@ export class CustomerNotificationService {
       businessEmail: contact?.email,
       customerName: row.customer_name || row.guest_name,
       customerEmail: row.customer_email || row.guest_email,
+      customerPhone: row.customer_phone || row.guest_phone,
+      locale: config?.business.locale,
+      notifications: config?.notifications,
+    };
+  }
+
+  /**
+   * .ics file of the appointment, so the customer can add it to their calendar
+   * The reschedule attachment shares the confirmation's UID and replaces that event.
+   */
+  private buildCalendarAttachment(
+    appointmentId: string,
+    details: AppointmentDetails,
+    manageLink: string
+  ): NotificationAttachment {
+    const ics = buildAppointmentIcs({
+      id: appointmentId,
+      bookingId: details.bookingId,
+      serviceName: details.serviceName,
+      businessName: details.businessName,
+      start: details.slotStart,
+      end: details.slotEnd,
+      status: details.status,
+      location: details.businessAddress,
+      url: manageLink,
+      version: details.version,
+      updatedAt: details.updatedAt,
+    }, details.businessTimezone);
+
+    return {
+      filename: getAppointmentIcsFilename(details.bookingId),
+      content: Buffer.from(ics).toString('base64'),
+      contentType: 'text/calendar; charset=utf-8',
     };
   }
 
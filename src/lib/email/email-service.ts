@@ -2,6 +2,8 @@ import { Resend } from 'resend';
 import { DbClient } from '@/db/client';
 import { v4 as uuidv4 } from 'uuid';
 import { env } from '@/lib/env';
+import { NotificationAttachment, NotificationPayload } from '@/db/types';
+import { getNextAttemptAt } from '@/lib/notifications/retry-policy';
 
 // Lazy initialization of Resend client to ensure env vars are loaded
 let resendClient: Resend | null = null;
@@ -17,14 +19,22 @@ export type EmailTemplate =
   | 'appointment_cancelled'
   | 'appointment_rescheduled'
   | 'appointment_reminder'
-  | 'email_verification';
+  | 'email_verification'
+  | 'password_reset'
+  | 'staff_invitation'
+  | 'waitlist_offer'
+  | 'series_created'
+  | 'series_updated'
+  | 'series_cancelled';
 
 export interface SendEmailParams {
   to: string;
   subject: string;
   html: string;
   templateName: EmailTemplate;
+  attachments?: NotificationAttachment[];
   appointmentId?: string;
+  notificationLogId?: string; // Reuse an existing notification_logs row (e.g. a claimed reminder)
 }
 
 export interface EmailDeliveryResult {
@@ -36,120 +46,124 @@ export interface EmailDeliveryResult {
 /**
  * Email Service
  *
- * Handles sending emails via Resend and logging delivery status.
- * Implements immediate delivery with retry logic and exponential backoff.
- *
- * TODO: If email volume grows significantly, refactor to use a queue-based worker system
+ * Sends emails via Resend and logs delivery status to notification_logs.
+ * Each email is tried once inline so request handlers aren't held up; a failed
+ * send is stored with its rendered content and retried with exponential backoff
+ * by the notification worker (src/lib/notifications/notification-worker.ts).
  */
 export class EmailService {
   constructor(private db: DbClient) {}
 
   /**
    * Send an email and log the delivery attempt
-   * Implements retry logic with exponential backoff for transient failures
+   * On failure the email is queued for retry and the error is returned.
    */
   async sendEmail(params: SendEmailParams): Promise<EmailDeliveryResult> {
-    const { to, subject, html, templateName, appointmentId } = params;
+    const { to, subject, html, attachments, templateName, appointmentId, notificationLogId } = params;
 
     console.log(`🔔 EmailService.sendEmail called for template: ${templateName}, recipient: ${to}`);
 
-    const maxRetries = 3;
-    const baseDelay = 1000; // 1 second
-
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        console.log('📨 Calling Resend API:', { to, subject, from: env.EMAIL_FROM });
-
-        // Send email via Resend
-        // Use Resend's onboarding domain for testing (or your verified domain)
-        const fromEmail = env.EMAIL_FROM || 'Rhivo <onboarding@resend.dev>';
-
-        const resend = getResendClient();
-        const { data, error } = await resend.emails.send({
-          from: fromEmail,
-          to,
-          subject,
-          html,
-        });
-
-        console.log('📬 Resend API response:', { data, error });
-
-        if (error) {
-          console.error('❌ Resend API error:', error);
-          throw new Error(error.message || 'Failed to send email');
-        }
-
-        console.log('✅ Email sent successfully via Resend. Message ID:', data?.id);
-
-        // Log successful delivery
-        await this.logEmailDelivery({
-          appointmentId,
-          recipientEmail: to,
-          templateName,
-          status: 'sent',
-          attempts: attempt + 1,
-          messageId: data?.id,
-        });
-
-        return {
-          success: true,
-          messageId: data?.id,
-        };
-
-      } catch (error) {
-        const isLastAttempt = attempt === maxRetries - 1;
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-        // Log failed attempt
-        await this.logEmailDelivery({
-          appointmentId,
-          recipientEmail: to,
-          templateName,
-          status: isLastAttempt ? 'failed' : 'retrying',
-          attempts: attempt + 1,
-          errorMessage,
-        });
-
-        // If not last attempt, wait with exponential backoff
-        if (!isLastAttempt) {
-          const delay = baseDelay * Math.pow(2, attempt);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
-
-        // Last attempt failed
-        return {
-          success: false,
-          error: errorMessage,
-        };
-      }
+    try {
+      const messageId = await this.deliver({ to, subject, html, attachments });
+
+      console.log('✅ Email sent successfully via Resend. Message ID:', messageId);
+
+      // Log successful delivery
+      await this.logEmailDelivery({
+        id: notificationLogId,
+        appointmentId,
+        recipientEmail: to,
+        templateName,
+        status: 'sent',
+        messageId,
+      });
+
+      return {
+        success: true,
+        messageId,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      // Queue for the worker to retry
+      await this.logEmailDelivery({
+        id: notificationLogId,
+        appointmentId,
+        recipientEmail: to,
+        templateName,
+        status: 'retrying',
+        errorMessage,
+        payload: { subject, html, attachments },
+        nextAttemptAt: getNextAttemptAt(1),
+      });
+
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Send an email through Resend without logging
+   * Used by sendEmail and by the notification worker for retries.
+   *
+   * @returns Resend message id
+   * @throws If Resend rejects the email
+   */
+  async deliver(params: {
+    to: string;
+    subject: string;
+    html: string;
+    attachments?: NotificationAttachment[];
+  }): Promise<string | undefined> {
+    const { to, subject, html, attachments } = params;
+
+    console.log('📨 Calling Resend API:', { to, subject, from: env.EMAIL_FROM });
+
+    // Use Resend's onboarding domain for testing (or your verified domain)
+    const fromEmail = env.EMAIL_FROM || 'Rhivo <onboarding@resend.dev>';
+
+    const resend = getResendClient();
+    const { data, error } = await resend.emails.send({
+      from: fromEmail,
+      to,
+      subject,
+      html,
+      attachments,
+    });
+
+    if (error) {
+      console.error('❌ Resend API error:', error);
+      throw new Error(error.message || 'Failed to send email');
     }
 
-    return {
-      success: false,
-      error: 'Max retries exceeded',
-    };
+    return data?.id;
   }
 
   /**
    * Log email delivery attempt to notification_logs table
    */
   private async logEmailDelivery(params: {
+    id?: string;
     appointmentId?: string;
     recipientEmail: string;
     templateName: EmailTemplate;
-    status: 'sent' | 'failed' | 'retrying';
-    attempts: number;
+    status: 'sent' | 'retrying';
     messageId?: string;
     errorMessage?: string;
+    payload?: NotificationPayload;
+    nextAttemptAt?: Date | null;
   }): Promise<void> {
     const {
+      id,
       appointmentId,
       recipientEmail,
       templateName,
       status,
-      attempts,
       errorMessage,
+      payload,
+      nextAttemptAt,
     } = params;
 
     await this.db`
@@ -162,24 +176,33 @@ export class EmailService {
         status,
         attempts,
         error_message,
+        payload,
+        next_attempt_at,
+        locked_until,
         last_attempt_at,
         created_at
       ) VALUES (
-        ${uuidv4()},
+        ${id || uuidv4()},
         ${appointmentId || null},
         ${recipientEmail},
         'email',
         ${templateName},
-        ${status === 'sent' ? 'sent' : 'failed'},
-        ${attempts},
+        ${status},
+        1,
         ${errorMessage || null},
+        ${payload ? JSON.stringify(payload) : null},
+        ${nextAttemptAt || null},
+        NULL,
         NOW(),
         NOW()
       )
       ON CONFLICT (id) DO UPDATE SET
         status = EXCLUDED.status,
-        attempts = EXCLUDED.attempts,
+        attempts = notification_logs.attempts + 1,
         error_message = EXCLUDED.error_message,
+        payload = COALESCE(EXCLUDED.payload, notification_logs.payload),
+        next_attempt_at = EXCLUDED.next_attempt_at,
+        locked_until = NULL,
         last_attempt_at = EXCLUDED.last_attempt_at
     `;
   }
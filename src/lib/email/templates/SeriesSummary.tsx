@@ -0,0 +1,320 @@
+import {
+  Body,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Link,
+  Preview,
+  Section,
+  Text,
+  Hr,
+} from '@react-email/components';
+import * as React from 'react';
+
+export type SeriesSummaryKind = 'created' | 'updated' | 'cancelled';
+
+interface SeriesSummaryOccurrence {
+  date: string;
+  time: string;
+}
+
+interface SeriesSummaryProps {
+  kind: SeriesSummaryKind;
+  customerName: string;
+  businessName: string;
+  serviceName: string;
+  occurrences: SeriesSummaryOccurrence[];
+  skipped?: SeriesSummaryOccurrence[]; // Dates left out of a new series because they were unavailable
+  bookingLink?: string;
+  businessPhone?: string;
+  businessEmail?: string;
+}
+
+const HEADINGS: Record<SeriesSummaryKind, { it: string; en: string; intro: string; introEn: string }> = {
+  created: {
+    it: 'Appuntamenti Ricorrenti Confermati',
+    en: 'Recurring Appointments Confirmed',
+    intro: 'Abbiamo prenotato per te i seguenti appuntamenti:',
+    introEn: 'We have booked the following appointments for you:',
+  },
+  updated: {
+    it: 'Appuntamenti Ricorrenti Modificati',
+    en: 'Recurring Appointments Updated',
+    intro: 'I tuoi appuntamenti sono stati spostati. Ecco i nuovi orari:',
+    introEn: 'Your appointments have been moved. These are the new times:',
+  },
+  cancelled: {
+    it: 'Appuntamenti Ricorrenti Annullati',
+    en: 'Recurring Appointments Cancelled',
+    intro: 'I seguenti appuntamenti sono stati annullati:',
+    introEn: 'The following appointments have been cancelled:',
+  },
+};
+
+export const SeriesSummary = ({
+  kind = 'created',
+  customerName = 'John Doe',
+  businessName = 'Blues Barber',
+  serviceName = 'Haircut',
+  occurrences = [
+    { date: 'Saturday, March 15, 2025', time: '10:00 AM - 10:45 AM' },
+    { date: 'Saturday, March 29, 2025', time: '10:00 AM - 10:45 AM' },
+  ],
+  skipped = [],
+  bookingLink,
+  businessPhone,
+  businessEmail,
+}: SeriesSummaryProps) => {
+  const heading = HEADINGS[kind];
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{`${heading.it} - ${businessName}`}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {/* Header */}
+          <Section style={header}>
+            <Heading style={h1}>{heading.it}</Heading>
+            <Text style={h1Secondary}>{heading.en}</Text>
+            <Text style={subtitle}>
+              Ciao {customerName},
+            </Text>
+            <Text style={subtitleSecondary}>
+              Hi {customerName},
+            </Text>
+          </Section>
+
+          {/* Occurrences */}
+          <Section style={contentBox}>
+            <Text style={paragraph}>{heading.intro}</Text>
+            <Text style={paragraphSecondary}>{heading.introEn}</Text>
+            <Text style={serviceText}>
+              {serviceName} · {businessName}
+            </Text>
+            {occurrences.map((occurrence, index) => (
+              <Text key={index} style={occurrenceText}>
+                {occurrence.date} · {occurrence.time}
+              </Text>
+            ))}
+          </Section>
+
+          {/* Dates that could not be booked */}
+          {skipped.length > 0 && (
+            <Section style={skippedSection}>
+              <Text style={skippedTitle}>
+                Date non disponibili / Dates not available
+              </Text>
+              {skipped.map((occurrence, index) => (
+                <Text key={index} style={skippedText}>
+                  {occurrence.date} · {occurrence.time}
+                </Text>
+              ))}
+            </Section>
+          )}
+
+          {bookingLink && (
+            <Section style={buttonSection}>
+              <Link href={bookingLink} style={button}>
+                Prenota di Nuovo / Book Again
+              </Link>
+            </Section>
+          )}
+
+          {/* Contact */}
+          {(businessPhone || businessEmail) && (
+            <>
+              <Hr style={hr} />
+              <Section style={contactSection}>
+                <Text style={contactTitle}>Domande? / Questions?</Text>
+                {businessPhone && <Text style={contactText}>{businessPhone}</Text>}
+                {businessEmail && <Text style={contactText}>{businessEmail}</Text>}
+              </Section>
+            </>
+          )}
+
+          {/* Footer */}
+          <Hr style={hr} />
+          <Section style={footer}>
+            <Text style={footerText}>
+              Questa è un&apos;email automatica da Rhivo.
+            </Text>
+            <Text style={footerTextSecondary}>
+              This is an automated email from Rhivo.
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+export default SeriesSummary;
+
+// Styles following Rhivo's functional minimalism design
+const main = {
+  backgroundColor: '#f9fafb',
+  fontFamily:
+    '-apple-system, BlinkMacSystemFont, "SF Pro Display", "Segoe UI", sans-serif',
+};
+
+const container = {
+  margin: '40px auto',
+  padding: '20px',
+  maxWidth: '600px',
+  backgroundColor: '#ffffff',
+  borderRadius: '16px',
+  boxShadow: '0 1px 3px rgba(0, 0, 0, 0.05)',
+};
+
+const header = {
+  textAlign: 'center' as const,
+  marginBottom: '32px',
+  paddingTop: '24px',
+};
+
+const h1 = {
+  fontSize: '30px',
+  fontWeight: '700',
+  color: '#111827',
+  margin: '0 0 4px 0',
+  letterSpacing: '-0.011em',
+};
+
+const h1Secondary = {
+  fontSize: '18px',
+  fontWeight: '500',
+  color: '#9ca3af',
+  margin: '0 0 12px 0',
+  letterSpacing: '-0.011em',
+};
+
+const subtitle = {
+  fontSize: '16px',
+  color: '#6b7280',
+  margin: '0 0 4px 0',
+};
+
+const subtitleSecondary = {
+  fontSize: '14px',
+  color: '#9ca3af',
+  margin: '0',
+};
+
+const contentBox = {
+  backgroundColor: '#f9fafb',
+  borderRadius: '12px',
+  padding: '24px',
+  marginBottom: '24px',
+};
+
+const paragraph = {
+  fontSize: '15px',
+  color: '#374151',
+  margin: '0 0 4px 0',
+  lineHeight: '1.6',
+};
+
+const paragraphSecondary = {
+  fontSize: '14px',
+  color: '#9ca3af',
+  margin: '0 0 16px 0',
+  lineHeight: '1.6',
+};
+
+const serviceText = {
+  fontSize: '16px',
+  fontWeight: '600',
+  color: '#111827',
+  margin: '0 0 12px 0',
+};
+
+const occurrenceText = {
+  fontSize: '15px',
+  color: '#374151',
+  margin: '4px 0',
+  padding: '8px 12px',
+  backgroundColor: '#ffffff',
+  borderRadius: '8px',
+  border: '1px solid #e5e7eb', // gray-200
+};
+
+const skippedSection = {
+  backgroundColor: '#fffbeb', // amber-50
+  borderRadius: '12px',
+  padding: '20px 24px',
+  marginBottom: '24px',
+  border: '1px solid #fde68a', // amber-200
+};
+
+const skippedTitle = {
+  fontSize: '14px',
+  fontWeight: '600',
+  color: '#92400e', // amber-800
+  margin: '0 0 8px 0',
+};
+
+const skippedText = {
+  fontSize: '13px',
+  color: '#92400e',
+  margin: '2px 0',
+};
+
+const buttonSection = {
+  textAlign: 'center' as const,
+  margin: '32px 0',
+};
+
+const button = {
+  display: 'inline-block',
+  padding: '14px 40px',
+  backgroundColor: '#14b8a6', // teal-500
+  color: '#ffffff',
+  borderRadius: '16px', // rounded-2xl for emphasis
+  textDecoration: 'none',
+  fontWeight: '600',
+  fontSize: '16px',
+};
+
+const contactSection = {
+  textAlign: 'center' as const,
+};
+
+const contactTitle = {
+  fontSize: '14px',
+  fontWeight: '600',
+  color: '#111827', // gray-900
+  margin: '0 0 8px 0',
+};
+
+const contactText = {
+  fontSize: '13px',
+  color: '#6b7280', // gray-500
+  margin: '2px 0',
+};
+
+const hr = {
+  border: 'none',
+  borderTop: '1px solid #e5e7eb',
+  margin: '24px 0',
+};
+
+const footer = {
+  textAlign: 'center' as const,
+  marginTop: '32px',
+};
+
+const footerText = {
+  fontSize: '12px',
+  color: '#9ca3af',
+  margin: '4px 0',
+  lineHeight: '1.5',
+};
+
+const footerTextSecondary = {
+  fontSize: '11px',
+  color: '#d1d5db',
+  margin: '2px 0',
+  lineHeight: '1.5',
+};
@@ -0,0 +1,274 @@
+import {
+  Body,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Link,
+  Preview,
+  Section,
+  Text,
+  Hr,
+} from '@react-email/components';
+import * as React from 'react';
+
+interface StaffInvitationProps {
+  staffName: string;
+  businessName: string;
+  inviterName?: string;
+  acceptUrl: string;
+  expiryDays?: number;
+}
+
+export const StaffInvitation = ({
+  staffName = 'John Doe',
+  businessName = 'Blues Barber',
+  inviterName,
+  acceptUrl = 'https://rhivo.app/auth/accept-invite?token=abc123',
+  expiryDays = 7,
+}: StaffInvitationProps) => {
+  return (
+    <Html>
+      <Head />
+      <Preview>{`Sei stato invitato a unirti a ${businessName} su Rhivo - You've been invited to join ${businessName} on Rhivo`}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {/* Header */}
+          <Section style={header}>
+            <Heading style={h1}>Unisciti a {businessName}</Heading>
+            <Text style={h1Secondary}>Join {businessName}</Text>
+            <Text style={subtitle}>
+              Ciao {staffName},
+            </Text>
+            <Text style={subtitleSecondary}>
+              Hi {staffName},
+            </Text>
+          </Section>
+
+          {/* Main Content */}
+          <Section style={contentBox}>
+            <Text style={paragraph}>
+              {inviterName ? `${inviterName} ti ha invitato` : 'Sei stato invitato'} a far parte
+              dello staff di {businessName} su Rhivo. Una volta accettato l&apos;invito, i clienti
+              potranno prenotare direttamente con te e vedrai i tuoi appuntamenti nel calendario.
+            </Text>
+            <Text style={paragraphSecondary}>
+              {inviterName ? `${inviterName} has invited you` : 'You have been invited'} to join the
+              staff of {businessName} on Rhivo. Once you accept, customers can book with you directly
+              and your appointments will appear in your calendar.
+            </Text>
+          </Section>
+
+          {/* Accept Button */}
+          <Section style={buttonSection}>
+            <Link href={acceptUrl} style={button}>
+              Accetta Invito / Accept Invitation
+            </Link>
+          </Section>
+
+          {/* Alternative Link */}
+          <Section style={linkSection}>
+            <Text style={alternativeText}>
+              Se il pulsante non funziona, copia e incolla questo link nel tuo browser:
+            </Text>
+            <Text style={alternativeTextSecondary}>
+              If the button doesn&apos;t work, copy and paste this link into your browser:
+            </Text>
+            <Text style={linkText}>
+              <Link href={acceptUrl} style={link}>
+                {acceptUrl}
+              </Link>
+            </Text>
+          </Section>
+
+          {/* Security Notice */}
+          <Hr style={hr} />
+          <Section style={securitySection}>
+            <Text style={securityTitle}>Informazioni sulla Sicurezza / Security Information</Text>
+            <Text style={securityText}>
+              • Questo invito scadrà tra {expiryDays} giorni e può essere usato una sola volta / This invitation expires in {expiryDays} days and can only be used once
+            </Text>
+            <Text style={securityText}>
+              • Se non conosci {businessName}, ignora questa email / If you don&apos;t know {businessName}, please ignore this email
+            </Text>
+          </Section>
+
+          {/* Footer */}
+          <Hr style={hr} />
+          <Section style={footer}>
+            <Text style={footerText}>
+              Questa è un&apos;email automatica da Rhivo.
+            </Text>
+            <Text style={footerTextSecondary}>
+              This is an automated email from Rhivo.
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+export default StaffInvitation;
+
+// Styles following Rhivo's functional minimalism design
+const main = {
+  backgroundColor: '#f9fafb',
+  fontFamily:
+    '-apple-system, BlinkMacSystemFont, "SF Pro Display", "Segoe UI", sans-serif',
+};
+
+const container = {
+  margin: '40px auto',
+  padding: '20px',
+  maxWidth: '600px',
+  backgroundColor: '#ffffff',
+  borderRadius: '16px',
+  boxShadow: '0 1px 3px rgba(0, 0, 0, 0.05)',
+};
+
+const header = {
+  textAlign: 'center' as const,
+  marginBottom: '32px',
+  paddingTop: '24px',
+};
+
+const h1 = {
+  fontSize: '30px',
+  fontWeight: '700',
+  color: '#111827',
+  margin: '0 0 4px 0',
+  letterSpacing: '-0.011em',
+};
+
+const h1Secondary = {
+  fontSize: '18px',
+  fontWeight: '500',
+  color: '#9ca3af',
+  margin: '0 0 12px 0',
+  letterSpacing: '-0.011em',
+};
+
+const subtitle = {
+  fontSize: '16px',
+  color: '#6b7280',
+  margin: '0 0 4px 0',
+};
+
+const subtitleSecondary = {
+  fontSize: '14px',
+  color: '#9ca3af',
+  margin: '0',
+};
+
+const contentBox = {
+  backgroundColor: '#f9fafb',
+  borderRadius: '12px',
+  padding: '24px',
+  marginBottom: '24px',
+};
+
+const paragraph = {
+  fontSize: '15px',
+  color: '#374151',
+  margin: '0 0 12px 0',
+  lineHeight: '1.6',
+};
+
+const paragraphSecondary = {
+  fontSize: '14px',
+  color: '#9ca3af',
+  margin: '0',
+  lineHeight: '1.6',
+};
+
+const buttonSection = {
+  textAlign: 'center' as const,
+  margin: '32px 0',
+};
+
+const button = {
+  display: 'inline-block',
+  padding: '14px 40px',
+  backgroundColor: '#14b8a6', // teal-500
+  color: '#ffffff',
+  borderRadius: '16px', // rounded-2xl for emphasis
+  textDecoration: 'none',
+  fontWeight: '600',
+  fontSize: '16px',
+};
+
+const linkSection = {
+  textAlign: 'center' as const,
+  marginBottom: '24px',
+};
+
+const alternativeText = {
+  fontSize: '13px',
+  color: '#6b7280',
+  margin: '0 0 4px 0',
+};
+
+const alternativeTextSecondary = {
+  fontSize: '12px',
+  color: '#9ca3af',
+  margin: '0 0 12px 0',
+};
+
+const linkText = {
+  fontSize: '12px',
+  margin: '8px 0',
+};
+
+const link = {
+  color: '#14b8a6',
+  textDecoration: 'underline',
+  wordBreak: 'break-all' as const,
+};
+
+const securitySection = {
+  backgroundColor: '#f9fafb', // gray-50
+  borderRadius: '12px',
+  padding: '24px',
+  marginTop: '24px',
+  border: '1px solid #e5e7eb', // gray-200
+};
+
+const securityTitle = {
+  fontSize: '14px',
+  fontWeight: '600',
+  color: '#111827', // gray-900
+  margin: '0 0 12px 0',
+};
+
+const securityText = {
+  fontSize: '13px',
+  color: '#6b7280', // gray-500
+  margin: '4px 0',
+  lineHeight: '1.5',
+};
+
+const hr = {
+  border: 'none',
+  borderTop: '1px solid #e5e7eb',
+  margin: '24px 0',
+};
+
+const footer = {
+  textAlign: 'center' as const,
+  marginTop: '32px',
+};
+
+const footerText = {
+  fontSize: '12px',
+  color: '#9ca3af',
+  margin: '4px 0',
+  lineHeight: '1.5',
+};
+
+const footerTextSecondary = {
+  fontSize: '11px',
+  color: '#d1d5db',
+  margin: '2px 0',
+  lineHeight: '1.5',
+};
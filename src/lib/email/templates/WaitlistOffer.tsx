@@ -0,0 +1,297 @@
+import {
+  Body,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Link,
+  Preview,
+  Section,
+  Text,
+  Hr,
+} from '@react-email/components';
+import * as React from 'react';
+
+interface WaitlistOfferProps {
+  customerName: string;
+  businessName: string;
+  serviceName: string;
+  appointmentDate: string;
+  appointmentTime: string;
+  claimUrl: string;
+  expiryMinutes?: number;
+}
+
+export const WaitlistOffer = ({
+  customerName = 'John Doe',
+  businessName = 'Blues Barber',
+  serviceName = 'Haircut',
+  appointmentDate = 'Saturday, March 15, 2025',
+  appointmentTime = '10:00 AM - 10:45 AM',
+  claimUrl = 'https://rhivo.app/book/waitlist?token=abc123',
+  expiryMinutes = 30,
+}: WaitlistOfferProps) => {
+  return (
+    <Html>
+      <Head />
+      <Preview>{`Si è liberato un posto presso ${businessName} - A spot opened up at ${businessName}`}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {/* Header */}
+          <Section style={header}>
+            <Heading style={h1}>Si è liberato un posto!</Heading>
+            <Text style={h1Secondary}>A spot just opened up!</Text>
+            <Text style={subtitle}>
+              Ciao {customerName},
+            </Text>
+            <Text style={subtitleSecondary}>
+              Hi {customerName},
+            </Text>
+          </Section>
+
+          {/* Main Content */}
+          <Section style={contentBox}>
+            <Text style={paragraph}>
+              Eri in lista d&apos;attesa per {serviceName} presso {businessName} e un appuntamento
+              è appena stato annullato. Lo abbiamo tenuto da parte per te:
+            </Text>
+            <Text style={paragraphSecondary}>
+              You were on the waitlist for {serviceName} at {businessName} and an appointment was
+              just canceled. We are holding it for you:
+            </Text>
+            <Text style={slotText}>
+              {appointmentDate}
+            </Text>
+            <Text style={slotTextSecondary}>
+              {appointmentTime}
+            </Text>
+          </Section>
+
+          {/* Claim Button */}
+          <Section style={buttonSection}>
+            <Link href={claimUrl} style={button}>
+              Prenota Ora / Book Now
+            </Link>
+          </Section>
+
+          {/* Alternative Link */}
+          <Section style={linkSection}>
+            <Text style={alternativeText}>
+              Se il pulsante non funziona, copia e incolla questo link nel tuo browser:
+            </Text>
+            <Text style={alternativeTextSecondary}>
+              If the button doesn&apos;t work, copy and paste this link into your browser:
+            </Text>
+            <Text style={linkText}>
+              <Link href={claimUrl} style={link}>
+                {claimUrl}
+              </Link>
+            </Text>
+          </Section>
+
+          {/* Hold Notice */}
+          <Hr style={hr} />
+          <Section style={securitySection}>
+            <Text style={securityTitle}>Da sapere / Good to know</Text>
+            <Text style={securityText}>
+              • Il posto è riservato per {expiryMinutes} minuti, poi passa alla persona successiva in lista / The spot is held for {expiryMinutes} minutes, then it goes to the next person on the list
+            </Text>
+            <Text style={securityText}>
+              • Se non ti interessa più, ignora questa email / If you are no longer interested, just ignore this email
+            </Text>
+          </Section>
+
+          {/* Footer */}
+          <Hr style={hr} />
+          <Section style={footer}>
+            <Text style={footerText}>
+              Questa è un&apos;email automatica da Rhivo.
+            </Text>
+            <Text style={footerTextSecondary}>
+              This is an automated email from Rhivo.
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+export default WaitlistOffer;
+
+// Styles following Rhivo's functional minimalism design
+const main = {
+  backgroundColor: '#f9fafb',
+  fontFamily:
+    '-apple-system, BlinkMacSystemFont, "SF Pro Display", "Segoe UI", sans-serif',
+};
+
+const container = {
+  margin: '40px auto',
+  padding: '20px',
+  maxWidth: '600px',
+  backgroundColor: '#ffffff',
+  borderRadius: '16px',
+  boxShadow: '0 1px 3px rgba(0, 0, 0, 0.05)',
+};
+
+const header = {
+  textAlign: 'center' as const,
+  marginBottom: '32px',
+  paddingTop: '24px',
+};
+
+const h1 = {
+  fontSize: '30px',
+  fontWeight: '700',
+  color: '#111827',
+  margin: '0 0 4px 0',
+  letterSpacing: '-0.011em',
+};
+
+const h1Secondary = {
+  fontSize: '18px',
+  fontWeight: '500',
+  color: '#9ca3af',
+  margin: '0 0 12px 0',
+  letterSpacing: '-0.011em',
+};
+
+const subtitle = {
+  fontSize: '16px',
+  color: '#6b7280',
+  margin: '0 0 4px 0',
+};
+
+const subtitleSecondary = {
+  fontSize: '14px',
+  color: '#9ca3af',
+  margin: '0',
+};
+
+const contentBox = {
+  backgroundColor: '#f9fafb',
+  borderRadius: '12px',
+  padding: '24px',
+  marginBottom: '24px',
+};
+
+const paragraph = {
+  fontSize: '15px',
+  color: '#374151',
+  margin: '0 0 12px 0',
+  lineHeight: '1.6',
+};
+
+const paragraphSecondary = {
+  fontSize: '14px',
+  color: '#9ca3af',
+  margin: '0',
+  lineHeight: '1.6',
+};
+
+const slotText = {
+  fontSize: '18px',
+  fontWeight: '600',
+  color: '#111827',
+  margin: '16px 0 4px 0',
+  textAlign: 'center' as const,
+};
+
+const slotTextSecondary = {
+  fontSize: '15px',
+  color: '#374151',
+  margin: '0',
+  textAlign: 'center' as const,
+};
+
+const buttonSection = {
+  textAlign: 'center' as const,
+  margin: '32px 0',
+};
+
+const button = {
+  display: 'inline-block',
+  padding: '14px 40px',
+  backgroundColor: '#14b8a6', // teal-500
+  color: '#ffffff',
+  borderRadius: '16px', // rounded-2xl for emphasis
+  textDecoration: 'none',
+  fontWeight: '600',
+  fontSize: '16px',
+};
+
+const linkSection = {
+  textAlign: 'center' as const,
+  marginBottom: '24px',
+};
+
+const alternativeText = {
+  fontSize: '13px',
+  color: '#6b7280',
+  margin: '0 0 4px 0',
+};
+
+const alternativeTextSecondary = {
+  fontSize: '12px',
+  color: '#9ca3af',
+  margin: '0 0 12px 0',
+};
+
+const linkText = {
+  fontSize: '12px',
+  margin: '8px 0',
+};
+
+const link = {
+  color: '#14b8a6',
+  textDecoration: 'underline',
+  wordBreak: 'break-all' as const,
+};
+
+const securitySection = {
+  backgroundColor: '#f9fafb', // gray-50
+  borderRadius: '12px',
+  padding: '24px',
+  marginTop: '24px',
+  border: '1px solid #e5e7eb', // gray-200
+};
+
+const securityTitle = {
+  fontSize: '14px',
+  fontWeight: '600',
+  color: '#111827', // gray-900
+  margin: '0 0 12px 0',
+};
+
+const securityText = {
+  fontSize: '13px',
+  color: '#6b7280', // gray-500
+  margin: '4px 0',
+  lineHeight: '1.5',
+};
+
+const hr = {
+  border: 'none',
+  borderTop: '1px solid #e5e7eb',
+  margin: '24px 0',
+};
+
+const footer = {
+  textAlign: 'center' as const,
+  marginTop: '32px',
+};
+
+const footerText = {
+  fontSize: '12px',
+  color: '#9ca3af',
+  margin: '4px 0',
+  lineHeight: '1.5',
+};
+
+const footerTextSecondary = {
+  fontSize: '11px',
+  color: '#d1d5db',
+  margin: '2px 0',
+  lineHeight: '1.5',
+};
@@ -5,6 +5,10 @@ import CancellationConfirmationEmail from './CancellationConfirmation';
 import RescheduleConfirmationEmail from './RescheduleConfirmation';
 import AppointmentReminderEmail from './AppointmentReminder';
 import EmailVerification from './EmailVerification';
+import PasswordReset from './PasswordReset';
+import StaffInvitation from './StaffInvitation';
+import WaitlistOffer from './WaitlistOffer';
+import SeriesSummary, { type SeriesSummaryKind } from './SeriesSummary';
 
 // Re-export templates for direct use
 export {
@@ -13,8 +17,14 @@ export {
   RescheduleConfirmationEmail,
   AppointmentReminderEmail,
   EmailVerification,
+  PasswordReset,
+  StaffInvitation,
+  WaitlistOffer,
+  SeriesSummary,
 };
 
+export type { SeriesSummaryKind };
+
 // Template data interfaces
 export interface BookingConfirmationData {
   customerName: string;
@@ -84,6 +94,42 @@ export interface EmailVerificationData {
   expiryHours?: number;
 }
 
+export interface PasswordResetData {
+  userName: string;
+  resetUrl: string;
+  expiryMinutes?: number;
+}
+
+export interface StaffInvitationData {
+  staffName: string;
+  businessName: string;
+  inviterName?: string;
+  acceptUrl: string;
+  expiryDays?: number;
+}
+
+export interface WaitlistOfferData {
+  customerName: string;
+  businessName: string;
+  serviceName: string;
+  appointmentDate: string;
+  appointmentTime: string;
+  claimUrl: string;
+  expiryMinutes?: number;
+}
+
+export interface SeriesSummaryData {
+  kind: SeriesSummaryKind;
+  customerName: string;
+  businessName: string;
+  serviceName: string;
+  occurrences: Array<{ date: string; time: string }>;
+  skipped?: Array<{ date: string; time: string }>;
+  bookingLink?: string;
+  businessPhone?: string;
+  businessEmail?: string;
+}
+
 /**
  * Render email templates to HTML string
  * Note: render() is async in @react-email/render v1.3.2+
@@ -124,6 +170,34 @@ export async function renderEmailVerification(
   return await render(element);
 }
 
+export async function renderPasswordReset(
+  data: PasswordResetData
+): Promise<string> {
+  const element = React.createElement(PasswordReset, data);
+  return await render(element);
+}
+
+export async function renderStaffInvitation(
+  data: StaffInvitationData
+): Promise<string> {
+  const element = React.createElement(StaffInvitation, data);
+  return await render(element);
+}
+
+export async function renderWaitlistOffer(
+  data: WaitlistOfferData
+): Promise<string> {
+  const element = React.createElement(WaitlistOffer, data);
+  return await render(element);
+}
+
+export async function renderSeriesSummary(
+  data: SeriesSummaryData
+): Promise<string> {
+  const element = React.createElement(SeriesSummary, data);
+  return await render(element);
+}
+
 /**
  * Get email subject line for each template (Italian primary, English secondary)
  */
@@ -142,6 +216,18 @@ export function getEmailSubject(
       return `Promemoria: Il tuo appuntamento presso ${businessName} è domani`;
     case 'email_verification':
       return 'Verifica la tua Email - Verify Your Email | Rhivo';
+    case 'password_reset':
+      return 'Reimposta la tua Password - Reset Your Password | Rhivo';
+    case 'staff_invitation':
+      return `Invito allo staff di ${businessName} - Staff Invitation | Rhivo`;
+    case 'waitlist_offer':
+      return `Si è liberato un posto presso ${businessName} - A spot opened up`;
+    case 'series_created':
+      return `Appuntamenti Ricorrenti Confermati - ${businessName}`;
+    case 'series_updated':
+      return `Appuntamenti Ricorrenti Modificati - ${businessName}`;
+    case 'series_cancelled':
+      return `Appuntamenti Ricorrenti Annullati - ${businessName}`;
     default:
       return `Aggiornamento da ${businessName || 'Rhivo'}`;
   }
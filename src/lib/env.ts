@@ -15,6 +15,14 @@ const envSchema = z.object({
   RESEND_API_KEY: z.string().min(1),
   EMAIL_FROM: z.string().min(1).optional().default('onboarding@resend.dev'),
 
+  // Payments (optional - online deposits are unavailable without it)
+  STRIPE_SECRET_KEY: z.string().min(1).optional(),
+
+  // SMS (optional - Twilio; without it SMS is only logged outside production)
+  TWILIO_ACCOUNT_SID: z.string().min(1).optional(),
+  TWILIO_AUTH_TOKEN: z.string().min(1).optional(),
+  TWILIO_FROM_NUMBER: z.string().min(1).optional(),
+
   // Application
   NODE_ENV: z.enum(['development', 'production', 'test']),
   NEXT_PUBLIC_APP_URL: z.string().url(),
@@ -0,0 +1,30 @@
+// Lets Excel open the file as UTF-8 instead of the system code page
+export const CSV_BOM = '\uFEFF';
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+// Numbers and phone numbers can't be formulas even with a leading + or -
+const NUMBER_LIKE = /^[+-]?[\d\s().,-]+$/;
+
+/**
+ * Quote a value for CSV (RFC 4180)
+ *
+ * Text that a spreadsheet would evaluate as a formula gets a leading
+ * apostrophe, since customer names and notes come from the public booking form.
+ */
+export function escapeCsvValue(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'string') return String(value);
+
+  let text = value;
+  if (FORMULA_PREFIXES.some(prefix => text.startsWith(prefix)) && !NUMBER_LIKE.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(values: (string | number | boolean | null | undefined)[]): string {
+  return `${values.map(escapeCsvValue).join(',')}\r\n`;
+}
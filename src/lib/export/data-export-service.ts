@@ -0,0 +1,461 @@
+import { z } from 'zod';
+import { DbClient } from '@/db/client';
+import { DataExport, DataExportFormat, DataExportType } from '@/db/types';
+import { listDatesInTimezone } from '@/lib/insights/metrics';
+import { parseInTimezone } from '@/lib/utils/timezone';
+import { CSV_BOM, toCsvLine } from './csv';
+
+export const DATA_EXPORT_TYPES = ['appointments', 'customers', 'revenue'] as const;
+
+// Ten years, so a full backup fits in one file
+export const MAX_EXPORT_RANGE_DAYS = 3660;
+
+// Rows read per query while streaming
+const EXPORT_BATCH_SIZE = 500;
+
+const EXPORT_HISTORY_LIMIT = 20;
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+// Query string of /api/exports/[type], besides businessId
+export const dataExportQuerySchema = z
+  .object({
+    type: z.enum(DATA_EXPORT_TYPES),
+    format: z.enum(['csv', 'json']).default('csv'),
+    // Days in the business timezone, both included
+    startDate: dateString,
+    endDate: dateString,
+  })
+  .refine(
+    (query) => query.startDate <= query.endDate,
+    { message: 'startDate must not be after endDate', path: ['startDate'] }
+  )
+  .refine(
+    (query) => daysBetween(query.startDate, query.endDate) < MAX_EXPORT_RANGE_DAYS,
+    { message: `The range can span at most ${MAX_EXPORT_RANGE_DAYS} days`, path: ['endDate'] }
+  );
+
+export type DataExportQuery = z.infer<typeof dataExportQuerySchema>;
+
+export interface DataExportRange {
+  startDate: string;
+  endDate: string;
+  start: Date; // Midnight of startDate in the business timezone
+  end: Date; // Midnight after endDate, excluded
+}
+
+/**
+ * Column of an export file. Amounts are read in cents and written in the
+ * currency's units.
+ */
+export interface DataExportColumn {
+  key: string;
+  cents?: boolean;
+}
+
+export interface StreamExportParams {
+  exportId: string;
+  businessId: string;
+  type: DataExportType;
+  format: DataExportFormat;
+  range: DataExportRange;
+  timezone: string;
+  currency: string;
+}
+
+export interface RecordExportParams {
+  businessId: string;
+  userId: string;
+  type: DataExportType;
+  format: DataExportFormat;
+  range: DataExportRange;
+  ipAddress?: string | null;
+}
+
+/**
+ * Export as listed in settings
+ */
+export interface DataExportSummary extends DataExport {
+  user_email: string | null;
+}
+
+type ExportRow = Record<string, unknown>;
+
+export const DATA_EXPORT_COLUMNS: Record<DataExportType, DataExportColumn[]> = {
+  appointments: [
+    { key: 'appointment_id' },
+    { key: 'booking_id' },
+    { key: 'date' },
+    { key: 'start_time' },
+    { key: 'end_time' },
+    { key: 'service' },
+    { key: 'staff' },
+    { key: 'customer_name' },
+    { key: 'customer_email' },
+    { key: 'customer_phone' },
+    { key: 'status' },
+    { key: 'price', cents: true },
+    { key: 'deposit_paid', cents: true },
+    { key: 'payment_status' },
+    { key: 'currency' },
+    { key: 'notes' },
+    { key: 'internal_notes' },
+    { key: 'booked_at' },
+  ],
+  customers: [
+    { key: 'customer_id' },
+    { key: 'name' },
+    { key: 'email' },
+    { key: 'phone' },
+    { key: 'tags' },
+    { key: 'notes' },
+    { key: 'appointments_in_range' },
+    { key: 'visits' },
+    { key: 'no_shows' },
+    { key: 'spend', cents: true },
+    { key: 'currency' },
+    { key: 'first_visit' },
+    { key: 'last_visit' },
+    { key: 'customer_since' },
+  ],
+  revenue: [
+    { key: 'date' },
+    { key: 'bookings' },
+    { key: 'revenue', cents: true },
+    { key: 'currency' },
+  ],
+};
+
+/**
+ * Resolve calendar days of the business timezone into instants
+ */
+export function resolveExportRange(startDate: string, endDate: string, timezone: string): DataExportRange {
+  return {
+    startDate,
+    endDate,
+    start: parseInTimezone(startDate, timezone),
+    end: parseInTimezone(addDays(endDate, 1), timezone),
+  };
+}
+
+export function getExportFilename(businessSlug: string, type: DataExportType, format: DataExportFormat, range: DataExportRange): string {
+  const dates = range.startDate === range.endDate ? range.startDate : `${range.startDate}_${range.endDate}`;
+  return `${businessSlug}-${type}-${dates}.${format}`;
+}
+
+export function getExportContentType(format: DataExportFormat): string {
+  return format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8';
+}
+
+/**
+ * One row as written to the file: the columns in order, amounts converted
+ */
+export function formatExportRow(columns: DataExportColumn[], row: ExportRow, format: DataExportFormat): ExportRow {
+  const formatted: ExportRow = {};
+
+  for (const column of columns) {
+    const value = row[column.key] ?? null;
+
+    if (column.cents && value !== null) {
+      const amount = Number(value) / 100;
+      formatted[column.key] = format === 'csv' ? amount.toFixed(2) : amount;
+    } else {
+      formatted[column.key] = value;
+    }
+  }
+
+  return formatted;
+}
+
+/**
+ * Data Export Service
+ *
+ * Streams appointments, customers and daily revenue of a date range as CSV or
+ * JSON, reading the database in batches so large exports don't sit in memory.
+ * Dates and times are written in the business timezone. Every export is
+ * recorded in data_exports.
+ */
+export class DataExportService {
+  constructor(private db: DbClient) {}
+
+  async recordExport(params: RecordExportParams): Promise<string> {
+    const [record] = await this.db`
+      INSERT INTO data_exports (business_id, user_id, export_type, format, start_date, end_date, ip_address)
+      VALUES (
+        ${params.businessId},
+        ${params.userId},
+        ${params.type},
+        ${params.format},
+        ${params.range.startDate},
+        ${params.range.endDate},
+        ${params.ipAddress ?? null}
+      )
+      RETURNING id
+    `;
+
+    return record.id;
+  }
+
+  async listExports(businessId: string): Promise<DataExportSummary[]> {
+    return await this.db`
+      SELECT
+        e.id,
+        e.business_id,
+        e.user_id,
+        e.export_type,
+        e.format,
+        to_char(e.start_date, 'YYYY-MM-DD') AS start_date,
+        to_char(e.end_date, 'YYYY-MM-DD') AS end_date,
+        e.ip_address,
+        e.row_count,
+        e.completed_at,
+        e.created_at,
+        u.email AS user_email
+      FROM data_exports e
+      LEFT JOIN users u ON u.id = e.user_id
+      WHERE e.business_id = ${businessId}
+      ORDER BY e.created_at DESC
+      LIMIT ${EXPORT_HISTORY_LIMIT}
+    ` as DataExportSummary[];
+  }
+
+  /**
+   * The export file as a stream. The export record is completed with the row
+   * count once the last row was sent.
+   */
+  streamExport(params: StreamExportParams): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const columns = DATA_EXPORT_COLUMNS[params.type];
+    const batches = this.readBatches(params);
+    let rowCount = 0;
+    let started = false;
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          if (!started) {
+            started = true;
+            controller.enqueue(encoder.encode(
+              params.format === 'csv'
+                ? CSV_BOM + toCsvLine(columns.map(column => column.key))
+                : `${JSON.stringify(getJsonHeader(params)).slice(0, -1)},"rows":[`
+            ));
+            return;
+          }
+
+          const batch = await batches.next();
+
+          if (batch.done) {
+            if (params.format === 'json') {
+              controller.enqueue(encoder.encode('\n]}\n'));
+            }
+            controller.close();
+            await this.completeExport(params.exportId, rowCount).catch(error =>
+              console.error(`Failed to complete data export ${params.exportId}:`, error)
+            );
+            return;
+          }
+
+          const chunk = batch.value.map(row => {
+            const formatted = formatExportRow(columns, row, params.format);
+            const line = params.format === 'csv'
+              ? toCsvLine(Object.values(formatted) as (string | number | null)[])
+              : `${rowCount > 0 ? ',' : ''}\n${JSON.stringify(formatted)}`;
+            rowCount++;
+            return line;
+          });
+
+          controller.enqueue(encoder.encode(chunk.join('')));
+        } catch (error) {
+          console.error(`Data export ${params.exportId} failed:`, error);
+          controller.error(error);
+        }
+      },
+      cancel: async () => {
+        await batches.return(undefined);
+      },
+    });
+  }
+
+  private async completeExport(exportId: string, rowCount: number): Promise<void> {
+    await this.db`
+      UPDATE data_exports
+      SET row_count = ${rowCount}, completed_at = NOW()
+      WHERE id = ${exportId}
+    `;
+  }
+
+  private async *readBatches(params: StreamExportParams): AsyncGenerator<ExportRow[]> {
+    if (params.type === 'revenue') {
+      yield await this.readRevenue(params);
+      return;
+    }
+
+    const read = params.type === 'appointments'
+      ? (after: ExportRow | null) => this.readAppointments(params, after)
+      : (after: ExportRow | null) => this.readCustomers(params, after);
+
+    let after: ExportRow | null = null;
+
+    while (true) {
+      const rows = await read(after);
+      if (rows.length > 0) yield rows;
+      if (rows.length < EXPORT_BATCH_SIZE) return;
+      after = rows[rows.length - 1];
+    }
+  }
+
+  /**
+   * Appointments starting in the range, canceled ones included, in start order
+   */
+  private async readAppointments(params: StreamExportParams, after: ExportRow | null): Promise<ExportRow[]> {
+    const { businessId, range, timezone } = params;
+
+    return await this.db`
+      SELECT
+        a.id AS appointment_id,
+        a.booking_id,
+        to_char(a.slot_start AT TIME ZONE ${timezone}, 'YYYY-MM-DD') AS date,
+        to_char(a.slot_start AT TIME ZONE ${timezone}, 'HH24:MI') AS start_time,
+        to_char(a.slot_end AT TIME ZONE ${timezone}, 'HH24:MI') AS end_time,
+        s.name AS service,
+        sm.name AS staff,
+        COALESCE(a.guest_name, u.name, p.name) AS customer_name,
+        COALESCE(a.guest_email, u.email, p.email) AS customer_email,
+        COALESCE(a.guest_phone, p.phone) AS customer_phone,
+        a.status,
+        s.price_cents AS price,
+        a.deposit_paid_cents AS deposit_paid,
+        a.payment_status,
+        ${params.currency}::text AS currency,
+        a.notes,
+        a.internal_notes,
+        to_char(a.created_at AT TIME ZONE ${timezone}, 'YYYY-MM-DD HH24:MI') AS booked_at,
+        a.slot_start AS cursor_start
+      FROM appointments a
+      LEFT JOIN services s ON s.id = a.service_id
+      LEFT JOIN staff_members sm ON sm.id = a.staff_id
+      LEFT JOIN users u ON u.id = a.customer_id
+      LEFT JOIN customer_profiles p ON p.id = a.customer_profile_id
+      WHERE a.business_id = ${businessId}
+        AND a.deleted_at IS NULL
+        AND a.slot_start >= ${range.start}
+        AND a.slot_start < ${range.end}
+        ${after
+          ? this.db`AND (a.slot_start, a.id) > (${after.cursor_start as Date}, ${after.appointment_id as string})`
+          : this.db``}
+      ORDER BY a.slot_start, a.id
+      LIMIT ${EXPORT_BATCH_SIZE}
+    ` as ExportRow[];
+  }
+
+  /**
+   * Directory profiles with an appointment in the range, with their lifetime
+   * numbers counted as in the customer directory
+   */
+  private async readCustomers(params: StreamExportParams, after: ExportRow | null): Promise<ExportRow[]> {
+    const { businessId, range, timezone } = params;
+
+    return await this.db`
+      SELECT
+        p.id AS customer_id,
+        p.name,
+        p.email,
+        p.phone,
+        array_to_string(p.tags, '; ') AS tags,
+        p.notes,
+        COUNT(a.id) FILTER (
+          WHERE a.deleted_at IS NULL AND a.slot_start >= ${range.start} AND a.slot_start < ${range.end}
+        )::int AS appointments_in_range,
+        COUNT(a.id) FILTER (WHERE a.visited)::int AS visits,
+        COUNT(a.id) FILTER (WHERE a.status = 'no_show')::int AS no_shows,
+        COALESCE(SUM(s.price_cents) FILTER (WHERE a.visited), 0)::int AS spend,
+        ${params.currency}::text AS currency,
+        to_char(MIN(a.slot_start) FILTER (WHERE a.visited) AT TIME ZONE ${timezone}, 'YYYY-MM-DD') AS first_visit,
+        to_char(MAX(a.slot_start) FILTER (WHERE a.visited) AT TIME ZONE ${timezone}, 'YYYY-MM-DD') AS last_visit,
+        to_char(p.created_at AT TIME ZONE ${timezone}, 'YYYY-MM-DD') AS customer_since,
+        p.created_at AS cursor_created
+      FROM customer_profiles p
+      LEFT JOIN LATERAL (
+        SELECT
+          ap.*,
+          ap.deleted_at IS NULL
+            AND (ap.status = 'completed' OR (ap.status = 'confirmed' AND ap.slot_end <= NOW())) AS visited
+        FROM appointments ap
+        WHERE ap.customer_profile_id = p.id
+      ) a ON TRUE
+      LEFT JOIN services s ON s.id = a.service_id
+      WHERE p.business_id = ${businessId}
+        AND EXISTS (
+          SELECT 1 FROM appointments ar
+          WHERE ar.customer_profile_id = p.id
+            AND ar.deleted_at IS NULL
+            AND ar.slot_start >= ${range.start}
+            AND ar.slot_start < ${range.end}
+        )
+        ${after
+          ? this.db`AND (p.created_at, p.id) > (${after.cursor_created as Date}, ${after.customer_id as string})`
+          : this.db``}
+      GROUP BY p.id
+      ORDER BY p.created_at, p.id
+      LIMIT ${EXPORT_BATCH_SIZE}
+    ` as ExportRow[];
+  }
+
+  /**
+   * Revenue per day, counted as on the insights page: confirmed and completed
+   * appointments that have started. Days without bookings are included.
+   */
+  private async readRevenue(params: StreamExportParams): Promise<ExportRow[]> {
+    const { businessId, range, timezone } = params;
+
+    const rows = await this.db`
+      SELECT
+        to_char(a.slot_start AT TIME ZONE ${timezone}, 'YYYY-MM-DD') AS date,
+        COUNT(*)::int AS bookings,
+        COALESCE(SUM(s.price_cents), 0)::int AS revenue
+      FROM appointments a
+      LEFT JOIN services s ON s.id = a.service_id
+      WHERE a.business_id = ${businessId}
+        AND a.slot_start >= ${range.start}
+        AND a.slot_start < ${range.end}
+        AND a.slot_start <= NOW()
+        AND a.status IN ('confirmed', 'completed')
+        AND a.deleted_at IS NULL
+      GROUP BY 1
+    `;
+
+    const byDate = new Map(rows.map(row => [row.date as string, row]));
+    const lastInstant = new Date(range.end.getTime() - 1);
+
+    return listDatesInTimezone(range.start, lastInstant, timezone).map(date => ({
+      date,
+      bookings: byDate.get(date)?.bookings ?? 0,
+      revenue: byDate.get(date)?.revenue ?? 0,
+      currency: params.currency,
+    }));
+  }
+}
+
+function getJsonHeader(params: StreamExportParams) {
+  return {
+    type: params.type,
+    startDate: params.range.startDate,
+    endDate: params.range.endDate,
+    timezone: params.timezone,
+    currency: params.currency,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  return Math.round(
+    (new Date(`${endDate}T00:00:00Z`).getTime() - new Date(`${startDate}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000)
+  );
+}
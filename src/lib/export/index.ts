@@ -0,0 +1,35 @@
+/**
+ * Export Module
+ *
+ * Owner downloads of business data, for the accountant or as a backup:
+ *
+ * 1. Appointments with service, staff, customer, status and price
+ * 2. Customers of the directory with their lifetime numbers
+ * 3. Revenue per day
+ *
+ * Each as CSV or JSON for a range of days in the business timezone, streamed
+ * from /api/exports/[type] and recorded in data_exports. Gated by the
+ * exportData subscription feature.
+ */
+
+export {
+  DataExportService,
+  DATA_EXPORT_COLUMNS,
+  DATA_EXPORT_TYPES,
+  MAX_EXPORT_RANGE_DAYS,
+  dataExportQuerySchema,
+  formatExportRow,
+  getExportContentType,
+  getExportFilename,
+  resolveExportRange,
+} from './data-export-service';
+export type {
+  DataExportColumn,
+  DataExportQuery,
+  DataExportRange,
+  DataExportSummary,
+  RecordExportParams,
+  StreamExportParams,
+} from './data-export-service';
+
+export { CSV_BOM, escapeCsvValue, toCsvLine } from './csv';
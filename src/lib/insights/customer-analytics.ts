@@ -0,0 +1,159 @@
+import { DbClient } from '@/db/client';
+import { buildRetentionCohorts, toRate, RetentionCohort } from './metrics';
+import { compareStats, listBuckets, InsightsPeriod, InsightsRange, StatDelta } from './period';
+
+// Monthly cohorts shown in the retention table, including the current month
+export const RETENTION_COHORT_MONTHS = 6;
+
+export interface CustomerAnalyticsParams {
+  businessId: string;
+  period: InsightsPeriod;
+  includeCohorts: boolean;
+}
+
+export interface CustomerTotals {
+  customers: number; // Visited in the period
+  newCustomers: number; // First visit ever in the period
+  returningCustomers: number;
+  repeatVisitRate: number; // Percent of the period's customers with more than one visit in total
+}
+
+export interface CustomerAnalytics extends CustomerTotals {
+  chartData: { date: string; newCustomers: number; returningCustomers: number }[];
+  cohorts: RetentionCohort[] | null;
+  comparison: Record<keyof CustomerTotals, StatDelta>;
+}
+
+/**
+ * New, returning and repeat customers, and monthly retention cohorts
+ *
+ * A visit is counted as in the customer directory: an appointment that was
+ * completed, or confirmed and already over. Customers are recognised by their
+ * directory profile, falling back to account, email and phone number for
+ * appointments the directory hasn't linked yet.
+ */
+export async function getCustomerAnalytics(
+  db: DbClient,
+  params: CustomerAnalyticsParams
+): Promise<CustomerAnalytics> {
+  const { businessId, period } = params;
+  const { start, end, timezone } = period;
+  const visits = visitsQuery(db, businessId);
+
+  const [totals, previousTotals] = await Promise.all([
+    getCustomerTotals(db, businessId, period),
+    getCustomerTotals(db, businessId, period.previous),
+  ]);
+
+  const buckets = await db`
+    WITH visits AS (${visits}),
+    firsts AS (
+      SELECT customer_key, MIN(slot_start) AS first_visit
+      FROM visits
+      WHERE customer_key IS NOT NULL
+      GROUP BY customer_key
+    )
+    SELECT
+      to_char(date_trunc(${period.granularity}, v.slot_start AT TIME ZONE ${timezone}), 'YYYY-MM-DD') AS date,
+      COUNT(DISTINCT v.customer_key) FILTER (WHERE v.slot_start = f.first_visit)::int AS new_customers,
+      COUNT(DISTINCT v.customer_key) FILTER (WHERE v.slot_start > f.first_visit)::int AS returning_customers
+    FROM visits v
+    JOIN firsts f ON f.customer_key = v.customer_key
+    WHERE v.slot_start >= ${start} AND v.slot_start < ${end}
+    GROUP BY 1
+  `;
+
+  const byBucket = new Map<string, { new_customers: number; returning_customers: number }>(
+    buckets.map(row => [row.date as string, row as { new_customers: number; returning_customers: number }])
+  );
+
+  const chartData = listBuckets(period).map(date => ({
+    date,
+    newCustomers: byBucket.get(date)?.new_customers ?? 0,
+    returningCustomers: byBucket.get(date)?.returning_customers ?? 0,
+  }));
+
+  let cohorts: RetentionCohort[] | null = null;
+
+  if (params.includeCohorts) {
+    const rows = await db`
+      WITH visits AS (${visits}),
+      firsts AS (
+        SELECT customer_key, date_trunc('month', MIN(slot_start) AT TIME ZONE ${timezone}) AS cohort_month
+        FROM visits
+        WHERE customer_key IS NOT NULL
+        GROUP BY customer_key
+      )
+      SELECT
+        to_char(f.cohort_month, 'YYYY-MM') AS cohort,
+        ((EXTRACT(YEAR FROM v.visit_month) - EXTRACT(YEAR FROM f.cohort_month)) * 12
+          + EXTRACT(MONTH FROM v.visit_month) - EXTRACT(MONTH FROM f.cohort_month))::int AS month_offset,
+        COUNT(DISTINCT f.customer_key)::int AS customers
+      FROM firsts f
+      JOIN (
+        SELECT customer_key, date_trunc('month', slot_start AT TIME ZONE ${timezone}) AS visit_month
+        FROM visits
+      ) v ON v.customer_key = f.customer_key
+      WHERE f.cohort_month >= date_trunc('month', NOW() AT TIME ZONE ${timezone})
+        - make_interval(months => ${RETENTION_COHORT_MONTHS - 1})
+      GROUP BY 1, 2
+    `;
+
+    cohorts = buildRetentionCohorts(
+      rows.map(row => ({ cohort: row.cohort, monthOffset: row.month_offset, customers: row.customers })),
+      RETENTION_COHORT_MONTHS
+    );
+  }
+
+  return {
+    ...totals,
+    chartData,
+    cohorts,
+    comparison: compareStats(totals, previousTotals),
+  };
+}
+
+async function getCustomerTotals(db: DbClient, businessId: string, range: InsightsRange): Promise<CustomerTotals> {
+  const [totals] = await db`
+    WITH visits AS (${visitsQuery(db, businessId)}),
+    firsts AS (
+      SELECT customer_key, MIN(slot_start) AS first_visit, COUNT(*) AS lifetime_visits
+      FROM visits
+      WHERE customer_key IS NOT NULL
+      GROUP BY customer_key
+    ),
+    period AS (
+      SELECT DISTINCT v.customer_key, f.first_visit, f.lifetime_visits
+      FROM visits v
+      JOIN firsts f ON f.customer_key = v.customer_key
+      WHERE v.slot_start >= ${range.start} AND v.slot_start < ${range.end}
+    )
+    SELECT
+      COUNT(*)::int AS customers,
+      COUNT(*) FILTER (WHERE first_visit >= ${range.start})::int AS new_customers,
+      COUNT(*) FILTER (WHERE lifetime_visits > 1)::int AS repeat_customers
+    FROM period
+  `;
+
+  const customers = totals?.customers ?? 0;
+  const newCustomers = totals?.new_customers ?? 0;
+
+  return {
+    customers,
+    newCustomers,
+    returningCustomers: customers - newCustomers,
+    repeatVisitRate: toRate(totals?.repeat_customers ?? 0, customers),
+  };
+}
+
+function visitsQuery(db: DbClient, businessId: string) {
+  return db`
+    SELECT
+      COALESCE(a.customer_profile_id::text, a.customer_id::text, LOWER(TRIM(a.guest_email)), a.guest_phone) AS customer_key,
+      a.slot_start
+    FROM appointments a
+    WHERE a.business_id = ${businessId}
+      AND a.deleted_at IS NULL
+      AND (a.status = 'completed' OR (a.status = 'confirmed' AND a.slot_end <= NOW()))
+  `;
+}
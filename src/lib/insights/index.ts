@@ -0,0 +1,39 @@
+/**
+ * Insights Module
+ *
+ * Analytics behind the insights dashboard page, beyond the booking and
+ * revenue trends of /api/insights/bookings and /api/insights/revenue:
+ *
+ * 1. Customer analytics: new vs returning customers, repeat visits and
+ *    monthly retention cohorts
+ * 2. Service performance: bookings, cancellation and no-show rates, lead
+ *    time and capacity utilisation against the availability config
+ *
+ * All routes take the same period: a preset or custom range of calendar
+ * days in the business timezone, a chart granularity, and the same number of
+ * days before it for comparison.
+ *
+ * Gated by the analyticsLevel subscription feature. Cohorts, lead time and
+ * utilisation need the advanced level.
+ */
+
+export { getCustomerAnalytics, RETENTION_COHORT_MONTHS } from './customer-analytics';
+export type { CustomerAnalytics, CustomerAnalyticsParams } from './customer-analytics';
+
+export { getServicePerformance, TOP_SERVICES_LIMIT } from './service-performance';
+export type { ServicePerformance, ServicePerformanceItem, ServicePerformanceParams } from './service-performance';
+
+export {
+  insightsQuerySchema,
+  parseInsightsQuery,
+  resolveInsightsPeriod,
+  describePeriod,
+  getBucketKey,
+  listBuckets,
+  compareStats,
+  MAX_INSIGHTS_RANGE_DAYS,
+} from './period';
+export type { InsightsQuery, InsightsGranularity, InsightsRange, InsightsPeriod, StatDelta } from './period';
+
+export { calculateOpenMinutes, buildRetentionCohorts, listDatesInTimezone, toRate } from './metrics';
+export type { CohortRow, RetentionCohort } from './metrics';
@@ -0,0 +1,121 @@
+import { TenantConfig } from '@/lib/config/tenant-schema';
+import { generateOffTimeIntervals } from '@/lib/booking/off-time-system';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface CohortRow {
+  cohort: string; // YYYY-MM of the customers' first visit
+  monthOffset: number; // Months after the first visit (0 = the first month)
+  customers: number;
+}
+
+export interface RetentionCohort {
+  cohort: string;
+  size: number;
+  // Share of the cohort that visited again in each month after the first, in percent
+  retention: number[];
+}
+
+/**
+ * Percentage of part in total, rounded to one decimal; 0 when there is no total
+ */
+export function toRate(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+/**
+ * Minutes the business is open between start and end: the range minus the
+ * off-time from the availability config (closed days, breaks, holidays,
+ * exceptions). Imported calendar busy time is not subtracted, since owners
+ * usually block it for things outside the business rather than lost capacity.
+ */
+export function calculateOpenMinutes(config: TenantConfig, start: Date, end: Date): number {
+  if (end <= start) {
+    return 0;
+  }
+
+  const offTimes = generateOffTimeIntervals(config, start, end)
+    .map(interval => ({
+      start: Math.max(interval.start.getTime(), start.getTime()),
+      end: Math.min(interval.end.getTime(), end.getTime()),
+    }))
+    .filter(interval => interval.end > interval.start);
+
+  // Off-time intervals of one day never overlap, but holidays and exceptions
+  // may, so merge before subtracting
+  let offMs = 0;
+  let coveredUntil = start.getTime();
+
+  for (const interval of offTimes) {
+    const from = Math.max(interval.start, coveredUntil);
+    if (interval.end > from) {
+      offMs += interval.end - from;
+      coveredUntil = interval.end;
+    }
+  }
+
+  // Day boundaries end at 23:59:59.999, so round the leftover milliseconds away
+  return Math.max(0, Math.round((end.getTime() - start.getTime() - offMs) / MINUTE_MS));
+}
+
+/**
+ * Turn visit counts per cohort and month into retention percentages
+ *
+ * Cohorts without visits in a month get 0 for it. Months that haven't
+ * happened yet for a cohort are left out, so recent cohorts have fewer values.
+ */
+export function buildRetentionCohorts(rows: CohortRow[], months: number, now: Date = new Date()): RetentionCohort[] {
+  const byCohort = new Map<string, Map<number, number>>();
+
+  for (const row of rows) {
+    if (!byCohort.has(row.cohort)) {
+      byCohort.set(row.cohort, new Map());
+    }
+    byCohort.get(row.cohort)!.set(row.monthOffset, row.customers);
+  }
+
+  const currentMonth = now.getUTCFullYear() * 12 + now.getUTCMonth();
+
+  return Array.from(byCohort.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([cohort, counts]) => {
+      const [year, month] = cohort.split('-').map(Number);
+      const elapsed = currentMonth - (year * 12 + month - 1);
+      const size = counts.get(0) ?? 0;
+
+      const retention: number[] = [];
+      for (let offset = 1; offset < months && offset <= elapsed; offset++) {
+        retention.push(toRate(counts.get(offset) ?? 0, size));
+      }
+
+      return { cohort, size, retention };
+    });
+}
+
+/**
+ * Every calendar date (YYYY-MM-DD) in the business timezone from start to end,
+ * so charts show days without data too
+ */
+export function listDatesInTimezone(start: Date, end: Date, timezone: string): string[] {
+  const last = formatDateYYYYMMDDInTimezone(end, timezone);
+  const dates: string[] = [];
+
+  // Walk calendar dates rather than 24h steps, which skip or repeat days around DST changes
+  const day = new Date(`${formatDateYYYYMMDDInTimezone(start, timezone)}T00:00:00Z`);
+  while (dates.length === 0 || dates[dates.length - 1] < last) {
+    dates.push(day.toISOString().slice(0, 10));
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
+function formatDateYYYYMMDDInTimezone(date: Date, timezone: string): string {
+  const formatter = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  });
+  return formatter.format(date);
+}
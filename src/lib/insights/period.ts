@@ -0,0 +1,197 @@
+import { z } from 'zod';
+import { parseInTimezone } from '@/lib/utils/timezone';
+import { listDatesInTimezone } from './metrics';
+
+// Longest custom range, so a day-by-day chart stays a reasonable size
+export const MAX_INSIGHTS_RANGE_DAYS = 731;
+
+const PRESET_DAYS = { '7d': 7, '30d': 30, '90d': 90 } as const;
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+// Query string of the /api/insights routes, besides businessId
+export const insightsQuerySchema = z
+  .object({
+    timeRange: z.enum(['7d', '30d', '90d']).default('30d'),
+    // Custom range in the business timezone, both days included; overrides timeRange
+    startDate: dateString.optional(),
+    endDate: dateString.optional(),
+    granularity: z.enum(['day', 'week', 'month']).default('day'),
+  })
+  .refine(
+    (query) => !query.startDate === !query.endDate,
+    { message: 'startDate and endDate must be given together', path: ['endDate'] }
+  )
+  .refine(
+    (query) => !query.startDate || !query.endDate || query.startDate <= query.endDate,
+    { message: 'startDate must not be after endDate', path: ['startDate'] }
+  )
+  .refine(
+    (query) => !query.startDate || !query.endDate || daysBetween(query.startDate, query.endDate) < MAX_INSIGHTS_RANGE_DAYS,
+    { message: `The range can span at most ${MAX_INSIGHTS_RANGE_DAYS} days`, path: ['endDate'] }
+  );
+
+export type InsightsQuery = z.infer<typeof insightsQuerySchema>;
+export type InsightsGranularity = InsightsQuery['granularity'];
+
+export interface InsightsRange {
+  startDate: string; // YYYY-MM-DD, included
+  endDate: string; // YYYY-MM-DD, included
+  start: Date; // Midnight of startDate in the business timezone
+  end: Date; // Midnight after endDate, excluded
+}
+
+export interface InsightsPeriod extends InsightsRange {
+  timezone: string;
+  granularity: InsightsGranularity;
+  // The same number of days right before, for comparison
+  previous: InsightsRange;
+}
+
+export interface StatDelta {
+  previous: number;
+  change: number;
+  changePercent: number | null; // null when the previous period had nothing
+}
+
+/**
+ * Read the insights query from a request's search params
+ *
+ * @throws ZodError for malformed dates, granularities or ranges
+ */
+export function parseInsightsQuery(searchParams: URLSearchParams): InsightsQuery {
+  return insightsQuerySchema.parse({
+    timeRange: searchParams.get('timeRange') || undefined,
+    startDate: searchParams.get('startDate') || undefined,
+    endDate: searchParams.get('endDate') || undefined,
+    granularity: searchParams.get('granularity') || undefined,
+  });
+}
+
+/**
+ * Resolve the query into calendar days of the business timezone
+ *
+ * Presets end today and include it, so '7d' is today and the six days before.
+ */
+export function resolveInsightsPeriod(
+  query: InsightsQuery,
+  timezone: string,
+  now: Date = new Date()
+): InsightsPeriod {
+  let startDate: string;
+  let endDate: string;
+
+  if (query.startDate && query.endDate) {
+    startDate = query.startDate;
+    endDate = query.endDate;
+  } else {
+    endDate = listDatesInTimezone(now, now, timezone)[0];
+    startDate = addDays(endDate, -(PRESET_DAYS[query.timeRange] - 1));
+  }
+
+  const days = daysBetween(startDate, endDate) + 1;
+  const previousEnd = addDays(startDate, -1);
+
+  return {
+    ...toRange(startDate, endDate, timezone),
+    timezone,
+    granularity: query.granularity,
+    previous: toRange(addDays(previousEnd, -(days - 1)), previousEnd, timezone),
+  };
+}
+
+/**
+ * The period as returned by the insights routes
+ */
+export function describePeriod(period: InsightsPeriod) {
+  return {
+    startDate: period.startDate,
+    endDate: period.endDate,
+    granularity: period.granularity,
+    timezone: period.timezone,
+    previous: { startDate: period.previous.startDate, endDate: period.previous.endDate },
+  };
+}
+
+/**
+ * Chart bucket a date falls in: the day itself, the Monday of its week or the
+ * first of its month. Matches to_char(date_trunc(granularity, ...), 'YYYY-MM-DD').
+ */
+export function getBucketKey(date: string, granularity: InsightsGranularity): string {
+  if (granularity === 'month') {
+    return `${date.slice(0, 7)}-01`;
+  }
+
+  if (granularity === 'week') {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    return addDays(date, -((weekday + 6) % 7));
+  }
+
+  return date;
+}
+
+/**
+ * Every bucket of the period, so charts show buckets without data too
+ */
+export function listBuckets(period: InsightsPeriod): string[] {
+  const buckets: string[] = [];
+
+  for (const date of listDatesInRange(period.startDate, period.endDate)) {
+    const bucket = getBucketKey(date, period.granularity);
+    if (buckets[buckets.length - 1] !== bucket) {
+      buckets.push(bucket);
+    }
+  }
+
+  return buckets;
+}
+
+/**
+ * Change of each stat against the previous period
+ */
+export function compareStats<K extends string>(
+  current: Record<K, number>,
+  previous: Record<K, number>
+): Record<K, StatDelta> {
+  const deltas = {} as Record<K, StatDelta>;
+
+  for (const key of Object.keys(current) as K[]) {
+    const change = current[key] - previous[key];
+    deltas[key] = {
+      previous: previous[key],
+      change: Math.round(change * 100) / 100,
+      changePercent: previous[key] !== 0 ? Math.round((change / Math.abs(previous[key])) * 1000) / 10 : null,
+    };
+  }
+
+  return deltas;
+}
+
+function toRange(startDate: string, endDate: string, timezone: string): InsightsRange {
+  return {
+    startDate,
+    endDate,
+    start: parseInTimezone(startDate, timezone),
+    end: parseInTimezone(addDays(endDate, 1), timezone),
+  };
+}
+
+function listDatesInRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  return Math.round(
+    (new Date(`${endDate}T00:00:00Z`).getTime() - new Date(`${startDate}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000)
+  );
+}
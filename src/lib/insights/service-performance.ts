@@ -0,0 +1,166 @@
+import { DbClient } from '@/db/client';
+import { TenantConfig } from '@/lib/config/tenant-schema';
+import { calculateOpenMinutes, toRate } from './metrics';
+import { compareStats, InsightsPeriod, InsightsRange, StatDelta } from './period';
+
+// Services listed, most booked first; totals still cover every service
+export const TOP_SERVICES_LIMIT = 10;
+
+export interface ServicePerformanceParams {
+  businessId: string;
+  config: TenantConfig;
+  period: InsightsPeriod;
+  includeAdvanced: boolean;
+}
+
+export interface ServicePerformanceItem {
+  id: string;
+  name: string;
+  color: string;
+  price: number;
+  durationMinutes: number;
+  bookingCount: number;
+  completedCount: number;
+  cancelledCount: number;
+  noShowCount: number;
+  totalRevenue: number;
+  percentage: number;
+  completionRate: number;
+  cancellationRate: number;
+  noShowRate: number;
+  averageLeadTimeHours: number | null; // Advanced analytics only
+}
+
+export interface ServicePerformance {
+  services: ServicePerformanceItem[];
+  stats: {
+    totalServices: number;
+    totalBookings: number;
+    mostPopular: ServicePerformanceItem | null;
+    cancellationRate: number;
+    noShowRate: number;
+    // Advanced analytics only
+    averageLeadTimeHours: number | null;
+    utilization: { bookedMinutes: number; availableMinutes: number; rate: number } | null;
+  };
+  comparison: Record<'totalBookings' | 'cancellationRate' | 'noShowRate', StatDelta>;
+}
+
+interface ServiceRow {
+  id: string;
+  name: string;
+  color: string;
+  price_cents: number;
+  duration_minutes: number;
+  booking_count: number;
+  completed_count: number;
+  cancelled_count: number;
+  no_show_count: number;
+  total_revenue: number;
+  lead_time_hours_sum: number;
+  booked_minutes: number;
+}
+
+/**
+ * Bookings, revenue, cancellations and no-shows per service
+ *
+ * Lead time is how long before the appointment it was booked. Capacity
+ * utilisation compares the minutes of held appointments (including no-shows,
+ * whose time was lost all the same) with the minutes the business was open,
+ * times the bookings it takes at once.
+ */
+export async function getServicePerformance(
+  db: DbClient,
+  params: ServicePerformanceParams
+): Promise<ServicePerformance> {
+  const { businessId, config, period } = params;
+
+  const [rows, previousRows] = await Promise.all([
+    getServiceRows(db, businessId, period),
+    getServiceRows(db, businessId, period.previous),
+  ]);
+
+  const sum = (pick: (row: ServiceRow) => number, from: ServiceRow[] = rows) =>
+    from.reduce((total, row) => total + pick(row), 0);
+
+  const totalBookings = sum(row => row.booking_count);
+  const previousBookings = sum(row => row.booking_count, previousRows);
+  const averageLeadTime = (hours: number, bookings: number) =>
+    params.includeAdvanced && bookings > 0 ? Math.round((hours / bookings) * 10) / 10 : null;
+
+  const services = rows.slice(0, TOP_SERVICES_LIMIT).map(row => ({
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    price: row.price_cents / 100, // Convert cents to dollars
+    durationMinutes: row.duration_minutes,
+    bookingCount: row.booking_count,
+    completedCount: row.completed_count,
+    cancelledCount: row.cancelled_count,
+    noShowCount: row.no_show_count,
+    totalRevenue: row.total_revenue / 100, // Convert cents to dollars
+    percentage: totalBookings > 0 ? (row.booking_count / totalBookings) * 100 : 0,
+    completionRate: toRate(row.completed_count, row.booking_count),
+    cancellationRate: toRate(row.cancelled_count, row.booking_count),
+    noShowRate: toRate(row.no_show_count, row.booking_count),
+    averageLeadTimeHours: averageLeadTime(row.lead_time_hours_sum, row.booking_count),
+  }));
+
+  let utilization: ServicePerformance['stats']['utilization'] = null;
+
+  if (params.includeAdvanced) {
+    const bookedMinutes = Math.round(sum(row => row.booked_minutes));
+    const availableMinutes = calculateOpenMinutes(config, period.start, period.end) * config.bookingLimits.maxSimultaneousBookings;
+    utilization = { bookedMinutes, availableMinutes, rate: toRate(bookedMinutes, availableMinutes) };
+  }
+
+  const rates = {
+    totalBookings,
+    cancellationRate: toRate(sum(row => row.cancelled_count), totalBookings),
+    noShowRate: toRate(sum(row => row.no_show_count), totalBookings),
+  };
+
+  return {
+    services,
+    stats: {
+      ...rates,
+      totalServices: rows.length,
+      mostPopular: services[0] || null,
+      averageLeadTimeHours: averageLeadTime(sum(row => row.lead_time_hours_sum), totalBookings),
+      utilization,
+    },
+    comparison: compareStats(rates, {
+      totalBookings: previousBookings,
+      cancellationRate: toRate(sum(row => row.cancelled_count, previousRows), previousBookings),
+      noShowRate: toRate(sum(row => row.no_show_count, previousRows), previousBookings),
+    }),
+  };
+}
+
+async function getServiceRows(db: DbClient, businessId: string, range: InsightsRange): Promise<ServiceRow[]> {
+  return await db`
+    SELECT
+      s.id,
+      s.name,
+      s.color,
+      s.price_cents,
+      s.duration_minutes,
+      COUNT(a.id)::int AS booking_count,
+      COUNT(a.id) FILTER (WHERE a.status = 'completed')::int AS completed_count,
+      COUNT(a.id) FILTER (WHERE a.status = 'canceled')::int AS cancelled_count,
+      COUNT(a.id) FILTER (WHERE a.status = 'no_show')::int AS no_show_count,
+      COALESCE(SUM(s.price_cents) FILTER (WHERE a.status IN ('confirmed', 'completed')), 0)::int AS total_revenue,
+      COALESCE(SUM(EXTRACT(EPOCH FROM (a.slot_start - a.created_at)) / 3600), 0)::float AS lead_time_hours_sum,
+      COALESCE(SUM(EXTRACT(EPOCH FROM (a.slot_end - a.slot_start)) / 60)
+        FILTER (WHERE a.status IN ('confirmed', 'completed', 'no_show')), 0)::float AS booked_minutes
+    FROM services s
+    LEFT JOIN appointments a ON s.id = a.service_id
+      AND a.slot_start >= ${range.start}
+      AND a.slot_start < ${range.end}
+      AND a.deleted_at IS NULL
+    WHERE s.business_id = ${businessId}
+      AND s.deleted_at IS NULL
+    GROUP BY s.id, s.name, s.color, s.price_cents, s.duration_minutes
+    ORDER BY booking_count DESC, total_revenue DESC
+  ` as ServiceRow[];
+}
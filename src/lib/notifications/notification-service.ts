@@ -8,9 +8,10 @@ import {
   renderRescheduleConfirmation
 } from '@/lib/email/templates';
 import { env } from '@/lib/env';
+import { NotificationPayload } from '@/db/types';
 
 export type NotificationChannel = 'email' | 'sms' | 'webhook';
-export type NotificationStatus = 'pending' | 'sent' | 'failed' | 'retrying';
+export type NotificationStatus = 'pending' | 'sent' | 'failed' | 'retrying' | 'dead_letter';
 
 export interface QueueNotificationParams {
   appointmentId: string;
@@ -18,20 +19,23 @@ export interface QueueNotificationParams {
   recipientPhone?: string;
   channel: NotificationChannel;
   templateName: string;
+  payload: NotificationPayload; // Rendered content the worker sends
 }
 
 /**
  * Notification Service
  *
  * Handles queueing notifications to the notification_logs table.
- * Actual delivery is handled by a separate worker/cron job.
+ * Actual delivery is handled by the notification worker (see notification-worker.ts),
+ * run by the process-notifications cron job.
  */
 export class NotificationService {
   constructor(private db: DbClient) {}
 
   /**
    * Queue a notification for delivery
-   * This creates a record in notification_logs that will be processed by a background worker
+   * This creates a record in notification_logs that will be processed by a background worker.
+   * The payload must hold the rendered content (subject/html for email, body for SMS).
    */
   async queueNotification(params: QueueNotificationParams): Promise<void> {
     const {
@@ -40,6 +44,7 @@ export class NotificationService {
       recipientPhone,
       channel,
       templateName,
+      payload,
     } = params;
 
     // Validate that we have the appropriate recipient info for the channel
@@ -60,6 +65,7 @@ export class NotificationService {
         template_name,
         status,
         attempts,
+        payload,
         created_at
       ) VALUES (
         ${uuidv4()},
@@ -70,6 +76,7 @@ export class NotificationService {
         ${templateName},
         'pending',
         0,
+        ${JSON.stringify(payload)},
         NOW()
       )
     `;
@@ -194,13 +201,6 @@ export class NotificationService {
       console.log('✅ Reschedule email sent to:', recipientEmail);
     } catch (error) {
       console.error('❌ Failed to send reschedule email:', error);
-      // Log to notification_logs for tracking
-      await this.queueNotification({
-        appointmentId,
-        recipientEmail,
-        channel: 'email',
-        templateName: 'appointment_rescheduled',
-      });
     }
 
     // Note: SMS not implemented yet
@@ -209,31 +209,6 @@ export class NotificationService {
     }
   }
 
-  /**
-   * Queue a confirmation notification
-   */
-  async queueConfirmationNotification(
-    appointmentId: string,
-    recipientEmail: string,
-    recipientPhone?: string
-  ): Promise<void> {
-    await this.queueNotification({
-      appointmentId,
-      recipientEmail,
-      channel: 'email',
-      templateName: 'appointment_confirmed',
-    });
-
-    if (recipientPhone) {
-      await this.queueNotification({
-        appointmentId,
-        recipientPhone,
-        channel: 'sms',
-        templateName: 'appointment_confirmed',
-      });
-    }
-  }
-
   /**
    * Send cancellation notification immediately
    */
@@ -306,13 +281,6 @@ export class NotificationService {
       console.log('✅ Cancellation email sent to:', recipientEmail);
     } catch (error) {
       console.error('❌ Failed to send cancellation email:', error);
-      // Log to notification_logs for tracking
-      await this.queueNotification({
-        appointmentId,
-        recipientEmail,
-        channel: 'email',
-        templateName: 'appointment_cancelled',
-      });
     }
 
     // Note: SMS not implemented yet
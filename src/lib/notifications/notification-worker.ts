@@ -0,0 +1,254 @@
+import { DbClient } from '@/db/client';
+import { NotificationLog, NotificationPayload, NotificationStatus } from '@/db/types';
+import { EmailService } from '@/lib/email/email-service';
+import { CustomerNotificationService } from '@/lib/email/customer-notification-service';
+import { SmsService, SmsTemplate } from '@/lib/sms';
+import { getNextAttemptAt } from './retry-policy';
+
+// Rows claimed per run; the cron runs every 5 minutes
+const DEFAULT_BATCH_SIZE = 50;
+
+// How long a claimed row stays invisible to other workers. A row whose worker
+// died mid-send becomes claimable again once this runs out.
+const CLAIM_LOCK_INTERVAL = '5 minutes';
+
+export interface NotificationWorkerResult {
+  claimed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+  deadLettered: number;
+}
+
+export type NotificationQueueStats = Record<'pending' | 'retrying' | 'failed' | 'dead_letter', number>;
+
+interface ClaimedNotification extends NotificationLog {
+  appointment_status: string | null;
+  appointment_slot_start: Date | null;
+}
+
+type DeliveryOutcome =
+  | { success: true }
+  | { success: false; error: string; retryable: boolean };
+
+/**
+ * Notification Worker
+ *
+ * Drains the notification_logs queue: rows that are 'pending' (queued, or a
+ * reminder claim whose send never completed) or 'retrying' (a failed send
+ * waiting for next_attempt_at).
+ *
+ * Claiming: a single UPDATE takes a batch with FOR UPDATE SKIP LOCKED, bumps
+ * attempts and sets locked_until, so overlapping runs never pick the same row.
+ *
+ * Delivery: the stored payload is sent as-is (EmailService.deliver /
+ * SmsService.deliver). Rows without a payload are rendered from the appointment
+ * where possible (reminders), otherwise dead-lettered.
+ *
+ * Retries back off exponentially (see retry-policy.ts); after
+ * MAX_NOTIFICATION_ATTEMPTS the row moves to 'dead_letter'. Errors that
+ * won't go away on retry (invalid phone, quota, missing config) end as 'failed'.
+ * Both can be requeued from the dashboard via /api/notifications/[id]/retry.
+ */
+export class NotificationWorker {
+  private emailService: EmailService;
+  private smsService: SmsService;
+  private customerNotificationService: CustomerNotificationService;
+
+  constructor(private db: DbClient) {
+    this.emailService = new EmailService(db);
+    this.smsService = new SmsService(db);
+    this.customerNotificationService = new CustomerNotificationService(db);
+  }
+
+  /**
+   * Claim and deliver one batch of due notifications
+   * Should be called periodically by the process-notifications cron route
+   */
+  async processBatch(limit: number = DEFAULT_BATCH_SIZE): Promise<NotificationWorkerResult> {
+    const result: NotificationWorkerResult = { claimed: 0, sent: 0, retrying: 0, failed: 0, deadLettered: 0 };
+
+    const notifications = await this.claimDue(limit);
+    result.claimed = notifications.length;
+
+    for (const notification of notifications) {
+      let outcome: DeliveryOutcome;
+
+      try {
+        outcome = await this.deliver(notification);
+      } catch (error) {
+        outcome = {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          retryable: true,
+        };
+      }
+
+      const status = await this.recordOutcome(notification, outcome);
+
+      if (status === 'sent') result.sent++;
+      else if (status === 'retrying') result.retrying++;
+      else if (status === 'dead_letter') result.deadLettered++;
+      else result.failed++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Number of unsent notifications by status
+   */
+  async getQueueStats(): Promise<NotificationQueueStats> {
+    const rows = await this.db`
+      SELECT status, COUNT(*)::int AS count
+      FROM notification_logs
+      WHERE status IN ('pending', 'retrying', 'failed', 'dead_letter')
+      GROUP BY status
+    `;
+
+    const stats: NotificationQueueStats = { pending: 0, retrying: 0, failed: 0, dead_letter: 0 };
+    for (const row of rows) {
+      stats[row.status as keyof NotificationQueueStats] = row.count;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Claim due rows in a single statement
+   * Neon's HTTP driver has no interactive transactions, so the lock and the
+   * update have to happen in one query.
+   */
+  private async claimDue(limit: number): Promise<ClaimedNotification[]> {
+    return await this.db`
+      UPDATE notification_logs nl
+      SET locked_until = NOW() + ${CLAIM_LOCK_INTERVAL}::interval,
+          attempts = nl.attempts + 1,
+          last_attempt_at = NOW()
+      WHERE nl.id IN (
+        SELECT id
+        FROM notification_logs
+        WHERE status IN ('pending', 'retrying')
+          AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+          AND (locked_until IS NULL OR locked_until < NOW())
+        ORDER BY COALESCE(next_attempt_at, created_at) ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING
+        nl.*,
+        (SELECT a.status FROM appointments a WHERE a.id = nl.appointment_id) AS appointment_status,
+        (SELECT a.slot_start FROM appointments a WHERE a.id = nl.appointment_id) AS appointment_slot_start
+    ` as ClaimedNotification[];
+  }
+
+  private async deliver(notification: ClaimedNotification): Promise<DeliveryOutcome> {
+    // A reminder for an appointment that was canceled in the meantime must not go out
+    if (notification.template_name === 'appointment_reminder' && notification.appointment_status !== 'confirmed') {
+      return { success: false, error: 'Appointment is no longer confirmed', retryable: false };
+    }
+
+    // Nor one for the old time of a rescheduled appointment (the new time gets its own reminder)
+    if (
+      notification.template_name === 'appointment_reminder' &&
+      notification.reminder_slot_start &&
+      new Date(notification.reminder_slot_start).getTime() !== new Date(notification.appointment_slot_start!).getTime()
+    ) {
+      return { success: false, error: 'Appointment was rescheduled', retryable: false };
+    }
+
+    const payload = notification.payload || await this.renderPayload(notification);
+
+    if (!payload) {
+      return { success: false, error: `No content to send for ${notification.template_name}`, retryable: false };
+    }
+
+    if (notification.channel === 'email') {
+      if (!notification.recipient_email || !payload.subject || !payload.html) {
+        return { success: false, error: 'Email notification is missing recipient or content', retryable: false };
+      }
+
+      await this.emailService.deliver({
+        to: notification.recipient_email,
+        subject: payload.subject,
+        html: payload.html,
+        attachments: payload.attachments,
+      });
+
+      return { success: true };
+    }
+
+    if (notification.channel === 'sms') {
+      if (!notification.recipient_phone || !payload.body || !payload.businessId) {
+        return { success: false, error: 'SMS notification is missing recipient or content', retryable: false };
+      }
+
+      const sms = await this.smsService.deliver({
+        businessId: payload.businessId,
+        to: notification.recipient_phone,
+        locale: payload.locale,
+        body: payload.body,
+        templateName: notification.template_name as SmsTemplate,
+      });
+
+      if (sms.success) {
+        return { success: true };
+      }
+
+      return {
+        success: false,
+        error: sms.error || 'SMS delivery failed',
+        retryable: sms.code === 'DELIVERY_FAILED',
+      };
+    }
+
+    return { success: false, error: `Unsupported channel: ${notification.channel}`, retryable: false };
+  }
+
+  private async renderPayload(notification: ClaimedNotification): Promise<NotificationPayload | null> {
+    if (!notification.appointment_id || notification.channel === 'webhook') {
+      return null;
+    }
+
+    return this.customerNotificationService.renderQueuedNotification(
+      notification.appointment_id,
+      notification.channel,
+      notification.template_name
+    );
+  }
+
+  /**
+   * Store the result of an attempt and release the claim
+   * @returns The row's new status
+   */
+  private async recordOutcome(notification: ClaimedNotification, outcome: DeliveryOutcome): Promise<NotificationStatus> {
+    let status: NotificationStatus;
+    let nextAttemptAt: Date | null = null;
+
+    if (outcome.success) {
+      status = 'sent';
+    } else if (!outcome.retryable) {
+      status = 'failed';
+    } else {
+      nextAttemptAt = getNextAttemptAt(notification.attempts);
+      status = nextAttemptAt ? 'retrying' : 'dead_letter';
+    }
+
+    if (!outcome.success) {
+      console.warn(
+        `[NotificationWorker] ${notification.channel} ${notification.template_name} ${notification.id} attempt ${notification.attempts} -> ${status}: ${outcome.error}`
+      );
+    }
+
+    await this.db`
+      UPDATE notification_logs
+      SET status = ${status},
+          error_message = ${outcome.success ? null : outcome.error},
+          next_attempt_at = ${nextAttemptAt},
+          locked_until = NULL
+      WHERE id = ${notification.id}
+    `;
+
+    return status;
+  }
+}
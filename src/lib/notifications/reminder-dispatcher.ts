@@ -0,0 +1,270 @@
+import { DbClient } from '@/db/client';
+import { v4 as uuidv4 } from 'uuid';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { CustomerNotificationService } from '@/lib/email/customer-notification-service';
+import { hasFeature } from '@/lib/subscription/feature-gates';
+
+// Upper bound of NotificationPreferencesSchema.reminderHoursBefore (7 days)
+const MAX_REMINDER_WINDOW_HOURS = 168;
+
+// Keeps the notification worker off a claim while this run sends it; if the run
+// dies before recording the outcome, the worker picks the reminder up afterwards
+const CLAIM_LOCK_INTERVAL = '10 minutes';
+
+export interface ReminderDispatchResult {
+  scanned: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+type ReminderChannel = 'email' | 'sms';
+
+// The part of CustomerNotificationService the dispatcher sends through
+export type ReminderSender = Pick<CustomerNotificationService, 'sendAppointmentReminder' | 'sendAppointmentReminderSms'>;
+
+interface ReminderCandidate {
+  id: string;
+  business_id: string;
+  slot_start: Date;
+  recipient_email: string | null;
+  recipient_phone: string | null;
+  email_claimed: boolean;
+  sms_claimed: boolean;
+}
+
+interface ReminderSettings {
+  hoursBefore: number;
+  email: boolean;
+  sms: boolean;
+}
+
+/**
+ * Appointment Reminder Dispatcher
+ *
+ * Finds confirmed appointments that have entered their tenant's
+ * notifications.reminderHoursBefore window and sends the reminder email
+ * (sendReminderEmail) and/or SMS (sendReminderSMS).
+ *
+ * Idempotency: before sending, each appointment is claimed per channel by
+ * inserting a 'pending' appointment_reminder row into notification_logs. A
+ * partial unique index (migrations 032, 039) allows only one such row per
+ * appointment, channel and slot_start, so concurrent or repeated cron runs
+ * never send the same reminder twice, while an appointment rescheduled after
+ * its reminder gets one for the new time. The claim is locked while it is
+ * being sent, and the notification worker retries it if the send fails. The
+ * claim re-checks status and slot_start, so appointments canceled or
+ * rescheduled after the scan are skipped.
+ *
+ * Only delivered reminders count as sent. A failed send stays claimed and
+ * counts as failed; the notification worker retries it (see EmailService and
+ * SmsService for how the claim is updated).
+ */
+export class ReminderDispatcher {
+  private sender: ReminderSender;
+
+  constructor(private db: DbClient, sender?: ReminderSender) {
+    this.sender = sender ?? new CustomerNotificationService(db);
+  }
+
+  /**
+   * Send all due reminders
+   * Should be called periodically (e.g., hourly) by the cron route
+   */
+  async dispatchDueReminders(now: Date = new Date()): Promise<ReminderDispatchResult> {
+    const result: ReminderDispatchResult = { scanned: 0, sent: 0, skipped: 0, failed: 0 };
+
+    const windowEnd = new Date(now.getTime() + MAX_REMINDER_WINDOW_HOURS * 60 * 60 * 1000);
+
+    // Upcoming confirmed appointments with a channel that has not been claimed for a reminder at this time yet
+    const candidates = await this.db`
+      SELECT *
+      FROM (
+        SELECT
+          a.id,
+          a.business_id,
+          a.slot_start,
+          COALESCE(u.email, a.guest_email) as recipient_email,
+          COALESCE(u.phone, a.guest_phone) as recipient_phone,
+          EXISTS (
+            SELECT 1
+            FROM notification_logs nl
+            WHERE nl.appointment_id = a.id
+              AND nl.template_name = 'appointment_reminder'
+              AND nl.channel = 'email'
+              AND nl.reminder_slot_start = a.slot_start
+          ) as email_claimed,
+          EXISTS (
+            SELECT 1
+            FROM notification_logs nl
+            WHERE nl.appointment_id = a.id
+              AND nl.template_name = 'appointment_reminder'
+              AND nl.channel = 'sms'
+              AND nl.reminder_slot_start = a.slot_start
+          ) as sms_claimed
+        FROM appointments a
+        JOIN businesses b ON b.id = a.business_id
+        LEFT JOIN users u ON u.id = a.customer_id
+        WHERE a.status = 'confirmed'
+          AND a.deleted_at IS NULL
+          AND a.slot_start > ${now.toISOString()}
+          AND a.slot_start <= ${windowEnd.toISOString()}
+          AND b.status = 'active'
+          AND b.deleted_at IS NULL
+      ) c
+      WHERE (c.recipient_email IS NOT NULL AND NOT c.email_claimed)
+         OR (c.recipient_phone IS NOT NULL AND NOT c.sms_claimed)
+      ORDER BY c.slot_start ASC
+    ` as ReminderCandidate[];
+
+    result.scanned = candidates.length;
+
+    // Group by business so each tenant config is resolved once
+    const byBusiness = new Map<string, ReminderCandidate[]>();
+    for (const candidate of candidates) {
+      const group = byBusiness.get(candidate.business_id) || [];
+      group.push(candidate);
+      byBusiness.set(candidate.business_id, group);
+    }
+
+    for (const [businessId, appointments] of byBusiness) {
+      const settings = await this.getReminderSettings(businessId);
+
+      if (settings === null) {
+        result.skipped += appointments.length;
+        continue;
+      }
+
+      const businessWindowEnd = now.getTime() + settings.hoursBefore * 60 * 60 * 1000;
+
+      for (const appointment of appointments) {
+        if (new Date(appointment.slot_start).getTime() > businessWindowEnd) {
+          // Not due yet for this tenant - will be picked up by a later run
+          continue;
+        }
+
+        const channels: ReminderChannel[] = [];
+        if (settings.email && appointment.recipient_email && !appointment.email_claimed) {
+          channels.push('email');
+        }
+        if (settings.sms && appointment.recipient_phone && !appointment.sms_claimed) {
+          channels.push('sms');
+        }
+
+        if (channels.length === 0) {
+          result.skipped++;
+          continue;
+        }
+
+        for (const channel of channels) {
+          try {
+            const notificationLogId = await this.claimReminder(appointment, channel);
+
+            if (!notificationLogId) {
+              // Already claimed by another run, or canceled/rescheduled since the scan
+              result.skipped++;
+              continue;
+            }
+
+            const delivery = channel === 'email'
+              ? await this.sender.sendAppointmentReminder(appointment.id, { notificationLogId })
+              : await this.sender.sendAppointmentReminderSms(appointment.id, { notificationLogId });
+
+            if (!delivery.success) {
+              console.error(`[ReminderDispatcher] ${channel} reminder not delivered for appointment`, appointment.id, delivery.error);
+              result.failed++;
+              continue;
+            }
+
+            result.sent++;
+          } catch (error) {
+            console.error(`[ReminderDispatcher] Failed to send ${channel} reminder for appointment`, appointment.id, error);
+            result.failed++;
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve the reminder window and channels for a business
+   * Returns null if the business has all reminders disabled or no access to the feature
+   */
+  private async getReminderSettings(businessId: string): Promise<ReminderSettings | null> {
+    const configResult = await loadConfigByBusinessId(businessId);
+
+    if (!configResult.success || !configResult.config) {
+      console.warn('[ReminderDispatcher] Could not load config for business', businessId);
+      return null;
+    }
+
+    const { notifications } = configResult.config;
+
+    if (!notifications.sendReminderEmail && !notifications.sendReminderSMS) {
+      return null;
+    }
+
+    if (!(await hasFeature(businessId, 'automatedReminders'))) {
+      return null;
+    }
+
+    // SMS reminders are further limited by the business's SMS quota (see SmsService)
+    return {
+      hoursBefore: notifications.reminderHoursBefore,
+      email: notifications.sendReminderEmail,
+      sms: notifications.sendReminderSMS,
+    };
+  }
+
+  /**
+   * Atomically claim an appointment for reminder delivery on one channel
+   *
+   * The INSERT only succeeds if the appointment is still confirmed at the same
+   * slot_start as when it was scanned, and no reminder row exists for it on
+   * this channel at that slot_start yet.
+   *
+   * @returns The claimed notification_logs id, or null if the claim was not acquired
+   */
+  private async claimReminder(appointment: ReminderCandidate, channel: ReminderChannel): Promise<string | null> {
+    const notificationLogId = uuidv4();
+
+    const claimed = await this.db`
+      INSERT INTO notification_logs (
+        id,
+        appointment_id,
+        recipient_email,
+        recipient_phone,
+        channel,
+        template_name,
+        reminder_slot_start,
+        status,
+        attempts,
+        locked_until,
+        created_at
+      )
+      SELECT
+        ${notificationLogId},
+        a.id,
+        ${channel === 'email' ? appointment.recipient_email : null},
+        ${channel === 'sms' ? appointment.recipient_phone : null},
+        ${channel},
+        'appointment_reminder',
+        a.slot_start,
+        'pending',
+        0,
+        NOW() + ${CLAIM_LOCK_INTERVAL}::interval,
+        NOW()
+      FROM appointments a
+      WHERE a.id = ${appointment.id}
+        AND a.status = 'confirmed'
+        AND a.deleted_at IS NULL
+        AND a.slot_start = ${appointment.slot_start}
+      ON CONFLICT DO NOTHING
+      RETURNING id
+    `;
+
+    return claimed.length > 0 ? (claimed[0].id as string) : null;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Notification retry policy
+ *
+ * Shared by the senders (EmailService, SmsService), which make the first
+ * attempt inline, and the notification worker, which makes the rest.
+ */
+
+// Total delivery attempts, including the first one, before a notification is dead-lettered
+export const MAX_NOTIFICATION_ATTEMPTS = 5;
+
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Delay before the next attempt, doubling from 1 minute up to 6 hours
+ *
+ * @param attempts - Attempts made so far (1 after the first failure)
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * When to try again, or null if the notification should be dead-lettered
+ */
+export function getNextAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= MAX_NOTIFICATION_ATTEMPTS) {
+    return null;
+  }
+  return new Date(now.getTime() + getRetryDelayMs(attempts));
+}
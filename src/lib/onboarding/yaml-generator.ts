@@ -3,7 +3,7 @@
  */
 
 import { stringify } from 'yaml';
-import { TenantConfigSchema, type TenantConfig } from '@/lib/config/tenant-schema';
+import { TenantConfigSchema, type TenantConfig, type Service } from '@/lib/config/tenant-schema';
 
 export interface OnboardingFormData {
   // Auth
@@ -38,7 +38,7 @@ export interface OnboardingFormData {
   coverImageUrl?: string;
 
   // Services (will be empty initially for self-service)
-  categories?: Array<{ id: string; name: string; description?: string; sortOrder: number; services: unknown[] }>;
+  categories?: Array<{ id: string; name: string; description?: string; sortOrder: number; services: Service[] }>;
 
   // Availability
   availability: Array<{
@@ -171,6 +171,9 @@ export function generateTenantConfig(formData: OnboardingFormData): TenantConfig
             },
           ],
 
+      capacityPools: [],
+      resources: [],
+
       bookingRequirements: {
         requireEmail: formData.requireEmail,
         requirePhone: formData.requirePhone,
@@ -199,6 +202,20 @@ export function generateTenantConfig(formData: OnboardingFormData): TenantConfig
           : {}),
       },
 
+      noShowPolicy: {
+        enabled: false,
+        maxNoShows: 2,
+        windowDays: 180,
+        action: 'block',
+      },
+
+      slotRecommendations: {
+        enabled: false,
+        hideGapSlots: false,
+        maxRecommended: 3,
+        preferredTimes: [],
+      },
+
       notifications: {
         sendConfirmationEmail: true,
         sendReminderEmail: true,
@@ -0,0 +1,312 @@
+import { DbClient } from '@/db/client';
+import { Payment, Reservation } from '@/db/types';
+import { TenantConfig, CancellationPolicy } from '@/lib/config/tenant-schema';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { ReservationManager } from '@/lib/booking/reservation-manager';
+import { PaymentProvider, PaymentProviderError } from './payment-provider';
+import { getPaymentProvider } from './provider';
+
+// How long the payment page stays open (Stripe Checkout needs at least 30 minutes)
+export const DEPOSIT_PAYMENT_WINDOW_MINUTES = 31;
+
+// Extra reservation time while the customer is on the payment page, so the
+// hold always outlives the page
+export const DEPOSIT_TTL_EXTENSION_MINUTES = 35;
+
+export interface DepositRequirement {
+  amountCents: number;
+  currency: string;
+}
+
+export type CanceledBy = 'customer' | 'business';
+
+export interface StartDepositParams {
+  reservation: Reservation;
+  deposit: DepositRequirement;
+  description: string;
+  customerEmail?: string;
+  returnUrl: string;
+  cancelUrl: string;
+}
+
+/**
+ * Deposit required to book a service, or null if it can be booked without paying
+ * Deposits only apply when the tenant has features.enableOnlinePayments.
+ *
+ * @param serviceExternalId - Service id as used in the YAML config
+ */
+export function getServiceDeposit(config: TenantConfig, serviceExternalId: string): DepositRequirement | null {
+  if (!config.features.enableOnlinePayments) {
+    return null;
+  }
+
+  const service = config.categories
+    .flatMap(category => category.services)
+    .find(s => s.id === serviceExternalId);
+
+  if (!service?.requiresDeposit || !service.depositAmount) {
+    return null;
+  }
+
+  return { amountCents: service.depositAmount, currency: config.business.currency };
+}
+
+/**
+ * Amount to refund when a paid appointment is canceled
+ *
+ * Customer cancellations follow cancellationPolicy.refundPolicy. When the
+ * business cancels, the customer always gets the full deposit back.
+ */
+export function calculateRefundCents(
+  paidCents: number,
+  policy: Pick<CancellationPolicy, 'refundPolicy' | 'partialRefundPercentage'>,
+  canceledBy: CanceledBy
+): number {
+  if (canceledBy === 'business') {
+    return paidCents;
+  }
+
+  switch (policy.refundPolicy) {
+    case 'full':
+      return paidCents;
+    case 'partial':
+      return Math.round(paidCents * (policy.partialRefundPercentage ?? 0) / 100);
+    case 'none':
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Deposit Manager
+ *
+ * Owns the payments table and the payment state on appointments:
+ * - Starts a deposit payment for a reservation and extends its TTL
+ * - Confirms the payment with the provider before the reservation is committed,
+ *   and refunds it in full if the commit then fails
+ * - Refunds deposits on cancellation according to the tenant's policy
+ */
+export class DepositManager {
+  constructor(
+    private db: DbClient,
+    private provider: PaymentProvider | null = getPaymentProvider()
+  ) {}
+
+  /**
+   * Deposit required for a reservation's service (YAML config is the source of truth)
+   */
+  async getDepositForReservation(reservation: Reservation): Promise<DepositRequirement | null> {
+    const configResult = await loadConfigByBusinessId(reservation.business_id);
+
+    if (!configResult.success || !configResult.config) {
+      throw new Error('Failed to load business configuration');
+    }
+
+    const [service] = await this.db`
+      SELECT external_id FROM services
+      WHERE id = ${reservation.service_id}
+      LIMIT 1
+    `;
+
+    return service ? getServiceDeposit(configResult.config, service.external_id) : null;
+  }
+
+  /**
+   * Create the deposit payment for a reservation
+   * Calling this again for the same reservation returns the pending payment;
+   * once an attempt failed or expired, a new payment page is created.
+   */
+  async startDeposit(params: StartDepositParams): Promise<Payment> {
+    const provider = this.requireProvider();
+    const { reservation, deposit } = params;
+
+    const [existing] = await this.db`
+      SELECT * FROM payments
+      WHERE reservation_id = ${reservation.id}
+        AND status IN ('pending', 'succeeded')
+      LIMIT 1
+    `;
+
+    if (existing) {
+      return existing as Payment;
+    }
+
+    // Keep the slot while the customer pays; the payment page closes before the hold ends
+    await new ReservationManager(this.db).extendReservation(reservation.id, DEPOSIT_TTL_EXTENSION_MINUTES);
+
+    // Earlier attempts failed or expired; the provider would replay their key
+    const [{ attempt }] = await this.db`
+      SELECT COUNT(*)::int AS attempt FROM payments
+      WHERE reservation_id = ${reservation.id}
+    `;
+
+    const providerPayment = await provider.createPayment({
+      amountCents: deposit.amountCents,
+      currency: deposit.currency,
+      description: params.description,
+      idempotencyKey: `deposit:${reservation.id}:${attempt}`,
+      returnUrl: params.returnUrl,
+      cancelUrl: params.cancelUrl,
+      customerEmail: params.customerEmail,
+      expiresAt: new Date(Date.now() + DEPOSIT_PAYMENT_WINDOW_MINUTES * 60 * 1000),
+      metadata: {
+        reservation_id: reservation.id,
+        business_id: reservation.business_id,
+      },
+    });
+
+    const [payment] = await this.db`
+      INSERT INTO payments (
+        business_id,
+        reservation_id,
+        provider,
+        provider_payment_id,
+        redirect_url,
+        amount_cents,
+        currency,
+        status
+      ) VALUES (
+        ${reservation.business_id},
+        ${reservation.id},
+        ${provider.name},
+        ${providerPayment.id},
+        ${providerPayment.redirectUrl || null},
+        ${deposit.amountCents},
+        ${deposit.currency},
+        'pending'
+      )
+      ON CONFLICT (provider, provider_payment_id) DO UPDATE
+        SET updated_at = NOW()
+      RETURNING *
+    `;
+
+    return payment as Payment;
+  }
+
+  /**
+   * Refresh a reservation's deposit from the provider
+   *
+   * @returns The payment record, or null if no deposit was started for the reservation
+   */
+  async confirmDeposit(reservationId: string): Promise<Payment | null> {
+    const [payment] = await this.db`
+      SELECT * FROM payments
+      WHERE reservation_id = ${reservationId}
+        AND status IN ('pending', 'succeeded')
+      LIMIT 1
+    `;
+
+    if (!payment || payment.status === 'succeeded') {
+      return (payment as Payment) || null;
+    }
+
+    const providerPayment = await this.requireProvider().getPayment(payment.provider_payment_id);
+
+    if (providerPayment.status === 'pending') {
+      return payment as Payment;
+    }
+
+    const [updated] = await this.db`
+      UPDATE payments
+      SET status = ${providerPayment.status}
+      WHERE id = ${payment.id}
+      RETURNING *
+    `;
+
+    return updated as Payment;
+  }
+
+  /**
+   * Refund a deposit in full when its reservation could not be committed
+   * (the hold expired or the slot was taken while the customer was paying).
+   *
+   * The payment is marked refunded before the provider call, in one statement
+   * that waits for a concurrent commit holding the row (the commit attaches
+   * the deposit in the statement that creates the appointment); a deposit
+   * that got attached to an appointment is left alone.
+   */
+  async refundUnbookedDeposit(paymentId: string): Promise<void> {
+    const [payment] = await this.db`
+      UPDATE payments
+      SET status = 'refunded',
+          refunded_cents = amount_cents
+      WHERE id = ${paymentId}
+        AND status = 'succeeded'
+        AND appointment_id IS NULL
+      RETURNING *
+    `;
+
+    if (!payment) {
+      return;
+    }
+
+    try {
+      await this.requireProvider().refundPayment(payment.provider_payment_id, payment.amount_cents, `refund:${payment.id}`);
+    } catch (error) {
+      await this.db`
+        UPDATE payments
+        SET status = 'succeeded',
+            refunded_cents = 0
+        WHERE id = ${payment.id}
+      `;
+      throw error;
+    }
+  }
+
+  /**
+   * Refund the deposit of a canceled appointment per the tenant's cancellation policy
+   * Does nothing if the appointment has no paid deposit.
+   *
+   * @returns Amount refunded in cents
+   */
+  async refundForCancellation(appointmentId: string, canceledBy: CanceledBy): Promise<number> {
+    const [payment] = await this.db`
+      SELECT * FROM payments
+      WHERE appointment_id = ${appointmentId}
+        AND status = 'succeeded'
+      LIMIT 1
+    `;
+
+    if (!payment) {
+      return 0;
+    }
+
+    const configResult = await loadConfigByBusinessId(payment.business_id);
+
+    if (!configResult.success || !configResult.config) {
+      throw new Error('Failed to load business configuration');
+    }
+
+    const refundCents = calculateRefundCents(payment.amount_cents, configResult.config.cancellationPolicy, canceledBy);
+
+    if (refundCents <= 0) {
+      return 0;
+    }
+
+    await this.requireProvider().refundPayment(payment.provider_payment_id, refundCents, `refund:${payment.id}`);
+
+    const status = refundCents >= payment.amount_cents ? 'refunded' : 'partially_refunded';
+
+    await this.db`
+      UPDATE payments
+      SET status = ${status},
+          refunded_cents = ${refundCents}
+      WHERE id = ${payment.id}
+    `;
+
+    await this.db`
+      UPDATE appointments
+      SET payment_status = ${status}
+      WHERE id = ${appointmentId}
+    `;
+
+    return refundCents;
+  }
+
+  private requireProvider(): PaymentProvider {
+    if (!this.provider) {
+      throw new PaymentProviderError('Online payments are not configured', 'provider_not_configured');
+    }
+    return this.provider;
+  }
+}
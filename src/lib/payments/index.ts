@@ -0,0 +1,34 @@
+/**
+ * Online Payments Module
+ *
+ * Deposits for services with requiresDeposit (features.enableOnlinePayments):
+ *
+ * 1. Reserve: the reservation response tells the client a deposit is due
+ * 2. Deposit: a payment is created with the provider, the reservation TTL is
+ *    extended and the customer is sent to the hosted payment page
+ * 3. Commit: the payment must have succeeded; it is linked to the appointment in
+ *    the commit transaction, and refunded in full if the slot can't be booked
+ * 4. Cancel: the deposit is refunded per cancellationPolicy.refundPolicy
+ */
+
+export { PaymentProviderError } from './payment-provider';
+export type {
+  PaymentProvider,
+  PaymentStatus,
+  CreatePaymentParams,
+  ProviderPayment,
+  ProviderRefund,
+} from './payment-provider';
+
+export { getPaymentProvider } from './provider';
+export { StripePaymentProvider } from './stripe-provider';
+export { InMemoryPaymentProvider } from './memory-provider';
+
+export {
+  DepositManager,
+  DEPOSIT_TTL_EXTENSION_MINUTES,
+  DEPOSIT_PAYMENT_WINDOW_MINUTES,
+  getServiceDeposit,
+  calculateRefundCents,
+} from './deposit-manager';
+export type { DepositRequirement, CanceledBy, StartDepositParams } from './deposit-manager';
@@ -0,0 +1,113 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CreatePaymentParams,
+  PaymentProvider,
+  PaymentProviderError,
+  ProviderPayment,
+  ProviderRefund,
+} from './payment-provider';
+
+interface StoredPayment extends ProviderPayment {
+  idempotencyKey: string;
+  refunds: ProviderRefund[];
+}
+
+/**
+ * In-memory payment provider for tests and local development
+ *
+ * Payments start as 'pending' and are settled explicitly with completePayment()
+ * or failPayment(), standing in for the customer on the hosted payment page.
+ */
+export class InMemoryPaymentProvider implements PaymentProvider {
+  readonly name = 'memory';
+
+  private payments = new Map<string, StoredPayment>();
+  private refundKeys = new Map<string, ProviderRefund>();
+
+  async createPayment(params: CreatePaymentParams): Promise<ProviderPayment> {
+    const existing = [...this.payments.values()].find(p => p.idempotencyKey === params.idempotencyKey);
+    if (existing) {
+      return this.toProviderPayment(existing);
+    }
+
+    const id = `mem_${uuidv4()}`;
+    const payment: StoredPayment = {
+      id,
+      status: 'pending',
+      amountCents: params.amountCents,
+      currency: params.currency,
+      redirectUrl: `${params.returnUrl}${params.returnUrl.includes('?') ? '&' : '?'}payment_id=${id}`,
+      idempotencyKey: params.idempotencyKey,
+      refunds: [],
+    };
+
+    this.payments.set(id, payment);
+    return this.toProviderPayment(payment);
+  }
+
+  async getPayment(paymentId: string): Promise<ProviderPayment> {
+    return this.toProviderPayment(this.find(paymentId));
+  }
+
+  async refundPayment(paymentId: string, amountCents: number, idempotencyKey: string): Promise<ProviderRefund> {
+    const existingRefund = this.refundKeys.get(idempotencyKey);
+    if (existingRefund) {
+      return existingRefund;
+    }
+
+    const payment = this.find(paymentId);
+
+    if (payment.status !== 'succeeded') {
+      throw new PaymentProviderError('Only succeeded payments can be refunded', 'payment_not_succeeded');
+    }
+
+    const refunded = this.getRefundedCents(paymentId);
+    if (amountCents <= 0 || refunded + amountCents > payment.amountCents) {
+      throw new PaymentProviderError('Refund amount exceeds the remaining payment amount', 'refund_exceeds_amount');
+    }
+
+    const refund = { id: `mem_re_${uuidv4()}`, amountCents };
+    payment.refunds.push(refund);
+    this.refundKeys.set(idempotencyKey, refund);
+    return refund;
+  }
+
+  /**
+   * Simulate the customer completing the payment
+   */
+  completePayment(paymentId: string): void {
+    this.find(paymentId).status = 'succeeded';
+  }
+
+  /**
+   * Simulate the payment being declined
+   */
+  failPayment(paymentId: string): void {
+    this.find(paymentId).status = 'failed';
+  }
+
+  /**
+   * Total refunded so far for a payment
+   */
+  getRefundedCents(paymentId: string): number {
+    return this.find(paymentId).refunds.reduce((sum, refund) => sum + refund.amountCents, 0);
+  }
+
+  private find(paymentId: string): StoredPayment {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new PaymentProviderError(`Payment ${paymentId} not found`, 'payment_not_found');
+    }
+    return payment;
+  }
+
+  private toProviderPayment(payment: StoredPayment): ProviderPayment {
+    return {
+      id: payment.id,
+      status: payment.status,
+      amountCents: payment.amountCents,
+      currency: payment.currency,
+      redirectUrl: payment.redirectUrl,
+    };
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Payment provider abstraction
+ *
+ * Deposits are collected on a hosted payment page: the provider creates a
+ * payment and returns a URL the customer is redirected to, then sends them back
+ * to returnUrl. The booking flow never handles card details itself and only
+ * asks the provider for the payment status before committing.
+ */
+
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed' | 'canceled';
+
+export interface CreatePaymentParams {
+  amountCents: number;
+  currency: string; // ISO 4217, e.g. 'EUR'
+  description: string;
+  idempotencyKey: string;
+  returnUrl: string;
+  cancelUrl: string;
+  customerEmail?: string;
+  expiresAt?: Date; // Payment page is closed after this time
+  metadata?: Record<string, string>;
+}
+
+export interface ProviderPayment {
+  id: string;
+  status: PaymentStatus;
+  amountCents: number;
+  currency: string;
+  redirectUrl?: string;
+}
+
+export interface ProviderRefund {
+  id: string;
+  amountCents: number;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  /**
+   * Create a payment and return the hosted page to send the customer to
+   */
+  createPayment(params: CreatePaymentParams): Promise<ProviderPayment>;
+
+  /**
+   * Fetch the current state of a payment
+   */
+  getPayment(paymentId: string): Promise<ProviderPayment>;
+
+  /**
+   * Refund part or all of a succeeded payment
+   */
+  refundPayment(paymentId: string, amountCents: number, idempotencyKey: string): Promise<ProviderRefund>;
+}
+
+export class PaymentProviderError extends Error {
+  constructor(message: string, public readonly code?: string) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
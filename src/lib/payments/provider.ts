@@ -0,0 +1,10 @@
+import { env } from '@/lib/env';
+import { PaymentProvider } from './payment-provider';
+import { StripePaymentProvider } from './stripe-provider';
+
+/**
+ * Get the configured payment provider, or null if online payments are not set up
+ */
+export function getPaymentProvider(): PaymentProvider | null {
+  return env.STRIPE_SECRET_KEY ? new StripePaymentProvider(env.STRIPE_SECRET_KEY) : null;
+}
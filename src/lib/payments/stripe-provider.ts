@@ -0,0 +1,145 @@
+import {
+  CreatePaymentParams,
+  PaymentProvider,
+  PaymentProviderError,
+  PaymentStatus,
+  ProviderPayment,
+  ProviderRefund,
+} from './payment-provider';
+
+const STRIPE_API_BASE = 'https://api.stripe.com/v1';
+
+// Checkout rejects sessions expiring less than 30 minutes after creation;
+// the extra minute covers the time the request takes to reach Stripe
+const MIN_SESSION_MINUTES = 31;
+
+interface StripeCheckoutSession {
+  id: string;
+  url: string | null;
+  status: 'open' | 'complete' | 'expired';
+  payment_status: 'paid' | 'unpaid' | 'no_payment_required';
+  amount_total: number;
+  currency: string;
+  payment_intent: string | null;
+}
+
+interface StripeRefund {
+  id: string;
+  amount: number;
+}
+
+/**
+ * Stripe payment provider
+ *
+ * Uses Stripe Checkout Sessions (hosted payment page) through the REST API.
+ * Provider payment ids are Checkout Session ids; refunds are issued against
+ * the session's PaymentIntent.
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe';
+
+  constructor(private secretKey: string) {}
+
+  async createPayment(params: CreatePaymentParams): Promise<ProviderPayment> {
+    const body: Record<string, string> = {
+      mode: 'payment',
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': params.currency.toLowerCase(),
+      'line_items[0][price_data][unit_amount]': String(params.amountCents),
+      'line_items[0][price_data][product_data][name]': params.description,
+      success_url: params.returnUrl,
+      cancel_url: params.cancelUrl,
+    };
+
+    if (params.customerEmail) {
+      body.customer_email = params.customerEmail;
+    }
+
+    if (params.expiresAt) {
+      const earliest = Date.now() + MIN_SESSION_MINUTES * 60 * 1000;
+      body.expires_at = String(Math.floor(Math.max(params.expiresAt.getTime(), earliest) / 1000));
+    }
+
+    for (const [key, value] of Object.entries(params.metadata || {})) {
+      body[`metadata[${key}]`] = value;
+      body[`payment_intent_data[metadata][${key}]`] = value;
+    }
+
+    const session = await this.request<StripeCheckoutSession>('POST', '/checkout/sessions', body, params.idempotencyKey);
+    return this.toProviderPayment(session);
+  }
+
+  async getPayment(paymentId: string): Promise<ProviderPayment> {
+    const session = await this.request<StripeCheckoutSession>('GET', `/checkout/sessions/${encodeURIComponent(paymentId)}`);
+    return this.toProviderPayment(session);
+  }
+
+  async refundPayment(paymentId: string, amountCents: number, idempotencyKey: string): Promise<ProviderRefund> {
+    const session = await this.request<StripeCheckoutSession>('GET', `/checkout/sessions/${encodeURIComponent(paymentId)}`);
+
+    if (!session.payment_intent || session.payment_status !== 'paid') {
+      throw new PaymentProviderError('Only succeeded payments can be refunded', 'payment_not_succeeded');
+    }
+
+    const refund = await this.request<StripeRefund>(
+      'POST',
+      '/refunds',
+      { payment_intent: session.payment_intent, amount: String(amountCents) },
+      idempotencyKey
+    );
+
+    return { id: refund.id, amountCents: refund.amount };
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    body?: Record<string, string>,
+    idempotencyKey?: string
+  ): Promise<T> {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.secretKey}`,
+    };
+
+    if (body) {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+    }
+
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    const response = await fetch(`${STRIPE_API_BASE}${path}`, {
+      method,
+      headers,
+      body: body ? new URLSearchParams(body).toString() : undefined,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const error = (data as { error?: { message?: string; code?: string } }).error;
+      throw new PaymentProviderError(error?.message || `Stripe request failed with status ${response.status}`, error?.code);
+    }
+
+    return data as T;
+  }
+
+  private toProviderPayment(session: StripeCheckoutSession): ProviderPayment {
+    let status: PaymentStatus = 'pending';
+
+    if (session.payment_status === 'paid') {
+      status = 'succeeded';
+    } else if (session.status === 'expired') {
+      status = 'canceled';
+    }
+
+    return {
+      id: session.id,
+      status,
+      amountCents: session.amount_total,
+      currency: session.currency.toUpperCase(),
+      redirectUrl: session.url || undefined,
+    };
+  }
+}
@@ -0,0 +1,194 @@
+import { DbClient } from '@/db/client';
+import { ApiKey, ApiKeyScope } from '@/db/types';
+import { generateApiKey, hashApiKey } from './keys';
+
+export const MAX_API_KEYS_PER_BUSINESS = 10;
+
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+
+// last_used_at is refreshed at most this often, so busy keys don't write on every request
+const LAST_USED_RESOLUTION = '1 minute';
+
+// Key as listed in the dashboard; the key itself is only returned on create and rotate
+export type ApiKeySummary = Omit<ApiKey, 'key_hash'>;
+
+export interface CreateApiKeyParams {
+  businessId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+  createdBy: string;
+}
+
+export interface UpdateApiKeyParams {
+  name?: string;
+  scopes?: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+}
+
+/**
+ * Key presented on an API request, with the state of its business
+ */
+export interface AuthenticatedApiKey extends ApiKeySummary {
+  api_access_enabled: boolean;
+}
+
+/**
+ * API Key Service
+ *
+ * Manages the per-business keys of the public REST API (/api/v1). Revoking
+ * keeps the row so the dashboard can still show when a key was last used.
+ */
+export class ApiKeyService {
+  constructor(private db: DbClient) {}
+
+  async listKeys(businessId: string): Promise<ApiKeySummary[]> {
+    return await this.db`
+      SELECT id, business_id, name, key_prefix, scopes, rate_limit_per_minute,
+             last_used_at, revoked_at, created_by, created_at, updated_at
+      FROM api_keys
+      WHERE business_id = ${businessId}
+      ORDER BY revoked_at IS NOT NULL, created_at ASC
+    ` as ApiKeySummary[];
+  }
+
+  async getKey(keyId: string): Promise<ApiKey | null> {
+    const [apiKey] = await this.db`
+      SELECT * FROM api_keys WHERE id = ${keyId}
+    `;
+
+    return (apiKey as ApiKey) || null;
+  }
+
+  async countActiveKeys(businessId: string): Promise<number> {
+    const [row] = await this.db`
+      SELECT COUNT(*)::int AS count
+      FROM api_keys
+      WHERE business_id = ${businessId} AND revoked_at IS NULL
+    `;
+
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Create a key
+   * Also switches on API access for the business, so a new key works right away.
+   *
+   * @returns The stored key and the key itself (shown to the owner once)
+   */
+  async createKey(params: CreateApiKeyParams): Promise<{ apiKey: ApiKeySummary; key: string }> {
+    const generated = generateApiKey();
+
+    const [apiKey] = await this.db`
+      INSERT INTO api_keys (business_id, name, key_prefix, key_hash, scopes, rate_limit_per_minute, created_by)
+      VALUES (
+        ${params.businessId},
+        ${params.name},
+        ${generated.prefix},
+        ${generated.hash},
+        ${params.scopes},
+        ${params.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE},
+        ${params.createdBy}
+      )
+      RETURNING id, business_id, name, key_prefix, scopes, rate_limit_per_minute,
+                last_used_at, revoked_at, created_by, created_at, updated_at
+    `;
+
+    await this.setApiAccessEnabled(params.businessId, true);
+
+    return { apiKey: apiKey as ApiKeySummary, key: generated.key };
+  }
+
+  /**
+   * Update a key; undefined fields are left unchanged
+   */
+  async updateKey(keyId: string, params: UpdateApiKeyParams): Promise<ApiKeySummary | null> {
+    const [apiKey] = await this.db`
+      UPDATE api_keys
+      SET
+        name = COALESCE(${params.name ?? null}, name),
+        scopes = COALESCE(${params.scopes ?? null}::text[], scopes),
+        rate_limit_per_minute = COALESCE(${params.rateLimitPerMinute ?? null}, rate_limit_per_minute)
+      WHERE id = ${keyId}
+      RETURNING id, business_id, name, key_prefix, scopes, rate_limit_per_minute,
+                last_used_at, revoked_at, created_by, created_at, updated_at
+    `;
+
+    return (apiKey as ApiKeySummary) || null;
+  }
+
+  /**
+   * Replace a key, keeping its name, scopes and limits
+   * The old key stops working immediately.
+   *
+   * @returns The new key, or null if the key is revoked
+   */
+  async rotateKey(keyId: string): Promise<{ apiKey: ApiKeySummary; key: string } | null> {
+    const generated = generateApiKey();
+
+    const [apiKey] = await this.db`
+      UPDATE api_keys
+      SET key_prefix = ${generated.prefix},
+          key_hash = ${generated.hash},
+          last_used_at = NULL
+      WHERE id = ${keyId} AND revoked_at IS NULL
+      RETURNING id, business_id, name, key_prefix, scopes, rate_limit_per_minute,
+                last_used_at, revoked_at, created_by, created_at, updated_at
+    `;
+
+    return apiKey ? { apiKey: apiKey as ApiKeySummary, key: generated.key } : null;
+  }
+
+  async revokeKey(keyId: string): Promise<void> {
+    await this.db`
+      UPDATE api_keys
+      SET revoked_at = NOW()
+      WHERE id = ${keyId} AND revoked_at IS NULL
+    `;
+  }
+
+  async getApiAccessEnabled(businessId: string): Promise<boolean> {
+    const [business] = await this.db`
+      SELECT api_access_enabled FROM businesses WHERE id = ${businessId}
+    `;
+
+    return business?.api_access_enabled === true;
+  }
+
+  async setApiAccessEnabled(businessId: string, enabled: boolean): Promise<void> {
+    await this.db`
+      UPDATE businesses SET api_access_enabled = ${enabled} WHERE id = ${businessId}
+    `;
+  }
+
+  /**
+   * Look up the key presented on a request and record its use
+   * @returns null for unknown or revoked keys, and keys of deleted businesses
+   */
+  async authenticate(key: string): Promise<AuthenticatedApiKey | null> {
+    const [apiKey] = await this.db`
+      SELECT
+        k.id, k.business_id, k.name, k.key_prefix, k.scopes, k.rate_limit_per_minute,
+        k.last_used_at, k.revoked_at, k.created_by, k.created_at, k.updated_at,
+        COALESCE(b.api_access_enabled, FALSE) AS api_access_enabled
+      FROM api_keys k
+      JOIN businesses b ON b.id = k.business_id
+      WHERE k.key_hash = ${hashApiKey(key)}
+        AND k.revoked_at IS NULL
+        AND b.deleted_at IS NULL
+    ` as AuthenticatedApiKey[];
+
+    if (!apiKey) {
+      return null;
+    }
+
+    await this.db`
+      UPDATE api_keys
+      SET last_used_at = NOW()
+      WHERE id = ${apiKey.id}
+        AND (last_used_at IS NULL OR last_used_at < NOW() - ${LAST_USED_RESOLUTION}::interval)
+    `;
+
+    return apiKey;
+  }
+}
@@ -0,0 +1,456 @@
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { DbClient } from '@/db/client';
+import { CustomFieldAnswer } from '@/db/types';
+import {
+  AppointmentManager,
+  ReservationManager,
+  evaluateBookingLimits,
+  evaluateNoShowPolicy,
+  resolveCapacityPools,
+  getServiceResources,
+  validateCustomFieldAnswers,
+} from '@/lib/booking';
+import { generateBookingId } from '@/lib/booking/id';
+import { ExternalCalendarService } from '@/lib/calendar';
+import { validateBookingTime, snapToGrain } from '@/lib/booking/validation';
+import { loadConfigByBusinessId } from '@/lib/config/config-loader';
+import { CustomerNotificationService } from '@/lib/email/customer-notification-service';
+import { OwnerNotificationService } from '@/lib/notifications/owner-notification-service';
+import { getServiceDeposit } from '@/lib/payments';
+import { StaffManager } from '@/lib/staff/staff-manager';
+import { ApiErrorCode } from './authenticate';
+import { findApiService } from './services';
+import {
+  ApiAppointment,
+  createAppointmentSchema,
+  listAppointmentsQuerySchema,
+} from './schemas';
+
+// How long the reservation behind an API booking may live; it is committed right away
+const RESERVATION_TTL_MINUTES = 5;
+
+export type ApiBookingResult =
+  | { success: true; appointment: ApiAppointment; created: boolean }
+  | { success: false; status: number; code: ApiErrorCode; error: string; details?: unknown };
+
+interface ApiAppointmentRow {
+  id: string;
+  booking_id: string;
+  service_id: string;
+  service_name: string | null;
+  staff_id: string | null;
+  status: ApiAppointment['status'];
+  slot_start: Date | string;
+  slot_end: Date | string;
+  customer_id: string | null;
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+  notes: string | null;
+  created_at: Date | string;
+  updated_at: Date | string;
+}
+
+function toApiAppointment(row: ApiAppointmentRow): ApiAppointment {
+  return {
+    id: row.id,
+    bookingId: row.booking_id,
+    serviceId: row.service_id,
+    serviceName: row.service_name,
+    staffId: row.staff_id,
+    status: row.status,
+    slotStart: new Date(row.slot_start).toISOString(),
+    slotEnd: new Date(row.slot_end).toISOString(),
+    customer: {
+      id: row.customer_id,
+      name: row.customer_name,
+      email: row.customer_email,
+      phone: row.customer_phone,
+    },
+    notes: row.notes,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+/**
+ * Appointments of a business, oldest slot first
+ * Canceled appointments stay visible (the cancel flow soft-deletes them).
+ */
+export async function listApiAppointments(
+  db: DbClient,
+  businessId: string,
+  query: z.infer<typeof listAppointmentsQuerySchema>
+): Promise<{ appointments: ApiAppointment[]; hasMore: boolean }> {
+  const rows = await db`
+    SELECT
+      a.id, a.booking_id, a.service_id, s.name AS service_name, a.staff_id, a.status,
+      a.slot_start, a.slot_end, a.customer_id,
+      COALESCE(u.name, a.guest_name) AS customer_name,
+      COALESCE(u.email, a.guest_email) AS customer_email,
+      COALESCE(u.phone, a.guest_phone) AS customer_phone,
+      a.notes, a.created_at, a.updated_at
+    FROM appointments a
+    LEFT JOIN services s ON s.id = a.service_id
+    LEFT JOIN users u ON u.id = a.customer_id
+    WHERE a.business_id = ${businessId}
+      AND (a.deleted_at IS NULL OR a.status = 'canceled')
+      ${query.start ? db`AND a.slot_end > ${new Date(query.start).toISOString()}` : db``}
+      ${query.end ? db`AND a.slot_start < ${new Date(query.end).toISOString()}` : db``}
+      ${query.status ? db`AND a.status = ${query.status}` : db``}
+      ${query.serviceId ? db`AND a.service_id = ${query.serviceId}` : db``}
+      ${query.staffId ? db`AND a.staff_id = ${query.staffId}` : db``}
+    ORDER BY a.slot_start ASC, a.id ASC
+    LIMIT ${query.limit + 1}
+    OFFSET ${query.offset}
+  ` as ApiAppointmentRow[];
+
+  return {
+    appointments: rows.slice(0, query.limit).map(toApiAppointment),
+    hasMore: rows.length > query.limit,
+  };
+}
+
+export async function getApiAppointment(
+  db: DbClient,
+  businessId: string,
+  appointmentId: string
+): Promise<ApiAppointment | null> {
+  const [row] = await db`
+    SELECT
+      a.id, a.booking_id, a.service_id, s.name AS service_name, a.staff_id, a.status,
+      a.slot_start, a.slot_end, a.customer_id,
+      COALESCE(u.name, a.guest_name) AS customer_name,
+      COALESCE(u.email, a.guest_email) AS customer_email,
+      COALESCE(u.phone, a.guest_phone) AS customer_phone,
+      a.notes, a.created_at, a.updated_at
+    FROM appointments a
+    LEFT JOIN services s ON s.id = a.service_id
+    LEFT JOIN users u ON u.id = a.customer_id
+    WHERE a.id = ${appointmentId}
+      AND a.business_id = ${businessId}
+      AND (a.deleted_at IS NULL OR a.status = 'canceled')
+  ` as ApiAppointmentRow[];
+
+  return row ? toApiAppointment(row) : null;
+}
+
+/**
+ * Book a guest appointment in one call
+ *
+ * Runs the reserve and commit steps of the booking page back to back, with the
+ * same checks: opening hours and off-times, staff calendars, capacity, custom
+ * fields and booking limits. Services that take an online deposit can't be
+ * booked this way, since there is no customer to pay it.
+ *
+ * The idempotency key is scoped to the business; a retry returns the
+ * appointment booked by the first attempt.
+ */
+export async function createApiAppointment(
+  db: DbClient,
+  businessId: string,
+  input: z.infer<typeof createAppointmentSchema>
+): Promise<ApiBookingResult> {
+  const idempotencyKey = `api:${businessId}:${input.idempotencyKey}`;
+
+  const [existing] = await db`
+    SELECT id FROM appointments
+    WHERE idempotency_key = ${idempotencyKey} AND business_id = ${businessId}
+    LIMIT 1
+  `;
+
+  if (existing) {
+    const appointment = await getApiAppointment(db, businessId, existing.id);
+    if (appointment) {
+      return { success: true, appointment, created: false };
+    }
+  }
+
+  const configResult = await loadConfigByBusinessId(businessId);
+  if (!configResult.success || !configResult.config) {
+    throw new Error(configResult.error || 'Failed to load business configuration');
+  }
+
+  const config = configResult.config;
+  const service = await findApiService(db, businessId, input.serviceId);
+  const serviceConfig = config.categories
+    .flatMap(category => category.services)
+    .find(s => s.id === service?.external_id);
+
+  if (!service || !serviceConfig) {
+    return { success: false, status: 404, code: 'NOT_FOUND', error: 'Service not found' };
+  }
+
+  if (!serviceConfig.enabled) {
+    return { success: false, status: 400, code: 'BOOKING_REJECTED', error: 'Service is not available for booking' };
+  }
+
+  if (getServiceDeposit(config, serviceConfig.id)) {
+    return {
+      success: false,
+      status: 400,
+      code: 'BOOKING_REJECTED',
+      error: 'This service requires an online deposit and must be booked on the booking page',
+      details: { reason: 'DEPOSIT_REQUIRED' },
+    };
+  }
+
+  const slotStart = snapToGrain(new Date(input.startTime));
+  const slotEnd = new Date(slotStart.getTime() + service.duration_minutes * 60 * 1000);
+
+  const bufferBefore = service.buffer_before_minutes || 0;
+  const bufferAfter = service.buffer_after_minutes || 0;
+
+  const externalBusy = await new ExternalCalendarService(db).getBusyIntervals(
+    businessId,
+    new Date(slotStart.getTime() - bufferBefore * 60 * 1000),
+    new Date(slotEnd.getTime() + bufferAfter * 60 * 1000)
+  );
+
+  const timeValidation = validateBookingTime({
+    config,
+    slotStart,
+    slotEnd,
+    bufferBefore,
+    bufferAfter,
+    externalBusy,
+    skipAdvanceLimitCheck: false,
+  });
+
+  if (!timeValidation.valid) {
+    return {
+      success: false,
+      status: 400,
+      code: 'BOOKING_REJECTED',
+      error: timeValidation.error || 'This time cannot be booked',
+      details: { reason: timeValidation.code },
+    };
+  }
+
+  const customFields = validateCustomFieldAnswers(config.bookingRequirements.customFields, input.customFields);
+
+  if (!customFields.valid) {
+    return {
+      success: false,
+      status: 400,
+      code: 'VALIDATION_FAILED',
+      error: customFields.error || 'Invalid custom field answers',
+      details: { reason: customFields.code, fieldId: customFields.fieldId },
+    };
+  }
+
+  const customFieldAnswers: CustomFieldAnswer[] = customFields.answers;
+
+  const limits = await evaluateBookingLimits(db, {
+    config,
+    businessId,
+    slotStart,
+    guestEmail: input.guestEmail,
+  });
+
+  if (!limits.allowed) {
+    return {
+      success: false,
+      status: 403,
+      code: 'BOOKING_REJECTED',
+      error: limits.error || 'Booking limit reached',
+      details: { reason: limits.code, params: limits.params },
+    };
+  }
+
+  const noShow = await evaluateNoShowPolicy(db, {
+    config,
+    businessId,
+    guestEmail: input.guestEmail,
+    guestPhone: input.guestPhone,
+  });
+
+  if (!noShow.allowed) {
+    return {
+      success: false,
+      status: 403,
+      code: 'BOOKING_REJECTED',
+      error: noShow.error || 'Booking restricted after missed appointments',
+      details: { reason: noShow.code, params: noShow.params },
+    };
+  }
+
+  // The deposit the no-show policy asks for can only be paid on the booking page
+  if (noShow.deposit) {
+    return {
+      success: false,
+      status: 400,
+      code: 'BOOKING_REJECTED',
+      error: 'This customer must pay an online deposit and book on the booking page',
+      details: { reason: 'DEPOSIT_REQUIRED' },
+    };
+  }
+
+  // Per-staff booking, as in /api/booking/reserve
+  const staffCandidates = await new StaffManager(db).resolveStaffCandidates(
+    config,
+    businessId,
+    service.id,
+    slotStart,
+    slotEnd,
+    input.staffId
+  );
+
+  if (!staffCandidates.success) {
+    return staffCandidates.code === 'STAFF_NOT_FOUND'
+      ? { success: false, status: 404, code: 'NOT_FOUND', error: staffCandidates.error }
+      : {
+          success: false,
+          status: 400,
+          code: 'BOOKING_REJECTED',
+          error: staffCandidates.error,
+          details: { reason: staffCandidates.code },
+        };
+  }
+
+  const reservationManager = new ReservationManager(db);
+  const reservationParams = {
+    businessId,
+    serviceId: service.id,
+    slotStart,
+    slotEnd,
+    idempotencyKey,
+    ttlMinutes: RESERVATION_TTL_MINUTES,
+    maxSimultaneousBookings: serviceConfig.maxSimultaneousBookings ?? config.bookingLimits.maxSimultaneousBookings,
+    capacityPools: await resolveCapacityPools(db, config, businessId, serviceConfig.id),
+    resources: getServiceResources(config, serviceConfig.id),
+  };
+
+  try {
+    const reservation = await reservationManager.createStaffReservation(reservationParams, staffCandidates.staffIds);
+
+    const appointment = await new AppointmentManager(db).commitReservation({
+      reservationId: reservation.id,
+      bookingId: generateBookingId(),
+      guestEmail: input.guestEmail,
+      guestPhone: input.guestPhone,
+      guestName: input.guestName,
+      cancellationToken: uuidv4(),
+      customFieldAnswers,
+      notes: input.notes?.trim() || undefined,
+    });
+
+    await notifyNewBooking(db, appointment.id, input);
+
+    const created = await getApiAppointment(db, businessId, appointment.id);
+    if (!created) {
+      throw new Error(`Booked appointment ${appointment.id} not found`);
+    }
+
+    return { success: true, appointment: created, created: true };
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('no longer available')) {
+      return { success: false, status: 409, code: 'CONFLICT', error: error.message };
+    }
+
+    if (error instanceof Error && error.message.includes('Reservation')) {
+      return { success: false, status: 409, code: 'CONFLICT', error: error.message };
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Owner notification and customer confirmation, as after a booking on the booking page
+ * Failures are logged; the booking stands.
+ */
+async function notifyNewBooking(
+  db: DbClient,
+  appointmentId: string,
+  input: z.infer<typeof createAppointmentSchema>
+): Promise<void> {
+  const [appointment] = await db`
+    SELECT a.id, a.booking_id, a.business_id, a.service_id, a.slot_start, a.slot_end, a.status,
+           a.cancellation_token, s.name AS service_name
+    FROM appointments a
+    LEFT JOIN services s ON s.id = a.service_id
+    WHERE a.id = ${appointmentId}
+  `;
+
+  if (!appointment) return;
+
+  try {
+    await new OwnerNotificationService(db).notifyOwnerOfNewBooking(
+      appointment.business_id,
+      appointment.id,
+      appointment.booking_id,
+      input.guestName,
+      appointment.service_name || 'Service',
+      new Date(appointment.slot_start).toISOString()
+    );
+  } catch (error) {
+    console.error('Failed to send owner notification for API booking:', error);
+  }
+
+  try {
+    await new CustomerNotificationService(db).sendBookingConfirmation({
+      id: appointment.id,
+      businessId: appointment.business_id,
+      serviceId: appointment.service_id,
+      guestEmail: input.guestEmail,
+      guestPhone: input.guestPhone,
+      guestName: input.guestName,
+      slotStart: new Date(appointment.slot_start),
+      slotEnd: new Date(appointment.slot_end),
+      status: appointment.status,
+      bookingId: appointment.booking_id,
+      cancellationToken: appointment.cancellation_token || undefined,
+    });
+  } catch (error) {
+    console.error('Failed to send booking confirmation for API booking:', error);
+  }
+}
+
+/**
+ * Cancel an appointment on behalf of the business
+ * @returns The canceled appointment, or null if it doesn't exist
+ */
+export async function cancelApiAppointment(
+  db: DbClient,
+  businessId: string,
+  appointmentId: string,
+  actorId: string | null
+): Promise<ApiAppointment | null> {
+  const appointment = await getApiAppointment(db, businessId, appointmentId);
+
+  if (!appointment || appointment.status === 'canceled') {
+    return appointment;
+  }
+
+  await new AppointmentManager(db).cancelAppointment(appointmentId, actorId || '');
+
+  const [canceled] = await db`
+    SELECT a.id, a.business_id, a.service_id, a.customer_id, a.guest_email, a.guest_phone,
+           a.guest_name, a.slot_start, a.slot_end, a.status
+    FROM appointments a
+    WHERE a.id = ${appointmentId}
+  `;
+
+  if (canceled && (canceled.customer_id || canceled.guest_email)) {
+    try {
+      await new CustomerNotificationService(db).sendCancellationConfirmation({
+        id: canceled.id,
+        businessId: canceled.business_id,
+        serviceId: canceled.service_id,
+        customerId: canceled.customer_id || undefined,
+        guestEmail: canceled.guest_email || undefined,
+        guestPhone: canceled.guest_phone || undefined,
+        guestName: canceled.guest_name || undefined,
+        slotStart: new Date(canceled.slot_start),
+        slotEnd: new Date(canceled.slot_end),
+        status: canceled.status,
+      });
+    } catch (error) {
+      console.error('Failed to send cancellation confirmation for API cancellation:', error);
+    }
+  }
+
+  return getApiAppointment(db, businessId, appointmentId);
+}
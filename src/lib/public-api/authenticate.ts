@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDbClient } from '@/db/client';
+import { ApiKeyScope } from '@/db/types';
+import { checkRateLimit, RateLimitResult } from '@/lib/middleware/rate-limiter';
+import { hasFeature } from '@/lib/subscription/feature-gates';
+import { ApiKeyService } from './api-key-service';
+import { hasApiKeyScope, isApiKeyFormat } from './keys';
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export type ApiErrorCode =
+  | 'UNAUTHORIZED'
+  | 'INVALID_API_KEY'
+  | 'API_ACCESS_DISABLED'
+  | 'FEATURE_NOT_AVAILABLE'
+  | 'INSUFFICIENT_SCOPE'
+  | 'RATE_LIMITED'
+  | 'VALIDATION_FAILED'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'BOOKING_REJECTED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * A request made with a valid key
+ */
+export interface ApiRequestContext {
+  keyId: string;
+  businessId: string;
+  scopes: ApiKeyScope[];
+  // Owner who created the key; recorded as the actor of changes made with it
+  actorId: string | null;
+  rateLimit: RateLimitResult & { limit: number };
+}
+
+export type ApiAuthResult =
+  | { success: true; context: ApiRequestContext }
+  | { success: false; response: NextResponse };
+
+function rateLimitHeaders(rateLimit: ApiRequestContext['rateLimit']): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': rateLimit.limit.toString(),
+    'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+    'X-RateLimit-Reset': rateLimit.resetAt.toString(),
+  };
+}
+
+/**
+ * Error response of the public API: `{ error: { code, message, details? } }`
+ */
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: unknown,
+  headers?: Record<string, string>
+): NextResponse {
+  return NextResponse.json(
+    { error: { code, message, ...(details !== undefined && { details }) } },
+    { status, headers }
+  );
+}
+
+/**
+ * Success response of the public API, with the key's rate limit headers
+ */
+export function apiJson(context: ApiRequestContext, body: unknown, status: number = 200): NextResponse {
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      ...rateLimitHeaders(context.rateLimit),
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
+
+/**
+ * Authenticate a /api/v1 request
+ *
+ * Expects `Authorization: Bearer <api key>`. The key must belong to a business
+ * with API access switched on and a tier that includes apiAccess, carry the
+ * required scope and be within its per-minute rate limit.
+ */
+export async function authenticateApiRequest(
+  request: NextRequest,
+  scope: ApiKeyScope
+): Promise<ApiAuthResult> {
+  const key = request.headers.get('authorization')?.replace('Bearer ', '').trim();
+
+  if (!key) {
+    return {
+      success: false,
+      response: apiError(401, 'UNAUTHORIZED', 'Missing API key. Send it as "Authorization: Bearer <key>".'),
+    };
+  }
+
+  const apiKey = isApiKeyFormat(key) ? await new ApiKeyService(getDbClient()).authenticate(key) : null;
+
+  if (!apiKey) {
+    return { success: false, response: apiError(401, 'INVALID_API_KEY', 'Invalid or revoked API key') };
+  }
+
+  if (!apiKey.api_access_enabled) {
+    return {
+      success: false,
+      response: apiError(403, 'API_ACCESS_DISABLED', 'API access is disabled for this business'),
+    };
+  }
+
+  if (!(await hasFeature(apiKey.business_id, 'apiAccess'))) {
+    return {
+      success: false,
+      response: apiError(403, 'FEATURE_NOT_AVAILABLE', 'API access is not included in this business\'s plan'),
+    };
+  }
+
+  if (!hasApiKeyScope(apiKey.scopes, scope)) {
+    return {
+      success: false,
+      response: apiError(403, 'INSUFFICIENT_SCOPE', `This API key does not have the '${scope}' scope`),
+    };
+  }
+
+  const rateLimit = {
+    ...checkRateLimit(`api-key:${apiKey.id}`, {
+      maxRequests: apiKey.rate_limit_per_minute,
+      windowMs: RATE_LIMIT_WINDOW_MS,
+    }),
+    limit: apiKey.rate_limit_per_minute,
+  };
+
+  if (!rateLimit.allowed) {
+    const resetIn = Math.ceil((rateLimit.resetAt - Date.now()) / 1000);
+
+    return {
+      success: false,
+      response: apiError(429, 'RATE_LIMITED', 'Rate limit exceeded. Please try again later.', undefined, {
+        ...rateLimitHeaders(rateLimit),
+        'Retry-After': resetIn.toString(),
+      }),
+    };
+  }
+
+  return {
+    success: true,
+    context: {
+      keyId: apiKey.id,
+      businessId: apiKey.business_id,
+      scopes: apiKey.scopes,
+      actorId: apiKey.created_by,
+      rateLimit,
+    },
+  };
+}
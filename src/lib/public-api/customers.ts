@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { DbClient } from '@/db/client';
+import { ApiCustomer, listCustomersQuerySchema } from './schemas';
+
+/**
+ * Customers who booked with a business, grouped by email
+ * Registered customers and guest bookings with the same email are one entry.
+ */
+export async function listApiCustomers(
+  db: DbClient,
+  businessId: string,
+  query: z.infer<typeof listCustomersQuerySchema>
+): Promise<{ customers: ApiCustomer[]; hasMore: boolean }> {
+  const search = query.search ? `%${query.search.replace(/[\\%_]/g, '\\$&')}%` : null;
+
+  const rows = await db`
+    WITH bookings AS (
+      SELECT
+        a.customer_id,
+        LOWER(COALESCE(u.email, a.guest_email)) AS email,
+        COALESCE(u.name, a.guest_name) AS name,
+        COALESCE(u.phone, a.guest_phone) AS phone,
+        a.slot_start
+      FROM appointments a
+      LEFT JOIN users u ON u.id = a.customer_id
+      WHERE a.business_id = ${businessId}
+        AND COALESCE(u.email, a.guest_email) IS NOT NULL
+    )
+    SELECT
+      (ARRAY_AGG(customer_id ORDER BY slot_start DESC) FILTER (WHERE customer_id IS NOT NULL))[1] AS id,
+      (ARRAY_AGG(name ORDER BY slot_start DESC) FILTER (WHERE name IS NOT NULL))[1] AS name,
+      email,
+      (ARRAY_AGG(phone ORDER BY slot_start DESC) FILTER (WHERE phone IS NOT NULL))[1] AS phone,
+      COUNT(*)::int AS appointment_count,
+      MAX(slot_start) AS last_appointment_at
+    FROM bookings
+    GROUP BY email
+    ${search ? db`HAVING BOOL_OR(email ILIKE ${search} OR name ILIKE ${search} OR phone ILIKE ${search})` : db``}
+    ORDER BY MAX(slot_start) DESC, email ASC
+    LIMIT ${query.limit + 1}
+    OFFSET ${query.offset}
+  `;
+
+  return {
+    customers: rows.slice(0, query.limit).map(row => ({
+      id: row.id ?? null,
+      name: row.name ?? null,
+      email: row.email,
+      phone: row.phone ?? null,
+      appointmentCount: row.appointment_count,
+      lastAppointmentAt: new Date(row.last_appointment_at).toISOString(),
+    })),
+    hasMore: rows.length > query.limit,
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Public REST API Module
+ *
+ * Versioned API (/api/v1) for building on a single business, e.g. a custom
+ * booking widget. Available on tiers with apiAccess:
+ *
+ * 1. Owners create API keys in settings (read, or read + write scope);
+ *    creating one switches businesses.api_access_enabled on
+ * 2. Requests send the key as a Bearer token and are rate limited per key
+ *    (authenticateApiRequest)
+ * 3. Services, availability, appointments and customers are exposed with the
+ *    same rules as the booking page
+ * 4. /api/v1/openapi.json is generated from the request and response schemas
+ */
+
+export {
+  ApiKeyService,
+  MAX_API_KEYS_PER_BUSINESS,
+  DEFAULT_RATE_LIMIT_PER_MINUTE,
+} from './api-key-service';
+export type {
+  ApiKeySummary,
+  CreateApiKeyParams,
+  UpdateApiKeyParams,
+  AuthenticatedApiKey,
+} from './api-key-service';
+
+export {
+  API_KEY_PREFIX,
+  API_KEY_SCOPES,
+  generateApiKey,
+  hashApiKey,
+  isApiKeyFormat,
+  hasApiKeyScope,
+} from './keys';
+
+export { authenticateApiRequest, apiError, apiJson } from './authenticate';
+export type { ApiRequestContext, ApiAuthResult, ApiErrorCode } from './authenticate';
+
+export {
+  listApiAppointments,
+  getApiAppointment,
+  createApiAppointment,
+  cancelApiAppointment,
+} from './appointments';
+export type { ApiBookingResult } from './appointments';
+
+export { listApiServices, getApiAvailability } from './services';
+export type { ApiAvailabilityResult } from './services';
+
+export { listApiCustomers } from './customers';
+
+export * from './schemas';
+
+export { buildOpenApiDocument } from './openapi';
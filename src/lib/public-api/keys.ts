@@ -0,0 +1,52 @@
+/**
+ * API key format
+ *
+ * Keys look like `rhivo_sk_<48 hex chars>`. Only the SHA-256 hash is stored,
+ * plus the first characters (key_prefix) so owners can recognise a key in
+ * the dashboard.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { ApiKeyScope } from '@/db/types';
+
+export const API_KEY_PREFIX = 'rhivo_sk_';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'write'];
+
+// Characters of the key kept in key_prefix
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+export interface GeneratedApiKey {
+  key: string;
+  prefix: string;
+  hash: string;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): GeneratedApiKey {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('hex')}`;
+
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: hashApiKey(key),
+  };
+}
+
+/**
+ * Cheap format check before hitting the database
+ */
+export function isApiKeyFormat(value: string): boolean {
+  return /^rhivo_sk_[0-9a-f]{48}$/.test(value);
+}
+
+/**
+ * Whether a key's scopes allow a request
+ * 'write' implies 'read', so a booking widget needs a single key.
+ */
+export function hasApiKeyScope(scopes: ApiKeyScope[], required: ApiKeyScope): boolean {
+  return scopes.includes(required) || (required === 'read' && scopes.includes('write'));
+}
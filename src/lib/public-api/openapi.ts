@@ -0,0 +1,188 @@
+import { z } from 'zod';
+import { API_KEY_PREFIX } from './keys';
+import {
+  apiAppointmentSchema,
+  apiCustomerSchema,
+  apiErrorSchema,
+  apiServiceSchema,
+  apiSlotSchema,
+  availabilityQuerySchema,
+  createAppointmentSchema,
+  listAppointmentsQuerySchema,
+  listCustomersQuerySchema,
+} from './schemas';
+
+type JsonSchema = Record<string, unknown>;
+
+interface Operation {
+  summary: string;
+  description?: string;
+  scope: 'read' | 'write';
+  query?: z.ZodObject;
+  pathParams?: string[];
+  body?: z.ZodType;
+  response: { status: number; description: string; schema: z.ZodType };
+}
+
+function toSchema(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+  const jsonSchema: JsonSchema = z.toJSONSchema(schema, {
+    target: 'openapi-3.0',
+    io,
+    unrepresentable: 'any',
+  });
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+function queryParameters(schema: z.ZodObject): JsonSchema[] {
+  return Object.entries(schema.shape).map(([name, field]) => {
+    const { description, ...fieldSchema } = toSchema(field as z.ZodType, 'output');
+
+    return {
+      name,
+      in: 'query',
+      required: !(field as z.ZodType).isOptional(),
+      ...(description !== undefined && { description }),
+      schema: fieldSchema,
+    };
+  });
+}
+
+function buildOperation(operation: Operation): JsonSchema {
+  const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+  });
+
+  return {
+    summary: operation.summary,
+    ...(operation.description && { description: operation.description }),
+    'x-required-scope': operation.scope,
+    parameters: [
+      ...(operation.pathParams || []).map(name => ({
+        name,
+        in: 'path',
+        required: true,
+        schema: { type: 'string', format: 'uuid' },
+      })),
+      ...(operation.query ? queryParameters(operation.query) : []),
+    ],
+    ...(operation.body && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: toSchema(operation.body, 'input') } },
+      },
+    }),
+    responses: {
+      [operation.response.status]: {
+        description: operation.response.description,
+        content: { 'application/json': { schema: toSchema(operation.response.schema, 'output') } },
+      },
+      400: errorResponse('Invalid request'),
+      401: errorResponse('Missing, invalid or revoked API key'),
+      403: errorResponse('API access disabled, not in plan, or missing scope'),
+      429: errorResponse('Rate limit exceeded'),
+    },
+  };
+}
+
+const list = <T extends z.ZodType>(item: T) => z.object({
+  data: z.array(item),
+  pagination: z.object({ limit: z.number().int(), offset: z.number().int(), hasMore: z.boolean() }),
+});
+
+/**
+ * OpenAPI 3.0 document of /api/v1, generated from the zod schemas the routes use
+ */
+export function buildOpenApiDocument(serverUrl: string): JsonSchema {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Rhivo API',
+      version: '1.0.0',
+      description:
+        'REST API for a single business. Create API keys in Settings → Integrations and send them as ' +
+        `"Authorization: Bearer ${API_KEY_PREFIX}...". Keys are secret, so call the API from a server. ` +
+        'Keys with the write scope can also read. ' +
+        'Every response carries X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset headers.',
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ apiKey: [] }],
+    paths: {
+      '/services': {
+        get: buildOperation({
+          summary: 'List bookable services',
+          scope: 'read',
+          response: { status: 200, description: 'Services', schema: z.object({ data: z.array(apiServiceSchema) }) },
+        }),
+      },
+      '/availability': {
+        get: buildOperation({
+          summary: 'Available time slots for a service',
+          description: 'Dates are interpreted in the business timezone. serviceId may be the service id or its externalId.',
+          scope: 'read',
+          query: availabilityQuerySchema,
+          response: {
+            status: 200,
+            description: 'Time slots',
+            schema: z.object({ data: z.array(apiSlotSchema), timezone: z.string() }),
+          },
+        }),
+      },
+      '/appointments': {
+        get: buildOperation({
+          summary: 'List appointments',
+          scope: 'read',
+          query: listAppointmentsQuerySchema,
+          response: { status: 200, description: 'Appointments', schema: list(apiAppointmentSchema) },
+        }),
+        post: buildOperation({
+          summary: 'Book an appointment',
+          description:
+            'Books a guest appointment with the same rules as the booking page (opening hours, capacity, ' +
+            'booking limits, custom fields). Retrying with the same idempotencyKey does not double-book. ' +
+            'Returns 409 when the slot is taken.',
+          scope: 'write',
+          body: createAppointmentSchema,
+          response: {
+            status: 201,
+            description: 'Booked appointment',
+            schema: z.object({ data: apiAppointmentSchema }),
+          },
+        }),
+      },
+      '/appointments/{id}': {
+        get: buildOperation({
+          summary: 'Get an appointment',
+          scope: 'read',
+          pathParams: ['id'],
+          response: { status: 200, description: 'Appointment', schema: z.object({ data: apiAppointmentSchema }) },
+        }),
+      },
+      '/appointments/{id}/cancel': {
+        post: buildOperation({
+          summary: 'Cancel an appointment',
+          scope: 'write',
+          pathParams: ['id'],
+          response: { status: 200, description: 'Canceled appointment', schema: z.object({ data: apiAppointmentSchema }) },
+        }),
+      },
+      '/customers': {
+        get: buildOperation({
+          summary: 'List customers who booked with the business',
+          scope: 'read',
+          query: listCustomersQuerySchema,
+          response: { status: 200, description: 'Customers', schema: list(apiCustomerSchema) },
+        }),
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'http', scheme: 'bearer', description: 'Business API key' },
+      },
+      schemas: {
+        Error: toSchema(apiErrorSchema, 'output'),
+      },
+    },
+  };
+}
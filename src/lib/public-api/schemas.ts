@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { commitFieldsSchema, reserveSchema, slotsQuerySchema } from '@/lib/booking/schemas';
+
+/**
+ * Schemas of the public REST API (/api/v1)
+ *
+ * Request schemas validate the routes' input and, together with the response
+ * schemas, are the source of the OpenAPI document (see openapi.ts). Booking
+ * input reuses the fields of the public booking routes.
+ */
+
+const paginationShape = {
+  limit: z.coerce.number().int().min(1).max(200).default(50).describe('Maximum number of results'),
+  offset: z.coerce.number().int().min(0).default(0).describe('Number of results to skip'),
+};
+
+export const APPOINTMENT_STATUSES = ['confirmed', 'canceled', 'completed', 'no_show'] as const;
+
+// Requests
+
+export const availabilityQuerySchema = slotsQuerySchema.omit({ subdomain: true });
+
+export const listAppointmentsQuerySchema = z.object({
+  start: z.string().datetime().optional().describe('Only appointments ending after this time'),
+  end: z.string().datetime().optional().describe('Only appointments starting before this time'),
+  status: z.enum(APPOINTMENT_STATUSES).optional(),
+  serviceId: z.string().uuid().optional(),
+  staffId: z.string().uuid().optional(),
+  ...paginationShape,
+});
+
+export const createAppointmentSchema = reserveSchema
+  .pick({ serviceId: true, staffId: true, idempotencyKey: true })
+  .extend(commitFieldsSchema.pick({ guestPhone: true, customFields: true, notes: true }).shape)
+  .extend({
+    startTime: z.string().datetime().describe('Start of the slot; the end follows from the service duration'),
+    guestName: z.string().min(1).max(200),
+    guestEmail: z.string().email(),
+  });
+
+export const listCustomersQuerySchema = z.object({
+  search: z.string().trim().min(1).max(100).optional().describe('Matches name, email or phone'),
+  ...paginationShape,
+});
+
+// Responses
+
+export const apiErrorSchema = z.object({
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    details: z.unknown().optional(),
+  }),
+});
+
+export const apiServiceSchema = z.object({
+  id: z.string().uuid(),
+  externalId: z.string().nullable().describe('Service id from the business configuration'),
+  name: z.string(),
+  description: z.string().nullable(),
+  category: z.string().nullable(),
+  durationMinutes: z.number().int(),
+  priceCents: z.number().int(),
+  depositCents: z.number().int().nullable().describe('Deposit due online; such services cannot be booked through the API'),
+});
+
+export const apiSlotSchema = z.object({
+  start: z.string().datetime(),
+  end: z.string().datetime(),
+  available: z.boolean(),
+  capacity: z.number().int().describe('Bookings still possible at this time'),
+  totalCapacity: z.number().int(),
+  reason: z.string().optional(),
+  staffIds: z.array(z.string().uuid()).optional().describe('Staff free at this time, when the service uses staff calendars'),
+});
+
+export const apiAppointmentSchema = z.object({
+  id: z.string().uuid(),
+  bookingId: z.string(),
+  serviceId: z.string().uuid(),
+  serviceName: z.string().nullable(),
+  staffId: z.string().uuid().nullable(),
+  status: z.enum(APPOINTMENT_STATUSES),
+  slotStart: z.string().datetime(),
+  slotEnd: z.string().datetime(),
+  customer: z.object({
+    id: z.string().uuid().nullable().describe('Null for guest bookings'),
+    name: z.string().nullable(),
+    email: z.string().nullable(),
+    phone: z.string().nullable(),
+  }),
+  notes: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export const apiCustomerSchema = z.object({
+  id: z.string().uuid().nullable().describe('Null for customers who only booked as guests'),
+  name: z.string().nullable(),
+  email: z.string(),
+  phone: z.string().nullable(),
+  appointmentCount: z.number().int(),
+  lastAppointmentAt: z.string().datetime(),
+});
+
+export type ApiService = z.infer<typeof apiServiceSchema>;
+export type ApiSlot = z.infer<typeof apiSlotSchema>;
+export type ApiAppointment = z.infer<typeof apiAppointmentSchema>;
+export type ApiCustomer = z.infer<typeof apiCustomerSchema>;
@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import { DbClient } from '@/db/client';
+import { generateTimeSlots } from '@/lib/booking/slot-generator';
+import { getCapacityPoolUsage, resolveCapacityPools } from '@/lib/booking/capacity-pools';
+import { getResourceBookings, getServiceResources } from '@/lib/booking/resources';
+import { TenantConfig } from '@/lib/config/tenant-schema';
+import { ServiceRecord } from '@/lib/db/service-helpers';
+import { ExternalCalendarService } from '@/lib/calendar';
+import { getServiceDeposit } from '@/lib/payments';
+import { StaffManager } from '@/lib/staff/staff-manager';
+import { parseInTimezone, getEndOfDay } from '@/lib/utils/timezone';
+import { ApiService, ApiSlot, availabilityQuerySchema } from './schemas';
+
+export type ApiAvailabilityResult =
+  | { success: true; slots: ApiSlot[] }
+  | { success: false; status: number; error: string };
+
+/**
+ * Look up a service by its id or externalId
+ */
+export async function findApiService(
+  db: DbClient,
+  businessId: string,
+  identifier: string
+): Promise<ServiceRecord | null> {
+  const [service] = await db`
+    SELECT * FROM services
+    WHERE business_id = ${businessId}
+      AND (id::text = ${identifier} OR external_id = ${identifier})
+      AND deleted_at IS NULL
+    LIMIT 1
+  `;
+
+  return (service as ServiceRecord) || null;
+}
+
+/**
+ * Enabled services of a business, in booking page order
+ */
+export async function listApiServices(
+  db: DbClient,
+  businessId: string,
+  config: TenantConfig
+): Promise<ApiService[]> {
+  const rows = await db`
+    SELECT s.id, s.external_id, s.name, s.duration_minutes, s.price_cents, c.name AS category_name
+    FROM services s
+    LEFT JOIN categories c ON c.id = s.category_id
+    WHERE s.business_id = ${businessId}
+      AND s.deleted_at IS NULL
+    ORDER BY c.sort_order, s.sort_order, s.name
+  `;
+
+  const configServices = new Map(
+    config.categories.flatMap(category => category.services).map(service => [service.id, service])
+  );
+
+  return rows
+    .filter(row => configServices.get(row.external_id)?.enabled ?? true)
+    .map(row => ({
+      id: row.id,
+      externalId: row.external_id ?? null,
+      name: row.name,
+      description: configServices.get(row.external_id)?.description ?? null,
+      category: row.category_name ?? null,
+      durationMinutes: row.duration_minutes,
+      priceCents: row.price_cents,
+      depositCents: row.external_id ? getServiceDeposit(config, row.external_id)?.amountCents ?? null : null,
+    }));
+}
+
+/**
+ * Time slots of a service, computed like GET /api/booking/slots
+ * serviceId may be the service's id or its externalId.
+ */
+export async function getApiAvailability(
+  db: DbClient,
+  businessId: string,
+  config: TenantConfig,
+  query: z.infer<typeof availabilityQuerySchema>
+): Promise<ApiAvailabilityResult> {
+  const serviceRecord = await findApiService(db, businessId, query.serviceId);
+  const service = config.categories
+    .flatMap(category => category.services)
+    .find(s => s.id === serviceRecord?.external_id);
+
+  if (!serviceRecord || !service) {
+    return { success: false, status: 404, error: 'Service not found' };
+  }
+
+  if (!service.enabled) {
+    return { success: false, status: 400, error: 'Service is not available for booking' };
+  }
+
+  const timezone = config.business.timezone;
+  const start = parseInTimezone(query.startDate, timezone);
+  const end = getEndOfDay(parseInTimezone(query.endDate || query.startDate, timezone), timezone);
+
+  let staff: Awaited<ReturnType<StaffManager['getBookableStaff']>> | undefined;
+  if (config.features.enableMultipleStaff) {
+    const bookableStaff = await new StaffManager(db).getBookableStaff(businessId, serviceRecord.id);
+    if (bookableStaff.length > 0) {
+      staff = bookableStaff;
+    }
+  }
+
+  if (query.staffId && !staff?.some(member => member.id === query.staffId)) {
+    return { success: false, status: 404, error: 'Staff member not found for this service' };
+  }
+
+  const appointments = await db`
+    SELECT slot_start, slot_end, occupied_start, occupied_end, staff_id
+    FROM appointments
+    WHERE business_id = ${businessId}
+      AND slot_start >= ${start.toISOString()}
+      AND slot_start <= ${end.toISOString()}
+      AND status IN ('confirmed', 'completed')
+      AND deleted_at IS NULL
+  `;
+
+  const reservations = await db`
+    SELECT slot_start, slot_end, occupied_start, occupied_end, expires_at, staff_id
+    FROM reservations
+    WHERE business_id = ${businessId}
+      AND slot_start >= ${start.toISOString()}
+      AND slot_start <= ${end.toISOString()}
+      AND expires_at > NOW()
+  `;
+
+  const externalBusy = await new ExternalCalendarService(db).getBusyIntervals(businessId, start, end);
+
+  const capacityPools = await getCapacityPoolUsage(
+    db,
+    businessId,
+    await resolveCapacityPools(db, config, businessId, service.id),
+    start,
+    end
+  );
+
+  const resourceBookings = await getResourceBookings(
+    db,
+    businessId,
+    getServiceResources(config, service.id),
+    start,
+    end
+  );
+
+  const slots = generateTimeSlots({
+    config,
+    service,
+    startDate: start,
+    endDate: end,
+    existingAppointments: appointments.map(a => ({
+      slot_start: a.slot_start,
+      slot_end: a.slot_end,
+      occupied_start: a.occupied_start,
+      occupied_end: a.occupied_end,
+      staff_id: a.staff_id,
+    })),
+    existingReservations: reservations.map(r => ({
+      slot_start: r.slot_start,
+      slot_end: r.slot_end,
+      occupied_start: r.occupied_start,
+      occupied_end: r.occupied_end,
+      expires_at: r.expires_at,
+      staff_id: r.staff_id,
+    })),
+    staff,
+    staffId: query.staffId,
+    externalBusy,
+    capacityPools,
+    resourceBookings,
+  });
+
+  return {
+    success: true,
+    slots: slots.map(slot => ({
+      start: slot.start,
+      end: slot.end,
+      available: slot.available,
+      capacity: slot.capacity,
+      totalCapacity: slot.totalCapacity,
+      ...(slot.reason && { reason: slot.reason }),
+      ...(slot.staffIds && { staffIds: slot.staffIds }),
+    })),
+  };
+}
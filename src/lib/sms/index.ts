@@ -0,0 +1,26 @@
+/**
+ * SMS Module
+ *
+ * Customer SMS for booking events (notifications.sendConfirmationSMS and
+ * notifications.sendReminderSMS in the tenant config):
+ *
+ * - Templates: short localised messages for confirm/cancel/reschedule/reminder
+ * - Providers: Twilio, or an in-memory fake outside production
+ * - Quota: every message is charged to businesses.sms_used_this_month and
+ *   refused once sms_quota is reached; the reset-sms-quota cron starts a new month
+ */
+
+export { SmsProviderError } from './sms-provider';
+export type { SmsProvider, SendSmsParams, ProviderMessage } from './sms-provider';
+
+export { getSmsProvider } from './provider';
+export { TwilioSmsProvider } from './twilio-provider';
+export { InMemorySmsProvider } from './memory-provider';
+
+export { SmsService } from './sms-service';
+export type { SendSmsMessageParams, SmsDeliveryResult, SmsFailureCode, SmsUsage } from './sms-service';
+
+export { renderSms, getSmsLanguage, SMS_TEMPLATES } from './templates';
+export type { SmsTemplate, SmsLanguage, SmsTemplateData } from './templates';
+
+export { toE164 } from './phone';
@@ -0,0 +1,40 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ProviderMessage, SendSmsParams, SmsProvider, SmsProviderError } from './sms-provider';
+
+export interface StoredMessage extends SendSmsParams {
+  id: string;
+  sentAt: Date;
+}
+
+/**
+ * In-memory SMS provider for tests and local development
+ *
+ * Messages are kept in `messages` (and logged) instead of being delivered.
+ * failNext() makes the next send throw, to exercise failure handling.
+ */
+export class InMemorySmsProvider implements SmsProvider {
+  readonly name = 'memory';
+
+  readonly messages: StoredMessage[] = [];
+  private shouldFail = false;
+
+  async sendSms(params: SendSmsParams): Promise<ProviderMessage> {
+    if (this.shouldFail) {
+      this.shouldFail = false;
+      throw new SmsProviderError('Simulated delivery failure', 'simulated_failure');
+    }
+
+    const message: StoredMessage = { id: `mem_sms_${uuidv4()}`, ...params, sentAt: new Date() };
+    this.messages.push(message);
+
+    console.log(`[InMemorySmsProvider] SMS to ${params.to}: ${params.body}`);
+    return { id: message.id };
+  }
+
+  /**
+   * Make the next sendSms() call fail
+   */
+  failNext(): void {
+    this.shouldFail = true;
+  }
+}
@@ -0,0 +1,44 @@
+// Calling codes for the countries of the locales tenants use (business.locale region)
+const CALLING_CODES: Record<string, string> = {
+  IT: '39',
+  ES: '34',
+  US: '1',
+  GB: '44',
+  FR: '33',
+  DE: '49',
+  CH: '41',
+  MX: '52',
+  AR: '54',
+};
+
+/**
+ * Normalise a phone number to E.164 for SMS delivery
+ *
+ * Numbers are often entered without a country code ("333 123 4567"); those
+ * get the calling code of the tenant's locale region. Returns null if the
+ * number can't be used.
+ *
+ * @param locale - Tenant locale, e.g. 'it-IT'
+ */
+export function toE164(phone: string, locale: string | undefined): string | null {
+  let digits = phone.trim().replace(/[\s\-().]/g, '');
+
+  if (digits.startsWith('00')) {
+    digits = `+${digits.slice(2)}`;
+  }
+
+  if (!digits.startsWith('+')) {
+    const region = (locale || '').split('-')[1]?.toUpperCase();
+    const callingCode = region ? CALLING_CODES[region] : undefined;
+
+    if (!callingCode) {
+      return null;
+    }
+
+    // National trunk prefix (e.g. UK 07..., FR 06...) is dropped; Italy keeps its leading 0
+    const national = callingCode !== '39' ? digits.replace(/^0/, '') : digits;
+    digits = `+${callingCode}${national}`;
+  }
+
+  return /^\+[1-9]\d{7,14}$/.test(digits) ? digits : null;
+}
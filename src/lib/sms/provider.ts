@@ -0,0 +1,27 @@
+import { env } from '@/lib/env';
+import { SmsProvider } from './sms-provider';
+import { TwilioSmsProvider } from './twilio-provider';
+import { InMemorySmsProvider } from './memory-provider';
+
+// Shared so messages sent during a dev session can be inspected in one place
+let developmentProvider: InMemorySmsProvider | null = null;
+
+/**
+ * Get the configured SMS provider
+ *
+ * Twilio when its credentials are set. Outside production the in-memory
+ * provider stands in (messages are logged, not sent); in production SMS is
+ * unavailable without credentials and null is returned.
+ */
+export function getSmsProvider(): SmsProvider | null {
+  if (env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN && env.TWILIO_FROM_NUMBER) {
+    return new TwilioSmsProvider(env.TWILIO_ACCOUNT_SID, env.TWILIO_AUTH_TOKEN, env.TWILIO_FROM_NUMBER);
+  }
+
+  if (env.NODE_ENV !== 'production') {
+    developmentProvider ??= new InMemorySmsProvider();
+    return developmentProvider;
+  }
+
+  return null;
+}
@@ -0,0 +1,31 @@
+/**
+ * SMS provider abstraction
+ *
+ * Providers only deliver a single text message. Quota accounting, templates
+ * and delivery logging live in SmsService so every provider behaves the same.
+ */
+
+export interface SendSmsParams {
+  to: string; // E.164, e.g. '+393331234567'
+  body: string;
+}
+
+export interface ProviderMessage {
+  id: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+
+  /**
+   * Send a text message
+   */
+  sendSms(params: SendSmsParams): Promise<ProviderMessage>;
+}
+
+export class SmsProviderError extends Error {
+  constructor(message: string, public readonly code?: string) {
+    super(message);
+    this.name = 'SmsProviderError';
+  }
+}
@@ -0,0 +1,260 @@
+import { DbClient } from '@/db/client';
+import { v4 as uuidv4 } from 'uuid';
+import { SmsProvider } from './sms-provider';
+import { SmsTemplate } from './templates';
+import { toE164 } from './phone';
+import { getSmsProvider } from './provider';
+import { getNextAttemptAt } from '@/lib/notifications/retry-policy';
+
+export interface SendSmsMessageParams {
+  businessId: string; // Quota is charged to this business
+  to: string; // As entered by the customer; normalised with toE164
+  locale?: string; // Tenant locale, used to add a missing country code
+  body: string;
+  templateName: SmsTemplate;
+  appointmentId?: string;
+  notificationLogId?: string; // Reuse an existing notification_logs row (e.g. a claimed reminder)
+}
+
+export type SmsFailureCode = 'PROVIDER_NOT_CONFIGURED' | 'INVALID_PHONE' | 'QUOTA_EXCEEDED' | 'DELIVERY_FAILED';
+
+export interface SmsDeliveryResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  code?: SmsFailureCode;
+}
+
+export interface SmsUsage {
+  quota: number;
+  used: number;
+  remaining: number;
+  resetDate: string; // YYYY-MM-DD
+}
+
+/**
+ * SMS Service
+ *
+ * Sends SMS through the configured provider, charging each message to the
+ * business's monthly quota (businesses.sms_quota / sms_used_this_month).
+ *
+ * Quota is a hard stop: a credit is taken with a conditional UPDATE before
+ * the provider is called, so concurrent sends can never go past sms_quota. The
+ * credit is given back if the provider rejects the message. Every attempt,
+ * including quota rejections, is recorded in notification_logs; provider
+ * failures are left for the notification worker to retry.
+ */
+export class SmsService {
+  constructor(
+    private db: DbClient,
+    private provider: SmsProvider | null = getSmsProvider()
+  ) {}
+
+  /**
+   * Send an SMS and log the attempt
+   * Provider failures are queued for retry by the notification worker;
+   * configuration, phone and quota failures are final.
+   */
+  async sendSms(params: SendSmsMessageParams): Promise<SmsDeliveryResult> {
+    const result = await this.deliver(params);
+
+    if (result.success) {
+      await this.logSmsDelivery(params, 'sent');
+    } else if (result.code === 'DELIVERY_FAILED') {
+      await this.logSmsDelivery(params, 'retrying', result.error, getNextAttemptAt(1));
+    } else {
+      await this.logSmsDelivery(params, 'failed', result.error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Send an SMS through the provider without logging
+   * Used by sendSms and by the notification worker for retries.
+   */
+  async deliver(params: Pick<SendSmsMessageParams, 'businessId' | 'to' | 'locale' | 'body' | 'templateName'>): Promise<SmsDeliveryResult> {
+    const { businessId, body } = params;
+
+    if (!this.provider) {
+      return this.fail(params, 'PROVIDER_NOT_CONFIGURED', 'SMS provider is not configured');
+    }
+
+    const to = toE164(params.to, params.locale);
+
+    if (!to) {
+      return this.fail(params, 'INVALID_PHONE', `Invalid phone number: ${params.to}`);
+    }
+
+    if (!(await this.takeCredit(businessId))) {
+      return this.fail(params, 'QUOTA_EXCEEDED', 'Monthly SMS quota exceeded');
+    }
+
+    try {
+      const message = await this.provider.sendSms({ to, body });
+
+      return { success: true, messageId: message.id };
+    } catch (error) {
+      await this.releaseCredit(businessId);
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return this.fail(params, 'DELIVERY_FAILED', errorMessage);
+    }
+  }
+
+  /**
+   * Current month's SMS usage for a business, or null if it doesn't exist
+   */
+  async getUsage(businessId: string): Promise<SmsUsage | null> {
+    const [business] = await this.db`
+      SELECT
+        sms_quota AS quota,
+        sms_used_this_month AS used,
+        TO_CHAR(sms_reset_date, 'YYYY-MM-DD') AS reset_date
+      FROM businesses
+      WHERE id = ${businessId}
+        AND deleted_at IS NULL
+    `;
+
+    if (!business) {
+      return null;
+    }
+
+    const quota = Number(business.quota);
+    const used = Number(business.used);
+
+    return {
+      quota,
+      used,
+      remaining: Math.max(quota - used, 0),
+      resetDate: business.reset_date,
+    };
+  }
+
+  /**
+   * Start a new quota month for every business whose sms_reset_date has passed
+   * Called daily by the reset-sms-quota cron route.
+   *
+   * The next reset date is counted from the previous one, so a late or missed
+   * cron run doesn't shift the business's billing day; it lands on the first
+   * month boundary after today.
+   *
+   * @returns Number of businesses reset
+   */
+  async resetMonthlyQuotas(): Promise<number> {
+    // Whole months since the reset date; one more, or two when the end of a
+    // short month clamps the date back onto today or earlier
+    const reset = await this.db`
+      WITH due AS (
+        SELECT
+          id,
+          sms_reset_date AS previous_reset,
+          (EXTRACT(YEAR FROM age(CURRENT_DATE, sms_reset_date)) * 12
+            + EXTRACT(MONTH FROM age(CURRENT_DATE, sms_reset_date)))::int + 1 AS months
+        FROM businesses
+        WHERE sms_reset_date <= CURRENT_DATE
+          AND deleted_at IS NULL
+      )
+      UPDATE businesses b
+      SET sms_used_this_month = 0,
+          sms_reset_date = CASE
+            WHEN (due.previous_reset + make_interval(months => due.months))::date > CURRENT_DATE
+              THEN (due.previous_reset + make_interval(months => due.months))::date
+            ELSE (due.previous_reset + make_interval(months => due.months + 1))::date
+          END
+      FROM due
+      WHERE b.id = due.id
+      RETURNING b.id
+    `;
+
+    return reset.length;
+  }
+
+  /**
+   * Take one credit from the monthly quota
+   * @returns false if the quota is used up
+   */
+  private async takeCredit(businessId: string): Promise<boolean> {
+    const updated = await this.db`
+      UPDATE businesses
+      SET sms_used_this_month = sms_used_this_month + 1
+      WHERE id = ${businessId}
+        AND sms_used_this_month < sms_quota
+      RETURNING id
+    `;
+
+    return updated.length > 0;
+  }
+
+  private async releaseCredit(businessId: string): Promise<void> {
+    await this.db`
+      UPDATE businesses
+      SET sms_used_this_month = GREATEST(sms_used_this_month - 1, 0)
+      WHERE id = ${businessId}
+    `;
+  }
+
+  private fail(
+    params: Pick<SendSmsMessageParams, 'businessId' | 'templateName'>,
+    code: SmsFailureCode,
+    error: string
+  ): SmsDeliveryResult {
+    console.warn(`[SmsService] ${params.templateName} not sent for business ${params.businessId}: ${error}`);
+    return { success: false, error, code };
+  }
+
+  /**
+   * Log an SMS attempt to the notification_logs table
+   */
+  private async logSmsDelivery(
+    params: SendSmsMessageParams,
+    status: 'sent' | 'retrying' | 'failed',
+    errorMessage?: string,
+    nextAttemptAt?: Date | null
+  ): Promise<void> {
+    // The message content is kept so the worker can resend it
+    const payload = status === 'retrying'
+      ? JSON.stringify({ body: params.body, businessId: params.businessId, locale: params.locale })
+      : null;
+
+    await this.db`
+      INSERT INTO notification_logs (
+        id,
+        appointment_id,
+        recipient_phone,
+        channel,
+        template_name,
+        status,
+        attempts,
+        error_message,
+        payload,
+        next_attempt_at,
+        locked_until,
+        last_attempt_at,
+        created_at
+      ) VALUES (
+        ${params.notificationLogId || uuidv4()},
+        ${params.appointmentId || null},
+        ${params.to},
+        'sms',
+        ${params.templateName},
+        ${status},
+        1,
+        ${errorMessage || null},
+        ${payload},
+        ${nextAttemptAt || null},
+        NULL,
+        NOW(),
+        NOW()
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        status = EXCLUDED.status,
+        attempts = notification_logs.attempts + 1,
+        error_message = EXCLUDED.error_message,
+        payload = COALESCE(EXCLUDED.payload, notification_logs.payload),
+        next_attempt_at = EXCLUDED.next_attempt_at,
+        locked_until = NULL,
+        last_attempt_at = EXCLUDED.last_attempt_at
+    `;
+  }
+}
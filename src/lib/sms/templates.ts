@@ -0,0 +1,97 @@
+/**
+ * SMS templates
+ *
+ * Kept to a single 160-character segment for typical business and service
+ * names, and to the GSM-7 alphabet (no characters like 'á') so a message is
+ * not switched to the 70-character UCS-2 encoding.
+ */
+
+export type SmsTemplate =
+  | 'appointment_confirmed'
+  | 'appointment_cancelled'
+  | 'appointment_rescheduled'
+  | 'appointment_reminder';
+
+export const SMS_TEMPLATES: SmsTemplate[] = [
+  'appointment_confirmed',
+  'appointment_cancelled',
+  'appointment_rescheduled',
+  'appointment_reminder',
+];
+
+export type SmsLanguage = 'en' | 'es' | 'it';
+
+export interface SmsTemplateData {
+  businessName: string;
+  serviceName: string;
+  slotStart: Date;
+  timezone: string; // Business timezone; the message shows local time
+  bookingId?: string;
+}
+
+interface FormattedData {
+  business: string;
+  service: string;
+  date: string;
+  time: string;
+  booking: string;
+}
+
+const TEMPLATES: Record<SmsLanguage, Record<SmsTemplate, (d: FormattedData) => string>> = {
+  en: {
+    appointment_confirmed: d => `${d.business}: your ${d.service} is confirmed for ${d.date} at ${d.time}.${d.booking && ` Booking ${d.booking}`}`,
+    appointment_cancelled: d => `${d.business}: your ${d.service} on ${d.date} at ${d.time} has been cancelled.`,
+    appointment_rescheduled: d => `${d.business}: your ${d.service} has been moved to ${d.date} at ${d.time}.`,
+    appointment_reminder: d => `Reminder: your ${d.service} at ${d.business} is on ${d.date} at ${d.time}.`,
+  },
+  es: {
+    appointment_confirmed: d => `${d.business}: tu cita de ${d.service} queda confirmada para el ${d.date} a las ${d.time}.${d.booking && ` Reserva ${d.booking}`}`,
+    appointment_cancelled: d => `${d.business}: tu cita de ${d.service} del ${d.date} a las ${d.time} ha sido cancelada.`,
+    appointment_rescheduled: d => `${d.business}: tu cita de ${d.service} se ha movido al ${d.date} a las ${d.time}.`,
+    appointment_reminder: d => `Recordatorio: tu cita de ${d.service} en ${d.business} es el ${d.date} a las ${d.time}.`,
+  },
+  it: {
+    appointment_confirmed: d => `${d.business}: ${d.service} confermato per ${d.date} alle ${d.time}.${d.booking && ` Prenotazione ${d.booking}`}`,
+    appointment_cancelled: d => `${d.business}: il tuo appuntamento ${d.service} del ${d.date} alle ${d.time} è stato cancellato.`,
+    appointment_rescheduled: d => `${d.business}: il tuo appuntamento ${d.service} è stato spostato a ${d.date} alle ${d.time}.`,
+    appointment_reminder: d => `Promemoria: ${d.service} da ${d.business} ${d.date} alle ${d.time}.`,
+  },
+};
+
+/**
+ * Language for a tenant locale (business.locale, e.g. 'it-IT'); English if unsupported
+ */
+export function getSmsLanguage(locale: string | undefined): SmsLanguage {
+  const language = (locale || '').split('-')[0].toLowerCase();
+  return language === 'es' || language === 'it' ? language : 'en';
+}
+
+/**
+ * Render an SMS body
+ *
+ * @param locale - Tenant locale (business.locale); also used for date and time formats
+ */
+export function renderSms(template: SmsTemplate, locale: string, data: SmsTemplateData): string {
+  const formatLocale = locale || 'en-US';
+
+  const date = new Intl.DateTimeFormat(formatLocale, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: data.timezone,
+  }).format(data.slotStart);
+
+  const time = new Intl.DateTimeFormat(formatLocale, {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: data.timezone,
+  }).format(data.slotStart);
+
+  return TEMPLATES[getSmsLanguage(locale)][template]({
+    business: data.businessName,
+    service: data.serviceName,
+    date,
+    time,
+    booking: data.bookingId || '',
+  });
+}
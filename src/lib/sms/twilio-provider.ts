@@ -0,0 +1,47 @@
+import { ProviderMessage, SendSmsParams, SmsProvider, SmsProviderError } from './sms-provider';
+
+const TWILIO_API_BASE = 'https://api.twilio.com/2010-04-01';
+
+interface TwilioMessage {
+  sid: string;
+  status: string;
+}
+
+/**
+ * Twilio SMS provider
+ *
+ * Uses the Programmable Messaging REST API. `from` is either a Twilio phone
+ * number or an alphanumeric sender id where the destination country allows it.
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio';
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private from: string
+  ) {}
+
+  async sendSms(params: SendSmsParams): Promise<ProviderMessage> {
+    const response = await fetch(`${TWILIO_API_BASE}/Accounts/${encodeURIComponent(this.accountSid)}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: params.to, From: this.from, Body: params.body }).toString(),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const error = data as { message?: string; code?: number };
+      throw new SmsProviderError(
+        error.message || `Twilio request failed with status ${response.status}`,
+        error.code !== undefined ? String(error.code) : undefined
+      );
+    }
+
+    return { id: (data as TwilioMessage).sid };
+  }
+}
@@ -0,0 +1,418 @@
+import { DbClient } from '@/db/client';
+import { v4 as uuidv4 } from 'uuid';
+import { StaffMember } from '@/db/types';
+import { DailyAvailability, TenantConfig } from '@/lib/config/tenant-schema';
+import { StaffCalendar, isStaffWorking } from '@/lib/booking/slot-generator';
+import {
+  generateStaffInviteToken,
+  getStaffInviteExpiry,
+  hashToken,
+} from '@/lib/auth/tokens';
+
+export interface StaffMemberWithServices extends StaffMember {
+  service_ids: string[];
+}
+
+export interface InviteStaffParams {
+  businessId: string;
+  name: string;
+  email: string;
+  invitedBy: string;
+  serviceIds?: string[];
+  weeklyHours?: DailyAvailability[] | null;
+}
+
+/**
+ * Staff who may take a booking, or why nobody can
+ * staffIds is null when the service isn't booked per staff member.
+ */
+export type StaffCandidatesResult =
+  | { success: true; staffIds: string[] | null }
+  | { success: false; code: 'STAFF_NOT_FOUND' | 'STAFF_UNAVAILABLE'; error: string };
+
+export interface UpdateStaffParams {
+  name?: string;
+  serviceIds?: string[];
+  weeklyHours?: DailyAvailability[] | null;
+}
+
+/**
+ * Staff Manager
+ *
+ * Owns the staff_members and staff_services tables:
+ * - Invites (token hashed at rest, like password reset tokens)
+ * - Service assignment (which services each person performs)
+ * - Weekly hours (YAML availability format, NULL = business hours)
+ *
+ * Only 'active' staff (invite accepted) are bookable.
+ */
+export class StaffManager {
+  constructor(private db: DbClient) {}
+
+  /**
+   * List all non-removed staff for a business with their assigned service ids
+   */
+  async listStaff(businessId: string): Promise<StaffMemberWithServices[]> {
+    const rows = await this.db`
+      SELECT
+        sm.id,
+        sm.business_id,
+        sm.user_id,
+        sm.name,
+        sm.email,
+        sm.status,
+        sm.weekly_hours,
+        sm.invite_expires_at,
+        sm.created_at,
+        sm.updated_at,
+        sm.deleted_at,
+        COALESCE(
+          ARRAY_AGG(ss.service_id) FILTER (WHERE ss.service_id IS NOT NULL),
+          '{}'
+        ) as service_ids
+      FROM staff_members sm
+      LEFT JOIN staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.business_id = ${businessId}
+        AND sm.deleted_at IS NULL
+        AND sm.status <> 'removed'
+      GROUP BY sm.id
+      ORDER BY sm.created_at ASC
+    `;
+
+    return rows as StaffMemberWithServices[];
+  }
+
+  /**
+   * Get a single staff member, scoped to the business
+   */
+  async getStaffMember(businessId: string, staffId: string): Promise<StaffMemberWithServices | null> {
+    const staff = await this.listStaff(businessId);
+    return staff.find(member => member.id === staffId) || null;
+  }
+
+  /**
+   * Find a live staff record for an email address within a business
+   */
+  async findByEmail(businessId: string, email: string): Promise<StaffMember | null> {
+    const [staff] = await this.db`
+      SELECT * FROM staff_members
+      WHERE business_id = ${businessId}
+        AND LOWER(email) = LOWER(${email})
+        AND deleted_at IS NULL
+        AND status <> 'removed'
+      LIMIT 1
+    `;
+
+    return (staff as StaffMember) || null;
+  }
+
+  /**
+   * Create an invited staff member
+   *
+   * @returns The staff record and the plain invite token (only the hash is stored)
+   */
+  async inviteStaff(params: InviteStaffParams): Promise<{ staff: StaffMember; inviteToken: string }> {
+    const inviteToken = generateStaffInviteToken();
+    const inviteTokenHash = hashToken(inviteToken);
+    const inviteExpiry = getStaffInviteExpiry();
+
+    const [staff] = await this.db`
+      INSERT INTO staff_members (
+        business_id,
+        name,
+        email,
+        status,
+        weekly_hours,
+        invite_token_hash,
+        invite_expires_at,
+        invited_by
+      ) VALUES (
+        ${params.businessId},
+        ${params.name},
+        ${params.email.toLowerCase()},
+        'invited',
+        ${params.weeklyHours ? JSON.stringify(params.weeklyHours) : null},
+        ${inviteTokenHash},
+        ${inviteExpiry},
+        ${params.invitedBy}
+      )
+      RETURNING *
+    `;
+
+    if (params.serviceIds && params.serviceIds.length > 0) {
+      await this.setServices(params.businessId, staff.id, params.serviceIds);
+    }
+
+    return { staff: staff as StaffMember, inviteToken };
+  }
+
+  /**
+   * Issue a fresh invite token for a staff member who has not accepted yet
+   */
+  async regenerateInvite(businessId: string, staffId: string): Promise<string | null> {
+    const inviteToken = generateStaffInviteToken();
+
+    const result = await this.db`
+      UPDATE staff_members
+      SET invite_token_hash = ${hashToken(inviteToken)},
+          invite_expires_at = ${getStaffInviteExpiry()}
+      WHERE id = ${staffId}
+        AND business_id = ${businessId}
+        AND status = 'invited'
+        AND deleted_at IS NULL
+      RETURNING id
+    `;
+
+    return result.length > 0 ? inviteToken : null;
+  }
+
+  /**
+   * Look up a pending invite by its plain token
+   */
+  async findInvite(inviteToken: string): Promise<(StaffMember & { business_name: string }) | null> {
+    const [staff] = await this.db`
+      SELECT sm.*, b.name as business_name
+      FROM staff_members sm
+      JOIN businesses b ON b.id = sm.business_id
+      WHERE sm.invite_token_hash = ${hashToken(inviteToken)}
+        AND sm.invite_expires_at > NOW()
+        AND sm.status = 'invited'
+        AND sm.deleted_at IS NULL
+        AND b.deleted_at IS NULL
+      LIMIT 1
+    `;
+
+    return (staff as StaffMember & { business_name: string }) || null;
+  }
+
+  /**
+   * Redeem an invite: create the staff user account and activate the staff record
+   *
+   * Both writes happen in one statement conditioned on the invite still being
+   * pending, so a token can only be redeemed once.
+   *
+   * @returns The new user, or null if the invite is invalid, expired or already used
+   */
+  async acceptInvite(
+    inviteToken: string,
+    params: { passwordHash: string; name?: string }
+  ): Promise<{ userId: string; staffId: string; businessId: string; email: string; name: string } | null> {
+    const userId = uuidv4();
+
+    const [accepted] = await this.db`
+      WITH invite AS (
+        UPDATE staff_members
+        SET user_id = ${userId},
+            status = 'active',
+            name = COALESCE(${params.name || null}, name),
+            invite_token_hash = NULL,
+            invite_expires_at = NULL
+        WHERE invite_token_hash = ${hashToken(inviteToken)}
+          AND invite_expires_at > NOW()
+          AND status = 'invited'
+          AND deleted_at IS NULL
+        RETURNING id, business_id, email, name
+      )
+      INSERT INTO users (
+        id,
+        email,
+        name,
+        role,
+        business_id,
+        password_hash,
+        email_verified
+      )
+      SELECT
+        ${userId},
+        invite.email,
+        invite.name,
+        'staff',
+        invite.business_id,
+        ${params.passwordHash},
+        true
+      FROM invite
+      RETURNING id, email, name, business_id, (SELECT id FROM invite) as staff_id
+    `;
+
+    if (!accepted) {
+      return null;
+    }
+
+    return {
+      userId: accepted.id,
+      staffId: accepted.staff_id,
+      businessId: accepted.business_id,
+      email: accepted.email,
+      name: accepted.name,
+    };
+  }
+
+  /**
+   * Update name, weekly hours and/or assigned services
+   */
+  async updateStaff(businessId: string, staffId: string, params: UpdateStaffParams): Promise<StaffMemberWithServices | null> {
+    const existing = await this.getStaffMember(businessId, staffId);
+    if (!existing) {
+      return null;
+    }
+
+    if (params.name !== undefined || params.weeklyHours !== undefined) {
+      const weeklyHours = params.weeklyHours === undefined
+        ? existing.weekly_hours
+        : params.weeklyHours;
+
+      await this.db`
+        UPDATE staff_members
+        SET name = ${params.name ?? existing.name},
+            weekly_hours = ${weeklyHours ? JSON.stringify(weeklyHours) : null}
+        WHERE id = ${staffId}
+          AND business_id = ${businessId}
+      `;
+    }
+
+    if (params.serviceIds !== undefined) {
+      await this.setServices(businessId, staffId, params.serviceIds);
+    }
+
+    return this.getStaffMember(businessId, staffId);
+  }
+
+  /**
+   * Remove a staff member
+   *
+   * Existing appointments keep their staff_id for history. The linked user
+   * account is soft-deleted so the person can no longer sign in.
+   */
+  async removeStaff(businessId: string, staffId: string): Promise<boolean> {
+    const [removed] = await this.db`
+      UPDATE staff_members
+      SET status = 'removed',
+          invite_token_hash = NULL,
+          invite_expires_at = NULL,
+          deleted_at = NOW()
+      WHERE id = ${staffId}
+        AND business_id = ${businessId}
+        AND deleted_at IS NULL
+      RETURNING id, user_id
+    `;
+
+    if (!removed) {
+      return false;
+    }
+
+    if (removed.user_id) {
+      await this.db`
+        UPDATE users
+        SET deleted_at = NOW()
+        WHERE id = ${removed.user_id}
+          AND role = 'staff'
+          AND deleted_at IS NULL
+      `;
+
+      await this.db`
+        UPDATE refresh_tokens
+        SET revoked_at = NOW()
+        WHERE user_id = ${removed.user_id}
+          AND revoked_at IS NULL
+      `;
+    }
+
+    return true;
+  }
+
+  /**
+   * Active staff who perform a service, in the shape the slot generator expects
+   *
+   * @param serviceId - Database UUID of the service
+   */
+  async getBookableStaff(businessId: string, serviceId: string): Promise<Array<StaffCalendar & { name: string }>> {
+    const rows = await this.db`
+      SELECT sm.id, sm.name, sm.weekly_hours
+      FROM staff_members sm
+      JOIN staff_services ss ON ss.staff_id = sm.id
+      WHERE sm.business_id = ${businessId}
+        AND ss.service_id = ${serviceId}
+        AND sm.status = 'active'
+        AND sm.deleted_at IS NULL
+      ORDER BY sm.created_at ASC
+    `;
+
+    return rows.map(row => ({
+      id: row.id as string,
+      name: row.name as string,
+      weeklyHours: (row.weekly_hours as DailyAvailability[] | null) || null,
+    }));
+  }
+
+  /**
+   * Resolve the staff members who may take a booking, in the order to try them
+   *
+   * Applies when the tenant has enabled multiple staff and the service has
+   * active staff assigned. A specific staffId limits the candidates to that
+   * person; 'any' (or none) keeps everyone working for the whole service time.
+   *
+   * @param serviceId - Database UUID of the service
+   */
+  async resolveStaffCandidates(
+    config: TenantConfig,
+    businessId: string,
+    serviceId: string,
+    slotStart: Date,
+    slotEnd: Date,
+    staffId?: string
+  ): Promise<StaffCandidatesResult> {
+    const specificStaff = staffId && staffId !== 'any' ? staffId : undefined;
+    const bookableStaff = config.features.enableMultipleStaff
+      ? await this.getBookableStaff(businessId, serviceId)
+      : [];
+
+    if (bookableStaff.length === 0) {
+      return specificStaff
+        ? { success: false, code: 'STAFF_NOT_FOUND', error: 'Staff member not found for this service' }
+        : { success: true, staffIds: null };
+    }
+
+    const requested = specificStaff
+      ? bookableStaff.filter(member => member.id === specificStaff)
+      : bookableStaff;
+
+    if (requested.length === 0) {
+      return { success: false, code: 'STAFF_NOT_FOUND', error: 'Staff member not found for this service' };
+    }
+
+    const staffIds = requested
+      .filter(member => isStaffWorking(config, member, slotStart, slotEnd))
+      .map(member => member.id);
+
+    if (staffIds.length === 0) {
+      return { success: false, code: 'STAFF_UNAVAILABLE', error: 'The selected staff member is not working at this time' };
+    }
+
+    return { success: true, staffIds };
+  }
+
+  /**
+   * Replace the set of services a staff member performs
+   * Ignores service ids that don't belong to the business.
+   */
+  private async setServices(businessId: string, staffId: string, serviceIds: string[]): Promise<void> {
+    await this.db`
+      DELETE FROM staff_services
+      WHERE staff_id = ${staffId}
+    `;
+
+    if (serviceIds.length === 0) {
+      return;
+    }
+
+    await this.db`
+      INSERT INTO staff_services (staff_id, service_id)
+      SELECT ${staffId}, s.id
+      FROM services s
+      WHERE s.business_id = ${businessId}
+        AND s.id = ANY(${serviceIds}::uuid[])
+        AND s.deleted_at IS NULL
+      ON CONFLICT DO NOTHING
+    `;
+  }
+}
@@ -94,6 +94,7 @@ function getSuggestedTier(feature: keyof SubscriptionFeatures): string {
   // Features available in Pro tier
   if ([
     'apiAccess',
+    'webhooks',
     'multiLocation',
     'customDomain',
   ].includes(feature)) {
@@ -126,6 +127,7 @@ function getUpgradeMessage(feature: keyof SubscriptionFeatures, suggestedTier: s
     automatedReminders: 'Automated reminders',
     removeWatermark: 'Remove Rhivo branding',
     apiAccess: 'API access',
+    webhooks: 'Webhooks',
     multiLocation: 'Multi-location support',
     customDomain: 'Custom domain',
     whiteLabel: 'Full white-label',
@@ -152,11 +154,19 @@ export async function canAddStaff(businessId: string): Promise<{
     SELECT subscription_tier, max_staff_members FROM businesses WHERE id = ${businessId}
   `;
 
+  // Owners count toward the limit, plus every invited or active staff member
+  // (pending invites reserve a seat so owners can't over-invite)
   const [staffCount] = await sql`
-    SELECT COUNT(*) as count FROM users
-    WHERE business_id = ${businessId}
-      AND role IN ('owner', 'staff')
-      AND deleted_at IS NULL
+    SELECT
+      (
+        SELECT COUNT(*) FROM business_owners
+        WHERE business_id = ${businessId}
+      ) + (
+        SELECT COUNT(*) FROM staff_members
+        WHERE business_id = ${businessId}
+          AND status IN ('invited', 'active')
+          AND deleted_at IS NULL
+      ) as count
   `;
 
   const features = TIER_FEATURES[business.subscription_tier || 'free'];
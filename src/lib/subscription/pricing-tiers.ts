@@ -12,6 +12,7 @@ export interface SubscriptionFeatures {
   analyticsLevel: 'none' | 'basic' | 'advanced';
   removeWatermark: boolean;
   apiAccess: boolean;
+  webhooks: boolean;
   exportData: boolean;
   supportLevel: 'community' | 'email_48h' | 'email_24h' | 'phone_4h';
   customerDatabase: boolean;
@@ -31,6 +32,7 @@ export const TIER_FEATURES: Record<string, SubscriptionFeatures> = {
     analyticsLevel: 'none',
     removeWatermark: false,
     apiAccess: false,
+    webhooks: false,
     exportData: false,
     supportLevel: 'community',
     customerDatabase: false,
@@ -48,6 +50,7 @@ export const TIER_FEATURES: Record<string, SubscriptionFeatures> = {
     analyticsLevel: 'basic',
     removeWatermark: true,
     apiAccess: false,
+    webhooks: false,
     exportData: true,
     supportLevel: 'email_48h',
     customerDatabase: true,
@@ -65,6 +68,7 @@ export const TIER_FEATURES: Record<string, SubscriptionFeatures> = {
     analyticsLevel: 'advanced',
     removeWatermark: true,
     apiAccess: true,
+    webhooks: true,
     exportData: true,
     supportLevel: 'email_24h',
     customerDatabase: true,
@@ -82,6 +86,7 @@ export const TIER_FEATURES: Record<string, SubscriptionFeatures> = {
     analyticsLevel: 'advanced',
     removeWatermark: true,
     apiAccess: true,
+    webhooks: true,
     exportData: true,
     supportLevel: 'phone_4h',
     customerDatabase: true,
@@ -0,0 +1,136 @@
+/**
+ * Webhook events
+ *
+ * Event types are the owner notification types (notification_type enum,
+ * migration 019), so a webhook fires for the same things the dashboard
+ * notifies owners about.
+ */
+
+import { WebhookEventType } from '@/db/types';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'booking_created',
+  'booking_canceled',
+  'booking_rescheduled',
+  'no_show_marked',
+  'appointment_completed',
+];
+
+// Appointment row joined with its service and customer, as loaded by WebhookService
+export interface AppointmentEventRow {
+  id: string;
+  booking_id: string | null;
+  business_id: string;
+  service_id: string;
+  service_name: string | null;
+  staff_id: string | null;
+  status: string;
+  slot_start: Date | string;
+  slot_end: Date | string;
+  customer_id: string | null;
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+  notes: string | null;
+  payment_status: string | null;
+  deposit_paid_cents: number | null;
+}
+
+export interface WebhookAppointment {
+  id: string;
+  bookingId: string | null;
+  status: string;
+  serviceId: string;
+  serviceName: string | null;
+  staffId: string | null;
+  slotStart: string;
+  slotEnd: string;
+  customer: {
+    id: string | null; // null for guest bookings
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+  };
+  notes: string | null;
+  paymentStatus: string | null;
+  depositPaidCents: number | null;
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  businessId: string;
+  data: {
+    appointment: WebhookAppointment;
+    // booking_rescheduled only: the slot before the change
+    previous?: { slotStart: string; slotEnd: string };
+  };
+}
+
+/**
+ * Event for an appointment moving to a new status, or null if the status has none
+ */
+export function getStatusWebhookEvent(status: string): WebhookEventType | null {
+  switch (status) {
+    case 'canceled':
+      return 'booking_canceled';
+    case 'completed':
+      return 'appointment_completed';
+    case 'no_show':
+      return 'no_show_marked';
+    default:
+      return null;
+  }
+}
+
+export interface PreviousSlot {
+  slotStart: Date | string;
+  slotEnd: Date | string;
+}
+
+/**
+ * Build the JSON body sent for an appointment event
+ * Internal notes are never included.
+ */
+export function buildAppointmentEvent(
+  id: string,
+  type: WebhookEventType,
+  appointment: AppointmentEventRow,
+  previous?: PreviousSlot,
+  now: Date = new Date()
+): WebhookEvent {
+  return {
+    id,
+    type,
+    createdAt: now.toISOString(),
+    businessId: appointment.business_id,
+    data: {
+      appointment: {
+        id: appointment.id,
+        bookingId: appointment.booking_id,
+        status: appointment.status,
+        serviceId: appointment.service_id,
+        serviceName: appointment.service_name,
+        staffId: appointment.staff_id,
+        slotStart: new Date(appointment.slot_start).toISOString(),
+        slotEnd: new Date(appointment.slot_end).toISOString(),
+        customer: {
+          id: appointment.customer_id,
+          name: appointment.customer_name,
+          email: appointment.customer_email,
+          phone: appointment.customer_phone,
+        },
+        notes: appointment.notes,
+        paymentStatus: appointment.payment_status,
+        depositPaidCents: appointment.deposit_paid_cents,
+      },
+      ...(previous && {
+        previous: {
+          slotStart: new Date(previous.slotStart).toISOString(),
+          slotEnd: new Date(previous.slotEnd).toISOString(),
+        },
+      }),
+    },
+  };
+}
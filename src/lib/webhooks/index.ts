@@ -0,0 +1,33 @@
+/**
+ * Webhooks Module
+ *
+ * Outbound webhooks for booking lifecycle events (Growth plan and up):
+ *
+ * 1. Owners register endpoint URLs in settings and pick the events they want
+ * 2. Booking changes queue an event per subscribed endpoint (WebhookService)
+ * 3. The deliver-webhooks cron POSTs each one, HMAC-signed, retrying with
+ *    backoff (WebhookDispatcher)
+ * 4. Every delivery is logged and can be replayed from the dashboard
+ */
+
+export { WebhookService, MAX_ENDPOINTS_PER_BUSINESS } from './webhook-service';
+export type {
+  WebhookEndpointSummary,
+  CreateWebhookEndpointParams,
+  UpdateWebhookEndpointParams,
+} from './webhook-service';
+
+export { WebhookDispatcher } from './webhook-dispatcher';
+export type { WebhookDispatchResult } from './webhook-dispatcher';
+
+export { WEBHOOK_EVENT_TYPES, buildAppointmentEvent, getStatusWebhookEvent } from './events';
+export type { WebhookEvent, WebhookAppointment, AppointmentEventRow, PreviousSlot } from './events';
+
+export { webhookUrlSchema, webhookEventsSchema } from './validation';
+
+export {
+  SIGNATURE_HEADER,
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './signature';
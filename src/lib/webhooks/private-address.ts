@@ -0,0 +1,70 @@
+/**
+ * Private address checks
+ *
+ * Webhook URLs are chosen by business owners and fetched from our servers, so
+ * they must not reach our own network: loopback, private (RFC 1918), shared
+ * (CGNAT), link-local (including the 169.254.169.254 cloud metadata service),
+ * multicast and reserved ranges are refused. URLs are checked when an endpoint
+ * is saved and the resolved addresses again before every delivery, since a
+ * public name can later point somewhere private.
+ */
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+const privateRanges = new BlockList();
+
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are matched against these too
+privateRanges.addSubnet('0.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('10.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('100.64.0.0', 10, 'ipv4');
+privateRanges.addSubnet('127.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('169.254.0.0', 16, 'ipv4');
+privateRanges.addSubnet('172.16.0.0', 12, 'ipv4');
+privateRanges.addSubnet('192.0.0.0', 24, 'ipv4');
+privateRanges.addSubnet('192.168.0.0', 16, 'ipv4');
+privateRanges.addSubnet('198.18.0.0', 15, 'ipv4');
+privateRanges.addSubnet('224.0.0.0', 3, 'ipv4'); // Multicast and reserved, up to 255.255.255.255
+
+privateRanges.addSubnet('::', 127, 'ipv6'); // Unspecified and loopback
+privateRanges.addSubnet('64:ff9b::', 96, 'ipv6'); // NAT64, can reach IPv4 private ranges
+privateRanges.addSubnet('fc00::', 7, 'ipv6'); // Unique local
+privateRanges.addSubnet('fe80::', 10, 'ipv6'); // Link-local
+privateRanges.addSubnet('ff00::', 8, 'ipv6'); // Multicast
+
+// Names that only resolve inside a network (metadata.google.internal, printer.local, ...)
+const PRIVATE_NAME_SUFFIXES = ['localhost', '.localhost', '.local', '.internal'];
+
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 0) return false;
+
+  return privateRanges.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether a URL hostname is private on its face: a private IP literal or a
+ * local-only name. Public names still need resolvesToPrivateAddress.
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  // URL.hostname keeps the brackets of IPv6 literals
+  const host = hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '');
+
+  if (isIP(host)) return isPrivateAddress(host);
+
+  return PRIVATE_NAME_SUFFIXES.some((suffix) => host === suffix || host.endsWith(suffix));
+}
+
+/**
+ * Resolve a hostname and check every address it points to
+ * Throws if the name doesn't resolve.
+ */
+export async function resolvesToPrivateAddress(hostname: string): Promise<boolean> {
+  if (isPrivateHostname(hostname)) return true;
+
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isIP(host)) return false;
+
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  return addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address));
+}
@@ -0,0 +1,66 @@
+/**
+ * Webhook signatures
+ *
+ * Every delivery carries a Rhivo-Signature header of the form
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256>`, where the HMAC is computed with the
+ * endpoint secret over `<t>.<raw request body>`. Including the timestamp lets
+ * receivers reject replayed requests.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'Rhivo-Signature';
+
+// Receivers should reject signatures older than this
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+export function computeSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Build the Rhivo-Signature header value for a request body
+ */
+export function signWebhookPayload(secret: string, body: string, now: Date = new Date()): string {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`;
+}
+
+/**
+ * Check a Rhivo-Signature header against the raw request body
+ * Reference implementation for receivers; also used by tests.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  now: Date = new Date(),
+  toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const parts = new Map(
+    header.split(',').map(part => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')] as const;
+    })
+  );
+
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body), 'hex');
+  const received = Buffer.from(signature, 'hex');
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
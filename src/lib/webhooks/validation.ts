@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { WebhookEventType } from '@/db/types';
+import { WEBHOOK_EVENT_TYPES } from './events';
+import { isPrivateHostname } from './private-address';
+
+// Plain HTTP is only accepted outside production (e.g. a tunnel to a local receiver).
+// Names are checked again once resolved, before each delivery.
+export const webhookUrlSchema = z
+  .string()
+  .url()
+  .max(2000)
+  .refine(
+    (url) => url.startsWith('https://') || (process.env.NODE_ENV !== 'production' && url.startsWith('http://')),
+    { message: 'Webhook URLs must use HTTPS' }
+  )
+  .refine((url) => !isPrivateHostname(new URL(url).hostname), {
+    message: 'Webhook URLs must point to a public host',
+  });
+
+export const webhookEventsSchema = z
+  .array(z.enum(WEBHOOK_EVENT_TYPES as [WebhookEventType, ...WebhookEventType[]]))
+  .min(1);
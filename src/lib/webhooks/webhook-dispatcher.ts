@@ -0,0 +1,190 @@
+import { DbClient } from '@/db/client';
+import { NotificationStatus, WebhookDelivery } from '@/db/types';
+import { getNextAttemptAt } from '@/lib/notifications/retry-policy';
+import { SIGNATURE_HEADER, signWebhookPayload } from './signature';
+import { resolvesToPrivateAddress } from './private-address';
+
+// Deliveries claimed per run; the cron runs every minute
+const DEFAULT_BATCH_SIZE = 25;
+
+// Covers the request timeout below with room to record the outcome
+const CLAIM_LOCK_INTERVAL = '2 minutes';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface WebhookDispatchResult {
+  claimed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+  deadLettered: number;
+}
+
+interface ClaimedDelivery extends WebhookDelivery {
+  url: string;
+  secret: string;
+  enabled: boolean;
+}
+
+interface AttemptOutcome {
+  success: boolean;
+  retryable: boolean;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+/**
+ * Webhook Dispatcher
+ *
+ * Sends queued webhook_deliveries to their endpoints. Each request is a JSON
+ * POST with headers:
+ * - Rhivo-Signature: HMAC-SHA256 of the body (see signature.ts)
+ * - Rhivo-Event: the event type
+ * - Rhivo-Delivery: the delivery id (changes on replay; the event id in the body doesn't)
+ *
+ * A 2xx response marks the delivery sent. Timeouts, network errors, 5xx, 408
+ * and 429 are retried with the notification backoff (retry-policy.ts) until
+ * the delivery is dead-lettered; other 4xx responses fail it straight away.
+ * Endpoints whose name resolves to a private address fail without a request,
+ * and only the response status is kept, never the body.
+ * Deliveries are claimed with FOR UPDATE SKIP LOCKED, like the notification worker.
+ */
+export class WebhookDispatcher {
+  constructor(private db: DbClient) {}
+
+  /**
+   * Claim and send one batch of due deliveries
+   * Should be called periodically by the deliver-webhooks cron route
+   */
+  async processBatch(limit: number = DEFAULT_BATCH_SIZE): Promise<WebhookDispatchResult> {
+    const result: WebhookDispatchResult = { claimed: 0, sent: 0, retrying: 0, failed: 0, deadLettered: 0 };
+
+    const deliveries = await this.claimDue(limit);
+    result.claimed = deliveries.length;
+
+    for (const delivery of deliveries) {
+      const outcome = delivery.enabled
+        ? await this.send(delivery)
+        : { success: false, retryable: false, responseStatus: null, error: 'Endpoint is disabled' };
+
+      const status = await this.recordOutcome(delivery, outcome);
+
+      if (status === 'sent') result.sent++;
+      else if (status === 'retrying') result.retrying++;
+      else if (status === 'dead_letter') result.deadLettered++;
+      else result.failed++;
+    }
+
+    return result;
+  }
+
+  private async claimDue(limit: number): Promise<ClaimedDelivery[]> {
+    return await this.db`
+      UPDATE webhook_deliveries d
+      SET locked_until = NOW() + ${CLAIM_LOCK_INTERVAL}::interval,
+          attempts = d.attempts + 1,
+          last_attempt_at = NOW()
+      FROM webhook_endpoints e
+      WHERE e.id = d.endpoint_id
+        AND d.id IN (
+          SELECT id
+          FROM webhook_deliveries
+          WHERE status IN ('pending', 'retrying')
+            AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+            AND (locked_until IS NULL OR locked_until < NOW())
+          ORDER BY COALESCE(next_attempt_at, created_at) ASC
+          LIMIT ${limit}
+          FOR UPDATE SKIP LOCKED
+        )
+      RETURNING d.*, e.url, e.secret, e.enabled
+    ` as ClaimedDelivery[];
+  }
+
+  private async send(delivery: ClaimedDelivery): Promise<AttemptOutcome> {
+    const body = JSON.stringify(delivery.payload);
+
+    try {
+      if (await resolvesToPrivateAddress(new URL(delivery.url).hostname)) {
+        return {
+          success: false,
+          retryable: false,
+          responseStatus: null,
+          error: 'Endpoint resolves to a private address',
+        };
+      }
+
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Rhivo-Webhooks/1.0',
+          [SIGNATURE_HEADER]: signWebhookPayload(delivery.secret, body),
+          'Rhivo-Event': delivery.event_type,
+          'Rhivo-Delivery': delivery.id,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      // The body is never read or stored; receivers only need to answer 2xx
+      await response.body?.cancel().catch(() => {});
+
+      if (response.ok) {
+        return { success: true, retryable: false, responseStatus: response.status, error: null };
+      }
+
+      const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+
+      return {
+        success: false,
+        retryable,
+        responseStatus: response.status,
+        error: `Endpoint responded with HTTP ${response.status}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        retryable: true,
+        responseStatus: null,
+        error: error instanceof Error ? error.message : 'Request failed',
+      };
+    }
+  }
+
+  /**
+   * Store the result of an attempt and release the claim
+   * @returns The delivery's new status
+   */
+  private async recordOutcome(delivery: ClaimedDelivery, outcome: AttemptOutcome): Promise<NotificationStatus> {
+    let status: NotificationStatus;
+    let nextAttemptAt: Date | null = null;
+
+    if (outcome.success) {
+      status = 'sent';
+    } else if (!outcome.retryable) {
+      status = 'failed';
+    } else {
+      nextAttemptAt = getNextAttemptAt(delivery.attempts);
+      status = nextAttemptAt ? 'retrying' : 'dead_letter';
+    }
+
+    if (!outcome.success) {
+      console.warn(
+        `[WebhookDispatcher] ${delivery.event_type} ${delivery.id} to ${delivery.url} attempt ${delivery.attempts} -> ${status}: ${outcome.error}`
+      );
+    }
+
+    await this.db`
+      UPDATE webhook_deliveries
+      SET status = ${status},
+          response_status = ${outcome.responseStatus},
+          error_message = ${outcome.error},
+          next_attempt_at = ${nextAttemptAt},
+          locked_until = NULL
+      WHERE id = ${delivery.id}
+    `;
+
+    return status;
+  }
+}
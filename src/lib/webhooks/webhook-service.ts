@@ -0,0 +1,248 @@
+import { DbClient } from '@/db/client';
+import { WebhookDelivery, WebhookEndpoint, WebhookEventType } from '@/db/types';
+import { hasFeature } from '@/lib/subscription/feature-gates';
+import { v4 as uuidv4 } from 'uuid';
+import { AppointmentEventRow, PreviousSlot, buildAppointmentEvent } from './events';
+import { generateWebhookSecret } from './signature';
+
+export const MAX_ENDPOINTS_PER_BUSINESS = 10;
+
+// Endpoint as listed in the dashboard; the secret is only returned on create and rotate
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, 'secret'>;
+
+export interface CreateWebhookEndpointParams {
+  businessId: string;
+  url: string;
+  description?: string | null;
+  events: WebhookEventType[];
+}
+
+export interface UpdateWebhookEndpointParams {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEventType[];
+  enabled?: boolean;
+}
+
+/**
+ * Webhook Service
+ *
+ * Manages a business's webhook endpoints and queues events for them. Events
+ * are only written to webhook_deliveries here; the deliver-webhooks cron sends
+ * them (see WebhookDispatcher), so emitting never slows down a booking request.
+ */
+export class WebhookService {
+  constructor(private db: DbClient) {}
+
+  async listEndpoints(businessId: string): Promise<WebhookEndpointSummary[]> {
+    return await this.db`
+      SELECT id, business_id, url, description, events, enabled, created_at, updated_at
+      FROM webhook_endpoints
+      WHERE business_id = ${businessId}
+      ORDER BY created_at ASC
+    ` as WebhookEndpointSummary[];
+  }
+
+  async getEndpoint(endpointId: string): Promise<WebhookEndpoint | null> {
+    const [endpoint] = await this.db`
+      SELECT * FROM webhook_endpoints WHERE id = ${endpointId}
+    `;
+
+    return (endpoint as WebhookEndpoint) || null;
+  }
+
+  async createEndpoint(params: CreateWebhookEndpointParams): Promise<WebhookEndpoint> {
+    const [endpoint] = await this.db`
+      INSERT INTO webhook_endpoints (business_id, url, description, secret, events)
+      VALUES (
+        ${params.businessId},
+        ${params.url},
+        ${params.description || null},
+        ${generateWebhookSecret()},
+        ${params.events}::notification_type[]
+      )
+      RETURNING *
+    `;
+
+    return endpoint as WebhookEndpoint;
+  }
+
+  /**
+   * Update an endpoint; undefined fields are left unchanged
+   */
+  async updateEndpoint(endpointId: string, params: UpdateWebhookEndpointParams): Promise<WebhookEndpointSummary | null> {
+    const { url, description, events, enabled } = params;
+
+    const [endpoint] = await this.db`
+      UPDATE webhook_endpoints
+      SET
+        url = COALESCE(${url ?? null}, url),
+        description = CASE WHEN ${description !== undefined} THEN ${description ?? null} ELSE description END,
+        events = COALESCE(${events ?? null}::notification_type[], events),
+        enabled = COALESCE(${enabled ?? null}, enabled)
+      WHERE id = ${endpointId}
+      RETURNING id, business_id, url, description, events, enabled, created_at, updated_at
+    `;
+
+    return (endpoint as WebhookEndpointSummary) || null;
+  }
+
+  /**
+   * Replace an endpoint's signing secret
+   * @returns The new secret
+   */
+  async rotateSecret(endpointId: string): Promise<string> {
+    const secret = generateWebhookSecret();
+
+    await this.db`
+      UPDATE webhook_endpoints SET secret = ${secret} WHERE id = ${endpointId}
+    `;
+
+    return secret;
+  }
+
+  /**
+   * Delete an endpoint together with its delivery log
+   */
+  async deleteEndpoint(endpointId: string): Promise<void> {
+    await this.db`
+      DELETE FROM webhook_endpoints WHERE id = ${endpointId}
+    `;
+  }
+
+  async listDeliveries(endpointId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    return await this.db`
+      SELECT *
+      FROM webhook_deliveries
+      WHERE endpoint_id = ${endpointId}
+      ORDER BY created_at DESC
+      LIMIT ${limit}
+    ` as WebhookDelivery[];
+  }
+
+  async getDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const [delivery] = await this.db`
+      SELECT * FROM webhook_deliveries WHERE id = ${deliveryId}
+    `;
+
+    return (delivery as WebhookDelivery) || null;
+  }
+
+  /**
+   * Queue a delivery again with the original payload
+   * The replay is a new row, so the log keeps the original attempts. It keeps
+   * the event id, letting receivers recognise events they already processed.
+   */
+  async replayDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const [replay] = await this.db`
+      INSERT INTO webhook_deliveries (
+        endpoint_id,
+        business_id,
+        appointment_id,
+        event_id,
+        event_type,
+        payload,
+        replay_of
+      )
+      SELECT
+        endpoint_id,
+        business_id,
+        appointment_id,
+        event_id,
+        event_type,
+        payload,
+        id
+      FROM webhook_deliveries
+      WHERE id = ${deliveryId}
+      RETURNING *
+    `;
+
+    return (replay as WebhookDelivery) || null;
+  }
+
+  /**
+   * Queue an appointment event for every enabled endpoint subscribed to it
+   * Never throws - a webhook problem must not fail the booking change that
+   * triggered it.
+   *
+   * @param previous - Slot before the change, for booking_rescheduled
+   * @returns Number of deliveries queued
+   */
+  async emitAppointmentEvent(
+    type: WebhookEventType,
+    appointmentId: string,
+    previous?: PreviousSlot
+  ): Promise<number> {
+    try {
+      const [appointment] = await this.db`
+        SELECT
+          a.id,
+          a.booking_id,
+          a.business_id,
+          a.service_id,
+          s.name as service_name,
+          a.staff_id,
+          a.status,
+          a.slot_start,
+          a.slot_end,
+          a.customer_id,
+          COALESCE(u.name, a.guest_name) as customer_name,
+          COALESCE(u.email, a.guest_email) as customer_email,
+          COALESCE(u.phone, a.guest_phone) as customer_phone,
+          a.notes,
+          a.payment_status,
+          a.deposit_paid_cents
+        FROM appointments a
+        LEFT JOIN services s ON s.id = a.service_id
+        LEFT JOIN users u ON u.id = a.customer_id
+        WHERE a.id = ${appointmentId}
+      ` as AppointmentEventRow[];
+
+      if (!appointment) {
+        return 0;
+      }
+
+      const [subscribed] = await this.db`
+        SELECT COUNT(*)::int AS count
+        FROM webhook_endpoints
+        WHERE business_id = ${appointment.business_id}
+          AND enabled = TRUE
+          AND ${type} = ANY(events)
+      `;
+
+      if (!subscribed?.count || !(await hasFeature(appointment.business_id, 'webhooks'))) {
+        return 0;
+      }
+
+      const event = buildAppointmentEvent(uuidv4(), type, appointment, previous);
+
+      const queued = await this.db`
+        INSERT INTO webhook_deliveries (
+          endpoint_id,
+          business_id,
+          appointment_id,
+          event_id,
+          event_type,
+          payload
+        )
+        SELECT
+          e.id,
+          e.business_id,
+          ${appointment.id},
+          ${event.id},
+          ${type},
+          ${JSON.stringify(event)}
+        FROM webhook_endpoints e
+        WHERE e.business_id = ${appointment.business_id}
+          AND e.enabled = TRUE
+          AND ${type} = ANY(e.events)
+        RETURNING id
+      `;
+
+      return queued.length;
+    } catch (error) {
+      console.error(`[WebhookService] Failed to queue ${type} for appointment ${appointmentId}:`, error);
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { debug } from './setup';
+import { validateCustomFieldAnswers, CustomFieldDefinition } from '../src/lib/booking/custom-fields';
+
+/**
+ * Custom Booking Field Tests
+ *
+ * These tests verify the server-side validation of answers to
+ * bookingRequirements.customFields, as run by /api/booking/commit.
+ *
+ * Test Scenarios:
+ * 1. Valid answers are trimmed and stored with their field labels
+ * 2. A blank required field is rejected
+ * 3. A required checkbox must be checked
+ * 4. Options that are not configured are rejected
+ * 5. maxLength is enforced
+ * 6. Answers to unknown fields are dropped
+ */
+
+const fields: CustomFieldDefinition[] = [
+  { id: 'allergies', label: 'Any allergies?', type: 'textarea', required: true, maxLength: 20 },
+  { id: 'finish', label: 'Finish', type: 'select', required: false, options: ['Matte', 'Gloss'] },
+  { id: 'consent', label: 'I accept the salon rules', type: 'checkbox', required: true },
+];
+
+// Expect a rejection naming the given field
+function expectRejected(scope: string, input: Record<string, unknown>, fieldId: string) {
+  const result = validateCustomFieldAnswers(fields, input);
+
+  if (result.valid || result.fieldId !== fieldId || result.code !== 'CUSTOM_FIELD_INVALID') {
+    debug.error(scope, `Expected ${fieldId} to be rejected`, result);
+    return { success: false };
+  }
+
+  debug.success(scope, result.error);
+  return { success: true };
+}
+
+function testValidAnswers() {
+  debug.log('VALID', 'Validating a complete set of answers...');
+
+  const result = validateCustomFieldAnswers(fields, { allergies: ' Latex ', finish: 'Gloss', consent: true });
+  const expected = [
+    { id: 'allergies', label: 'Any allergies?', type: 'textarea', value: 'Latex' },
+    { id: 'finish', label: 'Finish', type: 'select', value: 'Gloss' },
+    { id: 'consent', label: 'I accept the salon rules', type: 'checkbox', value: true },
+  ];
+
+  if (!result.valid || JSON.stringify(result.answers) !== JSON.stringify(expected)) {
+    debug.error('VALID', 'Unexpected answers', result);
+    return { success: false };
+  }
+
+  debug.success('VALID', 'Answers trimmed and labelled');
+  return { success: true };
+}
+
+function testRequiredField() {
+  debug.log('REQUIRED', 'Leaving a required field blank...');
+  return expectRejected('REQUIRED', { allergies: '   ', consent: true }, 'allergies');
+}
+
+function testRequiredCheckbox() {
+  debug.log('CHECKBOX', 'Leaving a required checkbox unchecked...');
+  return expectRejected('CHECKBOX', { allergies: 'None', consent: false }, 'consent');
+}
+
+function testUnknownOption() {
+  debug.log('OPTION', 'Picking an option that is not configured...');
+  return expectRejected('OPTION', { allergies: 'None', finish: 'Glitter', consent: true }, 'finish');
+}
+
+function testMaxLength() {
+  debug.log('MAX_LENGTH', 'Answering past maxLength...');
+  return expectRejected('MAX_LENGTH', { allergies: 'x'.repeat(21), consent: true }, 'allergies');
+}
+
+function testUnknownFieldDropped() {
+  debug.log('UNKNOWN_FIELD', 'Sending an answer for a field that does not exist...');
+
+  const result = validateCustomFieldAnswers(fields, { allergies: 'None', consent: true, injected: 'value' });
+
+  if (!result.valid || JSON.stringify(result.answers.map(a => a.id)) !== JSON.stringify(['allergies', 'consent'])) {
+    debug.error('UNKNOWN_FIELD', 'Unknown answer should be dropped', result);
+    return { success: false };
+  }
+
+  debug.success('UNKNOWN_FIELD', 'Only configured fields stored');
+  return { success: true };
+}
+
+async function runCustomFieldTests() {
+  console.log('\n========================================');
+  console.log('CUSTOM FIELD TESTS');
+  console.log('========================================\n');
+
+  const results = [];
+
+  const test1 = testValidAnswers();
+  results.push({ name: 'Valid answers stored with labels', passed: test1.success });
+
+  const test2 = testRequiredField();
+  results.push({ name: 'Required field', passed: test2.success });
+
+  const test3 = testRequiredCheckbox();
+  results.push({ name: 'Required checkbox', passed: test3.success });
+
+  const test4 = testUnknownOption();
+  results.push({ name: 'Unknown option', passed: test4.success });
+
+  const test5 = testMaxLength();
+  results.push({ name: 'maxLength', passed: test5.success });
+
+  const test6 = testUnknownFieldDropped();
+  results.push({ name: 'Unknown fields dropped', passed: test6.success });
+
+  console.log('\n========================================');
+  console.log('CUSTOM FIELD TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runCustomFieldTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running custom field tests', error);
+    process.exit(1);
+  });
@@ -0,0 +1,316 @@
+import { sql, debug, cleanupTestData } from './setup';
+import { nanoid } from 'nanoid';
+import { v4 as uuidv4 } from 'uuid';
+import { renderSms, getSmsLanguage } from '../src/lib/sms/templates';
+import { toE164 } from '../src/lib/sms/phone';
+import { SmsService } from '../src/lib/sms/sms-service';
+
+/**
+ * SMS Tests
+ *
+ * These tests verify the SMS templates and phone number normalisation used by
+ * SmsService, and the monthly quota reset run by the reset-sms-quota cron.
+ *
+ * Test Scenarios:
+ * 1. The SMS language follows the tenant locale
+ * 2. Times are rendered in the business timezone
+ * 3. Every template fits in one SMS segment in every language
+ * 4. Numbers with a country code are kept
+ * 5. Local numbers get the calling code of the tenant region
+ * 6. Numbers that cannot be normalised are rejected
+ * 7. A late quota reset keeps the business's billing day
+ * 8. Quotas that are not due are left alone
+ */
+
+const testId = nanoid(8);
+
+const data = {
+  businessName: 'Salone Bella',
+  serviceName: 'Taglio',
+  slotStart: new Date('2025-03-14T14:30:00Z'),
+  timezone: 'Europe/Rome',
+  bookingId: 'RHV-ABCD-1234',
+};
+
+let overdueBusinessId: string;
+let upcomingBusinessId: string;
+
+async function setupTestData() {
+  debug.log('SETUP', 'Creating test businesses...');
+
+  try {
+    overdueBusinessId = uuidv4();
+    upcomingBusinessId = uuidv4();
+
+    // The overdue quota should have been reset on the 15th three months ago
+    await sql`
+      INSERT INTO businesses (
+        id, subdomain, name, timezone, config_yaml_path, config_version, status,
+        sms_quota, sms_used_this_month, sms_reset_date
+      )
+      VALUES (
+        ${overdueBusinessId},
+        ${`test-sms-overdue-${testId}`},
+        'SMS Overdue Business',
+        'UTC',
+        'config/tenants/test-generic.yaml',
+        1,
+        'active',
+        100,
+        87,
+        (date_trunc('month', CURRENT_DATE) - INTERVAL '3 months' + INTERVAL '14 days')::date
+      )
+    `;
+
+    await sql`
+      INSERT INTO businesses (
+        id, subdomain, name, timezone, config_yaml_path, config_version, status,
+        sms_quota, sms_used_this_month, sms_reset_date
+      )
+      VALUES (
+        ${upcomingBusinessId},
+        ${`test-sms-upcoming-${testId}`},
+        'SMS Upcoming Business',
+        'UTC',
+        'config/tenants/test-generic.yaml',
+        1,
+        'active',
+        100,
+        42,
+        CURRENT_DATE + 10
+      )
+    `;
+
+    debug.success('SETUP', 'Test data created', { overdueBusinessId, upcomingBusinessId });
+    return true;
+  } catch (error) {
+    debug.error('SETUP', 'Failed to create test data', error);
+    return false;
+  }
+}
+
+function testLanguage() {
+  debug.log('LANGUAGE', 'Picking the SMS language from tenant locales...');
+
+  const cases: Array<[string | undefined, string]> = [
+    ['it-IT', 'it'],
+    ['es-ES', 'es'],
+    ['fr-FR', 'en'],
+    [undefined, 'en'],
+  ];
+
+  for (const [locale, expected] of cases) {
+    const language = getSmsLanguage(locale);
+    if (language !== expected) {
+      debug.error('LANGUAGE', `Expected ${expected} for ${locale}, got ${language}`);
+      return { success: false };
+    }
+  }
+
+  debug.success('LANGUAGE', 'Unsupported locales fall back to English');
+  return { success: true };
+}
+
+function testBusinessTimezone() {
+  debug.log('TIMEZONE', 'Rendering a confirmation for a business in Rome...');
+
+  const body = renderSms('appointment_confirmed', 'it-IT', data);
+
+  if (!body.includes('Salone Bella') || !body.includes('15:30') || !body.includes('RHV-ABCD-1234')) {
+    debug.error('TIMEZONE', 'Expected the business name, local time and booking id', body);
+    return { success: false };
+  }
+
+  debug.success('TIMEZONE', body);
+  return { success: true };
+}
+
+function testSegmentLength() {
+  debug.log('SEGMENT', 'Rendering every template in every language...');
+
+  const templates = ['appointment_confirmed', 'appointment_cancelled', 'appointment_rescheduled', 'appointment_reminder'] as const;
+
+  for (const locale of ['en-US', 'es-ES', 'it-IT']) {
+    for (const template of templates) {
+      const body = renderSms(template, locale, data);
+
+      if (body.length > 160 || !body.includes('Taglio')) {
+        debug.error('SEGMENT', `${template} (${locale}) is ${body.length} characters or lacks the service`, body);
+        return { success: false };
+      }
+    }
+  }
+
+  debug.success('SEGMENT', 'All templates fit in 160 characters');
+  return { success: true };
+}
+
+// Expect each number to normalise to the given E.164 form, or to null
+function expectNormalised(scope: string, cases: Array<[string, string | undefined, string | null]>) {
+  for (const [phone, locale, expected] of cases) {
+    const normalised = toE164(phone, locale);
+    if (normalised !== expected) {
+      debug.error(scope, `Expected ${expected} for ${phone} (${locale}), got ${normalised}`);
+      return { success: false };
+    }
+  }
+
+  debug.success(scope, `${cases.length} numbers normalised as expected`);
+  return { success: true };
+}
+
+function testInternationalNumbers() {
+  debug.log('INTERNATIONAL', 'Normalising numbers with a country code...');
+  return expectNormalised('INTERNATIONAL', [
+    ['+39 333 123 4567', 'it-IT', '+393331234567'],
+    ['0034 612 345 678', 'it-IT', '+34612345678'],
+  ]);
+}
+
+function testLocalNumbers() {
+  debug.log('LOCAL', 'Normalising local numbers...');
+  return expectNormalised('LOCAL', [
+    ['333 123 4567', 'it-IT', '+393331234567'],
+    ['06 1234 5678', 'it-IT', '+390612345678'],
+    ['(415) 555-0100', 'en-US', '+14155550100'],
+  ]);
+}
+
+function testInvalidNumbers() {
+  debug.log('INVALID', 'Normalising numbers that cannot be sent to...');
+  return expectNormalised('INVALID', [
+    ['333 123 4567', undefined, null],
+    ['12', 'it-IT', null],
+    ['call me', 'it-IT', null],
+  ]);
+}
+
+async function testLateResetKeepsBillingDay() {
+  debug.log('LATE_RESET', 'Resetting a quota three months overdue...');
+
+  try {
+    const reset = await new SmsService(sql, null).resetMonthlyQuotas();
+
+    // The next 15th after today
+    const [row] = await sql`
+      SELECT
+        sms_used_this_month,
+        TO_CHAR(sms_reset_date, 'YYYY-MM-DD') AS reset_date,
+        TO_CHAR(
+          CASE
+            WHEN EXTRACT(DAY FROM CURRENT_DATE) < 15
+              THEN date_trunc('month', CURRENT_DATE) + INTERVAL '14 days'
+            ELSE date_trunc('month', CURRENT_DATE) + INTERVAL '1 month 14 days'
+          END,
+          'YYYY-MM-DD'
+        ) AS expected
+      FROM businesses
+      WHERE id = ${overdueBusinessId}
+    `;
+
+    if (reset < 1 || row.sms_used_this_month !== 0) {
+      debug.error('LATE_RESET', `Expected the quota reset, ${reset} businesses reset`, row);
+      return { success: false };
+    }
+
+    if (row.reset_date !== row.expected) {
+      debug.error('LATE_RESET', `Expected the next reset on ${row.expected}, got ${row.reset_date}`);
+      return { success: false };
+    }
+
+    debug.success('LATE_RESET', `Usage cleared, next reset on ${row.reset_date}`);
+    return { success: true };
+  } catch (error) {
+    debug.error('LATE_RESET', 'Quota reset failed', error);
+    return { success: false };
+  }
+}
+
+async function testUpcomingResetUntouched() {
+  debug.log('UPCOMING_RESET', 'Checking a quota that is not due yet...');
+
+  try {
+    const [row] = await sql`
+      SELECT sms_used_this_month, sms_reset_date = CURRENT_DATE + 10 AS unchanged
+      FROM businesses
+      WHERE id = ${upcomingBusinessId}
+    `;
+
+    if (row.sms_used_this_month !== 42 || !row.unchanged) {
+      debug.error('UPCOMING_RESET', 'A quota that was not due has been reset', row);
+      return { success: false };
+    }
+
+    debug.success('UPCOMING_RESET', 'Usage and reset date kept');
+    return { success: true };
+  } catch (error) {
+    debug.error('UPCOMING_RESET', 'Upcoming reset test failed', error);
+    return { success: false };
+  }
+}
+
+async function runSmsTests() {
+  console.log('\n========================================');
+  console.log('SMS TESTS');
+  console.log('========================================\n');
+
+  const setupSuccess = await setupTestData();
+  if (!setupSuccess) {
+    console.error('Failed to setup test data. Aborting tests.');
+    return false;
+  }
+
+  const results = [];
+
+  const test1 = testLanguage();
+  results.push({ name: 'Language from tenant locale', passed: test1.success });
+
+  const test2 = testBusinessTimezone();
+  results.push({ name: 'Business timezone', passed: test2.success });
+
+  const test3 = testSegmentLength();
+  results.push({ name: 'One SMS segment', passed: test3.success });
+
+  const test4 = testInternationalNumbers();
+  results.push({ name: 'Numbers with a country code', passed: test4.success });
+
+  const test5 = testLocalNumbers();
+  results.push({ name: 'Local numbers', passed: test5.success });
+
+  const test6 = testInvalidNumbers();
+  results.push({ name: 'Invalid numbers', passed: test6.success });
+
+  const test7 = await testLateResetKeepsBillingDay();
+  results.push({ name: 'Late reset keeps the billing day', passed: test7.success });
+
+  const test8 = await testUpcomingResetUntouched();
+  results.push({ name: 'Quotas not due are untouched', passed: test8.success });
+
+  // Cleanup
+  debug.log('CLEANUP', 'Cleaning up SMS test data...');
+  await cleanupTestData(sql);
+
+  console.log('\n========================================');
+  console.log('SMS TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runSmsTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running SMS tests', error);
+    process.exit(1);
+  });
@@ -0,0 +1,129 @@
+import { debug } from './setup';
+import {
+  MAX_NOTIFICATION_ATTEMPTS,
+  getRetryDelayMs,
+  getNextAttemptAt,
+} from '../src/lib/notifications/retry-policy';
+
+/**
+ * Notification Retry Tests
+ *
+ * These tests verify the backoff schedule the notification worker uses to
+ * retry failed notification_logs rows, and when it gives up on them.
+ *
+ * Test Scenarios:
+ * 1. The delay doubles after each failed attempt
+ * 2. The delay is capped at 6 hours
+ * 3. The next attempt is scheduled from the given time
+ * 4. Notifications are dead-lettered once the maximum attempts are used
+ */
+
+const MINUTE = 60 * 1000;
+
+function testDoublingDelay() {
+  debug.log('BACKOFF', 'Computing the delay after each attempt...');
+
+  const expected = [1, 2, 4, 8];
+
+  for (const [index, minutes] of expected.entries()) {
+    const delay = getRetryDelayMs(index + 1);
+    if (delay !== minutes * MINUTE) {
+      debug.error('BACKOFF', `Expected ${minutes} minutes after attempt ${index + 1}, got ${delay}ms`);
+      return { success: false };
+    }
+  }
+
+  debug.success('BACKOFF', 'Delay doubles: 1, 2, 4, 8 minutes');
+  return { success: true };
+}
+
+function testDelayCap() {
+  debug.log('CAP', 'Computing the delay after many attempts...');
+
+  const delay = getRetryDelayMs(20);
+
+  if (delay !== 6 * 60 * MINUTE) {
+    debug.error('CAP', `Expected 6 hours, got ${delay}ms`);
+    return { success: false };
+  }
+
+  debug.success('CAP', 'Delay capped at 6 hours');
+  return { success: true };
+}
+
+function testNextAttemptAt() {
+  debug.log('NEXT_ATTEMPT', 'Scheduling retries from a fixed time...');
+
+  const now = new Date('2025-03-14T10:00:00Z');
+  const first = getNextAttemptAt(1, now)?.toISOString();
+  const third = getNextAttemptAt(3, now)?.toISOString();
+
+  if (first !== '2025-03-14T10:01:00.000Z' || third !== '2025-03-14T10:04:00.000Z') {
+    debug.error('NEXT_ATTEMPT', 'Unexpected retry times', { first, third });
+    return { success: false };
+  }
+
+  debug.success('NEXT_ATTEMPT', 'Retries scheduled from the given time');
+  return { success: true };
+}
+
+function testDeadLetter() {
+  debug.log('DEAD_LETTER', `Scheduling around the ${MAX_NOTIFICATION_ATTEMPTS} attempt limit...`);
+
+  if (getNextAttemptAt(MAX_NOTIFICATION_ATTEMPTS - 1) === null) {
+    debug.error('DEAD_LETTER', 'The last allowed attempt was not scheduled');
+    return { success: false };
+  }
+
+  if (getNextAttemptAt(MAX_NOTIFICATION_ATTEMPTS) !== null || getNextAttemptAt(MAX_NOTIFICATION_ATTEMPTS + 1) !== null) {
+    debug.error('DEAD_LETTER', 'A retry was scheduled past the attempt limit');
+    return { success: false };
+  }
+
+  debug.success('DEAD_LETTER', 'No retry once the attempts are used');
+  return { success: true };
+}
+
+async function runNotificationRetryTests() {
+  console.log('\n========================================');
+  console.log('NOTIFICATION RETRY TESTS');
+  console.log('========================================\n');
+
+  const results = [];
+
+  const test1 = testDoublingDelay();
+  results.push({ name: 'Delay doubles', passed: test1.success });
+
+  const test2 = testDelayCap();
+  results.push({ name: 'Delay capped', passed: test2.success });
+
+  const test3 = testNextAttemptAt();
+  results.push({ name: 'Next attempt time', passed: test3.success });
+
+  const test4 = testDeadLetter();
+  results.push({ name: 'Dead-lettered after max attempts', passed: test4.success });
+
+  console.log('\n========================================');
+  console.log('NOTIFICATION RETRY TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runNotificationRetryTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running notification retry tests', error);
+    process.exit(1);
+  });
@@ -0,0 +1,413 @@
+import { sql, debug, cleanupTestData } from './setup';
+import { nanoid } from 'nanoid';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../src/lib/webhooks/signature';
+import { buildAppointmentEvent, getStatusWebhookEvent } from '../src/lib/webhooks/events';
+import { webhookUrlSchema } from '../src/lib/webhooks/validation';
+import { resolvesToPrivateAddress } from '../src/lib/webhooks/private-address';
+import { WebhookDispatcher } from '../src/lib/webhooks/webhook-dispatcher';
+
+/**
+ * Webhook Tests
+ *
+ * These tests verify payload signing, the event body sent to webhook
+ * endpoints, and that webhooks can't be pointed at our own network.
+ *
+ * Test Scenarios:
+ * 1. A signature verifies with the same secret
+ * 2. A modified body or another secret is rejected
+ * 3. Signatures outside the tolerance window are rejected
+ * 4. Malformed signature headers are rejected
+ * 5. The appointment payload is built, without internal notes
+ * 6. Reschedules include the previous slot
+ * 7. Appointment statuses map to events
+ * 8. Endpoint URLs on loopback, private, link-local or local-only hosts are refused
+ * 9. Private addresses are caught again when the delivery is sent
+ * 10. Deliveries to a private address fail without a request
+ */
+
+const testId = nanoid(8);
+
+const appointment = {
+  id: 'a1b2c3d4-0000-4000-8000-000000000001',
+  booking_id: 'RHV-ABCD-1234',
+  business_id: 'b1b2c3d4-0000-4000-8000-000000000001',
+  service_id: 'c1b2c3d4-0000-4000-8000-000000000001',
+  service_name: 'Haircut',
+  staff_id: null,
+  status: 'confirmed',
+  slot_start: new Date('2025-03-14T14:30:00Z'),
+  slot_end: new Date('2025-03-14T15:00:00Z'),
+  customer_id: null,
+  customer_name: 'Jane Guest',
+  customer_email: 'jane@example.com',
+  customer_phone: '+15555550100',
+  notes: 'Window seat please',
+  payment_status: 'none',
+  deposit_paid_cents: null,
+};
+
+const secret = generateWebhookSecret();
+const body = JSON.stringify({ id: 'evt_1', type: 'booking_created' });
+const now = new Date('2025-03-14T12:00:00Z');
+
+let testBusinessId: string;
+let deliveryId: string;
+
+async function setupTestData() {
+  debug.log('SETUP', 'Creating test business and a webhook to the metadata service...');
+
+  try {
+    testBusinessId = uuidv4();
+
+    await sql`
+      INSERT INTO businesses (
+        id, subdomain, name, timezone, config_yaml_path, config_version, status, subscription_tier
+      )
+      VALUES (
+        ${testBusinessId},
+        ${`test-webhooks-${testId}`},
+        'Webhook Test Business',
+        'UTC',
+        'config/tenants/test-generic.yaml',
+        1,
+        'active',
+        'pro'
+      )
+    `;
+
+    // Inserted directly: the settings API would refuse this URL
+    const [endpoint] = await sql`
+      INSERT INTO webhook_endpoints (business_id, url, secret, events)
+      VALUES (
+        ${testBusinessId},
+        'http://169.254.169.254/latest/meta-data',
+        ${secret},
+        ARRAY['booking_created']::notification_type[]
+      )
+      RETURNING id
+    `;
+
+    const [delivery] = await sql`
+      INSERT INTO webhook_deliveries (endpoint_id, business_id, event_id, event_type, payload)
+      VALUES (${endpoint.id}, ${testBusinessId}, ${uuidv4()}, 'booking_created', ${body}::jsonb)
+      RETURNING id
+    `;
+    deliveryId = delivery.id;
+
+    debug.success('SETUP', 'Test data created', { businessId: testBusinessId, deliveryId });
+    return true;
+  } catch (error) {
+    debug.error('SETUP', 'Failed to create test data', error);
+    return false;
+  }
+}
+
+function testValidSignature() {
+  debug.log('SIGNATURE', 'Signing and verifying a body...');
+
+  const header = signWebhookPayload(secret, body, now);
+
+  if (!/^t=\d+,v1=[0-9a-f]{64}$/.test(header) || !verifyWebhookSignature(secret, header, body, now)) {
+    debug.error('SIGNATURE', 'Signature did not verify', header);
+    return { success: false };
+  }
+
+  debug.success('SIGNATURE', header);
+  return { success: true };
+}
+
+function testTamperedSignature() {
+  debug.log('TAMPERED', 'Verifying a modified body and another secret...');
+
+  const header = signWebhookPayload(secret, body, now);
+
+  if (verifyWebhookSignature(secret, header, body.replace('created', 'canceled'), now)) {
+    debug.error('TAMPERED', 'Modified body accepted');
+    return { success: false };
+  }
+
+  if (verifyWebhookSignature(generateWebhookSecret(), header, body, now)) {
+    debug.error('TAMPERED', 'Signature accepted with another secret');
+    return { success: false };
+  }
+
+  debug.success('TAMPERED', 'Both rejected');
+  return { success: true };
+}
+
+function testSignatureTolerance() {
+  debug.log('TOLERANCE', 'Verifying a signature ten minutes later...');
+
+  const header = signWebhookPayload(secret, body, now);
+  const later = new Date(now.getTime() + 10 * 60 * 1000);
+
+  if (verifyWebhookSignature(secret, header, body, later)) {
+    debug.error('TOLERANCE', 'Old signature accepted');
+    return { success: false };
+  }
+
+  debug.success('TOLERANCE', 'Old signature rejected');
+  return { success: true };
+}
+
+function testMalformedHeader() {
+  debug.log('MALFORMED', 'Verifying malformed headers...');
+
+  if (verifyWebhookSignature(secret, 'garbage', body, now) || verifyWebhookSignature(secret, 't=abc,v1=00', body, now)) {
+    debug.error('MALFORMED', 'Malformed header accepted');
+    return { success: false };
+  }
+
+  debug.success('MALFORMED', 'Malformed headers rejected');
+  return { success: true };
+}
+
+function testAppointmentPayload() {
+  debug.log('PAYLOAD', 'Building a booking_created event...');
+
+  const event = buildAppointmentEvent(
+    'evt_1',
+    'booking_created',
+    { ...appointment, internal_notes: 'VIP' } as typeof appointment,
+    undefined,
+    new Date('2025-03-01T09:00:00Z')
+  );
+
+  if (
+    event.id !== 'evt_1' ||
+    event.type !== 'booking_created' ||
+    event.createdAt !== '2025-03-01T09:00:00.000Z' ||
+    event.businessId !== appointment.business_id ||
+    event.data.appointment.slotStart !== '2025-03-14T14:30:00.000Z' ||
+    event.data.appointment.customer.email !== 'jane@example.com' ||
+    event.data.previous !== undefined
+  ) {
+    debug.error('PAYLOAD', 'Unexpected event', event);
+    return { success: false };
+  }
+
+  if (JSON.stringify(event).includes('VIP')) {
+    debug.error('PAYLOAD', 'Internal notes included in the event', event);
+    return { success: false };
+  }
+
+  debug.success('PAYLOAD', 'Event built without internal notes');
+  return { success: true };
+}
+
+function testPreviousSlot() {
+  debug.log('PREVIOUS_SLOT', 'Building a booking_rescheduled event...');
+
+  const event = buildAppointmentEvent('evt_2', 'booking_rescheduled', appointment, {
+    slotStart: '2025-03-13T10:00:00Z',
+    slotEnd: '2025-03-13T10:30:00Z',
+  });
+  const expected = { slotStart: '2025-03-13T10:00:00.000Z', slotEnd: '2025-03-13T10:30:00.000Z' };
+
+  if (JSON.stringify(event.data.previous) !== JSON.stringify(expected)) {
+    debug.error('PREVIOUS_SLOT', 'Unexpected previous slot', event.data.previous);
+    return { success: false };
+  }
+
+  debug.success('PREVIOUS_SLOT', 'Previous slot included');
+  return { success: true };
+}
+
+function testStatusEvents() {
+  debug.log('STATUS_EVENTS', 'Mapping appointment statuses to events...');
+
+  const cases: Array<[string, string | null]> = [
+    ['canceled', 'booking_canceled'],
+    ['completed', 'appointment_completed'],
+    ['no_show', 'no_show_marked'],
+    ['confirmed', null],
+  ];
+
+  for (const [status, expected] of cases) {
+    const event = getStatusWebhookEvent(status as Parameters<typeof getStatusWebhookEvent>[0]);
+    if (event !== expected) {
+      debug.error('STATUS_EVENTS', `Expected ${expected} for ${status}, got ${event}`);
+      return { success: false };
+    }
+  }
+
+  debug.success('STATUS_EVENTS', 'Statuses mapped');
+  return { success: true };
+}
+
+function testPrivateUrlsRefused() {
+  debug.log('PRIVATE_URLS', 'Validating endpoint URLs on internal hosts...');
+
+  const refused = [
+    'https://localhost/hook',
+    'https://api.localhost/hook',
+    'https://127.0.0.1/hook',
+    'https://2130706433/hook', // 127.0.0.1 as a number
+    'https://10.0.0.5/hook',
+    'https://172.16.8.1/hook',
+    'https://192.168.1.10/hook',
+    'https://169.254.169.254/latest/meta-data',
+    'https://metadata.google.internal/computeMetadata',
+    'https://[::1]/hook',
+    'https://[::ffff:127.0.0.1]/hook',
+    'https://[fd00::1]/hook',
+  ];
+
+  for (const url of refused) {
+    if (webhookUrlSchema.safeParse(url).success) {
+      debug.error('PRIVATE_URLS', `Accepted ${url}`);
+      return { success: false };
+    }
+  }
+
+  if (!webhookUrlSchema.safeParse('https://hooks.example.com/rhivo').success) {
+    debug.error('PRIVATE_URLS', 'Public URL refused');
+    return { success: false };
+  }
+
+  debug.success('PRIVATE_URLS', `${refused.length} internal URLs refused, public URL accepted`);
+  return { success: true };
+}
+
+async function testResolvedAddressChecked() {
+  debug.log('RESOLVED', 'Checking names and addresses at send time...');
+
+  try {
+    const checks: Array<[string, boolean]> = [
+      ['localhost', true],
+      ['169.254.169.254', true],
+      ['[::1]', true],
+      ['8.8.8.8', false],
+      ['[2001:4860:4860::8888]', false],
+    ];
+
+    for (const [hostname, expected] of checks) {
+      const isPrivate = await resolvesToPrivateAddress(hostname);
+      if (isPrivate !== expected) {
+        debug.error('RESOLVED', `Expected ${expected} for ${hostname}, got ${isPrivate}`);
+        return { success: false };
+      }
+    }
+
+    debug.success('RESOLVED', 'Private addresses caught');
+    return { success: true };
+  } catch (error) {
+    debug.error('RESOLVED', 'Address check failed', error);
+    return { success: false };
+  }
+}
+
+async function testPrivateDeliveryNotSent() {
+  debug.log('PRIVATE_DELIVERY', 'Dispatching the delivery to the metadata service...');
+
+  // Record any request the dispatcher makes
+  const originalFetch = globalThis.fetch;
+  const requested: string[] = [];
+  globalThis.fetch = (async (url: string | URL | Request) => {
+    requested.push(String(url));
+    return new Response('{"secret":"metadata"}', { status: 200 });
+  }) as typeof fetch;
+
+  try {
+    await new WebhookDispatcher(sql).processBatch();
+
+    const [delivery] = await sql`
+      SELECT status, response_status, error_message FROM webhook_deliveries WHERE id = ${deliveryId}
+    `;
+
+    if (requested.some(url => url.includes('169.254.169.254'))) {
+      debug.error('PRIVATE_DELIVERY', 'Request sent to the metadata service', requested);
+      return { success: false };
+    }
+
+    if (delivery.status !== 'failed' || delivery.response_status !== null || !delivery.error_message?.includes('private')) {
+      debug.error('PRIVATE_DELIVERY', 'Expected the delivery to fail without retries', delivery);
+      return { success: false };
+    }
+
+    debug.success('PRIVATE_DELIVERY', delivery.error_message);
+    return { success: true };
+  } catch (error) {
+    debug.error('PRIVATE_DELIVERY', 'Dispatch test failed', error);
+    return { success: false };
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+async function runWebhookTests() {
+  console.log('\n========================================');
+  console.log('WEBHOOK TESTS');
+  console.log('========================================\n');
+
+  const setupSuccess = await setupTestData();
+  if (!setupSuccess) {
+    console.error('Failed to setup test data. Aborting tests.');
+    return false;
+  }
+
+  const results = [];
+
+  const test1 = testValidSignature();
+  results.push({ name: 'Valid signature', passed: test1.success });
+
+  const test2 = testTamperedSignature();
+  results.push({ name: 'Modified body or other secret', passed: test2.success });
+
+  const test3 = testSignatureTolerance();
+  results.push({ name: 'Signature tolerance window', passed: test3.success });
+
+  const test4 = testMalformedHeader();
+  results.push({ name: 'Malformed header', passed: test4.success });
+
+  const test5 = testAppointmentPayload();
+  results.push({ name: 'Appointment payload', passed: test5.success });
+
+  const test6 = testPreviousSlot();
+  results.push({ name: 'Previous slot on reschedule', passed: test6.success });
+
+  const test7 = testStatusEvents();
+  results.push({ name: 'Status events', passed: test7.success });
+
+  const test8 = testPrivateUrlsRefused();
+  results.push({ name: 'Internal URLs refused', passed: test8.success });
+
+  const test9 = await testResolvedAddressChecked();
+  results.push({ name: 'Resolved addresses checked', passed: test9.success });
+
+  const test10 = await testPrivateDeliveryNotSent();
+  results.push({ name: 'Private delivery not sent', passed: test10.success });
+
+  // Cleanup
+  debug.log('CLEANUP', 'Cleaning up webhook test data...');
+  await cleanupTestData(sql);
+
+  console.log('\n========================================');
+  console.log('WEBHOOK TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runWebhookTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running webhook tests', error);
+    process.exit(1);
+  });
@@ -0,0 +1,271 @@
+import { debug } from './setup';
+import {
+  API_KEY_PREFIX,
+  generateApiKey,
+  hashApiKey,
+  hasApiKeyScope,
+  isApiKeyFormat,
+} from '../src/lib/public-api/keys';
+import {
+  createAppointmentSchema,
+  listAppointmentsQuerySchema,
+} from '../src/lib/public-api/schemas';
+import { buildOpenApiDocument } from '../src/lib/public-api/openapi';
+
+/**
+ * Public API Tests
+ *
+ * These tests verify API key generation and scopes, the v1 request schemas
+ * and the generated OpenAPI document.
+ *
+ * Test Scenarios:
+ * 1. Keys are generated in the documented format, stored as a hash
+ * 2. Every key is different
+ * 3. Values that are not API keys are rejected
+ * 4. Write keys can read, read keys can't write
+ * 5. Pagination is coerced, defaulted and capped
+ * 6. Booking requires a guest, a start time and an idempotency key
+ * 7. The OpenAPI document describes every v1 route
+ * 8. Query parameters are taken from the zod schemas
+ * 9. The booking body is taken from the zod schema
+ */
+
+const document = buildOpenApiDocument('https://rhivo.app') as {
+  servers: Array<{ url: string }>;
+  paths: Record<string, Record<string, {
+    parameters: Array<{ name: string; in: string; required: boolean }>;
+    requestBody?: { content: Record<string, { schema: { required?: string[] } }> };
+  }>>;
+};
+
+function testKeyFormat() {
+  debug.log('KEY_FORMAT', 'Generating an API key...');
+
+  const { key, prefix, hash } = generateApiKey();
+
+  if (!key.startsWith(API_KEY_PREFIX) || !isApiKeyFormat(key)) {
+    debug.error('KEY_FORMAT', `Key not in the documented format: ${key}`);
+    return { success: false };
+  }
+
+  if (!key.startsWith(prefix) || prefix.length >= key.length || hash !== hashApiKey(key)) {
+    debug.error('KEY_FORMAT', 'Unexpected prefix or hash', { prefix, hash });
+    return { success: false };
+  }
+
+  debug.success('KEY_FORMAT', `Key generated, shown as ${prefix}...`);
+  return { success: true };
+}
+
+function testUniqueKeys() {
+  debug.log('UNIQUE_KEYS', 'Generating two keys...');
+
+  if (generateApiKey().key === generateApiKey().key) {
+    debug.error('UNIQUE_KEYS', 'The same key was generated twice');
+    return { success: false };
+  }
+
+  debug.success('UNIQUE_KEYS', 'Keys differ');
+  return { success: true };
+}
+
+function testNotApiKeys() {
+  debug.log('NOT_KEYS', 'Checking values that are not API keys...');
+
+  for (const value of ['', 'whsec_abc', `${API_KEY_PREFIX}xyz`]) {
+    if (isApiKeyFormat(value)) {
+      debug.error('NOT_KEYS', `Accepted ${value}`);
+      return { success: false };
+    }
+  }
+
+  debug.success('NOT_KEYS', 'Rejected');
+  return { success: true };
+}
+
+function testScopes() {
+  debug.log('SCOPES', 'Checking key scopes...');
+
+  if (!hasApiKeyScope(['read'], 'read') || !hasApiKeyScope(['write'], 'read') || !hasApiKeyScope(['read', 'write'], 'write')) {
+    debug.error('SCOPES', 'A key was refused a scope it has');
+    return { success: false };
+  }
+
+  if (hasApiKeyScope(['read'], 'write')) {
+    debug.error('SCOPES', 'A read key was allowed to write');
+    return { success: false };
+  }
+
+  debug.success('SCOPES', 'Write keys read, read keys only read');
+  return { success: true };
+}
+
+function testPagination() {
+  debug.log('PAGINATION', 'Parsing list query params...');
+
+  const query = listAppointmentsQuerySchema.parse({ limit: '20', offset: '40', status: 'canceled' });
+  const defaults = listAppointmentsQuerySchema.parse({});
+
+  if (query.limit !== 20 || query.offset !== 40) {
+    debug.error('PAGINATION', 'Query params not coerced', query);
+    return { success: false };
+  }
+
+  if (defaults.limit !== 50 || defaults.offset !== 0) {
+    debug.error('PAGINATION', 'Unexpected defaults', defaults);
+    return { success: false };
+  }
+
+  if (listAppointmentsQuerySchema.safeParse({ limit: '1000' }).success) {
+    debug.error('PAGINATION', 'Page size not capped');
+    return { success: false };
+  }
+
+  debug.success('PAGINATION', 'Coerced, defaulted and capped');
+  return { success: true };
+}
+
+function testBookingBody() {
+  debug.log('BOOKING_BODY', 'Validating appointment bodies...');
+
+  const valid = {
+    serviceId: 'haircut',
+    startTime: '2025-03-14T14:30:00Z',
+    idempotencyKey: 'order-42',
+    guestName: 'Jane Guest',
+    guestEmail: 'jane@example.com',
+  };
+
+  if (!createAppointmentSchema.safeParse(valid).success || !createAppointmentSchema.safeParse({ ...valid, staffId: 'any' }).success) {
+    debug.error('BOOKING_BODY', 'Valid body rejected');
+    return { success: false };
+  }
+
+  if (
+    createAppointmentSchema.safeParse({ ...valid, guestEmail: undefined }).success ||
+    createAppointmentSchema.safeParse({ ...valid, startTime: undefined }).success
+  ) {
+    debug.error('BOOKING_BODY', 'Body without a guest email or start time accepted');
+    return { success: false };
+  }
+
+  debug.success('BOOKING_BODY', 'Required fields enforced');
+  return { success: true };
+}
+
+function testOpenApiRoutes() {
+  debug.log('OPENAPI_ROUTES', 'Listing documented routes...');
+
+  const paths = JSON.stringify(Object.keys(document.paths).sort());
+  const expected = JSON.stringify([
+    '/appointments',
+    '/appointments/{id}',
+    '/appointments/{id}/cancel',
+    '/availability',
+    '/customers',
+    '/services',
+  ]);
+
+  if (paths !== expected || document.servers[0].url !== 'https://rhivo.app/api/v1') {
+    debug.error('OPENAPI_ROUTES', `Unexpected routes or server: ${paths}`, document.servers);
+    return { success: false };
+  }
+
+  debug.success('OPENAPI_ROUTES', 'Every v1 route documented');
+  return { success: true };
+}
+
+function testOpenApiQueryParams() {
+  debug.log('OPENAPI_QUERY', 'Reading the availability parameters...');
+
+  const parameters = document.paths['/availability'].get.parameters;
+  const byName = Object.fromEntries(parameters.map(p => [p.name, p]));
+
+  if (!byName.serviceId?.required || !byName.startDate?.required || byName.endDate?.required !== false) {
+    debug.error('OPENAPI_QUERY', 'Unexpected required flags', parameters);
+    return { success: false };
+  }
+
+  // The business comes from the API key
+  if (byName.subdomain) {
+    debug.error('OPENAPI_QUERY', 'subdomain documented as a parameter');
+    return { success: false };
+  }
+
+  debug.success('OPENAPI_QUERY', 'Parameters match the schema');
+  return { success: true };
+}
+
+function testOpenApiBody() {
+  debug.log('OPENAPI_BODY', 'Reading the booking request body...');
+
+  const required = document.paths['/appointments'].post.requestBody?.content['application/json'].schema.required ?? [];
+  const missing = ['serviceId', 'startTime', 'idempotencyKey', 'guestEmail'].filter(field => !required.includes(field));
+
+  if (missing.length > 0) {
+    debug.error('OPENAPI_BODY', `Fields not marked required: ${missing.join(', ')}`);
+    return { success: false };
+  }
+
+  debug.success('OPENAPI_BODY', 'Body matches the schema');
+  return { success: true };
+}
+
+async function runPublicApiTests() {
+  console.log('\n========================================');
+  console.log('PUBLIC API TESTS');
+  console.log('========================================\n');
+
+  const results = [];
+
+  const test1 = testKeyFormat();
+  results.push({ name: 'Key format', passed: test1.success });
+
+  const test2 = testUniqueKeys();
+  results.push({ name: 'Unique keys', passed: test2.success });
+
+  const test3 = testNotApiKeys();
+  results.push({ name: 'Non-keys rejected', passed: test3.success });
+
+  const test4 = testScopes();
+  results.push({ name: 'Key scopes', passed: test4.success });
+
+  const test5 = testPagination();
+  results.push({ name: 'Pagination', passed: test5.success });
+
+  const test6 = testBookingBody();
+  results.push({ name: 'Booking body', passed: test6.success });
+
+  const test7 = testOpenApiRoutes();
+  results.push({ name: 'OpenAPI routes', passed: test7.success });
+
+  const test8 = testOpenApiQueryParams();
+  results.push({ name: 'OpenAPI query parameters', passed: test8.success });
+
+  const test9 = testOpenApiBody();
+  results.push({ name: 'OpenAPI request body', passed: test9.success });
+
+  console.log('\n========================================');
+  console.log('PUBLIC API TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runPublicApiTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running public API tests', error);
+    process.exit(1);
+  });
@@ -0,0 +1,242 @@
+import { debug } from './setup';
+import {
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsLocal,
+  formatIcsUtc,
+  getAppointmentIcsFilename,
+} from '../src/lib/calendar/ics';
+import { appointmentToIcsEvent, buildAppointmentIcs } from '../src/lib/calendar/appointments';
+
+/**
+ * iCalendar Tests
+ *
+ * These tests verify text escaping, line folding, timezone-local event times
+ * and the appointment events used by feeds, email attachments and downloads.
+ *
+ * Test Scenarios:
+ * 1. Special characters are escaped
+ * 2. Long lines are folded to 75 octets without splitting characters
+ * 3. UTC and business-local times are formatted across DST
+ * 4. A calendar carries the business timezone and its events
+ * 5. Cancellations are emitted as STATUS:CANCELLED
+ * 6. Customers see the service at the business, under the same UID
+ * 7. File names are built safely from the booking id
+ */
+
+const appointment = {
+  id: '6f1c2d3e-0000-4000-8000-000000000001',
+  bookingId: 'RIV-2025-AB12',
+  serviceName: 'Haircut',
+  businessName: 'Salon Rossi',
+  start: '2025-07-15T08:00:00.000Z',
+  end: '2025-07-15T08:45:00.000Z',
+  status: 'confirmed',
+  customerName: 'Maria Bianchi',
+  version: 2,
+};
+
+// Compare actual values with expected ones, logging the first mismatch
+function expectEqual(scope: string, cases: Array<[string, unknown, unknown]>) {
+  for (const [label, actual, expected] of cases) {
+    if (actual !== expected) {
+      debug.error(scope, `${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+      return false;
+    }
+  }
+  return true;
+}
+
+function testEscaping() {
+  debug.log('ESCAPING', 'Escaping text values...');
+
+  const passed = expectEqual('ESCAPING', [
+    ['separators', escapeIcsText('Cut, wash; dry\\style'), 'Cut\\, wash\\; dry\\\\style'],
+    ['line breaks', escapeIcsText('line one\nline two\r\nline three'), 'line one\\nline two\\nline three'],
+  ]);
+  if (!passed) return { success: false };
+
+  debug.success('ESCAPING', 'Commas, semicolons, backslashes and newlines escaped');
+  return { success: true };
+}
+
+function testFolding() {
+  debug.log('FOLDING', 'Folding long lines...');
+
+  if (foldIcsLine('SUMMARY:Haircut') !== 'SUMMARY:Haircut') {
+    debug.error('FOLDING', 'Short line changed');
+    return { success: false };
+  }
+
+  for (const value of [`DESCRIPTION:${'a'.repeat(200)}`, `SUMMARY:${'è'.repeat(60)}`]) {
+    const lines = foldIcsLine(value).split('\r\n');
+    const unfolded = lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('');
+
+    if (lines.length < 2 || lines.some(line => new TextEncoder().encode(line).length > 75)) {
+      debug.error('FOLDING', 'Line not folded to 75 octets', lines);
+      return { success: false };
+    }
+
+    if (lines.slice(1).some(line => !line.startsWith(' ')) || unfolded !== value) {
+      debug.error('FOLDING', 'Folded lines do not unfold to the original value', lines);
+      return { success: false };
+    }
+  }
+
+  debug.success('FOLDING', 'Folded on octets, multi-byte characters kept whole');
+  return { success: true };
+}
+
+function testDateTimes() {
+  debug.log('DATE_TIMES', 'Formatting UTC and local times...');
+
+  const passed = expectEqual('DATE_TIMES', [
+    ['UTC', formatIcsUtc(new Date('2025-01-05T09:03:07Z')), '20250105T090307Z'],
+    ['Rome winter', formatIcsLocal(new Date('2025-01-15T09:00:00Z'), 'Europe/Rome'), '20250115T100000'],
+    ['Rome summer', formatIcsLocal(new Date('2025-07-15T08:00:00Z'), 'Europe/Rome'), '20250715T100000'],
+    ['New York', formatIcsLocal(new Date('2025-07-15T04:30:00Z'), 'America/New_York'), '20250715T003000'],
+  ]);
+  if (!passed) return { success: false };
+
+  debug.success('DATE_TIMES', 'Times formatted in the business timezone');
+  return { success: true };
+}
+
+function testCalendar() {
+  debug.log('CALENDAR', 'Building a business calendar...');
+
+  const ics = buildIcsCalendar({
+    timezone: 'Europe/Rome',
+    name: 'Salon Rossi',
+    refreshIntervalMinutes: 30,
+    events: [appointmentToIcsEvent(appointment, 'business')],
+  }, new Date('2025-07-01T12:00:00Z'));
+
+  if (!ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n') || !ics.endsWith('END:VCALENDAR\r\n')) {
+    debug.error('CALENDAR', 'Calendar not wrapped in VCALENDAR', ics);
+    return { success: false };
+  }
+
+  const expectedLines = [
+    'X-WR-TIMEZONE:Europe/Rome',
+    'X-WR-CALNAME:Salon Rossi',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT30M',
+    'DTSTAMP:20250701T120000Z',
+    'DTSTART;TZID=Europe/Rome:20250715T100000',
+    'DTEND;TZID=Europe/Rome:20250715T104500',
+    `UID:${appointment.id}@rhivo.app`,
+    'SUMMARY:Haircut - Maria Bianchi',
+    'SEQUENCE:2',
+    'STATUS:CONFIRMED',
+  ];
+  const missing = expectedLines.filter(line => !ics.includes(line));
+
+  if (missing.length > 0) {
+    debug.error('CALENDAR', `Missing lines: ${missing.join(', ')}`, ics);
+    return { success: false };
+  }
+
+  if (ics.split('\r\n').filter(line => line === 'BEGIN:VEVENT').length !== 1) {
+    debug.error('CALENDAR', 'Expected exactly one event', ics);
+    return { success: false };
+  }
+
+  debug.success('CALENDAR', 'Calendar built with one event');
+  return { success: true };
+}
+
+function testCancellation() {
+  debug.log('CANCELLATION', 'Building a canceled appointment...');
+
+  const ics = buildAppointmentIcs({ ...appointment, status: 'canceled' }, 'Europe/Rome');
+
+  if (!ics.includes('STATUS:CANCELLED')) {
+    debug.error('CANCELLATION', 'Expected STATUS:CANCELLED', ics);
+    return { success: false };
+  }
+
+  debug.success('CANCELLATION', 'Cancellation emitted');
+  return { success: true };
+}
+
+function testCustomerEvent() {
+  debug.log('CUSTOMER_EVENT', 'Building the customer view of an appointment...');
+
+  const event = appointmentToIcsEvent(appointment, 'customer');
+  const passed = expectEqual('CUSTOMER_EVENT', [
+    ['summary', event.summary, 'Haircut at Salon Rossi'],
+    ['booking id', event.description?.includes('Booking ID: RIV-2025-AB12'), true],
+    ['uid', event.uid, appointmentToIcsEvent(appointment, 'business').uid],
+  ]);
+  if (!passed) return { success: false };
+
+  debug.success('CUSTOMER_EVENT', 'Customer event shares the business UID');
+  return { success: true };
+}
+
+function testFilename() {
+  debug.log('FILENAME', 'Building download file names...');
+
+  const passed = expectEqual('FILENAME', [
+    ['booking id', getAppointmentIcsFilename('RIV-2025-AB12'), 'appointment-RIV-2025-AB12.ics'],
+    ['path characters', getAppointmentIcsFilename('../x/y'), 'appointment-xy.ics'],
+  ]);
+  if (!passed) return { success: false };
+
+  debug.success('FILENAME', 'Path characters stripped');
+  return { success: true };
+}
+
+async function runIcsTests() {
+  console.log('\n========================================');
+  console.log('ICALENDAR TESTS');
+  console.log('========================================\n');
+
+  const results = [];
+
+  const test1 = testEscaping();
+  results.push({ name: 'Text escaping', passed: test1.success });
+
+  const test2 = testFolding();
+  results.push({ name: 'Line folding', passed: test2.success });
+
+  const test3 = testDateTimes();
+  results.push({ name: 'Date-time values', passed: test3.success });
+
+  const test4 = testCalendar();
+  results.push({ name: 'Business calendar', passed: test4.success });
+
+  const test5 = testCancellation();
+  results.push({ name: 'Cancellations', passed: test5.success });
+
+  const test6 = testCustomerEvent();
+  results.push({ name: 'Customer event', passed: test6.success });
+
+  const test7 = testFilename();
+  results.push({ name: 'Safe file names', passed: test7.success });
+
+  console.log('\n========================================');
+  console.log('ICALENDAR TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runIcsTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running iCalendar tests', error);
+    process.exit(1);
+  });
@@ -0,0 +1,410 @@
+import { debug, expectJson } from './setup';
+import {
+  parseIcsBusyEvents,
+  parseIcsDateTime,
+  parseIcsDuration,
+  unfoldIcsLines,
+} from '../src/lib/calendar/ics-parser';
+import { externalCalendarUrlSchema } from '../src/lib/calendar/external-calendar-service';
+import { generateOffTimeIntervals, isTimeAvailable } from '../src/lib/booking/off-time-system';
+import { TenantConfig } from '../src/lib/config/tenant-schema';
+
+/**
+ * iCalendar Parser Tests
+ *
+ * These tests verify how external calendars become busy time: timezones,
+ * all-day and free events, recurrence expansion with exceptions, and the
+ * merge into off-time used by slot generation and booking validation.
+ *
+ * Test Scenarios:
+ * 1. Continuation lines are unfolded
+ * 2. UTC, TZID and floating times are parsed
+ * 3. DATE values are all-day in the business timezone
+ * 4. Durations are parsed
+ * 5. Single events are read with DTEND or DURATION
+ * 6. All-day events block the whole day
+ * 7. Cancelled, free and out-of-range events are skipped
+ * 8. Weekly rules are expanded in the event timezone
+ * 9. Wall-clock time is kept across a DST change
+ * 10. EXDATE and moved occurrences are honoured
+ * 11. Monthly rules on a weekday are expanded
+ * 12. Rules that started long ago reach the range
+ * 13. Busy time becomes external_busy off-time blocking overlapping slots only
+ * 14. Busy time on other days is ignored
+ * 15. Calendar URLs on private or local-only hosts are refused
+ */
+
+const range = {
+  rangeStart: new Date('2025-07-01T00:00:00.000Z'),
+  rangeEnd: new Date('2025-08-01T00:00:00.000Z'),
+  timezone: 'Europe/Rome',
+};
+
+const ALL_DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const busy = [{ start: new Date('2025-07-15T10:00:00.000Z'), end: new Date('2025-07-15T11:00:00.000Z') }];
+
+function calendar(...events: string[][]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+function buildConfig(): TenantConfig {
+  return {
+    business: { timezone: 'Europe/Rome' },
+    availability: ALL_DAYS.map(day => ({ day, enabled: true, slots: [{ open: '09:00', close: '18:00' }] })),
+    availabilityExceptions: [],
+  } as unknown as TenantConfig;
+}
+
+function testUnfolding() {
+  debug.log('UNFOLD', 'Unfolding a continuation line...');
+
+  return expectJson(
+    'UNFOLD',
+    unfoldIcsLines('SUMMARY:Dentist app\r\n ointment\r\nEND:VEVENT'),
+    ['SUMMARY:Dentist appointment', 'END:VEVENT'],
+    'Continuation joined'
+  );
+}
+
+function testDateTimes() {
+  debug.log('DATE_TIMES', 'Parsing UTC, TZID and floating times...');
+
+  const parse = (value: string, params: Record<string, string>) =>
+    parseIcsDateTime(value, params, 'Europe/Rome')?.date.toISOString();
+
+  // Floating and unknown TZIDs use the business timezone
+  return expectJson(
+    'DATE_TIMES',
+    [
+      parse('20250715T080000Z', {}),
+      parse('20250715T100000', { TZID: 'America/New_York' }),
+      parse('20250715T100000', {}),
+      parse('20250715T100000', { TZID: 'Not/AZone' }),
+    ],
+    ['2025-07-15T08:00:00.000Z', '2025-07-15T14:00:00.000Z', '2025-07-15T08:00:00.000Z', '2025-07-15T08:00:00.000Z'],
+    'Times parsed, unknown zones fall back to the business timezone'
+  );
+}
+
+function testAllDayValue() {
+  debug.log('DATE_VALUE', 'Parsing a DATE value...');
+
+  const parsed = parseIcsDateTime('20250715', { VALUE: 'DATE' }, 'Europe/Rome');
+
+  return expectJson(
+    'DATE_VALUE',
+    [parsed?.allDay, parsed?.date.toISOString()],
+    [true, '2025-07-14T22:00:00.000Z'],
+    'Midnight in Rome, marked all-day'
+  );
+}
+
+function testDurations() {
+  debug.log('DURATIONS', 'Parsing durations...');
+
+  return expectJson(
+    'DURATIONS',
+    ['PT1H30M', 'P1D', 'P1W', 'bogus'].map(parseIcsDuration),
+    [90 * 60 * 1000, 24 * 60 * 60 * 1000, 7 * 24 * 60 * 60 * 1000, null],
+    'Durations parsed, invalid ones rejected'
+  );
+}
+
+function testSingleEvents() {
+  debug.log('SINGLE_EVENTS', 'Reading events with DTEND and DURATION...');
+
+  const events = parseIcsBusyEvents(calendar(
+    ['UID:a', 'SUMMARY:Dentist', 'DTSTART:20250715T080000Z', 'DTEND:20250715T090000Z'],
+    ['UID:b', 'DTSTART;TZID=Europe/Rome:20250716T150000', 'DURATION:PT45M'],
+  ), range);
+
+  return expectJson(
+    'SINGLE_EVENTS',
+    events.map(e => [e.start.toISOString(), e.end.toISOString(), e.summary]),
+    [
+      ['2025-07-15T08:00:00.000Z', '2025-07-15T09:00:00.000Z', 'Dentist'],
+      ['2025-07-16T13:00:00.000Z', '2025-07-16T13:45:00.000Z', null],
+    ],
+    'Both events read'
+  );
+}
+
+function testAllDayEvents() {
+  debug.log('ALL_DAY', 'Reading an all-day event...');
+
+  const events = parseIcsBusyEvents(calendar(
+    ['UID:a', 'SUMMARY:Holiday', 'DTSTART;VALUE=DATE:20250715', 'DTEND;VALUE=DATE:20250716'],
+  ), range);
+
+  return expectJson(
+    'ALL_DAY',
+    events.map(e => [e.start.toISOString(), e.end.toISOString()]),
+    [['2025-07-14T22:00:00.000Z', '2025-07-15T22:00:00.000Z']],
+    'Whole day blocked in the business timezone'
+  );
+}
+
+function testSkippedEvents() {
+  debug.log('SKIPPED', 'Reading cancelled, free and out-of-range events...');
+
+  const events = parseIcsBusyEvents(calendar(
+    ['UID:a', 'STATUS:CANCELLED', 'DTSTART:20250715T080000Z', 'DTEND:20250715T090000Z'],
+    ['UID:b', 'TRANSP:TRANSPARENT', 'DTSTART:20250715T100000Z', 'DTEND:20250715T110000Z'],
+    ['UID:c', 'DTSTART:20250615T080000Z', 'DTEND:20250615T090000Z'],
+    ['UID:d', 'DTSTART:20250815T080000Z', 'DTEND:20250815T090000Z'],
+  ), range);
+
+  return expectJson('SKIPPED', events, [], 'None of them is busy time');
+}
+
+function testWeeklyRule() {
+  debug.log('WEEKLY', 'Expanding a weekly rule...');
+
+  const events = parseIcsBusyEvents(calendar([
+    'UID:gym',
+    'DTSTART;TZID=Europe/Rome:20250707T180000',
+    'DTEND;TZID=Europe/Rome:20250707T190000',
+    'RRULE:FREQ=WEEKLY;BYDAY=MO,TH;COUNT=4',
+  ]), range);
+
+  return expectJson(
+    'WEEKLY',
+    events.map(e => e.start.toISOString()),
+    ['2025-07-07T16:00:00.000Z', '2025-07-10T16:00:00.000Z', '2025-07-14T16:00:00.000Z', '2025-07-17T16:00:00.000Z'],
+    'Four occurrences on Mondays and Thursdays'
+  );
+}
+
+function testDstChange() {
+  debug.log('DST', 'Expanding a weekly rule across the October clock change...');
+
+  const events = parseIcsBusyEvents(calendar([
+    'UID:school-run',
+    'DTSTART;TZID=Europe/Rome:20251020T080000',
+    'DTEND;TZID=Europe/Rome:20251020T083000',
+    'RRULE:FREQ=WEEKLY;UNTIL=20251104T000000Z',
+  ]), {
+    rangeStart: new Date('2025-10-01T00:00:00.000Z'),
+    rangeEnd: new Date('2025-11-30T00:00:00.000Z'),
+    timezone: 'Europe/Rome',
+  });
+
+  // Clocks go back on 26 October: 08:00 is 06:00Z before and 07:00Z after
+  return expectJson(
+    'DST',
+    events.map(e => e.start.toISOString()),
+    ['2025-10-20T06:00:00.000Z', '2025-10-27T07:00:00.000Z', '2025-11-03T07:00:00.000Z'],
+    'Still 08:00 in Rome after the change'
+  );
+}
+
+function testExceptions() {
+  debug.log('EXCEPTIONS', 'Expanding a daily rule with EXDATE and a moved occurrence...');
+
+  const events = parseIcsBusyEvents(calendar(
+    [
+      'UID:standup',
+      'DTSTART:20250701T070000Z',
+      'DTEND:20250701T073000Z',
+      'RRULE:FREQ=DAILY;COUNT=4',
+      'EXDATE:20250702T070000Z',
+    ],
+    [
+      'UID:standup',
+      'RECURRENCE-ID:20250703T070000Z',
+      'DTSTART:20250703T120000Z',
+      'DTEND:20250703T123000Z',
+    ],
+  ), range);
+
+  return expectJson(
+    'EXCEPTIONS',
+    events.map(e => e.start.toISOString()),
+    ['2025-07-01T07:00:00.000Z', '2025-07-03T12:00:00.000Z', '2025-07-04T07:00:00.000Z'],
+    'Excluded day dropped, moved occurrence at its new time'
+  );
+}
+
+function testMonthlyRule() {
+  debug.log('MONTHLY', 'Expanding a last-Friday-of-the-month rule...');
+
+  const events = parseIcsBusyEvents(calendar([
+    'UID:review',
+    'DTSTART:20250131T090000Z',
+    'DTEND:20250131T100000Z',
+    'RRULE:FREQ=MONTHLY;BYDAY=-1FR',
+  ]), {
+    rangeStart: new Date('2025-06-01T00:00:00.000Z'),
+    rangeEnd: new Date('2025-09-01T00:00:00.000Z'),
+    timezone: 'UTC',
+  });
+
+  return expectJson(
+    'MONTHLY',
+    events.map(e => e.start.toISOString().slice(0, 10)),
+    ['2025-06-27', '2025-07-25', '2025-08-29'],
+    'Last Friday of each month'
+  );
+}
+
+function testOldRule() {
+  debug.log('OLD_RULE', 'Expanding a daily rule from 1990...');
+
+  const events = parseIcsBusyEvents(calendar([
+    'UID:old',
+    'DTSTART:19900101T090000Z',
+    'DTEND:19900101T100000Z',
+    'RRULE:FREQ=DAILY',
+  ]), range);
+
+  return expectJson(
+    'OLD_RULE',
+    [events.length, events[0]?.start.toISOString()],
+    [31, '2025-07-01T09:00:00.000Z'],
+    'Every day of July'
+  );
+}
+
+function testOffTimeMerge() {
+  debug.log('OFF_TIME', 'Merging busy time into off-time...');
+
+  const offTimes = generateOffTimeIntervals(
+    buildConfig(),
+    new Date('2025-07-15T00:00:00.000Z'),
+    new Date('2025-07-15T23:59:59.000Z'),
+    'Europe/Rome',
+    busy
+  );
+  const external = offTimes.filter(o => o.type === 'external_busy');
+
+  if (external.length !== 1 || external[0].reason !== 'Busy time') {
+    debug.error('OFF_TIME', 'Expected one external_busy interval', external);
+    return { success: false };
+  }
+
+  const overlapping = isTimeAvailable(new Date('2025-07-15T10:30:00.000Z'), new Date('2025-07-15T11:30:00.000Z'), offTimes);
+  const after = isTimeAvailable(new Date('2025-07-15T11:00:00.000Z'), new Date('2025-07-15T12:00:00.000Z'), offTimes);
+
+  return expectJson('OFF_TIME', [overlapping, after], [false, true], 'Only overlapping slots blocked');
+}
+
+function testOtherDays() {
+  debug.log('OTHER_DAYS', 'Generating off-time for the next day...');
+
+  const offTimes = generateOffTimeIntervals(
+    buildConfig(),
+    new Date('2025-07-16T00:00:00.000Z'),
+    new Date('2025-07-16T23:59:59.000Z'),
+    'Europe/Rome',
+    busy
+  );
+
+  return expectJson(
+    'OTHER_DAYS',
+    offTimes.some(o => o.type === 'external_busy'),
+    false,
+    'No busy time on other days'
+  );
+}
+
+function testPrivateUrls() {
+  debug.log('PRIVATE_URL', 'Validating calendar URLs on private hosts...');
+
+  const urls = [
+    'webcal://calendar.example.com/feed.ics',
+    'https://127.0.0.1/feed.ics',
+    'webcal://169.254.169.254/latest/meta-data',
+    'https://[::1]/feed.ics',
+    'https://metadata.google.internal/feed.ics',
+  ];
+
+  return expectJson(
+    'PRIVATE_URL',
+    urls.map(url => externalCalendarUrlSchema.safeParse(url).success),
+    [true, false, false, false, false],
+    'Only the public host accepted'
+  );
+}
+
+async function runIcsParserTests() {
+  console.log('\n========================================');
+  console.log('ICALENDAR PARSER TESTS');
+  console.log('========================================\n');
+
+  const results = [];
+
+  const test1 = testUnfolding();
+  results.push({ name: 'Unfolding', passed: test1.success });
+
+  const test2 = testDateTimes();
+  results.push({ name: 'UTC, TZID and floating times', passed: test2.success });
+
+  const test3 = testAllDayValue();
+  results.push({ name: 'DATE values', passed: test3.success });
+
+  const test4 = testDurations();
+  results.push({ name: 'Durations', passed: test4.success });
+
+  const test5 = testSingleEvents();
+  results.push({ name: 'Single events', passed: test5.success });
+
+  const test6 = testAllDayEvents();
+  results.push({ name: 'All-day events', passed: test6.success });
+
+  const test7 = testSkippedEvents();
+  results.push({ name: 'Cancelled, free and out-of-range events', passed: test7.success });
+
+  const test8 = testWeeklyRule();
+  results.push({ name: 'Weekly rules', passed: test8.success });
+
+  const test9 = testDstChange();
+  results.push({ name: 'DST change', passed: test9.success });
+
+  const test10 = testExceptions();
+  results.push({ name: 'EXDATE and moved occurrences', passed: test10.success });
+
+  const test11 = testMonthlyRule();
+  results.push({ name: 'Monthly weekday rules', passed: test11.success });
+
+  const test12 = testOldRule();
+  results.push({ name: 'Old rules', passed: test12.success });
+
+  const test13 = testOffTimeMerge();
+  results.push({ name: 'Off-time merge', passed: test13.success });
+
+  const test14 = testOtherDays();
+  results.push({ name: 'Busy time on other days', passed: test14.success });
+
+  const test15 = testPrivateUrls();
+  results.push({ name: 'Private calendar URLs', passed: test15.success });
+
+  console.log('\n========================================');
+  console.log('ICALENDAR PARSER TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runIcsParserTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running iCalendar parser tests', error);
+    process.exit(1);
+  });
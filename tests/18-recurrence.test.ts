@@ -0,0 +1,230 @@
+import { debug, expectJson } from './setup';
+import {
+  generateSeriesOccurrences,
+  getSeriesShift,
+  shiftOccurrence,
+  recurrenceRuleSchema,
+  MAX_SERIES_OCCURRENCES,
+} from '../src/lib/booking/recurrence';
+
+/**
+ * Recurring Series Tests
+ *
+ * These tests verify how a recurrence rule becomes occurrences: intervals,
+ * both end conditions, wall-clock time across DST, and moving part of a series.
+ *
+ * Test Scenarios:
+ * 1. Occurrences repeat every N weeks until the count
+ * 2. The until date is inclusive
+ * 3. Whichever end comes first stops the series
+ * 4. A series never has more than the maximum occurrences
+ * 5. Wall-clock time is kept across a DST change
+ * 6. A move is described as days and a new time of day
+ * 7. The move applies to other occurrences, keeping their duration
+ * 8. The new time of day is kept across a DST change
+ * 9. Rules need an end condition and stay within the limits
+ * 10. Request bodies convert to a rule
+ */
+
+const TZ = 'Europe/Rome';
+
+// Tuesday 10:00 in Rome
+const firstStart = new Date('2025-07-01T08:00:00.000Z');
+
+function testIntervalAndCount() {
+  debug.log('COUNT', 'Generating three fortnightly occurrences...');
+
+  const occurrences = generateSeriesOccurrences(firstStart, 45, { intervalWeeks: 2, count: 3 }, TZ);
+
+  return expectJson(
+    'COUNT',
+    occurrences.map(o => [o.index, o.start.toISOString(), o.end.toISOString()]),
+    [
+      [0, '2025-07-01T08:00:00.000Z', '2025-07-01T08:45:00.000Z'],
+      [1, '2025-07-15T08:00:00.000Z', '2025-07-15T08:45:00.000Z'],
+      [2, '2025-07-29T08:00:00.000Z', '2025-07-29T08:45:00.000Z'],
+    ],
+    'Every two weeks, three times'
+  );
+}
+
+function testUntilDate() {
+  debug.log('UNTIL', 'Generating weekly occurrences until 22 July...');
+
+  const occurrences = generateSeriesOccurrences(firstStart, 30, { intervalWeeks: 1, until: '2025-07-22' }, TZ);
+
+  return expectJson(
+    'UNTIL',
+    occurrences.map(o => o.start.toISOString().slice(0, 10)),
+    ['2025-07-01', '2025-07-08', '2025-07-15', '2025-07-22'],
+    'Until date included'
+  );
+}
+
+function testFirstEnd() {
+  debug.log('FIRST_END', 'Generating with both a count and an until date...');
+
+  const occurrences = generateSeriesOccurrences(firstStart, 30, { intervalWeeks: 1, count: 2, until: '2025-12-31' }, TZ);
+
+  return expectJson('FIRST_END', occurrences.length, 2, 'Stopped at the count');
+}
+
+function testMaximum() {
+  debug.log('MAXIMUM', 'Generating weekly occurrences for years...');
+
+  const occurrences = generateSeriesOccurrences(firstStart, 30, { intervalWeeks: 1, until: '2030-01-01' }, TZ);
+
+  return expectJson('MAXIMUM', occurrences.length, MAX_SERIES_OCCURRENCES, `Capped at ${MAX_SERIES_OCCURRENCES}`);
+}
+
+function testDstOccurrences() {
+  debug.log('DST', 'Generating occurrences across the October clock change...');
+
+  // Clocks go back on 26 October: 10:00 is 08:00Z before and 09:00Z after
+  const occurrences = generateSeriesOccurrences(
+    new Date('2025-10-21T08:00:00.000Z'),
+    60,
+    { intervalWeeks: 1, count: 2 },
+    TZ
+  );
+
+  return expectJson(
+    'DST',
+    occurrences.map(o => o.start.toISOString()),
+    ['2025-10-21T08:00:00.000Z', '2025-10-28T09:00:00.000Z'],
+    'Still 10:00 in Rome'
+  );
+}
+
+function testSeriesShift() {
+  debug.log('SHIFT', 'Moving Tuesday 10:00 to Thursday 14:30...');
+
+  const shift = getSeriesShift(firstStart, new Date('2025-07-03T12:30:00.000Z'), TZ);
+
+  return expectJson('SHIFT', shift, { dayOffset: 2, time: '14:30' }, 'Two days later at 14:30');
+}
+
+function testShiftOccurrence() {
+  debug.log('SHIFT_OCCURRENCE', 'Applying the move to the second occurrence...');
+
+  const [, second] = generateSeriesOccurrences(firstStart, 45, { intervalWeeks: 1, count: 2 }, TZ);
+  const moved = shiftOccurrence(second, { dayOffset: 2, time: '14:30' }, TZ);
+
+  return expectJson(
+    'SHIFT_OCCURRENCE',
+    [moved.index, moved.start.toISOString(), moved.end.toISOString()],
+    [1, '2025-07-10T12:30:00.000Z', '2025-07-10T13:15:00.000Z'],
+    'Moved with its 45 minutes'
+  );
+}
+
+function testShiftAcrossDst() {
+  debug.log('SHIFT_DST', 'Applying a move to an occurrence after the clock change...');
+
+  const shift = getSeriesShift(
+    new Date('2025-10-21T08:00:00.000Z'),
+    new Date('2025-10-21T09:00:00.000Z'),
+    TZ
+  );
+  const moved = shiftOccurrence(
+    { index: 1, start: new Date('2025-10-28T09:00:00.000Z'), end: new Date('2025-10-28T10:00:00.000Z') },
+    shift,
+    TZ
+  );
+
+  // 11:00 in Rome, which is 10:00Z after the change
+  return expectJson('SHIFT_DST', moved.start.toISOString(), '2025-10-28T10:00:00.000Z', 'Still 11:00 in Rome');
+}
+
+function testRuleLimits() {
+  debug.log('RULE_LIMITS', 'Validating recurrence rules...');
+
+  const accepted = [{ interval_weeks: 1, count: 4 }];
+  const rejected = [
+    { interval_weeks: 1 },
+    { interval_weeks: 13, count: 4 },
+    { interval_weeks: 1, count: 53 },
+  ];
+
+  return expectJson(
+    'RULE_LIMITS',
+    [...accepted, ...rejected].map(rule => recurrenceRuleSchema.safeParse(rule).success),
+    [true, false, false, false],
+    'Missing end and values over the limits rejected'
+  );
+}
+
+function testRuleConversion() {
+  debug.log('RULE_CONVERSION', 'Parsing a request body...');
+
+  const parsed = recurrenceRuleSchema.parse({ interval_weeks: 3, until: '2025-09-30' });
+
+  return expectJson(
+    'RULE_CONVERSION',
+    [parsed.intervalWeeks, parsed.count, parsed.until],
+    [3, undefined, '2025-09-30'],
+    'Converted to a rule'
+  );
+}
+
+async function runRecurrenceTests() {
+  console.log('\n========================================');
+  console.log('RECURRING SERIES TESTS');
+  console.log('========================================\n');
+
+  const results = [];
+
+  const test1 = testIntervalAndCount();
+  results.push({ name: 'Interval and count', passed: test1.success });
+
+  const test2 = testUntilDate();
+  results.push({ name: 'Until date', passed: test2.success });
+
+  const test3 = testFirstEnd();
+  results.push({ name: 'First end wins', passed: test3.success });
+
+  const test4 = testMaximum();
+  results.push({ name: 'Maximum occurrences', passed: test4.success });
+
+  const test5 = testDstOccurrences();
+  results.push({ name: 'Occurrences across DST', passed: test5.success });
+
+  const test6 = testSeriesShift();
+  results.push({ name: 'Series shift', passed: test6.success });
+
+  const test7 = testShiftOccurrence();
+  results.push({ name: 'Shifted occurrence', passed: test7.success });
+
+  const test8 = testShiftAcrossDst();
+  results.push({ name: 'Shift across DST', passed: test8.success });
+
+  const test9 = testRuleLimits();
+  results.push({ name: 'Rule limits', passed: test9.success });
+
+  const test10 = testRuleConversion();
+  results.push({ name: 'Rule conversion', passed: test10.success });
+
+  console.log('\n========================================');
+  console.log('RECURRING SERIES TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runRecurrenceTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running recurring series tests', error);
+    process.exit(1);
+  });
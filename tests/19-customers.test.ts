@@ -0,0 +1,172 @@
+import { debug, expectJson } from './setup';
+import {
+  normalizeEmail,
+  normalizePhone,
+  normalizeTags,
+  getCustomerIdentities,
+  findProfileForIdentities,
+  MAX_CUSTOMER_TAGS,
+} from '../src/lib/customers/identity';
+
+/**
+ * Customer Directory Tests
+ *
+ * These tests verify how booking contact details are recognised as the same
+ * customer: email and phone normalisation, matching order, and owner tags.
+ *
+ * Test Scenarios:
+ * 1. Emails are compared without case or surrounding spaces
+ * 2. Phone numbers are reduced to digits, + and 00 being the same prefix
+ * 3. Numbers too short to identify anyone are ignored
+ * 4. A booking's identities are collected, email first
+ * 5. An email match wins over a shared phone number
+ * 6. The phone number is the fallback
+ * 7. A customer seen for the first time matches no profile
+ * 8. Tags are trimmed, deduplicated ignoring case and capped
+ */
+
+const known = new Map([
+  ['email:marco@example.com', 'profile-marco'],
+  ['phone:3331234567', 'profile-family'],
+]);
+
+function testEmails() {
+  debug.log('EMAILS', 'Normalising emails...');
+
+  return expectJson(
+    'EMAILS',
+    ['  Marco.Rossi@Example.COM ', 'not-an-email', '', null].map(normalizeEmail),
+    ['marco.rossi@example.com', null, null, null],
+    'Lower-cased and trimmed, invalid ones dropped'
+  );
+}
+
+function testPhones() {
+  debug.log('PHONES', 'Normalising phone numbers...');
+
+  return expectJson(
+    'PHONES',
+    ['333 123-4567', '(333) 123.4567', '+39 333 123 4567', '0039 333-1234567'].map(normalizePhone),
+    ['3331234567', '3331234567', '+393331234567', '+393331234567'],
+    'Digits only, 00 read as +'
+  );
+}
+
+function testShortPhones() {
+  debug.log('SHORT_PHONES', 'Normalising numbers too short to use...');
+
+  return expectJson('SHORT_PHONES', ['12 34', '  '].map(normalizePhone), [null, null], 'Ignored');
+}
+
+function testIdentities() {
+  debug.log('IDENTITIES', 'Collecting the identities of bookings...');
+
+  return expectJson(
+    'IDENTITIES',
+    [
+      getCustomerIdentities({ email: 'Giulia@Example.com', phone: '+39 333 765 4321' }),
+      getCustomerIdentities({ email: null, phone: null }),
+    ],
+    [
+      [
+        { kind: 'email', value: 'giulia@example.com' },
+        { kind: 'phone', value: '+393337654321' },
+      ],
+      [],
+    ],
+    'Email first, then phone'
+  );
+}
+
+function testEmailMatchFirst() {
+  debug.log('EMAIL_MATCH', 'Matching a booking whose phone belongs to another profile...');
+
+  const identities = getCustomerIdentities({ email: 'MARCO@example.com', phone: '333 123 4567' });
+
+  return expectJson('EMAIL_MATCH', findProfileForIdentities(identities, known), 'profile-marco', 'Matched by email');
+}
+
+function testPhoneFallback() {
+  debug.log('PHONE_MATCH', 'Matching a new email with a known phone...');
+
+  const identities = getCustomerIdentities({ email: 'new@example.com', phone: '333-123-4567' });
+
+  return expectJson('PHONE_MATCH', findProfileForIdentities(identities, known), 'profile-family', 'Matched by phone');
+}
+
+function testNewCustomer() {
+  debug.log('NEW_CUSTOMER', 'Matching a customer seen for the first time...');
+
+  const identities = getCustomerIdentities({ email: 'new@example.com', phone: '+44 20 7946 0000' });
+
+  return expectJson('NEW_CUSTOMER', findProfileForIdentities(identities, known), null, 'No profile matched');
+}
+
+function testTags() {
+  debug.log('TAGS', 'Normalising owner tags...');
+
+  const tags = Array.from({ length: MAX_CUSTOMER_TAGS + 5 }, (_, i) => `tag-${i}`);
+
+  return expectJson(
+    'TAGS',
+    [normalizeTags(['  VIP ', 'vip', 'prefers   morning', '', 'Regular']), normalizeTags(tags).length],
+    [['VIP', 'prefers morning', 'Regular'], MAX_CUSTOMER_TAGS],
+    `Trimmed, deduplicated and capped at ${MAX_CUSTOMER_TAGS}`
+  );
+}
+
+async function runCustomerTests() {
+  console.log('\n========================================');
+  console.log('CUSTOMER DIRECTORY TESTS');
+  console.log('========================================\n');
+
+  const results = [];
+
+  const test1 = testEmails();
+  results.push({ name: 'Email normalisation', passed: test1.success });
+
+  const test2 = testPhones();
+  results.push({ name: 'Phone normalisation', passed: test2.success });
+
+  const test3 = testShortPhones();
+  results.push({ name: 'Short numbers ignored', passed: test3.success });
+
+  const test4 = testIdentities();
+  results.push({ name: 'Booking identities', passed: test4.success });
+
+  const test5 = testEmailMatchFirst();
+  results.push({ name: 'Email match first', passed: test5.success });
+
+  const test6 = testPhoneFallback();
+  results.push({ name: 'Phone fallback', passed: test6.success });
+
+  const test7 = testNewCustomer();
+  results.push({ name: 'New customer', passed: test7.success });
+
+  const test8 = testTags();
+  results.push({ name: 'Tags', passed: test8.success });
+
+  console.log('\n========================================');
+  console.log('CUSTOMER DIRECTORY TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runCustomerTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running customer directory tests', error);
+    process.exit(1);
+  });
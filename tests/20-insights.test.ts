@@ -0,0 +1,342 @@
+import { debug, expectJson } from './setup';
+import { TenantConfig } from '../src/lib/config/tenant-schema';
+import {
+  calculateOpenMinutes,
+  buildRetentionCohorts,
+  listDatesInTimezone,
+  toRate,
+} from '../src/lib/insights/metrics';
+import {
+  compareStats,
+  getBucketKey,
+  insightsQuerySchema,
+  listBuckets,
+  resolveInsightsPeriod,
+} from '../src/lib/insights/period';
+
+/**
+ * Insights Tests
+ *
+ * These tests verify the calculations behind customer and service analytics
+ * that don't need a database: open minutes from the availability config,
+ * retention cohorts, chart dates in the business timezone, and the periods,
+ * buckets and comparisons of the insights query.
+ *
+ * Test Scenarios:
+ * 1. Open minutes count opening hours without breaks, over a day and a week
+ * 2. Holidays are left out and special hours used
+ * 3. Only the part of a day inside the range is counted
+ * 4. Cohort visits become percentages, with 0 for months nobody returned
+ * 5. Cohorts stop at the number of months shown
+ * 6. Chart dates are listed in the business timezone, once each across DST
+ * 7. Rates are rounded to one decimal, 0 for an empty total
+ * 8. Presets end on today in the business timezone
+ * 9. Custom ranges are compared with the same number of days before them
+ * 10. Incomplete, reversed and overly long ranges are rejected
+ * 11. Weeks start on Monday and months on the first
+ * 12. Every bucket the period touches is listed
+ * 13. Comparisons give a percentage only when there was something before
+ */
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+
+// Monday 13 to Sunday 19 January 2025 in Rome
+const weekStart = new Date('2025-01-12T23:00:00Z');
+const weekEnd = new Date('2025-01-19T23:00:00Z');
+
+const retentionNow = new Date('2025-03-10T12:00:00Z');
+
+function buildConfig(exceptions: TenantConfig['availabilityExceptions'] = []): TenantConfig {
+  return {
+    business: { timezone: 'Europe/Rome' },
+    availability: [
+      ...WEEKDAYS.map(day => ({
+        day,
+        enabled: true,
+        slots: [{ open: '09:00', close: '13:00' }, { open: '14:00', close: '18:00' }],
+      })),
+      { day: 'saturday', enabled: true, slots: [{ open: '09:00', close: '12:00' }] },
+      { day: 'sunday', enabled: false, slots: [] },
+    ],
+    availabilityExceptions: exceptions,
+  } as unknown as TenantConfig;
+}
+
+function testOpenMinutes() {
+  debug.log('OPEN_MINUTES', 'Counting opening hours for a day and a week...');
+
+  // Wednesday 15 January 2025, Europe/Rome (UTC+1)
+  const day = calculateOpenMinutes(buildConfig(), new Date('2025-01-14T23:00:00Z'), new Date('2025-01-15T23:00:00Z'));
+  const week = calculateOpenMinutes(buildConfig(), weekStart, weekEnd);
+
+  return expectJson('OPEN_MINUTES', [day, week], [8 * 60, 5 * 8 * 60 + 3 * 60], 'Lunch break left out');
+}
+
+function testExceptions() {
+  debug.log('EXCEPTIONS', 'Counting a week with a holiday and special hours...');
+
+  const config = buildConfig([
+    { date: '2025-01-15', closed: true },
+    { date: '2025-01-16', closed: false, open: '10:00', close: '12:00' },
+  ] as TenantConfig['availabilityExceptions']);
+
+  return expectJson(
+    'EXCEPTIONS',
+    calculateOpenMinutes(config, weekStart, weekEnd),
+    3 * 8 * 60 + 2 * 60 + 3 * 60,
+    'Holiday left out, special hours used'
+  );
+}
+
+function testPartialDay() {
+  debug.log('PARTIAL_DAY', 'Counting from 11:00 in Rome...');
+
+  const start = new Date('2025-01-15T10:00:00Z'); // 11:00 in Rome
+
+  return expectJson(
+    'PARTIAL_DAY',
+    calculateOpenMinutes(buildConfig(), start, new Date('2025-01-15T23:00:00Z')),
+    2 * 60 + 4 * 60,
+    'Only the rest of the day counted'
+  );
+}
+
+function testRetentionPercentages() {
+  debug.log('RETENTION', 'Building retention cohorts...');
+
+  const cohorts = buildRetentionCohorts([
+    { cohort: '2025-01', monthOffset: 0, customers: 10 },
+    { cohort: '2025-01', monthOffset: 1, customers: 4 },
+    { cohort: '2025-01', monthOffset: 2, customers: 3 },
+    { cohort: '2025-02', monthOffset: 0, customers: 8 },
+    { cohort: '2025-02', monthOffset: 1, customers: 2 },
+  ], 6, retentionNow);
+
+  const gaps = buildRetentionCohorts([
+    { cohort: '2024-12', monthOffset: 0, customers: 3 },
+    { cohort: '2024-12', monthOffset: 3, customers: 1 },
+  ], 6, retentionNow);
+
+  return expectJson(
+    'RETENTION',
+    [cohorts, gaps[0].retention],
+    [
+      [
+        { cohort: '2025-01', size: 10, retention: [40, 30] },
+        { cohort: '2025-02', size: 8, retention: [25] },
+      ],
+      [0, 0, 33.3],
+    ],
+    'Percentages of each cohort, 0 for empty months'
+  );
+}
+
+function testRetentionMonths() {
+  debug.log('RETENTION_MONTHS', 'Building a cohort older than the months shown...');
+
+  const cohorts = buildRetentionCohorts([{ cohort: '2024-01', monthOffset: 0, customers: 5 }], 3, retentionNow);
+
+  return expectJson('RETENTION_MONTHS', cohorts[0].retention.length, 2, 'Cut at the months shown');
+}
+
+function testChartDates() {
+  debug.log('CHART_DATES', 'Listing dates in Rome...');
+
+  // 23:30 UTC is already the next day in Rome
+  const dates = listDatesInTimezone(new Date('2025-01-14T23:30:00Z'), new Date('2025-01-16T22:00:00Z'), 'Europe/Rome');
+  const acrossDst = listDatesInTimezone(new Date('2025-03-29T12:00:00Z'), new Date('2025-03-31T12:00:00Z'), 'Europe/Rome');
+
+  return expectJson(
+    'CHART_DATES',
+    [dates, acrossDst],
+    [['2025-01-15', '2025-01-16'], ['2025-03-29', '2025-03-30', '2025-03-31']],
+    'Local dates, each listed once'
+  );
+}
+
+function testRates() {
+  debug.log('RATES', 'Computing rates...');
+
+  return expectJson('RATES', [toRate(1, 3), toRate(5, 0)], [33.3, 0], 'Rounded, empty total is 0');
+}
+
+function testPresetPeriod() {
+  debug.log('PRESET', 'Resolving the last 7 days just before midnight in Rome...');
+
+  // 23:30 UTC on 9 March is already 10 March in Rome
+  const period = resolveInsightsPeriod(
+    insightsQuerySchema.parse({ timeRange: '7d' }),
+    'Europe/Rome',
+    new Date('2025-03-09T23:30:00Z')
+  );
+
+  return expectJson(
+    'PRESET',
+    [period.startDate, period.endDate, period.start.toISOString(), period.end.toISOString()],
+    ['2025-03-04', '2025-03-10', '2025-03-03T23:00:00.000Z', '2025-03-10T23:00:00.000Z'],
+    'Ends on today in Rome'
+  );
+}
+
+function testCustomPeriod() {
+  debug.log('CUSTOM', 'Resolving March in New York by week...');
+
+  const period = resolveInsightsPeriod(
+    insightsQuerySchema.parse({ startDate: '2025-03-01', endDate: '2025-03-31', granularity: 'week' }),
+    'America/New_York'
+  );
+
+  // Midnight moves from EST to EDT within the range
+  return expectJson(
+    'CUSTOM',
+    [
+      period.granularity,
+      period.previous.startDate,
+      period.previous.endDate,
+      period.previous.end.getTime() === period.start.getTime(),
+      period.start.toISOString(),
+      period.end.toISOString(),
+    ],
+    ['week', '2025-01-29', '2025-02-28', true, '2025-03-01T05:00:00.000Z', '2025-04-01T04:00:00.000Z'],
+    'Compared with the 31 days before'
+  );
+}
+
+function testInvalidRanges() {
+  debug.log('INVALID_RANGES', 'Validating custom ranges...');
+
+  return expectJson(
+    'INVALID_RANGES',
+    [
+      { startDate: '2025-03-01' },
+      { startDate: '2025-03-02', endDate: '2025-03-01' },
+      { startDate: '2022-01-01', endDate: '2025-01-01' },
+      { startDate: '2025-03-01', endDate: '2025-03-01' },
+    ].map(query => insightsQuerySchema.safeParse(query).success),
+    [false, false, false, true],
+    'Incomplete, reversed and overly long ranges rejected'
+  );
+}
+
+function testBucketKeys() {
+  debug.log('BUCKET_KEYS', 'Bucketing dates...');
+
+  return expectJson(
+    'BUCKET_KEYS',
+    [
+      getBucketKey('2025-03-02', 'week'),
+      getBucketKey('2025-03-03', 'week'),
+      getBucketKey('2025-03-19', 'month'),
+      getBucketKey('2025-03-19', 'day'),
+    ],
+    ['2025-02-24', '2025-03-03', '2025-03-01', '2025-03-19'],
+    'Weeks from Monday, months from the first'
+  );
+}
+
+function testBuckets() {
+  debug.log('BUCKETS', 'Listing the buckets of mid-January to early March...');
+
+  const period = resolveInsightsPeriod(
+    insightsQuerySchema.parse({ startDate: '2025-01-15', endDate: '2025-03-02', granularity: 'month' }),
+    'UTC'
+  );
+
+  return expectJson(
+    'BUCKETS',
+    [listBuckets(period), listBuckets({ ...period, granularity: 'week' }).length],
+    [['2025-01-01', '2025-02-01', '2025-03-01'], 7],
+    'Three months, seven weeks'
+  );
+}
+
+function testCompareStats() {
+  debug.log('COMPARE', 'Comparing with the previous period...');
+
+  return expectJson(
+    'COMPARE',
+    [
+      compareStats({ bookings: 15, revenue: 0 }, { bookings: 10, revenue: 0 }),
+      compareStats({ rate: 2 }, { rate: 3 }).rate.changePercent,
+    ],
+    [
+      {
+        bookings: { previous: 10, change: 5, changePercent: 50 },
+        revenue: { previous: 0, change: 0, changePercent: null },
+      },
+      -33.3,
+    ],
+    'No percentage from zero'
+  );
+}
+
+async function runInsightsTests() {
+  console.log('\n========================================');
+  console.log('INSIGHTS TESTS');
+  console.log('========================================\n');
+
+  const results = [];
+
+  const test1 = testOpenMinutes();
+  results.push({ name: 'Open minutes', passed: test1.success });
+
+  const test2 = testExceptions();
+  results.push({ name: 'Holidays and special hours', passed: test2.success });
+
+  const test3 = testPartialDay();
+  results.push({ name: 'Partial day', passed: test3.success });
+
+  const test4 = testRetentionPercentages();
+  results.push({ name: 'Retention percentages', passed: test4.success });
+
+  const test5 = testRetentionMonths();
+  results.push({ name: 'Retention months shown', passed: test5.success });
+
+  const test6 = testChartDates();
+  results.push({ name: 'Chart dates', passed: test6.success });
+
+  const test7 = testRates();
+  results.push({ name: 'Rates', passed: test7.success });
+
+  const test8 = testPresetPeriod();
+  results.push({ name: 'Preset period', passed: test8.success });
+
+  const test9 = testCustomPeriod();
+  results.push({ name: 'Custom period comparison', passed: test9.success });
+
+  const test10 = testInvalidRanges();
+  results.push({ name: 'Invalid ranges', passed: test10.success });
+
+  const test11 = testBucketKeys();
+  results.push({ name: 'Bucket keys', passed: test11.success });
+
+  const test12 = testBuckets();
+  results.push({ name: 'Bucket list', passed: test12.success });
+
+  const test13 = testCompareStats();
+  results.push({ name: 'Period comparison', passed: test13.success });
+
+  console.log('\n========================================');
+  console.log('INSIGHTS TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runInsightsTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running insights tests', error);
+    process.exit(1);
+  });
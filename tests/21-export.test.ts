@@ -0,0 +1,188 @@
+import { debug, expectJson } from './setup';
+import { escapeCsvValue, toCsvLine } from '../src/lib/export/csv';
+import {
+  dataExportQuerySchema,
+  formatExportRow,
+  getExportFilename,
+  resolveExportRange,
+  DATA_EXPORT_COLUMNS,
+} from '../src/lib/export/data-export-service';
+
+/**
+ * Data Export Tests
+ *
+ * These tests verify the parts of the CSV/JSON export that don't need a
+ * database: CSV quoting and formula protection, amounts, the date range in
+ * the business timezone and the query validation.
+ *
+ * Test Scenarios:
+ * 1. Separators, quotes and line breaks are quoted
+ * 2. Formulas are neutralised, phone numbers and negative amounts kept
+ * 3. Lines end with CRLF
+ * 4. Rows keep the column order and cents become amounts
+ * 5. Missing amounts are left empty
+ * 6. The range covers whole days in the business timezone
+ * 7. The file is named after the business, type and dates
+ * 8. The type, format and dates are validated
+ */
+
+function testQuoting() {
+  debug.log('QUOTING', 'Escaping CSV values...');
+
+  return expectJson(
+    'QUOTING',
+    ['Rossi, Mario', 'The "usual"', 'line one\nline two', null, 42].map(escapeCsvValue),
+    ['"Rossi, Mario"', '"The ""usual"""', '"line one\nline two"', '', '42'],
+    'Quoted where needed'
+  );
+}
+
+function testFormulas() {
+  debug.log('FORMULAS', 'Escaping values a spreadsheet would run...');
+
+  return expectJson(
+    'FORMULAS',
+    ['=HYPERLINK("http://evil")', '@SUM(A1)', '+39 333 123 4567', '-12.50'].map(escapeCsvValue),
+    ['"\'=HYPERLINK(""http://evil"")"', "'@SUM(A1)", '+39 333 123 4567', '-12.50'],
+    'Formulas prefixed, numbers untouched'
+  );
+}
+
+function testLineEndings() {
+  debug.log('LINE_ENDINGS', 'Building a CSV line...');
+
+  return expectJson('LINE_ENDINGS', toCsvLine(['a', 1, null]), 'a,1,\r\n', 'Ends with CRLF');
+}
+
+function testRowFormat() {
+  debug.log('ROW_FORMAT', 'Formatting a revenue row...');
+
+  const columns = DATA_EXPORT_COLUMNS.revenue;
+  const row = { currency: 'EUR', revenue: 12345, date: '2025-03-01', bookings: 3, extra: 'dropped' };
+  const csv = formatExportRow(columns, row, 'csv');
+
+  return expectJson(
+    'ROW_FORMAT',
+    [Object.keys(csv), csv.revenue, formatExportRow(columns, row, 'json').revenue],
+    [['date', 'bookings', 'revenue', 'currency'], '123.45', 123.45],
+    'Column order kept, cents converted'
+  );
+}
+
+function testMissingAmounts() {
+  debug.log('MISSING_AMOUNTS', 'Formatting an appointment without a price...');
+
+  const row = formatExportRow(DATA_EXPORT_COLUMNS.appointments, { price: null }, 'csv');
+
+  return expectJson('MISSING_AMOUNTS', [row.price, row.deposit_paid], [null, null], 'Left empty');
+}
+
+function testRange() {
+  debug.log('RANGE', 'Resolving March in Rome...');
+
+  const range = resolveExportRange('2025-03-01', '2025-03-31', 'Europe/Rome');
+
+  // Summer time starts on 30 March
+  return expectJson(
+    'RANGE',
+    [range.start.toISOString(), range.end.toISOString()],
+    ['2025-02-28T23:00:00.000Z', '2025-03-31T22:00:00.000Z'],
+    'Whole local days'
+  );
+}
+
+function testFilename() {
+  debug.log('FILENAME', 'Naming export files...');
+
+  const month = resolveExportRange('2025-03-01', '2025-03-31', 'UTC');
+  const day = resolveExportRange('2025-03-01', '2025-03-01', 'UTC');
+
+  return expectJson(
+    'FILENAME',
+    [
+      getExportFilename('bella-salon', 'appointments', 'csv', month),
+      getExportFilename('bella-salon', 'revenue', 'json', day),
+    ],
+    ['bella-salon-appointments-2025-03-01_2025-03-31.csv', 'bella-salon-revenue-2025-03-01.json'],
+    'Named after the business, type and dates'
+  );
+}
+
+function testQueryValidation() {
+  debug.log('QUERY', 'Validating export queries...');
+
+  const valid = { type: 'customers', startDate: '2025-01-01', endDate: '2025-01-31' };
+
+  if (dataExportQuerySchema.parse(valid).format !== 'csv') {
+    debug.error('QUERY', 'Expected CSV by default');
+    return { success: false };
+  }
+
+  return expectJson(
+    'QUERY',
+    [
+      { ...valid, type: 'payments' },
+      { ...valid, format: 'xlsx' },
+      { ...valid, startDate: '2025-02-01' },
+      { ...valid, startDate: '2010-01-01' },
+    ].map(query => dataExportQuerySchema.safeParse(query).success),
+    [false, false, false, false],
+    'Unknown types and formats, reversed and overly long ranges rejected'
+  );
+}
+
+async function runDataExportTests() {
+  console.log('\n========================================');
+  console.log('DATA EXPORT TESTS');
+  console.log('========================================\n');
+
+  const results = [];
+
+  const test1 = testQuoting();
+  results.push({ name: 'CSV quoting', passed: test1.success });
+
+  const test2 = testFormulas();
+  results.push({ name: 'Formula protection', passed: test2.success });
+
+  const test3 = testLineEndings();
+  results.push({ name: 'CRLF line endings', passed: test3.success });
+
+  const test4 = testRowFormat();
+  results.push({ name: 'Row format', passed: test4.success });
+
+  const test5 = testMissingAmounts();
+  results.push({ name: 'Missing amounts', passed: test5.success });
+
+  const test6 = testRange();
+  results.push({ name: 'Range in the business timezone', passed: test6.success });
+
+  const test7 = testFilename();
+  results.push({ name: 'File name', passed: test7.success });
+
+  const test8 = testQueryValidation();
+  results.push({ name: 'Query validation', passed: test8.success });
+
+  console.log('\n========================================');
+  console.log('DATA EXPORT TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runDataExportTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running data export tests', error);
+    process.exit(1);
+  });
@@ -0,0 +1,339 @@
+import { sql, debug, cleanupTestData } from './setup';
+import { nanoid } from 'nanoid';
+import { v4 as uuidv4 } from 'uuid';
+import { ReservationManager } from '../src/lib/booking/reservation-manager';
+import { CapacityPoolLimit } from '../src/lib/booking/capacity-pools';
+
+/**
+ * Shared Capacity Pool Tests
+ *
+ * These tests verify that a capacity pool shared by several services (e.g.
+ * "chairs: 2" used by both haircuts and colouring) holds under concurrent
+ * bookings of different services, whose booking advisory locks don't
+ * serialize each other. The reservation trigger locks each pool and re-counts it.
+ *
+ * Test Scenarios:
+ * 1. Two services (capacity 5 each) share a pool of 2, 60 concurrent attempts
+ *    split across both -> exactly 2 succeed
+ * 2. getAvailableCapacity is capped by the pool
+ * 3. Direct SQL INSERT of an appointment overfilling the pool -> rejected by trigger
+ * 4. A service outside the pool is not affected by it
+ */
+
+const testId = nanoid(8);
+let testBusinessId: string;
+let cutServiceId: string;
+let colorServiceId: string;
+let otherServiceId: string;
+let chairsPool: CapacityPoolLimit;
+
+function slotAt(hour: number) {
+  const slotStart = new Date();
+  slotStart.setDate(slotStart.getDate() + 7);
+  slotStart.setHours(hour, 0, 0, 0);
+
+  const slotEnd = new Date(slotStart);
+  slotEnd.setHours(hour + 1, 0, 0, 0);
+
+  return { slotStart, slotEnd };
+}
+
+async function setupTestData() {
+  debug.log('SETUP', 'Creating test business with a shared capacity pool...');
+
+  try {
+    // Only the parts of the tenant config the capacity triggers read
+    const configJson = {
+      categories: [
+        {
+          id: 'salon',
+          services: [
+            { id: 'pool-cut', capacityPools: ['chairs'] },
+            { id: 'pool-color', capacityPools: ['chairs'] },
+            { id: 'pool-other' },
+          ],
+        },
+      ],
+      capacityPools: [{ id: 'chairs', name: 'Chairs', capacity: 2 }],
+    };
+
+    testBusinessId = uuidv4();
+    await sql`
+      INSERT INTO businesses (
+        id, subdomain, name, timezone, config_yaml_path, config_version, status, config_json
+      )
+      VALUES (
+        ${testBusinessId},
+        'test-generic',
+        'Capacity Pool Test Business',
+        'America/New_York',
+        'config/tenants/test-generic.yaml',
+        1,
+        'active',
+        ${JSON.stringify(configJson)}::jsonb
+      )
+    `;
+
+    const category = await sql`
+      INSERT INTO categories (business_id, name, sort_order)
+      VALUES (${testBusinessId}, 'Salon', 0)
+      RETURNING id
+    `;
+
+    // Each service takes 5 at once on its own, so only the pool can run out
+    const services = await sql`
+      INSERT INTO services (
+        business_id,
+        category_id,
+        name,
+        external_id,
+        duration_minutes,
+        price_cents,
+        color,
+        max_simultaneous_bookings,
+        sort_order
+      )
+      VALUES
+        (${testBusinessId}, ${category[0].id}, 'Haircut', 'pool-cut', 60, 3000, '#10b981', 5, 0),
+        (${testBusinessId}, ${category[0].id}, 'Colouring', 'pool-color', 60, 6000, '#3b82f6', 5, 1),
+        (${testBusinessId}, ${category[0].id}, 'Consultation', 'pool-other', 60, 0, '#f59e0b', 5, 2)
+      RETURNING id, external_id
+    `;
+
+    const byExternalId = new Map(services.map(s => [s.external_id, s.id]));
+    cutServiceId = byExternalId.get('pool-cut');
+    colorServiceId = byExternalId.get('pool-color');
+    otherServiceId = byExternalId.get('pool-other');
+
+    chairsPool = { id: 'chairs', capacity: 2, serviceIds: [cutServiceId, colorServiceId] };
+
+    debug.success('SETUP', 'Test data created', {
+      businessId: testBusinessId,
+      cutServiceId,
+      colorServiceId,
+      otherServiceId,
+    });
+
+    return true;
+  } catch (error) {
+    debug.error('SETUP', 'Failed to create test data', error);
+    return false;
+  }
+}
+
+async function testConcurrentReservationsAcrossPool() {
+  debug.log('POOL_CONCURRENCY', 'Testing 60 concurrent attempts across two services sharing a pool of 2...');
+
+  try {
+    const { slotStart, slotEnd } = slotAt(10);
+    const manager = new ReservationManager(sql);
+
+    const promises = Array.from({ length: 60 }, (_, i) =>
+      manager
+        .createReservation({
+          businessId: testBusinessId,
+          serviceId: i % 2 === 0 ? cutServiceId : colorServiceId,
+          slotStart,
+          slotEnd,
+          idempotencyKey: `pool-test-${testId}-${i}`,
+          maxSimultaneousBookings: 5,
+          capacityPools: [chairsPool],
+        })
+        .then(() => ({ ok: true, error: null as string | null }))
+        .catch((err: Error) => ({ ok: false, error: err.message }))
+    );
+
+    const results = await Promise.all(promises);
+    const successCount = results.filter(r => r.ok).length;
+
+    debug.log('POOL_CONCURRENCY', 'Sample errors:', results.filter(r => !r.ok).slice(0, 3).map(r => r.error));
+
+    // CRITICAL: The pool holds 2, whichever services the bookings are for
+    if (successCount !== 2) {
+      debug.error('POOL_CONCURRENCY', `Expected exactly 2 successes, got ${successCount}. Pool is not enforced!`);
+      return { success: false };
+    }
+
+    const reservations = await sql`
+      SELECT COUNT(*) as count
+      FROM reservations
+      WHERE business_id = ${testBusinessId}
+        AND service_id IN (${cutServiceId}, ${colorServiceId})
+        AND slot_start = ${slotStart}
+        AND expires_at > NOW()
+    `;
+
+    const reservationCount = parseInt(reservations[0].count, 10);
+
+    if (reservationCount !== 2) {
+      debug.error('POOL_CONCURRENCY', `Expected 2 reservations in DB, found ${reservationCount}. DATA CONSISTENCY VIOLATION!`);
+      return { success: false };
+    }
+
+    debug.success('POOL_CONCURRENCY', 'Pool held exactly 2 bookings across both services');
+    return { success: true };
+  } catch (error) {
+    debug.error('POOL_CONCURRENCY', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testAvailableCapacityCappedByPool() {
+  debug.log('POOL_AVAILABLE_CAPACITY', 'Testing that available capacity is capped by the pool...');
+
+  try {
+    const { slotStart, slotEnd } = slotAt(12);
+    const manager = new ReservationManager(sql);
+
+    const before = Number(await manager.getAvailableCapacity(
+      testBusinessId, colorServiceId, slotStart, slotEnd, 5, undefined, [chairsPool]
+    ));
+
+    await manager.createReservation({
+      businessId: testBusinessId,
+      serviceId: cutServiceId,
+      slotStart,
+      slotEnd,
+      idempotencyKey: `pool-capacity-${testId}`,
+      maxSimultaneousBookings: 5,
+      capacityPools: [chairsPool],
+    });
+
+    const after = Number(await manager.getAvailableCapacity(
+      testBusinessId, colorServiceId, slotStart, slotEnd, 5, undefined, [chairsPool]
+    ));
+
+    if (before !== 2 || after !== 1) {
+      debug.error('POOL_AVAILABLE_CAPACITY', `Expected 2 then 1, got ${before} then ${after}`);
+      return { success: false };
+    }
+
+    debug.success('POOL_AVAILABLE_CAPACITY', 'A haircut used up a chair for colouring too');
+    return { success: true };
+  } catch (error) {
+    debug.error('POOL_AVAILABLE_CAPACITY', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testTriggerRejectsPoolOverflow() {
+  debug.log('POOL_TRIGGER', 'Testing direct INSERT that overfills the pool...');
+
+  try {
+    const { slotStart, slotEnd } = slotAt(14);
+
+    const insertAppointment = (serviceId: string, n: number) => sql`
+      INSERT INTO appointments (
+        id, business_id, service_id, slot_start, slot_end,
+        status, idempotency_key, guest_email, guest_phone,
+        booking_id
+      ) VALUES (
+        ${uuidv4()}, ${testBusinessId}, ${serviceId},
+        ${slotStart}, ${slotEnd}, 'confirmed',
+        ${`pool-trigger-${n}-${testId}`}, ${`pool${n}@test.com`}, '+1234567890',
+        ${`POOL-${testId}-${n}`}
+      )
+    `;
+
+    // One of each service fills the 2 chairs
+    await insertAppointment(cutServiceId, 1);
+    await insertAppointment(colorServiceId, 2);
+
+    let triggerFired = false;
+    try {
+      await insertAppointment(cutServiceId, 3);
+    } catch (error) {
+      triggerFired = error instanceof Error && error.message.includes('Capacity pool');
+    }
+
+    if (!triggerFired) {
+      debug.error('POOL_TRIGGER', 'Third appointment was not rejected. Pool trigger is not working!');
+      return { success: false };
+    }
+
+    debug.success('POOL_TRIGGER', 'Trigger rejected the appointment overfilling the pool');
+    return { success: true };
+  } catch (error) {
+    debug.error('POOL_TRIGGER', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testServiceOutsidePool() {
+  debug.log('POOL_OUTSIDE', 'Testing that a service outside the pool can still be booked...');
+
+  try {
+    // The pool is full at 14:00 after the trigger test
+    const { slotStart, slotEnd } = slotAt(14);
+
+    await new ReservationManager(sql).createReservation({
+      businessId: testBusinessId,
+      serviceId: otherServiceId,
+      slotStart,
+      slotEnd,
+      idempotencyKey: `pool-outside-${testId}`,
+      maxSimultaneousBookings: 5,
+      capacityPools: [],
+    });
+
+    debug.success('POOL_OUTSIDE', 'Consultation booked while the chairs were full');
+    return { success: true };
+  } catch (error) {
+    debug.error('POOL_OUTSIDE', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function runCapacityPoolTests() {
+  console.log('\n========================================');
+  console.log('SHARED CAPACITY POOL TESTS');
+  console.log('========================================\n');
+
+  const setupSuccess = await setupTestData();
+  if (!setupSuccess) {
+    console.error('Failed to setup test data. Aborting tests.');
+    return false;
+  }
+
+  const results = [];
+
+  const test1 = await testConcurrentReservationsAcrossPool();
+  results.push({ name: 'Pool of 2 across two services (60 attempts)', passed: test1.success });
+
+  const test2 = await testAvailableCapacityCappedByPool();
+  results.push({ name: 'Available capacity capped by pool', passed: test2.success });
+
+  const test3 = await testTriggerRejectsPoolOverflow();
+  results.push({ name: 'Trigger rejects pool overflow', passed: test3.success });
+
+  const test4 = await testServiceOutsidePool();
+  results.push({ name: 'Service outside the pool unaffected', passed: test4.success });
+
+  // Cleanup
+  debug.log('CLEANUP', 'Cleaning up capacity pool test data...');
+  await cleanupTestData(sql);
+
+  console.log('\n========================================');
+  console.log('CAPACITY POOL TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runCapacityPoolTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running capacity pool tests', error);
+    process.exit(1);
+  });
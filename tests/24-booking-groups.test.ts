@@ -0,0 +1,686 @@
+import { sql, debug, cleanupTestData, testTenantConfig } from './setup';
+import { nanoid } from 'nanoid';
+import { v4 as uuidv4 } from 'uuid';
+import { ReservationManager } from '../src/lib/booking/reservation-manager';
+import { BookingGroupManager, GroupLegParams } from '../src/lib/booking/booking-group-manager';
+import { commitGroupBooking } from '../src/lib/booking/booking-commit';
+import { planSequence, combineSequenceSlots, SequenceService } from '../src/lib/booking/sequence';
+import { TimeSlot } from '../src/lib/booking/slot-generator';
+import { TenantConfigSchema } from '../src/lib/config/tenant-schema';
+
+/**
+ * Booking Group Tests
+ *
+ * These tests verify that several services booked back to back (cut +
+ * colour + blow-dry) are laid out with each service's buffers, reserved all
+ * or nothing, and committed under one booking ID.
+ *
+ * Test Scenarios:
+ * 1. planSequence puts bufferAfter + next bufferBefore between services
+ * 2. combineSequenceSlots drops start times where a later service is blocked
+ * 3. Second leg fully booked -> reserveGroup fails and holds nothing
+ * 4. reserveGroup retried with the same key -> same reservations
+ * 5. 10 concurrent groups for one-at-a-time services -> exactly 1 succeeds
+ * 6. commitGroup -> one booking ID, suffixed per leg; committing again is a no-op
+ * 7. A leg fails to commit -> no leg is booked or canceled, the other holds are released
+ * 8. A leg expired before the commit -> nothing is booked, the other holds are released
+ * 9. Rescheduling onto the group's own current slots -> the legs don't block each other
+ * 10. A leg fails to move -> the legs already moved are put back, nothing reported updated
+ * 11. commitGroupBooking runs the single-booking checks: a missing answer or a
+ *     service deposit refuses the group and keeps its holds
+ */
+
+const testId = nanoid(8);
+let testBusinessId: string;
+let cutServiceId: string;
+let colourServiceId: string;
+
+function legsAt(hour: number): GroupLegParams[] {
+  const start = new Date();
+  start.setDate(start.getDate() + 7);
+  start.setHours(hour, 0, 0, 0);
+
+  // Cut (30 min), 10 min cleanup, then colour (60 min)
+  const legs = planSequence(
+    [
+      { id: 'cut', duration: 30, bufferBefore: 0, bufferAfter: 10 },
+      { id: 'colour', duration: 60, bufferBefore: 0, bufferAfter: 0 },
+    ],
+    start
+  );
+
+  return [
+    { serviceId: cutServiceId, slotStart: legs[0].start, slotEnd: legs[0].end, maxSimultaneousBookings: 1 },
+    { serviceId: colourServiceId, slotStart: legs[1].start, slotEnd: legs[1].end, maxSimultaneousBookings: 1 },
+  ];
+}
+
+function dayAt(hour: number, minute = 0): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + 7);
+  date.setHours(hour, minute, 0, 0);
+  return date;
+}
+
+// Config matching the services below; the cut's capacity can be raised above the database's
+function groupConfigInput(cutCapacity: number) {
+  return testTenantConfig({
+    features: { enableOnlinePayments: true },
+    bookingRequirements: {
+      customFields: [
+        { id: 'allergies', label: 'Allergies', type: 'text', required: true },
+      ],
+    },
+    categories: [{
+      id: 'hair',
+      name: 'Hair',
+      services: [
+        { id: 'group-cut', name: 'Cut', duration: 30, price: 3000, bufferAfter: 10, maxSimultaneousBookings: cutCapacity },
+        { id: 'group-colour', name: 'Colour', duration: 60, price: 6000, requiresDeposit: true, depositAmount: 2000 },
+      ],
+    }],
+  });
+}
+
+function groupConfig(cutCapacity: number) {
+  return TenantConfigSchema.parse(groupConfigInput(cutCapacity));
+}
+
+async function setupTestData() {
+  debug.log('SETUP', 'Creating test business with one-at-a-time services...');
+
+  try {
+    testBusinessId = uuidv4();
+    await sql`
+      INSERT INTO businesses (
+        id, subdomain, name, timezone, config_yaml_path, config_version, status, config_json
+      )
+      VALUES (
+        ${testBusinessId},
+        'test-generic',
+        'Booking Group Test Business',
+        'America/New_York',
+        'config/tenants/test-generic.yaml',
+        1,
+        'active',
+        ${JSON.stringify(groupConfigInput(1))}::jsonb
+      )
+    `;
+
+    const category = await sql`
+      INSERT INTO categories (business_id, name, sort_order)
+      VALUES (${testBusinessId}, 'Hair', 0)
+      RETURNING id
+    `;
+
+    const services = await sql`
+      INSERT INTO services (
+        business_id,
+        category_id,
+        name,
+        external_id,
+        duration_minutes,
+        price_cents,
+        color,
+        max_simultaneous_bookings,
+        sort_order
+      )
+      VALUES
+        (${testBusinessId}, ${category[0].id}, 'Cut', 'group-cut', 30, 3000, '#10b981', 1, 0),
+        (${testBusinessId}, ${category[0].id}, 'Colour', 'group-colour', 60, 6000, '#3b82f6', 1, 1)
+      RETURNING id, external_id
+    `;
+
+    const byExternalId = new Map(services.map(s => [s.external_id, s.id]));
+    cutServiceId = byExternalId.get('group-cut');
+    colourServiceId = byExternalId.get('group-colour');
+
+    debug.success('SETUP', 'Test data created', {
+      businessId: testBusinessId,
+      cutServiceId,
+      colourServiceId,
+    });
+
+    return true;
+  } catch (error) {
+    debug.error('SETUP', 'Failed to create test data', error);
+    return false;
+  }
+}
+
+function testPlanSequenceBuffers() {
+  debug.log('GROUP_PLAN', 'Testing buffers between services...');
+
+  const services: SequenceService[] = [
+    { id: 'cut', duration: 30, bufferBefore: 5, bufferAfter: 10 },
+    { id: 'colour', duration: 60, bufferBefore: 15, bufferAfter: 0 },
+    { id: 'blow-dry', duration: 20, bufferBefore: 0, bufferAfter: 5 },
+  ];
+  const start = new Date('2030-01-07T09:00:00Z');
+  const legs = planSequence(services, start);
+  const minutes = (date: Date) => (date.getTime() - start.getTime()) / (60 * 1000);
+
+  // cut 0-30, +10 +15 -> colour 55-115, +0 +0 -> blow-dry 115-135
+  const actual = legs.map(leg => [minutes(leg.start), minutes(leg.end)]);
+  const expected = [[0, 30], [55, 115], [115, 135]];
+
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    debug.error('GROUP_PLAN', `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    return { success: false };
+  }
+
+  debug.success('GROUP_PLAN', 'Services laid out with both buffers between them');
+  return { success: true };
+}
+
+function testCombineDropsBlockedStarts() {
+  debug.log('GROUP_COMBINE', 'Testing start times where a later service is blocked...');
+
+  const services: SequenceService[] = [
+    { id: 'cut', duration: 30, bufferBefore: 0, bufferAfter: 0 },
+    { id: 'colour', duration: 60, bufferBefore: 0, bufferAfter: 0 },
+  ];
+  const slot = (start: string, minutes: number, available: boolean): TimeSlot => ({
+    start: new Date(start).toISOString(),
+    end: new Date(new Date(start).getTime() + minutes * 60 * 1000).toISOString(),
+    available,
+    capacity: available ? 1 : 0,
+    totalCapacity: 1,
+    capacityPercentage: available ? 0 : 100,
+    reason: available ? undefined : 'Fully booked',
+  });
+
+  const combined = combineSequenceSlots(services, [
+    [slot('2030-01-07T09:00:00Z', 30, true), slot('2030-01-07T10:00:00Z', 30, true), slot('2030-01-07T11:00:00Z', 30, true)],
+    [slot('2030-01-07T09:30:00Z', 60, true), slot('2030-01-07T10:30:00Z', 60, false)],
+  ]);
+
+  // 09:00 fits, 10:00 has its colour fully booked, 11:00 has no colour slot (closing)
+  const summary = combined.map(s => `${s.start.slice(11, 16)}:${s.available}`);
+
+  if (JSON.stringify(summary) !== JSON.stringify(['09:00:true', '10:00:false'])) {
+    debug.error('GROUP_COMBINE', `Unexpected slots ${JSON.stringify(summary)}`);
+    return { success: false };
+  }
+
+  if (combined[0].end !== new Date('2030-01-07T10:30:00Z').toISOString() || combined[1].reason !== 'Fully booked') {
+    debug.error('GROUP_COMBINE', 'Slot should span the sequence and carry the blocking reason');
+    return { success: false };
+  }
+
+  debug.success('GROUP_COMBINE', 'Only start times where every service fits are available');
+  return { success: true };
+}
+
+async function testAllOrNothing() {
+  debug.log('GROUP_ALL_OR_NOTHING', 'Testing a group whose second service is fully booked...');
+
+  try {
+    const legs = legsAt(9);
+
+    // Someone else holds the colour slot
+    await new ReservationManager(sql).createReservation({
+      businessId: testBusinessId,
+      serviceId: colourServiceId,
+      slotStart: legs[1].slotStart,
+      slotEnd: legs[1].slotEnd,
+      idempotencyKey: `group-blocker-${testId}`,
+      maxSimultaneousBookings: 1,
+    });
+
+    let failed = false;
+    try {
+      await new BookingGroupManager(sql).reserveGroup({
+        businessId: testBusinessId,
+        idempotencyKey: `group-blocked-${testId}`,
+        legs,
+      });
+    } catch (error) {
+      failed = error instanceof Error && error.message.includes('no longer available');
+    }
+
+    if (!failed) {
+      debug.error('GROUP_ALL_OR_NOTHING', 'Group was reserved although its second service is fully booked');
+      return { success: false };
+    }
+
+    const held = await sql`
+      SELECT COUNT(*) AS count FROM reservations
+      WHERE business_id = ${testBusinessId}
+        AND (group_id IS NOT NULL OR idempotency_key LIKE ${`group-blocked-${testId}%`})
+    `;
+    const groups = await sql`
+      SELECT COUNT(*) AS count FROM booking_groups WHERE idempotency_key = ${`group-blocked-${testId}`}
+    `;
+
+    if (Number(held[0].count) !== 0 || Number(groups[0].count) !== 0) {
+      debug.error('GROUP_ALL_OR_NOTHING', `Expected nothing held, got ${held[0].count} legs and ${groups[0].count} groups`);
+      return { success: false };
+    }
+
+    debug.success('GROUP_ALL_OR_NOTHING', 'The cut was released when the colour could not be held');
+    return { success: true };
+  } catch (error) {
+    debug.error('GROUP_ALL_OR_NOTHING', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testIdempotentRetry() {
+  debug.log('GROUP_IDEMPOTENCY', 'Testing a retried group reservation...');
+
+  try {
+    const manager = new BookingGroupManager(sql);
+    const params = { businessId: testBusinessId, idempotencyKey: `group-retry-${testId}`, legs: legsAt(12) };
+
+    const first = await manager.reserveGroup(params);
+    const second = await manager.reserveGroup(params);
+
+    const ids = (reserved: typeof first) => reserved.reservations.map(r => r.id).join(',');
+
+    if (first.group.id !== second.group.id || ids(first) !== ids(second) || first.reservations.length !== 2) {
+      debug.error('GROUP_IDEMPOTENCY', 'Retry created a different group or reservations');
+      return { success: false };
+    }
+
+    debug.success('GROUP_IDEMPOTENCY', 'Retry returned the group already held');
+    return { success: true };
+  } catch (error) {
+    debug.error('GROUP_IDEMPOTENCY', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testConcurrentGroups() {
+  debug.log('GROUP_CONCURRENCY', 'Testing 10 concurrent groups for the same times...');
+
+  try {
+    const legs = legsAt(15);
+    const manager = new BookingGroupManager(sql);
+
+    const promises = Array.from({ length: 10 }, (_, i) =>
+      manager
+        .reserveGroup({ businessId: testBusinessId, idempotencyKey: `group-race-${testId}-${i}`, legs })
+        .then(() => ({ ok: true, error: null as string | null }))
+        .catch((err: Error) => ({ ok: false, error: err.message }))
+    );
+
+    const results = await Promise.all(promises);
+    const successCount = results.filter(r => r.ok).length;
+
+    debug.log('GROUP_CONCURRENCY', 'Sample errors:', results.filter(r => !r.ok).slice(0, 3).map(r => r.error));
+
+    // CRITICAL: One visit holds both services; losers leave no legs behind
+    const held = await sql`
+      SELECT COUNT(*) AS count FROM reservations
+      WHERE business_id = ${testBusinessId}
+        AND idempotency_key LIKE ${`group-race-${testId}-%`}
+    `;
+
+    if (successCount !== 1 || Number(held[0].count) !== 2) {
+      debug.error('GROUP_CONCURRENCY', `Expected 1 group holding 2 legs, got ${successCount} groups and ${held[0].count} legs`);
+      return { success: false };
+    }
+
+    debug.success('GROUP_CONCURRENCY', 'Exactly one group holds the slot');
+    return { success: true };
+  } catch (error) {
+    debug.error('GROUP_CONCURRENCY', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testCommitUnderOneBookingId() {
+  debug.log('GROUP_COMMIT', 'Testing commit of a reserved group...');
+
+  try {
+    const manager = new BookingGroupManager(sql);
+    const { group } = await manager.reserveGroup({
+      businessId: testBusinessId,
+      idempotencyKey: `group-commit-${testId}`,
+      legs: legsAt(17),
+    });
+
+    const params = { groupId: group.id, guestEmail: `test-group-${testId}@test.com`, guestName: 'Group Guest' };
+    const committed = await manager.commitGroup(params);
+    const again = await manager.commitGroup(params);
+
+    const bookingId = committed.group.booking_id;
+    const bookingIds = committed.appointments.map(a => a.booking_id);
+
+    if (!bookingId || JSON.stringify(bookingIds) !== JSON.stringify([bookingId, `${bookingId}-2`])) {
+      debug.error('GROUP_COMMIT', `Unexpected booking IDs ${JSON.stringify(bookingIds)} for ${bookingId}`);
+      return { success: false };
+    }
+
+    if (committed.appointments.some(a => a.group_id !== group.id) || again.appointments.length !== 2 || again.group.booking_id !== bookingId) {
+      debug.error('GROUP_COMMIT', 'Legs not linked to the group, or the second commit changed it');
+      return { success: false };
+    }
+
+    const leftover = await sql`SELECT COUNT(*) AS count FROM reservations WHERE group_id = ${group.id}`;
+    if (Number(leftover[0].count) !== 0) {
+      debug.error('GROUP_COMMIT', `${leftover[0].count} reservations left after commit`);
+      return { success: false };
+    }
+
+    debug.success('GROUP_COMMIT', `Both services confirmed under ${bookingId}`);
+    return { success: true };
+  } catch (error) {
+    debug.error('GROUP_COMMIT', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testFailedLegRollsBack() {
+  debug.log('GROUP_ROLLBACK', 'Testing a commit whose second leg is rejected by the capacity trigger...');
+
+  try {
+    const manager = new BookingGroupManager(sql);
+    const { group, reservations } = await manager.reserveGroup({
+      businessId: testBusinessId,
+      idempotencyKey: `group-rollback-${testId}`,
+      legs: legsAt(19),
+    });
+
+    // Booked by the owner behind the hold's back, so only the insert of leg 2 notices
+    await sql`
+      INSERT INTO appointments (
+        business_id, service_id, slot_start, slot_end,
+        status, idempotency_key, guest_email, booking_id
+      ) VALUES (
+        ${testBusinessId}, ${colourServiceId}, ${reservations[1].slot_start}, ${reservations[1].slot_end},
+        'confirmed', ${`group-rollback-blocker-${testId}`}, 'blocker@test.com', ${`BOOK-GRP-${testId}`}
+      )
+    `;
+
+    try {
+      await manager.commitGroup({ groupId: group.id, guestEmail: `test-group-${testId}@test.com` });
+      debug.error('GROUP_ROLLBACK', 'Commit succeeded although the colour slot is taken');
+      return { success: false };
+    } catch {
+      // Expected
+    }
+
+    const appointments = await sql`
+      SELECT id, status FROM appointments
+      WHERE reservation_id = ANY(${reservations.map(r => r.id)}::uuid[])
+         OR idempotency_key = ANY(${reservations.map(r => r.idempotency_key)})
+    `;
+
+    if (appointments.length > 0) {
+      debug.error('GROUP_ROLLBACK', `Expected no appointments, found ${JSON.stringify(appointments)}`);
+      return { success: false };
+    }
+
+    const [left] = await sql`
+      SELECT
+        (SELECT COUNT(*) FROM booking_groups WHERE id = ${group.id}) AS groups,
+        (SELECT COUNT(*) FROM reservations WHERE group_id = ${group.id}) AS holds
+    `;
+
+    if (Number(left.groups) !== 0 || Number(left.holds) !== 0) {
+      debug.error('GROUP_ROLLBACK', 'Group or holds left behind', left);
+      return { success: false };
+    }
+
+    debug.success('GROUP_ROLLBACK', 'The cut was not booked and both holds were released');
+    return { success: true };
+  } catch (error) {
+    debug.error('GROUP_ROLLBACK', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testExpiredLegReleased() {
+  debug.log('GROUP_EXPIRED', 'Testing a commit whose second leg has expired...');
+
+  try {
+    const manager = new BookingGroupManager(sql);
+    const { group, reservations } = await manager.reserveGroup({
+      businessId: testBusinessId,
+      idempotencyKey: `group-expired-${testId}`,
+      legs: legsAt(21),
+    });
+
+    await sql`
+      UPDATE reservations SET expires_at = NOW() - INTERVAL '1 minute'
+      WHERE id = ${reservations[1].id}
+    `;
+
+    let failed = false;
+    try {
+      await manager.commitGroup({ groupId: group.id, guestEmail: `test-group-${testId}@test.com` });
+    } catch (error) {
+      failed = error instanceof Error && error.message === 'Reservation not found or expired';
+    }
+
+    if (!failed) {
+      debug.error('GROUP_EXPIRED', 'Commit did not fail with an expired leg');
+      return { success: false };
+    }
+
+    const [left] = await sql`
+      SELECT
+        (SELECT COUNT(*) FROM booking_groups WHERE id = ${group.id}) AS groups,
+        (SELECT COUNT(*) FROM reservations WHERE id = ${reservations[0].id}) AS holds,
+        (SELECT COUNT(*) FROM appointments WHERE group_id = ${group.id}) AS appointments
+    `;
+
+    if (Number(left.groups) !== 0 || Number(left.holds) !== 0 || Number(left.appointments) !== 0) {
+      debug.error('GROUP_EXPIRED', 'Group, first hold or an appointment left behind', left);
+      return { success: false };
+    }
+
+    debug.success('GROUP_EXPIRED', 'Nothing booked and the first hold released');
+    return { success: true };
+  } catch (error) {
+    debug.error('GROUP_EXPIRED', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testRescheduleOntoOwnSlots() {
+  debug.log('GROUP_RESCHEDULE', 'Testing a group of two cuts moved by less than its length...');
+
+  try {
+    const manager = new BookingGroupManager(sql);
+    const legs: GroupLegParams[] = [
+      { serviceId: cutServiceId, slotStart: dayAt(10), slotEnd: dayAt(10, 30), maxSimultaneousBookings: 1 },
+      { serviceId: cutServiceId, slotStart: dayAt(10, 40), slotEnd: dayAt(11, 10), maxSimultaneousBookings: 1 },
+    ];
+
+    const { group } = await manager.reserveGroup({
+      businessId: testBusinessId,
+      idempotencyKey: `group-reschedule-${testId}`,
+      legs,
+    });
+    await manager.commitGroup({ groupId: group.id, guestEmail: `test-group-${testId}@test.com` });
+
+    // The first cut lands on the second one's current slot
+    const result = await manager.rescheduleGroup({
+      groupId: group.id,
+      newStart: dayAt(10, 30),
+      config: groupConfig(1),
+      actorId: null,
+    });
+
+    const moved = await manager.listLegs(group.id);
+    const starts = moved.map(leg => new Date(leg.slot_start!).getTime());
+
+    if (!result.updated || JSON.stringify(starts) !== JSON.stringify([dayAt(10, 30).getTime(), dayAt(11, 10).getTime()])) {
+      debug.error('GROUP_RESCHEDULE', 'Group not moved', { result, starts });
+      return { success: false };
+    }
+
+    debug.success('GROUP_RESCHEDULE', 'Both cuts moved by 30 minutes');
+    return { success: true };
+  } catch (error) {
+    debug.error('GROUP_RESCHEDULE', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testFailedMoveRestored() {
+  debug.log('GROUP_RESCHEDULE_ROLLBACK', 'Testing a reschedule whose cut fails after the colour moved...');
+
+  try {
+    const manager = new BookingGroupManager(sql);
+    const { group } = await manager.reserveGroup({
+      businessId: testBusinessId,
+      idempotencyKey: `group-reschedule-rollback-${testId}`,
+      legs: legsAt(13),
+    });
+    const { appointments } = await manager.commitGroup({ groupId: group.id, guestEmail: `test-group-${testId}@test.com` });
+
+    // The config allows two cuts at once but the database only one, so the cut
+    // passes the checks and is then rejected by the capacity trigger
+    await sql`
+      INSERT INTO appointments (
+        business_id, service_id, slot_start, slot_end,
+        status, idempotency_key, guest_email, booking_id
+      ) VALUES (
+        ${testBusinessId}, ${cutServiceId}, ${dayAt(13, 45)}, ${dayAt(14, 15)},
+        'confirmed', ${`group-reschedule-blocker-${testId}`}, 'blocker@test.com', ${`BOOK-GRP-RS-${testId}`}
+      )
+    `;
+
+    // Moving later: the colour moves first, then the cut fails
+    const result = await manager.rescheduleGroup({
+      groupId: group.id,
+      newStart: dayAt(13, 30),
+      config: groupConfig(2),
+      actorId: null,
+    });
+
+    const legs = await manager.listLegs(group.id);
+    const unchanged = legs.every((leg, i) =>
+      new Date(leg.slot_start!).getTime() === new Date(appointments[i].slot_start!).getTime()
+    );
+
+    if (result.updated || result.legs[0].available || !unchanged) {
+      debug.error('GROUP_RESCHEDULE_ROLLBACK', 'Group left partly moved or reported as updated', { result, legs });
+      return { success: false };
+    }
+
+    debug.success('GROUP_RESCHEDULE_ROLLBACK', 'Colour moved back, group reported as not updated');
+    return { success: true };
+  } catch (error) {
+    debug.error('GROUP_RESCHEDULE_ROLLBACK', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testCommitChecks() {
+  debug.log('GROUP_COMMIT_CHECKS', 'Testing the booking checks on a group commit...');
+
+  try {
+    const manager = new BookingGroupManager(sql);
+    const { group } = await manager.reserveGroup({
+      businessId: testBusinessId,
+      idempotencyKey: `group-checks-${testId}`,
+      legs: legsAt(22),
+    });
+
+    const params = { groupId: group.id, guestEmail: `test-group-${testId}@test.com`, guestName: 'Group Guest' };
+    const unanswered = await commitGroupBooking(sql, params);
+    const withDeposit = await commitGroupBooking(sql, { ...params, customFields: { allergies: 'None' } });
+
+    if (unanswered.success || unanswered.fieldId !== 'allergies') {
+      debug.error('GROUP_COMMIT_CHECKS', 'Group committed without the required answer', unanswered);
+      return { success: false };
+    }
+
+    if (withDeposit.success || withDeposit.code !== 'GROUP_DEPOSIT_UNSUPPORTED') {
+      debug.error('GROUP_COMMIT_CHECKS', 'Group committed although the colour needs a deposit', withDeposit);
+      return { success: false };
+    }
+
+    const held = await manager.listReservations(group.id);
+    if (held.length !== 2) {
+      debug.error('GROUP_COMMIT_CHECKS', `Expected both legs still held, got ${held.length}`);
+      return { success: false };
+    }
+
+    debug.success('GROUP_COMMIT_CHECKS', 'Answer and deposit checked, holds kept');
+    return { success: true };
+  } catch (error) {
+    debug.error('GROUP_COMMIT_CHECKS', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function runBookingGroupTests() {
+  console.log('\n========================================');
+  console.log('BOOKING GROUP TESTS');
+  console.log('========================================\n');
+
+  const setupSuccess = await setupTestData();
+  if (!setupSuccess) {
+    console.error('Failed to setup test data. Aborting tests.');
+    return false;
+  }
+
+  const results = [];
+
+  const test1 = testPlanSequenceBuffers();
+  results.push({ name: 'Buffers between services', passed: test1.success });
+
+  const test2 = testCombineDropsBlockedStarts();
+  results.push({ name: 'Start times need every service', passed: test2.success });
+
+  const test3 = await testAllOrNothing();
+  results.push({ name: 'All or nothing reservation', passed: test3.success });
+
+  const test4 = await testIdempotentRetry();
+  results.push({ name: 'Idempotent group retry', passed: test4.success });
+
+  const test5 = await testConcurrentGroups();
+  results.push({ name: 'Concurrent groups (10 attempts)', passed: test5.success });
+
+  const test6 = await testCommitUnderOneBookingId();
+  results.push({ name: 'Commit under one booking ID', passed: test6.success });
+
+  const test7 = await testFailedLegRollsBack();
+  results.push({ name: 'Failed leg rolls back the group', passed: test7.success });
+
+  const test8 = await testExpiredLegReleased();
+  results.push({ name: 'Expired leg releases the group', passed: test8.success });
+
+  const test9 = await testRescheduleOntoOwnSlots();
+  results.push({ name: 'Legs do not block their own reschedule', passed: test9.success });
+
+  const test10 = await testFailedMoveRestored();
+  results.push({ name: 'Failed move puts the group back', passed: test10.success });
+
+  const test11 = await testCommitChecks();
+  results.push({ name: 'Group commit runs the booking checks', passed: test11.success });
+
+  // Cleanup
+  debug.log('CLEANUP', 'Cleaning up booking group test data...');
+  await cleanupTestData(sql);
+
+  console.log('\n========================================');
+  console.log('BOOKING GROUP TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runBookingGroupTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running booking group tests', error);
+    process.exit(1);
+  });
@@ -0,0 +1,453 @@
+import { sql, debug, cleanupTestData } from './setup';
+import { nanoid } from 'nanoid';
+import { v4 as uuidv4 } from 'uuid';
+import { Appointment } from '../src/db/types';
+import { ReservationManager } from '../src/lib/booking/reservation-manager';
+import { AppointmentManager } from '../src/lib/booking/appointment-manager';
+import { getServiceOccupancy, occupancyOverlaps } from '../src/lib/booking/occupancy';
+import { validateReschedule } from '../src/lib/calendar-utils';
+
+/**
+ * Buffer Occupancy Tests
+ *
+ * These tests verify that a service's setup and cleanup buffers count as
+ * occupied time everywhere: nothing can be reserved, inserted or moved into
+ * another booking's buffers, through the app or straight into the database.
+ *
+ * The service used here takes 60 minutes with 10 minutes of setup before and
+ * 15 minutes of cleanup after, one booking at a time. A booking at 10:00
+ * occupies 09:50-11:15, so the next one can start at 11:25 at the earliest
+ * (its own setup starts where the cleanup ends).
+ *
+ * Test Scenarios:
+ * 1. occupancyOverlaps blocks a slot inside another booking's cleanup
+ * 2. validateReschedule rejects a drop into another appointment's buffer
+ * 3. The trigger stamps occupied_start/occupied_end from the service buffers
+ * 4. createReservation rejects 11:15 (setup overlaps cleanup) and accepts 11:25
+ * 5. A direct INSERT into the cleanup buffer is rejected by the trigger
+ * 6. updateAppointment refuses to move an appointment into a buffer
+ * 7. 40 concurrent reservations at four start times whose buffers overlap:
+ *    exactly one succeeds, though their slots never share a start
+ */
+
+const testId = nanoid(8);
+let testBusinessId: string;
+let serviceId: string;
+
+const BUFFER_BEFORE = 10;
+const BUFFER_AFTER = 15;
+
+function at(day: number, hour: number, minute = 0): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + day);
+  date.setHours(hour, minute, 0, 0);
+  return date;
+}
+
+function hourLater(start: Date): Date {
+  return new Date(start.getTime() + 60 * 60 * 1000);
+}
+
+async function insertAppointment(slotStart: Date, key: string) {
+  const result = await sql`
+    INSERT INTO appointments (
+      id, business_id, service_id, slot_start, slot_end,
+      status, idempotency_key, guest_email, guest_phone, booking_id
+    ) VALUES (
+      ${uuidv4()}, ${testBusinessId}, ${serviceId},
+      ${slotStart}, ${hourLater(slotStart)}, 'confirmed',
+      ${`buffer-${key}-${testId}`}, ${`buffer-${key}@test.com`}, '+1234567890',
+      ${`BUF-${testId}-${key}`}
+    )
+    RETURNING *
+  `;
+
+  return result[0] as Appointment;
+}
+
+async function setupTestData() {
+  debug.log('SETUP', 'Creating test business with a buffered service...');
+
+  try {
+    testBusinessId = uuidv4();
+    await sql`
+      INSERT INTO businesses (
+        id, subdomain, name, timezone, config_yaml_path, config_version, status
+      )
+      VALUES (
+        ${testBusinessId},
+        'test-generic',
+        'Buffer Occupancy Test Business',
+        'America/New_York',
+        'config/tenants/test-generic.yaml',
+        1,
+        'active'
+      )
+    `;
+
+    const category = await sql`
+      INSERT INTO categories (business_id, name, sort_order)
+      VALUES (${testBusinessId}, 'Colour', 0)
+      RETURNING id
+    `;
+
+    const services = await sql`
+      INSERT INTO services (
+        business_id,
+        category_id,
+        name,
+        external_id,
+        duration_minutes,
+        buffer_before_minutes,
+        buffer_after_minutes,
+        price_cents,
+        color,
+        max_simultaneous_bookings,
+        sort_order
+      )
+      VALUES (
+        ${testBusinessId}, ${category[0].id}, 'Colour', 'buffer-colour', 60,
+        ${BUFFER_BEFORE}, ${BUFFER_AFTER}, 6000, '#3b82f6', 1, 0
+      )
+      RETURNING id
+    `;
+
+    serviceId = services[0].id;
+
+    debug.success('SETUP', 'Test data created', {
+      businessId: testBusinessId,
+      serviceId,
+    });
+
+    return true;
+  } catch (error) {
+    debug.error('SETUP', 'Failed to create test data', error);
+    return false;
+  }
+}
+
+function testOverlapIncludesBuffers() {
+  debug.log('BUFFER_OVERLAP', 'Testing slots next to a booking with cleanup time...');
+
+  const start = new Date('2030-01-07T10:00:00Z');
+  const booking = {
+    slot_start: start.toISOString(),
+    slot_end: hourLater(start).toISOString(),
+    occupied_start: new Date('2030-01-07T09:50:00Z').toISOString(),
+    occupied_end: new Date('2030-01-07T11:15:00Z').toISOString(),
+  };
+  const noBuffers = { bufferBefore: 0, bufferAfter: 0 };
+  const slotAt = (iso: string) => getServiceOccupancy(noBuffers, new Date(iso), hourLater(new Date(iso)));
+
+  // 11:00 is free by the bare slot, but inside the cleanup; 11:15 is clear
+  const inCleanup = occupancyOverlaps(booking, slotAt('2030-01-07T11:00:00Z'));
+  const afterCleanup = occupancyOverlaps(booking, slotAt('2030-01-07T11:15:00Z'));
+
+  // Rows without occupied columns fall back to the bare slot
+  const legacy = occupancyOverlaps(
+    { slot_start: booking.slot_start, slot_end: booking.slot_end },
+    slotAt('2030-01-07T11:00:00Z')
+  );
+
+  if (!inCleanup || afterCleanup || legacy) {
+    debug.error('BUFFER_OVERLAP', `Unexpected overlaps: ${JSON.stringify({ inCleanup, afterCleanup, legacy })}`);
+    return { success: false };
+  }
+
+  debug.success('BUFFER_OVERLAP', 'Cleanup time blocks the next slot');
+  return { success: true };
+}
+
+function testValidateRescheduleBuffers() {
+  debug.log('BUFFER_DRAG', 'Testing a drag-and-drop into another appointment\'s buffer...');
+
+  const existingStart = at(7, 10);
+  const existing = {
+    id: 'existing',
+    start_time: existingStart,
+    end_time: hourLater(existingStart),
+    occupied_start: new Date(existingStart.getTime() - BUFFER_BEFORE * 60 * 1000),
+    occupied_end: new Date(hourLater(existingStart).getTime() + BUFFER_AFTER * 60 * 1000),
+    status: 'confirmed',
+  } as Appointment;
+  const moved = { id: 'moved', status: 'confirmed' } as Appointment;
+
+  const check = (start: Date) =>
+    validateReschedule(moved, start, 60, [existing], 1, undefined, BUFFER_BEFORE, BUFFER_AFTER);
+
+  const intoCleanup = check(at(7, 11, 15));
+  const clear = check(at(7, 11, 25));
+
+  if (intoCleanup.valid || !clear.valid) {
+    debug.error('BUFFER_DRAG', `Expected 11:15 rejected and 11:25 accepted, got ${intoCleanup.valid}/${clear.valid}`);
+    return { success: false };
+  }
+
+  debug.success('BUFFER_DRAG', 'Drop rejected until both buffers fit');
+  return { success: true };
+}
+
+async function testTriggerStampsOccupancy() {
+  debug.log('BUFFER_STAMP', 'Testing occupied interval stamped on insert...');
+
+  try {
+    const slotStart = at(7, 8);
+    const reservation = await new ReservationManager(sql).createReservation({
+      businessId: testBusinessId,
+      serviceId,
+      slotStart,
+      slotEnd: hourLater(slotStart),
+      idempotencyKey: `buffer-stamp-${testId}`,
+      maxSimultaneousBookings: 1,
+    });
+
+    const expectedStart = slotStart.getTime() - BUFFER_BEFORE * 60 * 1000;
+    const expectedEnd = hourLater(slotStart).getTime() + BUFFER_AFTER * 60 * 1000;
+
+    if (
+      new Date(reservation.occupied_start!).getTime() !== expectedStart ||
+      new Date(reservation.occupied_end!).getTime() !== expectedEnd
+    ) {
+      debug.error('BUFFER_STAMP', 'Occupied interval does not match the service buffers', reservation);
+      return { success: false };
+    }
+
+    debug.success('BUFFER_STAMP', 'Reservation occupies its slot plus both buffers');
+    return { success: true };
+  } catch (error) {
+    debug.error('BUFFER_STAMP', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testReservationRespectsBuffers() {
+  debug.log('BUFFER_RESERVE', 'Testing reservations next to a booked appointment...');
+
+  try {
+    await insertAppointment(at(8, 10), 'reserve');
+    const manager = new ReservationManager(sql);
+
+    const reserve = (start: Date, key: string) =>
+      manager.createReservation({
+        businessId: testBusinessId,
+        serviceId,
+        slotStart: start,
+        slotEnd: hourLater(start),
+        idempotencyKey: `buffer-reserve-${key}-${testId}`,
+        maxSimultaneousBookings: 1,
+      });
+
+    // CRITICAL: 11:15 starts after the cleanup, but its own setup overlaps it
+    let rejected = false;
+    try {
+      await reserve(at(8, 11, 15), 'early');
+    } catch (error) {
+      rejected = error instanceof Error && error.message.includes('no longer available');
+    }
+
+    if (!rejected) {
+      debug.error('BUFFER_RESERVE', 'Reservation at 11:15 was accepted inside the buffers');
+      return { success: false };
+    }
+
+    await reserve(at(8, 11, 25), 'clear');
+
+    debug.success('BUFFER_RESERVE', '11:15 rejected, 11:25 reserved');
+    return { success: true };
+  } catch (error) {
+    debug.error('BUFFER_RESERVE', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testTriggerRejectsBufferOverlap() {
+  debug.log('BUFFER_TRIGGER', 'Testing direct insert into the cleanup buffer...');
+
+  try {
+    await insertAppointment(at(9, 10), 'first');
+
+    try {
+      await insertAppointment(at(9, 11, 5), 'second');
+      debug.error('BUFFER_TRIGGER', 'Trigger accepted an appointment inside the cleanup buffer');
+      return { success: false };
+    } catch (error) {
+      if (!(error instanceof Error) || !error.message.includes('capacity exceeded')) {
+        throw error;
+      }
+    }
+
+    debug.success('BUFFER_TRIGGER', 'Trigger rejected the overlapping buffer');
+    return { success: true };
+  } catch (error) {
+    debug.error('BUFFER_TRIGGER', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testRescheduleRespectsBuffers() {
+  debug.log('BUFFER_MOVE', 'Testing an owner reschedule into a buffer...');
+
+  try {
+    await insertAppointment(at(10, 10), 'anchor');
+    const moving = await insertAppointment(at(10, 14), 'moving');
+    const manager = new AppointmentManager(sql);
+
+    let rejected = false;
+    try {
+      await manager.updateAppointment({
+        appointmentId: moving.id,
+        slotStart: at(10, 11, 15),
+        slotEnd: hourLater(at(10, 11, 15)),
+        actorId: null,
+        expectedVersion: moving.version ?? 1,
+        maxSimultaneousBookings: 1,
+      });
+    } catch (error) {
+      rejected = error instanceof Error && error.message.includes('No available capacity');
+    }
+
+    if (!rejected) {
+      debug.error('BUFFER_MOVE', 'Appointment was moved inside the buffers');
+      return { success: false };
+    }
+
+    const updated = await manager.updateAppointment({
+      appointmentId: moving.id,
+      slotStart: at(10, 11, 25),
+      slotEnd: hourLater(at(10, 11, 25)),
+      actorId: null,
+      expectedVersion: moving.version ?? 1,
+      maxSimultaneousBookings: 1,
+    });
+
+    const expectedStart = at(10, 11, 25).getTime() - BUFFER_BEFORE * 60 * 1000;
+    if (new Date(updated.occupied_start!).getTime() !== expectedStart) {
+      debug.error('BUFFER_MOVE', 'Occupied interval was not restamped on the move', updated);
+      return { success: false };
+    }
+
+    debug.success('BUFFER_MOVE', '11:15 refused, 11:25 accepted and restamped');
+    return { success: true };
+  } catch (error) {
+    debug.error('BUFFER_MOVE', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function testConcurrentOverlappingStarts() {
+  debug.log('BUFFER_CONCURRENCY', 'Testing 40 concurrent attempts at different but overlapping start times...');
+
+  try {
+    const starts = [at(11, 10), at(11, 10, 30), at(11, 11), at(11, 11, 15)];
+    const manager = new ReservationManager(sql);
+
+    const promises = Array.from({ length: 40 }, (_, i) =>
+      manager
+        .createReservation({
+          businessId: testBusinessId,
+          serviceId,
+          slotStart: starts[i % starts.length],
+          slotEnd: hourLater(starts[i % starts.length]),
+          idempotencyKey: `buffer-concurrent-${testId}-${i}`,
+          maxSimultaneousBookings: 1,
+        })
+        .then(() => ({ ok: true, error: null as string | null }))
+        .catch((err: Error) => ({ ok: false, error: err.message }))
+    );
+
+    const results = await Promise.all(promises);
+    const successCount = results.filter(r => r.ok).length;
+
+    debug.log('BUFFER_CONCURRENCY', 'Sample errors:', results.filter(r => !r.ok).slice(0, 3).map(r => r.error));
+
+    // CRITICAL: Every pair of these bookings overlaps once buffers count
+    if (successCount !== 1) {
+      debug.error('BUFFER_CONCURRENCY', `Expected exactly 1 success, got ${successCount}. Lock is keyed too narrowly!`);
+      return { success: false };
+    }
+
+    const reservations = await sql`
+      SELECT COUNT(*) as count
+      FROM reservations
+      WHERE business_id = ${testBusinessId}
+        AND idempotency_key LIKE ${`buffer-concurrent-${testId}-%`}
+        AND expires_at > NOW()
+    `;
+
+    const reservationCount = parseInt(reservations[0].count, 10);
+
+    if (reservationCount !== 1) {
+      debug.error('BUFFER_CONCURRENCY', `Expected 1 reservation in DB, found ${reservationCount}. DATA CONSISTENCY VIOLATION!`);
+      return { success: false };
+    }
+
+    debug.success('BUFFER_CONCURRENCY', 'Exactly one of the overlapping starts was reserved');
+    return { success: true };
+  } catch (error) {
+    debug.error('BUFFER_CONCURRENCY', 'Test failed', error);
+    return { success: false };
+  }
+}
+
+async function runBufferOccupancyTests() {
+  console.log('\n========================================');
+  console.log('BUFFER OCCUPANCY TESTS');
+  console.log('========================================\n');
+
+  const setupSuccess = await setupTestData();
+  if (!setupSuccess) {
+    console.error('Failed to setup test data. Aborting tests.');
+    return false;
+  }
+
+  const results = [];
+
+  const test1 = testOverlapIncludesBuffers();
+  results.push({ name: 'Cleanup buffer blocks the next slot', passed: test1.success });
+
+  const test2 = testValidateRescheduleBuffers();
+  results.push({ name: 'Drag-and-drop respects buffers', passed: test2.success });
+
+  const test3 = await testTriggerStampsOccupancy();
+  results.push({ name: 'Trigger stamps occupied interval', passed: test3.success });
+
+  const test4 = await testReservationRespectsBuffers();
+  results.push({ name: 'Reservations respect buffers', passed: test4.success });
+
+  const test5 = await testTriggerRejectsBufferOverlap();
+  results.push({ name: 'Trigger rejects buffer overlap', passed: test5.success });
+
+  const test6 = await testRescheduleRespectsBuffers();
+  results.push({ name: 'Reschedule respects buffers', passed: test6.success });
+
+  const test7 = await testConcurrentOverlappingStarts();
+  results.push({ name: 'Concurrent overlapping starts', passed: test7.success });
+
+  // Cleanup
+  debug.log('CLEANUP', 'Cleaning up buffer occupancy test data...');
+  await cleanupTestData(sql);
+
+  console.log('\n========================================');
+  console.log('BUFFER OCCUPANCY TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runBufferOccupancyTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running buffer occupancy tests', error);
+    process.exit(1);
+  });
@@ -0,0 +1,315 @@
+import { debug } from './setup';
+import { TenantConfig, Service } from '../src/lib/config/tenant-schema';
+import { generateTimeSlots, TimeSlot } from '../src/lib/booking/slot-generator';
+import { getShortestServiceMinutes, rankDaySlots, SlotRankingContext } from '../src/lib/booking/slot-ranking';
+import { parseInTimezone, getEndOfDay } from '../src/lib/utils/timezone';
+
+/**
+ * Slot Ranking Tests
+ *
+ * These tests verify that slot recommendations favour times that pack the day
+ * and never leave a gap nobody could book, when a better time exists.
+ *
+ * The day runs 09:00-18:00 UTC with 30-minute slots for a 60-minute service
+ * and one booking at 10:00-11:00. The shortest service is 60 minutes, so any
+ * free stretch shorter than that is a dead gap.
+ *
+ * Test Scenarios:
+ * 1. The shortest service counts its buffers and skips disabled services
+ * 2. Slots against a booking or opening time score highest and are recommended
+ * 3. A slot leaving a dead gap is flagged when a slot in the same stretch isn't
+ * 4. Unavoidable gaps are never flagged
+ * 5. Preferred times boost a slot, and maxRecommended caps recommendations
+ * 6. generateTimeSlots only ranks when asked to
+ */
+
+const DAY = '2030-01-07';
+
+function at(time: string): Date {
+  return new Date(`${DAY}T${time}:00.000Z`);
+}
+
+function interval(start: string, end: string) {
+  return { start: at(start), end: at(end) };
+}
+
+function slot(start: string, end: string, available = true): TimeSlot {
+  return {
+    start: at(start).toISOString(),
+    end: at(end).toISOString(),
+    available,
+    capacity: available ? 1 : 0,
+    totalCapacity: 1,
+    capacityPercentage: available ? 0 : 100,
+    reason: available ? undefined : 'Fully booked',
+  };
+}
+
+function context(overrides: Partial<SlotRankingContext> = {}): SlotRankingContext {
+  return {
+    windows: [interval('09:00', '18:00')],
+    busy: [interval('10:00', '11:00')],
+    preferred: [],
+    bufferBefore: 0,
+    bufferAfter: 0,
+    shortestServiceMinutes: 60,
+    maxRecommended: 3,
+    ...overrides,
+  };
+}
+
+// Hourly service slots of the test day, 09:00 to 17:00 every 30 minutes
+function daySlots(): TimeSlot[] {
+  const slots: TimeSlot[] = [];
+  for (let minutes = 9 * 60; minutes <= 17 * 60; minutes += 30) {
+    const start = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+    const end = `${String(Math.floor(minutes / 60) + 1).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+    const overlapsBooking = minutes > 9 * 60 && minutes < 11 * 60;
+    slots.push(slot(start, end, !overlapsBooking));
+  }
+  return slots;
+}
+
+function find(slots: TimeSlot[], time: string): TimeSlot {
+  return slots.find(s => s.start === at(time).toISOString())!;
+}
+
+function service(id: string, duration: number, overrides: Partial<Service> = {}): Service {
+  return {
+    id,
+    name: id,
+    duration,
+    price: 0,
+    color: '#14b8a6',
+    enabled: true,
+    bufferBefore: 0,
+    bufferAfter: 0,
+    ...overrides,
+  } as Service;
+}
+
+// Only the parts of the tenant config slot generation reads
+function testConfig(services: Service[]): TenantConfig {
+  const days = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+  return {
+    business: { id: 'ranking', name: 'Ranking', timezone: 'UTC' },
+    timeSlotDuration: 30,
+    availability: days.map(day => ({
+      day,
+      enabled: true,
+      slots: [{ open: '09:00', close: '18:00' }],
+    })),
+    availabilityExceptions: [],
+    categories: [{ id: 'main', name: 'Main', sortOrder: 0, services }],
+    capacityPools: [],
+    resources: [],
+    bookingLimits: {
+      maxSimultaneousBookings: 1,
+      advanceBookingDays: 365 * 10,
+      minAdvanceBookingMinutes: 0,
+    },
+    slotRecommendations: {
+      enabled: true,
+      hideGapSlots: false,
+      maxRecommended: 3,
+      preferredTimes: [],
+    },
+  } as unknown as TenantConfig;
+}
+
+function testShortestService() {
+  debug.log('SHORTEST_SERVICE', 'Testing the shortest bookable length...');
+
+  const config = testConfig([
+    service('cut', 45, { bufferAfter: 15 }),
+    service('trim', 20, { enabled: false }),
+    service('colour', 90),
+  ]);
+
+  const shortest = getShortestServiceMinutes(config);
+
+  if (shortest !== 60) {
+    debug.error('SHORTEST_SERVICE', `Expected 60 minutes, got ${shortest}`);
+    return { success: false };
+  }
+
+  debug.success('SHORTEST_SERVICE', 'Buffers counted, disabled services skipped');
+  return { success: true };
+}
+
+function testAdjacencyRecommended() {
+  debug.log('ADJACENCY', 'Testing slots next to the booking...');
+
+  const ranked = rankDaySlots(daySlots(), context());
+  const nine = find(ranked, '09:00'); // Opening time and the booking
+  const eleven = find(ranked, '11:00'); // Right after the booking
+  const seventeen = find(ranked, '17:00'); // Closing time
+  const two = find(ranked, '14:00'); // Middle of the afternoon
+  const ten = find(ranked, '10:00'); // Taken
+
+  if (nine.score !== 3 || eleven.score !== 2 || seventeen.score !== 1 || two.score !== 0) {
+    debug.error('ADJACENCY', `Unexpected scores: ${JSON.stringify([nine.score, eleven.score, seventeen.score, two.score])}`);
+    return { success: false };
+  }
+
+  if (!nine.recommended || !eleven.recommended || !seventeen.recommended || two.recommended) {
+    debug.error('ADJACENCY', 'Expected 09:00, 11:00 and 17:00 to be the recommended slots');
+    return { success: false };
+  }
+
+  if (ten.score !== undefined || ten.recommended !== undefined) {
+    debug.error('ADJACENCY', 'Unavailable slots should not be ranked');
+    return { success: false };
+  }
+
+  debug.success('ADJACENCY', 'Packed slots are recommended');
+  return { success: true };
+}
+
+function testGapFlagged() {
+  debug.log('GAP', 'Testing a slot that leaves 30 unusable minutes...');
+
+  const ranked = rankDaySlots(daySlots(), context());
+  const elevenThirty = find(ranked, '11:30'); // 11:00-11:30 could never be booked
+  const eleven = find(ranked, '11:00');
+  const sixteenThirty = find(ranked, '16:30'); // 17:30-18:00 before closing
+
+  if (!elevenThirty.createsGap || elevenThirty.score! >= 0 || elevenThirty.recommended) {
+    debug.error('GAP', `11:30 should create a gap: ${JSON.stringify(elevenThirty)}`);
+    return { success: false };
+  }
+
+  if (eleven.createsGap || !sixteenThirty.createsGap) {
+    debug.error('GAP', 'Expected 11:00 to be clean and 16:30 to create a gap');
+    return { success: false };
+  }
+
+  debug.success('GAP', 'Avoidable gaps are flagged');
+  return { success: true };
+}
+
+function testUnavoidableGap() {
+  debug.log('UNAVOIDABLE_GAP', 'Testing a 90-minute stretch for a 60-minute service...');
+
+  // Bookings at 10:00-11:00 and 12:30-13:30 leave 11:00-12:30 free
+  const ranked = rankDaySlots(
+    [slot('11:00', '12:00'), slot('11:30', '12:30')],
+    context({ busy: [interval('10:00', '11:00'), interval('12:30', '13:30')] })
+  );
+
+  // Whichever slot is booked, 30 minutes are lost; neither should be hidden
+  if (ranked.some(s => s.createsGap)) {
+    debug.error('UNAVOIDABLE_GAP', `Unexpected createsGap: ${JSON.stringify(ranked)}`);
+    return { success: false };
+  }
+
+  debug.success('UNAVOIDABLE_GAP', 'The only ways into a stretch stay visible');
+  return { success: true };
+}
+
+function testPreferredTimes() {
+  debug.log('PREFERRED', 'Testing preferred times and maxRecommended...');
+
+  const ranked = rankDaySlots(daySlots(), context({
+    preferred: [interval('14:00', '15:00')],
+    maxRecommended: 2,
+  }));
+
+  const two = find(ranked, '14:00');
+  const twoThirty = find(ranked, '14:30');
+  const recommended = ranked.filter(s => s.recommended).map(s => s.start);
+
+  if (two.score !== 2 || twoThirty.score !== 2) {
+    debug.error('PREFERRED', `Unexpected preferred scores: ${two.score}, ${twoThirty.score}`);
+    return { success: false };
+  }
+
+  // 09:00 (3) first, then the earliest slot scoring 2
+  const expected = [at('09:00').toISOString(), at('11:00').toISOString()];
+  if (JSON.stringify(recommended) !== JSON.stringify(expected)) {
+    debug.error('PREFERRED', `Unexpected recommended slots: ${JSON.stringify(recommended)}`);
+    return { success: false };
+  }
+
+  debug.success('PREFERRED', 'Preferred times boost slots, recommendations capped');
+  return { success: true };
+}
+
+function testGenerateTimeSlotsRank() {
+  debug.log('GENERATE', 'Testing the rank option of generateTimeSlots...');
+
+  const cut = service('cut', 60);
+  const config = testConfig([cut]);
+  const startDate = parseInTimezone(DAY, 'UTC');
+  const endDate = getEndOfDay(startDate, 'UTC');
+  const existingAppointments = [{
+    slot_start: at('10:00').toISOString(),
+    slot_end: at('11:00').toISOString(),
+  }];
+
+  const plain = generateTimeSlots({ config, service: cut, startDate, endDate, existingAppointments });
+  const ranked = generateTimeSlots({ config, service: cut, startDate, endDate, existingAppointments, rank: true });
+
+  if (plain.some(s => s.score !== undefined || s.recommended !== undefined)) {
+    debug.error('GENERATE', 'Slots were ranked without rank: true');
+    return { success: false };
+  }
+
+  if (ranked.length !== plain.length || !find(ranked, '09:00').recommended || !find(ranked, '11:30').createsGap) {
+    debug.error('GENERATE', `Unexpected ranked slots: ${JSON.stringify(ranked.filter(s => s.available))}`);
+    return { success: false };
+  }
+
+  debug.success('GENERATE', 'Slots ranked only on request, in the same order');
+  return { success: true };
+}
+
+async function runSlotRankingTests() {
+  console.log('\n========================================');
+  console.log('SLOT RANKING TESTS');
+  console.log('========================================\n');
+
+  const results = [];
+
+  const test1 = testShortestService();
+  results.push({ name: 'Shortest service includes buffers', passed: test1.success });
+
+  const test2 = testAdjacencyRecommended();
+  results.push({ name: 'Packed slots recommended', passed: test2.success });
+
+  const test3 = testGapFlagged();
+  results.push({ name: 'Avoidable gaps flagged', passed: test3.success });
+
+  const test4 = testUnavoidableGap();
+  results.push({ name: 'Unavoidable gaps not flagged', passed: test4.success });
+
+  const test5 = testPreferredTimes();
+  results.push({ name: 'Preferred times and maxRecommended', passed: test5.success });
+
+  const test6 = testGenerateTimeSlotsRank();
+  results.push({ name: 'generateTimeSlots rank option', passed: test6.success });
+
+  console.log('\n========================================');
+  console.log('SLOT RANKING TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runSlotRankingTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running slot ranking tests', error);
+    process.exit(1);
+  });
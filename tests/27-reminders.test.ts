@@ -0,0 +1,327 @@
+import { sql, debug, cleanupTestData, testTenantConfig, TEST_SERVICE_ID } from './setup';
+import { nanoid } from 'nanoid';
+import { v4 as uuidv4 } from 'uuid';
+import { ReminderDispatcher, ReminderSender } from '../src/lib/notifications/reminder-dispatcher';
+import { CustomerNotificationService } from '../src/lib/email/customer-notification-service';
+
+/**
+ * Appointment Reminder Tests
+ *
+ * These tests verify that the reminder dispatcher only reports reminders that
+ * were actually delivered as sent, leaves failed ones queued for the
+ * notification worker, and never claims the same reminder twice.
+ *
+ * The dispatcher runs at a fixed "now" in 2031 so no real appointment falls
+ * inside its window. Reminders go out 24 hours ahead, through a sender that
+ * delivers to one appointment and bounces the other.
+ *
+ * Test Scenarios:
+ * 1. A delivered reminder counts as sent, a bounced one as failed
+ * 2. The bounced reminder stays claimed for the notification worker
+ * 3. A second run sends nothing again
+ * 4. An appointment outside the reminder window is not claimed yet
+ * 5. CustomerNotificationService reports an unknown appointment as not delivered
+ * 6. An appointment rescheduled after its reminder gets one for the new time
+ */
+
+const testId = nanoid(8);
+const NOW = new Date('2031-01-06T08:00:00Z');
+
+let testBusinessId: string;
+let serviceId: string;
+let deliveredId: string;
+let bouncedId: string;
+let laterId: string;
+
+const attempted: string[] = [];
+
+// Delivers every reminder except the bounced appointment's
+const sender: ReminderSender = {
+  async sendAppointmentReminder(appointmentId) {
+    attempted.push(appointmentId);
+    return appointmentId === bouncedId
+      ? { success: false, error: 'Simulated bounce' }
+      : { success: true };
+  },
+  async sendAppointmentReminderSms() {
+    return { success: false, error: 'SMS reminders are disabled in this test' };
+  },
+};
+
+async function insertAppointment(slotStart: Date, key: string): Promise<string> {
+  const id = uuidv4();
+  await sql`
+    INSERT INTO appointments (
+      id, business_id, service_id, slot_start, slot_end,
+      status, idempotency_key, guest_email, booking_id
+    ) VALUES (
+      ${id}, ${testBusinessId}, ${serviceId},
+      ${slotStart}, ${new Date(slotStart.getTime() + 60 * 60 * 1000)}, 'confirmed',
+      ${`reminder-${key}-${testId}`}, ${`test-reminder-${key}@test.com`},
+      ${`REM-${testId}-${key}`}
+    )
+  `;
+  return id;
+}
+
+async function setupTestData() {
+  debug.log('SETUP', 'Creating test business with email reminders...');
+
+  try {
+    testBusinessId = uuidv4();
+    const config = testTenantConfig({
+      notifications: {
+        ownerNotificationEmail: 'owner@test.com',
+        sendReminderEmail: true,
+        sendReminderSMS: false,
+        reminderHoursBefore: 24,
+      },
+    });
+
+    await sql`
+      INSERT INTO businesses (
+        id, subdomain, name, timezone, config_yaml_path, config_version, status,
+        config_json, subscription_tier
+      )
+      VALUES (
+        ${testBusinessId},
+        ${`test-reminders-${testId}`},
+        'Reminder Test Business',
+        'UTC',
+        'config/tenants/test-generic.yaml',
+        1,
+        'active',
+        ${JSON.stringify(config)}::jsonb,
+        'pro'
+      )
+    `;
+
+    const category = await sql`
+      INSERT INTO categories (business_id, name, sort_order)
+      VALUES (${testBusinessId}, 'Test Category', 0)
+      RETURNING id
+    `;
+
+    const services = await sql`
+      INSERT INTO services (
+        business_id, category_id, name, external_id, duration_minutes,
+        price_cents, color, max_simultaneous_bookings, sort_order
+      )
+      VALUES (
+        ${testBusinessId}, ${category[0].id}, 'Test Service', ${TEST_SERVICE_ID}, 60,
+        5000, '#14b8a6', 1, 0
+      )
+      RETURNING id
+    `;
+    serviceId = services[0].id;
+
+    // Two due within 24 hours, one three days out (inside the 7-day scan, outside the tenant window)
+    deliveredId = await insertAppointment(new Date('2031-01-06T10:00:00Z'), 'delivered');
+    bouncedId = await insertAppointment(new Date('2031-01-06T14:00:00Z'), 'bounced');
+    laterId = await insertAppointment(new Date('2031-01-09T10:00:00Z'), 'later');
+
+    debug.success('SETUP', 'Test data created', { businessId: testBusinessId, deliveredId, bouncedId, laterId });
+    return true;
+  } catch (error) {
+    debug.error('SETUP', 'Failed to create test data', error);
+    return false;
+  }
+}
+
+async function reminderClaims(appointmentId: string) {
+  return sql`
+    SELECT status, locked_until
+    FROM notification_logs
+    WHERE appointment_id = ${appointmentId}
+      AND template_name = 'appointment_reminder'
+  `;
+}
+
+async function testCountsDeliveredAndFailed() {
+  debug.log('COUNTS', 'Dispatching due reminders...');
+
+  try {
+    const firstRun = await new ReminderDispatcher(sql, sender).dispatchDueReminders(NOW);
+    debug.log('COUNTS', 'First run result', firstRun);
+
+    if (firstRun.sent !== 1 || firstRun.failed !== 1) {
+      debug.error('COUNTS', `Expected 1 sent and 1 failed, got ${firstRun.sent} sent and ${firstRun.failed} failed`);
+      return { success: false };
+    }
+
+    if (!attempted.includes(deliveredId) || !attempted.includes(bouncedId)) {
+      debug.error('COUNTS', 'Both due appointments should have been attempted');
+      return { success: false };
+    }
+
+    debug.success('COUNTS', 'Only the delivered reminder counts as sent');
+    return { success: true };
+  } catch (error) {
+    debug.error('COUNTS', 'Dispatch failed', error);
+    return { success: false };
+  }
+}
+
+async function testFailedClaimQueued() {
+  debug.log('QUEUED', 'Checking the bounced reminder claim...');
+
+  try {
+    const claims = await reminderClaims(bouncedId);
+
+    if (claims.length !== 1 || claims[0].status === 'sent' || !claims[0].locked_until) {
+      debug.error('QUEUED', 'Bounced reminder should stay claimed and unsent', claims);
+      return { success: false };
+    }
+
+    debug.success('QUEUED', 'Bounced reminder left for the notification worker');
+    return { success: true };
+  } catch (error) {
+    debug.error('QUEUED', 'Failed to read claims', error);
+    return { success: false };
+  }
+}
+
+async function testSecondRunIdempotent() {
+  debug.log('IDEMPOTENT', 'Dispatching again...');
+
+  try {
+    const attemptsBefore = attempted.length;
+    const secondRun = await new ReminderDispatcher(sql, sender).dispatchDueReminders(NOW);
+
+    if (secondRun.sent !== 0 || secondRun.failed !== 0 || attempted.length !== attemptsBefore) {
+      debug.error('IDEMPOTENT', 'Second run should not send anything', secondRun);
+      return { success: false };
+    }
+
+    debug.success('IDEMPOTENT', 'Claimed reminders are not sent twice');
+    return { success: true };
+  } catch (error) {
+    debug.error('IDEMPOTENT', 'Dispatch failed', error);
+    return { success: false };
+  }
+}
+
+async function testOutsideWindowNotClaimed() {
+  debug.log('WINDOW', 'Checking the appointment three days out...');
+
+  try {
+    const claims = await reminderClaims(laterId);
+
+    if (claims.length !== 0 || attempted.includes(laterId)) {
+      debug.error('WINDOW', 'Appointment outside the 24-hour window was claimed', claims);
+      return { success: false };
+    }
+
+    debug.success('WINDOW', 'Appointment left for a later run');
+    return { success: true };
+  } catch (error) {
+    debug.error('WINDOW', 'Failed to read claims', error);
+    return { success: false };
+  }
+}
+
+async function testUnknownAppointmentNotDelivered() {
+  debug.log('UNKNOWN', 'Sending a reminder for an appointment that does not exist...');
+
+  try {
+    const result = await new CustomerNotificationService(sql).sendAppointmentReminder(uuidv4());
+
+    if (result.success) {
+      debug.error('UNKNOWN', 'Reminder for a missing appointment reported as delivered');
+      return { success: false };
+    }
+
+    debug.success('UNKNOWN', `Reported as not delivered: ${result.error}`);
+    return { success: true };
+  } catch (error) {
+    debug.error('UNKNOWN', 'sendAppointmentReminder threw', error);
+    return { success: false };
+  }
+}
+
+async function testRescheduledGetsNewReminder() {
+  debug.log('RESCHEDULED', 'Moving the reminded appointment and dispatching again...');
+
+  try {
+    await sql`
+      UPDATE appointments
+      SET slot_start = '2031-01-06T18:00:00Z', slot_end = '2031-01-06T19:00:00Z'
+      WHERE id = ${deliveredId}
+    `;
+
+    const attemptsBefore = attempted.length;
+    const run = await new ReminderDispatcher(sql, sender).dispatchDueReminders(NOW);
+    const claims = await reminderClaims(deliveredId);
+
+    if (run.sent !== 1 || attempted.length !== attemptsBefore + 1 || claims.length !== 2) {
+      debug.error('RESCHEDULED', `Expected one new reminder, got ${run.sent} sent and ${claims.length} claims`, run);
+      return { success: false };
+    }
+
+    debug.success('RESCHEDULED', 'New time reminded once more');
+    return { success: true };
+  } catch (error) {
+    debug.error('RESCHEDULED', 'Dispatch failed', error);
+    return { success: false };
+  }
+}
+
+async function runReminderTests() {
+  console.log('\n========================================');
+  console.log('APPOINTMENT REMINDER TESTS');
+  console.log('========================================\n');
+
+  const setupSuccess = await setupTestData();
+  if (!setupSuccess) {
+    console.error('Failed to setup test data. Aborting tests.');
+    return false;
+  }
+
+  const results = [];
+
+  const test1 = await testCountsDeliveredAndFailed();
+  results.push({ name: 'Delivered vs failed counts', passed: test1.success });
+
+  const test2 = await testFailedClaimQueued();
+  results.push({ name: 'Failed reminder stays queued', passed: test2.success });
+
+  const test3 = await testSecondRunIdempotent();
+  results.push({ name: 'Second run sends nothing', passed: test3.success });
+
+  const test4 = await testOutsideWindowNotClaimed();
+  results.push({ name: 'Outside window not claimed', passed: test4.success });
+
+  const test5 = await testUnknownAppointmentNotDelivered();
+  results.push({ name: 'Unknown appointment not delivered', passed: test5.success });
+
+  const test6 = await testRescheduledGetsNewReminder();
+  results.push({ name: 'Rescheduled appointment reminded again', passed: test6.success });
+
+  // Cleanup
+  debug.log('CLEANUP', 'Cleaning up reminder test data...');
+  await cleanupTestData(sql);
+
+  console.log('\n========================================');
+  console.log('APPOINTMENT REMINDER TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runReminderTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running reminder tests', error);
+    process.exit(1);
+  });
@@ -0,0 +1,312 @@
+import { sql, debug, cleanupTestData, clearRateLimits, TEST_CONFIG } from './setup';
+import { nanoid } from 'nanoid';
+import { hashToken } from '../src/lib/auth/tokens';
+
+/**
+ * Password Reset & Change Tests
+ *
+ * Tests the forgot, reset and change password routes against a running
+ * server. The reset email is not read: the tests plant a known token's hash
+ * the same way forgot-password stores one.
+ *
+ * Test Scenarios:
+ * 1. forgot-password answers the same for known and unknown emails, and only
+ *    stores a hashed, expiring token for the known one
+ * 2. reset-password sets the new password and revokes every session
+ * 3. A reset token can only be used once
+ * 4. An expired reset token is rejected
+ * 5. change-password requires the current password, then switches to the new one
+ */
+
+const testId = nanoid(8);
+const testEmail = `test-${testId}@test.com`;
+const INITIAL_PASSWORD = 'TestPassword123!';
+const RESET_PASSWORD = 'ResetPassword456!';
+const CHANGED_PASSWORD = 'ChangedPassword789!';
+
+let userId: string;
+
+async function post(path: string, body: object, accessToken?: string) {
+  const response = await fetch(`${TEST_CONFIG.BASE_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken ? { 'Authorization': `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+  return { status: response.status, data: await response.json() };
+}
+
+async function login(password: string) {
+  return post('/api/auth/login', { email: testEmail, password });
+}
+
+// Store a reset token the way forgot-password does and return the plain token
+async function plantResetToken(expiresAt: Date): Promise<string> {
+  const token = nanoid(32);
+  await sql`
+    UPDATE users
+    SET password_reset_token = ${hashToken(token)},
+        password_reset_expires_at = ${expiresAt}
+    WHERE id = ${userId}
+  `;
+  return token;
+}
+
+async function setupTestData() {
+  debug.log('SETUP', 'Creating test customer...');
+
+  try {
+    await clearRateLimits(sql);
+
+    const { status, data } = await post('/api/auth/signup/customer', {
+      email: testEmail,
+      password: INITIAL_PASSWORD,
+      name: 'Test Customer',
+      phone: '+1234567893',
+    });
+
+    if (status >= 400) {
+      debug.error('SETUP', 'Customer signup failed', data);
+      return false;
+    }
+
+    const [user] = await sql`SELECT id FROM users WHERE email = ${testEmail}`;
+    userId = user.id;
+
+    debug.success('SETUP', 'Test customer created', { userId });
+    return true;
+  } catch (error) {
+    debug.error('SETUP', 'Failed to create test data', error);
+    return false;
+  }
+}
+
+async function testForgotPassword() {
+  debug.log('FORGOT', 'Requesting reset links for a known and an unknown email...');
+
+  try {
+    const known = await post('/api/auth/forgot-password', { email: testEmail });
+    const unknown = await post('/api/auth/forgot-password', { email: `test-nobody-${testId}@test.com` });
+
+    if (known.status !== 200 || unknown.status !== 200 || known.data.message !== unknown.data.message) {
+      debug.error('FORGOT', 'Responses differ between known and unknown emails', { known, unknown });
+      return { success: false };
+    }
+
+    const [user] = await sql`
+      SELECT password_reset_token, password_reset_expires_at
+      FROM users
+      WHERE id = ${userId}
+    `;
+
+    // Only a sha256 hex digest is stored, never the emailed token
+    if (!/^[0-9a-f]{64}$/.test(user.password_reset_token || '') || new Date(user.password_reset_expires_at) <= new Date()) {
+      debug.error('FORGOT', 'Expected a hashed token with a future expiry', user);
+      return { success: false };
+    }
+
+    debug.success('FORGOT', 'Same answer for both, hashed token stored for the known email');
+    return { success: true };
+  } catch (error) {
+    debug.error('FORGOT', 'Forgot password test failed', error);
+    return { success: false };
+  }
+}
+
+async function testResetPassword() {
+  debug.log('RESET', 'Resetting the password with a valid token...');
+
+  try {
+    const session = await login(INITIAL_PASSWORD);
+    if (session.status !== 200) {
+      debug.error('RESET', 'Initial login failed', session.data);
+      return { success: false };
+    }
+
+    const token = await plantResetToken(new Date(Date.now() + 60 * 60 * 1000));
+    const reset = await post('/api/auth/reset-password', { token, newPassword: RESET_PASSWORD });
+
+    if (reset.status !== 200) {
+      debug.error('RESET', 'Reset failed', reset.data);
+      return { success: false };
+    }
+
+    const openSessions = await sql`
+      SELECT id FROM refresh_tokens
+      WHERE user_id = ${userId} AND revoked_at IS NULL
+    `;
+
+    const oldPassword = await login(INITIAL_PASSWORD);
+    const newPassword = await login(RESET_PASSWORD);
+
+    if (openSessions.length !== 0 || oldPassword.status === 200 || newPassword.status !== 200) {
+      debug.error('RESET', 'Password or sessions not updated', {
+        openSessions: openSessions.length,
+        oldPassword: oldPassword.status,
+        newPassword: newPassword.status,
+      });
+      return { success: false };
+    }
+
+    debug.success('RESET', 'New password works, old one and all sessions revoked');
+
+    // Keep the token for the single-use check
+    return { success: true, token };
+  } catch (error) {
+    debug.error('RESET', 'Reset password test failed', error);
+    return { success: false };
+  }
+}
+
+async function testResetTokenSingleUse(token?: string) {
+  debug.log('SINGLE_USE', 'Reusing the reset token...');
+
+  if (!token) {
+    debug.error('SINGLE_USE', 'No token from the reset test');
+    return { success: false };
+  }
+
+  try {
+    const reuse = await post('/api/auth/reset-password', { token, newPassword: 'AnotherPassword123!' });
+
+    if (reuse.status !== 400) {
+      debug.error('SINGLE_USE', `Expected 400, got ${reuse.status}`, reuse.data);
+      return { success: false };
+    }
+
+    debug.success('SINGLE_USE', 'Used token rejected');
+    return { success: true };
+  } catch (error) {
+    debug.error('SINGLE_USE', 'Single-use test failed', error);
+    return { success: false };
+  }
+}
+
+async function testExpiredToken() {
+  debug.log('EXPIRED', 'Resetting with an expired token...');
+
+  try {
+    const token = await plantResetToken(new Date(Date.now() - 60 * 1000));
+    const reset = await post('/api/auth/reset-password', { token, newPassword: 'AnotherPassword123!' });
+
+    if (reset.status !== 400) {
+      debug.error('EXPIRED', `Expected 400, got ${reset.status}`, reset.data);
+      return { success: false };
+    }
+
+    debug.success('EXPIRED', 'Expired token rejected');
+    return { success: true };
+  } catch (error) {
+    debug.error('EXPIRED', 'Expired token test failed', error);
+    return { success: false };
+  }
+}
+
+async function testChangePassword() {
+  debug.log('CHANGE', 'Changing the password while logged in...');
+
+  try {
+    const session = await login(RESET_PASSWORD);
+    const accessToken = session.data.accessToken;
+
+    const wrongCurrent = await post(
+      '/api/auth/change-password',
+      { currentPassword: 'NotMyPassword123!', newPassword: CHANGED_PASSWORD },
+      accessToken
+    );
+
+    if (wrongCurrent.status !== 400) {
+      debug.error('CHANGE', `Wrong current password: expected 400, got ${wrongCurrent.status}`, wrongCurrent.data);
+      return { success: false };
+    }
+
+    const unauthenticated = await post(
+      '/api/auth/change-password',
+      { currentPassword: RESET_PASSWORD, newPassword: CHANGED_PASSWORD }
+    );
+
+    if (unauthenticated.status !== 401) {
+      debug.error('CHANGE', `No token: expected 401, got ${unauthenticated.status}`);
+      return { success: false };
+    }
+
+    const changed = await post(
+      '/api/auth/change-password',
+      { currentPassword: RESET_PASSWORD, newPassword: CHANGED_PASSWORD },
+      accessToken
+    );
+
+    const newPassword = await login(CHANGED_PASSWORD);
+
+    if (changed.status !== 200 || newPassword.status !== 200) {
+      debug.error('CHANGE', 'Password change failed', { changed: changed.data, login: newPassword.status });
+      return { success: false };
+    }
+
+    debug.success('CHANGE', 'Password changed');
+    return { success: true };
+  } catch (error) {
+    debug.error('CHANGE', 'Change password test failed', error);
+    return { success: false };
+  }
+}
+
+async function runPasswordTests() {
+  console.log('\n========================================');
+  console.log('PASSWORD RESET & CHANGE TESTS');
+  console.log('========================================\n');
+
+  const setupSuccess = await setupTestData();
+  if (!setupSuccess) {
+    console.error('Failed to setup test data. Aborting tests.');
+    return false;
+  }
+
+  const results = [];
+
+  const test1 = await testForgotPassword();
+  results.push({ name: 'Forgot password', passed: test1.success });
+
+  const test2 = await testResetPassword();
+  results.push({ name: 'Reset password', passed: test2.success });
+
+  const test3 = await testResetTokenSingleUse(test2.token);
+  results.push({ name: 'Reset token single use', passed: test3.success });
+
+  const test4 = await testExpiredToken();
+  results.push({ name: 'Expired reset token', passed: test4.success });
+
+  const test5 = await testChangePassword();
+  results.push({ name: 'Change password', passed: test5.success });
+
+  // Cleanup
+  debug.log('CLEANUP', 'Cleaning up password test data...');
+  await cleanupTestData(sql);
+
+  console.log('\n========================================');
+  console.log('PASSWORD RESET & CHANGE TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runPasswordTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running password tests', error);
+    process.exit(1);
+  });
@@ -0,0 +1,428 @@
+import { sql, debug, cleanupTestData, testTenantConfig, TEST_SERVICE_ID } from './setup';
+import { nanoid } from 'nanoid';
+import { v4 as uuidv4 } from 'uuid';
+import { TenantConfigSchema, WeeklyHoursSchema, TenantConfig } from '../src/lib/config/tenant-schema';
+import { generateTimeSlots, TimeSlot } from '../src/lib/booking/slot-generator';
+import { ReservationManager } from '../src/lib/booking/reservation-manager';
+import { StaffManager } from '../src/lib/staff/staff-manager';
+import { parseInTimezone, getEndOfDay } from '../src/lib/utils/timezone';
+
+/**
+ * Staff Availability & Reservation Tests
+ *
+ * These tests verify that slots and reservations agree on when a staff member
+ * is free: a booking holds only the staff member it is assigned to, and each
+ * person can take one booking at a time within their own hours.
+ *
+ * The business is open all day on 2031-01-07 (a Tuesday) with a 60-minute
+ * service. Alex works business hours, Blake only 09:00-12:00, and Casey has
+ * not accepted their invitation yet.
+ *
+ * Test Scenarios:
+ * 1. Slot capacity is the number of working staff without a booking of their own
+ * 2. A booking without a staff member doesn't take anyone's slot
+ * 3. Slots for one staff member follow that person's hours
+ * 4. Staff candidates: working staff for 'any', errors for unknown or off-duty staff
+ * 5. A staff member can't be reserved twice at once, but others still can
+ * 6. A taken candidate falls through to the next one
+ * 7. A reservation ignores bookings without a staff member, as slots do
+ */
+
+const testId = nanoid(8);
+const DAY = '2031-01-07';
+
+let testBusinessId: string;
+let serviceId: string;
+let alexId: string;
+let blakeId: string;
+let caseyId: string;
+
+const blakeHours = WeeklyHoursSchema.parse(
+  ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'].map(day => ({
+    day,
+    enabled: true,
+    slots: [{ open: '09:00', close: '12:00' }],
+  }))
+);
+
+function at(time: string): Date {
+  return new Date(`${DAY}T${time}:00.000Z`);
+}
+
+function staffConfig(enableMultipleStaff: boolean): TenantConfig {
+  const config = TenantConfigSchema.parse(testTenantConfig({ features: { enableMultipleStaff } }));
+
+  // The test day is further out than the schema's 365-day booking window allows
+  return { ...config, bookingLimits: { ...config.bookingLimits, advanceBookingDays: 365 * 10 } };
+}
+
+function reservationParams(start: string, end: string) {
+  return {
+    businessId: testBusinessId,
+    serviceId,
+    slotStart: at(start),
+    slotEnd: at(end),
+    idempotencyKey: `staff-${testId}-${nanoid(6)}`,
+    maxSimultaneousBookings: 1,
+  };
+}
+
+async function isRejected(reserve: () => Promise<unknown>): Promise<boolean> {
+  try {
+    await reserve();
+    return false;
+  } catch (error) {
+    return error instanceof Error && error.message.includes('no longer available');
+  }
+}
+
+async function insertStaff(name: string, status: 'active' | 'invited', weeklyHours: unknown = null): Promise<string> {
+  const [staff] = await sql`
+    INSERT INTO staff_members (business_id, name, email, status, weekly_hours)
+    VALUES (
+      ${testBusinessId}, ${name}, ${`test-staff-${name.toLowerCase()}-${testId}@test.com`}, ${status},
+      ${weeklyHours ? JSON.stringify(weeklyHours) : null}::jsonb
+    )
+    RETURNING id
+  `;
+
+  await sql`
+    INSERT INTO staff_services (staff_id, service_id)
+    VALUES (${staff.id}, ${serviceId})
+  `;
+
+  return staff.id;
+}
+
+async function setupTestData() {
+  debug.log('SETUP', 'Creating test business with three staff members...');
+
+  try {
+    testBusinessId = uuidv4();
+
+    await sql`
+      INSERT INTO businesses (id, subdomain, name, timezone, config_yaml_path, config_version, status)
+      VALUES (
+        ${testBusinessId},
+        ${`test-staff-${testId}`},
+        'Staff Test Business',
+        'UTC',
+        'config/tenants/test-generic.yaml',
+        1,
+        'active'
+      )
+    `;
+
+    const category = await sql`
+      INSERT INTO categories (business_id, name, sort_order)
+      VALUES (${testBusinessId}, 'Test Category', 0)
+      RETURNING id
+    `;
+
+    const services = await sql`
+      INSERT INTO services (
+        business_id, category_id, name, external_id, duration_minutes,
+        price_cents, color, max_simultaneous_bookings, sort_order
+      )
+      VALUES (
+        ${testBusinessId}, ${category[0].id}, 'Test Service', ${TEST_SERVICE_ID}, 60,
+        5000, '#14b8a6', 1, 0
+      )
+      RETURNING id
+    `;
+    serviceId = services[0].id;
+
+    alexId = await insertStaff('Alex', 'active');
+    blakeId = await insertStaff('Blake', 'active', blakeHours);
+    caseyId = await insertStaff('Casey', 'invited');
+
+    debug.success('SETUP', 'Test data created', { businessId: testBusinessId, alexId, blakeId, caseyId });
+    return true;
+  } catch (error) {
+    debug.error('SETUP', 'Failed to create test data', error);
+    return false;
+  }
+}
+
+function daySlots(staffId?: string): TimeSlot[] {
+  const config = staffConfig(true);
+  const service = config.categories[0].services[0];
+  const startDate = parseInTimezone(DAY, 'UTC');
+
+  return generateTimeSlots({
+    config,
+    service,
+    startDate,
+    endDate: getEndOfDay(startDate, 'UTC'),
+    existingAppointments: [
+      { slot_start: at('10:00').toISOString(), slot_end: at('11:00').toISOString(), staff_id: alexId },
+      { slot_start: at('14:00').toISOString(), slot_end: at('15:00').toISOString(), staff_id: null },
+    ],
+    staff: [
+      { id: alexId, weeklyHours: null },
+      { id: blakeId, weeklyHours: blakeHours },
+    ],
+    staffId,
+  });
+}
+
+function find(slots: TimeSlot[], time: string): TimeSlot {
+  return slots.find(s => s.start === at(time).toISOString())!;
+}
+
+function testStaffSlotCapacity() {
+  debug.log('SLOT_CAPACITY', 'Testing per-staff slot capacity...');
+
+  const slots = daySlots();
+  const nine = find(slots, '09:00'); // Both free
+  const ten = find(slots, '10:00'); // Alex is booked
+  const elevenThirty = find(slots, '11:30'); // Runs past Blake's 12:00 finish, so only Alex
+
+  if (nine.capacity !== 2 || ten.capacity !== 1 || ten.staffIds?.join() !== blakeId) {
+    debug.error('SLOT_CAPACITY', 'Unexpected morning slots', { nine, ten });
+    return { success: false };
+  }
+
+  if (elevenThirty.capacity !== 1 || elevenThirty.totalCapacity !== 1 || elevenThirty.staffIds?.join() !== alexId) {
+    debug.error('SLOT_CAPACITY', 'Unexpected 11:30 slot', elevenThirty);
+    return { success: false };
+  }
+
+  debug.success('SLOT_CAPACITY', 'Capacity counts working staff without a booking');
+  return { success: true };
+}
+
+function testUnassignedBookingSlot() {
+  debug.log('SLOT_UNASSIGNED', 'Testing the slot of a booking without staff...');
+
+  const two = find(daySlots(), '14:00');
+
+  if (!two.available || two.staffIds?.join() !== alexId) {
+    debug.error('SLOT_UNASSIGNED', 'Alex should still be free at 14:00', two);
+    return { success: false };
+  }
+
+  debug.success('SLOT_UNASSIGNED', 'Unassigned booking holds no staff member');
+  return { success: true };
+}
+
+function testSingleStaffSlots() {
+  debug.log('SLOT_SINGLE_STAFF', "Testing Blake's own slots...");
+
+  const slots = daySlots(blakeId);
+  const nine = find(slots, '09:00');
+  const two = find(slots, '14:00');
+
+  if (!nine.available || nine.staffIds?.join() !== blakeId) {
+    debug.error('SLOT_SINGLE_STAFF', 'Blake should be free at 09:00', nine);
+    return { success: false };
+  }
+
+  if (two.available || two.reason !== 'No staff available') {
+    debug.error('SLOT_SINGLE_STAFF', 'Blake does not work at 14:00', two);
+    return { success: false };
+  }
+
+  debug.success('SLOT_SINGLE_STAFF', 'Slots follow the staff member\'s hours');
+  return { success: true };
+}
+
+async function testStaffCandidates() {
+  debug.log('CANDIDATES', 'Resolving staff candidates...');
+
+  try {
+    const staffManager = new StaffManager(sql);
+    const config = staffConfig(true);
+    const resolve = (start: string, end: string, staffId?: string) =>
+      staffManager.resolveStaffCandidates(config, testBusinessId, serviceId, at(start), at(end), staffId);
+
+    const morning = await resolve('09:00', '10:00', 'any');
+    const afternoon = await resolve('14:00', '15:00');
+    const blakeAfternoon = await resolve('14:00', '15:00', blakeId);
+    const casey = await resolve('09:00', '10:00', caseyId);
+
+    if (!morning.success || morning.staffIds?.join() !== [alexId, blakeId].join()) {
+      debug.error('CANDIDATES', 'Expected Alex then Blake at 09:00 (Casey has not accepted)', morning);
+      return { success: false };
+    }
+
+    if (!afternoon.success || afternoon.staffIds?.join() !== alexId) {
+      debug.error('CANDIDATES', 'Expected only Alex at 14:00', afternoon);
+      return { success: false };
+    }
+
+    if (blakeAfternoon.success || blakeAfternoon.code !== 'STAFF_UNAVAILABLE') {
+      debug.error('CANDIDATES', 'Blake is off at 14:00', blakeAfternoon);
+      return { success: false };
+    }
+
+    if (casey.success || casey.code !== 'STAFF_NOT_FOUND') {
+      debug.error('CANDIDATES', 'Casey is not bookable yet', casey);
+      return { success: false };
+    }
+
+    // Without multiple staff, bookings aren't assigned and a specific staff member can't be asked for
+    const singleStaffConfig = staffConfig(false);
+    const unassigned = await staffManager.resolveStaffCandidates(singleStaffConfig, testBusinessId, serviceId, at('09:00'), at('10:00'));
+    const specific = await staffManager.resolveStaffCandidates(singleStaffConfig, testBusinessId, serviceId, at('09:00'), at('10:00'), alexId);
+
+    if (!unassigned.success || unassigned.staffIds !== null || specific.success) {
+      debug.error('CANDIDATES', 'Unexpected candidates with multiple staff disabled', { unassigned, specific });
+      return { success: false };
+    }
+
+    debug.success('CANDIDATES', 'Candidates follow status, hours and the requested staff member');
+    return { success: true };
+  } catch (error) {
+    debug.error('CANDIDATES', 'Failed to resolve candidates', error);
+    return { success: false };
+  }
+}
+
+async function testStaffReservation() {
+  debug.log('STAFF_RESERVATION', 'Reserving the same and different staff at 10:00...');
+
+  try {
+    const manager = new ReservationManager(sql);
+
+    const alex = await manager.createReservation({ ...reservationParams('10:00', '11:00'), staffId: alexId });
+    const alexAgain = await isRejected(() =>
+      manager.createReservation({ ...reservationParams('10:30', '11:30'), staffId: alexId })
+    );
+    // Service capacity is 1, but each staff member has their own calendar
+    const blake = await manager.createReservation({ ...reservationParams('10:00', '11:00'), staffId: blakeId });
+
+    if (alex.staff_id !== alexId || !alexAgain || blake.staff_id !== blakeId) {
+      debug.error('STAFF_RESERVATION', 'Unexpected reservations', { alex: alex.staff_id, alexAgain, blake: blake.staff_id });
+      return { success: false };
+    }
+
+    debug.success('STAFF_RESERVATION', 'One booking per staff member at a time');
+    return { success: true };
+  } catch (error) {
+    debug.error('STAFF_RESERVATION', 'Reservation failed', error);
+    return { success: false };
+  }
+}
+
+async function testCandidateFallThrough() {
+  debug.log('FALL_THROUGH', 'Reserving 11:00 with Alex already taken...');
+
+  try {
+    const manager = new ReservationManager(sql);
+    await manager.createReservation({ ...reservationParams('11:00', '12:00'), staffId: alexId });
+
+    const next = await manager.createStaffReservation(reservationParams('11:00', '12:00'), [alexId, blakeId]);
+    const none = await isRejected(() =>
+      manager.createStaffReservation(reservationParams('11:00', '12:00'), [alexId, blakeId])
+    );
+
+    if (next.staff_id !== blakeId || !none) {
+      debug.error('FALL_THROUGH', 'Expected Blake, then no one', { next: next.staff_id, none });
+      return { success: false };
+    }
+
+    debug.success('FALL_THROUGH', 'Taken candidates are skipped');
+    return { success: true };
+  } catch (error) {
+    debug.error('FALL_THROUGH', 'Reservation failed', error);
+    return { success: false };
+  }
+}
+
+async function testUnassignedBookingReservation() {
+  debug.log('RESERVE_UNASSIGNED', 'Reserving Alex over a booking without staff...');
+
+  try {
+    await sql`
+      INSERT INTO appointments (
+        id, business_id, service_id, slot_start, slot_end,
+        status, idempotency_key, guest_email, booking_id
+      ) VALUES (
+        ${uuidv4()}, ${testBusinessId}, ${serviceId},
+        ${at('15:00')}, ${at('16:00')}, 'confirmed',
+        ${`staff-unassigned-${testId}`}, ${`test-staff-guest-${testId}@test.com`},
+        ${`STF-${testId}`}
+      )
+    `;
+
+    const reservation = await new ReservationManager(sql).createReservation({
+      ...reservationParams('15:00', '16:00'),
+      staffId: alexId,
+    });
+
+    if (reservation.staff_id !== alexId) {
+      debug.error('RESERVE_UNASSIGNED', 'Reservation not assigned to Alex', reservation);
+      return { success: false };
+    }
+
+    debug.success('RESERVE_UNASSIGNED', 'Same rule as the slot generator');
+    return { success: true };
+  } catch (error) {
+    debug.error('RESERVE_UNASSIGNED', 'Alex should be free over an unassigned booking', error);
+    return { success: false };
+  }
+}
+
+async function runStaffTests() {
+  console.log('\n========================================');
+  console.log('STAFF AVAILABILITY & RESERVATION TESTS');
+  console.log('========================================\n');
+
+  const setupSuccess = await setupTestData();
+  if (!setupSuccess) {
+    console.error('Failed to setup test data. Aborting tests.');
+    return false;
+  }
+
+  const results = [];
+
+  const test1 = testStaffSlotCapacity();
+  results.push({ name: 'Slot capacity per staff', passed: test1.success });
+
+  const test2 = testUnassignedBookingSlot();
+  results.push({ name: 'Unassigned booking in slots', passed: test2.success });
+
+  const test3 = testSingleStaffSlots();
+  results.push({ name: 'Single staff member slots', passed: test3.success });
+
+  const test4 = await testStaffCandidates();
+  results.push({ name: 'Staff candidates', passed: test4.success });
+
+  const test5 = await testStaffReservation();
+  results.push({ name: 'Reservation per staff member', passed: test5.success });
+
+  const test6 = await testCandidateFallThrough();
+  results.push({ name: 'Candidate fall-through', passed: test6.success });
+
+  const test7 = await testUnassignedBookingReservation();
+  results.push({ name: 'Unassigned booking in reservations', passed: test7.success });
+
+  // Cleanup
+  debug.log('CLEANUP', 'Cleaning up staff test data...');
+  await cleanupTestData(sql);
+
+  console.log('\n========================================');
+  console.log('STAFF TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runStaffTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running staff tests', error);
+    process.exit(1);
+  });
@@ -0,0 +1,371 @@
+import { sql, debug, cleanupTestData, testTenantConfig, TEST_SERVICE_ID, TEST_CONFIG } from './setup';
+import { nanoid } from 'nanoid';
+import { v4 as uuidv4 } from 'uuid';
+import { ReservationManager } from '../src/lib/booking/reservation-manager';
+import { WaitlistManager } from '../src/lib/booking/waitlist-manager';
+import { DEPOSIT_TTL_EXTENSION_MINUTES } from '../src/lib/payments/deposit-manager';
+import { generateWaitlistOfferToken, hashToken } from '../src/lib/auth/tokens';
+
+/**
+ * Waitlist Claim Tests
+ *
+ * These tests verify that claiming a waitlist offer goes through the same
+ * checks as a regular booking commit: custom fields, booking limits and notes.
+ *
+ * The tenant asks a required custom question and allows one booking per
+ * customer per day. Offers are planted the way WaitlistManager makes them: a
+ * held reservation plus a hashed claim token on the entry. Both offers go to
+ * the same guest, on the same day.
+ *
+ * Test Scenarios:
+ * 1. The offer preview lists the custom booking questions
+ * 2. A claim without the required answer is rejected and the offer stays open
+ * 3. A claim with the answer and notes books the slot and stores both
+ * 4. A second claim the same day is stopped by the daily booking limit
+ * 5. An offer whose hold is extended for a deposit payment stays open as long
+ *    as the hold
+ */
+
+const testId = nanoid(8);
+const guestEmail = `test-waitlist-${testId}@test.com`;
+
+let testBusinessId: string;
+let serviceId: string;
+
+// A week out, so the slots are bookable whatever day the tests run
+const DAY = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+interface PlantedOffer {
+  entryId: string;
+  token: string;
+}
+
+async function post(path: string, body: object) {
+  const response = await fetch(`${TEST_CONFIG.BASE_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  return { status: response.status, data: await response.json() };
+}
+
+// Hold a slot for a new waitlist entry and return the plain claim token
+async function plantOffer(time: string, key: string): Promise<PlantedOffer> {
+  const slotStart = new Date(`${DAY}T${time}:00.000Z`);
+  const slotEnd = new Date(slotStart.getTime() + 60 * 60 * 1000);
+
+  const reservation = await new ReservationManager(sql).createReservation({
+    businessId: testBusinessId,
+    serviceId,
+    slotStart,
+    slotEnd,
+    idempotencyKey: `waitlist-claim-${key}-${testId}`,
+    ttlMinutes: 30,
+    maxSimultaneousBookings: 1,
+  });
+
+  const token = generateWaitlistOfferToken();
+  const [entry] = await sql`
+    INSERT INTO waitlist_entries (
+      business_id, service_id, email, name, range_start, range_end,
+      status, reservation_id, offer_slot_start, offer_slot_end,
+      offer_token_hash, offer_expires_at
+    ) VALUES (
+      ${testBusinessId}, ${serviceId}, ${guestEmail}, 'Waitlist Guest',
+      ${new Date(`${DAY}T00:00:00.000Z`)}, ${new Date(`${DAY}T23:59:00.000Z`)},
+      'offered', ${reservation.id}, ${slotStart}, ${slotEnd},
+      ${hashToken(token)}, ${reservation.expires_at}
+    )
+    RETURNING id
+  `;
+
+  return { entryId: entry.id, token };
+}
+
+async function setupTestData() {
+  debug.log('SETUP', 'Creating test business with a waitlist and a custom question...');
+
+  try {
+    testBusinessId = uuidv4();
+    const config = testTenantConfig({
+      features: { enableWaitlist: true },
+      bookingRequirements: {
+        customFields: [
+          { id: 'allergies', label: 'Allergies', type: 'text', required: true },
+        ],
+      },
+      bookingLimits: { maxSimultaneousBookings: 1, advanceBookingDays: 365, maxBookingsPerCustomerPerDay: 1 },
+    });
+
+    await sql`
+      INSERT INTO businesses (
+        id, subdomain, name, timezone, config_yaml_path, config_version, status,
+        config_json, subscription_tier
+      )
+      VALUES (
+        ${testBusinessId},
+        ${`test-waitlist-${testId}`},
+        'Waitlist Test Business',
+        'UTC',
+        'config/tenants/test-generic.yaml',
+        1,
+        'active',
+        ${JSON.stringify(config)}::jsonb,
+        'pro'
+      )
+    `;
+
+    const category = await sql`
+      INSERT INTO categories (business_id, name, sort_order)
+      VALUES (${testBusinessId}, 'Test Category', 0)
+      RETURNING id
+    `;
+
+    const services = await sql`
+      INSERT INTO services (
+        business_id, category_id, name, external_id, duration_minutes,
+        price_cents, color, max_simultaneous_bookings, sort_order
+      )
+      VALUES (
+        ${testBusinessId}, ${category[0].id}, 'Test Service', ${TEST_SERVICE_ID}, 60,
+        5000, '#14b8a6', 1, 0
+      )
+      RETURNING id
+    `;
+    serviceId = services[0].id;
+
+    debug.success('SETUP', 'Test data created', { businessId: testBusinessId, serviceId });
+    return true;
+  } catch (error) {
+    debug.error('SETUP', 'Failed to create test data', error);
+    return false;
+  }
+}
+
+async function testPreviewListsCustomFields(offer: PlantedOffer) {
+  debug.log('PREVIEW', 'Loading the offer preview...');
+
+  try {
+    const response = await fetch(
+      `${TEST_CONFIG.BASE_URL}/api/booking/waitlist/claim?token=${encodeURIComponent(offer.token)}`
+    );
+    const data = await response.json();
+
+    if (response.status !== 200 || data.customFields?.[0]?.id !== 'allergies' || !data.customFields[0].required) {
+      debug.error('PREVIEW', 'Expected the required allergies question in the preview', data);
+      return { success: false };
+    }
+
+    debug.success('PREVIEW', 'Custom questions included');
+    return { success: true };
+  } catch (error) {
+    debug.error('PREVIEW', 'Preview test failed', error);
+    return { success: false };
+  }
+}
+
+async function testMissingAnswerRejected(offer: PlantedOffer) {
+  debug.log('MISSING_ANSWER', 'Claiming without answering the required question...');
+
+  try {
+    const claim = await post('/api/booking/waitlist/claim', { token: offer.token });
+
+    const [entry] = await sql`
+      SELECT status FROM waitlist_entries WHERE id = ${offer.entryId}
+    `;
+
+    if (claim.status !== 400 || claim.data.code !== 'CUSTOM_FIELD_INVALID' || claim.data.fieldId !== 'allergies') {
+      debug.error('MISSING_ANSWER', `Expected 400 CUSTOM_FIELD_INVALID, got ${claim.status}`, claim.data);
+      return { success: false };
+    }
+
+    if (entry.status !== 'offered') {
+      debug.error('MISSING_ANSWER', `Offer should stay open, entry is ${entry.status}`);
+      return { success: false };
+    }
+
+    debug.success('MISSING_ANSWER', 'Claim rejected, offer still open');
+    return { success: true };
+  } catch (error) {
+    debug.error('MISSING_ANSWER', 'Missing answer test failed', error);
+    return { success: false };
+  }
+}
+
+async function testClaimStoresAnswersAndNotes(offer: PlantedOffer) {
+  debug.log('CLAIM', 'Claiming with the answer and a note...');
+
+  try {
+    const claim = await post('/api/booking/waitlist/claim', {
+      token: offer.token,
+      customFields: { allergies: 'None' },
+      notes: '  Running a few minutes late  ',
+    });
+
+    if (claim.status !== 200 || !claim.data.success) {
+      debug.error('CLAIM', `Expected 200, got ${claim.status}`, claim.data);
+      return { success: false };
+    }
+
+    const [appointment] = await sql`
+      SELECT a.custom_field_answers, a.notes, a.guest_email, a.cancellation_token, w.status AS entry_status
+      FROM appointments a
+      JOIN waitlist_entries w ON w.appointment_id = a.id
+      WHERE w.id = ${offer.entryId}
+    `;
+
+    if (!appointment || appointment.entry_status !== 'booked') {
+      debug.error('CLAIM', 'Waitlist entry was not marked as booked', appointment);
+      return { success: false };
+    }
+
+    const answer = appointment.custom_field_answers?.[0];
+    if (answer?.id !== 'allergies' || answer.value !== 'None' || appointment.notes !== 'Running a few minutes late') {
+      debug.error('CLAIM', 'Answer or notes not stored', appointment);
+      return { success: false };
+    }
+
+    if (appointment.guest_email !== guestEmail || !appointment.cancellation_token) {
+      debug.error('CLAIM', 'Guest booking should keep the entry email and get a cancellation token', appointment);
+      return { success: false };
+    }
+
+    debug.success('CLAIM', 'Slot booked with the answer and trimmed notes');
+    return { success: true };
+  } catch (error) {
+    debug.error('CLAIM', 'Claim test failed', error);
+    return { success: false };
+  }
+}
+
+async function testDailyLimitApplies(offer: PlantedOffer) {
+  debug.log('DAILY_LIMIT', 'Claiming a second slot the same day...');
+
+  try {
+    const claim = await post('/api/booking/waitlist/claim', {
+      token: offer.token,
+      customFields: { allergies: 'None' },
+    });
+
+    const appointments = await sql`
+      SELECT id FROM appointments
+      WHERE business_id = ${testBusinessId} AND guest_email = ${guestEmail}
+    `;
+
+    if (claim.status !== 403 || claim.data.code !== 'DAILY_BOOKING_LIMIT_REACHED' || claim.data.params?.limit !== 1) {
+      debug.error('DAILY_LIMIT', `Expected 403 DAILY_BOOKING_LIMIT_REACHED, got ${claim.status}`, claim.data);
+      return { success: false };
+    }
+
+    if (appointments.length !== 1) {
+      debug.error('DAILY_LIMIT', `Expected one appointment for the guest, found ${appointments.length}`);
+      return { success: false };
+    }
+
+    debug.success('DAILY_LIMIT', 'Second claim stopped by the daily limit');
+    return { success: true };
+  } catch (error) {
+    debug.error('DAILY_LIMIT', 'Daily limit test failed', error);
+    return { success: false };
+  }
+}
+
+async function testOfferHeldWhilePaying(offer: PlantedOffer) {
+  debug.log('DEPOSIT_HOLD', 'Extending the hold as a deposit payment does...');
+
+  try {
+    const [entry] = await sql`SELECT reservation_id FROM waitlist_entries WHERE id = ${offer.entryId}`;
+
+    await new ReservationManager(sql).extendReservation(entry.reservation_id, DEPOSIT_TTL_EXTENSION_MINUTES);
+    await new WaitlistManager(sql).holdOfferWithReservation(offer.entryId);
+
+    const [row] = await sql`
+      SELECT w.offer_expires_at = r.expires_at AS held
+      FROM waitlist_entries w
+      JOIN reservations r ON r.id = w.reservation_id
+      WHERE w.id = ${offer.entryId}
+    `;
+
+    if (!row?.held) {
+      debug.error('DEPOSIT_HOLD', 'Offer expires before its extended reservation', row);
+      return { success: false };
+    }
+
+    const preview = await fetch(
+      `${TEST_CONFIG.BASE_URL}/api/booking/waitlist/claim?token=${encodeURIComponent(offer.token)}`
+    );
+
+    if (preview.status !== 200) {
+      debug.error('DEPOSIT_HOLD', `Expected the offer to stay open, got ${preview.status}`);
+      return { success: false };
+    }
+
+    debug.success('DEPOSIT_HOLD', 'Offer held as long as the reservation');
+    return { success: true };
+  } catch (error) {
+    debug.error('DEPOSIT_HOLD', 'Deposit hold test failed', error);
+    return { success: false };
+  }
+}
+
+async function runWaitlistClaimTests() {
+  console.log('\n========================================');
+  console.log('WAITLIST CLAIM TESTS');
+  console.log('========================================\n');
+
+  const setupSuccess = await setupTestData();
+  if (!setupSuccess) {
+    console.error('Failed to setup test data. Aborting tests.');
+    return false;
+  }
+
+  const results = [];
+
+  const morning = await plantOffer('10:00', 'morning');
+  const afternoon = await plantOffer('14:00', 'afternoon');
+  const evening = await plantOffer('17:00', 'evening');
+
+  const test1 = await testPreviewListsCustomFields(morning);
+  results.push({ name: 'Preview lists custom questions', passed: test1.success });
+
+  const test2 = await testMissingAnswerRejected(morning);
+  results.push({ name: 'Missing required answer rejected', passed: test2.success });
+
+  const test3 = await testClaimStoresAnswersAndNotes(morning);
+  results.push({ name: 'Claim stores answers and notes', passed: test3.success });
+
+  const test4 = await testDailyLimitApplies(afternoon);
+  results.push({ name: 'Daily booking limit applies', passed: test4.success });
+
+  const test5 = await testOfferHeldWhilePaying(evening);
+  results.push({ name: 'Offer held while paying a deposit', passed: test5.success });
+
+  // Cleanup
+  debug.log('CLEANUP', 'Cleaning up waitlist claim test data...');
+  await cleanupTestData(sql);
+
+  console.log('\n========================================');
+  console.log('WAITLIST CLAIM TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runWaitlistClaimTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running waitlist claim tests', error);
+    process.exit(1);
+  });
@@ -0,0 +1,362 @@
+import { sql, debug, cleanupTestData, testTenantConfig, TEST_SERVICE_ID, TEST_CONFIG } from './setup';
+import { nanoid } from 'nanoid';
+import { v4 as uuidv4 } from 'uuid';
+import { createHash } from 'crypto';
+import { TenantConfigSchema } from '../src/lib/config/tenant-schema';
+import { evaluateCancellation, evaluateReschedule, evaluateBookingLimits } from '../src/lib/booking/policy';
+
+/**
+ * Booking Policy Tests
+ *
+ * These tests verify the tenant's cancellationPolicy and per-customer
+ * bookingLimits, and that the guest cancel route enforces them unless the
+ * owner overrode the policy for the appointment.
+ *
+ * Customers may cancel up to 24 hours ahead and may not reschedule online.
+ * A guest may hold one booking per day and two upcoming ones.
+ *
+ * Test Scenarios:
+ * 1. Cancellation is allowed before the deadline and denied after it, with the hours to show
+ * 2. The owner override skips the cancellation and reschedule rules
+ * 3. Rescheduling follows its own switch
+ * 4. The daily limit counts confirmed bookings of the same day, by email in any case
+ * 5. The pending limit counts upcoming bookings, a booking group once
+ * 6. The guest cancel route refuses a late cancellation until the owner overrides it
+ */
+
+const testId = nanoid(8);
+const guestEmail = `test-policy-${testId}@test.com`;
+const HOUR = 60 * 60 * 1000;
+
+const config = TenantConfigSchema.parse(testTenantConfig({
+  cancellationPolicy: {
+    allowCancellation: true,
+    cancellationDeadlineHours: 24,
+    allowRescheduling: false,
+    rescheduleDeadlineHours: 24,
+  },
+  bookingLimits: {
+    maxSimultaneousBookings: 1,
+    advanceBookingDays: 365,
+    maxBookingsPerCustomerPerDay: 1,
+    maxBookingsPerCustomerPending: 2,
+  },
+}));
+
+let testBusinessId: string;
+let serviceId: string;
+
+// Ten days out at midnight UTC, so the test day never straddles "now"
+const DAY_START = new Date(Math.ceil(Date.now() / (24 * HOUR)) * 24 * HOUR + 10 * 24 * HOUR);
+
+function atHour(hours: number, dayOffset = 0): Date {
+  return new Date(DAY_START.getTime() + dayOffset * 24 * HOUR + hours * HOUR);
+}
+
+async function insertAppointment(
+  slotStart: Date,
+  key: string,
+  options: { email?: string; status?: string; groupId?: string; groupIndex?: number; guestToken?: string } = {}
+): Promise<string> {
+  const id = uuidv4();
+  await sql`
+    INSERT INTO appointments (
+      id, business_id, service_id, slot_start, slot_end,
+      status, idempotency_key, guest_email, booking_id,
+      group_id, group_index, guest_token_hash, guest_token_expires_at
+    ) VALUES (
+      ${id}, ${testBusinessId}, ${serviceId},
+      ${slotStart}, ${new Date(slotStart.getTime() + HOUR)}, ${options.status || 'confirmed'},
+      ${`policy-${key}-${testId}`}, ${options.email || guestEmail},
+      ${`POL-${testId}-${key}`},
+      ${options.groupId || null}, ${options.groupIndex ?? null},
+      ${options.guestToken ? createHash('sha256').update(options.guestToken).digest('hex') : null},
+      ${options.guestToken ? new Date(Date.now() + 15 * 60 * 1000) : null}
+    )
+  `;
+  return id;
+}
+
+function limitsFor(slotStart: Date, email = guestEmail) {
+  return evaluateBookingLimits(sql, { config, businessId: testBusinessId, slotStart, guestEmail: email });
+}
+
+async function setupTestData() {
+  debug.log('SETUP', 'Creating test business with a cancellation policy and booking limits...');
+
+  try {
+    testBusinessId = uuidv4();
+
+    await sql`
+      INSERT INTO businesses (
+        id, subdomain, name, timezone, config_yaml_path, config_version, status,
+        config_json, subscription_tier
+      )
+      VALUES (
+        ${testBusinessId},
+        ${`test-policy-${testId}`},
+        'Policy Test Business',
+        'UTC',
+        'config/tenants/test-generic.yaml',
+        1,
+        'active',
+        ${JSON.stringify(config)}::jsonb,
+        'pro'
+      )
+    `;
+
+    const category = await sql`
+      INSERT INTO categories (business_id, name, sort_order)
+      VALUES (${testBusinessId}, 'Test Category', 0)
+      RETURNING id
+    `;
+
+    const services = await sql`
+      INSERT INTO services (
+        business_id, category_id, name, external_id, duration_minutes,
+        price_cents, color, max_simultaneous_bookings, sort_order
+      )
+      VALUES (
+        ${testBusinessId}, ${category[0].id}, 'Test Service', ${TEST_SERVICE_ID}, 60,
+        5000, '#14b8a6', 1, 0
+      )
+      RETURNING id
+    `;
+    serviceId = services[0].id;
+
+    debug.success('SETUP', 'Test data created', { businessId: testBusinessId, serviceId });
+    return true;
+  } catch (error) {
+    debug.error('SETUP', 'Failed to create test data', error);
+    return false;
+  }
+}
+
+function testCancellationDeadline() {
+  debug.log('CANCEL_DEADLINE', 'Cancelling 48 and 12 hours ahead...');
+
+  const now = new Date('2031-01-06T08:00:00Z');
+  const early = evaluateCancellation(config, new Date(now.getTime() + 48 * HOUR), false, now);
+  const late = evaluateCancellation(config, new Date(now.getTime() + 12 * HOUR), false, now);
+
+  if (!early.allowed) {
+    debug.error('CANCEL_DEADLINE', 'Cancellation 48 hours ahead should be allowed', early);
+    return { success: false };
+  }
+
+  if (late.allowed || late.code !== 'CANCELLATION_DEADLINE_PASSED' || late.params?.hours !== 24) {
+    debug.error('CANCEL_DEADLINE', 'Cancellation 12 hours ahead should miss the 24-hour deadline', late);
+    return { success: false };
+  }
+
+  debug.success('CANCEL_DEADLINE', 'Deadline enforced with the hours for the message');
+  return { success: true };
+}
+
+function testOwnerOverride() {
+  debug.log('OVERRIDE', 'Applying the rules to an overridden appointment...');
+
+  const now = new Date('2031-01-06T08:00:00Z');
+  const soon = new Date(now.getTime() + HOUR);
+  const cancel = evaluateCancellation(config, soon, true, now);
+  const reschedule = evaluateReschedule(config, soon, true, now);
+
+  if (!cancel.allowed || !reschedule.allowed) {
+    debug.error('OVERRIDE', 'Overridden appointment should skip every rule', { cancel, reschedule });
+    return { success: false };
+  }
+
+  debug.success('OVERRIDE', 'Owner override skips deadlines and switches');
+  return { success: true };
+}
+
+function testRescheduleSwitch() {
+  debug.log('RESCHEDULE', 'Rescheduling with online rescheduling turned off...');
+
+  const now = new Date('2031-01-06T08:00:00Z');
+  const decision = evaluateReschedule(config, new Date(now.getTime() + 72 * HOUR), false, now);
+
+  if (decision.allowed || decision.code !== 'RESCHEDULING_DISABLED') {
+    debug.error('RESCHEDULE', 'Expected RESCHEDULING_DISABLED', decision);
+    return { success: false };
+  }
+
+  debug.success('RESCHEDULE', 'Rescheduling refused while cancellation stays open');
+  return { success: true };
+}
+
+async function testDailyLimit() {
+  debug.log('DAILY_LIMIT', 'Booking twice on the same day...');
+
+  try {
+    await insertAppointment(atHour(9), 'canceled', { status: 'canceled' });
+
+    const beforeBooking = await limitsFor(atHour(15));
+    if (!beforeBooking.allowed) {
+      debug.error('DAILY_LIMIT', 'A canceled booking should not count', beforeBooking);
+      return { success: false };
+    }
+
+    await insertAppointment(atHour(10), 'daily');
+
+    const sameDay = await limitsFor(atHour(15), guestEmail.toUpperCase());
+    const nextDay = await limitsFor(atHour(15, 1));
+
+    if (sameDay.allowed || sameDay.code !== 'DAILY_BOOKING_LIMIT_REACHED' || sameDay.params?.limit !== 1) {
+      debug.error('DAILY_LIMIT', 'Second booking the same day should be refused', sameDay);
+      return { success: false };
+    }
+
+    if (!nextDay.allowed) {
+      debug.error('DAILY_LIMIT', 'A booking the next day should be allowed', nextDay);
+      return { success: false };
+    }
+
+    debug.success('DAILY_LIMIT', 'One confirmed booking per day, email matched in any case');
+    return { success: true };
+  } catch (error) {
+    debug.error('DAILY_LIMIT', 'Daily limit test failed', error);
+    return { success: false };
+  }
+}
+
+async function testPendingLimit() {
+  debug.log('PENDING_LIMIT', 'Counting upcoming bookings with a booking group...');
+
+  try {
+    // One visit of two services the next day, next to the booking from the daily limit test
+    const [group] = await sql`
+      INSERT INTO booking_groups (business_id, idempotency_key, leg_count)
+      VALUES (${testBusinessId}, ${`policy-group-${testId}`}, 2)
+      RETURNING id
+    `;
+    await insertAppointment(atHour(9, 1), 'group-1', { groupId: group.id, groupIndex: 0 });
+    await insertAppointment(atHour(10, 1), 'group-2', { groupId: group.id, groupIndex: 1 });
+
+    // Two upcoming bookings: the single one and the group
+    const third = await limitsFor(atHour(12, 3));
+
+    if (third.allowed || third.code !== 'PENDING_BOOKING_LIMIT_REACHED' || third.params?.limit !== 2) {
+      debug.error('PENDING_LIMIT', 'Third upcoming booking should be refused', third);
+      return { success: false };
+    }
+
+    const otherGuest = await limitsFor(atHour(12, 3), `test-policy-other-${testId}@test.com`);
+    if (!otherGuest.allowed) {
+      debug.error('PENDING_LIMIT', 'Another guest should not be affected', otherGuest);
+      return { success: false };
+    }
+
+    debug.success('PENDING_LIMIT', 'Group counted once toward the pending limit');
+    return { success: true };
+  } catch (error) {
+    debug.error('PENDING_LIMIT', 'Pending limit test failed', error);
+    return { success: false };
+  }
+}
+
+async function testGuestCancelRoute() {
+  debug.log('GUEST_CANCEL', 'Cancelling an appointment two hours out as a guest...');
+
+  try {
+    const guestToken = nanoid(32);
+    const bookingId = `POL-${testId}-late`;
+    const appointmentId = await insertAppointment(new Date(Date.now() + 2 * HOUR), 'late', {
+      email: `test-policy-late-${testId}@test.com`,
+      guestToken,
+    });
+
+    const cancel = async () => {
+      const response = await fetch(`${TEST_CONFIG.BASE_URL}/api/booking/guest-appointment/${bookingId}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: guestToken }),
+      });
+      return { status: response.status, data: await response.json() };
+    };
+
+    const refused = await cancel();
+
+    if (refused.status !== 403 || refused.data.code !== 'CANCELLATION_DEADLINE_PASSED' || refused.data.params?.hours !== 24) {
+      debug.error('GUEST_CANCEL', `Expected 403 CANCELLATION_DEADLINE_PASSED, got ${refused.status}`, refused.data);
+      return { success: false };
+    }
+
+    // The owner lets this one through from the dashboard
+    await sql`UPDATE appointments SET policy_override = true WHERE id = ${appointmentId}`;
+
+    const allowed = await cancel();
+    const [appointment] = await sql`SELECT status FROM appointments WHERE id = ${appointmentId}`;
+
+    if (allowed.status !== 200 || appointment.status !== 'canceled') {
+      debug.error('GUEST_CANCEL', `Overridden cancellation failed with ${allowed.status}`, { data: allowed.data, appointment });
+      return { success: false };
+    }
+
+    debug.success('GUEST_CANCEL', 'Late cancellation refused, then allowed by the override');
+    return { success: true };
+  } catch (error) {
+    debug.error('GUEST_CANCEL', 'Guest cancel route test failed', error);
+    return { success: false };
+  }
+}
+
+async function runBookingPolicyTests() {
+  console.log('\n========================================');
+  console.log('BOOKING POLICY TESTS');
+  console.log('========================================\n');
+
+  const setupSuccess = await setupTestData();
+  if (!setupSuccess) {
+    console.error('Failed to setup test data. Aborting tests.');
+    return false;
+  }
+
+  const results = [];
+
+  const test1 = testCancellationDeadline();
+  results.push({ name: 'Cancellation deadline', passed: test1.success });
+
+  const test2 = testOwnerOverride();
+  results.push({ name: 'Owner override', passed: test2.success });
+
+  const test3 = testRescheduleSwitch();
+  results.push({ name: 'Rescheduling switch', passed: test3.success });
+
+  const test4 = await testDailyLimit();
+  results.push({ name: 'Daily booking limit', passed: test4.success });
+
+  const test5 = await testPendingLimit();
+  results.push({ name: 'Pending booking limit', passed: test5.success });
+
+  const test6 = await testGuestCancelRoute();
+  results.push({ name: 'Guest cancel route', passed: test6.success });
+
+  // Cleanup
+  debug.log('CLEANUP', 'Cleaning up booking policy test data...');
+  await cleanupTestData(sql);
+
+  console.log('\n========================================');
+  console.log('BOOKING POLICY TEST RESULTS');
+  console.log('========================================\n');
+
+  results.forEach(result => {
+    const status = result.passed ? '✓ PASS' : '✗ FAIL';
+    console.log(`${status}: ${result.name}`);
+  });
+
+  const allPassed = results.every(r => r.passed);
+  console.log(`\nTotal: ${results.filter(r => r.passed).length}/${results.length} passed\n`);
+
+  return allPassed;
+}
+
+// Execute tests
+runBookingPolicyTests()
+  .then(success => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    debug.error('TEST_RUNNER', 'Fatal error running booking policy tests', error);
+    process.exit(1);
+  });
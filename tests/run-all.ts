@@ -25,6 +25,29 @@ const testSuites = [
   { name: 'Advisory Lock Tests (Step 7z)', file: 'tests/06-advisory-locks.test.ts' },
   { name: 'Database Trigger Tests (Step 7z)', file: 'tests/07-database-triggers.test.ts' },
   { name: 'Cleanup Resilience Tests (Step 7z)', file: 'tests/08-cleanup-resilience.test.ts' },
+  { name: 'Deposit Tests', file: 'tests/10-deposits.test.ts' },
+  { name: 'Custom Field Tests', file: 'tests/11-custom-fields.test.ts' },
+  { name: 'SMS Tests', file: 'tests/12-sms.test.ts' },
+  { name: 'Notification Retry Tests', file: 'tests/13-notification-retry.test.ts' },
+  { name: 'Webhook Tests', file: 'tests/14-webhooks.test.ts' },
+  { name: 'Public API Tests', file: 'tests/15-public-api.test.ts' },
+  { name: 'iCalendar Tests', file: 'tests/16-ics.test.ts' },
+  { name: 'iCalendar Parser Tests', file: 'tests/17-ics-parser.test.ts' },
+  { name: 'Recurring Series Tests', file: 'tests/18-recurrence.test.ts' },
+  { name: 'Customer Directory Tests', file: 'tests/19-customers.test.ts' },
+  { name: 'Insights Tests', file: 'tests/20-insights.test.ts' },
+  { name: 'Data Export Tests', file: 'tests/21-export.test.ts' },
+  { name: 'Capacity Pool Tests', file: 'tests/22-capacity-pools.test.ts' },
+  { name: 'Bookable Resource Tests', file: 'tests/23-resources.test.ts' },
+  { name: 'Booking Group Tests', file: 'tests/24-booking-groups.test.ts' },
+  { name: 'Buffer Occupancy Tests', file: 'tests/25-buffer-occupancy.test.ts' },
+  { name: 'Slot Ranking Tests', file: 'tests/26-slot-ranking.test.ts' },
+  { name: 'Appointment Reminder Tests', file: 'tests/27-reminders.test.ts' },
+  { name: 'Password Reset Tests', file: 'tests/28-password-reset.test.ts' },
+  { name: 'Staff Tests', file: 'tests/29-staff.test.ts' },
+  { name: 'Waitlist Claim Tests', file: 'tests/30-waitlist-claim.test.ts' },
+  { name: 'Booking Policy Tests', file: 'tests/31-booking-policy.test.ts' },
+  { name: 'Appointment Notes Tests', file: 'tests/32-notes.test.ts' },
   { name: 'Load Tests (Step 7z)', file: 'tests/load-test.ts' },
 ];
 
@@ -45,6 +45,49 @@ export const debug = {
   },
 };
 
+// Service id of testTenantConfig; insert the test service with this external_id
+export const TEST_SERVICE_ID = 'test-service';
+
+// A complete tenant config for tests that load config by business (store it
+// in businesses.config_json). Top-level sections in overrides replace the defaults.
+export function testTenantConfig(overrides: Record<string, unknown> = {}) {
+  const days = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+  return {
+    version: '1.0.0',
+    business: { id: 'test-business', name: 'Test Business', timezone: 'UTC' },
+    contact: {
+      address: { street: '1 Test Street', city: 'Test City', state: 'TS', postalCode: '00000', country: 'US' },
+      email: 'owner@test.com',
+      phone: '+1234567890',
+    },
+    branding: { primaryColor: '#14b8a6', logoUrl: 'https://example.com/logo.png' },
+    timeSlotDuration: 30,
+    availability: days.map(day => ({ day, enabled: true, slots: [{ open: '00:00', close: '23:55' }] })),
+    categories: [{
+      id: 'test-category',
+      name: 'Test Category',
+      services: [{ id: TEST_SERVICE_ID, name: 'Test Service', duration: 60, price: 5000 }],
+    }],
+    bookingRequirements: {},
+    bookingLimits: { maxSimultaneousBookings: 1, advanceBookingDays: 365 },
+    cancellationPolicy: {},
+    notifications: { ownerNotificationEmail: 'owner@test.com' },
+    ...overrides,
+  };
+}
+
+// Compare a value with the expected one as JSON, logging a mismatch
+export function expectJson(scope: string, actual: unknown, expected: unknown, message: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    debug.error(scope, `Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    return { success: false };
+  }
+
+  debug.success(scope, message);
+  return { success: true };
+}
+
 // Cleanup helper for tests
 export async function cleanupTestData(sql: any) {
   debug.log('CLEANUP', 'Starting test data cleanup');